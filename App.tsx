@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { User, UserRole, AppRoute, InventoryItem, ActivityLog, ToastMessage, Order, PriceItem, RoleConfig, Permission, FormTemplate, MedicalCode, CodeGroup, PettyCashTransaction, BillingRule } from './types';
+import { User, UserRole, AppRoute, InventoryItem, ActivityLog, ActivityLogChange, ToastMessage, Order, OrderShipmentLine, PriceItem, RoleConfig, Permission, FormTemplate, MedicalCode, CodeGroup, PettyCashTransaction, BillingRule } from './types';
 import { useAuth } from './contexts/AuthContext';
 
 import { useInventory } from './contexts/InventoryContext';
@@ -9,14 +9,17 @@ import { useAppData } from './contexts/AppDataContext';
 import { Layout } from './components/Layout';
 import { DailyReport } from './types/dailyReport';
 import { generateUUID } from './utils/uuid';
+import { resolveVendor } from './utils/vendorBranding';
+import { getLandedUnitCosts, getWeightedAverageCost } from './utils/costing';
+import { diffFields } from './utils/auditDiff';
 import { DailyReportService } from './services/DailyReportService';
+import { SemanticSearchService } from './services/SemanticSearchService';
 import { TemplateService } from './services/TemplateService';
 import Dashboard from './components/Dashboard';
 import Inventory from './components/Inventory';
 import Reports from './components/Reports';
 import Orders from './components/Orders';
 import PriceList from './components/PriceList';
-import Scanner from './components/Scanner';
 import Settings from './components/Settings';
 import Admin from './components/Admin';
 import Forms from './components/Forms';
@@ -31,6 +34,9 @@ import VoiceMemos from './components/VoiceMemos';
 import Budgets from './components/Budgets';
 import Protocols from './components/Protocols';
 import DictationProtocols from './components/DictationProtocols';
+import Transfers from './components/Transfers';
+import CycleCounts from './components/CycleCounts';
+import Vendors from './components/Vendors';
 import { SmartScheduler } from './components/SmartScheduler';
 import { InventoryIntelligenceDashboard } from './components/InventoryIntelligence';
 import { InventoryIntelligenceVerification } from './components/InventoryIntelligenceVerification';
@@ -51,6 +57,7 @@ import { MedicalCodeService } from './services/MedicalCodeService';
 import { UserService } from './services/UserService';
 import { BillingRuleService } from './services/BillingRuleService';
 import { migrateLocalToCloud } from './utils/migrateLocalToCloud';
+import { mergeStockAdjustment } from './utils/lotUtils';
 
 const STORAGE_KEYS = {
     USER: 'ha_user', // Managed by AuthContext
@@ -113,7 +120,7 @@ const App: React.FC = () => {
 
     // --- INVENTORY CONTEXT ---
     const {
-        inventory, orders, prices, codes, codeGroups,
+        inventory, orders, prices, codes, codeGroups, vendors, setVendors,
         isLoadingInventory, isLoadingOrders, isLoadingPrices, isLoadingCodes,
         refreshInventory,
         setInventory, setOrders, setPrices, setCodes, setCodeGroups,
@@ -122,14 +129,14 @@ const App: React.FC = () => {
 
     // --- APP DATA CONTEXT ---
     const {
-        protocols, templates, setTemplates, dailyReports, billingRules, pettyCashHistory, logs,
-        setDailyReports, setLogs, addLog: contextAddLog, setBillingRules
+        protocols, templates, setTemplates, dailyReports, billingRules, pettyCashHistory, logs, legacyLogs,
+        setDailyReports, addLog: contextAddLog, setBillingRules
     } = useAppData();
 
     // Local Helper wrapper for addLog — passes authenticated user's name
-    const addLog = (action: ActivityLog['action'], details: string) => {
+    const addLog = (action: ActivityLog['action'], details: string, change?: ActivityLogChange) => {
         const userName = (user as any)?.full_name || user?.username || 'System';
-        contextAddLog(action, details, userName);
+        contextAddLog(action, details, userName, change);
     };
 
     const [currentRoute, setCurrentRoute] = useState<AppRoute>(AppRoute.DASHBOARD);
@@ -226,6 +233,13 @@ const App: React.FC = () => {
         fetchUsersDb();
     }, [user?.id, accessToken]);
 
+    // Keep the semantic search index current; debounced so bulk edits embed once
+    useEffect(() => {
+        if (!user?.id) return;
+        const timer = setTimeout(() => SemanticSearchService.refreshIndex(protocols, templates, inventory), 2000);
+        return () => clearTimeout(timer);
+    }, [user?.id, protocols, templates, inventory]);
+
     // Removed: useEffect(() => { localStorage.setItem(STORAGE_KEYS.ROLES, JSON.stringify(roleConfigs)); }, [roleConfigs]);
 
     // Migration to ensure 'admin.access' exists in roleConfigs if it was missing from localStorage
@@ -329,6 +343,39 @@ const App: React.FC = () => {
 
 
 
+    // Stock changes go through the lot layer (FEFO on decreases); other fields patch the item row
+    const applyItemUpdates = async (id: string, updates: Partial<InventoryItem>): Promise<Partial<InventoryItem>> => {
+        const previous = inventory.find(inv => inv.id === id);
+        if (!previous) {
+            await InventoryService.updateItem(id, updates);
+            return updates;
+        }
+
+        const { stock, ...rest } = updates;
+        let adjusted: InventoryItem | undefined;
+        if (stock !== undefined && stock !== previous.stock) {
+            adjusted = await InventoryService.adjustStock(previous, stock);
+        }
+        // Lot-tracked items derive expiry/batch from their lots
+        if (previous.lots && previous.lots.length > 0) {
+            delete rest.expiryDate;
+            delete rest.batchNumber;
+        }
+        if (Object.keys(rest).length > 0) {
+            await InventoryService.updateItem(id, rest);
+        }
+        if (rest.averageCost !== undefined && rest.averageCost !== previous.averageCost) {
+            await InventoryService.recordCostChange({
+                itemId: id,
+                previousCost: previous.averageCost || 0,
+                newCost: rest.averageCost,
+                source: 'MANUAL',
+                recordedBy: user?.id
+            });
+        }
+        return mergeStockAdjustment(rest, adjusted);
+    };
+
     const handleImport = async (file: File) => {
         try {
             const reader = new FileReader();
@@ -459,7 +506,7 @@ const App: React.FC = () => {
                         const newItem = await InventoryService.createItem(itemData);
                         if (newItem) {
                             setInventory(prev => [newItem, ...prev]);
-                            addToast('Item added via AI Scanner', 'success');
+                            addToast('Item added via Scanner', 'success');
 
                             if (user?.id) {
                                 await InventoryService.logAction(user.id, 'ADDED', newItem.id, `AI Scanner added: ${newItem.name}`);
@@ -472,6 +519,23 @@ const App: React.FC = () => {
                         addToast(`Scan save failed: ${e.message}`, 'error');
                     }
                 }}
+                inventory={inventory}
+                onReceiveLot={async (item, lot) => {
+                    try {
+                        const updated = await InventoryService.receiveLot(item, lot);
+                        setInventory(prev => prev.map(i => i.id === updated.id ? updated : i));
+                        addToast(`Received ${lot.quantity} ${item.name}`, 'success');
+
+                        if (user?.id) {
+                            await InventoryService.logAction(user.id, 'RESTOCKED', item.id, {
+                                new_stock: updated.stock, added: lot.quantity, lot_number: lot.lotNumber, source: 'barcode_scan'
+                            });
+                            addLog('RESTOCKED', `Scanned in ${lot.quantity} ${item.name}${lot.lotNumber ? ` (lot ${lot.lotNumber})` : ''}`);
+                        }
+                    } catch (e: any) {
+                        addToast(`Receive failed: ${e.message}`, 'error');
+                    }
+                }}
                 t={t}
             />
             <ProductModal
@@ -480,8 +544,8 @@ const App: React.FC = () => {
                 onSave={async (itemData) => {
                     try {
                         if (itemData.id) {
-                            await InventoryService.updateItem(itemData.id, itemData);
-                            setInventory(prev => prev.map(i => i.id === itemData.id ? { ...i, ...itemData } : i as InventoryItem));
+                            const applied = await applyItemUpdates(itemData.id, itemData);
+                            setInventory(prev => prev.map(i => i.id === itemData.id ? { ...i, ...applied } : i as InventoryItem));
                             addToast('Item updated', 'success');
                             if (user?.id) await InventoryService.logAction(user.id, 'UPDATED', itemData.id, `Updated ${itemData.name}`);
                         } else {
@@ -525,14 +589,38 @@ const App: React.FC = () => {
                             hasPermission={hasPermission}
                             onAddItem={() => { setModalItem(undefined); setIsModalOpen(true); }}
                             onEditItem={(i) => { setModalItem(i); setIsModalOpen(true); }}
-                            onUpdateItem={async (id, updates) => {
+                            onUpdateItem={async (id, updates, reason = 'edit') => {
                                 try {
-                                    await InventoryService.updateItem(id, updates);
-                                    setInventory(prev => prev.map(inv => inv.id === id ? { ...inv, ...updates } : inv));
+                                    const previous = inventory.find(inv => inv.id === id);
+                                    const applied = await applyItemUpdates(id, updates);
+                                    setInventory(prev => prev.map(inv => inv.id === id ? { ...inv, ...applied } : inv));
                                     addToast('Item updated successfully', 'success');
 
+                                    // Only the usage buttons mean stock was used up; a lower
+                                    // count typed into an edit is a correction
+                                    const decrease = previous && updates.stock !== undefined && updates.stock < previous.stock ? previous.stock - updates.stock : 0;
+                                    const consumed = decrease > 0 && reason === 'usage';
+                                    addLog(
+                                        consumed ? 'CONSUMED' : 'UPDATED',
+                                        consumed
+                                            ? `Used ${decrease} ${previous!.unit} of ${previous!.name}`
+                                            : decrease > 0
+                                                ? `Adjusted ${previous!.name} stock from ${previous!.stock} to ${updates.stock} ${previous!.unit}`
+                                                : `Updated ${previous?.name || id}`,
+                                        { entityType: 'item', entityId: id, ...diffFields(previous, applied) }
+                                    );
+
                                     // Optional: Log update
                                     if (user?.id) await InventoryService.logAction(user.id, 'UPDATED', id, `Updated item details`, updates);
+
+                                    // Usage feeds the Intelligence Engine burn rate; corrections are kept out of it
+                                    if (user?.id && previous && decrease > 0) {
+                                        await InventoryService.logAction(user.id, consumed ? 'CONSUMED' : 'ADJUSTED', id, {
+                                            quantity: decrease,
+                                            previous_stock: previous.stock,
+                                            new_stock: updates.stock
+                                        });
+                                    }
                                 } catch (e: any) {
                                     addToast(`Update failed: ${e.message}`, 'error');
                                 }
@@ -540,9 +628,15 @@ const App: React.FC = () => {
                             onDeleteItem={async (id) => {
                                 try {
                                     if (window.confirm('Are you sure you want to completely delete this item from the database? This action cannot be undone.')) {
+                                        const removed = inventory.find(inv => inv.id === id);
                                         await InventoryService.deleteItem(id);
                                         setInventory(prev => prev.filter(inv => inv.id !== id));
                                         addToast('Item deleted successfully', 'success');
+                                        addLog('REMOVED', `Deleted ${removed?.name || id}`, {
+                                            entityType: 'item',
+                                            entityId: id,
+                                            before: removed ? { name: removed.name, sku: removed.sku, stock: removed.stock, unit: removed.unit, averageCost: removed.averageCost } : null
+                                        });
 
                                         // Optional: Log update
                                         if (user?.id) await InventoryService.logAction(user.id, 'REMOVED', id, `Deleted inventory item`);
@@ -654,6 +748,7 @@ const App: React.FC = () => {
                         <Orders
                             orders={orders}
                             inventory={inventory}
+                            vendors={vendors}
                             user={user}
                             hasPermission={hasPermission}
                             isLoadingOrders={isLoadingOrders}
@@ -662,7 +757,9 @@ const App: React.FC = () => {
                                     setIsLoadingOrders(true);
                                     if (!user?.id) throw new Error("User not authenticated");
 
-                                    const newOrder = await OrderService.createOrder(order, user.id);
+                                    // Scanned/typed vendors are linked to the vendor master by name
+                                    const vendorRecord = resolveVendor(vendors, order);
+                                    const newOrder = await OrderService.createOrder({ ...order, vendorId: vendorRecord?.id }, user.id);
                                     if (newOrder) {
                                         setOrders(prev => [newOrder, ...prev]);
                                         addToast('Order created successfully', 'success');
@@ -687,17 +784,23 @@ const App: React.FC = () => {
                                     setIsLoadingOrders(false);
                                 }
                             }}
-                            onReceiveOrder={async (order) => {
+                            onReceiveOrder={async (order, shipmentLines) => {
                                 try {
                                     if (!user?.id) throw new Error("User not authenticated");
 
                                     const now = new Date().toISOString();
+                                    const checkedBy = (user as any).full_name || user.username || 'System';
                                     let itemsProcessed = 0;
-
-                                    // ── Process each order item independently ─────────────────────────
-                                    // Each item is DB-written then immediately committed to local state.
-                                    // An error on one item shows a toast but does NOT block the others.
-                                    for (const orderItem of order.items) {
+                                    const landedCosts = getLandedUnitCosts(order);
+                                    const resolved: { line: OrderShipmentLine; name: string; item: InventoryItem; isNew: boolean }[] = [];
+
+                                    // ── 1. Resolve the inventory item for each line ───────────────────
+                                    // Items never stocked here are created empty; no stock moves until the
+                                    // shipment is recorded. A line whose item cannot be resolved is left
+                                    // out of the shipment and stays outstanding.
+                                    for (const line of shipmentLines) {
+                                        const orderItem = order.items.find(i => i.id === line.orderItemId);
+                                        if (!orderItem || line.quantity <= 0) continue;
                                         try {
                                             // 1. Look for the item in local state (fast path)
                                             let existingItem = inventory.find(inv =>
@@ -721,70 +824,33 @@ const App: React.FC = () => {
                                             }
 
                                             if (existingItem) {
-                                                // ── Existing item ──────────────────────────────────────
-                                                const receivedQuantity = orderItem.quantity * (orderItem.unitsPerPackage || 1);
-                                                const newStock = existingItem.stock + receivedQuantity;
-                                                const currentTotalValue = existingItem.stock * (existingItem.averageCost || 0);
-                                                const newOrderValue = orderItem.quantity * (orderItem.unitCost || 0);
-                                                const newAverageCost = newStock > 0
-                                                    ? (currentTotalValue + newOrderValue) / newStock
-                                                    : existingItem.averageCost;
-
-                                                // DB write
-                                                await InventoryService.updateItem(existingItem.id, {
-                                                    stock: newStock,
-                                                    averageCost: newAverageCost,
-                                                    lastChecked: now,
-                                                    lastCheckedBy: (user as any).full_name || user.username || 'System'
-                                                });
-
-                                                // Audit log (used by Intelligence Engine for cycle detection)
-                                                await InventoryService.logAction(
-                                                    user.id, 'RESTOCKED', existingItem.id,
-                                                    { new_stock: newStock, added: receivedQuantity, source_order: order.id }
-                                                );
-
-                                                // Immediately commit to local state
-                                                setInventory(prev => prev.map(inv =>
-                                                    inv.id === existingItem.id
-                                                        ? { ...inv, stock: newStock, averageCost: newAverageCost, lastChecked: now, lastCheckedBy: ((user as any).full_name || user.username || 'System') }
-                                                        : inv
-                                                ));
-                                                itemsProcessed++;
-
+                                                resolved.push({ line: { ...line, itemId: existingItem.id }, name: orderItem.name, item: existingItem, isNew: false });
                                             } else {
-                                                // ── New item ───────────────────────────────────────────
-                                                const receivedQuantity = orderItem.quantity * (orderItem.unitsPerPackage || 1);
+                                                const lotNumber = line.lotNumber || `ORDER-${order.poNumber}`;
+                                                // Created empty; the received lot below sets stock
                                                 const newItemConfig: Omit<InventoryItem, 'id'> = {
                                                     name: orderItem.name,
                                                     category: orderItem.category || 'Uncategorized',
-                                                    stock: receivedQuantity,
+                                                    stock: 0,
                                                     unit: orderItem.unitType || 'unit_each',
-                                                    averageCost: orderItem.unitCost ? orderItem.unitCost / (orderItem.unitsPerPackage || 1) : 0,
+                                                    averageCost: landedCosts[orderItem.id] || 0,
                                                     minStock: 10,
                                                     maxStock: 100,
-                                                    expiryDate: new Date(new Date().setFullYear(new Date().getFullYear() + 1)).toISOString().split('T')[0],
-                                                    batchNumber: `ORDER-${order.poNumber}`,
+                                                    expiryDate: line.expiryDate || new Date(new Date().setFullYear(new Date().getFullYear() + 1)).toISOString().split('T')[0],
+                                                    batchNumber: lotNumber,
                                                     location: 'Main Storage',
                                                     lastChecked: now,
-                                                    lastCheckedBy: (user as any).full_name || user.username || 'System'
+                                                    lastCheckedBy: checkedBy
                                                 };
 
-                                                const newItem = await InventoryService.createItem(newItemConfig);
-                                                if (!newItem) throw new Error(`DB returned null for new item: ${newItemConfig.name}`);
-
-                                                // Audit log for new item (Intelligence Engine needs this)
-                                                await InventoryService.logAction(
-                                                    user.id, 'RESTOCKED', newItem.id,
-                                                    { new_stock: receivedQuantity, added: receivedQuantity, source_order: order.id }
-                                                );
+                                                const createdItem = await InventoryService.createItem(newItemConfig);
+                                                if (!createdItem) throw new Error(`DB returned null for new item: ${newItemConfig.name}`);
 
                                                 // Back-fill order_items.item_id so future fetches can link the row
-                                                await OrderService.updateOrderItemLink(orderItem.id, newItem.id);
+                                                await OrderService.updateOrderItemLink(orderItem.id, createdItem.id);
 
-                                                // Immediately commit to local state
-                                                setInventory(prev => [...prev, newItem]);
-                                                itemsProcessed++;
+                                                setInventory(prev => [...prev, createdItem]);
+                                                resolved.push({ line: { ...line, itemId: createdItem.id }, name: orderItem.name, item: createdItem, isNew: true });
                                             }
                                         } catch (itemErr: any) {
                                             console.error(`[ReceiveOrder] Failed to process item "${orderItem.name}":`, itemErr);
@@ -792,22 +858,76 @@ const App: React.FC = () => {
                                         }
                                     }
 
-                                    // ── Mark order RECEIVED (non-blocking for inventory) ──────────────
-                                    // If this fails (e.g. transient DB issue), inventory is already updated
-                                    // correctly — we just show a warning instead of rolling everything back.
-                                    try {
-                                        await OrderService.receiveOrder(order.id);
-                                        setOrders(prev => prev.map(o =>
-                                            o.id === order.id ? { ...o, status: 'RECEIVED' as const } : o
-                                        ));
-                                    } catch (statusErr: any) {
-                                        console.warn('[ReceiveOrder] Could not update order status:', statusErr);
-                                        addToast(`Order status update failed, but inventory was updated. Please refresh.`, 'info');
+                                    if (resolved.length === 0) return;
+
+                                    // ── 2. Record the shipment ────────────────────────────────────────
+                                    // The database adds the quantities to what it has received so far and
+                                    // refuses lines that are no longer outstanding, so a delivery that was
+                                    // already received (here or by someone else) fails before any stock moves.
+                                    const updatedOrder = await OrderService.receiveShipment(order, resolved.map(r => r.line), user.id);
+                                    setOrders(prev => prev.map(o => o.id === order.id ? updatedOrder : o));
+
+                                    // ── 3. Book the stock ─────────────────────────────────────────────
+                                    // The shipment is recorded, so a line that fails here is not received
+                                    // again; it is reported for a manual stock adjustment instead.
+                                    for (const { line, name, item, isNew } of resolved) {
+                                        try {
+                                            const receivedQuantity = line.quantity * line.unitsPerPackage;
+                                            const previousCost = isNew ? 0 : (item.averageCost || 0);
+                                            const newAverageCost = isNew
+                                                ? item.averageCost
+                                                : getWeightedAverageCost(item.stock, previousCost, receivedQuantity, landedCosts[line.orderItemId]);
+
+                                            // DB write — received units land in their own lot (FEFO)
+                                            const restocked = await InventoryService.receiveLot(item, {
+                                                lotNumber: line.lotNumber || `ORDER-${order.poNumber}`,
+                                                expiryDate: line.expiryDate || (isNew ? item.expiryDate : undefined),
+                                                quantity: receivedQuantity,
+                                                orderId: order.id
+                                            });
+                                            if (!isNew) {
+                                                await InventoryService.updateItem(item.id, {
+                                                    averageCost: newAverageCost,
+                                                    lastChecked: now,
+                                                    lastCheckedBy: checkedBy
+                                                });
+                                            }
+
+                                            await InventoryService.recordCostChange({
+                                                itemId: item.id,
+                                                previousCost,
+                                                newCost: newAverageCost,
+                                                source: 'ORDER_RECEIPT',
+                                                receiptUnitCost: landedCosts[line.orderItemId],
+                                                quantity: receivedQuantity,
+                                                orderId: order.id,
+                                                recordedBy: user.id
+                                            });
+
+                                            // Audit log (used by Intelligence Engine for cycle detection)
+                                            await InventoryService.logAction(
+                                                user.id, 'RESTOCKED', item.id,
+                                                { new_stock: item.stock + receivedQuantity, added: receivedQuantity, source_order: order.id }
+                                            );
+
+                                            // Immediately commit to local state
+                                            setInventory(prev => prev.map(inv =>
+                                                inv.id === item.id
+                                                    ? { ...inv, ...restocked, averageCost: newAverageCost, lastChecked: now, lastCheckedBy: checkedBy }
+                                                    : inv
+                                            ));
+                                            itemsProcessed++;
+                                        } catch (itemErr: any) {
+                                            console.error(`[ReceiveOrder] Shipment recorded but stock not booked for "${name}":`, itemErr);
+                                            addToast(`"${name}" was recorded as received but its stock was not added (${itemErr.message}). Adjust its stock by hand.`, 'error');
+                                        }
                                     }
 
+                                    const status = updatedOrder.status;
                                     if (itemsProcessed > 0) {
-                                        addToast(`Order ${order.poNumber} received. ${itemsProcessed} item(s) updated in inventory.`, 'success');
-                                        addLog('ORDER_RECEIVED', `Received ${order.poNumber}. ${itemsProcessed} item(s) updated.`);
+                                        const backorderNote = status === 'PARTIALLY_RECEIVED' ? ' Remaining items are on back-order.' : '';
+                                        addToast(`Order ${order.poNumber} received. ${itemsProcessed} item(s) updated in inventory.${backorderNote}`, 'success');
+                                        addLog('ORDER_RECEIVED', `Received ${status === 'PARTIALLY_RECEIVED' ? 'partial shipment for ' : ''}${order.poNumber}. ${itemsProcessed} item(s) updated.`);
                                     }
 
                                 } catch (e: any) {
@@ -820,11 +940,15 @@ const App: React.FC = () => {
                                     setIsLoadingOrders(true);
 
                                     // Delete from Supabase
+                                    const deleted = orders.find(o => o.id === orderId);
                                     await OrderService.deleteOrder(orderId);
                                     setOrders(prev => prev.filter(o => o.id !== orderId));
 
-                                    // Log to local activity log
-                                    addLog('DELETED_ORDER', `Deleted order ID: ${orderId}`);
+                                    addLog('DELETED_ORDER', `Deleted order ${deleted?.poNumber || orderId}`, {
+                                        entityType: 'order',
+                                        entityId: orderId,
+                                        before: deleted ? { poNumber: deleted.poNumber, vendor: deleted.vendor, status: deleted.status, grandTotal: deleted.grandTotal, items: deleted.items.length } : null
+                                    });
 
                                     if (user?.id) {
                                         try {
@@ -891,20 +1015,26 @@ const App: React.FC = () => {
                             }}
                             onUpdatePrice={async (price) => {
                                 try {
+                                    const previousPrice = prices.find(p => p.id === price.id);
                                     await PriceService.updatePrice(price);
                                     setPrices(prev => prev.map(p => p.id === price.id ? price : p));
                                     addToast('Price item updated', 'success');
-                                    addLog('PRICE_UPDATED', `Updated service: ${price.serviceName}`);
+                                    addLog('PRICE_UPDATED', `Updated service: ${price.serviceName}`, { entityType: 'price', entityId: price.id, ...diffFields(previousPrice, price) });
                                 } catch (e) {
                                     addToast('Failed to update price item', 'error');
                                 }
                             }}
                             onDeletePrice={async (id) => {
                                 try {
+                                    const deletedPrice = prices.find(p => p.id === id);
                                     await PriceService.deletePrice(id);
                                     setPrices(prev => prev.filter(p => p.id !== id));
                                     addToast('Price item deleted', 'info');
-                                    addLog('PRICE_DELETED', `Deleted price item ID: ${id}`);
+                                    addLog('PRICE_DELETED', `Deleted service: ${deletedPrice?.serviceName || id}`, {
+                                        entityType: 'price',
+                                        entityId: id,
+                                        before: deletedPrice ? { ...deletedPrice } : null
+                                    });
                                 } catch (e) {
                                     addToast('Failed to delete price item', 'error');
                                 }
@@ -965,6 +1095,16 @@ const App: React.FC = () => {
                                     addToast(`Failed to save billing rule: ${e.message}`, 'error');
                                 }
                             }}
+                            onSaveRuleVersion={async (previous, changes, effectiveFrom) => {
+                                try {
+                                    const { closed, next } = await BillingRuleService.createRuleVersion(previous, changes, effectiveFrom);
+                                    setBillingRules(prev => [next, ...prev.map(r => r.id === closed.id ? closed : r)]);
+                                    addToast(`Saved v${next.version} of ${next.testName}`, 'success');
+                                    addLog('BILLING_RULE_SAVED', `Saved v${next.version} of rule for ${next.testName}, effective ${effectiveFrom}`);
+                                } catch (e: any) {
+                                    addToast(`Failed to save the new version: ${e.message}`, 'error');
+                                }
+                            }}
                             onDeleteRule={async (id) => {
                                 if (confirm('Delete this billing rule?')) {
                                     try {
@@ -1115,25 +1255,12 @@ const App: React.FC = () => {
                         <Reports
                             inventory={inventory}
                             logs={logs}
+                            legacyLogs={legacyLogs}
                             user={user}
                             t={t}
                             hasPermission={hasPermission}
                             onNavigate={setCurrentRoute}
                             initialTab={reportsTab}
-                            onUpdateLog={(id, details) => {
-                                setLogs(prev => prev.map(log => log.id === id ? { ...log, details } : log));
-                                addToast('Log updated successfully', 'success');
-                            }}
-                            onDeleteLog={async (id) => {
-                                try {
-                                    const { error } = await supabase.from('audit_log').delete().eq('id', id);
-                                    if (error) throw error;
-                                    setLogs(prev => prev.filter(log => log.id !== id));
-                                    addToast('Log entry permanently removed', 'success');
-                                } catch (e: any) {
-                                    addToast(`Failed to delete log: ${e.message}`, 'error');
-                                }
-                            }}
                         />
                     )}
                     {currentRoute === AppRoute.DAILY_HISTORY && hasPermission('reports.create') && (
@@ -1184,6 +1311,9 @@ const App: React.FC = () => {
                         />
                     )}
                     {currentRoute === AppRoute.SETTINGS && <Settings user={user} onUpdateUser={updateUser} isDarkMode={isDarkMode} toggleTheme={toggleTheme} onResetData={() => { }} language={language} setLanguage={setLanguage} t={t} />}
+                    {currentRoute === AppRoute.VENDORS && hasPermission('orders.view') && <Vendors vendors={vendors} setVendors={setVendors} orders={orders} hasPermission={hasPermission} t={t} />}
+                    {currentRoute === AppRoute.TRANSFERS && hasPermission('inventory.view') && <Transfers user={user} hasPermission={hasPermission} t={t} />}
+                    {currentRoute === AppRoute.CYCLE_COUNTS && hasPermission('inventory.audit') && <CycleCounts user={user} hasPermission={hasPermission} t={t} />}
                     {currentRoute === AppRoute.DICTATION_PROTOCOLS && hasPermission('admin.access') && <DictationProtocols inventory={inventory} user={user} t={t} />}
                     {currentRoute === AppRoute.ADMIN && hasPermission('admin.access') && <Admin roleConfigs={roleConfigs} onUpdateRoleConfig={updateRoleConfig} currentUser={user} t={t} />}
                     {currentRoute === AppRoute.PLATFORM && user?.platformRole && (
@@ -1233,6 +1363,7 @@ const App: React.FC = () => {
                 dailyReports={dailyReports}
                 pettyCash={pettyCashHistory}
                 protocols={protocols}
+                templates={templates}
             />
 
             {viewingReport && (
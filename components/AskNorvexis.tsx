@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { queryClinicData, QueryResult } from '../services/QueryEngine';
 import { checkConnection } from '../services/LocalAIService';
-import { InventoryItem, Order, PettyCashTransaction, Protocol } from '../types';
+import { FormTemplate, InventoryItem, Order, PettyCashTransaction, Protocol, QueryExecution, QueryPlan } from '../types';
 import { DailyReport } from '../types/dailyReport';
 
 interface Message {
@@ -10,6 +10,9 @@ interface Message {
   content: string;
   timestamp: Date;
   dataUsed?: string;
+  plan?: QueryPlan;
+  planSummary?: string;
+  execution?: QueryExecution;
 }
 
 interface AskNorvexisProps {
@@ -20,6 +23,7 @@ interface AskNorvexisProps {
   dailyReports: DailyReport[];
   pettyCash: PettyCashTransaction[];
   protocols: Protocol[];
+  templates: FormTemplate[];
 }
 
 const QUICK_QUESTIONS = [
@@ -37,11 +41,13 @@ const AskNorvexis: React.FC<AskNorvexisProps> = ({
   dailyReports,
   pettyCash,
   protocols,
+  templates,
 }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [aiConnected, setAiConnected] = useState<boolean | null>(null);
+  const [expandedPlanId, setExpandedPlanId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -58,13 +64,16 @@ const AskNorvexis: React.FC<AskNorvexisProps> = ({
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const addMessage = (role: Message['role'], content: string, dataUsed?: string) => {
+  const addMessage = (role: Message['role'], content: string, result?: Partial<QueryResult>) => {
     setMessages(prev => [...prev, {
       id: Date.now().toString(),
       role,
       content,
       timestamp: new Date(),
-      dataUsed,
+      dataUsed: result?.dataUsed,
+      plan: result?.plan,
+      planSummary: result?.planSummary,
+      execution: result?.execution,
     }]);
   };
 
@@ -84,9 +93,10 @@ const AskNorvexis: React.FC<AskNorvexisProps> = ({
         orders,
         dailyReports,
         pettyCash,
-        protocols
+        protocols,
+        templates
       );
-      addMessage('assistant', result.answer, result.dataUsed);
+      addMessage('assistant', result.answer, result);
     } catch (error: any) {
       const msg = error.message?.includes('localhost')
         ? 'LM Studio is not running. Please start the server at localhost:1234.'
@@ -95,7 +105,7 @@ const AskNorvexis: React.FC<AskNorvexisProps> = ({
     } finally {
       setLoading(false);
     }
-  }, [loading, inventory, orders, dailyReports, pettyCash, protocols]);
+  }, [loading, inventory, orders, dailyReports, pettyCash, protocols, templates]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -151,7 +161,7 @@ const AskNorvexis: React.FC<AskNorvexisProps> = ({
                 Ask me anything about your clinic
               </h4>
               <p className="text-xs text-slate-500 dark:text-slate-400 mb-6">
-                Inventory • Orders • Revenue • Expenses
+                Inventory • Orders • Revenue • Expenses • Protocols
               </p>
 
               {/* Quick Questions */}
@@ -185,7 +195,31 @@ const AskNorvexis: React.FC<AskNorvexisProps> = ({
                 }`}
               >
                 <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.content}</p>
-                {msg.dataUsed && (
+                {msg.planSummary && (
+                  <div className="mt-3 pt-2 border-t border-slate-200 dark:border-slate-700">
+                    <button
+                      onClick={() => setExpandedPlanId(expandedPlanId === msg.id ? null : msg.id)}
+                      className="flex items-start gap-1.5 text-left text-[10px] text-slate-500 dark:text-slate-400 hover:text-emerald-600 dark:hover:text-emerald-400 transition-colors"
+                      title="Show the query that produced this answer"
+                    >
+                      <i className="fa-solid fa-database mt-0.5" />
+                      <span className="font-mono">{msg.planSummary}</span>
+                    </button>
+                    {msg.execution && (
+                      <p className="text-[10px] mt-1 text-slate-400">
+                        {msg.execution.matched} row{msg.execution.matched === 1 ? '' : 's'} matched
+                        {msg.execution.value !== undefined && <> · result <span className="font-bold text-slate-600 dark:text-slate-300">{msg.execution.value}</span></>}
+                        {msg.execution.comparison && <> · vs <span className="font-bold text-slate-600 dark:text-slate-300">{msg.execution.comparison.value}</span></>}
+                      </p>
+                    )}
+                    {expandedPlanId === msg.id && msg.plan && (
+                      <pre className="mt-2 p-2 rounded-lg bg-white/70 dark:bg-black/30 text-[10px] font-mono overflow-x-auto">
+                        {JSON.stringify(msg.plan, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                )}
+                {msg.dataUsed && !msg.planSummary && (
                   <p className="text-[10px] mt-2 opacity-60">
                     Source: {msg.dataUsed}
                   </p>
@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DraftShift, ScheduleDraft, ScheduleRules, Shift, StaffAvailability, TimeOffRequest, User } from '../types';
+import { ScheduleService } from '../services/ScheduleService';
+import AvailabilityEditor from './AvailabilityEditor';
+import { DEFAULT_MAX_HOURS_PER_WEEK, DEFAULT_SCHEDULE_RULES, WEEKDAY_NAMES, buildScheduleDraft, localDateStr, shiftHours, staffingRoleOf } from '../utils/autoScheduler';
+
+type ExtendedUser = User & { full_name?: string };
+
+interface AutoSchedulerProps {
+    dates: string[]; // Visible range, YYYY-MM-DD
+    users: User[];
+    shifts: Shift[];
+    timeOffRequests: TimeOffRequest[];
+    onAccept: (saved: Shift[]) => void;
+    onClose: () => void;
+}
+
+const PRIOR_WEEKS_FOR_ROTATION = 8;
+
+const inputClass = 'px-2 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-200 outline-none focus:border-indigo-500';
+
+const nameOf = (u?: User) => u ? ((u as ExtendedUser).full_name || u.username) : 'Unknown';
+
+const AutoScheduler: React.FC<AutoSchedulerProps> = ({ dates, users, shifts, timeOffRequests, onAccept, onClose }) => {
+    const [tab, setTab] = useState<'rules' | 'staff' | 'draft'>('rules');
+    const [rules, setRules] = useState<ScheduleRules>(DEFAULT_SCHEDULE_RULES);
+    const [availability, setAvailability] = useState<StaffAvailability[]>([]);
+    const [draft, setDraft] = useState<ScheduleDraft | null>(null);
+    const [excluded, setExcluded] = useState<Set<string>>(new Set());
+    const [isBusy, setIsBusy] = useState(false);
+
+    const staff = useMemo(() => users.filter(u => staffingRoleOf(u) !== null), [users]);
+
+    useEffect(() => {
+        Promise.all([ScheduleService.fetchScheduleRules(), ScheduleService.fetchStaffAvailability()]).then(([savedRules, savedAvailability]) => {
+            if (savedRules) setRules(savedRules);
+            setAvailability(savedAvailability);
+        });
+    }, []);
+
+    const profileFor = (userId: string): StaffAvailability =>
+        availability.find(a => a.user_id === userId) || { user_id: userId, max_hours_per_week: DEFAULT_MAX_HOURS_PER_WEEK, windows: [] };
+
+    const updateProfile = (userId: string, changes: Partial<StaffAvailability>) => {
+        const next = { ...profileFor(userId), ...changes };
+        setAvailability(prev => [...prev.filter(a => a.user_id !== userId), next]);
+    };
+
+    const handleSaveRules = async () => {
+        setIsBusy(true);
+        try {
+            setRules(await ScheduleService.saveScheduleRules(rules));
+        } catch (e) {
+            alert('Failed to save scheduling rules');
+        }
+        setIsBusy(false);
+    };
+
+    const handleSaveStaff = async () => {
+        setIsBusy(true);
+        try {
+            const saved = await Promise.all(staff.map(u => ScheduleService.saveStaffAvailability(profileFor(u.id))));
+            setAvailability(saved);
+        } catch (e) {
+            alert('Failed to save staff availability');
+        }
+        setIsBusy(false);
+    };
+
+    const handleGenerate = async () => {
+        setIsBusy(true);
+        try {
+            const first = new Date(`${dates[0]}T12:00:00`);
+            const priorStart = new Date(first);
+            priorStart.setDate(first.getDate() - PRIOR_WEEKS_FOR_ROTATION * 7);
+            const priorEnd = new Date(first);
+            priorEnd.setDate(first.getDate() - 1);
+            const priorShifts = await ScheduleService.fetchShifts(localDateStr(priorStart), localDateStr(priorEnd));
+
+            setDraft(buildScheduleDraft({
+                dates,
+                rules,
+                users,
+                availability,
+                existingShifts: shifts.filter(s => dates.includes(s.date)),
+                timeOff: timeOffRequests,
+                priorShifts
+            }));
+            setExcluded(new Set());
+            setTab('draft');
+        } catch (e) {
+            console.error('Auto-schedule failed', e);
+            alert('Failed to build a draft schedule');
+        }
+        setIsBusy(false);
+    };
+
+    const updateDraftShift = (key: string, changes: Partial<DraftShift>) => {
+        setDraft(prev => prev && { ...prev, shifts: prev.shifts.map(s => s.key === key ? { ...s, ...changes } : s) });
+    };
+
+    const toggleExcluded = (key: string) => {
+        setExcluded(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key); else next.add(key);
+            return next;
+        });
+    };
+
+    const accepted = draft ? draft.shifts.filter(s => !excluded.has(s.key)) : [];
+
+    const handleAccept = async () => {
+        if (accepted.length === 0) return;
+        setIsBusy(true);
+        try {
+            const saved = await ScheduleService.bulkCreateShifts(accepted.map(({ key, staffing_role, reason, ...shift }) => shift));
+            onAccept(saved);
+            onClose();
+        } catch (e) {
+            console.error('Failed to save draft schedule', e);
+            alert('Failed to save the draft schedule');
+        }
+        setIsBusy(false);
+    };
+
+    const draftDates = draft ? [...new Set([...draft.shifts.map(s => s.date), ...draft.unfilled.map(u => u.date)])].sort() : [];
+    const formatDay = (date: string) => new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl w-full max-w-4xl p-6 overflow-hidden flex flex-col max-h-[90vh] border border-slate-200 dark:border-slate-800" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-3 text-indigo-600 dark:text-indigo-400">
+                        <div className="bg-indigo-100 dark:bg-indigo-500/20 p-2 rounded-xl"><i className="fa-solid fa-wand-magic-sparkles text-xl"></i></div>
+                        <div>
+                            <h2 className="text-xl font-black">Auto-Schedule</h2>
+                            <p className="text-xs font-bold text-slate-400">{formatDay(dates[0])} – {formatDay(dates[dates.length - 1])}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="w-9 h-9 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-rose-500"><i className="fa-solid fa-xmark"></i></button>
+                </div>
+
+                <div className="flex gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-xl mb-4 self-start">
+                    {([['rules', 'Clinic Rules'], ['staff', 'Staff Limits'], ['draft', 'Draft']] as const).map(([id, label]) => (
+                        <button
+                            key={id}
+                            onClick={() => setTab(id)}
+                            disabled={id === 'draft' && !draft}
+                            className={`px-4 py-1.5 rounded-lg text-sm font-bold transition disabled:opacity-40 ${tab === id ? 'bg-white dark:bg-slate-900 text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar pr-1 space-y-4">
+                    {tab === 'rules' && (
+                        <>
+                            <div className="grid grid-cols-3 gap-3">
+                                {([['min_providers', 'Providers per open hour'], ['min_mas', 'MAs per open hour'], ['max_shift_hours', 'Longest shift (hours)']] as const).map(([key, label]) => (
+                                    <label key={key} className="text-xs font-bold text-slate-500 flex flex-col gap-1">
+                                        {label}
+                                        <input
+                                            type="number"
+                                            min={key === 'max_shift_hours' ? 1 : 0}
+                                            value={rules[key]}
+                                            onChange={e => setRules({ ...rules, [key]: Number(e.target.value) || 0 })}
+                                            className={inputClass}
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                            <div className="rounded-xl border border-slate-100 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800">
+                                {WEEKDAY_NAMES.map((day, weekday) => {
+                                    const hours = rules.hours[weekday];
+                                    return (
+                                        <div key={day} className="flex items-center gap-3 p-3">
+                                            <label className="w-32 flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-200">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!!hours}
+                                                    onChange={e => setRules({ ...rules, hours: { ...rules.hours, [weekday]: e.target.checked ? { open: '08:00', close: '17:00' } : null } })}
+                                                    className="accent-indigo-600"
+                                                />
+                                                {day}
+                                            </label>
+                                            {hours ? (
+                                                <>
+                                                    <input type="time" value={hours.open} onChange={e => setRules({ ...rules, hours: { ...rules.hours, [weekday]: { ...hours, open: e.target.value } } })} className={inputClass} />
+                                                    <span className="text-slate-400">–</span>
+                                                    <input type="time" value={hours.close} onChange={e => setRules({ ...rules, hours: { ...rules.hours, [weekday]: { ...hours, close: e.target.value } } })} className={inputClass} />
+                                                </>
+                                            ) : (
+                                                <span className="text-sm text-slate-400">Closed</span>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                            <label className="flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-200">
+                                <input
+                                    type="checkbox"
+                                    checked={rules.swap_requires_approval !== false}
+                                    onChange={e => setRules({ ...rules, swap_requires_approval: e.target.checked })}
+                                    className="accent-indigo-600"
+                                />
+                                Shift swaps and giveaways need manager approval
+                            </label>
+                            <div className="flex justify-end">
+                                <button onClick={handleSaveRules} disabled={isBusy} className="px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-sm rounded-xl shadow-sm disabled:opacity-50">Save Rules</button>
+                            </div>
+                        </>
+                    )}
+
+                    {tab === 'staff' && (
+                        <>
+                            <p className="text-xs text-slate-500">Leave every day unticked for someone who can work any open hour.</p>
+                            {staff.map(u => {
+                                const profile = profileFor(u.id);
+                                return (
+                                    <div key={u.id} className="rounded-xl border border-slate-100 dark:border-slate-800 p-3 space-y-2">
+                                        <div className="flex items-center justify-between gap-3">
+                                            <div className="font-bold text-slate-800 dark:text-slate-100">
+                                                {nameOf(u)} <span className="text-[10px] uppercase tracking-widest text-slate-400 ml-1">{staffingRoleOf(u) === 'provider' ? 'Provider' : 'MA'}</span>
+                                            </div>
+                                            <label className="text-xs font-bold text-slate-500 flex items-center gap-2">
+                                                Max hrs/week
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    value={profile.max_hours_per_week}
+                                                    onChange={e => updateProfile(u.id, { max_hours_per_week: Number(e.target.value) || 0 })}
+                                                    className={`${inputClass} w-20`}
+                                                />
+                                            </label>
+                                        </div>
+                                        <AvailabilityEditor windows={profile.windows} hours={rules.hours} onChange={windows => updateProfile(u.id, { windows })} />
+                                    </div>
+                                );
+                            })}
+                            <div className="flex justify-end">
+                                <button onClick={handleSaveStaff} disabled={isBusy} className="px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-sm rounded-xl shadow-sm disabled:opacity-50">Save Staff Limits</button>
+                            </div>
+                        </>
+                    )}
+
+                    {tab === 'draft' && draft && (
+                        <>
+                            <div className="flex items-center gap-3 text-sm font-bold">
+                                <span className="px-3 py-1 rounded-lg bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300">{accepted.length} of {draft.shifts.length} shifts selected</span>
+                                {draft.unfilled.length > 0 && (
+                                    <span className="px-3 py-1 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400">{draft.unfilled.length} unfilled slot(s)</span>
+                                )}
+                            </div>
+                            {draftDates.map(date => (
+                                <div key={date}>
+                                    <h4 className="text-xs font-black uppercase tracking-widest text-slate-400 mb-2">{formatDay(date)}</h4>
+                                    <div className="space-y-1.5">
+                                        {draft.shifts.filter(s => s.date === date).map(s => (
+                                            <div key={s.key} className={`flex flex-wrap items-center gap-2 p-2 rounded-xl border ${excluded.has(s.key) ? 'border-slate-100 dark:border-slate-800 opacity-50' : 'border-indigo-100 dark:border-indigo-900/50'}`}>
+                                                <input type="checkbox" checked={!excluded.has(s.key)} onChange={() => toggleExcluded(s.key)} className="accent-indigo-600" />
+                                                <select value={s.user_id} onChange={e => updateDraftShift(s.key, { user_id: e.target.value })} className={inputClass}>
+                                                    {staff.filter(u => staffingRoleOf(u) === s.staffing_role).map(u => <option key={u.id} value={u.id}>{nameOf(u)}</option>)}
+                                                </select>
+                                                <input type="time" value={s.start_time} onChange={e => updateDraftShift(s.key, { start_time: e.target.value })} className={inputClass} />
+                                                <input type="time" value={s.end_time} onChange={e => updateDraftShift(s.key, { end_time: e.target.value })} className={inputClass} />
+                                                <span className="text-xs font-bold text-slate-400">{shiftHours(s)}h</span>
+                                                <span className="text-xs text-slate-500 flex-1 min-w-[10rem]">{s.reason}</span>
+                                            </div>
+                                        ))}
+                                        {draft.unfilled.filter(u => u.date === date).map(u => (
+                                            <div key={`${u.start_time}_${u.staffing_role}`} className="p-3 rounded-xl bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800/50">
+                                                <div className="text-sm font-bold text-amber-800 dark:text-amber-300">
+                                                    <i className="fa-solid fa-triangle-exclamation mr-2"></i>
+                                                    {u.start_time}–{u.end_time}: {u.filled} of {u.needed} {u.staffing_role === 'provider' ? 'provider(s)' : 'MA(s)'}
+                                                </div>
+                                                <ul className="mt-1 text-xs text-amber-900 dark:text-amber-200 list-disc list-inside">
+                                                    {u.reasons.map(r => <li key={r}>{r}</li>)}
+                                                </ul>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                            {draftDates.length === 0 && (
+                                <p className="text-sm text-slate-500">Every open hour is already covered. Nothing to add.</p>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                <div className="flex justify-end gap-2 pt-4 mt-2 border-t border-slate-100 dark:border-slate-800">
+                    <button onClick={handleGenerate} disabled={isBusy} className="px-4 py-2 bg-white border border-indigo-200 text-indigo-700 font-bold text-sm rounded-xl hover:bg-indigo-50 disabled:opacity-50">
+                        <i className="fa-solid fa-gears mr-2"></i>{draft ? 'Rebuild Draft' : 'Build Draft'}
+                    </button>
+                    {draft && (
+                        <button onClick={handleAccept} disabled={isBusy || accepted.length === 0} className="px-4 py-2 bg-indigo-600 text-white font-bold text-sm rounded-xl hover:bg-indigo-700 shadow-md disabled:opacity-50">
+                            <i className="fa-solid fa-check mr-2"></i>Add {accepted.length} Shift(s)
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AutoScheduler;
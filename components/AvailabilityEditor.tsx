@@ -0,0 +1,48 @@
+import React from 'react';
+import { AvailabilityWindow, ScheduleRules } from '../types';
+import { WEEKDAY_NAMES } from '../utils/autoScheduler';
+
+interface AvailabilityEditorProps {
+    windows: AvailabilityWindow[];
+    hours: ScheduleRules['hours']; // A newly ticked day starts with the clinic's hours
+    onChange: (windows: AvailabilityWindow[]) => void;
+    disabled?: boolean;
+}
+
+/** One chip per weekday; a ticked day shows the hours the person can work */
+const AvailabilityEditor: React.FC<AvailabilityEditorProps> = ({ windows, hours, onChange, disabled }) => {
+    const toggle = (weekday: number) => {
+        const open = hours[weekday];
+        onChange(windows.some(w => w.weekday === weekday)
+            ? windows.filter(w => w.weekday !== weekday)
+            : [...windows, { weekday, start: open?.open || '08:00', end: open?.close || '17:00' }]);
+    };
+
+    const setTime = (weekday: number, field: 'start' | 'end', value: string) => {
+        onChange(windows.map(w => w.weekday === weekday ? { ...w, [field]: value } : w));
+    };
+
+    return (
+        <div className="flex flex-wrap gap-2">
+            {WEEKDAY_NAMES.map((day, weekday) => {
+                const window = windows.find(w => w.weekday === weekday);
+                return (
+                    <div key={day} className={`flex items-center gap-1 px-2 py-1 rounded-lg border text-xs ${window ? 'border-indigo-200 bg-indigo-50 dark:bg-indigo-900/20 dark:border-indigo-800' : 'border-slate-200 dark:border-slate-700'}`}>
+                        <label className="flex items-center gap-1 font-bold text-slate-600 dark:text-slate-300">
+                            <input type="checkbox" checked={!!window} disabled={disabled} onChange={() => toggle(weekday)} className="accent-indigo-600" />
+                            {day.slice(0, 3)}
+                        </label>
+                        {window && (
+                            <>
+                                <input type="time" value={window.start} disabled={disabled} onChange={e => setTime(weekday, 'start', e.target.value)} className="bg-transparent w-[5.5rem] outline-none" />
+                                <input type="time" value={window.end} disabled={disabled} onChange={e => setTime(weekday, 'end', e.target.value)} className="bg-transparent w-[5.5rem] outline-none" />
+                            </>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default AvailabilityEditor;
@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { BillingRule, PatientSex, Payer } from '../types';
+import { evaluateBillingRule, formatRuleCode, todayISO } from '../utils/billingRuleEngine';
+
+interface BillingRuleCheckProps {
+    billingRules: BillingRule[];
+    payers: Payer[];
+    onClose: () => void;
+}
+
+const CHECK_ICONS = {
+    pass: 'fa-circle-check text-emerald-500',
+    fail: 'fa-circle-xmark text-red-500',
+    unknown: 'fa-circle-question text-amber-500',
+};
+
+const inputClass = 'w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none';
+const labelClass = 'text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1';
+
+/** Runs the rules engine for one payer, test and patient and shows which rule fired and why */
+const BillingRuleCheck: React.FC<BillingRuleCheckProps> = ({ billingRules, payers, onClose }) => {
+    const [payer, setPayer] = useState(payers[0]?.name || '');
+    const [test, setTest] = useState('');
+    const [dateOfService, setDateOfService] = useState(todayISO());
+    const [inHouse, setInHouse] = useState<'' | 'yes' | 'no'>('');
+    const [age, setAge] = useState('');
+    const [sex, setSex] = useState<'' | PatientSex>('');
+    const [priorDates, setPriorDates] = useState('');
+
+    const testNames = useMemo(() => [...new Set(billingRules.map(r => r.testName))].sort(), [billingRules]);
+
+    const decision = useMemo(() => {
+        const query = test.trim();
+        if (!payer || !query) return null;
+        const looksLikeCode = /^[A-Z]?\d{4}[A-Z0-9]?(-[A-Z0-9]{2})*$/i.test(query);
+        const dates = priorDates.split(/[\s,;]+/).filter(d => /^\d{4}-\d{2}-\d{2}$/.test(d));
+        return evaluateBillingRule(billingRules, {
+            payer,
+            payerAliases: payers.find(p => p.name === payer)?.aliases,
+            code: looksLikeCode ? query : undefined,
+            testName: looksLikeCode ? undefined : query,
+            dateOfService,
+            inHouse: inHouse === '' ? undefined : inHouse === 'yes',
+            patient: { age: age === '' ? undefined : Number(age), sex: sex || undefined },
+            priorServiceDates: priorDates.trim() ? dates : undefined,
+        });
+    }, [billingRules, payers, payer, test, dateOfService, inHouse, age, sex, priorDates]);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl w-full max-w-2xl p-6 sm:p-8 shadow-2xl animate-fade-in-up border border-slate-100 dark:border-slate-800 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 flex-shrink-0">
+                    <div>
+                        <h3 className="text-xl sm:text-2xl font-bold text-slate-900 dark:text-white">Check a Test</h3>
+                        <p className="text-caption mt-0.5">Which code, modifiers and payer apply for this patient</p>
+                    </div>
+                    <button onClick={onClose} className="w-8 h-8 sm:w-10 sm:h-10 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-red-500 flex items-center justify-center"><i className="fa-solid fa-xmark"></i></button>
+                </div>
+
+                <div className="space-y-5 overflow-y-auto custom-scrollbar pr-2 flex-1">
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        <div>
+                            <label className={labelClass}>Payer</label>
+                            <select value={payer} onChange={e => setPayer(e.target.value)} className={inputClass}>
+                                {payers.map(p => <option key={p.id} value={p.name}>{p.name}</option>)}
+                            </select>
+                        </div>
+                        <div className="col-span-2 sm:col-span-1">
+                            <label className={labelClass}>Test or CPT</label>
+                            <input value={test} onChange={e => setTest(e.target.value)} list="billing-rule-tests" className={inputClass} placeholder="e.g. 80053 or Lipid" />
+                            <datalist id="billing-rule-tests">
+                                {testNames.map(name => <option key={name} value={name} />)}
+                            </datalist>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Date of Service</label>
+                            <input type="date" value={dateOfService} onChange={e => setDateOfService(e.target.value || todayISO())} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Performed</label>
+                            <select value={inHouse} onChange={e => setInHouse(e.target.value as '' | 'yes' | 'no')} className={inputClass}>
+                                <option value="">Not specified</option>
+                                <option value="yes">In-house (CLIA-waived)</option>
+                                <option value="no">Reference lab</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Patient Age</label>
+                            <input type="number" min={0} value={age} onChange={e => setAge(e.target.value)} className={inputClass} placeholder="Unknown" />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Patient Sex</label>
+                            <select value={sex} onChange={e => setSex(e.target.value as '' | PatientSex)} className={inputClass}>
+                                <option value="">Unknown</option>
+                                <option value="F">Female</option>
+                                <option value="M">Male</option>
+                            </select>
+                        </div>
+                        <div className="col-span-2 sm:col-span-3">
+                            <label className={labelClass}>Previously Billed On</label>
+                            <input value={priorDates} onChange={e => setPriorDates(e.target.value)} className={inputClass} placeholder="YYYY-MM-DD, comma separated — leave blank if unknown" />
+                        </div>
+                    </div>
+
+                    {decision && (
+                        <div className="space-y-4">
+                            <div className={`rounded-2xl p-5 border ${decision.rule ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-100 dark:border-emerald-800/50' : 'bg-red-50 dark:bg-red-900/20 border-red-100 dark:border-red-800/50'}`}>
+                                {decision.rule ? (
+                                    <div className="flex flex-wrap items-end justify-between gap-4">
+                                        <div>
+                                            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-0.5">Bill As</div>
+                                            <div className="text-3xl font-mono font-bold text-slate-900 dark:text-white tracking-tighter">{[decision.code, ...decision.modifiers].join('-')}</div>
+                                        </div>
+                                        <div className="flex flex-wrap gap-2">
+                                            <span className="px-3 py-1 rounded-lg bg-white dark:bg-slate-800 text-xs font-bold text-slate-700 dark:text-slate-200">
+                                                {decision.billTo === 'client' ? 'Bill to Client' : 'Lab bills payer'}
+                                            </span>
+                                            {decision.priorAuthRequired && (
+                                                <span className="px-3 py-1 rounded-lg bg-amber-100 dark:bg-amber-900/30 text-xs font-bold text-amber-700 dark:text-amber-400">
+                                                    <i className="fa-solid fa-stamp mr-1"></i>Prior auth required
+                                                </span>
+                                            )}
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div className="text-lg font-bold text-red-700 dark:text-red-400"><i className="fa-solid fa-ban mr-2"></i>No rule applies</div>
+                                )}
+                                <p className="text-sm text-slate-600 dark:text-slate-300 mt-3">{decision.reason}</p>
+                                {decision.warnings.length > 0 && (
+                                    <ul className="mt-2 space-y-1">
+                                        {decision.warnings.map(w => (
+                                            <li key={w} className="text-xs font-bold text-amber-700 dark:text-amber-400"><i className="fa-solid fa-triangle-exclamation mr-1"></i>{w}</li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+
+                            {decision.trace.length > 0 && (
+                                <div>
+                                    <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">Rules Considered ({decision.trace.length})</h4>
+                                    <div className="space-y-2">
+                                        {decision.trace.map(t => (
+                                            <div
+                                                key={t.rule.id}
+                                                className={`rounded-xl border p-3 ${t.rule.id === decision.rule?.id ? 'border-emerald-300 dark:border-emerald-700' : 'border-slate-100 dark:border-slate-800'}`}
+                                            >
+                                                <div className="flex items-center justify-between gap-2 mb-1.5">
+                                                    <span className="font-bold text-sm text-slate-900 dark:text-white">
+                                                        {t.rule.testName} <span className="font-mono text-slate-500">{formatRuleCode(t.rule)}</span>
+                                                    </span>
+                                                    <span className={`text-[10px] font-bold uppercase tracking-widest ${t.rule.id === decision.rule?.id ? 'text-emerald-600' : t.matched ? 'text-slate-400' : 'text-red-500'}`}>
+                                                        {t.rule.id === decision.rule?.id ? 'Fired' : t.matched ? 'Less specific' : 'Rejected'}
+                                                    </span>
+                                                </div>
+                                                <ul className="space-y-0.5">
+                                                    {t.checks.map(ch => (
+                                                        <li key={ch.label} className="text-xs text-slate-600 dark:text-slate-300">
+                                                            <i className={`fa-solid ${ch.passed === null ? CHECK_ICONS.unknown : ch.passed ? CHECK_ICONS.pass : CHECK_ICONS.fail} mr-1.5`}></i>
+                                                            <span className="font-bold">{ch.label}:</span> {ch.detail}
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BillingRuleCheck;
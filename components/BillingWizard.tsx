@@ -1,18 +1,22 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { BillingRule, User, UserRole } from '../types';
+import { BillingRule, BillingRuleConditions, User, UserRole } from '../types';
+import { currentRules, describeRuleConditions, formatRuleCode, isRuleEffective, ruleVersions, todayISO } from '../utils/billingRuleEngine';
+import { findPayer, listIncludesPayer, sortPayers } from '../utils/payers';
+import { useAppData } from '../contexts/AppDataContext';
+import BillingRuleCheck from './BillingRuleCheck';
+import PayerRegistry from './PayerRegistry';
 
 interface BillingWizardProps {
     billingRules: BillingRule[];
     user: User;
     onSaveRule: (rule: BillingRule) => void;
+    onSaveRuleVersion: (previous: BillingRule, changes: BillingRule, effectiveFrom: string) => void;
     onDeleteRule: (id: string) => void;
     t: (key: string) => string;
 }
 
-const INSURERS = ["BCBS", "Anthem BCBS", "Aetna", "Cigna", "Meridian"];
-
-const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSaveRule, onDeleteRule, t }) => {
+const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSaveRule, onSaveRuleVersion, onDeleteRule, t }) => {
     const [selectedInsurer, setSelectedInsurer] = useState<string>('');
     const [searchQuery, setSearchQuery] = useState('');
     const [copiedCpt, setCopiedCpt] = useState<string | null>(null);
@@ -23,9 +27,25 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isInfoModalOpen, setIsInfoModalOpen] = useState(false);
     const [editingRule, setEditingRule] = useState<Partial<BillingRule>>({});
-
+    const [modifiersInput, setModifiersInput] = useState('');
+    const [saveAsVersion, setSaveAsVersion] = useState(false);
+    const [versionFrom, setVersionFrom] = useState(todayISO());
+    const [showAllVersions, setShowAllVersions] = useState(false);
+    const [isCheckOpen, setIsCheckOpen] = useState(false);
+    const [isPayersOpen, setIsPayersOpen] = useState(false);
+
+    const { payers } = useAppData();
     const canEdit = user.role === UserRole.OWNER || user.role === UserRole.MANAGER;
 
+    // Self-pay patients are never billed to an insurer, so they have no rules
+    const billingPayers = useMemo(() => sortPayers(payers).filter(p => p.isActive && p.type !== 'SELF_PAY'), [payers]);
+    const payerOptions = billingPayers.map(p => p.name);
+    // Names on the rule being edited that no active payer goes by, so they can still be unticked
+    const editorInsurers = [
+        ...payerOptions,
+        ...(editingRule.insurers || []).filter(i => !findPayer(billingPayers, i))
+    ];
+
     // Close dropdown when clicking outside
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -41,11 +61,13 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
 
     // Filter Logic
     const filteredRules = useMemo(() => {
-        let rules = billingRules;
+        // Superseded and not-yet-effective versions stay hidden unless asked for
+        let rules = showAllVersions ? billingRules : currentRules(billingRules);
 
         // 1. Filter by Insurer (Dropdown)
         if (selectedInsurer) {
-            rules = rules.filter(r => r.insurers.includes(selectedInsurer));
+            const payer = findPayer(payers, selectedInsurer);
+            rules = rules.filter(r => payer ? listIncludesPayer(r.insurers, payer) : r.insurers.includes(selectedInsurer));
         }
 
         // 2. Filter by Search Query (Reverse Lookup)
@@ -58,7 +80,7 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
         }
 
         return rules;
-    }, [billingRules, selectedInsurer, searchQuery]);
+    }, [billingRules, payers, selectedInsurer, searchQuery, showAllVersions]);
 
     const handleCopy = (cpt: string) => {
         navigator.clipboard.writeText(cpt);
@@ -74,6 +96,7 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
     const openModal = (rule?: BillingRule) => {
         if (rule) {
             setEditingRule({ ...rule });
+            setModifiersInput((rule.modifiers || []).join(' '));
         } else {
             setEditingRule({
                 insurers: [],
@@ -81,10 +104,25 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
                 cpt: '',
                 billToClient: true
             });
+            setModifiersInput('');
         }
+        setSaveAsVersion(false);
+        setVersionFrom(todayISO());
         setIsModalOpen(true);
     };
 
+    // Versions branch only from the newest one, so a rule's history stays a single line
+    const editingVersions = editingRule.id ? ruleVersions(billingRules, editingRule as BillingRule) : [];
+    const isLatestVersion = editingVersions.length === 0 || editingVersions[0].id === editingRule.id;
+
+    const setCondition = <K extends keyof BillingRuleConditions>(key: K, value: BillingRuleConditions[K] | undefined) => {
+        const conditions = { ...editingRule.conditions, [key]: value };
+        if (value === undefined) delete conditions[key];
+        setEditingRule({ ...editingRule, conditions });
+    };
+
+    const parseOptionalNumber = (value: string): number | undefined => value === '' ? undefined : Math.max(0, Number(value));
+
     const toggleInsurerInEdit = (insurer: string) => {
         const current = editingRule.insurers || [];
         if (current.includes(insurer)) {
@@ -100,15 +138,52 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
             return;
         }
 
+        const conditions = editingRule.conditions || {};
+        if (conditions.minAge !== undefined && conditions.maxAge !== undefined && conditions.minAge > conditions.maxAge) {
+            alert("Minimum age cannot be above the maximum age.");
+            return;
+        }
+        const modifiers = modifiersInput.split(/[\s,]+/).map(m => m.trim().toUpperCase()).filter(Boolean);
+
         const newRule: BillingRule = {
             id: editingRule.id || `br_${Date.now()}`,
             insurers: editingRule.insurers || [],
             testName: editingRule.testName || '',
             cpt: editingRule.cpt || '',
-            billToClient: editingRule.billToClient ?? true
+            billToClient: editingRule.billToClient ?? true,
+            modifiers: modifiers.length > 0 ? modifiers : undefined,
+            conditions: Object.keys(conditions).length > 0 ? conditions : undefined,
+            priorAuthRequired: editingRule.priorAuthRequired || undefined,
+            effectiveFrom: editingRule.effectiveFrom || undefined,
+            effectiveTo: editingRule.effectiveTo || undefined,
+            ruleKey: editingRule.ruleKey,
+            version: editingRule.version,
+            notes: editingRule.notes?.trim() || undefined
         };
 
-        onSaveRule(newRule);
+        const original = editingRule.id ? billingRules.find(r => r.id === editingRule.id) : undefined;
+        if (original && saveAsVersion) {
+            // Keep the old terms for earlier dates of service; the new version takes over from versionFrom
+            if (!isLatestVersion) {
+                alert("Only the latest version of a rule can be saved as a new version.");
+                return;
+            }
+            if (!versionFrom || (original.effectiveFrom && versionFrom <= original.effectiveFrom)) {
+                alert("The new version must start after the current version's effective date.");
+                return;
+            }
+            if (newRule.effectiveTo && newRule.effectiveTo < versionFrom) {
+                alert("The new version would end before it starts. Clear or move the end date.");
+                return;
+            }
+            onSaveRuleVersion(original, newRule, versionFrom);
+        } else {
+            if (newRule.effectiveFrom && newRule.effectiveTo && newRule.effectiveFrom > newRule.effectiveTo) {
+                alert("The effective end date is before the start date.");
+                return;
+            }
+            onSaveRule(newRule);
+        }
         setIsModalOpen(false);
     };
 
@@ -140,14 +215,30 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
                         </div>
                     </div>
 
-                    {canEdit && (
+                    <div className="flex flex-col sm:flex-row gap-3">
                         <button
-                            onClick={() => openModal()}
-                            className="h-12 sm:h-14 px-5 sm:px-6 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl sm:rounded-2xl font-bold shadow-lg flex items-center justify-center sm:justify-start gap-2 transition-all hover:scale-105"
+                            onClick={() => setIsCheckOpen(true)}
+                            className="h-12 sm:h-14 px-5 sm:px-6 bg-white dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:border-emerald-200 rounded-xl sm:rounded-2xl font-bold shadow-lg flex items-center justify-center sm:justify-start gap-2 transition-all hover:scale-105"
                         >
-                            <i className="fa-solid fa-plus"></i> Add Test Rule
+                            <i className="fa-solid fa-scale-balanced text-emerald-500"></i> Check a Test
                         </button>
-                    )}
+                        {canEdit && (
+                            <button
+                                onClick={() => setIsPayersOpen(true)}
+                                className="h-12 sm:h-14 px-5 sm:px-6 bg-white dark:bg-slate-800 border-2 border-slate-100 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:border-emerald-200 rounded-xl sm:rounded-2xl font-bold shadow-lg flex items-center justify-center sm:justify-start gap-2 transition-all hover:scale-105"
+                            >
+                                <i className="fa-solid fa-building-shield text-emerald-500"></i> Payers
+                            </button>
+                        )}
+                        {canEdit && (
+                            <button
+                                onClick={() => openModal()}
+                                className="h-12 sm:h-14 px-5 sm:px-6 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl sm:rounded-2xl font-bold shadow-lg flex items-center justify-center sm:justify-start gap-2 transition-all hover:scale-105"
+                            >
+                                <i className="fa-solid fa-plus"></i> Add Test Rule
+                            </button>
+                        )}
+                    </div>
                 </header>
 
                 {/* Control Panel - Modern Floating Cards */}
@@ -206,7 +297,7 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
 
                                         <div className="h-px bg-slate-100 dark:bg-slate-800 my-1 mx-2"></div>
 
-                                        {INSURERS.map(ins => (
+                                        {payerOptions.map(ins => (
                                             <button
                                                 key={ins}
                                                 onClick={() => handleSelect(ins)}
@@ -267,6 +358,15 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
                                     <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></span>
                                     Authorized Tests ({filteredRules.length})
                                 </h3>
+                                <label className="flex items-center gap-2 text-xs font-bold text-slate-400 cursor-pointer select-none">
+                                    <input
+                                        type="checkbox"
+                                        checked={showAllVersions}
+                                        onChange={e => setShowAllVersions(e.target.checked)}
+                                        className="rounded accent-emerald-600"
+                                    />
+                                    Show past & future versions
+                                </label>
                             </div>
 
                             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
@@ -304,14 +404,42 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
                                                 )}
 
                                                 <div className="mb-4">
-                                                    <div className="flex justify-between items-start mb-3">
-                                                        <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400 text-[10px] font-bold uppercase tracking-widest border border-emerald-100 dark:border-emerald-800/50">
-                                                            <i className="fa-solid fa-check"></i> Authorized
-                                                        </span>
+                                                    <div className="flex flex-wrap items-start gap-1.5 mb-3">
+                                                        {rule.billToClient ? (
+                                                            <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400 text-[10px] font-bold uppercase tracking-widest border border-emerald-100 dark:border-emerald-800/50">
+                                                                <i className="fa-solid fa-check"></i> Authorized
+                                                            </span>
+                                                        ) : (
+                                                            <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 text-[10px] font-bold uppercase tracking-widest border border-slate-200 dark:border-slate-700">
+                                                                <i className="fa-solid fa-flask"></i> Lab Bills Payer
+                                                            </span>
+                                                        )}
+                                                        {(rule.version ?? 1) > 1 && (
+                                                            <span className="px-2 py-1 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400 text-[10px] font-bold">v{rule.version}</span>
+                                                        )}
+                                                        {!isRuleEffective(rule, todayISO()) && (
+                                                            <span className="px-2 py-1 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400 text-[10px] font-bold uppercase tracking-widest">
+                                                                {rule.effectiveFrom && rule.effectiveFrom > todayISO() ? 'Upcoming' : 'Superseded'}
+                                                            </span>
+                                                        )}
                                                     </div>
                                                     <h3 className="text-xl font-bold text-slate-900 dark:text-white leading-tight group-hover:text-emerald-600 dark:group-hover:text-emerald-400 transition-colors pr-2">
                                                         {rule.testName}
                                                     </h3>
+                                                    {(rule.effectiveFrom || rule.effectiveTo) && (
+                                                        <p className="text-[11px] font-bold text-slate-400 mt-1">
+                                                            <i className="fa-regular fa-calendar mr-1"></i>{rule.effectiveFrom || '…'} → {rule.effectiveTo || 'open'}
+                                                        </p>
+                                                    )}
+                                                    {describeRuleConditions(rule).length > 0 && (
+                                                        <div className="flex flex-wrap gap-1 mt-2">
+                                                            {describeRuleConditions(rule).map(c => (
+                                                                <span key={c} className="text-[10px] font-bold px-2 py-0.5 rounded-md bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400 border border-amber-100 dark:border-amber-800/50">
+                                                                    {c}
+                                                                </span>
+                                                            ))}
+                                                        </div>
+                                                    )}
                                                 </div>
 
                                                 {/* Insurer Bubbles (only if searching generally) */}
@@ -334,18 +462,18 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
                                                     <div>
                                                         <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-0.5">CPT Code</div>
                                                         <div className="text-2xl sm:text-3xl font-mono font-bold tabular-nums text-slate-800 dark:text-slate-100 tracking-tighter">
-                                                            {rule.cpt}
+                                                            {formatRuleCode(rule)}
                                                         </div>
                                                     </div>
                                                     <button
-                                                        onClick={() => handleCopy(rule.cpt)}
-                                                        className={`w-10 h-10 sm:w-12 sm:h-12 rounded-xl sm:rounded-2xl flex items-center justify-center transition-all shadow-sm ${copiedCpt === rule.cpt
+                                                        onClick={() => handleCopy(formatRuleCode(rule))}
+                                                        className={`w-10 h-10 sm:w-12 sm:h-12 rounded-xl sm:rounded-2xl flex items-center justify-center transition-all shadow-sm ${copiedCpt === formatRuleCode(rule)
                                                             ? 'bg-emerald-500 text-white shadow-emerald-500/30 scale-110'
                                                             : 'bg-slate-50 dark:bg-slate-800 text-slate-400 hover:text-emerald-500 hover:bg-emerald-50 dark:hover:bg-slate-700 border border-slate-100 dark:border-slate-700'
                                                             }`}
                                                         title="Copy Code"
                                                     >
-                                                        <i className={`fa-solid ${copiedCpt === rule.cpt ? 'fa-check text-base sm:text-lg' : 'fa-copy text-base sm:text-lg'}`}></i>
+                                                        <i className={`fa-solid ${copiedCpt === formatRuleCode(rule) ? 'fa-check text-base sm:text-lg' : 'fa-copy text-base sm:text-lg'}`}></i>
                                                     </button>
                                                 </div>
                                             </div>
@@ -416,7 +544,7 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
                             <div>
                                 <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">Authorized Insurers</label>
                                 <div className="flex flex-wrap gap-2 p-1">
-                                    {INSURERS.map(ins => (
+                                    {editorInsurers.map(ins => (
                                         <button
                                             key={ins}
                                             onClick={() => toggleInsurerInEdit(ins)}
@@ -430,6 +558,188 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
                                     ))}
                                 </div>
                             </div>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">Extra Modifiers</label>
+                                    <input
+                                        value={modifiersInput}
+                                        onChange={e => setModifiersInput(e.target.value)}
+                                        className="w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none font-mono"
+                                        placeholder="e.g. 90 59"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">Bill To</label>
+                                    <select
+                                        value={(editingRule.billToClient ?? true) ? 'client' : 'lab'}
+                                        onChange={e => setEditingRule({ ...editingRule, billToClient: e.target.value === 'client' })}
+                                        className="w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none"
+                                    >
+                                        <option value="client">Client (clinic)</option>
+                                        <option value="lab">Lab bills payer</option>
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div className="rounded-xl border border-slate-100 dark:border-slate-800 p-4 space-y-3">
+                                <div className="text-xs font-bold text-slate-500 uppercase tracking-wider">Conditions</div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">CLIA Status</label>
+                                        <select
+                                            value={editingRule.conditions?.cliaWaived === undefined ? '' : editingRule.conditions.cliaWaived ? 'waived' : 'lab'}
+                                            onChange={e => setCondition('cliaWaived', e.target.value === '' ? undefined : e.target.value === 'waived')}
+                                            className="w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none"
+                                        >
+                                            <option value="">Any</option>
+                                            <option value="waived">CLIA-waived in-house</option>
+                                            <option value="lab">Reference lab only</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Patient Sex</label>
+                                        <select
+                                            value={editingRule.conditions?.sex || ''}
+                                            onChange={e => setCondition('sex', (e.target.value || undefined) as BillingRuleConditions['sex'])}
+                                            className="w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none"
+                                        >
+                                            <option value="">Any</option>
+                                            <option value="F">Female</option>
+                                            <option value="M">Male</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Min Age</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={editingRule.conditions?.minAge ?? ''}
+                                            onChange={e => setCondition('minAge', parseOptionalNumber(e.target.value))}
+                                            className="w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Max Age</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={editingRule.conditions?.maxAge ?? ''}
+                                            onChange={e => setCondition('maxAge', parseOptionalNumber(e.target.value))}
+                                            className="w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Max Units</label>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={editingRule.conditions?.frequency?.maxUnits ?? ''}
+                                            onChange={e => {
+                                                const maxUnits = parseOptionalNumber(e.target.value);
+                                                setCondition('frequency', maxUnits ? { maxUnits, periodDays: editingRule.conditions?.frequency?.periodDays || 365 } : undefined);
+                                            }}
+                                            className="w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none"
+                                            placeholder="No limit"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">Per (Days)</label>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={editingRule.conditions?.frequency?.periodDays ?? ''}
+                                            disabled={!editingRule.conditions?.frequency}
+                                            onChange={e => editingRule.conditions?.frequency && setCondition('frequency', { ...editingRule.conditions.frequency, periodDays: parseOptionalNumber(e.target.value) || 1 })}
+                                            className="w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none disabled:opacity-50"
+                                        />
+                                    </div>
+                                </div>
+                                <label className="flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-200 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!editingRule.priorAuthRequired}
+                                        onChange={e => setEditingRule({ ...editingRule, priorAuthRequired: e.target.checked })}
+                                        className="rounded accent-emerald-600"
+                                    />
+                                    Prior authorization required
+                                </label>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">Effective From</label>
+                                    <input
+                                        type="date"
+                                        value={editingRule.effectiveFrom || ''}
+                                        disabled={saveAsVersion}
+                                        onChange={e => setEditingRule({ ...editingRule, effectiveFrom: e.target.value || undefined })}
+                                        className="w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none disabled:opacity-50"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">Effective To</label>
+                                    <input
+                                        type="date"
+                                        value={editingRule.effectiveTo || ''}
+                                        onChange={e => setEditingRule({ ...editingRule, effectiveTo: e.target.value || undefined })}
+                                        className="w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none"
+                                    />
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="text-xs font-bold text-slate-500 uppercase tracking-wider block mb-2">Notes</label>
+                                <textarea
+                                    value={editingRule.notes || ''}
+                                    onChange={e => setEditingRule({ ...editingRule, notes: e.target.value })}
+                                    rows={2}
+                                    className="w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 border-none text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none resize-none"
+                                    placeholder="Payer bulletin, policy number..."
+                                />
+                            </div>
+
+                            {editingRule.id && (
+                                <div className="rounded-xl bg-blue-50/60 dark:bg-blue-900/10 border border-blue-100 dark:border-blue-900/40 p-4 space-y-3">
+                                    <label className={`flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-200 ${isLatestVersion ? 'cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}>
+                                        <input
+                                            type="checkbox"
+                                            checked={saveAsVersion}
+                                            disabled={!isLatestVersion}
+                                            onChange={e => setSaveAsVersion(e.target.checked)}
+                                            className="rounded accent-blue-600"
+                                        />
+                                        Save as a new version (keeps v{editingRule.version ?? 1} for earlier visits)
+                                    </label>
+                                    {!isLatestVersion && (
+                                        <p className="text-xs text-slate-500">
+                                            v{editingVersions[0].version ?? 1} is the latest version; open it to make a new one.
+                                        </p>
+                                    )}
+                                    {saveAsVersion && (
+                                        <div>
+                                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wider block mb-1">New Version Effective From</label>
+                                            <input
+                                                type="date"
+                                                value={versionFrom}
+                                                onChange={e => setVersionFrom(e.target.value)}
+                                                className="w-full h-11 px-3 rounded-xl bg-slate-50 dark:bg-slate-800 border-none font-bold text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-emerald-500/20 outline-none"
+                                            />
+                                        </div>
+                                    )}
+                                    {editingVersions.length > 1 && (
+                                        <div className="space-y-1">
+                                            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Version History</div>
+                                            {editingVersions.map(v => (
+                                                <div key={v.id} className={`flex items-center justify-between text-xs px-2 py-1 rounded-lg ${v.id === editingRule.id ? 'bg-white dark:bg-slate-800 font-bold' : ''}`}>
+                                                    <span className="text-slate-700 dark:text-slate-200">v{v.version ?? 1} · <span className="font-mono">{formatRuleCode(v)}</span></span>
+                                                    <span className="text-slate-400">{v.effectiveFrom || '…'} → {v.effectiveTo || 'open'}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
                         </div>
 
                         <div className="flex gap-3 mt-6 sm:mt-8 flex-shrink-0 pt-2 border-t border-slate-100 dark:border-slate-800/50">
@@ -441,6 +751,18 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
                 document.body
             )}
 
+            {/* --- RULE CHECK MODAL --- */}
+            {isCheckOpen && createPortal(
+                <BillingRuleCheck billingRules={billingRules} payers={billingPayers} onClose={() => setIsCheckOpen(false)} />,
+                document.body
+            )}
+
+            {/* --- PAYER REGISTRY MODAL --- */}
+            {isPayersOpen && createPortal(
+                <PayerRegistry userName={user.username} onClose={() => setIsPayersOpen(false)} />,
+                document.body
+            )}
+
             {/* --- BILLING INFO MODAL (INFORMATIVE) --- */}
             {isInfoModalOpen && createPortal(
                 <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 md:p-6 bg-slate-900/80 backdrop-blur-md animate-fade-in" onClick={() => setIsInfoModalOpen(false)}>
@@ -492,12 +814,12 @@ const BillingWizard: React.FC<BillingWizardProps> = ({ billingRules, user, onSav
                                     {t('guide_note_title')}
                                 </h4>
                                 <div className="flex flex-wrap justify-center gap-2 lg:gap-3">
-                                    {INSURERS.sort().map((ins) => {
-                                        // Assign dot colors matching the mockup
+                                    {[...billingPayers].sort((a, b) => a.name.localeCompare(b.name)).map(({ name: ins, type }) => {
+                                        // Commercial plans get the green dot, government programs blue
                                         let dotColor = "bg-blue-500";
                                         let dotGlow = "shadow-[0_0_8px_rgba(59,130,246,0.6)]";
 
-                                        if (['Aetna', 'BCBS', 'Anthem BCBS', 'Cigna'].includes(ins)) {
+                                        if (type === 'COMMERCIAL') {
                                             dotColor = "bg-medical-500";
                                             dotGlow = "shadow-[0_0_8px_rgba(16,185,129,0.6)]";
                                         }
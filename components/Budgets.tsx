@@ -1,8 +1,9 @@
 import React, { useState, useMemo, useRef } from "react";
 import { useAppData } from "../contexts/AppDataContext";
 import { useInventory } from "../contexts/InventoryContext";
-import { Budget, Order, User } from "../types";
+import { Budget, Order, User, Vendor } from "../types";
 import { BudgetService } from "../services/BudgetService";
+import { resolveVendor } from "../utils/vendorBranding";
 import {
   BarChart,
   Bar,
@@ -87,14 +88,19 @@ const parseLocalDate = (dateStr: string) => {
   return new Date(y, m - 1, d, 12, 0, 0, 0);
 };
 
-const isVendorMatch = (budgetVendor: string, orderVendor: string) => {
-  if (!budgetVendor || !orderVendor) return false;
-  const bv = budgetVendor.toLowerCase().replace(/[^a-z0-9]/g, '');
-  const ov = orderVendor.toLowerCase().replace(/[^a-z0-9]/g, '');
-  if (bv === ov) return true;
-  // Handle cases where order has `.com`, `inc`, `llc`
-  if (ov.startsWith(bv) || bv.startsWith(ov)) return true;
-  return false;
+// Vendor IDs a budget tracks. Budgets saved before vendor master data only
+// carry names, so those are resolved against the vendor list.
+const getBudgetVendorIds = (budget: Partial<Budget>, vendors: Vendor[]) => {
+  if (budget.vendorIds && budget.vendorIds.length > 0) return budget.vendorIds;
+  const names =
+    budget.categories && budget.categories.length > 0
+      ? budget.categories
+      : budget.category
+        ? [budget.category]
+        : [];
+  return names
+    .map((name) => resolveVendor(vendors, { vendor: name })?.id)
+    .filter((id): id is string => !!id);
 };
 
 // ──────────────────────────────────────────────────────────────────
@@ -102,7 +108,7 @@ const isVendorMatch = (budgetVendor: string, orderVendor: string) => {
 // ──────────────────────────────────────────────────────────────────
 const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
   const { budgets, setBudgets } = useAppData();
-  const { orders } = useInventory();
+  const { orders, vendors: vendorRecords } = useInventory();
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingBudget, setEditingBudget] = useState<Partial<Budget> | null>(
@@ -117,30 +123,17 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
 
   const exportRef = useRef<HTMLDivElement>(null);
 
-  // Known clinic vendors — always shown even if no orders exist yet
-  const KNOWN_VENDORS = [
-    "Amazon",
-    "Henry Schein",
-    "Labcorp",
-    "McKesson",
-    "Medline",
-  ];
-
-  // Merge known vendors + any from orders (deduped)
-  const availableVendors = useMemo(() => {
-    const set = new Set<string>(KNOWN_VENDORS);
-    orders.forEach((o) => {
-      if (o.vendor) set.add(o.vendor);
-    });
-    // Remove Walmart (one-time, not tracked)
-    set.delete("Walmart");
-    return [...set].sort();
-  }, [orders]);
+  // Active vendors from the vendor master list
+  const availableVendors = useMemo(
+    () => vendorRecords.filter((v) => v.isActive),
+    [vendorRecords],
+  );
 
   // Modal Form State
   const [formData, setFormData] = useState<Partial<Budget>>({
     category: "",
     categories: [],
+    vendorIds: [],
     amount: 0,
     period: "MONTHLY",
     isRecurring: false,
@@ -156,19 +149,15 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
       setEditingBudget(budget);
       setFormData({
         ...budget,
-        // Ensure categories is populated — use category as fallback for old budgets
-        categories:
-          budget.categories && budget.categories.length > 0
-            ? budget.categories
-            : budget.category
-              ? [budget.category]
-              : [],
+        // Old budgets only carry vendor names — resolve them to IDs
+        vendorIds: getBudgetVendorIds(budget, vendorRecords),
       });
     } else {
       setEditingBudget(null);
       setFormData({
         category: "",
         categories: [],
+        vendorIds: [],
         amount: 0,
         period: "MONTHLY",
         isRecurring: false,
@@ -186,12 +175,17 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
     e.preventDefault();
     if (!user || !user.id) return;
 
-    const vendors = formData.categories || [];
+    // Names are kept alongside the IDs for display and older clients
+    const vendorIds = formData.vendorIds || [];
+    const vendorNames = vendorIds
+      .map((id) => vendorRecords.find((v) => v.id === id)?.name)
+      .filter((name): name is string => !!name);
     const saveData = {
       ...formData,
+      vendorIds,
       category:
-        vendors.length > 0 ? vendors[0] : formData.category || "General",
-      categories: vendors,
+        vendorNames.length > 0 ? vendorNames[0] : formData.category || "General",
+      categories: vendorNames,
     };
 
     setIsSaving(true);
@@ -247,6 +241,7 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
         {
           category: budget.category,
           categories: budget.categories || [],
+          vendorIds: getBudgetVendorIds(budget, vendorRecords),
           amount: budget.amount,
           period: budget.period,
           isRecurring: true,
@@ -263,15 +258,15 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
   };
 
   // Toggle vendor selection
-  const toggleVendor = (vendor: string) => {
-    const current = formData.categories || [];
-    if (current.includes(vendor)) {
+  const toggleVendor = (vendor: Vendor) => {
+    const current = formData.vendorIds || [];
+    if (current.includes(vendor.id)) {
       setFormData({
         ...formData,
-        categories: current.filter((v) => v !== vendor),
+        vendorIds: current.filter((id) => id !== vendor.id),
       });
     } else {
-      setFormData({ ...formData, categories: [...current, vendor] });
+      setFormData({ ...formData, vendorIds: [...current, vendor.id] });
     }
   };
 
@@ -285,8 +280,10 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
 
       const budgetStart = new Date(sY, sM - 1, sD, 0, 0, 0, 0).getTime();
       const budgetEnd = new Date(eY, eM - 1, eD, 23, 59, 59, 999).getTime();
-      const vendors =
-        budget.categories && budget.categories.length > 0
+      const vendorIds = getBudgetVendorIds(budget, vendorRecords);
+      const vendors = vendorIds.length > 0
+        ? vendorIds.map((id) => vendorRecords.find((v) => v.id === id)?.name || id)
+        : budget.categories && budget.categories.length > 0
           ? budget.categories
           : budget.category
             ? [budget.category]
@@ -301,8 +298,9 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
         const orderDate = parseLocalDate(order.orderDate).getTime();
         if (orderDate < budgetStart || orderDate > budgetEnd) return;
 
-        // Match by VENDOR name (flexible to handle things like .com, Inc., or substrings)
-        if (vendors.some((v) => isVendorMatch(v, order.vendor))) {
+        // Match by vendor ID
+        const orderVendorId = resolveVendor(vendorRecords, order)?.id;
+        if (orderVendorId && vendorIds.includes(orderVendorId)) {
           const total = order.grandTotal || order.subtotal || 0;
           spent += total;
           matchingOrders.push({ order, amount: total });
@@ -354,7 +352,7 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
         vendors,
       };
     });
-  }, [budgets, orders]);
+  }, [budgets, orders, vendorRecords]);
 
   const totalBudgeted = budgetStats.reduce((sum, b) => sum + b.amount, 0);
   const totalSpent = budgetStats.reduce((sum, b) => sum + b.spent, 0);
@@ -430,7 +428,8 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
       });
       if (!months[key]) return;
       const total = order.grandTotal || order.subtotal || 0;
-      months[key][order.vendor] = (months[key][order.vendor] || 0) + total;
+      const vendorName = resolveVendor(vendorRecords, order)?.name || order.vendor;
+      months[key][vendorName] = (months[key][vendorName] || 0) + total;
     });
 
     const trackedVendors: string[] = [
@@ -448,7 +447,7 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
       point["Total"] = total;
       return point;
     });
-  }, [orders, budgetStats]);
+  }, [orders, budgetStats, vendorRecords]);
 
   const trendVendors: string[] = [
     ...new Set<string>(budgetStats.flatMap((b) => b.vendors)),
@@ -1210,16 +1209,16 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
                   <div className="flex flex-wrap gap-2 p-4 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 max-h-40 overflow-y-auto custom-scrollbar">
                     {availableVendors.length === 0 ? (
                       <p className="text-xs text-slate-400 italic">
-                        No vendors found. Create purchase orders first.
+                        No vendors found. Add vendors on the Vendors page first.
                       </p>
                     ) : (
                       availableVendors.map((vendor) => {
-                        const isSelected = (formData.categories || []).includes(
-                          vendor,
+                        const isSelected = (formData.vendorIds || []).includes(
+                          vendor.id,
                         );
                         return (
                           <button
-                            key={vendor}
+                            key={vendor.id}
                             type="button"
                             onClick={() => toggleVendor(vendor)}
                             className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
@@ -1231,39 +1230,13 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
                             {isSelected && (
                               <i className="fa-solid fa-check mr-1 text-[10px]"></i>
                             )}
-                            {vendor}
+                            {vendor.name}
                           </button>
                         );
                       })
                     )}
                   </div>
-                  {/* Custom vendor input */}
-                  <div className="flex gap-2">
-                    <input
-                      type="text"
-                      placeholder="Or type a new vendor name..."
-                      className="flex-1 h-10 px-4 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-900 dark:text-white text-sm outline-none focus:border-medical-500"
-                      onKeyDown={(e) => {
-                        if (e.key === "Enter") {
-                          e.preventDefault();
-                          const val = (
-                            e.target as HTMLInputElement
-                          ).value.trim();
-                          if (
-                            val &&
-                            !(formData.categories || []).includes(val)
-                          ) {
-                            setFormData({
-                              ...formData,
-                              categories: [...(formData.categories || []), val],
-                            });
-                            (e.target as HTMLInputElement).value = "";
-                          }
-                        }
-                      }}
-                    />
-                  </div>
-                  {(formData.categories || []).length === 0 && (
+                  {(formData.vendorIds || []).length === 0 && (
                     <p className="text-[10px] text-amber-500 font-bold ml-1">
                       Select at least one vendor
                     </p>
@@ -1410,7 +1383,7 @@ const Budgets: React.FC<BudgetsProps> = ({ user, t }) => {
                 <button
                   type="submit"
                   disabled={
-                    isSaving || (formData.categories || []).length === 0
+                    isSaving || (formData.vendorIds || []).length === 0
                   }
                   className="w-full h-12 rounded-xl bg-gradient-to-r from-medical-600 to-medical-500 text-white font-semibold text-sm shadow-xl shadow-medical-500/30 hover:shadow-medical-500/50 hover:scale-[1.02] active:scale-95 transition-all disabled:opacity-70 disabled:scale-100 flex items-center justify-center gap-3"
                 >
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarFeed, User } from '../types';
+import { ScheduleService } from '../services/ScheduleService';
+
+interface CalendarFeedModalProps {
+    currentUser: User;
+    onClose: () => void;
+}
+
+/** A person's private subscription link for their shifts and approved time off */
+const CalendarFeedModal: React.FC<CalendarFeedModalProps> = ({ currentUser, onClose }) => {
+    const [feed, setFeed] = useState<CalendarFeed | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isBusy, setIsBusy] = useState(false);
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        ScheduleService.fetchCalendarFeed(currentUser.id).then(saved => {
+            setFeed(saved);
+            setIsLoading(false);
+        });
+    }, [currentUser.id]);
+
+    const url = feed ? ScheduleService.calendarFeedUrl(feed.token) : '';
+
+    const handleCreate = async () => {
+        setIsBusy(true);
+        try {
+            setFeed(await ScheduleService.createCalendarFeed(currentUser.id));
+        } catch (e) {
+            alert('Failed to create your calendar link');
+        }
+        setIsBusy(false);
+    };
+
+    const handleRevoke = async (replace: boolean) => {
+        if (!feed) return;
+        if (!confirm(replace
+            ? 'Reset your calendar link? Calendars subscribed to the old link stop updating.'
+            : 'Turn off your calendar link? Calendars subscribed to it stop updating.')) return;
+        setIsBusy(true);
+        try {
+            await ScheduleService.revokeCalendarFeed(feed.id);
+            setFeed(replace ? await ScheduleService.createCalendarFeed(currentUser.id) : null);
+        } catch (e) {
+            alert('Failed to update your calendar link');
+        }
+        setIsBusy(false);
+    };
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(url);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl w-full max-w-lg p-6 border border-slate-200 dark:border-slate-800 space-y-4" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3 text-indigo-600 dark:text-indigo-400">
+                        <div className="bg-indigo-100 dark:bg-indigo-500/20 p-2 rounded-xl"><i className="fa-solid fa-calendar-plus text-xl"></i></div>
+                        <h2 className="text-xl font-black">My Calendar Feed</h2>
+                    </div>
+                    <button onClick={onClose} className="w-9 h-9 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-rose-500"><i className="fa-solid fa-xmark"></i></button>
+                </div>
+
+                <p className="text-sm text-slate-600 dark:text-slate-300">
+                    Subscribe to this link in Google Calendar, Apple Calendar or Outlook to see your shifts and approved time off. Changes show up when your calendar app next refreshes.
+                </p>
+
+                {isLoading ? (
+                    <p className="text-sm text-slate-400">Loading…</p>
+                ) : feed ? (
+                    <>
+                        <div className="flex items-center gap-2">
+                            <input readOnly value={url} onFocus={e => e.target.select()} className="flex-1 px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 text-xs font-mono text-slate-600 dark:text-slate-300" />
+                            <button onClick={handleCopy} className="px-3 py-2 bg-indigo-600 text-white font-bold text-xs rounded-xl hover:bg-indigo-700">
+                                <i className={`fa-solid ${copied ? 'fa-check' : 'fa-copy'} mr-1`}></i>{copied ? 'Copied' : 'Copy'}
+                            </button>
+                        </div>
+                        <a href={url.replace(/^https?:/, 'webcal:')} className="inline-block text-sm font-bold text-indigo-600 hover:underline">
+                            <i className="fa-solid fa-arrow-up-right-from-square mr-1"></i>Open in my calendar app
+                        </a>
+                        <p className="text-xs text-amber-700 dark:text-amber-400">
+                            <i className="fa-solid fa-lock mr-1"></i>Anyone with this link can see your schedule. Reset it if it was shared by mistake.
+                        </p>
+                        <div className="flex justify-end gap-2 pt-2 border-t border-slate-100 dark:border-slate-800">
+                            <button onClick={() => handleRevoke(false)} disabled={isBusy} className="px-3 py-2 text-rose-600 font-bold text-sm hover:underline disabled:opacity-50">Turn Off</button>
+                            <button onClick={() => handleRevoke(true)} disabled={isBusy} className="px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-sm rounded-xl shadow-sm disabled:opacity-50">Reset Link</button>
+                        </div>
+                    </>
+                ) : (
+                    <div className="flex justify-end">
+                        <button onClick={handleCreate} disabled={isBusy} className="px-4 py-2 bg-indigo-600 text-white font-bold text-sm rounded-xl hover:bg-indigo-700 shadow-md disabled:opacity-50">
+                            <i className="fa-solid fa-link mr-2"></i>Create My Link
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CalendarFeedModal;
@@ -0,0 +1,622 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { User, Permission, InventoryItem, CycleCountLine, CycleCountScope, CycleCountSession, CycleCountStatus } from '../types';
+import { CycleCountService } from '../services/CycleCountService';
+import { InventoryService } from '../services/InventoryService';
+import { useInventory } from '../contexts/InventoryContext';
+import { useAppData } from '../contexts/AppDataContext';
+import {
+    DEFAULT_VARIANCE_THRESHOLD,
+    buildCountSheet,
+    findLineByCode,
+    getLineVariance,
+    isCounted,
+    needsApproval,
+    summarizeCycleCount
+} from '../utils/cycleCount';
+
+interface CycleCountsProps {
+    user: User;
+    hasPermission: (permission: Permission) => boolean;
+    t: (key: string) => string;
+}
+
+const STATUS_STYLES: Record<CycleCountStatus, string> = {
+    OPEN: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+    SUBMITTING: 'bg-blue-50 text-blue-500 dark:bg-blue-900/20 dark:text-blue-300',
+    PENDING_APPROVAL: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+    APPROVING: 'bg-amber-50 text-amber-500 dark:bg-amber-900/20 dark:text-amber-300',
+    COMPLETED: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+    CANCELLED: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400'
+};
+
+const formatMoney = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const lineOutcome = (line: CycleCountLine, session: CycleCountSession): string => {
+    if (!isCounted(line)) return 'Not counted';
+    if (getLineVariance(line).units === 0) return 'Matched';
+    if (line.applied) return 'Adjusted';
+    if (line.approved === false) return 'Rejected';
+    return needsApproval(line, session.varianceThreshold) ? 'Needs approval' : 'Pending';
+};
+
+const CycleCounts: React.FC<CycleCountsProps> = ({ user, hasPermission, t }) => {
+    const { inventory, setInventory } = useInventory();
+    const { addLog } = useAppData();
+
+    const [sessions, setSessions] = useState<CycleCountSession[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isBusy, setIsBusy] = useState(false);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+
+    // New count sheet
+    const [scopeType, setScopeType] = useState<CycleCountScope>('LOCATION');
+    const [scopeValue, setScopeValue] = useState('');
+    const [threshold, setThreshold] = useState(DEFAULT_VARIANCE_THRESHOLD);
+
+    // Counting / approval
+    const [counts, setCounts] = useState<Record<string, string>>({});
+    const [decisions, setDecisions] = useState<Record<string, boolean>>({});
+    const [scanCode, setScanCode] = useState('');
+
+    const canManage = hasPermission('inventory.edit');
+    const canCount = hasPermission('inventory.audit');
+    const selected = sessions.find(s => s.id === selectedId) || null;
+
+    const scopeOptions = useMemo(() => {
+        const values = inventory.map(i => (scopeType === 'LOCATION' ? i.location : i.category)).filter(Boolean);
+        return Array.from(new Set(values)).sort();
+    }, [inventory, scopeType]);
+
+    const loadSessions = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setSessions(await CycleCountService.fetchAll());
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadSessions();
+    }, [loadSessions]);
+
+    // Reset the draft whenever another session is opened
+    useEffect(() => {
+        const draft: Record<string, string> = {};
+        selected?.lines.forEach(l => {
+            if (isCounted(l)) draft[l.itemId] = String(l.countedQty);
+        });
+        setCounts(draft);
+        setDecisions({});
+        setScanCode('');
+    }, [selectedId]);
+
+    const replaceSession = (updated: CycleCountSession) => {
+        setSessions(prev => prev.map(s => s.id === updated.id ? updated : s));
+    };
+
+    const mergeItems = (items: InventoryItem[], checkedIds: string[] = []) => {
+        const now = new Date().toISOString();
+        setInventory(prev => prev.map(inv => {
+            const adjusted = items.find(i => i.id === inv.id) || inv;
+            return checkedIds.includes(inv.id) ? { ...adjusted, lastChecked: now, lastCheckedBy: user.username } : adjusted;
+        }));
+    };
+
+    // Lines with the draft counts applied. Expected qty is re-read from live
+    // stock for every line whose count changed.
+    const draftLines = (session: CycleCountSession): CycleCountLine[] => {
+        const now = new Date().toISOString();
+        return session.lines.map(line => {
+            const raw = counts[line.itemId];
+            if (raw === undefined || raw === '') return line;
+            const countedQty = Math.max(0, Number(raw) || 0);
+            if (countedQty === line.countedQty) return line;
+            const live = inventory.find(i => i.id === line.itemId);
+            return {
+                ...line,
+                expectedQty: live ? live.stock : line.expectedQty,
+                countedQty,
+                countedBy: user.username,
+                countedAt: now
+            };
+        });
+    };
+
+    const logCompletion = async (session: CycleCountSession) => {
+        const summary = summarizeCycleCount(session);
+        const adjustments = session.lines.filter(l => getLineVariance(l).units !== 0);
+        addLog('AUDITED', `Cycle count "${session.name}" completed: ${summary.counted} counted, ${adjustments.filter(l => l.applied).length} adjusted (net ${formatMoney(summary.netValue)})`, user.username);
+        await InventoryService.logAction(user.id, 'AUDITED', session.id, {
+            cycle_count_id: session.id,
+            scope: `${session.scopeType}:${session.scopeValue}`,
+            counted: summary.counted,
+            net_variance_value: summary.netValue,
+            absolute_variance_value: summary.absoluteValue,
+            adjustments: adjustments.map(l => ({
+                item_id: l.itemId,
+                expected: l.expectedQty,
+                counted: l.countedQty,
+                variance: getLineVariance(l).units,
+                value: getLineVariance(l).value,
+                applied: !!l.applied
+            }))
+        }, null, 'cycle_count');
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!scopeValue) return;
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            const created = await CycleCountService.createSession({
+                name: `${scopeValue} — ${new Date().toLocaleDateString()}`,
+                scopeType,
+                scopeValue,
+                varianceThreshold: threshold,
+                lines: buildCountSheet(inventory, scopeType, scopeValue)
+            }, user.id);
+            setSessions(prev => [created, ...prev]);
+            setSelectedId(created.id);
+            setScopeValue('');
+            setMessage({ text: `Count sheet created with ${created.lines.length} items`, type: 'success' });
+        } catch (err: any) {
+            setMessage({ text: err.message, type: 'error' });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!selected) return;
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            replaceSession(await CycleCountService.saveCounts(selected, draftLines(selected)));
+            setMessage({ text: 'Counts saved', type: 'success' });
+        } catch (err: any) {
+            setMessage({ text: err.message, type: 'error' });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSubmit = async () => {
+        if (!selected) return;
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            const lines = draftLines(selected);
+            const { session, items } = await CycleCountService.submitCounts(selected, lines, inventory, user.username);
+            replaceSession(session);
+            mergeItems(items, lines.map(l => l.itemId));
+            if (session.status === 'COMPLETED') {
+                await logCompletion(session);
+                setMessage({ text: 'Cycle count completed', type: 'success' });
+            } else {
+                setMessage({ text: `${summarizeCycleCount(session).needingApproval} variance(s) are waiting for manager approval`, type: 'success' });
+            }
+        } catch (err: any) {
+            setMessage({ text: err.message, type: 'error' });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleApprove = async () => {
+        if (!selected) return;
+        setIsBusy(true);
+        setMessage(null);
+        try {
+            const { session, items } = await CycleCountService.approveAdjustments(selected, decisions, inventory, user.id);
+            replaceSession(session);
+            mergeItems(items);
+            await logCompletion(session);
+            setMessage({ text: 'Adjustments reviewed, cycle count completed', type: 'success' });
+        } catch (err: any) {
+            setMessage({ text: err.message, type: 'error' });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!selected || !window.confirm('Cancel this cycle count? Entered counts will be discarded.')) return;
+        setIsBusy(true);
+        try {
+            replaceSession(await CycleCountService.cancelSession(selected));
+        } catch (err: any) {
+            setMessage({ text: err.message, type: 'error' });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    // Hardware scanners type the code followed by Enter
+    const handleScan = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selected) return;
+        const line = findLineByCode(selected.lines, scanCode);
+        if (!line) {
+            setMessage({ text: `"${scanCode}" is not on this count sheet`, type: 'error' });
+        } else {
+            setMessage(null);
+            const input = document.getElementById(`count-${line.itemId}`) as HTMLInputElement | null;
+            input?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+            input?.focus();
+            input?.select();
+        }
+        setScanCode('');
+    };
+
+    const handlePrint = (session: CycleCountSession) => {
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) return;
+        const summary = summarizeCycleCount(session);
+        const rows = session.lines.map(line => {
+            const { units, value } = getLineVariance(line);
+            return `
+                <tr class="${units !== 0 ? 'variance' : ''}">
+                    <td><strong>${line.name}</strong>${line.sku ? `<br/><span class="muted">${line.sku}</span>` : ''}</td>
+                    <td>${line.location || '-'}</td>
+                    <td class="num">${line.expectedQty}</td>
+                    <td class="num">${isCounted(line) ? line.countedQty : '-'}</td>
+                    <td class="num">${units > 0 ? '+' : ''}${units}</td>
+                    <td class="num">${formatMoney(value)}</td>
+                    <td>${lineOutcome(line, session)}</td>
+                </tr>`;
+        }).join('');
+
+        printWindow.document.write(`
+            <html>
+                <head>
+                    <title>Cycle Count Variance Report - ${session.name}</title>
+                    <style>
+                        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; padding: 32px; color: #0f172a; }
+                        h1 { font-size: 22px; margin: 0 0 4px; }
+                        .muted { color: #64748b; font-size: 11px; }
+                        .summary { display: flex; gap: 32px; margin: 20px 0; font-size: 13px; }
+                        table { width: 100%; border-collapse: collapse; font-size: 12px; }
+                        th, td { border-bottom: 1px solid #e2e8f0; padding: 8px; text-align: left; }
+                        th { text-transform: uppercase; font-size: 10px; color: #64748b; letter-spacing: 0.05em; }
+                        .num { text-align: right; font-variant-numeric: tabular-nums; }
+                        tr.variance td { background: #fffbeb; }
+                        .signature { margin-top: 48px; display: flex; gap: 64px; font-size: 12px; }
+                        .signature div { border-top: 1px solid #0f172a; padding-top: 6px; width: 220px; }
+                    </style>
+                </head>
+                <body>
+                    <h1>Cycle Count Variance Report</h1>
+                    <div class="muted">${session.name} · ${session.scopeType === 'LOCATION' ? 'Location' : 'Category'}: ${session.scopeValue} · Status: ${session.status}</div>
+                    <div class="muted">Created ${new Date(session.createdAt).toLocaleString()}${session.completedAt ? ` · Completed ${new Date(session.completedAt).toLocaleString()}` : ''}</div>
+                    <div class="summary">
+                        <div><strong>${summary.counted}/${summary.total}</strong> items counted</div>
+                        <div><strong>${summary.withVariance}</strong> with variance</div>
+                        <div>Net variance <strong>${formatMoney(summary.netValue)}</strong></div>
+                        <div>Approval threshold <strong>${formatMoney(session.varianceThreshold)}</strong></div>
+                    </div>
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Item</th>
+                                <th>Location</th>
+                                <th class="num">Expected</th>
+                                <th class="num">Counted</th>
+                                <th class="num">Variance</th>
+                                <th class="num">Value</th>
+                                <th>Outcome</th>
+                            </tr>
+                        </thead>
+                        <tbody>${rows}</tbody>
+                    </table>
+                    <div class="signature">
+                        <div>Counted by</div>
+                        <div>Approved by</div>
+                    </div>
+                    <script>
+                        window.onload = () => { window.print(); window.close(); }
+                    </script>
+                </body>
+            </html>
+        `);
+        printWindow.document.close();
+    };
+
+    // SESSION DETAIL
+    if (selected) {
+        const lines = selected.status === 'OPEN' ? draftLines(selected) : selected.lines;
+        const summary = summarizeCycleCount({ ...selected, lines });
+        const isCounting = selected.status === 'OPEN' && canCount;
+        const isReviewing = selected.status === 'PENDING_APPROVAL' && canManage;
+
+        return (
+            <div className="space-y-6 pb-20 md:pb-10 animate-fade-in-up">
+                <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => setSelectedId(null)}
+                            className="w-11 h-11 rounded-xl glass-panel flex items-center justify-center text-slate-500 hover:text-medical-500 transition-colors"
+                        >
+                            <i className="fa-solid fa-arrow-left"></i>
+                        </button>
+                        <div>
+                            <h2 className="text-xl font-bold text-slate-900 dark:text-white">{selected.name}</h2>
+                            <p className="text-caption mt-0.5">
+                                {summary.counted}/{summary.total} counted · threshold {formatMoney(selected.varianceThreshold)}
+                                <span className={`ml-2 px-2 py-0.5 rounded-lg text-[10px] font-bold ${STATUS_STYLES[selected.status]}`}>{selected.status.replace('_', ' ')}</span>
+                            </p>
+                        </div>
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => handlePrint({ ...selected, lines })}
+                            className="h-11 px-4 glass-panel text-slate-900 dark:text-white rounded-xl font-semibold text-sm flex items-center gap-2"
+                        >
+                            <i className="fa-solid fa-print"></i> Report
+                        </button>
+                        {isCounting && (
+                            <button
+                                onClick={handleSave}
+                                disabled={isBusy}
+                                className="h-11 px-4 glass-panel text-slate-900 dark:text-white rounded-xl font-semibold text-sm flex items-center gap-2 disabled:opacity-50"
+                            >
+                                <i className="fa-solid fa-floppy-disk"></i> Save
+                            </button>
+                        )}
+                        {isCounting && (
+                            <button
+                                onClick={handleSubmit}
+                                disabled={isBusy || summary.counted < summary.total}
+                                className="h-11 px-5 bg-medical-600 text-white rounded-xl font-semibold text-sm shadow-lg shadow-medical-500/30 flex items-center gap-2 disabled:opacity-50"
+                            >
+                                <i className="fa-solid fa-check"></i> Submit Counts
+                            </button>
+                        )}
+                        {isReviewing && (
+                            <button
+                                onClick={handleApprove}
+                                disabled={isBusy}
+                                className="h-11 px-5 bg-emerald-600 text-white rounded-xl font-semibold text-sm shadow-lg shadow-emerald-500/30 flex items-center gap-2 disabled:opacity-50"
+                            >
+                                <i className="fa-solid fa-stamp"></i> Finalize Review
+                            </button>
+                        )}
+                    </div>
+                </header>
+
+                {message && (
+                    <div className={`px-4 py-3 rounded-xl text-sm font-bold ${message.type === 'error' ? 'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400' : 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20 dark:text-emerald-400'}`}>
+                        {message.text}
+                    </div>
+                )}
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {[
+                        { label: 'Counted', value: `${summary.counted}/${summary.total}` },
+                        { label: 'With Variance', value: String(summary.withVariance) },
+                        { label: 'Net Variance', value: formatMoney(summary.netValue) },
+                        { label: 'Needs Approval', value: String(summary.needingApproval) }
+                    ].map(stat => (
+                        <div key={stat.label} className="glass-panel p-4 rounded-2xl">
+                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{stat.label}</p>
+                            <p className="text-xl font-black text-slate-900 dark:text-white tabular-nums mt-1">{stat.value}</p>
+                        </div>
+                    ))}
+                </div>
+
+                {isCounting && (
+                    <form onSubmit={handleScan} className="glass-panel p-3 rounded-2xl flex items-center gap-3">
+                        <i className="fa-solid fa-barcode text-slate-400 ml-2"></i>
+                        <input
+                            type="text"
+                            value={scanCode}
+                            onChange={(e) => setScanCode(e.target.value)}
+                            placeholder="Scan or type a SKU to jump to the item"
+                            autoFocus
+                            className="flex-1 h-10 px-3 bg-slate-50/50 dark:bg-slate-900/50 rounded-xl text-sm text-slate-700 dark:text-slate-200 outline-none"
+                        />
+                    </form>
+                )}
+
+                {isReviewing && (
+                    <div className="px-4 py-3 rounded-xl text-sm bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400">
+                        Tick the variances to book. Unticked variances are rejected and the system quantity is kept.
+                    </div>
+                )}
+
+                <div className="space-y-2">
+                    {lines.map(line => {
+                        const { units, value } = getLineVariance(line);
+                        const held = !line.applied && needsApproval(line, selected.varianceThreshold);
+                        return (
+                            <div
+                                key={line.itemId}
+                                className={`glass-panel p-4 rounded-2xl flex flex-col md:flex-row md:items-center gap-3 ${held && selected.status === 'PENDING_APPROVAL' ? 'border border-amber-300 dark:border-amber-700' : ''}`}
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <div className="font-bold text-slate-900 dark:text-white truncate">{line.name}</div>
+                                    <div className="text-xs text-slate-400 mt-0.5">
+                                        {line.location}{line.sku && <span className="font-mono ml-2">{line.sku}</span>}
+                                        {line.countedBy && <span className="ml-2">· counted by {line.countedBy}</span>}
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-4">
+                                    <div className="text-center">
+                                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Expected</p>
+                                        <p className="font-bold tabular-nums text-slate-600 dark:text-slate-300">{line.expectedQty}</p>
+                                    </div>
+                                    <div className="text-center">
+                                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Counted</p>
+                                        {isCounting ? (
+                                            <input
+                                                id={`count-${line.itemId}`}
+                                                type="number"
+                                                min={0}
+                                                inputMode="numeric"
+                                                value={counts[line.itemId] ?? ''}
+                                                onChange={(e) => setCounts(prev => ({ ...prev, [line.itemId]: e.target.value }))}
+                                                onFocus={(e) => e.target.select()}
+                                                className="w-20 h-10 px-2 text-center bg-slate-50/50 dark:bg-slate-900/50 rounded-xl text-sm font-bold text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-medical-500/30"
+                                            />
+                                        ) : (
+                                            <p className="font-bold tabular-nums text-slate-900 dark:text-white">{isCounted(line) ? line.countedQty : '—'}</p>
+                                        )}
+                                    </div>
+                                    <div className="text-right w-24">
+                                        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Variance</p>
+                                        <p className={`font-bold tabular-nums ${units === 0 ? 'text-slate-400' : units < 0 ? 'text-red-500' : 'text-emerald-500'}`}>
+                                            {units > 0 ? '+' : ''}{units} <span className="text-xs">{t(line.unit)}</span>
+                                        </p>
+                                        {units !== 0 && <p className="text-[10px] text-slate-400 tabular-nums">{formatMoney(value)}</p>}
+                                    </div>
+                                    <div className="w-28 text-right">
+                                        {isReviewing && held ? (
+                                            <label className="inline-flex items-center gap-2 text-xs font-bold text-amber-600 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!!decisions[line.itemId]}
+                                                    onChange={(e) => setDecisions(prev => ({ ...prev, [line.itemId]: e.target.checked }))}
+                                                    className="w-4 h-4 accent-emerald-600"
+                                                />
+                                                Approve
+                                            </label>
+                                        ) : (
+                                            <span className="text-xs font-bold text-slate-500">{lineOutcome(line, selected)}</span>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {selected.status === 'OPEN' && canManage && (
+                    <button
+                        onClick={handleCancel}
+                        disabled={isBusy}
+                        className="px-4 py-2 rounded-lg text-xs font-bold text-slate-500 hover:bg-red-50 hover:text-red-500 transition-all disabled:opacity-50"
+                    >
+                        Cancel cycle count
+                    </button>
+                )}
+            </div>
+        );
+    }
+
+    // SESSION LIST
+    return (
+        <div className="space-y-6 pb-20 md:pb-10 animate-fade-in-up">
+            <header className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+                <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 rounded-2xl bg-medical-500 flex items-center justify-center shadow-lg shadow-medical-500/20">
+                        <i className="fa-solid fa-clipboard-check text-xl text-white"></i>
+                    </div>
+                    <div>
+                        <h2 className="text-display text-slate-900 dark:text-white">Cycle Counts</h2>
+                        <p className="text-caption mt-0.5">Count a shelf or category and reconcile stock</p>
+                    </div>
+                </div>
+                <button
+                    onClick={loadSessions}
+                    disabled={isLoading}
+                    className="h-11 px-5 glass-panel text-slate-900 dark:text-white rounded-xl font-semibold text-sm shadow-md flex items-center gap-2 transition-all hover:scale-105 active:scale-95 disabled:opacity-50"
+                >
+                    <i className={`fa-solid fa-rotate ${isLoading ? 'animate-spin' : ''}`}></i>
+                    Refresh
+                </button>
+            </header>
+
+            {message && (
+                <div className={`px-4 py-3 rounded-xl text-sm font-bold ${message.type === 'error' ? 'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400' : 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20 dark:text-emerald-400'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {canManage && (
+                <form onSubmit={handleCreate} className="glass-panel p-4 rounded-2xl grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                    <label className="block">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Count By</span>
+                        <select
+                            value={scopeType}
+                            onChange={(e) => { setScopeType(e.target.value as CycleCountScope); setScopeValue(''); }}
+                            className="mt-1 w-full h-11 px-3 bg-slate-50/50 dark:bg-slate-900/50 rounded-xl text-sm font-medium text-slate-700 dark:text-slate-200 outline-none"
+                        >
+                            <option value="LOCATION">Storage location</option>
+                            <option value="CATEGORY">Category</option>
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{scopeType === 'LOCATION' ? 'Location' : 'Category'}</span>
+                        <select
+                            value={scopeValue}
+                            onChange={(e) => setScopeValue(e.target.value)}
+                            required
+                            className="mt-1 w-full h-11 px-3 bg-slate-50/50 dark:bg-slate-900/50 rounded-xl text-sm font-medium text-slate-700 dark:text-slate-200 outline-none"
+                        >
+                            <option value="">Select...</option>
+                            {scopeOptions.map(v => (
+                                <option key={v} value={v}>{v} ({buildCountSheet(inventory, scopeType, v).length} items)</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Approval Threshold ($)</span>
+                        <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={threshold}
+                            onChange={(e) => setThreshold(Number(e.target.value))}
+                            className="mt-1 w-full h-11 px-3 bg-slate-50/50 dark:bg-slate-900/50 rounded-xl text-sm font-bold text-slate-700 dark:text-slate-200 outline-none"
+                        />
+                    </label>
+                    <button
+                        type="submit"
+                        disabled={isBusy || !scopeValue}
+                        className="h-11 px-5 bg-medical-600 text-white rounded-xl font-semibold text-sm shadow-lg shadow-medical-500/30 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                        <i className="fa-solid fa-file-circle-plus"></i> Generate Sheet
+                    </button>
+                </form>
+            )}
+
+            <div className="glass-panel rounded-2xl overflow-hidden">
+                {sessions.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-20 text-center">
+                        <div className="w-20 h-20 bg-slate-100 dark:bg-slate-800 rounded-full flex items-center justify-center mb-4">
+                            <i className="fa-solid fa-clipboard-check text-3xl text-slate-400"></i>
+                        </div>
+                        <h3 className="text-xl font-bold text-slate-900 dark:text-white">{isLoading ? 'Loading...' : 'No Cycle Counts'}</h3>
+                        <p className="text-slate-500 mt-2">Generated count sheets will appear here.</p>
+                    </div>
+                ) : (
+                    <div className="divide-y divide-slate-50 dark:divide-slate-800">
+                        {sessions.map(session => {
+                            const summary = summarizeCycleCount(session);
+                            return (
+                                <button
+                                    key={session.id}
+                                    onClick={() => setSelectedId(session.id)}
+                                    className="w-full p-4 flex items-center justify-between gap-4 text-left hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors"
+                                >
+                                    <div className="min-w-0">
+                                        <div className="font-bold text-slate-900 dark:text-white truncate">{session.name}</div>
+                                        <div className="text-xs text-slate-400 mt-1">
+                                            {summary.counted}/{summary.total} counted
+                                            {summary.withVariance > 0 && <> · {summary.withVariance} variance(s), net {formatMoney(summary.netValue)}</>}
+                                        </div>
+                                    </div>
+                                    <span className={`shrink-0 px-3 py-1 rounded-lg text-xs font-bold ${STATUS_STYLES[session.status]}`}>{session.status.replace('_', ' ')}</span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CycleCounts;
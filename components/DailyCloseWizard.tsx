@@ -6,8 +6,11 @@ import { DailyReportState, DailyReportAction, DailyReport } from '../types/daily
 import CalculatorModal from './CalculatorModal';
 import SmartDictationInput from '../src/components/dictation/SmartDictationInput';
 import { DailyReportService } from '../services/DailyReportService';
-import { formatDateForFilename, formatDate, formatDateTime } from '../utils/dateUtils';
+import { formatDateForFilename, formatDate, formatDateTime, getCurrentLocalISODate } from '../utils/dateUtils';
 import { supabase } from '../src/lib/supabase';
+import { useAppData } from '../contexts/AppDataContext';
+import { dailyCloseKeys, payerReportLabel } from '../utils/payers';
+import { BILL_DENOMINATIONS, COIN_DENOMINATIONS, emptyDrawer, formatDenomination, localDateOf, pettyCashForDay, summarizeDrawer } from '../utils/cashDrawer';
 
 interface DailyCloseWizardProps {
     user: User;
@@ -22,9 +25,13 @@ export const DailyReportDocument: React.FC<{
     report: DailyReport;
     usersDb?: User[];
 }> = ({ report, usersDb = [] }) => {
+    const { payers } = useAppData();
 
     // Helpers
     const formatCurrency = (val: number) => `$${val.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const formatVariance = (val: number) => `${val > 0 ? '+' : val < 0 ? '−' : ''}${formatCurrency(Math.abs(val))}`;
+    const drawer = report.drawer;
+    const drawerSummary = drawer ? summarizeDrawer(drawer, { cash: report.financials.methods.cash, check: report.financials.methods.check }) : null;
 
     return (
         <div
@@ -151,6 +158,34 @@ export const DailyReportDocument: React.FC<{
                     </div>
                 </div>
 
+                {/* Cash Drawer */}
+                {drawer && drawerSummary && (
+                    <div className="mb-8 -mt-4 border border-slate-200 rounded-lg p-3 text-[10px]" style={{ border: '1px solid #e2e8f0' }}>
+                        <div className="flex justify-between items-center mb-2">
+                            <span className="font-bold uppercase tracking-wider text-slate-500">Cash Drawer Count</span>
+                            <span className={`font-black text-xs ${drawerSummary.cashVariance === 0 ? 'text-emerald-700' : 'text-red-700'}`} style={{ color: drawerSummary.cashVariance === 0 ? '#047857' : '#b91c1c' }}>
+                                {drawerSummary.cashVariance === 0 ? 'CASH EVEN' : `CASH ${drawerSummary.cashVariance > 0 ? 'OVER' : 'SHORT'} ${formatCurrency(Math.abs(drawerSummary.cashVariance))}`}
+                            </span>
+                        </div>
+                        <div className="flex justify-between gap-3 text-slate-700">
+                            <div>Float <span className="font-mono font-bold text-slate-900">{formatCurrency(drawer.openingFloat)}</span></div>
+                            <div>Petty Cash Out <span className="font-mono font-bold text-slate-900">{formatCurrency(drawerSummary.pettyCashOut)}</span></div>
+                            <div>Expected <span className="font-mono font-bold text-slate-900">{formatCurrency(drawerSummary.expected)}</span></div>
+                            <div>Counted <span className="font-mono font-bold text-slate-900">{formatCurrency(drawerSummary.counted)}</span></div>
+                            <div>Checks ({drawer.checks.length}) <span className="font-mono font-bold text-slate-900">{formatCurrency(drawerSummary.checksTotal)}</span> <span className="text-slate-400">{formatVariance(drawerSummary.checkVariance)}</span></div>
+                            <div>Deposit <span className="font-mono font-bold text-slate-900">{formatCurrency(drawerSummary.deposit)}</span></div>
+                        </div>
+                        <div className="mt-1.5 text-slate-400 font-mono">
+                            {[...BILL_DENOMINATIONS, ...COIN_DENOMINATIONS].filter(v => drawer.denominations[v]).map(v => `${formatDenomination(v)}×${drawer.denominations[v]}`).join('  ') || 'No denominations counted'}
+                        </div>
+                        {drawer.signOff && (
+                            <div className="mt-1.5 text-slate-700">
+                                <span className="font-bold">Variance approved by {drawer.signOff.managerName}</span> ({formatDateTime(drawer.signOff.signedAt)}): <span className="italic">{drawer.signOff.reason}</span>
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* Section 2 & 3: Volume & Operational */}
                 <div className="flex justify-between gap-10 mb-10">
                     <div className="w-[48%]">
@@ -162,7 +197,7 @@ export const DailyReportDocument: React.FC<{
                             <tbody>
                                 {Object.entries(report.insurances).map(([k, v]) => (
                                     <tr key={k} className="border-b border-slate-100">
-                                        <td className="py-2 text-slate-600 capitalize">{k.replace(/_/g, ' ').replace('Comp', ' Comp')}</td>
+                                        <td className="py-2 text-slate-600">{payerReportLabel(payers, k)}</td>
                                         <td className="py-2 text-right font-bold text-slate-900">{v as number}</td>
                                     </tr>
                                 ))}
@@ -231,14 +266,14 @@ export const DailyReportDocument: React.FC<{
                 )}
 
                 {/* Signatures */}
-                <div className="flex justify-between items-end mt-16 pt-8 border-t border-slate-200" style={{ borderTop: '1px solid #e2e8f0' }}>
+                <div className={`flex justify-between items-end ${drawer ? 'mt-8' : 'mt-16'} pt-8 border-t border-slate-200`} style={{ borderTop: '1px solid #e2e8f0' }}>
                     <div className="w-[40%]">
                         <div className="border-b border-slate-400 mb-2" style={{ borderBottom: '1px solid #94a3b8' }}></div>
                         <div className="text-[10px] font-bold uppercase text-slate-500">Prepared By: {report.author}</div>
                     </div>
                     <div className="w-[40%]">
                         <div className="border-b border-slate-400 mb-2" style={{ borderBottom: '1px solid #94a3b8' }}></div>
-                        <div className="text-[10px] font-bold uppercase text-slate-500">Approved By (Manager)</div>
+                        <div className="text-[10px] font-bold uppercase text-slate-500">Approved By (Manager){drawer?.signOff ? `: ${drawer.signOff.managerName}` : ''}</div>
                     </div>
                 </div>
             </div>
@@ -259,15 +294,7 @@ const initialState: DailyReportState = {
         methods: { cash: 0, credit: 0, check: 0, moneyOrder: 0 },
         types: { billPay: 0, copay: 0, selfPay: 0 }
     },
-    insurances: {
-        medicaid: 0,
-        bcbs_il: 0,
-        meridian: 0,
-        commercial: 0,
-        medicare: 0,
-        workersComp: 0,
-        selfPay: 0
-    },
+    insurances: {}, // Keyed by Payer.reportKey
     operational: {
         nurseVisits: 0,
         providerVisits: {}
@@ -277,6 +304,7 @@ const initialState: DailyReportState = {
         estPts: 0,
         xrays: 0
     },
+    drawer: emptyDrawer(),
     notes: '',
     errors: [],
     customDate: ''
@@ -300,12 +328,16 @@ function reducer(state: DailyReportState, action: DailyReportAction): DailyRepor
             return { ...state, operational: { ...state.operational, providerVisits: newProviderVisits } };
         case 'SET_STAT':
             return { ...state, stats: { ...state.stats, [action.payload.key]: action.payload.value } };
+        case 'SET_DRAWER':
+            return { ...state, drawer: { ...state.drawer, ...action.payload } };
+        case 'SET_DENOMINATION':
+            return { ...state, drawer: { ...state.drawer, denominations: { ...state.drawer.denominations, [action.payload.value]: action.payload.count } } };
         case 'SET_NOTES':
             return { ...state, notes: action.payload };
         case 'SET_CUSTOM_DATE':
             return { ...state, customDate: action.payload };
         case 'NEXT_STEP':
-            return { ...state, step: Math.min(state.step + 1, 3), errors: [] };
+            return { ...state, step: Math.min(state.step + 1, 4), errors: [] };
         case 'PREV_STEP':
             return { ...state, step: Math.max(state.step - 1, 1), errors: [] };
         case 'VALIDATE_AND_SET_ERRORS':
@@ -319,6 +351,7 @@ function reducer(state: DailyReportState, action: DailyReportAction): DailyRepor
 
 const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCloseComplete, onCancel, initialData }) => {
     const [state, dispatch] = useReducer(reducer, initialState);
+    const { payers, pettyCashHistory, dailyReports } = useAppData();
     const reportRef = useRef<HTMLDivElement>(null);
 
     // UI States
@@ -346,6 +379,7 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
                     insurances: initialData.insurances,
                     operational: initialData.operational,
                     stats: initialData.stats,
+                    drawer: initialData.drawer || emptyDrawer(),
                     notes: initialData.notes,
                     customDate: initialData.timestamp,
                     step: 1
@@ -361,8 +395,12 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
                     if (parsed.financials && parsed.operational) {
                         console.log('Restoring daily report draft...');
                         dispatch({ type: 'LOAD_DATA', payload: parsed });
+                        return;
                     }
                 }
+                // The float usually stays the same from day to day
+                const lastFloat = dailyReports.find(r => r.drawer)?.drawer?.openingFloat;
+                if (lastFloat) dispatch({ type: 'SET_DRAWER', payload: { openingFloat: lastFloat } });
             } catch (e) {
                 console.error('Failed to load draft', e);
             }
@@ -389,12 +427,29 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
     const finDiff = totalMethods - totalTypes;
     const isFinBalanced = Math.abs(finDiff) < 0.01;
 
-    const totalIns = (Object.values(state.insurances || {}) as number[]).reduce((a, b) => a + b, 0);
+    // One count per active payer, plus retired payers this report already counted
+    const insuranceKeys = dailyCloseKeys(payers, state.insurances);
+    const insurances = Object.fromEntries(insuranceKeys.map(key => [key, state.insurances?.[key] || 0]));
+    const totalIns = (Object.values(insurances) as number[]).reduce((a, b) => a + b, 0);
     const totalProviders = (Object.values(state.operational?.providerVisits || {}) as number[]).reduce((a, b) => a + b, 0);
     const totalOps = (state.operational?.nurseVisits || 0) + totalProviders;
     const volDiff = totalIns - totalOps;
     const isVolBalanced = totalIns === totalOps && totalIns > 0;
 
+    // Physical drawer against the cash and checks reported above
+    const reportDate = state.customDate ? localDateOf(state.customDate) : getCurrentLocalISODate();
+    const drawer = { ...state.drawer, pettyCash: pettyCashForDay(pettyCashHistory, reportDate) };
+    const drawerSummary = summarizeDrawer(drawer, { cash: state.financials.methods.cash, check: state.financials.methods.check });
+    const managers = (usersDb || []).filter(u => u.role === UserRole.MANAGER || u.role === UserRole.OWNER);
+    const [signOffManagerId, setSignOffManagerId] = useState(managers.some(m => m.id === user.id) ? user.id : '');
+    const [signOffReason, setSignOffReason] = useState('');
+    const [signOffPin, setSignOffPin] = useState('');
+    const [signOffError, setSignOffError] = useState('');
+    const [isSigningOff, setIsSigningOff] = useState(false);
+    // Approving in your own session needs no PIN; another manager types theirs in at the register
+    const signOffNeedsPin = !!signOffManagerId && signOffManagerId !== user.id;
+    const [checkInput, setCheckInput] = useState('');
+
     const totalStatsPatients = state.stats.newPts + state.stats.estPts;
     const statsDiff = totalIns - totalStatsPatients;
     const isStatsBalanced = totalIns === totalStatsPatients;
@@ -408,9 +463,10 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
             author: initialData?.author || user.username,
             timestamp: reportTimestamp,
             financials: state.financials,
-            insurances: state.insurances,
+            insurances,
             operational: state.operational,
             stats: state.stats,
+            drawer,
             notes: state.notes,
             totals: {
                 revenue: totalMethods,
@@ -425,7 +481,10 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
         if (state.step === 1 && !isFinBalanced) {
             errors.push(`Financials unbalanced. Diff: $${finDiff.toFixed(2)}`);
         }
-        if (state.step === 2 && !isVolBalanced) {
+        if (state.step === 2 && drawerSummary.needsSignOff && !drawerSummary.isSignedOff) {
+            errors.push(`Drawer is off by $${drawerSummary.cashVariance.toFixed(2)} cash / $${drawerSummary.checkVariance.toFixed(2)} checks, over the $${drawer.threshold.toFixed(2)} limit. A manager must sign off with a reason.`);
+        }
+        if (state.step === 3 && !isVolBalanced) {
             errors.push(`Volume mismatch. Insurance: ${totalIns} vs Ops: ${totalOps}. Diff: ${volDiff}`);
         }
 
@@ -439,6 +498,11 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
     const handleSignAndGenerate = async () => {
         if (isSubmitting) return;
 
+        if (drawerSummary.needsSignOff && !drawerSummary.isSignedOff) {
+            dispatch({ type: 'VALIDATE_AND_SET_ERRORS', payload: ['The drawer count changed after the manager signed off. Go back to the Drawer step for a new sign-off.'] });
+            return;
+        }
+
         if (!isStatsBalanced) {
             dispatch({ type: 'VALIDATE_AND_SET_ERRORS', payload: [`Patient mismatch: New (${state.stats.newPts}) + Est (${state.stats.estPts}) = ${totalStatsPatients}. Must equal Total Patients (${totalIns}).`] });
             return;
@@ -559,6 +623,38 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
         });
     };
 
+    const handleAddCheck = () => {
+        const amount = parseFloat(checkInput);
+        if (isNaN(amount) || amount <= 0) return;
+        dispatch({ type: 'SET_DRAWER', payload: { checks: [...state.drawer.checks, amount] } });
+        setCheckInput('');
+    };
+
+    const handleDrawerSignOff = async () => {
+        const manager = managers.find(m => m.id === signOffManagerId);
+        if (!manager || !signOffReason.trim()) return;
+        if (signOffNeedsPin && !signOffPin) return;
+        setIsSigningOff(true);
+        setSignOffError('');
+        try {
+            const signOff = await DailyReportService.signOffDrawer({
+                reportId,
+                managerId: manager.id,
+                managerName: manager.full_name || manager.username,
+                pin: signOffNeedsPin ? signOffPin : undefined,
+                reason: signOffReason.trim(),
+                cashVariance: drawerSummary.cashVariance,
+                checkVariance: drawerSummary.checkVariance
+            });
+            dispatch({ type: 'SET_DRAWER', payload: { signOff } });
+        } catch (error: any) {
+            setSignOffError(error.message || 'Sign-off failed');
+        } finally {
+            setSignOffPin('');
+            setIsSigningOff(false);
+        }
+    };
+
     const handleCalculatorConfirm = (total: number) => {
         if (calcModal.category === 'methods') {
             dispatch({ type: 'SET_FIN_METHOD', payload: { key: calcModal.key as any, value: total } });
@@ -627,14 +723,15 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
                     </div>
                     <div className="hidden sm:flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800/60">
                         <i className="fa-solid fa-clipboard-check text-medical-500"></i>
-                        <span className="text-xs font-bold text-slate-500 dark:text-slate-400">Step {state.step} of 3</span>
+                        <span className="text-xs font-bold text-slate-500 dark:text-slate-400">Step {state.step} of 4</span>
                     </div>
                 </div>
                 <div className="flex items-center gap-0 overflow-x-auto hide-scrollbar pb-2">
                     {[
                         { num: 1, label: 'Financials', icon: 'fa-dollar-sign' },
-                        { num: 2, label: 'Volume', icon: 'fa-users' },
-                        { num: 3, label: 'Sign Off', icon: 'fa-file-signature' }
+                        { num: 2, label: 'Drawer', icon: 'fa-cash-register' },
+                        { num: 3, label: 'Volume', icon: 'fa-users' },
+                        { num: 4, label: 'Sign Off', icon: 'fa-file-signature' }
                     ].map((s, i) => (
                         <React.Fragment key={s.num}>
                             <div className="flex flex-col items-center gap-1.5 flex-shrink-0 min-w-[70px]">
@@ -644,7 +741,7 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
                                 </div>
                                 <span className={`text-[10px] font-bold uppercase tracking-wider transition-colors ${state.step >= s.num ? 'text-medical-600 dark:text-medical-400' : 'text-slate-400'}`}>{s.label}</span>
                             </div>
-                            {i < 2 && <div className={`flex-1 min-w-[30px] h-0.5 rounded-full mx-2 mb-5 transition-all duration-500 ${state.step > s.num ? 'bg-emerald-400' : 'bg-slate-200 dark:bg-slate-700'}`}></div>}
+                            {i < 3 && <div className={`flex-1 min-w-[30px] h-0.5 rounded-full mx-2 mb-5 transition-all duration-500 ${state.step > s.num ? 'bg-emerald-400' : 'bg-slate-200 dark:bg-slate-700'}`}></div>}
                         </React.Fragment>
                     ))}
                 </div>
@@ -748,8 +845,179 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
                 </div>
             )}
 
-            {/* STEP 2: VOLUME */}
+            {/* STEP 2: DRAWER COUNT */}
             {state.step === 2 && (
+                <div className="relative overflow-hidden bg-white dark:bg-slate-900/80 backdrop-blur-xl p-5 sm:p-8 rounded-2xl border border-slate-200/60 dark:border-slate-700/50 shadow-xl space-y-6 sm:space-y-8">
+                    <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-amber-400 via-amber-500 to-amber-600"></div>
+                    <div className="flex justify-between items-center">
+                        <h3 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-3">
+                            <span className="w-10 h-10 rounded-xl bg-gradient-to-br from-amber-400 to-amber-600 text-white flex items-center justify-center text-sm shadow-lg shadow-amber-500/20"><i className="fa-solid fa-cash-register"></i></span>
+                            Drawer Count
+                        </h3>
+                        <div className={`px-4 py-1.5 rounded-full text-xs font-bold uppercase tracking-wider flex items-center gap-1.5 ${drawerSummary.cashVariance === 0 && drawerSummary.checkVariance === 0 ? 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 border border-emerald-200 dark:border-emerald-800' : drawerSummary.needsSignOff && !drawerSummary.isSignedOff ? 'bg-red-50 dark:bg-red-900/20 text-red-600 border border-red-200 dark:border-red-800' : 'bg-amber-50 dark:bg-amber-900/20 text-amber-600 border border-amber-200 dark:border-amber-800'}`}>
+                            <i className={`fa-solid ${drawerSummary.cashVariance === 0 ? 'fa-check-circle' : 'fa-exclamation-triangle'} text-[10px]`}></i>
+                            {drawerSummary.cashVariance === 0 ? 'Cash Even' : `${drawerSummary.cashVariance > 0 ? 'Over' : 'Short'} $${Math.abs(drawerSummary.cashVariance).toFixed(2)}`}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-8 sm:gap-12">
+                        <div className="space-y-4">
+                            <div className="flex justify-between items-center">
+                                <span className="font-medium text-sm text-slate-700 dark:text-slate-300">Opening Float</span>
+                                <div className="flex items-center gap-1 sm:gap-2 bg-slate-50 dark:bg-slate-800 rounded-lg pl-2 sm:pl-3 pr-3 py-2">
+                                    <span className="text-slate-400 text-xs">$</span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={state.drawer.openingFloat || ''}
+                                        onChange={e => dispatch({ type: 'SET_DRAWER', payload: { openingFloat: parseFloat(e.target.value) || 0 } })}
+                                        className="bg-transparent w-20 sm:w-24 text-right font-mono font-bold outline-none text-slate-900 dark:text-white"
+                                        placeholder="0.00"
+                                    />
+                                </div>
+                            </div>
+
+                            {[{ label: 'Bills', values: BILL_DENOMINATIONS }, { label: 'Coins', values: COIN_DENOMINATIONS }].map(group => (
+                                <div key={group.label}>
+                                    <div className="text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-100 dark:border-slate-700 pb-2 mb-3">{group.label} (Count)</div>
+                                    <div className="grid grid-cols-3 gap-2">
+                                        {group.values.map(value => (
+                                            <div key={value} className="bg-slate-50 dark:bg-slate-800 rounded-xl p-2">
+                                                <label className="text-[10px] font-bold text-slate-500 uppercase block mb-0.5">{formatDenomination(value)}</label>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    value={state.drawer.denominations[value] || ''}
+                                                    onChange={e => dispatch({ type: 'SET_DENOMINATION', payload: { value, count: parseInt(e.target.value) || 0 } })}
+                                                    className="w-full bg-transparent font-mono font-bold text-lg text-slate-900 dark:text-white outline-none"
+                                                    placeholder="0"
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="space-y-6">
+                            <div>
+                                <div className="text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-100 dark:border-slate-700 pb-2 mb-3">Checks Received</div>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.01"
+                                        value={checkInput}
+                                        onChange={e => setCheckInput(e.target.value)}
+                                        onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAddCheck(); } }}
+                                        className="flex-1 h-10 px-3 rounded-lg bg-slate-50 dark:bg-slate-800 font-mono font-bold text-sm text-slate-900 dark:text-white outline-none"
+                                        placeholder="Check amount"
+                                    />
+                                    <button onClick={handleAddCheck} className="h-10 px-4 rounded-lg bg-slate-900 dark:bg-white text-white dark:text-slate-900 text-xs font-bold">Add</button>
+                                </div>
+                                <div className="flex flex-wrap gap-2 mt-3">
+                                    {state.drawer.checks.map((amount, i) => (
+                                        <span key={i} className="pl-3 pr-1 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-xs font-mono font-bold text-slate-700 dark:text-slate-200 flex items-center gap-1">
+                                            ${amount.toFixed(2)}
+                                            <button
+                                                onClick={() => dispatch({ type: 'SET_DRAWER', payload: { checks: state.drawer.checks.filter((_, j) => j !== i) } })}
+                                                className="w-5 h-5 rounded text-slate-400 hover:text-red-500"
+                                            >
+                                                <i className="fa-solid fa-xmark text-[10px]"></i>
+                                            </button>
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="space-y-2 text-sm">
+                                <div className="text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-100 dark:border-slate-700 pb-2">Reconciliation</div>
+                                <div className="flex justify-between text-slate-600 dark:text-slate-300"><span>Opening float</span><span className="font-mono">${state.drawer.openingFloat.toFixed(2)}</span></div>
+                                <div className="flex justify-between text-slate-600 dark:text-slate-300"><span>+ Cash reported</span><span className="font-mono">${state.financials.methods.cash.toFixed(2)}</span></div>
+                                <div className="flex justify-between text-slate-600 dark:text-slate-300">
+                                    <span>− Petty cash paid out{drawer.pettyCash.length > 0 && ` (${drawer.pettyCash.length})`}</span>
+                                    <span className="font-mono">${drawerSummary.pettyCashOut.toFixed(2)}</span>
+                                </div>
+                                {drawer.pettyCash.map(p => (
+                                    <div key={p.id} className="flex justify-between text-xs text-slate-400 pl-3"><span className="truncate">{p.reason}</span><span className="font-mono">${p.amount.toFixed(2)}</span></div>
+                                ))}
+                                <div className="flex justify-between font-bold text-slate-900 dark:text-white border-t border-slate-100 dark:border-slate-700 pt-2"><span>Expected cash</span><span className="font-mono">${drawerSummary.expected.toFixed(2)}</span></div>
+                                <div className="flex justify-between font-bold text-slate-900 dark:text-white"><span>Counted cash</span><span className="font-mono">${drawerSummary.counted.toFixed(2)}</span></div>
+                                <div className={`flex justify-between font-bold ${drawerSummary.cashVariance === 0 ? 'text-emerald-600' : 'text-red-600'}`}><span>Cash over / short</span><span className="font-mono">{drawerSummary.cashVariance >= 0 ? '+' : '−'}${Math.abs(drawerSummary.cashVariance).toFixed(2)}</span></div>
+                                <div className={`flex justify-between font-bold ${drawerSummary.checkVariance === 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                                    <span>Checks counted vs reported</span>
+                                    <span className="font-mono">${drawerSummary.checksTotal.toFixed(2)} / ${state.financials.methods.check.toFixed(2)}</span>
+                                </div>
+                                <div className="flex justify-between text-slate-500 text-xs pt-1"><span>Cash deposit (counted less float)</span><span className="font-mono">${drawerSummary.deposit.toFixed(2)}</span></div>
+                            </div>
+                        </div>
+                    </div>
+
+                    {drawerSummary.needsSignOff && (
+                        <div className={`rounded-xl p-4 border ${drawerSummary.isSignedOff ? 'bg-emerald-50 dark:bg-emerald-900/10 border-emerald-200 dark:border-emerald-800' : 'bg-amber-50 dark:bg-amber-900/10 border-amber-200 dark:border-amber-800'}`}>
+                            {drawerSummary.isSignedOff && state.drawer.signOff ? (
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="text-sm text-emerald-800 dark:text-emerald-300">
+                                        <div className="font-bold"><i className="fa-solid fa-user-check mr-2"></i>Signed off by {state.drawer.signOff.managerName}</div>
+                                        <p className="mt-1 italic">{state.drawer.signOff.reason}</p>
+                                    </div>
+                                    <button onClick={() => dispatch({ type: 'SET_DRAWER', payload: { signOff: undefined } })} className="text-xs font-bold text-slate-500 hover:text-red-500">Clear</button>
+                                </div>
+                            ) : (
+                                <div className="space-y-3">
+                                    <div className="text-sm font-bold text-amber-800 dark:text-amber-300">
+                                        <i className="fa-solid fa-user-shield mr-2"></i>Variance over ${state.drawer.threshold.toFixed(2)} — manager sign-off required
+                                    </div>
+                                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                        <select
+                                            value={signOffManagerId}
+                                            onChange={e => { setSignOffManagerId(e.target.value); setSignOffPin(''); setSignOffError(''); }}
+                                            className="h-10 px-3 rounded-lg bg-white dark:bg-slate-800 border border-amber-200 dark:border-amber-800 text-sm font-bold text-slate-700 dark:text-slate-200 outline-none"
+                                        >
+                                            <option value="">Manager…</option>
+                                            {managers.map(m => <option key={m.id} value={m.id}>{m.full_name || m.username}</option>)}
+                                        </select>
+                                        <input
+                                            value={signOffReason}
+                                            onChange={e => setSignOffReason(e.target.value)}
+                                            className="sm:col-span-2 h-10 px-3 rounded-lg bg-white dark:bg-slate-800 border border-amber-200 dark:border-amber-800 text-sm text-slate-700 dark:text-slate-200 outline-none"
+                                            placeholder="Reason for the variance"
+                                        />
+                                    </div>
+                                    {signOffError && (
+                                        <p className="text-xs font-bold text-red-600 dark:text-red-400"><i className="fa-solid fa-circle-exclamation mr-1"></i>{signOffError}</p>
+                                    )}
+                                    <div className="flex justify-end gap-2">
+                                        {signOffNeedsPin && (
+                                            <input
+                                                type="password"
+                                                inputMode="numeric"
+                                                autoComplete="off"
+                                                value={signOffPin}
+                                                onChange={e => setSignOffPin(e.target.value.replace(/\D/g, ''))}
+                                                maxLength={8}
+                                                className="w-40 h-10 px-3 rounded-lg bg-white dark:bg-slate-800 border border-amber-200 dark:border-amber-800 text-sm font-mono text-slate-700 dark:text-slate-200 outline-none"
+                                                placeholder="Manager PIN"
+                                            />
+                                        )}
+                                        <button
+                                            onClick={handleDrawerSignOff}
+                                            disabled={!signOffManagerId || !signOffReason.trim() || (signOffNeedsPin && !signOffPin) || isSigningOff}
+                                            className="h-10 px-5 rounded-lg bg-amber-600 hover:bg-amber-500 text-white text-sm font-bold disabled:opacity-50"
+                                        >
+                                            {isSigningOff ? 'Verifying…' : 'Sign Off'}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* STEP 3: VOLUME */}
+            {state.step === 3 && (
                 <div className="relative overflow-hidden bg-white dark:bg-slate-900/80 backdrop-blur-xl p-5 sm:p-8 rounded-2xl border border-slate-200/60 dark:border-slate-700/50 shadow-xl space-y-6 sm:space-y-8">
                     <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-medical-400 via-medical-500 to-medical-600"></div>
                     <div className="flex justify-between items-center">
@@ -768,14 +1036,14 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
                         <div className="space-y-4">
                             <div className="text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-100 dark:border-slate-700 pb-2">Insurance Breakdown</div>
                             <div className="grid grid-cols-2 gap-3">
-                                {Object.entries(state.insurances).map(([key, val]) => (
+                                {Object.entries(insurances).map(([key, val]) => (
                                     <div key={key} className="bg-slate-50 dark:bg-slate-800 rounded-xl p-2 sm:p-2.5">
-                                        <label className="text-[9px] sm:text-[10px] font-bold text-slate-500 uppercase block mb-1 truncate" title={key.replace('_', ' ').replace('Comp', ' Comp')}>{key.replace('_', ' ').replace('Comp', ' Comp')}</label>
+                                        <label className="text-[9px] sm:text-[10px] font-bold text-slate-500 uppercase block mb-1 truncate" title={payerReportLabel(payers, key)}>{payerReportLabel(payers, key)}</label>
                                         <input
                                             type="number"
                                             min="0"
                                             value={val || ''}
-                                            onChange={e => dispatch({ type: 'SET_INSURANCE', payload: { key: key as any, value: parseInt(e.target.value) || 0 } })}
+                                            onChange={e => dispatch({ type: 'SET_INSURANCE', payload: { key, value: parseInt(e.target.value) || 0 } })}
                                             className="w-full bg-transparent font-mono font-bold text-xl text-slate-900 dark:text-white outline-none"
                                             placeholder="0"
                                         />
@@ -896,8 +1164,8 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
                 </div>
             )}
 
-            {/* STEP 3: STATS & SIGN */}
-            {state.step === 3 && (
+            {/* STEP 4: STATS & SIGN */}
+            {state.step === 4 && (
                 <div className="relative overflow-hidden bg-white dark:bg-slate-900/80 backdrop-blur-xl p-5 sm:p-8 rounded-2xl border border-slate-200/60 dark:border-slate-700/50 shadow-xl space-y-6 sm:space-y-8">
                     <div className="absolute top-0 left-0 right-0 h-1 bg-gradient-to-r from-purple-400 via-violet-500 to-purple-600"></div>
                     <div className="flex justify-between items-center">
@@ -968,7 +1236,7 @@ const DailyCloseWizard: React.FC<DailyCloseWizardProps> = ({ user, usersDb, onCl
                         </button>
                     )}
 
-                    {state.step < 3 ? (
+                    {state.step < 4 ? (
                         <button
                             onClick={handleNext}
                             className="flex-1 max-w-xs h-12 rounded-xl bg-gradient-to-r from-medical-600 to-medical-500 text-white font-bold text-sm shadow-lg shadow-medical-500/25 hover:shadow-medical-500/40 hover:scale-[1.02] transition-all flex items-center justify-center gap-2"
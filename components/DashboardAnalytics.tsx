@@ -8,6 +8,8 @@ import { DailyReport, DailyReportState } from '../types/dailyReport';
 import { InventoryItem, Order, User } from '../types';
 import DateRangeFilter, { DateRange, DateFilterPayload } from './dashboard/DateRangeFilter';
 import StatCard from './dashboard/StatCard';
+import { useAppData } from '../contexts/AppDataContext';
+import { payerReportLabel } from '../utils/payers';
 
 interface DashboardAnalyticsProps {
     dailyReports: DailyReport[];
@@ -24,6 +26,7 @@ const DashboardAnalytics: React.FC<DashboardAnalyticsProps> = ({
     dailyReports, inventory, orders, users, t, onNavigate
 }) => {
     const [dateFilter, setDateFilter] = useState<DateFilterPayload>({ range: 'all' });
+    const { payers } = useAppData();
 
     // --- 1. Filter Data based on Range ---
     const { startDate, endDate } = useMemo(() => {
@@ -105,7 +108,7 @@ const DashboardAnalytics: React.FC<DashboardAnalyticsProps> = ({
     const patientsByInsurance = filteredReports.reduce((acc, r) => {
         if (!r.insurances) return acc;
         Object.keys(r.insurances).forEach(key => {
-            acc[key] = (acc[key] || 0) + (r.insurances as any)[key];
+            acc[key] = (acc[key] || 0) + (r.insurances[key] || 0);
         });
         return acc;
     }, {} as Record<string, number>);
@@ -213,7 +216,7 @@ const DashboardAnalytics: React.FC<DashboardAnalyticsProps> = ({
     ];
 
     const insuranceData = Object.entries(patientsByInsurance).map(([key, value]) => ({
-        name: key.replace(/([A-Z])/g, ' $1').trim(), // Camel to Title
+        name: payerReportLabel(payers, key), // Retired payers keep their name
         value: value as number,
         percentage: totalPatients > 0 ? ((value as number) / totalPatients * 100).toFixed(1) + '%' : '0%'
     })).filter((d) => d.value > 0);
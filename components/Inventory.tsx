@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { InventoryItem, User, Permission } from '../types';
 import * as XLSX from 'xlsx';
+import { SemanticSearchService } from '../services/SemanticSearchService';
 
 interface InventoryProps {
   items: InventoryItem[];
@@ -9,7 +10,7 @@ interface InventoryProps {
   hasPermission: (permission: Permission) => boolean;
   onAddItem: () => void;
   onEditItem: (item: InventoryItem) => void;
-  onUpdateItem: (id: string, updates: Partial<InventoryItem>) => void;
+  onUpdateItem: (id: string, updates: Partial<InventoryItem>, reason?: 'edit' | 'usage') => void; // 'usage' logs a decrease as consumption
   onDeleteItem: (id: string) => void;
   onAuditItem: (id: string) => void;
   onScanClick: () => void;
@@ -26,6 +27,7 @@ const ITEMS_PER_PAGE = 50;
 
 const Inventory: React.FC<InventoryProps> = ({ items, user, hasPermission, onAddItem, onEditItem, onUpdateItem, onDeleteItem, onAuditItem, onScanClick, onImport, onMergeDuplicates, searchOverride, t }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [semanticScores, setSemanticScores] = useState<Map<string, number>>(new Map());
   const [filterCategory, setFilterCategory] = useState('All');
   const [sortBy, setSortBy] = useState<SortOption>('name');
   const [isAuditMode, setIsAuditMode] = useState(false);
@@ -50,11 +52,11 @@ const Inventory: React.FC<InventoryProps> = ({ items, user, hasPermission, onAdd
   };
 
   const toggleSelectAll = () => {
-    // We use sortedItems so it respects filters
-    if (selectedItemIds.size === sortedItems.length && sortedItems.length > 0) {
+    // We use resultItems so it respects filters and search
+    if (selectedItemIds.size === resultItems.length && resultItems.length > 0) {
       setSelectedItemIds(new Set());
     } else {
-      setSelectedItemIds(new Set(sortedItems.map(i => i.id)));
+      setSelectedItemIds(new Set(resultItems.map(i => i.id)));
     }
   };
 
@@ -122,13 +124,38 @@ const Inventory: React.FC<InventoryProps> = ({ items, user, hasPermission, onAdd
 
   const categories = ['All', ...Array.from(new Set(items.map(i => i.category)))];
 
+  // Meaning-based matches from the embedding index ("bandages" → "Adhesive Strips")
+  useEffect(() => {
+    const term = searchTerm.trim();
+    if (term.length < 3) {
+      setSemanticScores(new Map());
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const hits = await SemanticSearchService.search(term, ['item'], 25);
+      if (!cancelled) setSemanticScores(new Map(hits.map(h => [h.id, h.score])));
+    }, 400);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [searchTerm]);
+
+  const matchesText = (item: InventoryItem) =>
+    item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    item.batchNumber.toLowerCase().includes(searchTerm.toLowerCase());
+
   const filteredItems = items.filter(item => {
-    const matchesSearch = item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.batchNumber.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesSearch = matchesText(item);
     const matchesCategory = filterCategory === 'All' || item.category === filterCategory;
     return matchesSearch && matchesCategory;
   });
 
+  // Semantic-only matches follow the text matches, best first
+  const semanticItems = searchTerm
+    ? items
+      .filter(item => semanticScores.has(item.id) && !matchesText(item) && (filterCategory === 'All' || item.category === filterCategory))
+      .sort((a, b) => (semanticScores.get(b.id) || 0) - (semanticScores.get(a.id) || 0))
+    : [];
+
   const sortedItems = [...filteredItems].sort((a, b) => {
     switch (sortBy) {
       case 'name': return a.name.localeCompare(b.name);
@@ -143,8 +170,9 @@ const Inventory: React.FC<InventoryProps> = ({ items, user, hasPermission, onAdd
   });
 
   // Pagination
-  const totalPages = Math.ceil(sortedItems.length / ITEMS_PER_PAGE);
-  const paginatedItems = sortedItems.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE);
+  const resultItems = [...sortedItems, ...semanticItems];
+  const totalPages = Math.ceil(resultItems.length / ITEMS_PER_PAGE);
+  const paginatedItems = resultItems.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE);
 
   // Reset to page 1 when filters change
   useEffect(() => { setCurrentPage(1); }, [searchTerm, filterCategory, sortBy]);
@@ -184,7 +212,7 @@ const Inventory: React.FC<InventoryProps> = ({ items, user, hasPermission, onAdd
   };
 
   const handleExportExcel = () => {
-    const data = sortedItems.map(item => ({
+    const data = resultItems.map(item => ({
       Name: item.name,
       Category: item.category,
       Location: item.location,
@@ -400,7 +428,7 @@ const Inventory: React.FC<InventoryProps> = ({ items, user, hasPermission, onAdd
                   <th className="px-4 py-4 w-12 text-center" title="Select All">
                     <input
                       type="checkbox"
-                      checked={selectedItemIds.size > 0 && selectedItemIds.size === sortedItems.length}
+                      checked={selectedItemIds.size > 0 && selectedItemIds.size === resultItems.length}
                       onChange={toggleSelectAll}
                       className="w-4 h-4 rounded border-slate-300 text-medical-600 focus:ring-medical-500 cursor-pointer"
                     />
@@ -619,7 +647,7 @@ const Inventory: React.FC<InventoryProps> = ({ items, user, hasPermission, onAdd
 
                           <div className="flex items-center gap-0.5 bg-slate-50 dark:bg-slate-900/50 p-1 rounded-xl border border-slate-100 dark:border-slate-800">
                             <button
-                              onClick={() => handleAsyncAction(item.id, async () => onUpdateItem(item.id, { stock: Math.max(0, item.stock - 1) }))}
+                              onClick={() => handleAsyncAction(item.id, async () => onUpdateItem(item.id, { stock: Math.max(0, item.stock - 1) }, 'usage'))}
                               disabled={loadingItemIds.has(item.id)}
                               className="w-8 h-8 rounded-lg hover:bg-red-500 hover:text-white flex items-center justify-center transition-all text-xs active:scale-90 disabled:opacity-50"
                             >
@@ -665,7 +693,7 @@ const Inventory: React.FC<InventoryProps> = ({ items, user, hasPermission, onAdd
         {totalPages > 1 && (
           <div className="px-5 py-3 border-t border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-900/50 flex items-center justify-between">
             <span className="text-xs font-bold text-slate-400">
-              Showing {((currentPage - 1) * ITEMS_PER_PAGE) + 1}–{Math.min(currentPage * ITEMS_PER_PAGE, sortedItems.length)} of {sortedItems.length}
+              Showing {((currentPage - 1) * ITEMS_PER_PAGE) + 1}–{Math.min(currentPage * ITEMS_PER_PAGE, resultItems.length)} of {resultItems.length}
             </span>
             <div className="flex items-center gap-1">
               <button
@@ -778,7 +806,7 @@ const Inventory: React.FC<InventoryProps> = ({ items, user, hasPermission, onAdd
 
               <div className="flex items-center gap-2 sm:gap-3">
                 <button
-                  onClick={() => handleAsyncAction(item.id, async () => onUpdateItem(item.id, { stock: Math.max(0, item.stock - 1) }))}
+                  onClick={() => handleAsyncAction(item.id, async () => onUpdateItem(item.id, { stock: Math.max(0, item.stock - 1) }, 'usage'))}
                   disabled={loadingItemIds.has(item.id)}
                   className="flex-1 h-12 bg-white dark:bg-slate-800 rounded-xl text-slate-400 hover:text-red-500 hover:bg-red-50 transition-all active:scale-95 flex items-center justify-center border border-slate-100 dark:border-slate-700 shadow-sm disabled:opacity-50"
                 >
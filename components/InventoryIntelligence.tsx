@@ -289,7 +289,7 @@ export const InventoryIntelligenceDashboard: React.FC<InventoryIntelligenceProps
                                 <tr>
                                     <th className="table-header rounded-tl-none">Item</th>
                                     <th className="table-header">Status</th>
-                                    <th className="table-header">Expiry Track</th>
+                                    <th className="table-header">Coverage</th>
                                     <th className="table-header">Confidence</th>
                                     <th className="table-header w-44">Reorder Target</th>
                                     {activeTab === 'anomalies' && <th className="table-header">Detected Issues</th>}
@@ -327,8 +327,18 @@ export const InventoryIntelligenceDashboard: React.FC<InventoryIntelligenceProps
 
                                             {/* Expiry Track */}
                                             <td className="md:table-cell p-0 md:p-4 flex justify-between items-center md:table-cell border-b border-slate-50 dark:border-slate-800/50 md:border-none py-2 md:py-0 text-sm text-slate-600 dark:text-slate-300 font-medium">
-                                                <div className="md:hidden text-[10px] font-bold text-slate-400 uppercase tracking-widest">Expiry Track</div>
-                                                {m.daysRemaining === 999 ? (
+                                                <div className="md:hidden text-[10px] font-bold text-slate-400 uppercase tracking-widest">Coverage</div>
+                                                {m.dailyUsageRate > 0 ? (
+                                                    <div className="flex flex-col md:gap-0.5 text-right md:text-left">
+                                                        <span className={m.daysRemaining <= m.leadTime ? 'text-red-500 font-bold' : ''}>
+                                                            {Math.round(m.daysRemaining)} days left
+                                                        </span>
+                                                        <span className="text-[10px] text-slate-500">
+                                                            {m.dailyUsageRate.toFixed(2)}/day
+                                                            {m.recommendedReorderDate && ` · Reorder ${m.recommendedReorderDate.toLocaleDateString()}`}
+                                                        </span>
+                                                    </div>
+                                                ) : m.daysRemaining === 999 ? (
                                                     <span className="text-slate-400">No date set</span>
                                                 ) : (
                                                     <span className={m.daysRemaining <= 30 ? 'text-amber-500 font-bold' : ''}>
@@ -76,8 +76,9 @@ export const InventoryIntelligenceVerification: React.FC = () => {
     };
 
     /**
-     * Insert RECEIVED orders and, optionally, strict audit logs for snapshot
-     * matching (RESTOCKED at startDate±0, UPDATED at endDate±0).
+     * Insert RECEIVED orders (one shipment each — the engine reads shipments)
+     * and, optionally, strict audit logs for snapshot matching
+     * (RESTOCKED at startDate±0, UPDATED at endDate±0).
      * The engine requires ±1-hour precision — we place logs exactly at the
      * order timestamps to satisfy that constraint.
      */
@@ -113,12 +114,21 @@ export const InventoryIntelligenceVerification: React.FC = () => {
             });
             if (oErr) throw new Error(`Order insert failed: ${oErr.message}`);
 
+            const orderItemId = generateUUID();
             const { error: oiErr } = await supabase.from('order_items').insert({
-                id: generateUUID(), order_id: orderId,
-                item_id: itemId, quantity: e.qty, price: 10,
+                id: orderItemId, order_id: orderId,
+                item_id: itemId, quantity: e.qty, quantity_received: e.qty, price: 10,
             });
             if (oiErr) throw new Error(`OrderItem insert failed: ${oiErr.message}`);
 
+            // Shipment rows go with the order (ON DELETE CASCADE) during cleanup
+            const { error: sErr } = await supabase.from('order_shipments').insert({
+                id: generateUUID(), order_id: orderId,
+                received_at: ts.toISOString(),
+                lines: [{ orderItemId, itemId, quantity: e.qty, unitsPerPackage: 1 }],
+            });
+            if (sErr) throw new Error(`Shipment insert failed: ${sErr.message}`);
+
             // RESTOCKED → engine looks for this at startDate ±1h
             if (e.startStock !== undefined) {
                 await supabase.from('audit_log').insert({
@@ -1,5 +1,6 @@
 import React from 'react';
 import { InventoryItem } from '../types';
+import { getExpiringLots } from '../utils/lotUtils';
 
 interface InventoryReportDocumentProps {
     data: {
@@ -19,15 +20,11 @@ export const InventoryReportDocument: React.FC<InventoryReportDocumentProps> = (
 
     const lowStockItems = inventory.filter(item => item.stock <= item.minStock);
     
-    // Items that are completely expired (not just expiring soon)
-    const expiredItems = inventory.filter(item => {
-        if (!item.expiryDate) return false;
-        const diffTime = new Date(item.expiryDate).getTime() - new Date().getTime();
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-        return diffDays <= 0;
-    });
+    // Lots that are completely expired (not just expiring soon)
+    const expiredLots = getExpiringLots(inventory, 0);
+    const expiredItems = inventory.filter(item => expiredLots.some(l => l.item.id === item.id));
 
-    const hasExpired = expiredItems.length > 0;
+    const hasExpired = expiredLots.length > 0;
 
     const pureLowStock = lowStockItems.filter(item => !expiredItems.some(e => e.id === item.id));
     const hasLowStock = pureLowStock.length > 0;
@@ -115,7 +112,7 @@ export const InventoryReportDocument: React.FC<InventoryReportDocumentProps> = (
                         
                         <div className="space-y-6">
                             {/* Expired Items */}
-                            {expiredItems.length > 0 && (
+                            {expiredLots.length > 0 && (
                                 <div className="border rounded-lg overflow-hidden" style={{ borderColor: '#fca5a5' }}>
                                     <div className="px-4 py-2 font-bold text-[10px] uppercase tracking-wider bg-red-50 text-red-700" style={{backgroundColor: '#fef2f2', color: '#b91c1c'}}>
                                         EXPIRED INVENTORY ({expiredItems.length} SKUs) - DO NOT USE
@@ -131,18 +128,18 @@ export const InventoryReportDocument: React.FC<InventoryReportDocumentProps> = (
                                             </tr>
                                         </thead>
                                         <tbody>
-                                            {expiredItems.slice(0, 10).map(item => (
-                                                <tr key={`exp-${item.id}`} className="border-t border-slate-100" style={{borderTop: '1px solid #f1f5f9'}}>
+                                            {expiredLots.slice(0, 10).map(({ item, lotNumber, expiryDate, quantity }) => (
+                                                <tr key={`exp-${item.id}-${lotNumber}`} className="border-t border-slate-100" style={{borderTop: '1px solid #f1f5f9'}}>
                                                     <td className="py-2 pr-4 font-bold text-slate-900">{item.name}</td>
-                                                    <td className="py-2 pr-4 font-mono text-slate-500">{item.batchNumber}</td>
-                                                    <td className="py-2 text-right text-red-600 font-bold">{new Date(item.expiryDate!).toLocaleDateString()}</td>
-                                                    <td className="py-2 text-right font-black text-red-600">{item.stock} {item.unit}</td>
+                                                    <td className="py-2 pr-4 font-mono text-slate-500">{lotNumber}</td>
+                                                    <td className="py-2 text-right text-red-600 font-bold">{new Date(expiryDate).toLocaleDateString()}</td>
+                                                    <td className="py-2 text-right font-black text-red-600">{quantity} {item.unit}</td>
                                                 </tr>
                                             ))}
-                                            {expiredItems.length > 10 && (
+                                            {expiredLots.length > 10 && (
                                                 <tr>
                                                     <td colSpan={4} className="py-3 text-center text-red-500 font-bold italic border-t border-slate-100" style={{borderTop: '1px solid #f1f5f9'}}>
-                                                        + {expiredItems.length - 10} more expired items. Please check dashboard for full list.
+                                                        + {expiredLots.length - 10} more expired lots. Please check dashboard for full list.
                                                     </td>
                                                 </tr>
                                             )}
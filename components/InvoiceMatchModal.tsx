@@ -0,0 +1,395 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Order, InventoryItem, Vendor, User, InvoiceMatch, InvoiceVarianceKind } from '../types';
+import { parseInvoiceFromImage, ParsedOrderData } from '../services/LocalAIService';
+import { InvoiceMatchService } from '../services/InvoiceMatchService';
+import { InventoryService } from '../services/InventoryService';
+import { useAppData } from '../contexts/AppDataContext';
+import { buildInvoiceMatchReport, findOrderForInvoice, getReceivingQuantities, isOpenOrder } from '../utils/invoiceMatching';
+
+interface InvoiceMatchModalProps {
+    isOpen: boolean;
+    order?: Order | null; // Pre-selected PO; otherwise matched from the scan
+    orders: Order[];
+    vendors: Vendor[];
+    inventory: InventoryItem[];
+    user: User;
+    onClose: () => void;
+    onApproved: (order: Order, quantities: Record<string, number>) => void;
+}
+
+type MatchStep = 'upload' | 'processing' | 'report' | 'error';
+
+const VARIANCE_LABELS: Record<InvoiceVarianceKind, string> = {
+    QUANTITY: 'Qty',
+    UNIT_COST: 'Cost',
+    NOT_ON_PO: 'Not on PO',
+    NOT_BILLED: 'Not billed'
+};
+
+const formatVariance = (value: number) =>
+    `${value > 0 ? '+' : value < 0 ? '−' : ''}$${Math.abs(value).toFixed(2)}`;
+
+const readFile = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+});
+
+// Reconciles a scanned vendor invoice (and optionally its packing slip)
+// against an open PO before the order is received.
+const InvoiceMatchModal: React.FC<InvoiceMatchModalProps> = ({ isOpen, order, orders, vendors, inventory, user, onClose, onApproved }) => {
+    const { addLog } = useAppData();
+    const [step, setStep] = useState<MatchStep>('upload');
+    const [invoiceImage, setInvoiceImage] = useState<string | null>(null);
+    const [slipImage, setSlipImage] = useState<string | null>(null);
+    const [invoiceData, setInvoiceData] = useState<ParsedOrderData | null>(null);
+    const [slipData, setSlipData] = useState<ParsedOrderData | null>(null);
+    const [selectedOrderId, setSelectedOrderId] = useState('');
+    const [invoiceNumber, setInvoiceNumber] = useState('');
+    const [previousReviews, setPreviousReviews] = useState<InvoiceMatch[]>([]);
+    const [notes, setNotes] = useState('');
+    const [errorMessage, setErrorMessage] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const invoiceInputRef = useRef<HTMLInputElement>(null);
+    const slipInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setStep('upload');
+        setInvoiceImage(null);
+        setSlipImage(null);
+        setInvoiceData(null);
+        setSlipData(null);
+        setSelectedOrderId(order?.id || '');
+        setInvoiceNumber('');
+        setPreviousReviews([]);
+        setNotes('');
+        setErrorMessage('');
+    }, [isOpen, order]);
+
+    const openOrders = useMemo(() => orders.filter(isOpenOrder), [orders]);
+    const selectedOrder = orders.find(o => o.id === selectedOrderId);
+
+    const report = useMemo(() => (
+        selectedOrder && invoiceData
+            ? buildInvoiceMatchReport(selectedOrder, invoiceData, slipData, inventory)
+            : null
+    ), [selectedOrder, invoiceData, slipData, inventory]);
+
+    useEffect(() => {
+        if (!selectedOrderId) return;
+        InvoiceMatchService.fetchForOrder(selectedOrderId).then(setPreviousReviews);
+    }, [selectedOrderId]);
+
+    if (!isOpen) return null;
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>, setImage: (data: string) => void) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setImage(await readFile(file));
+    };
+
+    const runMatch = async () => {
+        if (!invoiceImage) return;
+        setStep('processing');
+        try {
+            const [invoice, slip] = await Promise.all([
+                parseInvoiceFromImage(invoiceImage),
+                slipImage ? parseInvoiceFromImage(slipImage) : Promise.resolve(null)
+            ]);
+            if (!invoice || !invoice.items || invoice.items.length === 0) {
+                throw new Error('Could not read line items from the invoice');
+            }
+            if (slipImage && !slip) {
+                throw new Error('Could not read the packing slip');
+            }
+            setInvoiceData(invoice);
+            setSlipData(slip);
+            setInvoiceNumber((invoice.invoiceNumber || '').trim());
+            if (!order) {
+                setSelectedOrderId(findOrderForInvoice(invoice, orders, vendors)?.id || '');
+            }
+            setStep('report');
+        } catch (error: any) {
+            console.error('Invoice match error:', error);
+            setErrorMessage(error.message || 'Failed to process documents');
+            setStep('error');
+        }
+    };
+
+    const handleReview = async (approve: boolean) => {
+        if (!report || !selectedOrder || needsInvoiceNumber) return;
+        setIsSaving(true);
+        try {
+            const saved = await InvoiceMatchService.saveReview({ ...report, invoiceNumber: invoiceNumber.trim() }, approve ? 'APPROVED' : 'REJECTED', user.id, notes);
+            const action = approve ? 'INVOICE_APPROVED' : 'INVOICE_REJECTED';
+            const details = `${approve ? 'Approved' : 'Rejected'} invoice ${saved.invoiceNumber} for ${selectedOrder.poNumber}` +
+                (saved.hasDiscrepancies ? ` (variance ${formatVariance(saved.totalVariance)})` : '');
+            addLog(action, details, user.username);
+            await InventoryService.logAction(user.id, action, selectedOrder.id, {
+                invoice_match_id: saved.id,
+                invoice_number: saved.invoiceNumber,
+                total_variance: saved.totalVariance,
+                has_discrepancies: saved.hasDiscrepancies
+            }, null, 'order');
+
+            if (approve) onApproved(selectedOrder, getReceivingQuantities(report));
+            onClose();
+        } catch (error) {
+            console.error('Failed to save invoice review', error);
+            alert('Failed to save invoice review. Check console.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const needsNote = !!report?.hasDiscrepancies && !notes.trim();
+    const needsInvoiceNumber = !invoiceNumber.trim();
+
+    const uploadSlot = (label: string, hint: string, image: string | null, inputRef: React.RefObject<HTMLInputElement>, icon: string) => (
+        <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className={`flex-1 min-h-[180px] rounded-2xl border-2 border-dashed p-4 flex flex-col items-center justify-center gap-2 transition-all ${image
+                ? 'border-emerald-300 bg-emerald-50/50 dark:border-emerald-700 dark:bg-emerald-900/10'
+                : 'border-slate-200 dark:border-slate-700 hover:border-medical-400 hover:bg-medical-50/30'
+                }`}
+        >
+            {image ? (
+                <img src={image} alt={label} className="max-h-32 rounded-lg shadow-md object-contain" />
+            ) : (
+                <i className={`fa-solid ${icon} text-3xl text-slate-300`}></i>
+            )}
+            <span className="font-bold text-sm text-slate-700 dark:text-slate-200">{label}</span>
+            <span className="text-xs text-slate-400">{image ? 'Tap to replace' : hint}</span>
+        </button>
+    );
+
+    return (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/80 backdrop-blur-xl p-4 animate-fade-in">
+            <input type="file" ref={invoiceInputRef} onChange={(e) => handleFile(e, setInvoiceImage)} className="hidden" accept="image/*" capture="environment" />
+            <input type="file" ref={slipInputRef} onChange={(e) => handleFile(e, setSlipImage)} className="hidden" accept="image/*" capture="environment" />
+
+            <div className="w-full max-w-5xl max-h-[90vh] bg-white dark:bg-[#0c1511] rounded-2xl shadow-2xl border border-white/20 dark:border-slate-800 overflow-hidden flex flex-col">
+
+                {/* Header */}
+                <div className="p-6 bg-gradient-to-br from-medical-50 to-slate-50 dark:from-medical-900/20 dark:to-slate-900 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                            <i className="fa-solid fa-file-invoice-dollar text-medical-500"></i>
+                            Invoice Match
+                        </h2>
+                        <div className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                            {selectedOrder ? `${selectedOrder.vendor} · ${selectedOrder.poNumber}` : 'PO · packing slip · invoice'}
+                        </div>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="w-10 h-10 rounded-xl bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm shadow-md flex items-center justify-center hover:bg-red-50 hover:text-red-500 transition-all"
+                    >
+                        <i className="fa-solid fa-xmark text-base"></i>
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+                    {step === 'upload' && (
+                        <div className="space-y-4">
+                            <p className="text-xs text-slate-500">
+                                Scan the vendor invoice and, if you have it, the packing slip. Each line is matched to the PO by SKU or name before anything is received.
+                            </p>
+                            <div className="flex flex-col md:flex-row gap-4">
+                                {uploadSlot('Vendor Invoice', 'Required', invoiceImage, invoiceInputRef, 'fa-file-invoice')}
+                                {uploadSlot('Packing Slip', 'Optional — quantities shipped', slipImage, slipInputRef, 'fa-receipt')}
+                            </div>
+                        </div>
+                    )}
+
+                    {step === 'processing' && (
+                        <div className="py-20 flex flex-col items-center gap-4 text-slate-500">
+                            <i className="fa-solid fa-circle-notch fa-spin text-4xl text-medical-500"></i>
+                            <span className="font-bold text-sm">Reading documents...</span>
+                        </div>
+                    )}
+
+                    {step === 'error' && (
+                        <div className="py-16 flex flex-col items-center gap-4 text-center">
+                            <i className="fa-solid fa-triangle-exclamation text-4xl text-red-500"></i>
+                            <p className="font-bold text-slate-700 dark:text-slate-200">{errorMessage}</p>
+                            <button onClick={() => setStep('upload')} className="px-5 py-2.5 rounded-xl text-sm font-bold bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300">
+                                Try again
+                            </button>
+                        </div>
+                    )}
+
+                    {step === 'report' && (
+                        <div className="space-y-5">
+                            {/* PO selection */}
+                            <label className="block">
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Purchase Order</span>
+                                <select
+                                    value={selectedOrderId}
+                                    onChange={(e) => setSelectedOrderId(e.target.value)}
+                                    disabled={!!order}
+                                    className="mt-1 w-full h-10 px-3 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 outline-none"
+                                >
+                                    <option value="">— No open PO matched ({invoiceData?.vendor || 'unknown vendor'} · {invoiceData?.poNumber || 'no PO #'}) —</option>
+                                    {openOrders.map(o => (
+                                        <option key={o.id} value={o.id}>{o.poNumber} · {o.vendor} · {o.orderDate}</option>
+                                    ))}
+                                </select>
+                            </label>
+
+                            <label className="block">
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Invoice Number</span>
+                                <input
+                                    value={invoiceNumber}
+                                    onChange={(e) => setInvoiceNumber(e.target.value)}
+                                    placeholder="As printed on the vendor invoice"
+                                    className="mt-1 w-full h-10 px-3 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-medical-500/20 focus:border-medical-500"
+                                />
+                            </label>
+
+                            {previousReviews.length > 0 && (
+                                <div className="text-xs text-slate-500">
+                                    Previously reviewed: {previousReviews.map(r => `${r.invoiceNumber} (${r.status.toLowerCase()})`).join(', ')}
+                                </div>
+                            )}
+
+                            {report && (
+                                <>
+                                    <div className={`p-4 rounded-2xl flex items-center gap-3 ${report.hasDiscrepancies
+                                        ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300'
+                                        : 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300'
+                                        }`}>
+                                        <i className={`fa-solid ${report.hasDiscrepancies ? 'fa-triangle-exclamation' : 'fa-circle-check'} text-xl`}></i>
+                                        <div className="font-bold text-sm">
+                                            {report.hasDiscrepancies
+                                                ? `Discrepancies found — invoice is ${formatVariance(report.totalVariance)} against the PO`
+                                                : 'Invoice matches the PO'}
+                                        </div>
+                                    </div>
+
+                                    {/* Lines */}
+                                    <div className="overflow-x-auto">
+                                        <table className="w-full text-sm">
+                                            <thead>
+                                                <tr className="text-[10px] font-bold text-slate-400 uppercase tracking-widest text-left">
+                                                    <th className="p-2">Item</th>
+                                                    <th className="p-2 text-right">Ordered</th>
+                                                    <th className="p-2 text-right">Shipped</th>
+                                                    <th className="p-2 text-right">Billed</th>
+                                                    <th className="p-2 text-right">PO Cost</th>
+                                                    <th className="p-2 text-right">Inv. Cost</th>
+                                                    <th className="p-2 text-right">Variance</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {report.lines.map((line, idx) => (
+                                                    <tr key={line.orderItemId || `extra-${idx}`} className={`border-t border-slate-100 dark:border-slate-800 ${line.variances.length > 0 ? 'bg-amber-50/40 dark:bg-amber-900/10' : ''}`}>
+                                                        <td className="p-2">
+                                                            <div className="font-bold text-slate-800 dark:text-slate-200">{line.name}</div>
+                                                            <div className="flex flex-wrap gap-1 mt-1">
+                                                                {line.sku && <span className="text-[10px] font-mono text-slate-400">{line.sku}</span>}
+                                                                {line.variances.map(v => (
+                                                                    <span key={v} className="px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 text-[10px] font-bold uppercase">
+                                                                        {VARIANCE_LABELS[v]}
+                                                                    </span>
+                                                                ))}
+                                                            </div>
+                                                        </td>
+                                                        <td className="p-2 text-right tabular-nums">{line.orderedQty}</td>
+                                                        <td className="p-2 text-right tabular-nums">{line.shippedQty ?? '—'}</td>
+                                                        <td className={`p-2 text-right tabular-nums ${line.variances.includes('QUANTITY') ? 'font-bold text-amber-600' : ''}`}>{line.invoicedQty}</td>
+                                                        <td className="p-2 text-right tabular-nums">${line.poUnitCost.toFixed(2)}</td>
+                                                        <td className={`p-2 text-right tabular-nums ${line.variances.includes('UNIT_COST') ? 'font-bold text-amber-600' : ''}`}>${line.invoiceUnitCost.toFixed(2)}</td>
+                                                        <td className={`p-2 text-right tabular-nums font-bold ${line.amount > 0 ? 'text-red-500' : line.amount < 0 ? 'text-emerald-600' : 'text-slate-400'}`}>
+                                                            {formatVariance(line.amount)}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+
+                                    {/* Header variances */}
+                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                        {[
+                                            { label: 'Subtotal', value: report.subtotalVariance },
+                                            { label: 'Tax', value: report.taxVariance },
+                                            { label: 'Shipping', value: report.shippingVariance },
+                                            { label: 'Total', value: report.totalVariance }
+                                        ].map(({ label, value }) => (
+                                            <div key={label} className="p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50 text-center">
+                                                <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{label}</div>
+                                                <div className={`text-base font-bold tabular-nums ${Math.abs(value) > 0.01 ? 'text-amber-600' : 'text-slate-700 dark:text-slate-200'}`}>
+                                                    {formatVariance(value)}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    <label className="block">
+                                        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                                            Review Notes {report.hasDiscrepancies && <span className="text-amber-500">(required to approve variances)</span>}
+                                        </span>
+                                        <textarea
+                                            value={notes}
+                                            onChange={(e) => setNotes(e.target.value)}
+                                            rows={2}
+                                            placeholder="e.g. Vendor confirmed price increase; credit memo requested for short shipment"
+                                            className="mt-1 w-full px-3 py-2 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-medical-500/20 focus:border-medical-500"
+                                        />
+                                    </label>
+                                </>
+                            )}
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-6 border-t border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/50 flex justify-end gap-3">
+                    <button
+                        onClick={onClose}
+                        className="px-5 py-2.5 rounded-xl text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all"
+                    >
+                        Cancel
+                    </button>
+                    {step === 'upload' && (
+                        <button
+                            onClick={runMatch}
+                            disabled={!invoiceImage}
+                            className="px-5 py-2.5 rounded-xl text-sm font-bold bg-medical-600 text-white hover:bg-medical-700 shadow-lg shadow-medical-500/30 transition-all disabled:opacity-50"
+                        >
+                            <i className="fa-solid fa-scale-balanced mr-2"></i>Run Match
+                        </button>
+                    )}
+                    {step === 'report' && report && (
+                        <>
+                            <button
+                                onClick={() => handleReview(false)}
+                                disabled={isSaving || needsInvoiceNumber}
+                                title={needsInvoiceNumber ? 'Enter the invoice number' : undefined}
+                                className="px-5 py-2.5 rounded-xl text-sm font-bold bg-red-50 text-red-600 hover:bg-red-100 dark:bg-red-900/20 dark:text-red-400 transition-all disabled:opacity-50"
+                            >
+                                Reject
+                            </button>
+                            <button
+                                onClick={() => handleReview(true)}
+                                disabled={isSaving || needsNote || needsInvoiceNumber}
+                                title={needsInvoiceNumber ? 'Enter the invoice number' : needsNote ? 'Add a note explaining the variances' : undefined}
+                                className="px-5 py-2.5 rounded-xl text-sm font-bold bg-emerald-500 text-white hover:bg-emerald-600 shadow-lg shadow-emerald-500/30 transition-all disabled:opacity-50"
+                            >
+                                <i className="fa-solid fa-check mr-2"></i>Approve & Receive
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default InvoiceMatchModal;
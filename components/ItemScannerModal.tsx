@@ -1,28 +1,46 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { ScannedItemData, scanItemLabel } from '../services/LocalAIService';
 import { InventoryItem } from '../types';
 import { CATEGORIES, LOCATIONS, UNITS } from '../utils/constants';
+import { parseGS1, findItemByBarcode, stripSymbologyId } from '../utils/gs1';
+import { detectBarcode, detectBarcodeInImage, isBarcodeDetectionSupported } from '../utils/barcodeDetection';
 
 interface ItemScannerModalProps {
     isOpen: boolean;
     onClose: () => void;
     onAddItem: (item: Omit<InventoryItem, 'id'>) => void;
+    inventory: InventoryItem[];
+    onReceiveLot: (item: InventoryItem, lot: { lotNumber: string; expiryDate?: string; quantity: number }) => void;
     t: (key: string) => string;
 }
 
 type ScannerState = 'idle' | 'camera' | 'processing' | 'preview' | 'error';
 
-const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, onAddItem, t }) => {
+type EditableScan = Partial<ScannedItemData> & { sku?: string };
+
+// How often the live camera feed is checked for a barcode
+const DETECT_INTERVAL_MS = 350;
+
+const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, onAddItem, inventory, onReceiveLot, t }) => {
     const [state, setState] = useState<ScannerState>('idle');
     const [capturedImage, setCapturedImage] = useState<string | null>(null);
     const [scannedData, setScannedData] = useState<ScannedItemData | null>(null);
-    const [editedData, setEditedData] = useState<Partial<ScannedItemData>>({});
+    const [editedData, setEditedData] = useState<EditableScan>({});
     const [errorMessage, setErrorMessage] = useState<string>('');
+    const [scanSource, setScanSource] = useState<'barcode' | 'ai'>('ai');
+    const [matchedItem, setMatchedItem] = useState<InventoryItem | null>(null);
+    const [manualCode, setManualCode] = useState('');
+    const [canDetect, setCanDetect] = useState(false);
 
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const streamRef = useRef<MediaStream | null>(null);
+    const detectTimerRef = useRef<number | null>(null);
+
+    useEffect(() => {
+        isBarcodeDetectionSupported().then(setCanDetect);
+    }, []);
 
     // Start camera
     const startCamera = useCallback(async () => {
@@ -36,38 +54,64 @@ const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, on
                 await videoRef.current.play();
             }
             setState('camera');
+
+            // Decode barcodes from the live feed; the capture button stays available for the AI path
+            if (await isBarcodeDetectionSupported()) {
+                let busy = false;
+                detectTimerRef.current = window.setInterval(async () => {
+                    const video = videoRef.current;
+                    if (busy || !video || video.readyState < 2) return;
+                    busy = true;
+                    const code = await detectBarcode(video);
+                    busy = false;
+                    if (code && detectTimerRef.current !== null) {
+                        const frame = grabFrame();
+                        stopCamera();
+                        setCapturedImage(frame);
+                        handleBarcode(code, frame);
+                    }
+                }, DETECT_INTERVAL_MS);
+            }
         } catch (err) {
             console.error('Camera error:', err);
             setErrorMessage('Unable to access camera. Please grant permission or use file upload.');
             setState('error');
         }
-    }, []);
+    }, [inventory]);
 
     // Stop camera
     const stopCamera = useCallback(() => {
+        if (detectTimerRef.current !== null) {
+            window.clearInterval(detectTimerRef.current);
+            detectTimerRef.current = null;
+        }
         if (streamRef.current) {
             streamRef.current.getTracks().forEach(track => track.stop());
             streamRef.current = null;
         }
     }, []);
 
+    const grabFrame = (): string | null => {
+        const video = videoRef.current;
+        const canvas = canvasRef.current;
+        if (!video || !canvas) return null;
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+        ctx.drawImage(video, 0, 0);
+        return canvas.toDataURL('image/jpeg', 0.9);
+    };
+
     // Capture photo from camera
     const capturePhoto = useCallback(() => {
-        if (videoRef.current && canvasRef.current) {
-            const video = videoRef.current;
-            const canvas = canvasRef.current;
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                ctx.drawImage(video, 0, 0);
-                const imageData = canvas.toDataURL('image/jpeg', 0.9);
-                setCapturedImage(imageData);
-                stopCamera();
-                processImage(imageData);
-            }
+        const imageData = grabFrame();
+        if (imageData) {
+            setCapturedImage(imageData);
+            stopCamera();
+            processImage(imageData);
         }
-    }, [stopCamera]);
+    }, [stopCamera, inventory]);
 
     // Handle file upload
     const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -81,18 +125,88 @@ const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, on
             };
             reader.readAsDataURL(file);
         }
-    }, []);
+    }, [inventory]);
+
+    const showPreview = (data: ScannedItemData & { sku?: string }, source: 'barcode' | 'ai') => {
+        setScannedData(data);
+        setEditedData(data);
+        setScanSource(source);
+        setState('preview');
+    };
+
+    /**
+     * Deterministic path: known GTIN/SKU → add a lot to that item; unknown
+     * GS1 code → new item prefilled with GTIN, lot and expiry. The AI only
+     * fills in the description of an unknown product when a photo exists.
+     */
+    const handleBarcode = async (code: string, imageData: string | null) => {
+        const gs1 = parseGS1(code);
+        const item = findItemByBarcode(inventory, code);
+        const fromBarcode = {
+            sku: item?.sku || gs1?.gtin || stripSymbologyId(code),
+            batchNumber: gs1?.lotNumber || null,
+            expiryDate: gs1?.expiryDate || null
+        };
 
-    // Process image with Local AI Vision
+        if (item) {
+            setMatchedItem(item);
+            showPreview({
+                name: item.name,
+                category: item.category,
+                stock: 1,
+                unit: item.unit,
+                minStock: item.minStock,
+                maxStock: item.maxStock,
+                location: item.location,
+                averageCost: item.averageCost,
+                confidence: 100,
+                ...fromBarcode
+            }, 'barcode');
+            return;
+        }
+
+        setMatchedItem(null);
+        let described: ScannedItemData | null = null;
+        if (imageData) {
+            setState('processing');
+            try {
+                described = await scanItemLabel(imageData);
+            } catch (err) {
+                console.warn('AI label read failed, continuing with barcode data only:', err);
+            }
+        }
+        showPreview({
+            name: described?.name || '',
+            category: described?.category || 'Consumables',
+            stock: described?.stock || 1,
+            unit: described?.unit || 'each',
+            minStock: described?.minStock || 5,
+            maxStock: described?.maxStock || 25,
+            location: described?.location || 'Exam Rooms',
+            averageCost: described?.averageCost || 0,
+            confidence: 100,
+            ...fromBarcode,
+            // Barcode values are authoritative; the AI only fills gaps
+            batchNumber: fromBarcode.batchNumber || described?.batchNumber || null,
+            expiryDate: fromBarcode.expiryDate || described?.expiryDate || null
+        }, 'barcode');
+    };
+
+    // Process image: barcode first, Local AI Vision as the fallback
     const processImage = async (imageData: string) => {
         setState('processing');
         setErrorMessage('');
 
+        const code = await detectBarcodeInImage(imageData);
+        if (code) {
+            await handleBarcode(code, imageData);
+            return;
+        }
+
         try {
             const result = await scanItemLabel(imageData);
-            setScannedData(result);
-            setEditedData(result);
-            setState('preview');
+            setMatchedItem(null);
+            showPreview(result, 'ai');
         } catch (err: any) {
             console.error('Scan error:', err);
             setErrorMessage(err.message || 'Failed to analyze image. Please try again.');
@@ -100,6 +214,14 @@ const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, on
         }
     };
 
+    // Keyboard-wedge scanners type the code followed by Enter
+    const handleManualCode = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!manualCode.trim()) return;
+        handleBarcode(manualCode, null);
+        setManualCode('');
+    };
+
     // Save item to inventory
     const handleSave = () => {
         if (!editedData.name) return;
@@ -115,12 +237,23 @@ const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, on
             batchNumber: editedData.batchNumber || '',
             location: editedData.location || 'Exam Rooms',
             averageCost: editedData.averageCost || 0,
+            sku: editedData.sku || undefined,
         };
 
         onAddItem(newItem);
         handleClose();
     };
 
+    const handleReceiveLot = () => {
+        if (!matchedItem) return;
+        onReceiveLot(matchedItem, {
+            lotNumber: editedData.batchNumber || '',
+            expiryDate: editedData.expiryDate || undefined,
+            quantity: editedData.stock || 1
+        });
+        handleClose();
+    };
+
     // Reset and close modal
     const handleClose = () => {
         stopCamera();
@@ -129,15 +262,18 @@ const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, on
         setScannedData(null);
         setEditedData({});
         setErrorMessage('');
+        setMatchedItem(null);
         onClose();
     };
 
     // Retry scan
     const handleRetry = () => {
+        stopCamera();
         setCapturedImage(null);
         setScannedData(null);
         setEditedData({});
         setErrorMessage('');
+        setMatchedItem(null);
         setState('idle');
     };
 
@@ -152,11 +288,11 @@ const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, on
                     <div className="flex items-center justify-between">
                         <div className="flex items-center gap-4">
                             <div className="w-14 h-14 rounded-2xl bg-gradient-to-br from-medical-500 to-emerald-600 flex items-center justify-center shadow-xl shadow-medical-500/30">
-                                <i className="fa-solid fa-wand-magic-sparkles text-2xl text-white"></i>
+                                <i className="fa-solid fa-barcode text-2xl text-white"></i>
                             </div>
                             <div>
-                                <h2 className="text-2xl font-bold text-slate-900 dark:text-white tracking-tight">AI Item Scanner</h2>
-                                <p className="text-sm text-slate-500">Powered by Local AI Vision</p>
+                                <h2 className="text-2xl font-bold text-slate-900 dark:text-white tracking-tight">Item Scanner</h2>
+                                <p className="text-sm text-slate-500">GS1 barcodes, with Local AI Vision as fallback</p>
                             </div>
                         </div>
                         <button onClick={handleClose} className="w-12 h-12 rounded-xl bg-slate-100 dark:bg-slate-800 flex items-center justify-center hover:bg-red-50 hover:text-red-500 transition-all">
@@ -203,6 +339,23 @@ const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, on
                                 onChange={handleFileUpload}
                                 className="hidden"
                             />
+                            <form onSubmit={handleManualCode} className="sm:col-span-2 flex gap-3">
+                                <input
+                                    type="text"
+                                    value={manualCode}
+                                    onChange={(e) => setManualCode(e.target.value)}
+                                    placeholder="Scan with a handheld scanner or type a GTIN / SKU"
+                                    autoFocus
+                                    className="flex-1 h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-mono font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={!manualCode.trim()}
+                                    className="px-6 h-14 rounded-2xl bg-medical-600 text-white font-bold hover:bg-medical-700 transition-all disabled:opacity-50"
+                                >
+                                    <i className="fa-solid fa-magnifying-glass"></i>
+                                </button>
+                            </form>
                         </div>
                     )}
 
@@ -214,7 +367,7 @@ const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, on
                                 <div className="absolute inset-0 pointer-events-none border-4 border-white/30 rounded-3xl">
                                     <div className="absolute inset-8 border-2 border-dashed border-white/50 rounded-2xl flex items-center justify-center">
                                         <span className="bg-black/50 text-white px-4 py-2 rounded-full text-sm font-bold">
-                                            Center the label here
+                                            {canDetect ? 'Point at the barcode, or capture the label' : 'Center the label here'}
                                         </span>
                                     </div>
                                 </div>
@@ -281,141 +434,201 @@ const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, on
                             {/* Confidence Badge */}
                             <div className="flex items-center justify-between p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/50">
                                 <div className="flex items-center gap-3">
-                                    <img src={capturedImage || ''} alt="Scanned" className="w-16 h-16 object-cover rounded-xl" />
+                                    {capturedImage ? (
+                                        <img src={capturedImage} alt="Scanned" className="w-16 h-16 object-cover rounded-xl" />
+                                    ) : (
+                                        <div className="w-16 h-16 rounded-xl bg-slate-100 dark:bg-slate-800 flex items-center justify-center">
+                                            <i className="fa-solid fa-barcode text-2xl text-slate-400"></i>
+                                        </div>
+                                    )}
                                     <div>
-                                        <p className="text-sm font-bold text-slate-500">Extraction Complete</p>
-                                        <p className="text-xs text-slate-400">Review and edit if needed</p>
+                                        <p className="text-sm font-bold text-slate-500">{matchedItem ? `Matched: ${matchedItem.name}` : 'Extraction Complete'}</p>
+                                        <p className="text-xs text-slate-400">{matchedItem ? 'Receive this lot into existing stock' : 'Review and edit if needed'}</p>
                                     </div>
                                 </div>
-                                <div className={`px-4 py-2 rounded-full font-bold text-sm ${scannedData.confidence >= 80 ? 'bg-emerald-100 text-emerald-700' :
-                                    scannedData.confidence >= 50 ? 'bg-amber-100 text-amber-700' :
-                                        'bg-red-100 text-red-700'
-                                    }`}>
-                                    {scannedData.confidence}% Confidence
-                                </div>
+                                {scanSource === 'barcode' ? (
+                                    <div className="px-4 py-2 rounded-full font-bold text-sm bg-emerald-100 text-emerald-700">
+                                        <i className="fa-solid fa-barcode mr-1"></i> Barcode
+                                    </div>
+                                ) : (
+                                    <div className={`px-4 py-2 rounded-full font-bold text-sm ${scannedData.confidence >= 80 ? 'bg-emerald-100 text-emerald-700' :
+                                        scannedData.confidence >= 50 ? 'bg-amber-100 text-amber-700' :
+                                            'bg-red-100 text-red-700'
+                                        }`}>
+                                        {scannedData.confidence}% Confidence
+                                    </div>
+                                )}
                             </div>
 
-                            {/* Editable Fields */}
-                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                                {/* Name */}
-                                <div className="sm:col-span-2">
-                                    <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Product Name *</label>
-                                    <input
-                                        type="text"
-                                        value={editedData.name || ''}
-                                        onChange={(e) => setEditedData(prev => ({ ...prev, name: e.target.value }))}
-                                        className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 focus:border-transparent transition-all"
-                                    />
+                            {/* Matched item: only the lot being received */}
+                            {matchedItem && (
+                                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Batch / Lot #</label>
+                                        <input
+                                            type="text"
+                                            value={editedData.batchNumber || ''}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, batchNumber: e.target.value }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-mono font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                            placeholder="LOT12345"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Expiry Date</label>
+                                        <input
+                                            type="date"
+                                            value={editedData.expiryDate || ''}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, expiryDate: e.target.value }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Quantity ({t(matchedItem.unit)})</label>
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={editedData.stock || 1}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, stock: parseInt(e.target.value) || 1 }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                        />
+                                    </div>
                                 </div>
+                            )}
 
-                                {/* Category */}
-                                <div>
-                                    <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Category</label>
-                                    <select
-                                        value={editedData.category || ''}
-                                        onChange={(e) => setEditedData(prev => ({ ...prev, category: e.target.value }))}
-                                        className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
-                                    >
-                                        {CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
-                                    </select>
-                                </div>
+                            {/* Editable Fields */}
+                            {!matchedItem && (
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                    {/* Name */}
+                                    <div className="sm:col-span-2">
+                                        <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Product Name *</label>
+                                        <input
+                                            type="text"
+                                            value={editedData.name || ''}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, name: e.target.value }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 focus:border-transparent transition-all"
+                                        />
+                                    </div>
 
-                                {/* Location */}
-                                <div>
-                                    <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Location</label>
-                                    <select
-                                        value={editedData.location || ''}
-                                        onChange={(e) => setEditedData(prev => ({ ...prev, location: e.target.value }))}
-                                        className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 transition-all"
-                                    >
-                                        {LOCATIONS.map(loc => <option key={loc} value={loc}>{loc}</option>)}
-                                    </select>
-                                </div>
+                                    {/* Category */}
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Category</label>
+                                        <select
+                                            value={editedData.category || ''}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, category: e.target.value }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                        >
+                                            {CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
+                                        </select>
+                                    </div>
 
-                                {/* Stock */}
-                                <div>
-                                    <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Initial Stock</label>
-                                    <input
-                                        type="number"
-                                        min="0"
-                                        value={editedData.stock || 0}
-                                        onChange={(e) => setEditedData(prev => ({ ...prev, stock: parseInt(e.target.value) || 0 }))}
-                                        className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
-                                    />
-                                </div>
+                                    {/* Location */}
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Location</label>
+                                        <select
+                                            value={editedData.location || ''}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, location: e.target.value }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-indigo-500 transition-all"
+                                        >
+                                            {LOCATIONS.map(loc => <option key={loc} value={loc}>{loc}</option>)}
+                                        </select>
+                                    </div>
 
-                                {/* Unit */}
-                                <div>
-                                    <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Unit</label>
-                                    <select
-                                        value={editedData.unit || 'each'}
-                                        onChange={(e) => setEditedData(prev => ({ ...prev, unit: e.target.value }))}
-                                        className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
-                                    >
-                                        {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
-                                    </select>
-                                </div>
+                                    {/* Stock */}
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Initial Stock</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={editedData.stock || 0}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, stock: parseInt(e.target.value) || 0 }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                        />
+                                    </div>
 
-                                {/* Batch Number */}
-                                <div>
-                                    <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Batch / Lot #</label>
-                                    <input
-                                        type="text"
-                                        value={editedData.batchNumber || ''}
-                                        onChange={(e) => setEditedData(prev => ({ ...prev, batchNumber: e.target.value }))}
-                                        className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-mono font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
-                                        placeholder="LOT12345"
-                                    />
-                                </div>
+                                    {/* Unit */}
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Unit</label>
+                                        <select
+                                            value={editedData.unit || 'each'}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, unit: e.target.value }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                        >
+                                            {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                                        </select>
+                                    </div>
 
-                                {/* Expiry Date */}
-                                <div>
-                                    <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Expiry Date</label>
-                                    <input
-                                        type="date"
-                                        value={editedData.expiryDate || ''}
-                                        onChange={(e) => setEditedData(prev => ({ ...prev, expiryDate: e.target.value }))}
-                                        className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
-                                    />
-                                </div>
+                                    {/* Batch Number */}
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Batch / Lot #</label>
+                                        <input
+                                            type="text"
+                                            value={editedData.batchNumber || ''}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, batchNumber: e.target.value }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-mono font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                            placeholder="LOT12345"
+                                        />
+                                    </div>
 
-                                {/* Min Stock */}
-                                <div>
-                                    <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Min Stock</label>
-                                    <input
-                                        type="number"
-                                        min="0"
-                                        value={editedData.minStock || 0}
-                                        onChange={(e) => setEditedData(prev => ({ ...prev, minStock: parseInt(e.target.value) || 0 }))}
-                                        className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
-                                    />
-                                </div>
+                                    {/* Expiry Date */}
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Expiry Date</label>
+                                        <input
+                                            type="date"
+                                            value={editedData.expiryDate || ''}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, expiryDate: e.target.value }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                        />
+                                    </div>
 
-                                {/* Max Stock */}
-                                <div>
-                                    <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Max Stock</label>
-                                    <input
-                                        type="number"
-                                        min="0"
-                                        value={editedData.maxStock || 0}
-                                        onChange={(e) => setEditedData(prev => ({ ...prev, maxStock: parseInt(e.target.value) || 0 }))}
-                                        className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
-                                    />
-                                </div>
+                                    {/* Min Stock */}
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Min Stock</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={editedData.minStock || 0}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, minStock: parseInt(e.target.value) || 0 }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                        />
+                                    </div>
+
+                                    {/* Max Stock */}
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Max Stock</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={editedData.maxStock || 0}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, maxStock: parseInt(e.target.value) || 0 }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                        />
+                                    </div>
 
-                                {/* Average Cost */}
-                                <div>
-                                    <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Unit Cost ($)</label>
-                                    <input
-                                        type="number"
-                                        min="0"
-                                        step="0.01"
-                                        value={editedData.averageCost || 0}
-                                        onChange={(e) => setEditedData(prev => ({ ...prev, averageCost: parseFloat(e.target.value) || 0 }))}
-                                        className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
-                                    />
+                                    {/* Average Cost */}
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">Unit Cost ($)</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={editedData.averageCost || 0}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, averageCost: parseFloat(e.target.value) || 0 }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-lg font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                        />
+                                    </div>
+
+                                    {/* SKU / GTIN */}
+                                    <div>
+                                        <label className="block text-xs font-black text-slate-400 uppercase tracking-widest mb-2">SKU / GTIN</label>
+                                        <input
+                                            type="text"
+                                            value={editedData.sku || ''}
+                                            onChange={(e) => setEditedData(prev => ({ ...prev, sku: e.target.value }))}
+                                            className="w-full h-14 px-5 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 font-mono font-bold text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 transition-all"
+                                        />
+                                    </div>
                                 </div>
-                            </div>
+                            )}
                         </div>
                     )}
                 </div>
@@ -429,13 +642,22 @@ const ItemScannerModal: React.FC<ItemScannerModalProps> = ({ isOpen, onClose, on
                         >
                             <i className="fa-solid fa-rotate-right mr-2"></i> Scan Again
                         </button>
-                        <button
-                            onClick={handleSave}
-                            disabled={!editedData.name}
-                            className="flex-1 h-14 rounded-[1.25rem] bg-emerald-600 text-white font-bold shadow-xl shadow-emerald-500/30 hover:bg-emerald-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3"
-                        >
-                            <i className="fa-solid fa-check text-xl"></i> Add to Inventory
-                        </button>
+                        {matchedItem ? (
+                            <button
+                                onClick={handleReceiveLot}
+                                className="flex-1 h-14 rounded-[1.25rem] bg-emerald-600 text-white font-bold shadow-xl shadow-emerald-500/30 hover:bg-emerald-700 transition-all flex items-center justify-center gap-3"
+                            >
+                                <i className="fa-solid fa-box-open text-xl"></i> Add Lot to Stock
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleSave}
+                                disabled={!editedData.name}
+                                className="flex-1 h-14 rounded-[1.25rem] bg-emerald-600 text-white font-bold shadow-xl shadow-emerald-500/30 hover:bg-emerald-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3"
+                            >
+                                <i className="fa-solid fa-check text-xl"></i> Add to Inventory
+                            </button>
+                        )}
                     </div>
                 )}
             </div>
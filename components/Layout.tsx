@@ -5,6 +5,7 @@ import { useTenant } from '../contexts/TenantContext';
 import { FeatureFlagKey } from '../utils/featureFlags';
 import Logo from './Logo';
 import { AIGatewayStatus } from './AIGatewayStatus';
+import { SyncStatusBadge } from './SyncStatusBadge';
 
 interface LayoutProps {
     children: React.ReactNode;
@@ -107,6 +108,9 @@ export const Layout: React.FC<LayoutProps> = ({
             items: [
                 { route: AppRoute.INVENTORY, icon: "fa-boxes-stacked", label: t('nav_inventory'), perm: 'inventory.view', moduleFlag: 'mod_inventory' as FeatureFlagKey },
                 { route: AppRoute.ORDERS, icon: "fa-cart-shopping", label: t('nav_orders'), perm: 'orders.view', moduleFlag: 'mod_orders' as FeatureFlagKey },
+                { route: AppRoute.VENDORS, icon: "fa-truck-field", label: "Vendors", perm: 'orders.view', moduleFlag: 'mod_orders' as FeatureFlagKey },
+                { route: AppRoute.TRANSFERS, icon: "fa-truck-ramp-box", label: "Transfers", perm: 'inventory.view', moduleFlag: 'mod_inventory' as FeatureFlagKey },
+                { route: AppRoute.CYCLE_COUNTS, icon: "fa-clipboard-check", label: "Cycle Counts", perm: 'inventory.audit', moduleFlag: 'mod_inventory' as FeatureFlagKey },
                 { route: AppRoute.SCHEDULE, icon: "fa-calendar-week", label: "Scheduler", perm: 'schedule.view', moduleFlag: 'mod_schedule' as FeatureFlagKey },
                 { route: AppRoute.BUDGETS, icon: "fa-wallet", label: "Budgets", perm: 'finance.manage', moduleFlag: 'mod_budgets' as FeatureFlagKey },
                 { route: AppRoute.PRICELIST, icon: "fa-tags", label: t('nav_prices'), perm: 'prices.view', moduleFlag: 'mod_pricelist' as FeatureFlagKey },
@@ -372,6 +376,7 @@ export const Layout: React.FC<LayoutProps> = ({
                             </div>
                         )}
 
+                        <SyncStatusBadge />
                         <AIGatewayStatus />
 
                         <button onClick={toggleTheme} className="w-9 h-9 sm:w-10 sm:h-10 md:w-12 md:h-12 rounded-full flex items-center justify-center text-slate-600 dark:text-slate-300 bg-white/60 dark:bg-slate-800/60 hover:bg-white dark:hover:bg-slate-700 backdrop-blur-md transition-all border border-white/60 dark:border-slate-700 shadow-sm hover:shadow-lg active:scale-90">
@@ -1,13 +1,15 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Order, OrderItem, InventoryItem } from '../types';
+import { Order, OrderItem, InventoryItem, Vendor } from '../types';
 import { parseInvoiceFromImage, INVENTORY_CATEGORIES } from '../services/LocalAIService';
 import Webcam from 'react-webcam';
+import { getVendorDisplay, resolveVendor } from '../utils/vendorBranding';
 
 interface OrderFormProps {
     onSave: (order: Partial<Order>) => void;
     onCancel: () => void;
     existingInventory: InventoryItem[];
+    vendors: Vendor[];
     initialData?: Partial<Order>;
     t: (key: string) => string;
     isSaving?: boolean;
@@ -15,60 +17,7 @@ interface OrderFormProps {
 
 const UNITS = ['unit_each', 'unit_box', 'unit_pack', 'unit_bottle', 'unit_vial', 'unit_tube', 'unit_roll', 'unit_kit', 'unit_ream', 'unit_liter', 'unit_gallon', 'unit_ampoule'];
 
-const VENDOR_PRESETS = [
-    {
-        name: 'Amazon',
-        logo: '/logos/amazon_premium.png',
-        logoBg: 'bg-[#232f3e]',
-        color: 'from-orange-500 to-amber-500',
-        bgColor: 'bg-gradient-to-br from-slate-900 to-slate-800 dark:from-slate-900/50 dark:to-slate-800/50',
-        glowColor: 'shadow-orange-500/40',
-        borderActive: 'border-orange-400',
-        textColor: 'text-orange-600 dark:text-orange-400'
-    },
-    {
-        name: 'Labcorp',
-        logo: '/logos/labcorp_premium_v2.png',
-        logoBg: 'bg-[#002855]',
-        color: 'from-[#00AADF] to-blue-600',
-        bgColor: 'bg-gradient-to-br from-cyan-50 to-blue-50 dark:from-cyan-900/30 dark:to-blue-900/30',
-        glowColor: 'shadow-[#00AADF]/40',
-        borderActive: 'border-[#00AADF]',
-        textColor: 'text-[#00AADF] dark:text-cyan-400'
-    },
-    {
-        name: 'Henry Schein',
-        logo: '/logos/henry_schein_premium_v2.png',
-        logoBg: 'bg-[#003da5]',
-        color: 'from-red-600 to-blue-700',
-        bgColor: 'bg-gradient-to-br from-red-50 to-blue-50 dark:from-red-900/30 dark:to-blue-900/30',
-        glowColor: 'shadow-red-500/40',
-        borderActive: 'border-red-500',
-        textColor: 'text-red-600 dark:text-red-400'
-    },
-    {
-        name: 'Medline',
-        logo: '/logos/medline_premium_v2.png',
-        logoBg: 'bg-[#004b87]',
-        color: 'from-[#004b87] to-indigo-700',
-        bgColor: 'bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/30 dark:to-indigo-900/30',
-        glowColor: 'shadow-[#004b87]/40',
-        borderActive: 'border-[#004b87]',
-        textColor: 'text-[#004b87] dark:text-blue-300'
-    },
-    {
-        name: 'McKesson',
-        logo: '/logos/mckesson_premium_v2.png',
-        logoBg: 'bg-[#002d72]',
-        color: 'from-[#002d72] to-slate-800',
-        bgColor: 'bg-gradient-to-br from-blue-50 to-slate-100 dark:from-blue-900/30 dark:to-slate-900/30',
-        glowColor: 'shadow-[#002d72]/40',
-        borderActive: 'border-[#002d72]',
-        textColor: 'text-[#002d72] dark:text-blue-300'
-    }
-];
-
-const OrderForm: React.FC<OrderFormProps> = ({ onSave, onCancel, existingInventory, initialData, t, isSaving }) => {
+const OrderForm: React.FC<OrderFormProps> = ({ onSave, onCancel, existingInventory, vendors, initialData, t, isSaving }) => {
     const [formData, setFormData] = useState<Partial<Order>>({
         poNumber: `PO-${Date.now().toString().slice(-6)}`,
         vendor: '',
@@ -194,8 +143,17 @@ const OrderForm: React.FC<OrderFormProps> = ({ onSave, onCancel, existingInvento
         setFormData(prev => ({ ...prev, items: prev.items?.filter(i => i.id !== id) }));
     };
 
-    const handleVendorSelect = (vendor: typeof VENDOR_PRESETS[0]) => {
-        setFormData(prev => ({ ...prev, vendor: vendor.name }));
+    const handleVendorSelect = (vendor: Vendor) => {
+        setFormData(prev => {
+            // Pre-fill the expected date from the vendor's default lead time
+            let expectedDate = prev.expectedDate;
+            if (!expectedDate && vendor.defaultLeadTimeDays && prev.orderDate) {
+                const d = new Date(`${prev.orderDate}T12:00:00`);
+                d.setDate(d.getDate() + vendor.defaultLeadTimeDays);
+                expectedDate = d.toISOString().split('T')[0];
+            }
+            return { ...prev, vendor: vendor.name, vendorId: vendor.id, expectedDate };
+        });
         setShowVendorSuggestions(false);
     };
 
@@ -211,6 +169,7 @@ const OrderForm: React.FC<OrderFormProps> = ({ onSave, onCancel, existingInvento
                     ...prev,
                     poNumber: result.poNumber || prev.poNumber,
                     vendor: result.vendor || prev.vendor,
+                    vendorId: result.vendor ? resolveVendor(vendors, { vendor: result.vendor })?.id : prev.vendorId,
                     orderDate: result.orderDate || prev.orderDate,
                     shippingCost: result.shippingCost || prev.shippingCost,
                     totalTax: result.totalTax || prev.totalTax,
@@ -241,14 +200,15 @@ const OrderForm: React.FC<OrderFormProps> = ({ onSave, onCancel, existingInvento
         const invItem = existingInventory.find(i => i.id === item.inventoryItemId);
         if (!invItem || !invItem.averageCost || invItem.averageCost === 0) return null;
 
-        const currentCost = item.unitCost;
+        // Average cost is tracked per stock unit, order lines are priced per package
+        const currentCost = item.unitCost / (item.unitsPerPackage || 1);
         const historyCost = invItem.averageCost;
 
         const diff = currentCost - historyCost;
         const percent = (diff / historyCost) * 100;
 
         const isCheaper = diff < 0;
-        const isSame = diff === 0;
+        const isSame = Math.abs(diff) < 0.005;
 
         return {
             historyCost,
@@ -320,24 +280,10 @@ const OrderForm: React.FC<OrderFormProps> = ({ onSave, onCancel, existingInvento
         );
     };
 
-    const getActiveVendorLogo = () => {
-        if (!formData.vendor) return null;
-        const match = VENDOR_PRESETS.find(v =>
-            formData.vendor!.toLowerCase().includes(v.name.toLowerCase()) ||
-            v.name.toLowerCase().includes(formData.vendor!.toLowerCase())
-        );
-        return match ? match.logo : null;
-    };
+    const activeVendor = resolveVendor(vendors, formData);
+    const activeTheme = activeVendor ? getVendorDisplay(activeVendor, activeVendor.name) : undefined;
 
-    const getActiveVendorTheme = () => {
-        if (!formData.vendor) return undefined;
-        return VENDOR_PRESETS.find(v =>
-            formData.vendor!.toLowerCase().includes(v.name.toLowerCase()) ||
-            v.name.toLowerCase().includes(formData.vendor!.toLowerCase())
-        );
-    };
-
-    const activeTheme = getActiveVendorTheme();
+    const getActiveVendorLogo = () => activeTheme?.logo || null;
 
     const handleSaveOrder = () => {
         if (!formData.vendor) {
@@ -348,7 +294,7 @@ const OrderForm: React.FC<OrderFormProps> = ({ onSave, onCancel, existingInvento
             alert("Please add at least one item to the order.");
             return;
         }
-        onSave(formData);
+        onSave({ ...formData, vendor: activeVendor?.name || formData.vendor, vendorId: activeVendor?.id });
     };
 
     return (
@@ -418,24 +364,34 @@ const OrderForm: React.FC<OrderFormProps> = ({ onSave, onCancel, existingInvento
                             onFocus={() => setShowVendorSuggestions(true)}
                             onBlur={() => setTimeout(() => setShowVendorSuggestions(false), 200)}
                             placeholder={t('ph_select_vendor')}
-                            onChange={e => setFormData({ ...formData, vendor: e.target.value })}
+                            onChange={e => setFormData({ ...formData, vendor: e.target.value, vendorId: undefined })}
                             className="w-full pl-14 pr-4 h-11 rounded-xl border-none bg-slate-50/50 dark:bg-slate-900/50 text-slate-900 dark:text-white font-medium focus:ring-4 ring-medical-500/10 transition-all outline-none"
                         />
 
                         {showVendorSuggestions && (
                             <div className="absolute top-full left-0 right-0 mt-3 bg-white/95 dark:bg-slate-900/95 backdrop-blur-2xl rounded-2xl shadow-2xl border border-white/20 dark:border-slate-800 overflow-hidden z-20 animate-fade-in-up">
-                                {VENDOR_PRESETS.filter(v => v.name.toLowerCase().includes((formData.vendor || '').toLowerCase())).map(v => (
-                                    <div
-                                        key={v.name}
-                                        onClick={() => handleVendorSelect(v)}
-                                        className="flex items-center gap-4 p-4 hover:bg-medical-50 dark:hover:bg-medical-900/20 cursor-pointer transition-colors border-b border-slate-50 dark:border-slate-800 last:border-0"
-                                    >
-                                        <div className={`w-10 h-10 rounded-xl border border-white/20 ${v.logoBg} p-1.5 flex items-center justify-center shadow-md overflow-hidden transform group-hover:scale-110 transition-transform`}>
-                                            <img src={v.logo} alt={v.name} className="max-w-full max-h-full object-contain" />
+                                {vendors.filter(v => v.name.toLowerCase().includes((formData.vendor || '').toLowerCase())).map(v => {
+                                    const brand = getVendorDisplay(v, v.name);
+                                    return (
+                                        <div
+                                            key={v.id}
+                                            onClick={() => handleVendorSelect(v)}
+                                            className="flex items-center gap-4 p-4 hover:bg-medical-50 dark:hover:bg-medical-900/20 cursor-pointer transition-colors border-b border-slate-50 dark:border-slate-800 last:border-0"
+                                        >
+                                            <div className={`w-10 h-10 rounded-xl border border-white/20 ${brand.logoBg} p-1.5 flex items-center justify-center shadow-md overflow-hidden transform group-hover:scale-110 transition-transform`}>
+                                                {brand.logo ? (
+                                                    <img src={brand.logo} alt={v.name} className="max-w-full max-h-full object-contain" />
+                                                ) : (
+                                                    <span className="text-white text-xs font-bold">{brand.initials}</span>
+                                                )}
+                                            </div>
+                                            <div>
+                                                <span className="font-bold text-slate-700 dark:text-slate-200 tracking-tight">{v.name}</span>
+                                                {v.defaultLeadTimeDays ? <div className="text-[10px] text-slate-400">{v.defaultLeadTimeDays}-day lead time</div> : null}
+                                            </div>
                                         </div>
-                                        <span className="font-bold text-slate-700 dark:text-slate-200 tracking-tight">{v.name}</span>
-                                    </div>
-                                ))}
+                                    );
+                                })}
                             </div>
                         )}
                     </div>
@@ -590,7 +546,7 @@ const OrderForm: React.FC<OrderFormProps> = ({ onSave, onCancel, existingInvento
                                             {comparison.isSame ? 'Matches avg price' : (
                                                 <>
                                                     <i className={`fa-solid ${comparison.isCheaper ? 'fa-arrow-down' : 'fa-arrow-up'} mr-1`}></i>
-                                                    {comparison.percent}% vs Avg (${comparison.historyCost})
+                                                    {comparison.percent}% vs Avg (${comparison.historyCost.toFixed(2)}/unit)
                                                 </>
                                             )}
                                         </div>
@@ -649,7 +605,7 @@ const OrderForm: React.FC<OrderFormProps> = ({ onSave, onCancel, existingInvento
                                             {comparison.isSame ? 'Same price' : (
                                                 <>
                                                     <i className={`fa-solid ${comparison.isCheaper ? 'fa-arrow-down' : 'fa-arrow-up'} mr-1`}></i>
-                                                    {comparison.percent}% vs Avg (${comparison.historyCost})
+                                                    {comparison.percent}% vs Avg (${comparison.historyCost.toFixed(2)}/unit)
                                                 </>
                                             )}
                                         </div>
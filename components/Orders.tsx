@@ -1,93 +1,42 @@
 
 import React, { useState, useMemo } from 'react';
-import { Order, OrderItem, InventoryItem, User, Permission } from '../types';
+import { Order, OrderItem, OrderShipmentLine, InventoryItem, User, Permission, Vendor } from '../types';
 import OrderForm from './OrderForm';
 import OrderScannerModal from './OrderScannerModal';
 import OrdersAnalytics from './OrdersAnalytics';
+import ReceiveOrderModal from './ReceiveOrderModal';
+import InvoiceMatchModal from './InvoiceMatchModal';
+import { getVendorDisplay, resolveVendor } from '../utils/vendorBranding';
+import { getBackorderedItems, getOutstandingQuantity } from '../utils/receivingUtils';
 
 interface OrdersProps {
     orders: Order[];
     inventory: InventoryItem[];
+    vendors: Vendor[];
     user: User;
     hasPermission: (permission: Permission) => boolean;
     onSaveOrder: (order: Order) => Promise<void>;
-    onReceiveOrder: (order: Order) => void;
+    onReceiveOrder: (order: Order, lines: OrderShipmentLine[]) => void;
     isLoadingOrders?: boolean;
     onDeleteOrder: (orderId: string) => void;
     onAddToInventory: (item: Omit<InventoryItem, 'id'>) => Promise<InventoryItem | void | null> | void;
     t: (key: string) => string;
 }
 
-// Premium vendor presets with accurate brand identities and polished styling
-const VENDOR_PRESETS = [
-    {
-        name: 'Amazon',
-        logo: '/logos/amazon_premium.png',
-        logoBg: 'bg-[#232f3e]',
-        color: 'from-orange-500 to-amber-500',
-        bgColor: 'bg-gradient-to-br from-slate-900 to-slate-800 dark:from-slate-900/50 dark:to-slate-800/50',
-        glowColor: 'shadow-orange-500/40',
-        borderActive: 'border-orange-400',
-        textColor: 'text-orange-600 dark:text-orange-400'
-    },
-    {
-        name: 'Labcorp',
-        initials: 'L',
-        color: 'from-[#00AADF] to-blue-600',
-        bgColor: 'bg-gradient-to-br from-cyan-50 to-blue-50 dark:from-cyan-900/30 dark:to-blue-900/30',
-        glowColor: 'shadow-[#00AADF]/40',
-        borderActive: 'border-[#00AADF]',
-        textColor: 'text-[#00AADF] dark:text-cyan-400'
-    },
-    {
-        name: 'Henry Schein',
-        initials: 'HS',
-        color: 'from-red-600 to-blue-700',
-        bgColor: 'bg-gradient-to-br from-red-50 to-blue-50 dark:from-red-900/30 dark:to-blue-900/30',
-        glowColor: 'shadow-red-500/40',
-        borderActive: 'border-red-500',
-        textColor: 'text-red-600 dark:text-red-400'
-    },
-    {
-        name: 'Medline',
-        initials: 'M',
-        color: 'from-[#004b87] to-indigo-700',
-        bgColor: 'bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/30 dark:to-indigo-900/30',
-        glowColor: 'shadow-[#004b87]/40',
-        borderActive: 'border-[#004b87]',
-        textColor: 'text-[#004b87] dark:text-blue-300'
-    },
-    {
-        name: 'McKesson',
-        initials: 'MC',
-        color: 'from-[#002d72] to-slate-800',
-        bgColor: 'bg-gradient-to-br from-blue-50 to-slate-100 dark:from-blue-900/30 dark:to-slate-900/30',
-        glowColor: 'shadow-[#002d72]/40',
-        borderActive: 'border-[#002d72]',
-        textColor: 'text-[#002d72] dark:text-blue-300'
-    }
-];
-
 // Order Details Modal Component
 const OrderDetailsModal: React.FC<{
     order: Order | null;
     onClose: () => void;
     inventory: InventoryItem[];
+    vendors: Vendor[];
     onDelete?: (orderId: string) => void;
     canDelete?: boolean;
     t: (key: string) => string;
-}> = ({ order, onClose, inventory, onDelete, canDelete, t }) => {
+}> = ({ order, onClose, inventory, vendors, onDelete, canDelete, t }) => {
     if (!order) return null;
 
-    const getVendorInfo = (vendorName: string) => {
-        if (!vendorName) return undefined;
-        return VENDOR_PRESETS.find(v =>
-            vendorName.toLowerCase().includes(v.name.toLowerCase()) ||
-            v.name.toLowerCase().includes(vendorName.toLowerCase())
-        );
-    };
-
-    const vendorInfo = getVendorInfo(order.vendor);
+    const vendorRecord = resolveVendor(vendors, order);
+    const vendorInfo = getVendorDisplay(vendorRecord, order.vendor);
 
     const getInventoryItemName = (inventoryItemId?: string) => {
         if (!inventoryItemId) return null;
@@ -100,28 +49,36 @@ const OrderDetailsModal: React.FC<{
             <div className="w-full max-w-3xl max-h-[90vh] bg-white dark:bg-[#0c1511] rounded-2xl shadow-2xl border border-white/20 dark:border-slate-800 overflow-hidden flex flex-col">
 
                 {/* Header with Vendor Logo */}
-                <div className={`p-6 ${vendorInfo?.bgColor || 'bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-900'}`}>
+                <div className={`p-6 ${vendorInfo.bgColor}`}>
                     <div className="flex items-center justify-between">
                         <div className="flex items-center gap-4">
-                            {vendorInfo?.logo ? (
+                            {vendorInfo.logo ? (
                                 <div className="w-14 h-14 rounded-xl bg-white dark:bg-slate-800 border border-white/50 dark:border-slate-700 p-2 shadow-lg flex items-center justify-center overflow-hidden">
                                     <img src={vendorInfo.logo} alt={order.vendor} className="w-full h-full object-contain" />
                                 </div>
                             ) : (
-                                <div className={`w-14 h-14 rounded-xl bg-gradient-to-br ${vendorInfo?.color || 'from-slate-400 to-slate-600'} flex items-center justify-center text-white text-xl font-bold shadow-xl border border-white/20`}>
-                                    {vendorInfo?.initials || order.vendor.charAt(0).toUpperCase()}
+                                <div className={`w-14 h-14 rounded-xl bg-gradient-to-br ${vendorInfo.color} flex items-center justify-center text-white text-xl font-bold shadow-xl border border-white/20`}>
+                                    {vendorInfo.initials}
                                 </div>
                             )}
                             <div>
-                                <h2 className="text-xl font-bold text-slate-900 dark:text-white">{order.vendor}</h2>
+                                <h2 className="text-xl font-bold text-slate-900 dark:text-white">{vendorRecord?.name || order.vendor}</h2>
+                                {(vendorRecord?.accountNumber || vendorRecord?.paymentTerms) && (
+                                    <div className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                                        {vendorRecord.accountNumber && <span className="font-mono">Acct {vendorRecord.accountNumber}</span>}
+                                        {vendorRecord.accountNumber && vendorRecord.paymentTerms && ' · '}
+                                        {vendorRecord.paymentTerms && vendorRecord.paymentTerms.replace(/_/g, ' ')}
+                                    </div>
+                                )}
                                 <div className="flex items-center gap-3 mt-1">
                                     <span className="text-sm font-mono text-slate-500 dark:text-slate-400">{order.poNumber}</span>
                                     <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${order.status === 'RECEIVED' ? 'bg-emerald-100 text-emerald-600' :
-                                        order.status === 'PENDING' ? 'bg-orange-100 text-orange-600' :
-                                            order.status === 'CANCELLED' ? 'bg-red-100 text-red-600' :
-                                                'bg-slate-100 text-slate-600'
+                                        order.status === 'PARTIALLY_RECEIVED' ? 'bg-amber-100 text-amber-600' :
+                                            order.status === 'PENDING' ? 'bg-orange-100 text-orange-600' :
+                                                order.status === 'CANCELLED' ? 'bg-red-100 text-red-600' :
+                                                    'bg-slate-100 text-slate-600'
                                         }`}>
-                                        {order.status}
+                                        {order.status.replace(/_/g, ' ')}
                                     </span>
                                 </div>
                             </div>
@@ -180,6 +137,17 @@ const OrderDetailsModal: React.FC<{
                                                 <span className="text-sm font-bold text-slate-500">
                                                     {t(item.unitType) || item.unitType}
                                                 </span>
+                                                {order.status === 'PARTIALLY_RECEIVED' && (
+                                                    getOutstandingQuantity(item) > 0 ? (
+                                                        <span className="px-2.5 py-1 rounded-full bg-amber-50 dark:bg-amber-900/30 text-amber-600 text-[10px] font-bold uppercase tracking-widest border border-amber-100 dark:border-amber-800/50">
+                                                            {getOutstandingQuantity(item)} back-ordered · {item.quantityReceived || 0}/{item.quantity} received
+                                                        </span>
+                                                    ) : (
+                                                        <span className="px-2.5 py-1 rounded-full bg-emerald-50 dark:bg-emerald-900/30 text-emerald-600 text-[10px] font-bold uppercase tracking-widest border border-emerald-100 dark:border-emerald-800/50">
+                                                            Complete
+                                                        </span>
+                                                    )
+                                                )}
                                             </div>
                                         </div>
                                         <div className="text-right">
@@ -197,6 +165,31 @@ const OrderDetailsModal: React.FC<{
                             );
                         })}
                     </div>
+
+                    {order.shipments && order.shipments.length > 0 && (
+                        <>
+                            <h3 className="text-sm font-bold text-slate-400 uppercase tracking-widest mt-6 mb-4 flex items-center gap-2">
+                                <i className="fa-solid fa-truck-ramp-box text-medical-500"></i>
+                                Shipments
+                            </h3>
+                            <div className="space-y-2">
+                                {order.shipments.map((shipment, idx) => (
+                                    <div key={shipment.id} className="p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-700 text-sm">
+                                        <div className="flex items-center justify-between">
+                                            <span className="font-bold text-slate-700 dark:text-slate-200">Shipment {idx + 1}</span>
+                                            <span className="text-xs text-slate-500">{new Date(shipment.receivedAt).toLocaleString()}</span>
+                                        </div>
+                                        <div className="text-xs text-slate-500 mt-1">
+                                            {shipment.lines.map(line => {
+                                                const lineItem = order.items.find(i => i.id === line.orderItemId);
+                                                return `${line.quantity} × ${lineItem?.name || 'Item'}${line.lotNumber ? ` (lot ${line.lotNumber})` : ''}`;
+                                            }).join(' · ')}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
                 </div>
 
                 {/* Totals Footer */}
@@ -232,11 +225,15 @@ const OrderDetailsModal: React.FC<{
     );
 };
 
-const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission, onSaveOrder, onReceiveOrder, onDeleteOrder, onAddToInventory, t, isLoadingOrders }) => {
+const Orders: React.FC<OrdersProps> = ({ orders, inventory, vendors, user, hasPermission, onSaveOrder, onReceiveOrder, onDeleteOrder, onAddToInventory, t, isLoadingOrders }) => {
     const [isEditing, setIsEditing] = useState(false);
     const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
     const [showScanner, setShowScanner] = useState(false);
     const [viewingOrder, setViewingOrder] = useState<Order | null>(null);
+    const [receivingOrder, setReceivingOrder] = useState<Order | null>(null);
+    const [receivingQuantities, setReceivingQuantities] = useState<Record<string, number> | undefined>(undefined);
+    const [showInvoiceMatch, setShowInvoiceMatch] = useState(false);
+    const [matchingOrder, setMatchingOrder] = useState<Order | null>(null);
     const [viewMode, setViewMode] = useState<'list' | 'analytics'>('list');
 
     // Filter State
@@ -244,18 +241,11 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
     const [startDate, setStartDate] = useState('');
     const [endDate, setEndDate] = useState('');
 
-    // Extract unique vendors from existing orders + defaults
-    const availableVendors = useMemo(() => {
-        const defaultVendors = VENDOR_PRESETS.map(v => v.name);
-        const existingVendors = Array.from(new Set(orders.map(o => o.vendor))).filter(Boolean);
-        return Array.from(new Set([...defaultVendors, ...existingVendors])).sort();
-    }, [orders]);
+    const activeVendors = useMemo(() => vendors.filter(v => v.isActive), [vendors]);
 
     const filteredOrders = useMemo(() => {
         return orders.filter(order => {
-            const matchesVendor = vendorFilter === 'All' ||
-                order.vendor.toLowerCase().includes(vendorFilter.toLowerCase()) ||
-                vendorFilter.toLowerCase().includes(order.vendor.toLowerCase());
+            const matchesVendor = vendorFilter === 'All' || resolveVendor(vendors, order)?.id === vendorFilter;
 
             let matchesDate = true;
             if (startDate) {
@@ -267,7 +257,7 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
 
             return matchesVendor && matchesDate;
         });
-    }, [orders, vendorFilter, startDate, endDate]);
+    }, [orders, vendors, vendorFilter, startDate, endDate]);
 
     const handleCreate = () => {
         setSelectedOrder(null);
@@ -275,7 +265,7 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
     };
 
     const handleEdit = (order: Order) => {
-        if (order.status === 'RECEIVED') return;
+        if (order.status === 'RECEIVED' || order.status === 'PARTIALLY_RECEIVED') return;
         setSelectedOrder(order);
         setIsEditing(true);
     };
@@ -299,20 +289,13 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
         switch (status) {
             case 'DRAFT': return 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400';
             case 'PENDING': return 'bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400';
+            case 'PARTIALLY_RECEIVED': return 'bg-amber-100 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400';
             case 'RECEIVED': return 'bg-emerald-100 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400';
             case 'CANCELLED': return 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400';
             default: return 'bg-slate-100 text-slate-600';
         }
     };
 
-    const getVendorInfo = (vendorName: string) => {
-        if (!vendorName) return undefined;
-        return VENDOR_PRESETS.find(v =>
-            vendorName.toLowerCase().includes(v.name.toLowerCase()) ||
-            v.name.toLowerCase().includes(vendorName.toLowerCase())
-        );
-    };
-
     if (isEditing) {
         return (
             <div className="animate-fade-in-up pb-20">
@@ -320,6 +303,7 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
                     onSave={handleSave}
                     onCancel={() => setIsEditing(false)}
                     existingInventory={inventory}
+                    vendors={activeVendors}
                     initialData={selectedOrder || undefined}
                     t={t}
                     isSaving={isLoadingOrders}
@@ -355,6 +339,16 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
                             <i className="fa-solid fa-wand-magic-sparkles text-base group-hover:rotate-12 transition-transform"></i>
                             <span className="tracking-tight hidden sm:inline">Scan</span>
                         </button>
+                        {hasPermission('orders.receive') && (
+                            <button
+                                onClick={() => setShowInvoiceMatch(true)}
+                                className="h-11 px-5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 rounded-xl font-semibold text-sm shadow-md flex items-center gap-2 transition-all transform hover:scale-105 hover:shadow-lg active:scale-95"
+                                title="Match an invoice to an open PO"
+                            >
+                                <i className="fa-solid fa-file-invoice-dollar text-base"></i>
+                                <span className="tracking-tight hidden sm:inline">Match Invoice</span>
+                            </button>
+                        )}
                         <button
                             onClick={handleCreate}
                             className="h-11 px-6 bg-medical-600 text-white rounded-xl font-semibold text-sm shadow-xl shadow-medical-500/30 flex items-center gap-2 transition-all transform hover:scale-105 hover:shadow-2xl active:scale-95 group"
@@ -390,41 +384,44 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
                         </button>
 
                         {/* Vendor Buttons */}
-                        {VENDOR_PRESETS.map(vendor => (
-                            <button
-                                key={vendor.name}
-                                onClick={() => setVendorFilter(vendor.name)}
-                                className={`group relative h-12 px-4 rounded-xl font-bold text-sm transition-all duration-300 flex items-center gap-2.5 overflow-hidden flex-shrink-0 snap-start ${vendorFilter === vendor.name
-                                    ? `bg-gradient-to-r ${vendor.color} text-white shadow-xl ${vendor.glowColor} scale-100 md:scale-105 ring-2 ring-white/30`
-                                    : `${vendor.bgColor} ${vendor.textColor} hover:shadow-lg md:hover:scale-[1.02] border-2 ${vendor.borderActive} border-opacity-30 hover:border-opacity-100`
-                                    }`}
-                            >
-                                {vendor.logo ? (
-                                    <div className={`relative w-12 h-12 rounded-xl overflow-hidden ${(vendor as any).logoBg} ${vendorFilter === vendor.name
-                                        ? 'shadow-lg ring-2 ring-white/50'
-                                        : 'shadow-sm'
-                                        } p-1.5 transition-all group-hover:shadow-lg`}>
-                                        <img
-                                            src={vendor.logo}
-                                            alt={vendor.name}
-                                            className="w-full h-full object-contain"
-                                        />
-                                    </div>
-                                ) : (
-                                    <div className={`relative w-10 h-10 rounded-lg flex items-center justify-center bg-gradient-to-br ${vendor.color} text-white font-bold text-base transition-all shadow-md group-hover:shadow-lg border border-white/10 ${vendorFilter === vendor.name ? 'ring-2 ring-white/50' : ''}`}>
-                                        {(vendor as any).initials || vendor.name.charAt(0).toUpperCase()}
-                                    </div>
-                                )}
+                        {activeVendors.map(vendorRecord => {
+                            const vendor = { ...getVendorDisplay(vendorRecord, vendorRecord.name), id: vendorRecord.id, name: vendorRecord.name };
+                            return (
+                                <button
+                                    key={vendor.id}
+                                    onClick={() => setVendorFilter(vendor.id)}
+                                    className={`group relative h-12 px-4 rounded-xl font-bold text-sm transition-all duration-300 flex items-center gap-2.5 overflow-hidden flex-shrink-0 snap-start ${vendorFilter === vendor.id
+                                        ? `bg-gradient-to-r ${vendor.color} text-white shadow-xl ${vendor.glowColor} scale-100 md:scale-105 ring-2 ring-white/30`
+                                        : `${vendor.bgColor} ${vendor.textColor} hover:shadow-lg md:hover:scale-[1.02] border-2 ${vendor.borderActive} border-opacity-30 hover:border-opacity-100`
+                                        }`}
+                                >
+                                    {vendor.logo ? (
+                                        <div className={`relative w-12 h-12 rounded-xl overflow-hidden ${vendor.logoBg} ${vendorFilter === vendor.id
+                                            ? 'shadow-lg ring-2 ring-white/50'
+                                            : 'shadow-sm'
+                                            } p-1.5 transition-all group-hover:shadow-lg`}>
+                                            <img
+                                                src={vendor.logo}
+                                                alt={vendor.name}
+                                                className="w-full h-full object-contain"
+                                            />
+                                        </div>
+                                    ) : (
+                                        <div className={`relative w-10 h-10 rounded-lg flex items-center justify-center bg-gradient-to-br ${vendor.color} text-white font-bold text-base transition-all shadow-md group-hover:shadow-lg border border-white/10 ${vendorFilter === vendor.id ? 'ring-2 ring-white/50' : ''}`}>
+                                            {vendor.initials}
+                                        </div>
+                                    )}
 
-                                {/* Vendor Name */}
-                                <span className="hidden sm:inline font-bold">{vendor.name}</span>
+                                    {/* Vendor Name */}
+                                    <span className="hidden sm:inline font-bold">{vendor.name}</span>
 
-                                {/* Active Glow Effect */}
-                                {vendorFilter === vendor.name && (
-                                    <div className="absolute inset-0 bg-gradient-to-r from-white/20 to-transparent animate-pulse"></div>
-                                )}
-                            </button>
-                        ))}
+                                    {/* Active Glow Effect */}
+                                    {vendorFilter === vendor.id && (
+                                        <div className="absolute inset-0 bg-gradient-to-r from-white/20 to-transparent animate-pulse"></div>
+                                    )}
+                                </button>
+                            );
+                        })}
                     </div>
 
                     {/* Date Filters - Glass Toolbar */}
@@ -497,7 +494,7 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
                                             </div>
                                         </td></tr>
                                     ) : filteredOrders.map((order, index) => {
-                                        const vendorInfo = getVendorInfo(order.vendor);
+                                        const vendorInfo = getVendorDisplay(resolveVendor(vendors, order), order.vendor);
                                         return (
                                             <tr
                                                 key={order.id}
@@ -509,13 +506,13 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
                                                 <td className="p-4 md:p-5 md:bg-white md:dark:bg-slate-900 md:border-y md:border-l border-white dark:border-slate-800 md:rounded-l-[1.5rem] md:shadow-sm md:group-hover:shadow-xl md:group-hover:shadow-medical-500/10 md:group-hover:border-medical-500/20 transition-all cursor-pointer align-middle flex justify-between items-center md:table-cell border-b border-slate-50 dark:border-slate-800/50 md:border-b-0">
                                                     <div className="md:hidden text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('lbl_vendor')}</div>
                                                     <div className="flex items-center gap-4">
-                                                        {vendorInfo?.logo ? (
-                                                            <div className={`w-10 h-10 md:w-12 md:h-12 rounded-xl ${(vendorInfo as any).logoBg || 'bg-white'} p-2 shadow-md flex items-center justify-center md:group-hover:scale-105 transition-transform`}>
+                                                        {vendorInfo.logo ? (
+                                                            <div className={`w-10 h-10 md:w-12 md:h-12 rounded-xl ${vendorInfo.logoBg} p-2 shadow-md flex items-center justify-center md:group-hover:scale-105 transition-transform`}>
                                                                 <img src={vendorInfo.logo} alt={order.vendor} className="w-full h-full object-contain" />
                                                             </div>
                                                         ) : (
-                                                            <div className={`w-10 h-10 md:w-12 md:h-12 rounded-xl bg-gradient-to-br ${vendorInfo?.color || 'from-slate-400 to-slate-600'} flex items-center justify-center text-white font-bold text-lg shadow-md md:group-hover:scale-105 transition-transform border border-white/10`}>
-                                                                {(vendorInfo as any)?.initials || order.vendor.charAt(0).toUpperCase()}
+                                                            <div className={`w-10 h-10 md:w-12 md:h-12 rounded-xl bg-gradient-to-br ${vendorInfo.color} flex items-center justify-center text-white font-bold text-lg shadow-md md:group-hover:scale-105 transition-transform border border-white/10`}>
+                                                                {vendorInfo.initials}
                                                             </div>
                                                         )}
                                                         <div className="text-right md:text-left">
@@ -576,9 +573,16 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
                                                 {/* Status */}
                                                 <td className="p-4 md:p-5 md:bg-white md:dark:bg-slate-900 md:border-y border-white dark:border-slate-800 md:shadow-sm md:group-hover:shadow-xl md:group-hover:shadow-medical-500/10 md:group-hover:border-medical-500/20 transition-all cursor-pointer align-middle flex justify-between items-center md:table-cell border-b border-slate-50 dark:border-slate-800/50 md:border-b-0">
                                                     <div className="md:hidden text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('lbl_status')}</div>
-                                                    <span className={`px-3 md:px-4 py-1.5 md:py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest ${getStatusBadge(order.status)} transform md:group-hover:scale-105 transition-transform inline-block border border-white/20 shadow-sm`}>
-                                                        {order.status}
-                                                    </span>
+                                                    <div className="text-right md:text-left">
+                                                        <span className={`px-3 md:px-4 py-1.5 md:py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest ${getStatusBadge(order.status)} transform md:group-hover:scale-105 transition-transform inline-block border border-white/20 shadow-sm`}>
+                                                            {order.status.replace(/_/g, ' ')}
+                                                        </span>
+                                                        {getBackorderedItems(order).length > 0 && (
+                                                            <div className="text-[10px] font-bold text-amber-600 dark:text-amber-400 mt-1">
+                                                                {getBackorderedItems(order).length} line(s) back-ordered
+                                                            </div>
+                                                        )}
+                                                    </div>
                                                 </td>
 
                                                 {/* Controls */}
@@ -593,7 +597,7 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
                                                         </button>
                                                         {order.status !== 'RECEIVED' && (
                                                             <>
-                                                                {hasPermission('orders.create') && (
+                                                                {hasPermission('orders.create') && order.status !== 'PARTIALLY_RECEIVED' && (
                                                                     <button
                                                                         onClick={(e) => { e.stopPropagation(); handleEdit(order); }}
                                                                         className="flex-1 md:flex-none h-12 md:w-10 md:h-10 rounded-xl bg-white md:bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 md:border-transparent text-slate-600 hover:bg-amber-500 hover:text-white transition-all flex items-center justify-center shadow-sm hover:shadow-amber-500/30"
@@ -605,7 +609,7 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
                                                                     <button
                                                                         onClick={(e) => {
                                                                             e.stopPropagation();
-                                                                            if (window.confirm(t('msg_receive_confirm'))) onReceiveOrder(order);
+                                                                            setReceivingOrder(order);
                                                                         }}
                                                                         className="flex-1 md:flex-none h-12 md:w-10 md:h-10 rounded-xl bg-emerald-50 md:bg-emerald-100 dark:bg-emerald-900/30 border border-emerald-200 dark:border-emerald-800/50 md:border-transparent text-emerald-600 hover:bg-emerald-500 hover:text-white transition-all flex items-center justify-center shadow-sm hover:shadow-emerald-500/30"
                                                                         title={t('btn_receive')}
@@ -613,6 +617,19 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
                                                                         <i className="fa-solid fa-box-open"></i>
                                                                     </button>
                                                                 )}
+                                                                {hasPermission('orders.receive') && (order.status === 'PENDING' || order.status === 'PARTIALLY_RECEIVED') && (
+                                                                    <button
+                                                                        onClick={(e) => {
+                                                                            e.stopPropagation();
+                                                                            setMatchingOrder(order);
+                                                                            setShowInvoiceMatch(true);
+                                                                        }}
+                                                                        className="flex-1 md:flex-none h-12 md:w-10 md:h-10 rounded-xl bg-white md:bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 md:border-transparent text-slate-600 hover:bg-medical-500 hover:text-white transition-all flex items-center justify-center shadow-sm hover:shadow-medical-500/30"
+                                                                        title="Match Invoice"
+                                                                    >
+                                                                        <i className="fa-solid fa-file-invoice-dollar"></i>
+                                                                    </button>
+                                                                )}
                                                             </>
                                                         )}
                                                         {hasPermission('orders.delete') && (
@@ -657,11 +674,42 @@ const Orders: React.FC<OrdersProps> = ({ orders, inventory, user, hasPermission,
                 order={viewingOrder}
                 onClose={() => setViewingOrder(null)}
                 inventory={inventory}
+                vendors={vendors}
                 onDelete={onDeleteOrder}
                 canDelete={hasPermission('orders.delete')}
                 t={t}
             />
 
+            {/* Receive Order Modal (lot capture) */}
+            <ReceiveOrderModal
+                order={receivingOrder}
+                onClose={() => {
+                    setReceivingOrder(null);
+                    setReceivingQuantities(undefined);
+                }}
+                onConfirm={onReceiveOrder}
+                suggestedQuantities={receivingQuantities}
+                t={t}
+            />
+
+            {/* Invoice Match Modal (three-way match before receiving) */}
+            <InvoiceMatchModal
+                isOpen={showInvoiceMatch}
+                order={matchingOrder}
+                orders={orders}
+                vendors={vendors}
+                inventory={inventory}
+                user={user}
+                onClose={() => {
+                    setShowInvoiceMatch(false);
+                    setMatchingOrder(null);
+                }}
+                onApproved={(order, quantities) => {
+                    setReceivingQuantities(quantities);
+                    setReceivingOrder(order);
+                }}
+            />
+
             {/* Order Scanner Modal */}
             <OrderScannerModal
                 isOpen={showScanner}
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Payer, PayerType } from '../types';
+import { PayerService } from '../services/PayerService';
+import { useAppData } from '../contexts/AppDataContext';
+import { PAYER_TYPE_LABELS, makeReportKey, normalizePayerName, sortPayers } from '../utils/payers';
+
+interface PayerRegistryProps {
+    userName: string;
+    onClose: () => void;
+}
+
+const EMPTY_PAYER: Omit<Payer, 'id' | 'reportKey'> = {
+    name: '',
+    type: 'COMMERCIAL',
+    aliases: [],
+    showInDailyClose: true,
+    isActive: true,
+    sortOrder: 50,
+    notes: ''
+};
+
+const inputClass = 'mt-1 w-full h-10 px-3 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500';
+const labelClass = 'text-[10px] font-bold text-slate-400 uppercase tracking-widest';
+
+// Built-in defaults exist only in the browser until the payers migration
+// runs for the location; saving one creates its row
+const isUnsaved = (payer: Partial<Payer>) => !!payer.id?.startsWith('payer_');
+
+const PayerRegistry: React.FC<PayerRegistryProps> = ({ userName, onClose }) => {
+    const { payers, setPayers, addLog } = useAppData();
+    const [editing, setEditing] = useState<Partial<Payer> | null>(null);
+    const [aliasesInput, setAliasesInput] = useState('');
+    const [showRetired, setShowRetired] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const visiblePayers = sortPayers(payers).filter(p => showRetired || p.isActive);
+
+    const startEdit = (payer?: Payer) => {
+        setEditing(payer ? { ...payer } : { ...EMPTY_PAYER });
+        setAliasesInput((payer?.aliases || []).join(', '));
+    };
+
+    const persist = async (payer: Partial<Payer>): Promise<Payer> => {
+        if (payer.id && !isUnsaved(payer)) return PayerService.updatePayer(payer.id, payer);
+        const { id, ...fields } = payer;
+        return PayerService.createPayer({ ...EMPTY_PAYER, ...fields, reportKey: payer.reportKey || makeReportKey(payer.name!, payers) });
+    };
+
+    const replace = (saved: Payer, previousId?: string) =>
+        setPayers(prev => previousId && prev.some(p => p.id === previousId)
+            ? prev.map(p => p.id === previousId ? saved : p)
+            : [...prev, saved]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing?.name?.trim()) return;
+
+        const duplicate = payers.find(p => p.id !== editing.id && normalizePayerName(p.name) === normalizePayerName(editing.name!));
+        if (duplicate) {
+            alert(`A payer named "${duplicate.name}" already exists.`);
+            return;
+        }
+
+        // A renamed payer keeps its old name as an alias so billing rules that use it still match
+        const original = payers.find(p => p.id === editing.id);
+        const aliases = aliasesInput.split(',').map(a => a.trim()).filter(Boolean);
+        if (original && normalizePayerName(original.name) !== normalizePayerName(editing.name) && !aliases.includes(original.name)) {
+            aliases.push(original.name);
+        }
+
+        setIsSaving(true);
+        try {
+            const saved = await persist({ ...editing, name: editing.name.trim(), aliases });
+            replace(saved, editing.id);
+            addLog('PAYER_SAVED', `${original ? 'Updated' : 'Added'} payer ${saved.name}`, userName, {
+                entityType: 'payer',
+                entityId: saved.id,
+                before: original ? { name: original.name, type: original.type, aliases: original.aliases, isActive: original.isActive } : null,
+                after: { name: saved.name, type: saved.type, aliases: saved.aliases, isActive: saved.isActive, reportKey: saved.reportKey }
+            });
+            setEditing(null);
+        } catch (error) {
+            console.error('Failed to save payer', error);
+            alert('Failed to save payer. Check console.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggleActive = async (payer: Payer) => {
+        if (payer.isActive && !window.confirm(`Retire ${payer.name}? Past reports and billing rules keep showing it.`)) return;
+        try {
+            const saved = payer.isActive && !isUnsaved(payer)
+                ? await PayerService.retirePayer(payer.id)
+                : await persist({ ...payer, isActive: !payer.isActive });
+            replace(saved, payer.id);
+            addLog('PAYER_SAVED', `${saved.isActive ? 'Reactivated' : 'Retired'} payer ${saved.name}`, userName, {
+                entityType: 'payer',
+                entityId: saved.id,
+                before: { isActive: payer.isActive },
+                after: { isActive: saved.isActive }
+            });
+        } catch (error) {
+            console.error('Failed to update payer', error);
+        }
+    };
+
+    const setField = <K extends keyof Payer>(key: K, value: Payer[K]) => {
+        setEditing(prev => ({ ...prev, [key]: value }));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl w-full max-w-3xl p-6 sm:p-8 shadow-2xl animate-fade-in-up border border-slate-100 dark:border-slate-800 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 flex-shrink-0">
+                    <div>
+                        <h3 className="text-xl sm:text-2xl font-bold text-slate-900 dark:text-white">Payers</h3>
+                        <p className="text-caption mt-0.5">Used by the daily close, dashboard and billing rules</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => startEdit()}
+                            className="h-10 px-4 rounded-xl bg-emerald-600 hover:bg-emerald-500 text-white text-sm font-bold shadow-lg shadow-emerald-500/30 flex items-center gap-2"
+                        >
+                            <i className="fa-solid fa-plus"></i> Add Payer
+                        </button>
+                        <button onClick={onClose} className="w-10 h-10 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-red-500 flex items-center justify-center"><i className="fa-solid fa-xmark"></i></button>
+                    </div>
+                </div>
+
+                <div className="space-y-4 overflow-y-auto custom-scrollbar pr-2 flex-1">
+                    {editing && (
+                        <form onSubmit={handleSave} className="rounded-xl border border-emerald-200 dark:border-emerald-800 bg-emerald-50/40 dark:bg-emerald-900/10 p-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <div>
+                                <label className={labelClass}>Name</label>
+                                <input value={editing.name || ''} onChange={e => setField('name', e.target.value)} className={inputClass} placeholder="e.g. UnitedHealthcare" autoFocus required />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Type</label>
+                                <select value={editing.type || 'COMMERCIAL'} onChange={e => setField('type', e.target.value as PayerType)} className={inputClass}>
+                                    {(Object.keys(PAYER_TYPE_LABELS) as PayerType[]).map(type => (
+                                        <option key={type} value={type}>{PAYER_TYPE_LABELS[type]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="sm:col-span-2">
+                                <label className={labelClass}>Plan Names & Aliases</label>
+                                <input value={aliasesInput} onChange={e => setAliasesInput(e.target.value)} className={inputClass} placeholder="Comma separated, e.g. UHC, UnitedHealthcare Community Plan" />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Sort Order</label>
+                                <input type="number" value={editing.sortOrder ?? 50} onChange={e => setField('sortOrder', Number(e.target.value) || 0)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>Report Key</label>
+                                <div className="mt-1 h-10 px-3 flex items-center text-sm font-mono rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-500" title="Fixed once created so past daily reports keep their counts">
+                                    {editing.reportKey || (editing.name ? makeReportKey(editing.name, payers) : '—')}
+                                </div>
+                            </div>
+                            <label className="sm:col-span-2 flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-200 cursor-pointer">
+                                <input type="checkbox" checked={editing.showInDailyClose ?? true} onChange={e => setField('showInDailyClose', e.target.checked)} className="rounded accent-emerald-600" />
+                                Count separately in the daily close
+                            </label>
+                            <div className="sm:col-span-2 flex justify-end gap-2">
+                                <button type="button" onClick={() => setEditing(null)} className="h-10 px-4 rounded-xl font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800">Cancel</button>
+                                <button type="submit" disabled={isSaving} className="h-10 px-5 rounded-xl bg-emerald-600 text-white font-bold disabled:opacity-50">
+                                    {isSaving ? 'Saving…' : 'Save Payer'}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+
+                    <label className="flex items-center gap-2 text-xs font-bold text-slate-400 cursor-pointer select-none">
+                        <input type="checkbox" checked={showRetired} onChange={e => setShowRetired(e.target.checked)} className="rounded accent-emerald-600" />
+                        Show retired payers
+                    </label>
+
+                    <div className="divide-y divide-slate-100 dark:divide-slate-800 rounded-xl border border-slate-100 dark:border-slate-800">
+                        {visiblePayers.map(payer => (
+                            <div key={payer.id} className={`flex items-center gap-3 p-3 ${payer.isActive ? '' : 'opacity-60'}`}>
+                                <div className="flex-1 min-w-0">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-bold text-slate-900 dark:text-white truncate">{payer.name}</span>
+                                        <span className="text-[10px] font-bold px-2 py-0.5 rounded-md bg-slate-100 dark:bg-slate-800 text-slate-500">{PAYER_TYPE_LABELS[payer.type]}</span>
+                                        {!payer.isActive && <span className="text-[10px] font-bold uppercase text-amber-600">Retired</span>}
+                                        {payer.showInDailyClose && payer.isActive && (
+                                            <i className="fa-solid fa-cash-register text-[10px] text-emerald-500" title="Counted in the daily close"></i>
+                                        )}
+                                    </div>
+                                    {payer.aliases.length > 0 && (
+                                        <p className="text-xs text-slate-400 truncate">Also: {payer.aliases.join(', ')}</p>
+                                    )}
+                                </div>
+                                <button onClick={() => startEdit(payer)} className="w-8 h-8 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-emerald-500 hover:text-white flex items-center justify-center" title="Edit">
+                                    <i className="fa-solid fa-pen text-xs"></i>
+                                </button>
+                                <button onClick={() => handleToggleActive(payer)} className="w-8 h-8 rounded-lg bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-amber-500 hover:text-white flex items-center justify-center" title={payer.isActive ? 'Retire' : 'Reactivate'}>
+                                    <i className={`fa-solid ${payer.isActive ? 'fa-box-archive' : 'fa-rotate-left'} text-xs`}></i>
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PayerRegistry;
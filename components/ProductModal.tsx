@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import { scanItemLabel } from '../services/LocalAIService';
-import { InventoryItem } from '../types';
+import { InventoryService } from '../services/InventoryService';
+import { InventoryItem, ItemCostHistoryEntry } from '../types';
 
 interface ProductModalProps {
   isOpen: boolean;
@@ -52,8 +54,28 @@ const ProductModal: React.FC<ProductModalProps> = ({ isOpen, onClose, onSave, in
     }
   }, [isOpen, initialData]);
 
+  const [costHistory, setCostHistory] = useState<ItemCostHistoryEntry[]>([]);
+
+  useEffect(() => {
+    if (!isOpen || !initialData?.id) {
+      setCostHistory([]);
+      return;
+    }
+    let cancelled = false;
+    InventoryService.fetchCostHistory(initialData.id)
+      .then(history => { if (!cancelled) setCostHistory(history); })
+      .catch(() => { if (!cancelled) setCostHistory([]); });
+    return () => { cancelled = true; };
+  }, [isOpen, initialData?.id]);
+
   if (!isOpen) return null;
 
+  const costTrend = costHistory.map(entry => ({
+    date: new Date(entry.recordedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+    cost: entry.newCost,
+    source: entry.source === 'ORDER_RECEIPT' ? 'Order receipt' : 'Manual edit'
+  }));
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onSave(formData);
@@ -187,6 +209,25 @@ const ProductModal: React.FC<ProductModalProps> = ({ isOpen, onClose, onSave, in
                 </div>
               </div>
 
+              {costTrend.length > 0 && (
+                <div>
+                  <p className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-2 ml-1">Average Cost History</p>
+                  <div className="h-32 w-full">
+                    <ResponsiveContainer width="100%" height="100%" minWidth={1} minHeight={1} debounce={300}>
+                      <LineChart data={costTrend} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                        <XAxis dataKey="date" tick={{ fill: '#64748b', fontSize: 10 }} axisLine={false} tickLine={false} />
+                        <YAxis width={48} tick={{ fill: '#64748b', fontSize: 10 }} axisLine={false} tickLine={false} tickFormatter={(v: number) => `$${v.toFixed(2)}`} />
+                        <Tooltip
+                          contentStyle={{ borderRadius: '1rem', border: 'none', boxShadow: '0 10px 30px rgba(0,0,0,0.1)' }}
+                          formatter={(value: number, _name, item) => [`$${value.toFixed(2)}`, item.payload.source]}
+                        />
+                        <Line type="stepAfter" dataKey="cost" stroke="#10b981" strokeWidth={2} dot={{ r: 2 }} />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pt-5 border-t border-slate-200 dark:border-slate-700">
                 <InputGroup label={t('lbl_min_alert')}>
                   <input
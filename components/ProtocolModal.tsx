@@ -1,11 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Protocol, ProtocolSeverity, ProtocolArea, ProtocolType, ProtocolTargetRole, ProtocolChecklist, ProtocolQuiz } from '../types';
+import { Protocol, ProtocolSeverity, ProtocolArea, ProtocolType, ProtocolTargetRole, ProtocolChecklist, ProtocolQuiz, ProtocolChange } from '../types';
 import { RichTextContent } from './RichTextContent';
 
 interface ProtocolModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (protocol: Partial<Protocol>) => Promise<void>;
+    onSave: (protocol: Partial<Protocol>, change?: ProtocolChange) => Promise<void>;
     initialData?: Protocol;
     t: (key: string) => string;
 }
@@ -25,9 +25,11 @@ const ProtocolModal: React.FC<ProtocolModalProps> = ({ isOpen, onClose, onSave,
         quizzes: []
     });
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [change, setChange] = useState<ProtocolChange>({ type: 'minor', note: '' });
 
     useEffect(() => {
         if (isOpen) {
+            setChange({ type: 'minor', note: '' });
             setFormData(initialData || {
                 title: '',
                 content: '',
@@ -71,7 +73,7 @@ const ProtocolModal: React.FC<ProtocolModalProps> = ({ isOpen, onClose, onSave,
         e.preventDefault();
         try {
             setIsSubmitting(true);
-            await onSave(formData);
+            await onSave(formData, initialData ? change : undefined);
         } finally {
             setIsSubmitting(false);
         }
@@ -393,6 +395,46 @@ const ProtocolModal: React.FC<ProtocolModalProps> = ({ isOpen, onClose, onSave,
                             </div>
                         </div>
 
+                        {/* Revision type (edits only) */}
+                        {initialData && (
+                            <div className="p-4 bg-slate-50 dark:bg-slate-800/30 border border-slate-200 dark:border-slate-700 rounded-2xl space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <h4 className="text-sm font-bold text-slate-800 dark:text-slate-200">Type of Change</h4>
+                                    <span className="text-xs font-bold text-slate-400">Currently v{initialData.version || 1}</span>
+                                </div>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                    <button
+                                        type="button"
+                                        onClick={() => setChange(prev => ({ ...prev, type: 'minor' }))}
+                                        className={`text-left p-3 rounded-xl border-2 transition-colors ${change.type === 'minor' ? 'border-medical-500 bg-white dark:bg-slate-900' : 'border-transparent bg-white/50 dark:bg-slate-900/40 hover:border-slate-200 dark:hover:border-slate-700'}`}
+                                    >
+                                        <p className="text-sm font-bold text-slate-900 dark:text-white">Minor edit</p>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Typos, formatting or wording that doesn't change what staff do. Existing signatures stay valid.</p>
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => setChange(prev => ({ ...prev, type: 'material' }))}
+                                        className={`text-left p-3 rounded-xl border-2 transition-colors ${change.type === 'material' ? 'border-orange-500 bg-white dark:bg-slate-900' : 'border-transparent bg-white/50 dark:bg-slate-900/40 hover:border-slate-200 dark:hover:border-slate-700'}`}
+                                    >
+                                        <p className="text-sm font-bold text-slate-900 dark:text-white">Material change</p>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                            {formData.requiresAcknowledgment
+                                                ? 'The procedure itself changed. Everyone in the target audience must sign again.'
+                                                : 'The procedure itself changed. Turn on Require Acknowledgment to collect new signatures.'}
+                                        </p>
+                                    </button>
+                                </div>
+                                <textarea
+                                    value={change.note}
+                                    onChange={e => setChange(prev => ({ ...prev, note: e.target.value }))}
+                                    required={change.type === 'material'}
+                                    rows={2}
+                                    className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-medical-500 focus:border-transparent transition-all outline-none"
+                                    placeholder={change.type === 'material' ? 'What changed and why (required, shown in the version history)' : 'What changed (optional)'}
+                                />
+                            </div>
+                        )}
+
                     </form>
                 </div>
 
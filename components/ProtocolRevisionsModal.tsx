@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Protocol, ProtocolChangeType, ProtocolRevision, User } from '../types';
+import { ProtocolService } from '../services/ProtocolService';
+import { diffLines, revisionFieldChanges } from '../utils/protocolRevisions';
+
+interface ProtocolRevisionsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    protocol?: Protocol;
+    allUsers: User[];
+}
+
+const changeBadge: Record<ProtocolChangeType, { label: string; className: string }> = {
+    initial: { label: 'Created', className: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300' },
+    minor: { label: 'Minor edit', className: 'bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-300' },
+    material: { label: 'Material change', className: 'bg-orange-100 text-orange-700 dark:bg-orange-500/20 dark:text-orange-300' }
+};
+
+const ProtocolRevisionsModal: React.FC<ProtocolRevisionsModalProps> = ({ isOpen, onClose, protocol, allUsers }) => {
+    const [revisions, setRevisions] = useState<ProtocolRevision[]>([]);
+    const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen || !protocol) return;
+        setIsLoading(true);
+        ProtocolService.getRevisions(protocol.id).then(fetched => {
+            setRevisions(fetched);
+            setSelectedVersion(fetched[0]?.version ?? null);
+            setIsLoading(false);
+        });
+    }, [isOpen, protocol?.id, protocol?.version]);
+
+    // Revisions come newest first, so the one before is the next entry
+    const selected = revisions.find(r => r.version === selectedVersion);
+    const previous = selected ? revisions.find(r => r.version < selected.version) : undefined;
+
+    const contentDiff = useMemo(() => (selected && previous ? diffLines(previous.content, selected.content) : []), [selected, previous]);
+    const fieldChanges = useMemo(() => (selected && previous ? revisionFieldChanges(previous, selected) : []), [selected, previous]);
+
+    if (!isOpen || !protocol) return null;
+
+    const authorName = (id?: string) => {
+        const author = allUsers.find(u => u.id === id);
+        return author ? author.username : 'Unknown';
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in">
+            <div className="bg-white dark:bg-[#1a2235] rounded-2xl w-full max-w-5xl shadow-2xl border border-slate-100 dark:border-slate-800 overflow-hidden flex flex-col max-h-[85vh] animate-scale-in">
+
+                {/* Header */}
+                <div className="px-6 py-5 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50/50 dark:bg-slate-800/20">
+                    <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-xl bg-medical-500/10 flex items-center justify-center text-medical-600 dark:text-medical-400">
+                            <i className="fa-solid fa-clock-rotate-left text-lg"></i>
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-slate-900 dark:text-white">Version history</h2>
+                            <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-1">
+                                {protocol.title} · v{protocol.version}
+                                {protocol.requiresAcknowledgment && ` · signatures from v${protocol.ackVersion} onward count`}
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 transition-colors">
+                        <i className="fa-solid fa-xmark"></i>
+                    </button>
+                </div>
+
+                {/* Body */}
+                <div className="flex flex-1 min-h-0">
+                    <div className="w-64 flex-shrink-0 border-r border-slate-100 dark:border-slate-800 overflow-y-auto custom-scrollbar p-3 space-y-2">
+                        {isLoading && <p className="text-sm text-slate-400 p-2">Loading…</p>}
+                        {!isLoading && revisions.length === 0 && <p className="text-sm text-slate-400 p-2">No history recorded yet.</p>}
+                        {revisions.map(rev => (
+                            <button
+                                key={rev.id}
+                                onClick={() => setSelectedVersion(rev.version)}
+                                className={`w-full text-left p-3 rounded-xl border transition-colors ${rev.version === selectedVersion ? 'border-medical-300 bg-medical-50 dark:border-medical-500/50 dark:bg-medical-500/10' : 'border-slate-100 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-800/40'}`}
+                            >
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-bold text-slate-900 dark:text-white">v{rev.version}</span>
+                                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded-md ${changeBadge[rev.changeType].className}`}>{changeBadge[rev.changeType].label}</span>
+                                </div>
+                                <p className="text-[11px] text-slate-500 dark:text-slate-400 mt-1">
+                                    {new Date(rev.createdAt).toLocaleDateString()} · {authorName(rev.createdBy)}
+                                </p>
+                                {rev.changeNote && <p className="text-xs text-slate-600 dark:text-slate-300 mt-1 line-clamp-2">{rev.changeNote}</p>}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+                        {selected && !previous && (
+                            <>
+                                <p className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">First version</p>
+                                <pre className="whitespace-pre-wrap font-sans text-sm text-slate-700 dark:text-slate-300">{selected.content}</pre>
+                            </>
+                        )}
+
+                        {selected && previous && (
+                            <>
+                                <p className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-3">Changes from v{previous.version} to v{selected.version}</p>
+
+                                {fieldChanges.length > 0 && (
+                                    <div className="mb-4 rounded-xl border border-slate-100 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800">
+                                        {fieldChanges.map(change => (
+                                            <div key={change.label} className="px-4 py-2 text-sm flex flex-wrap gap-2">
+                                                <span className="font-bold text-slate-700 dark:text-slate-200 w-36">{change.label}</span>
+                                                <span className="text-red-600 dark:text-red-400 line-through">{change.before}</span>
+                                                <i className="fa-solid fa-arrow-right text-slate-400 text-xs self-center"></i>
+                                                <span className="text-emerald-600 dark:text-emerald-400">{change.after}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <div className="rounded-xl border border-slate-100 dark:border-slate-800 overflow-hidden font-mono text-xs">
+                                    {contentDiff.map((line, i) => (
+                                        <div
+                                            key={i}
+                                            className={`px-3 py-0.5 whitespace-pre-wrap ${line.kind === 'added' ? 'bg-emerald-50 text-emerald-800 dark:bg-emerald-500/10 dark:text-emerald-300' : line.kind === 'removed' ? 'bg-red-50 text-red-800 dark:bg-red-500/10 dark:text-red-300' : 'text-slate-600 dark:text-slate-400'}`}
+                                        >
+                                            <span className="select-none mr-2 opacity-60">{line.kind === 'added' ? '+' : line.kind === 'removed' ? '−' : ' '}</span>
+                                            {line.text || ' '}
+                                        </div>
+                                    ))}
+                                </div>
+                                {contentDiff.every(line => line.kind === 'same') && (
+                                    <p className="text-xs text-slate-400 mt-2">The protocol text itself did not change.</p>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProtocolRevisionsModal;
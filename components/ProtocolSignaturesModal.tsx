@@ -1,44 +1,44 @@
 import React, { useMemo } from 'react';
-import { Protocol } from '../types';
+import { Protocol, ProtocolAcknowledgment, User } from '../types';
+import { protocolAudience, isSignatureCurrent, latestSignature } from '../utils/protocolRevisions';
 
 interface UserSignature {
     id: string;
     name: string;
     role: string;
     signedAt?: string;
+    signedVersion?: number;
+    isCurrent: boolean; // Signed on or after the last material change
 }
 
 interface ProtocolSignaturesModalProps {
     isOpen: boolean;
     onClose: () => void;
     protocol?: Protocol;
-    allUsers: any[];
-    acknowledgments: any[];
+    allUsers: User[];
+    acknowledgments: ProtocolAcknowledgment[];
     t: (key: string) => string;
 }
 
 const ProtocolSignaturesModal: React.FC<ProtocolSignaturesModalProps> = ({ isOpen, onClose, protocol, allUsers, acknowledgments, t }) => {
 
-    const signaturesData = useMemo(() => {
-        if (!protocol || !protocol.requires_acknowledgment) return [];
+    const signaturesData = useMemo((): UserSignature[] => {
+        if (!protocol || !protocol.requiresAcknowledgment) return [];
 
-        // Filter acknowledgments for this specific protocol
-        const protocolAcks = acknowledgments.filter(ack => ack.protocolId === protocol.id);
-        const signedUserIds = new Set(protocolAcks.map(ack => ack.userId));
-
-        // Create a definitive list combining all users and indicating their sign status
-        return allUsers.map(u => {
-            const ack = protocolAcks.find(a => a.userId === u.id);
+        // Everyone in the target audience with their newest signature, if any
+        return protocolAudience(allUsers, protocol.targetRole).map(u => {
+            const ack = latestSignature(acknowledgments, protocol.id, u.id);
             return {
                 id: u.id,
                 name: u.username || u.email || 'Unknown User',
                 role: u.role || 'Staff',
-                signedAt: ack ? ack.acknowledgedAt : undefined
+                signedAt: ack ? ack.acknowledgedAt : undefined,
+                signedVersion: ack ? ack.version : undefined,
+                isCurrent: !!ack && isSignatureCurrent(ack, protocol)
             };
         }).sort((a, b) => {
-            // Unsigned first, then alphabetical by name
-            if (a.signedAt && !b.signedAt) return 1;
-            if (!a.signedAt && b.signedAt) return -1;
+            // Outstanding first, then alphabetical by name
+            if (a.isCurrent !== b.isCurrent) return a.isCurrent ? 1 : -1;
             return a.name.localeCompare(b.name);
         });
 
@@ -46,7 +46,7 @@ const ProtocolSignaturesModal: React.FC<ProtocolSignaturesModalProps> = ({ isOpe
 
     if (!isOpen || !protocol) return null;
 
-    const signedCount = signaturesData.filter(s => s.signedAt).length;
+    const signedCount = signaturesData.filter(s => s.isCurrent).length;
     const totalCount = signaturesData.length;
     const progress = totalCount > 0 ? Math.round((signedCount / totalCount) * 100) : 0;
 
@@ -62,7 +62,10 @@ const ProtocolSignaturesModal: React.FC<ProtocolSignaturesModalProps> = ({ isOpe
                         </div>
                         <div>
                             <h2 className="text-xl font-bold text-slate-900 dark:text-white">Signatures tracking</h2>
-                            <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-1">{protocol.title}</p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400 line-clamp-1">
+                                {protocol.title} · v{protocol.version}
+                                {protocol.ackVersion > 1 && ` · re-signing required since v${protocol.ackVersion}`}
+                            </p>
                         </div>
                     </div>
                     <button onClick={onClose} className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-500 transition-colors">
@@ -90,9 +93,9 @@ const ProtocolSignaturesModal: React.FC<ProtocolSignaturesModalProps> = ({ isOpe
                     {/* List */}
                     <div className="flex-1 overflow-y-auto custom-scrollbar pr-2 space-y-3">
                         {signaturesData.map(userSign => (
-                            <div key={userSign.id} className={`flex items-center justify-between p-3 rounded-2xl border ${userSign.signedAt ? 'bg-slate-50 dark:bg-slate-800/20 border-slate-100 dark:border-slate-800' : 'bg-orange-50 dark:bg-orange-500/5 border-orange-200 dark:border-orange-500/20 shadow-sm'}`}>
+                            <div key={userSign.id} className={`flex items-center justify-between p-3 rounded-2xl border ${userSign.isCurrent ? 'bg-slate-50 dark:bg-slate-800/20 border-slate-100 dark:border-slate-800' : 'bg-orange-50 dark:bg-orange-500/5 border-orange-200 dark:border-orange-500/20 shadow-sm'}`}>
                                 <div className="flex items-center gap-4">
-                                    <div className={`w-10 h-10 rounded-full flex items-center justify-center font-bold text-sm ${userSign.signedAt ? 'bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-400' : 'bg-orange-200 text-orange-700 dark:bg-orange-500/20 dark:text-orange-400'}`}>
+                                    <div className={`w-10 h-10 rounded-full flex items-center justify-center font-bold text-sm ${userSign.isCurrent ? 'bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-400' : 'bg-orange-200 text-orange-700 dark:bg-orange-500/20 dark:text-orange-400'}`}>
                                         {userSign.name.substring(0, 2).toUpperCase()}
                                     </div>
                                     <div>
@@ -103,7 +106,11 @@ const ProtocolSignaturesModal: React.FC<ProtocolSignaturesModalProps> = ({ isOpe
                                 <div className="text-right">
                                     {userSign.signedAt ? (
                                         <div className="flex flex-col items-end">
-                                            <span className="text-xs font-bold text-emerald-600 dark:text-emerald-400 bg-emerald-100 dark:bg-emerald-500/20 px-2 py-1 rounded-md mb-1"><i className="fa-solid fa-check mr-1"></i> Signed</span>
+                                            {userSign.isCurrent ? (
+                                                <span className="text-xs font-bold text-emerald-600 dark:text-emerald-400 bg-emerald-100 dark:bg-emerald-500/20 px-2 py-1 rounded-md mb-1"><i className="fa-solid fa-check mr-1"></i> Signed v{userSign.signedVersion}</span>
+                                            ) : (
+                                                <span className="text-xs font-bold text-orange-600 dark:text-orange-400 bg-orange-100 dark:bg-orange-500/20 px-2 py-1 rounded-md mb-1"><i className="fa-solid fa-rotate mr-1"></i> Signed v{userSign.signedVersion} · needs v{protocol.version}</span>
+                                            )}
                                             <span className="text-[10px] text-slate-400">{new Date(userSign.signedAt).toLocaleDateString()} {new Date(userSign.signedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
                                         </div>
                                     ) : (
@@ -116,7 +123,7 @@ const ProtocolSignaturesModal: React.FC<ProtocolSignaturesModalProps> = ({ isOpe
                         {signaturesData.length === 0 && (
                             <div className="text-center py-8 text-slate-500">
                                 <i className="fa-solid fa-ghost text-4xl mb-3 opacity-20"></i>
-                                <p>No users found in the system to track.</p>
+                                <p>No staff in this protocol's target audience.</p>
                             </div>
                         )}
                     </div>
@@ -1,12 +1,15 @@
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { User, Protocol, ProtocolSeverity, ProtocolArea, ProtocolType } from '../types';
+import { User, Protocol, ProtocolSeverity, ProtocolArea, ProtocolType, ProtocolAcknowledgment, ProtocolChange } from '../types';
 import { useAppData } from '../contexts/AppDataContext';
 import { useAuth } from '../contexts/AuthContext';
 import { ProtocolService } from '../services/ProtocolService';
+import { SemanticSearchService } from '../services/SemanticSearchService';
 import { supabase } from '../src/lib/supabase';
 import ProtocolModal from './ProtocolModal';
 import ProtocolSignaturesModal from './ProtocolSignaturesModal';
+import ProtocolRevisionsModal from './ProtocolRevisionsModal';
 import { RichTextContent } from './RichTextContent';
+import { protocolAudience, isSignatureCurrent } from '../utils/protocolRevisions';
 
 interface ProtocolsProps {
     user: User | null;
@@ -22,6 +25,9 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
     const isManager = hasPermission('protocols.manage');
 
     const [searchTerm, setSearchTerm] = useState('');
+    // Protocol id → similarity, from the embedding index
+    const [semanticScores, setSemanticScores] = useState<Map<string, number>>(new Map());
+    const [isSemanticSearching, setIsSemanticSearching] = useState(false);
     const [selectedArea, setSelectedArea] = useState<ProtocolArea | 'ALL'>('ALL');
     const [selectedType, setSelectedType] = useState<ProtocolType | 'ALL'>('ALL');
     const [selectedSeverity, setSelectedSeverity] = useState<ProtocolSeverity | 'ALL'>('ALL');
@@ -43,12 +49,16 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
         setExpandedFolders(prev => ({ ...prev, [folder]: !prev[folder] }));
     };
 
-    // Acknowledgments sync state
-    const [myAcknowledgments, setMyAcknowledgments] = useState<Record<string, boolean>>({});
-    const [allAcknowledgments, setAllAcknowledgments] = useState<any[]>([]);
+    // Acknowledgments sync state: protocol id → newest version I signed
+    const [myAcknowledgments, setMyAcknowledgments] = useState<Record<string, number>>({});
+    const [allAcknowledgments, setAllAcknowledgments] = useState<ProtocolAcknowledgment[]>([]);
     const [loadingAcks, setLoadingAcks] = useState(true);
 
     const [viewingSignaturesFor, setViewingSignaturesFor] = useState<Protocol | undefined>(undefined);
+    const [viewingHistoryFor, setViewingHistoryFor] = useState<Protocol | undefined>(undefined);
+
+    // Signed at or after the protocol's last material change
+    const hasSignedCurrent = (protocol: Protocol) => (myAcknowledgments[protocol.id] || 0) >= protocol.ackVersion;
 
     // Interactive Checklists & Quizzes UX State
     const [checklistStates, setChecklistStates] = useState<Record<string, Record<string, boolean>>>({});
@@ -102,7 +112,7 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
         }
 
         // Passed!
-        await handleAcknowledge(protocol.id);
+        await handleAcknowledge(protocol);
     };
 
     useEffect(() => {
@@ -113,8 +123,8 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
                 setAllAcknowledgments(acks);
 
                 const myAcks = acks.filter(a => a.userId === user.id);
-                const ackMap: Record<string, boolean> = {};
-                myAcks.forEach(a => ackMap[a.protocolId] = true);
+                const ackMap: Record<string, number> = {};
+                myAcks.forEach(a => ackMap[a.protocolId] = Math.max(ackMap[a.protocolId] || 0, a.version));
                 setMyAcknowledgments(ackMap);
             } catch (e) {
                 console.error("Failed to fetch acknowledgments", e);
@@ -138,18 +148,10 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
     const isProtocolFullyAcknowledged = useCallback((protocol: Protocol) => {
         if (!protocol.requiresAcknowledgment) return true;
 
-        const protocolAcks = allAcknowledgments.filter(a => a.protocolId === protocol.id);
+        const protocolAcks = allAcknowledgments.filter(a => a.protocolId === protocol.id && isSignatureCurrent(a, protocol));
         const signedIds = new Set(protocolAcks.map(a => a.userId));
 
-        let targetUsers = users;
-        if (protocol.targetRole === 'MEDICAL_ONLY') {
-            targetUsers = users.filter(u => u.role === 'MA' || u.role === 'DOCTOR');
-        } else if (protocol.targetRole === 'FRONT_DESK_ONLY') {
-            targetUsers = users.filter(u => u.role === 'FRONT_DESK');
-        } else {
-            // ALL_STAFF -> exclude owner/manager from being forced to sign, just the operational staff
-            targetUsers = users.filter(u => u.role === 'MA' || u.role === 'FRONT_DESK' || u.role === 'DOCTOR');
-        }
+        const targetUsers = protocolAudience(users, protocol.targetRole);
 
         if (targetUsers.length === 0) return true;
         return targetUsers.every(u => signedIds.has(u.id));
@@ -173,6 +175,25 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
         return () => { isMounted = false; };
     }, [protocols.length, setProtocols]);
 
+    // Meaning-based matches ("needlestick" → exposure protocol), debounced
+    useEffect(() => {
+        const term = searchTerm.trim();
+        if (term.length < 3) {
+            setSemanticScores(new Map());
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            setIsSemanticSearching(true);
+            const hits = await SemanticSearchService.search(term, ['protocol'], 10);
+            if (!cancelled) {
+                setSemanticScores(new Map(hits.map(h => [h.id, h.score])));
+                setIsSemanticSearching(false);
+            }
+        }, 400);
+        return () => { cancelled = true; clearTimeout(timer); };
+    }, [searchTerm]);
+
     // Data filtering with "Advanced Smart Search"
     const filteredProtocols = useMemo(() => {
         let result = protocols;
@@ -183,10 +204,14 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
 
         if (searchTerm) {
             const term = searchTerm.toLowerCase();
-            result = result.filter(p =>
-                p.title.toLowerCase().includes(term) ||
-                p.content.toLowerCase().includes(term)
-            );
+            const isTextMatch = (p: Protocol) => p.title.toLowerCase().includes(term) || p.content.toLowerCase().includes(term);
+            result = result.filter(p => isTextMatch(p) || semanticScores.has(p.id));
+
+            // While searching, rank by relevance instead of severity
+            if (semanticScores.size > 0) {
+                const relevance = (p: Protocol) => (semanticScores.get(p.id) || 0) + (isTextMatch(p) ? 0.5 : 0);
+                return [...result].sort((a, b) => relevance(b) - relevance(a));
+            }
         }
 
         // Sort by severity (CRITICAL first) then by date
@@ -200,11 +225,11 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
             const db = new Date(b.updatedAt).getTime() || 0;
             return db - da;
         });
-    }, [protocols, searchTerm, selectedArea, selectedType, selectedSeverity]);
+    }, [protocols, searchTerm, semanticScores, selectedArea, selectedType, selectedSeverity]);
 
     const unreadCriticals = useMemo(() => {
         if (loadingAcks) return [];
-        return protocols.filter(p => p.requiresAcknowledgment && !myAcknowledgments[p.id] && isUserInTargetAudience(p));
+        return protocols.filter(p => p.requiresAcknowledgment && !hasSignedCurrent(p) && isUserInTargetAudience(p));
     }, [protocols, myAcknowledgments, loadingAcks, user]);
 
     // NEW Gamification / Compliance metrics
@@ -213,7 +238,7 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
         const total = required.length;
         if (total === 0) return { total: 0, signed: 0, percentage: 100 };
         
-        const signed = required.filter(p => myAcknowledgments[p.id]).length;
+        const signed = required.filter(p => hasSignedCurrent(p)).length;
         return { total, signed, percentage: Math.round((signed / total) * 100) };
     }, [protocols, myAcknowledgments, user]);
 
@@ -229,17 +254,17 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
 
 
 
-    const handleSaveProtocol = async (data: Partial<Protocol>) => {
+    const handleSaveProtocol = async (data: Partial<Protocol>, change?: ProtocolChange) => {
         try {
             if (editingProtocol) {
-                const updated = await ProtocolService.updateProtocol(editingProtocol.id, data);
+                const updated = await ProtocolService.updateProtocol(editingProtocol.id, data, change);
                 if (updated) {
                     setProtocols(prev => prev.map(p => p.id === updated.id ? updated : p));
                 } else {
                     throw new Error('Failed to update protocol');
                 }
             } else {
-                const created = await ProtocolService.createProtocol(data as Omit<Protocol, 'id' | 'createdAt' | 'updatedAt' | 'createdBy'>);
+                const created = await ProtocolService.createProtocol(data as Omit<Protocol, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'version' | 'ackVersion'>);
                 if (created) {
                     setProtocols(prev => [created, ...prev]);
                 } else {
@@ -261,13 +286,14 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
         }
     };
 
-    const handleAcknowledge = async (id: string, e?: React.MouseEvent) => {
+    const handleAcknowledge = async (protocol: Protocol, e?: React.MouseEvent) => {
         e?.stopPropagation(); // Prevent accordion expansion
         if (!user?.id) return;
-        const success = await ProtocolService.acknowledgeProtocol(id, user.id);
+        const { id, version } = protocol;
+        const success = await ProtocolService.acknowledgeProtocol(id, user.id, version);
         if (success) {
-            setMyAcknowledgments(prev => ({ ...prev, [id]: true }));
-            setAllAcknowledgments(prev => [...prev, { protocolId: id, userId: user.id, acknowledgedAt: new Date().toISOString() }]);
+            setMyAcknowledgments(prev => ({ ...prev, [id]: version }));
+            setAllAcknowledgments(prev => [...prev, { protocolId: id, userId: user.id, acknowledgedAt: new Date().toISOString(), version }]);
         }
     };
 
@@ -338,7 +364,9 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
     };
 
     const renderProtocolCard = (protocol: Protocol) => {
-        const isUnread = protocol.requiresAcknowledgment && !myAcknowledgments[protocol.id] && isUserInTargetAudience(protocol);
+        const isUnread = protocol.requiresAcknowledgment && !hasSignedCurrent(protocol) && isUserInTargetAudience(protocol);
+        // Signed before the last material change
+        const needsResign = isUnread && !!myAcknowledgments[protocol.id];
         const isExpanded = expandedCardId === protocol.id;
         const isCurrentlyPinned = protocol.isPinned && !isProtocolFullyAcknowledged(protocol);
 
@@ -511,6 +539,7 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
                         <div className="px-5 py-4 bg-slate-50 border-t border-slate-100 dark:bg-slate-800/50 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
                             <div className="text-xs font-medium text-slate-500 flex items-center gap-3">
                                 <span>Updated: {safeDate}</span>
+                                <span>v{protocol.version}</span>
                                 {protocol.targetRole && protocol.targetRole !== 'ALL_STAFF' && (
                                     <span className="px-2 py-0.5 rounded bg-medical-100 text-medical-700 dark:bg-medical-500/20 dark:text-medical-400">
                                         Target: {protocol.targetRole.replace('_', ' ')}
@@ -527,6 +556,12 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
                                     <i className="fa-solid fa-print"></i>
                                 </button>
 
+                                {protocol.version > 1 && (
+                                    <button onClick={(e) => { e.stopPropagation(); setViewingHistoryFor(protocol); }} className="px-3 py-2 rounded-xl text-sm font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 hover:text-medical-600 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-300 transition-colors shadow-sm" title="Version history">
+                                        <i className="fa-solid fa-clock-rotate-left"></i> History
+                                    </button>
+                                )}
+
                                 {isManager && (
                                     <>
                                         {protocol.requiresAcknowledgment && (
@@ -549,7 +584,7 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
                                             onClick={(e) => attemptAcknowledgeWithQuiz(protocol, e)}
                                             className="ml-auto px-5 py-2 bg-orange-500 hover:bg-orange-600 text-white rounded-xl text-sm font-bold shadow-lg shadow-orange-500/30 transition-all flex items-center gap-2"
                                         >
-                                            <i className="fa-solid fa-signature animate-bounce-subtle"></i> Sign & Acknowledge
+                                            <i className="fa-solid fa-signature animate-bounce-subtle"></i> {needsResign ? `Updated: Sign v${protocol.version}` : 'Sign & Acknowledge'}
                                         </button>
                                     ) : (
                                         <span className="ml-auto flex items-center gap-2 text-sm font-bold text-emerald-600 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-500/10 border border-emerald-200 dark:border-emerald-500/20 px-4 py-2 rounded-xl">
@@ -711,7 +746,7 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
                     {/* Deep Text Search */}
                     <div className="flex-1 relative">
                         <div className="absolute inset-y-0 left-4 flex items-center pointer-events-none">
-                            <i className="fa-solid fa-robot text-medical-500"></i>
+                            <i className={`fa-solid ${isSemanticSearching ? 'fa-circle-notch animate-spin' : 'fa-robot'} text-medical-500`}></i>
                         </div>
                         <input
                             type="text"
@@ -823,6 +858,13 @@ const Protocols: React.FC<ProtocolsProps> = ({ user, users = [], t }) => {
                 acknowledgments={allAcknowledgments}
                 t={t}
             />
+
+            <ProtocolRevisionsModal
+                isOpen={!!viewingHistoryFor}
+                onClose={() => setViewingHistoryFor(undefined)}
+                protocol={viewingHistoryFor}
+                allUsers={users}
+            />
         </div>
     );
 };
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { Order, OrderItem, OrderShipmentLine } from '../types';
+import { getOutstandingQuantity } from '../utils/receivingUtils';
+
+interface ReceiveOrderModalProps {
+    order: Order | null;
+    onClose: () => void;
+    onConfirm: (order: Order, lines: OrderShipmentLine[]) => void;
+    suggestedQuantities?: Record<string, number>; // From an approved invoice match, by order line
+    t: (key: string) => string;
+}
+
+interface ReceivingLine {
+    item: OrderItem;
+    outstanding: number;
+    receiving: number;
+    lotNumber: string;
+    expiryDate: string;
+}
+
+// Captures what actually arrived in this shipment, with lot number and expiry
+// per line. Anything not received stays on back-order.
+const ReceiveOrderModal: React.FC<ReceiveOrderModalProps> = ({ order, onClose, onConfirm, suggestedQuantities, t }) => {
+    const [lines, setLines] = useState<ReceivingLine[]>([]);
+
+    useEffect(() => {
+        setLines(order
+            ? order.items
+                .filter(i => getOutstandingQuantity(i) > 0)
+                .map(i => ({
+                    item: i,
+                    outstanding: getOutstandingQuantity(i),
+                    receiving: Math.min(getOutstandingQuantity(i), suggestedQuantities?.[i.id] ?? getOutstandingQuantity(i)),
+                    lotNumber: '',
+                    expiryDate: ''
+                }))
+            : []);
+    }, [order, suggestedQuantities]);
+
+    if (!order) return null;
+
+    const updateLine = (idx: number, patch: Partial<ReceivingLine>) => {
+        setLines(prev => prev.map((l, i) => i === idx ? { ...l, ...patch } : l));
+    };
+
+    const receivingLines = lines.filter(l => l.receiving > 0);
+    const backorderCount = lines.filter(l => l.receiving < l.outstanding).length;
+
+    const handleConfirm = () => {
+        if (receivingLines.length === 0) return;
+        onConfirm(order, receivingLines.map(l => ({
+            orderItemId: l.item.id,
+            itemId: l.item.inventoryItemId,
+            quantity: l.receiving,
+            unitsPerPackage: l.item.unitsPerPackage || 1,
+            lotNumber: l.lotNumber || undefined,
+            expiryDate: l.expiryDate || undefined
+        })));
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/80 backdrop-blur-xl p-4 animate-fade-in">
+            <div className="w-full max-w-3xl max-h-[90vh] bg-white dark:bg-[#0c1511] rounded-2xl shadow-2xl border border-white/20 dark:border-slate-800 overflow-hidden flex flex-col">
+
+                {/* Header */}
+                <div className="p-6 bg-gradient-to-br from-emerald-50 to-slate-50 dark:from-emerald-900/20 dark:to-slate-900 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                            <i className="fa-solid fa-box-open text-emerald-500"></i>
+                            {t('btn_receive')}
+                        </h2>
+                        <div className="text-sm font-mono text-slate-500 dark:text-slate-400 mt-1">{order.vendor} · {order.poNumber}</div>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="w-10 h-10 rounded-xl bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm shadow-md flex items-center justify-center hover:bg-red-50 hover:text-red-500 transition-all"
+                    >
+                        <i className="fa-solid fa-xmark text-base"></i>
+                    </button>
+                </div>
+
+                {/* Lines */}
+                <div className="flex-1 overflow-y-auto p-6 space-y-3 custom-scrollbar">
+                    <p className="text-xs text-slate-500">
+                        Enter what arrived in this shipment. Anything short stays on back-order. Record the lot number and expiration printed on each package — lots are consumed first-expired, first-out.
+                    </p>
+                    {lines.map((line, idx) => (
+                        <div key={line.item.id || idx} className={`p-4 rounded-2xl bg-white dark:bg-slate-800/80 border shadow-sm ${line.receiving < line.outstanding ? 'border-amber-200 dark:border-amber-800/50' : 'border-slate-100 dark:border-slate-700'}`}>
+                            <div className="flex items-start justify-between gap-4">
+                                <div>
+                                    <h4 className="font-bold text-slate-900 dark:text-white text-sm">{line.item.name}</h4>
+                                    <div className="text-xs text-slate-500 mt-0.5">
+                                        Ordered {line.item.quantity} · Received {line.item.quantityReceived || 0} · Outstanding {line.outstanding}
+                                    </div>
+                                </div>
+                                <span className="text-xs font-bold text-slate-500 whitespace-nowrap">
+                                    {line.receiving * (line.item.unitsPerPackage || 1)} units
+                                </span>
+                            </div>
+                            <div className="grid grid-cols-3 gap-3 mt-3">
+                                <label className="block">
+                                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Receiving</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={line.outstanding}
+                                        value={line.receiving}
+                                        onChange={(e) => updateLine(idx, { receiving: Math.min(line.outstanding, Math.max(0, Number(e.target.value) || 0)) })}
+                                        className="mt-1 w-full h-9 px-3 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                                    />
+                                </label>
+                                <label className="block">
+                                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Lot #</span>
+                                    <input
+                                        type="text"
+                                        value={line.lotNumber}
+                                        onChange={(e) => updateLine(idx, { lotNumber: e.target.value })}
+                                        placeholder={`ORDER-${order.poNumber}`}
+                                        className="mt-1 w-full h-9 px-3 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                                    />
+                                </label>
+                                <label className="block">
+                                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Expiration</span>
+                                    <input
+                                        type="date"
+                                        value={line.expiryDate}
+                                        onChange={(e) => updateLine(idx, { expiryDate: e.target.value })}
+                                        className="mt-1 w-full h-9 px-3 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500"
+                                    />
+                                </label>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Footer */}
+                <div className="p-6 border-t border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/50 flex items-center justify-end gap-3">
+                    {backorderCount > 0 && (
+                        <span className="mr-auto text-xs font-bold text-amber-600 dark:text-amber-400">
+                            <i className="fa-solid fa-clock-rotate-left mr-1.5"></i>
+                            {backorderCount} line(s) will stay on back-order
+                        </span>
+                    )}
+                    <button
+                        onClick={onClose}
+                        className="px-5 py-2.5 rounded-xl text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={receivingLines.length === 0}
+                        className="px-5 py-2.5 rounded-xl text-sm font-bold bg-emerald-500 text-white hover:bg-emerald-600 shadow-lg shadow-emerald-500/30 transition-all disabled:opacity-50"
+                    >
+                        <i className="fa-solid fa-check mr-2"></i>{t('btn_receive')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ReceiveOrderModal;
@@ -6,6 +6,8 @@ import { UserRole, Permission, User } from '../types';
 import { formatDate, formatDateForFilename } from '../utils/dateUtils';
 import { DailyReportService } from '../services/DailyReportService';
 import { UserService } from '../services/UserService';
+import { useAppData } from '../contexts/AppDataContext';
+import { payerReportLabel } from '../utils/payers';
 
 interface ReportHistoryProps {
     reports: DailyReport[];
@@ -26,6 +28,7 @@ const AggregateReportDocument: React.FC<{
     generatedBy: string;
     usersMap: Record<string, string>;
 }> = ({ data, period, reportCount, generatedBy, usersMap }) => {
+    const { payers } = useAppData();
 
     const formatCurrency = (val: number) => `$${val.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
@@ -179,7 +182,7 @@ const AggregateReportDocument: React.FC<{
                             <tbody>
                                 {Object.entries(data.insurances).sort((a,b) => (b[1] as number) - (a[1] as number)).map(([k, v]) => (
                                     <tr key={k} className="border-b border-slate-100 border-dashed">
-                                        <td className="py-2 text-slate-600 capitalize pl-1">{k.replace(/_/g, ' ').replace('Comp', ' Comp')}</td>
+                                        <td className="py-2 text-slate-600 pl-1">{payerReportLabel(payers, k)}</td>
                                         <td className="py-2 text-right">{renderBar(v as number, tP, '#f59e0b')}</td>
                                         <td className="py-2 text-right font-bold text-slate-900 w-12">{v as number}</td>
                                     </tr>
@@ -341,7 +344,7 @@ const ReportHistory: React.FC<ReportHistoryProps> = ({ reports, user, onEditRepo
     const aggregatedData = useMemo(() => {
         const initial = {
             financials: { methods: { cash: 0, credit: 0, check: 0 }, types: { billPay: 0, copay: 0, selfPay: 0 } },
-            insurances: { medicaid: 0, bcbs_il: 0, meridian: 0, commercial: 0, medicare: 0, workersComp: 0, selfPay: 0 },
+            insurances: {} as Record<string, number>, // Every payer key any report in the period used
             operational: { nurseVisits: 0, providerVisits: {} as Record<string, number> },
             stats: { newPts: 0, estPts: 0, xrays: 0 },
             totals: { revenue: 0, patients: 0 }
@@ -357,9 +360,8 @@ const ReportHistory: React.FC<ReportHistoryProps> = ({ reports, user, onEditRepo
             acc.financials.types.selfPay += report.financials.types.selfPay || 0;
 
             // Insurances
-            Object.keys(acc.insurances).forEach(k => {
-                const key = k as keyof typeof acc.insurances;
-                acc.insurances[key] += report.insurances[key] || 0;
+            Object.entries(report.insurances || {}).forEach(([key, count]) => {
+                acc.insurances[key] = (acc.insurances[key] || 0) + (count || 0);
             });
 
             // Operational
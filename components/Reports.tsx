@@ -1,23 +1,26 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { InventoryItem, ActivityLog, Permission, AppRoute, User, UserRole } from '../types';
+import { InventoryItem, ActivityLog, AuditChainVerification, Permission, AppRoute, User, UserRole } from '../types';
 import { InventoryReportDocument } from './InventoryReportDocument';
+import { getExpiringLots } from '../utils/lotUtils';
+import { ActivityLogService } from '../services/ActivityLogService';
 
 interface ReportsProps {
   inventory: InventoryItem[];
   logs: ActivityLog[];
+  legacyLogs?: ActivityLog[]; // Browser-only entries from before the server trail; not chained
   user: User;
   t: (key: string) => string;
   hasPermission?: (permission: Permission) => boolean;
   onNavigate?: (route: AppRoute) => void;
-  onUpdateLog?: (id: string, details: string) => void;
-  onDeleteLog?: (id: string) => void;
   initialTab?: string; // Deep linking support
 }
 
-const Reports: React.FC<ReportsProps> = ({ inventory, logs, user, t, hasPermission, onNavigate, onUpdateLog, onDeleteLog, initialTab }) => {
+const Reports: React.FC<ReportsProps> = ({ inventory, logs, legacyLogs = [], user, t, hasPermission, onNavigate, initialTab }) => {
   const [activeTab, setActiveTab] = useState<'alerts' | 'history' | 'expiring'>('alerts');
-  const [editingLogId, setEditingLogId] = useState<string | null>(null);
-  const [editLogDetails, setEditLogDetails] = useState<string>('');
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
 
   // PDF Report States
   const [isExporting, setIsExporting] = useState(false);
@@ -39,15 +42,8 @@ const Reports: React.FC<ReportsProps> = ({ inventory, logs, user, t, hasPermissi
   // Logic: Low Stock
   const lowStockItems = inventory.filter(item => item.stock <= item.minStock);
 
-  // Logic: Expiring Soon (30 Days) + Already Expired
-  const expiringItems = inventory.filter(item => {
-    if (!item.expiryDate) return false;
-    const today = new Date();
-    const expDate = new Date(item.expiryDate);
-    const diffTime = expDate.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays <= 30; // Include all items that will expire in <30 days OR already expired
-  }).sort((a, b) => new Date(a.expiryDate).getTime() - new Date(b.expiryDate).getTime());
+  // Logic: Expiring Soon (30 Days) + Already Expired, one row per lot
+  const expiringItems = getExpiringLots(inventory, 30);
 
   const getActionColor = (action: string) => {
     switch (action) {
@@ -62,19 +58,34 @@ const Reports: React.FC<ReportsProps> = ({ inventory, logs, user, t, hasPermissi
     }
   };
 
-  const getDaysRemaining = (dateStr: string) => {
-    const today = new Date();
-    const exp = new Date(dateStr);
-    const diffTime = exp.getTime() - today.getTime();
-    return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  };
-
   // Filtered Logs for History and Export
   const filteredLogs = logs.filter(log => {
     const logDate = new Date(log.timestamp).toISOString().split('T')[0];
     return logDate >= startDate && logDate <= endDate;
   });
 
+  const filteredLegacyLogs = legacyLogs.filter(log => {
+    const logDate = new Date(log.timestamp).toISOString().split('T')[0];
+    return logDate >= startDate && logDate <= endDate;
+  });
+
+  // The trail is append-only; integrity is checked by re-hashing it on the server
+  const verifyTrail = async () => {
+    setIsVerifying(true);
+    setVerifyError(null);
+    try {
+      setVerification(await ActivityLogService.verifyChain());
+    } catch (e: any) {
+      setVerification(null);
+      setVerifyError(e.message);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const formatValue = (value: unknown) =>
+    value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
   const generatePDF = () => {
     if (!reportRef.current || !(window as any).html2pdf) {
       alert("PDF generator not ready. Please wait.");
@@ -210,8 +221,29 @@ const Reports: React.FC<ReportsProps> = ({ inventory, logs, user, t, hasPermissi
         <div className="text-sm text-slate-500 px-4">
           Showing <span className="font-bold text-slate-900 dark:text-white">{filteredLogs.length}</span> actions
         </div>
+        {activeTab === 'history' && (user.role === UserRole.OWNER || user.role === UserRole.MANAGER) && (
+          <button
+            onClick={verifyTrail}
+            disabled={isVerifying}
+            className="h-11 px-5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl font-semibold text-sm transition-all flex items-center gap-2 disabled:opacity-50"
+          >
+            <i className={`fa-solid ${isVerifying ? 'fa-circle-notch animate-spin' : 'fa-shield-halved'}`}></i>
+            Verify Integrity
+          </button>
+        )}
       </div>
 
+      {activeTab === 'history' && (verification || verifyError) && (
+        <div className={`p-4 rounded-2xl text-sm font-bold flex items-center gap-3 ${verification?.valid ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-400' : 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400'}`}>
+          <i className={`fa-solid ${verification?.valid ? 'fa-circle-check' : 'fa-triangle-exclamation'}`}></i>
+          {verifyError
+            ? `Could not verify the audit trail: ${verifyError}`
+            : verification!.valid
+              ? `Audit trail intact — ${verification!.checked} entries verified.`
+              : `Audit trail broken at entry #${verification!.brokenSeq}. This entry, or the one before it, was altered or removed.`}
+        </div>
+      )}
+
       {/* Content Area */}
       <div className="glass-panel rounded-2xl overflow-hidden">
 
@@ -292,8 +324,7 @@ const Reports: React.FC<ReportsProps> = ({ inventory, logs, user, t, hasPermissi
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-50 dark:divide-slate-800 block md:table-row-group">
-                  {expiringItems.map((item) => {
-                    const daysLeft = getDaysRemaining(item.expiryDate);
+                  {expiringItems.map(({ item, lotNumber, expiryDate, quantity, daysLeft }) => {
                     let urgencyClass = 'text-orange-600 bg-orange-50 dark:bg-orange-900/20';
                     if (daysLeft <= 0) {
                       urgencyClass = 'text-white bg-red-600 shadow-md shadow-red-500/30 font-black';
@@ -302,15 +333,15 @@ const Reports: React.FC<ReportsProps> = ({ inventory, logs, user, t, hasPermissi
                     }
 
                     return (
-                      <tr key={item.id} className="block md:table-row bg-white dark:bg-transparent rounded-[1.5rem] md:rounded-none border border-slate-100 dark:border-slate-800 md:border-none shadow-sm md:shadow-none mb-4 md:mb-0 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors overflow-hidden">
+                      <tr key={`${item.id}-${lotNumber}`} className="block md:table-row bg-white dark:bg-transparent rounded-[1.5rem] md:rounded-none border border-slate-100 dark:border-slate-800 md:border-none shadow-sm md:shadow-none mb-4 md:mb-0 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors overflow-hidden">
                         <td className="p-4 block md:table-cell border-b md:border-b-0 border-slate-50 dark:border-slate-800/50">
                           <div className="font-bold text-slate-900 dark:text-white">{item.name}</div>
-                          <div className="text-xs text-slate-400 mt-1 font-mono">{t('lbl_batch')}: {item.batchNumber}</div>
+                          <div className="text-xs text-slate-400 mt-1 font-mono">{t('lbl_batch')}: {lotNumber}</div>
                         </td>
                         <td className="p-4 block md:table-cell border-b md:border-b-0 border-slate-50 dark:border-slate-800/50">
                           <div className="md:hidden text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1.5">Expiration Date</div>
                           <div className="font-mono font-bold text-slate-700 dark:text-slate-300">
-                            {new Date(item.expiryDate!).toLocaleDateString()}
+                            {new Date(expiryDate).toLocaleDateString()}
                           </div>
                         </td>
                         <td className="p-4 flex items-center justify-between md:table-cell border-b md:border-b-0 border-slate-50 dark:border-slate-800/50">
@@ -323,7 +354,7 @@ const Reports: React.FC<ReportsProps> = ({ inventory, logs, user, t, hasPermissi
                         <td className="p-4 flex items-center justify-between md:table-cell block">
                           <div className="md:hidden text-[10px] font-bold text-slate-400 uppercase tracking-widest">Stock Level</div>
                           <div>
-                            <span className="font-bold tabular-nums text-lg">{item.stock}</span> <span className="text-xs text-slate-400">{t(item.unit)}</span>
+                            <span className="font-bold tabular-nums text-lg">{quantity}</span> <span className="text-xs text-slate-400">{t(item.unit)}</span>
                           </div>
                         </td>
                       </tr>
@@ -362,68 +393,42 @@ const Reports: React.FC<ReportsProps> = ({ inventory, logs, user, t, hasPermissi
                       </div>
                     </td>
                     <td className="p-4 text-sm font-medium text-slate-700 dark:text-slate-300 block md:table-cell border-b md:border-b-0 border-slate-50 dark:border-slate-800/50">
-                      {editingLogId === log.id ? (
-                        <div className="flex gap-2">
-                          <input
-                            type="text"
-                            value={editLogDetails}
-                            onChange={(e) => setEditLogDetails(e.target.value)}
-                            className="flex-1 px-3 py-1.5 bg-white dark:bg-slate-800 border border-medical-300 dark:border-medical-500 rounded-lg text-sm focus:ring-2 focus:ring-medical-500 outline-none"
-                            autoFocus
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') {
-                                onUpdateLog?.(log.id, editLogDetails);
-                                setEditingLogId(null);
-                              } else if (e.key === 'Escape') {
-                                setEditingLogId(null);
-                              }
-                            }}
-                          />
-                          <button
-                            onClick={() => {
-                              onUpdateLog?.(log.id, editLogDetails);
-                              setEditingLogId(null);
-                            }}
-                            className="w-8 h-8 rounded-lg bg-emerald-500 text-white flex items-center justify-center hover:bg-emerald-600 shadow-sm"
-                          >
-                            <i className="fa-solid fa-check"></i>
-                          </button>
+                      <div className="flex items-center justify-between min-h-[1.5rem]">
+                        <span>{log.details}</span>
+                        {(log.before || log.after) && (
                           <button
-                            onClick={() => setEditingLogId(null)}
-                            className="w-8 h-8 rounded-lg bg-slate-200 dark:bg-slate-700 text-slate-500 flex items-center justify-center hover:bg-slate-300 dark:hover:bg-slate-600 shadow-sm"
+                            onClick={() => setExpandedLogId(expandedLogId === log.id ? null : log.id)}
+                            className="p-2 text-medical-500 hover:bg-medical-50 dark:hover:bg-medical-900/30 rounded-lg transition-all"
+                            title="Show before / after"
                           >
-                            <i className="fa-solid fa-xmark"></i>
+                            <i className={`fa-solid ${expandedLogId === log.id ? 'fa-chevron-up' : 'fa-code-compare'} text-xs`}></i>
                           </button>
-                        </div>
+                        )}
+                      </div>
+                      {expandedLogId === log.id && (
+                        <table className="mt-2 w-full text-xs">
+                          <thead>
+                            <tr className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                              <th className="text-left py-1">Field</th>
+                              <th className="text-left py-1">Before</th>
+                              <th className="text-left py-1">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {Array.from(new Set([...Object.keys(log.before || {}), ...Object.keys(log.after || {})])).map(field => (
+                              <tr key={field} className="border-t border-slate-100 dark:border-slate-800">
+                                <td className="py-1 pr-2 font-bold text-slate-500">{field}</td>
+                                <td className="py-1 pr-2 font-mono text-red-500 break-all">{formatValue(log.before?.[field])}</td>
+                                <td className="py-1 font-mono text-emerald-600 break-all">{formatValue(log.after?.[field])}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      {log.seq !== undefined ? (
+                        <div className="mt-1 text-[10px] text-slate-400 font-mono" title={log.hash}>#{log.seq} · {log.hash?.slice(0, 12)}</div>
                       ) : (
-                        <div className="flex items-center justify-between group/detail min-h-[1.5rem]">
-                          <span>{log.details}</span>
-                          {(user.role === UserRole.OWNER || user.role === UserRole.MANAGER) && (
-                            <div className="flex items-center gap-1 opacity-0 group-hover/row:opacity-100 transition-all">
-                              <button
-                                onClick={() => {
-                                  setEditingLogId(log.id);
-                                  setEditLogDetails(log.details);
-                                }}
-                                className="p-2 text-medical-500 hover:bg-medical-50 dark:hover:bg-medical-900/30 rounded-lg transition-all"
-                                title="Edit Log Entry"
-                              >
-                                <i className="fa-solid fa-pen-to-square text-xs"></i>
-                              </button>
-                              <button
-                                onClick={() => {
-                                  if (window.confirm('Are you sure you want to delete this log entry?')) {
-                                    onDeleteLog?.(log.id);
-                                  }
-                                }}
-                                className="p-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-all"
-                                title="Delete Log Entry"
-                              >
-                                <i className="fa-solid fa-trash-can text-xs"></i>
-                              </button>
-                            </div>
-                          )}
-                        </div>
+                        <div className="mt-1 text-[10px] text-amber-500 font-bold">Pending sync</div>
                       )}
                     </td>
                     <td className="p-4 text-sm font-bold text-slate-900 dark:text-white flex items-center justify-between md:table-cell block">
@@ -443,6 +448,29 @@ const Reports: React.FC<ReportsProps> = ({ inventory, logs, user, t, hasPermissi
         )}
       </div>
 
+      {activeTab === 'history' && filteredLegacyLogs.length > 0 && (
+        <div className="glass-panel rounded-2xl overflow-hidden">
+          <div className="p-4 border-b border-slate-100 dark:border-slate-800">
+            <div className="text-sm font-bold text-slate-900 dark:text-white">Browser-only history</div>
+            <div className="text-xs text-slate-500">
+              Recorded on this browser before the shared audit trail, for every clinic and user of this machine. These entries are not part of the verified trail.
+            </div>
+          </div>
+          <ul className="divide-y divide-slate-50 dark:divide-slate-800 max-h-[300px] overflow-y-auto custom-scrollbar">
+            {filteredLegacyLogs.map(log => (
+              <li key={log.id} className="p-4 flex flex-wrap items-center gap-3 text-sm">
+                <span className={`inline-block px-3 py-1 rounded-md text-xs font-bold ${getActionColor(log.action)}`}>{log.action}</span>
+                <span className="text-xs text-slate-400 font-mono">
+                  {log.timestamp.toLocaleDateString()} {log.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+                <span className="flex-1 text-slate-700 dark:text-slate-300">{log.details}</span>
+                <span className="text-xs font-bold text-slate-500">{log.user}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* --- HIDDEN REPORT ENGINE FOR PDF CAPTURE --- */}
       <div style={{ position: 'absolute', top: '-10000px', left: '-10000px' }}>
         <div ref={reportRef}>
@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { User, UserRole } from '../types';
 import { Language } from '../utils/translations';
 import { supabase } from '../src/lib/supabase';
@@ -24,6 +24,25 @@ const Settings: React.FC<SettingsProps> = ({ user, onUpdateUser, isDarkMode, tog
     };
 
     const ROLES = [UserRole.OWNER, UserRole.MANAGER, UserRole.DOCTOR, UserRole.MA, UserRole.FRONT_DESK];
+    const isManager = user.role === UserRole.OWNER || user.role === UserRole.MANAGER;
+
+    // Entered at the register when this manager approves someone else's drawer variance
+    const [signOffPin, setSignOffPin] = useState('');
+    const [isSavingPin, setIsSavingPin] = useState(false);
+
+    const handleSavePin = async () => {
+        if (!/^\d{4,8}$/.test(signOffPin)) return alert('PIN must be 4 to 8 digits');
+        setIsSavingPin(true);
+        try {
+            await DailyReportService.setSignOffPin(signOffPin);
+            setSignOffPin('');
+            alert('Sign-off PIN saved');
+        } catch (err: any) {
+            alert('Error saving PIN: ' + err.message);
+        } finally {
+            setIsSavingPin(false);
+        }
+    };
 
     return (
         <div className="max-w-4xl mx-auto space-y-10 pb-20 animate-fade-in-up">
@@ -92,6 +111,41 @@ const Settings: React.FC<SettingsProps> = ({ user, onUpdateUser, isDarkMode, tog
                 </div>
             </section>
 
+            {/* Manager sign-off PIN */}
+            {isManager && (
+                <section className="bg-white dark:bg-slate-900 rounded-2xl p-8 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none border border-slate-100 dark:border-slate-800">
+                    <div className="flex items-center gap-4 mb-8 border-b border-slate-100 dark:border-slate-800 pb-6">
+                        <div className="w-12 h-12 rounded-2xl bg-medical-50 dark:bg-medical-900/20 flex items-center justify-center text-medical-600 dark:text-medical-400">
+                            <i className="fa-solid fa-user-shield text-xl"></i>
+                        </div>
+                        <div>
+                            <h3 className="text-xl font-bold text-slate-900 dark:text-white">Manager Sign-off PIN</h3>
+                            <p className="text-sm text-slate-500">Used to approve a drawer variance when someone else is signed in at the register.</p>
+                        </div>
+                    </div>
+
+                    <div className="flex gap-2 max-w-md">
+                        <input
+                            type="password"
+                            inputMode="numeric"
+                            autoComplete="new-password"
+                            value={signOffPin}
+                            onChange={(e) => setSignOffPin(e.target.value.replace(/\D/g, ''))}
+                            maxLength={8}
+                            className="flex-1 h-11 px-5 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-4 focus:ring-medical-500/10 focus:border-medical-500 transition-all outline-none font-mono text-sm"
+                            placeholder="New PIN (4-8 digits)"
+                        />
+                        <button
+                            onClick={handleSavePin}
+                            disabled={isSavingPin || signOffPin.length < 4}
+                            className="px-6 h-11 bg-medical-600 hover:bg-medical-700 text-white rounded-xl text-sm font-bold transition-all disabled:opacity-50"
+                        >
+                            {isSavingPin ? 'Saving…' : 'Save PIN'}
+                        </button>
+                    </div>
+                </section>
+            )}
+
             {/* Preferences */}
             <section className="bg-white dark:bg-slate-900 rounded-2xl p-8 shadow-[0_8px_30px_rgb(0,0,0,0.04)] dark:shadow-none border border-slate-100 dark:border-slate-800">
                 <div className="flex items-center gap-4 mb-8 border-b border-slate-100 dark:border-slate-800 pb-6">
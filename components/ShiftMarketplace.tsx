@@ -0,0 +1,373 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ScheduleRules, Shift, ShiftOffer, ShiftOfferEvent, ShiftOfferType, StaffAvailability, TimeOffRequest, User, UserRole } from '../types';
+import { ScheduleService } from '../services/ScheduleService';
+import { useAppData } from '../contexts/AppDataContext';
+import AvailabilityEditor from './AvailabilityEditor';
+import { DEFAULT_MAX_HOURS_PER_WEEK, DEFAULT_SCHEDULE_RULES, localDateStr, weekKeyOf } from '../utils/autoScheduler';
+import { MarketplaceContext, claimIneligibility, eligibleClaimants, swapOptions } from '../utils/shiftMarketplace';
+
+type ExtendedUser = User & { full_name?: string };
+
+interface ShiftMarketplaceProps {
+    users: User[];
+    currentUser: User;
+    canManage: boolean;
+    onChanged: () => void; // Shifts were reassigned or offers changed
+    onClose: () => void;
+}
+
+const WEEKS_AHEAD = 6;
+
+const STATUS_STYLES: Record<ShiftOffer['status'], string> = {
+    open: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-400',
+    pending_approval: 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400',
+    completed: 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/20 dark:text-indigo-300',
+    cancelled: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400'
+};
+
+const inputClass = 'px-2 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-200 outline-none focus:border-indigo-500';
+
+const nameOf = (u?: User) => u ? ((u as ExtendedUser).full_name || u.username) : 'Unknown';
+
+const formatDay = (date: string) => new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const describeShift = (s?: Shift | null) => s ? `${formatDay(s.date)} ${s.start_time}–${s.end_time}` : 'a removed shift';
+
+const isManager = (u: User) => u.role === UserRole.OWNER || u.role === UserRole.MANAGER || !!u.permissions?.includes('schedule.manage');
+
+const ShiftMarketplace: React.FC<ShiftMarketplaceProps> = ({ users, currentUser, canManage, onChanged, onClose }) => {
+    const { addLog } = useAppData();
+    const [tab, setTab] = useState<'open' | 'mine' | 'approvals' | 'availability'>('open');
+    const [shifts, setShifts] = useState<Shift[]>([]);
+    const [timeOff, setTimeOff] = useState<TimeOffRequest[]>([]);
+    const [availability, setAvailability] = useState<StaffAvailability[]>([]);
+    const [rules, setRules] = useState<ScheduleRules>(DEFAULT_SCHEDULE_RULES);
+    const [offers, setOffers] = useState<ShiftOffer[]>([]);
+    const [myWindows, setMyWindows] = useState<StaffAvailability['windows']>([]);
+    const [newOffer, setNewOffer] = useState<{ shiftId: string; type: ShiftOfferType; note: string }>({ shiftId: '', type: 'giveaway', note: '' });
+    const [swapPicks, setSwapPicks] = useState<Record<string, string>>({});
+    const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const [isBusy, setIsBusy] = useState(false);
+
+    const today = localDateStr(new Date());
+
+    const load = async () => {
+        const end = new Date();
+        end.setDate(end.getDate() + WEEKS_AHEAD * 7);
+        // From Monday so weekly hours include shifts already worked this week
+        const from = weekKeyOf(today);
+        const [fetchedShifts, fetchedTimeOff, fetchedAvailability, fetchedRules, fetchedOffers] = await Promise.all([
+            ScheduleService.fetchShifts(from, localDateStr(end)),
+            ScheduleService.fetchTimeOffRequests(from, localDateStr(end)),
+            ScheduleService.fetchStaffAvailability(),
+            ScheduleService.fetchScheduleRules(),
+            ScheduleService.fetchShiftOffers()
+        ]);
+        setShifts(fetchedShifts);
+        setTimeOff(fetchedTimeOff);
+        setAvailability(fetchedAvailability);
+        if (fetchedRules) setRules(fetchedRules);
+        setOffers(fetchedOffers);
+        setMyWindows(fetchedAvailability.find(a => a.user_id === currentUser.id)?.windows || []);
+    };
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    const ctx: MarketplaceContext = useMemo(() => ({ users, shifts, timeOff, availability, today }), [users, shifts, timeOff, availability, today]);
+
+    const userById = (id?: string | null) => users.find(u => u.id === id);
+    const shiftById = (id?: string | null) => shifts.find(s => s.id === id) || null;
+    const isLive = (o: ShiftOffer) => o.status === 'open' || o.status === 'pending_approval';
+
+    const myUpcoming = shifts.filter(s => s.user_id === currentUser.id && s.date >= today && !offers.some(o => isLive(o) && o.shift_id === s.id));
+    const openOffers = offers.filter(o => o.status === 'open' && o.offered_by !== currentUser.id && (shiftById(o.shift_id)?.date || '') >= today);
+    const myOffers = offers.filter(o => o.offered_by === currentUser.id || o.claimed_by === currentUser.id);
+    const awaitingApproval = offers.filter(o => o.status === 'pending_approval');
+
+    const notify = (recipients: (User | undefined)[], details: Record<string, unknown>) => {
+        const emails = new Set(recipients.filter(u => u && u.id !== currentUser.id && u.email).map(u => u!.email!));
+        emails.forEach(email => ScheduleService.notifyScheduleChange(email, details));
+    };
+
+    const offerDetails = (offer: ShiftOffer, event: ShiftOfferEvent['action']) => ({
+        event: `shift_offer_${event}`,
+        type: offer.type,
+        shift: describeShift(shiftById(offer.shift_id)),
+        swapShift: offer.swap_shift_id ? describeShift(shiftById(offer.swap_shift_id)) : undefined,
+        offeredBy: nameOf(userById(offer.offered_by)),
+        claimedBy: offer.claimed_by ? nameOf(userById(offer.claimed_by)) : undefined,
+        by: nameOf(currentUser),
+        note: offer.last_event_note || undefined
+    });
+
+    const logOffer = (action: Parameters<typeof addLog>[0], details: string, before: ShiftOffer | null, after: ShiftOffer) => {
+        addLog(action, details, currentUser.username, {
+            entityType: 'shift_offer',
+            entityId: after.id,
+            before: before ? { status: before.status, claimed_by: before.claimed_by ?? null } : null,
+            after: { status: after.status, shift_id: after.shift_id, type: after.type, claimed_by: after.claimed_by ?? null, swap_shift_id: after.swap_shift_id ?? null }
+        });
+    };
+
+    /** Runs a step, then reloads so every list reflects the new state */
+    const run = async (step: () => Promise<void>, failure: string) => {
+        setIsBusy(true);
+        try {
+            await step();
+            await load();
+            onChanged();
+        } catch (e) {
+            console.error(failure, e);
+            alert(e instanceof Error && e.message ? `${failure}: ${e.message}` : failure);
+            // Someone else may have moved the offer on; show where it stands now
+            await load();
+        }
+        setIsBusy(false);
+    };
+
+    const handleSaveAvailability = () => run(async () => {
+        const mine = availability.find(a => a.user_id === currentUser.id) || { user_id: currentUser.id, max_hours_per_week: DEFAULT_MAX_HOURS_PER_WEEK, windows: [] };
+        await ScheduleService.saveStaffAvailability({ ...mine, windows: myWindows });
+    }, 'Failed to save your availability');
+
+    const handleOffer = () => run(async () => {
+        const shift = shiftById(newOffer.shiftId);
+        if (!shift) return;
+        const note = newOffer.note.trim() || undefined;
+        const saved = await ScheduleService.createShiftOffer({
+            shift_id: shift.id,
+            offered_by: currentUser.id,
+            type: newOffer.type,
+            status: 'open',
+            note,
+            last_event_note: note
+        });
+        logOffer('SHIFT_OFFERED', `${nameOf(currentUser)} offered ${describeShift(shift)} for ${newOffer.type === 'swap' ? 'a swap' : 'giveaway'}`, null, saved);
+        notify(eligibleClaimants(saved, ctx), offerDetails(saved, 'offered'));
+        setNewOffer({ shiftId: '', type: 'giveaway', note: '' });
+    }, 'Failed to offer the shift');
+
+    const handleClaim = (offer: ShiftOffer) => run(async () => {
+        const swapShift = offer.type === 'swap' ? shiftById(swapPicks[offer.id]) : null;
+        const why = claimIneligibility(offer, currentUser, swapShift, ctx);
+        if (why) {
+            alert(`You can't claim this shift: ${why}`);
+            return;
+        }
+
+        // Only one claimant gets the offer out of 'open'; without approval
+        // they then complete it straight away
+        const claimed = await ScheduleService.updateShiftOffer(offer.id, {
+            status: 'pending_approval',
+            claimed_by: currentUser.id,
+            swap_shift_id: swapShift?.id || null,
+            last_event_note: swapShift ? `Trading ${describeShift(swapShift)}` : null
+        }, ['open']);
+        const needsApproval = rules.swap_requires_approval !== false;
+        const saved = needsApproval ? claimed : await ScheduleService.completeShiftOffer(claimed.id);
+
+        logOffer('SHIFT_CLAIMED', `${nameOf(currentUser)} claimed ${describeShift(shiftById(offer.shift_id))} from ${nameOf(userById(offer.offered_by))}${needsApproval ? ', awaiting approval' : ''}`, offer, saved);
+        notify(
+            [userById(offer.offered_by), ...(needsApproval ? users.filter(isManager) : [])],
+            offerDetails(saved, needsApproval ? 'claimed' : 'completed')
+        );
+    }, 'Failed to claim the shift');
+
+    const handleApprove = (offer: ShiftOffer) => run(async () => {
+        const claimant = userById(offer.claimed_by);
+        // Schedules move on while a claim waits, so check again
+        const why = claimant ? claimIneligibility(offer, claimant, shiftById(offer.swap_shift_id), ctx) : 'the claimant is no longer on staff';
+        if (why) {
+            alert(`This claim can no longer be approved: ${why}. Reject it to reopen the offer.`);
+            return;
+        }
+
+        const saved = await ScheduleService.completeShiftOffer(offer.id, reviewNotes[offer.id]?.trim() || undefined);
+        logOffer('SHIFT_OFFER_APPROVED', `${nameOf(currentUser)} approved ${nameOf(claimant)} taking ${describeShift(shiftById(offer.shift_id))} from ${nameOf(userById(offer.offered_by))}`, offer, saved);
+        notify([userById(offer.offered_by), claimant], offerDetails(saved, 'approved'));
+    }, 'Failed to approve the claim');
+
+    const handleReject = (offer: ShiftOffer) => run(async () => {
+        // The shift goes back on the market for someone else to claim
+        const saved = await ScheduleService.updateShiftOffer(offer.id, {
+            status: 'open',
+            claimed_by: null,
+            swap_shift_id: null,
+            reviewed_by: currentUser.id,
+            last_event_note: reviewNotes[offer.id]?.trim() || null
+        }, ['pending_approval']);
+        logOffer('SHIFT_OFFER_REJECTED', `${nameOf(currentUser)} rejected ${nameOf(userById(offer.claimed_by))}'s claim on ${describeShift(shiftById(offer.shift_id))}`, offer, saved);
+        notify([userById(offer.offered_by), userById(offer.claimed_by)], offerDetails({ ...saved, claimed_by: offer.claimed_by }, 'rejected'));
+    }, 'Failed to reject the claim');
+
+    const handleCancel = (offer: ShiftOffer) => run(async () => {
+        const saved = await ScheduleService.updateShiftOffer(offer.id, {
+            status: 'cancelled',
+            last_event_note: null
+        }, ['open', 'pending_approval']);
+        logOffer('SHIFT_OFFER_CANCELLED', `${nameOf(currentUser)} withdrew the offer of ${describeShift(shiftById(offer.shift_id))}`, offer, saved);
+        notify([userById(offer.offered_by), userById(offer.claimed_by)], offerDetails(saved, 'cancelled'));
+    }, 'Failed to cancel the offer');
+
+    const toggleExpanded = (id: string) => {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const renderOffer = (offer: ShiftOffer, actions?: React.ReactNode) => (
+        <div key={offer.id} className="rounded-xl border border-slate-100 dark:border-slate-800 p-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="font-bold text-slate-800 dark:text-slate-100">{describeShift(shiftById(offer.shift_id))}</span>
+                <span className="text-[10px] uppercase tracking-widest font-black text-slate-400">{offer.type}</span>
+                <span className={`text-[10px] uppercase tracking-widest font-black px-2 py-0.5 rounded-md ${STATUS_STYLES[offer.status]}`}>{offer.status.replace('_', ' ')}</span>
+                <span className="text-xs text-slate-500 flex-1">
+                    from {nameOf(userById(offer.offered_by))}
+                    {offer.claimed_by && <> · claimed by {nameOf(userById(offer.claimed_by))}</>}
+                    {offer.swap_shift_id && <> for {describeShift(shiftById(offer.swap_shift_id))}</>}
+                </span>
+                <button onClick={() => toggleExpanded(offer.id)} className="text-xs font-bold text-indigo-600 hover:underline">
+                    {expanded.has(offer.id) ? 'Hide history' : 'History'}
+                </button>
+            </div>
+            {offer.note && <p className="text-xs text-slate-600 dark:text-slate-300 italic">"{offer.note}"</p>}
+            {actions}
+            {expanded.has(offer.id) && (
+                <ol className="text-xs text-slate-500 border-l-2 border-slate-100 dark:border-slate-800 pl-3 space-y-1">
+                    {offer.history.map((e, i) => (
+                        <li key={i}>
+                            <span className="font-bold text-slate-700 dark:text-slate-200">{new Date(e.at).toLocaleString()}</span> · {nameOf(userById(e.by))} {e.action}{e.note ? ` — ${e.note}` : ''}
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+
+    const myProfile = availability.find(a => a.user_id === currentUser.id);
+    const tabs = [
+        ['open', `Open Shifts (${openOffers.length})`],
+        ['mine', 'My Offers'],
+        ...(canManage ? [['approvals', `Approvals (${awaitingApproval.length})`]] : []),
+        ['availability', 'My Availability']
+    ] as [typeof tab, string][];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl w-full max-w-3xl p-6 overflow-hidden flex flex-col max-h-[90vh] border border-slate-200 dark:border-slate-800" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-3 text-indigo-600 dark:text-indigo-400">
+                        <div className="bg-indigo-100 dark:bg-indigo-500/20 p-2 rounded-xl"><i className="fa-solid fa-right-left text-xl"></i></div>
+                        <div>
+                            <h2 className="text-xl font-black">Shift Swaps</h2>
+                            <p className="text-xs font-bold text-slate-400">{rules.swap_requires_approval !== false ? 'Claims wait for manager approval' : 'Claims take effect immediately'}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="w-9 h-9 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-rose-500"><i className="fa-solid fa-xmark"></i></button>
+                </div>
+
+                <div className="flex gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-xl mb-4 self-start">
+                    {tabs.map(([id, label]) => (
+                        <button
+                            key={id}
+                            onClick={() => setTab(id)}
+                            className={`px-4 py-1.5 rounded-lg text-sm font-bold transition ${tab === id ? 'bg-white dark:bg-slate-900 text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar pr-1 space-y-3">
+                    {tab === 'open' && (
+                        <>
+                            {openOffers.map(offer => {
+                                const options = offer.type === 'swap' ? swapOptions(offer, currentUser, ctx) : [];
+                                const pick = offer.type === 'swap' ? shiftById(swapPicks[offer.id]) : null;
+                                const why = offer.type === 'swap' && options.length === 0
+                                    ? 'none of your upcoming shifts can be traded for it'
+                                    : claimIneligibility(offer, currentUser, pick, ctx);
+                                return renderOffer(offer, (
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        {offer.type === 'swap' && options.length > 0 && (
+                                            <select value={swapPicks[offer.id] || ''} onChange={e => setSwapPicks(prev => ({ ...prev, [offer.id]: e.target.value }))} className={inputClass}>
+                                                <option value="">Trade one of my shifts…</option>
+                                                {options.map(s => <option key={s.id} value={s.id}>{describeShift(s)}</option>)}
+                                            </select>
+                                        )}
+                                        {why && <span className="text-xs text-amber-700 dark:text-amber-400"><i className="fa-solid fa-circle-info mr-1"></i>{why}</span>}
+                                        <button onClick={() => handleClaim(offer)} disabled={isBusy || !!why} className="ml-auto px-3 py-1.5 bg-indigo-600 text-white font-bold text-xs rounded-lg hover:bg-indigo-700 disabled:opacity-40">
+                                            Claim
+                                        </button>
+                                    </div>
+                                ));
+                            })}
+                            {openOffers.length === 0 && <p className="text-sm text-slate-500">No shifts are up for grabs right now.</p>}
+                        </>
+                    )}
+
+                    {tab === 'mine' && (
+                        <>
+                            <div className="rounded-xl bg-slate-50 dark:bg-slate-800/50 p-3 flex flex-wrap items-center gap-2">
+                                <select value={newOffer.shiftId} onChange={e => setNewOffer({ ...newOffer, shiftId: e.target.value })} className={inputClass}>
+                                    <option value="">Offer one of my shifts…</option>
+                                    {myUpcoming.map(s => <option key={s.id} value={s.id}>{describeShift(s)}</option>)}
+                                </select>
+                                <select value={newOffer.type} onChange={e => setNewOffer({ ...newOffer, type: e.target.value as ShiftOfferType })} className={inputClass}>
+                                    <option value="giveaway">Give away</option>
+                                    <option value="swap">Swap</option>
+                                </select>
+                                <input value={newOffer.note} onChange={e => setNewOffer({ ...newOffer, note: e.target.value })} placeholder="Note (optional)" className={`${inputClass} flex-1 min-w-[10rem]`} />
+                                <button onClick={handleOffer} disabled={isBusy || !newOffer.shiftId} className="px-3 py-1.5 bg-indigo-600 text-white font-bold text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-40">Offer</button>
+                            </div>
+                            {myOffers.map(offer => renderOffer(offer, isLive(offer) && offer.offered_by === currentUser.id && (
+                                <div className="flex justify-end">
+                                    <button onClick={() => handleCancel(offer)} disabled={isBusy} className="px-3 py-1.5 border border-slate-200 text-slate-600 font-bold text-xs rounded-lg hover:bg-slate-50 disabled:opacity-40">Withdraw</button>
+                                </div>
+                            )))}
+                            {myOffers.length === 0 && <p className="text-sm text-slate-500">You haven't offered or claimed any shifts.</p>}
+                        </>
+                    )}
+
+                    {tab === 'approvals' && canManage && (
+                        <>
+                            {awaitingApproval.map(offer => renderOffer(offer, (
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <input
+                                        value={reviewNotes[offer.id] || ''}
+                                        onChange={e => setReviewNotes(prev => ({ ...prev, [offer.id]: e.target.value }))}
+                                        placeholder="Note to staff (optional)"
+                                        className={`${inputClass} flex-1 min-w-[10rem]`}
+                                    />
+                                    <button onClick={() => handleReject(offer)} disabled={isBusy} className="px-3 py-1.5 border border-rose-200 text-rose-600 font-bold text-xs rounded-lg hover:bg-rose-50 disabled:opacity-40">Reject</button>
+                                    <button onClick={() => handleApprove(offer)} disabled={isBusy} className="px-3 py-1.5 bg-emerald-600 text-white font-bold text-xs rounded-lg hover:bg-emerald-700 disabled:opacity-40">Approve</button>
+                                </div>
+                            )))}
+                            {awaitingApproval.length === 0 && <p className="text-sm text-slate-500">No claims are waiting for approval.</p>}
+                        </>
+                    )}
+
+                    {tab === 'availability' && (
+                        <>
+                            <p className="text-xs text-slate-500">
+                                Tick the days you can work and your hours. Leave every day unticked if you can work any open hour.
+                                Your weekly maximum is {myProfile?.max_hours_per_week ?? DEFAULT_MAX_HOURS_PER_WEEK}h, set by your manager.
+                            </p>
+                            <AvailabilityEditor windows={myWindows} hours={rules.hours} onChange={setMyWindows} disabled={isBusy} />
+                            <div className="flex justify-end">
+                                <button onClick={handleSaveAvailability} disabled={isBusy} className="px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-sm rounded-xl shadow-sm disabled:opacity-50">Save Availability</button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ShiftMarketplace;
@@ -2,6 +2,14 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { User, Shift, AppRoute, TimeOffRequest } from '../types';
 import { ScheduleService } from '../services/ScheduleService';
 import { ScheduleReportDocument } from './ScheduleReportDocument';
+import AutoScheduler from './AutoScheduler';
+import ShiftMarketplace from './ShiftMarketplace';
+import TimeClock from './TimeClock';
+import Timesheets from './Timesheets';
+import CalendarFeedModal from './CalendarFeedModal';
+import { useTenant } from '../contexts/TenantContext';
+import { buildCalendar, shiftEvent, timeOffEvent } from '../utils/icalendar';
+import { localDateStr } from '../utils/autoScheduler';
 import { transcribeAudio } from '../services/whisper';
 import { chatCompletion } from '../services/LocalAIService';
 
@@ -113,6 +121,12 @@ export const SmartScheduler: React.FC<SmartSchedulerProps> = ({ users, currentUs
     const [callOutSuggestions, setCallOutSuggestions] = useState<ExtendedUser[]>([]);
     const [showAuditModal, setShowAuditModal] = useState(false);
     const [auditResults, setAuditResults] = useState<{understaffed: string[], overtime: string[]}>({understaffed: [], overtime: []});
+    const [showAutoScheduler, setShowAutoScheduler] = useState(false);
+    const [showMarketplace, setShowMarketplace] = useState(false);
+    const [liveOfferCount, setLiveOfferCount] = useState(0);
+    const [showTimeClock, setShowTimeClock] = useState(false);
+    const [showTimesheets, setShowTimesheets] = useState(false);
+    const [showCalendarFeed, setShowCalendarFeed] = useState(false);
     
     // Modals
     const [showTimeOffModal, setShowTimeOffModal] = useState(false);
@@ -122,6 +136,7 @@ export const SmartScheduler: React.FC<SmartSchedulerProps> = ({ users, currentUs
     const [dragTargetCell, setDragTargetCell] = useState<{userId: string, date: string} | null>(null);
 
     const canManage = hasPermission('schedule.manage');
+    const { currentLocation } = useTenant();
     const reportRef = useRef<HTMLDivElement>(null);
 
     // DATES LOGIC //
@@ -167,12 +182,15 @@ export const SmartScheduler: React.FC<SmartSchedulerProps> = ({ users, currentUs
     const loadData = async () => {
         setIsLoading(true);
         try {
-            const [fetchedShifts, fetchedTimeOff] = await Promise.all([
+            const [fetchedShifts, fetchedTimeOff, fetchedOffers] = await Promise.all([
                 ScheduleService.fetchShifts(startDateStr, endDateStr),
-                ScheduleService.fetchTimeOffRequests(startDateStr, endDateStr)
+                ScheduleService.fetchTimeOffRequests(startDateStr, endDateStr),
+                ScheduleService.fetchShiftOffers()
             ]);
             setShifts(fetchedShifts);
             setTimeOffRequests(fetchedTimeOff);
+            // Staff see shifts they could claim; managers also see claims awaiting approval
+            setLiveOfferCount(fetchedOffers.filter(o => o.offered_by !== currentUser?.id && (o.status === 'open' || (canManage && o.status === 'pending_approval'))).length);
         } catch(e) {
             console.error('Data load error', e);
         }
@@ -615,6 +633,36 @@ Output strictly a valid JSON array, without markdown blocks.`;
         window.print();
     };
 
+    // Whole-location schedule for the visible range. UIDs follow the shift and
+    // time-off ids, so importing again updates events instead of duplicating them.
+    const handleExportIcs = () => {
+        const timeZone = currentLocation?.timezone || 'America/New_York';
+        const locationName = currentLocation?.name || 'Clinic';
+        const nameFor = (userId: string) => {
+            const u = users.find(user => user.id === userId) as ExtendedUser | undefined;
+            return u ? (u.full_name || u.username) : 'Unassigned';
+        };
+        const ics = buildCalendar(`${locationName} Schedule`, timeZone, [
+            ...shifts.map(s => shiftEvent(s, timeZone, {
+                summary: `${nameFor(s.user_id)} · ${s.role_type === 'provider' ? 'Provider' : 'Staff'}`,
+                description: s.notes || undefined,
+                location: locationName
+            })),
+            ...timeOffRequests.filter(t => t.status === 'approved').map(t => timeOffEvent(t, {
+                summary: `${nameFor(t.user_id)} · Time off`,
+                description: t.reason || undefined
+            }))
+        ]);
+
+        const link = document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+        link.download = `Schedule_${startDateStr}_to_${endDateStr}.ics`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(link.href);
+    };
+
     // UI HELPERS //
     const formatTime = (timeStr: string) => {
         if (!timeStr) return '';
@@ -808,6 +856,43 @@ Output strictly a valid JSON array, without markdown blocks.`;
                     <button onClick={handlePrint} className="px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-sm rounded-xl transition shadow-sm flex items-center gap-2">
                         <i className="fa-solid fa-print"></i> Export
                     </button>
+                    {canManage && (
+                        <button onClick={handleExportIcs} className="px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-sm rounded-xl transition shadow-sm flex items-center gap-2">
+                            <i className="fa-regular fa-calendar"></i> .ics
+                        </button>
+                    )}
+                    {currentUser && (
+                        <button onClick={() => setShowCalendarFeed(true)} title="Subscribe to your shifts in your own calendar" className="px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-sm rounded-xl transition shadow-sm flex items-center gap-2">
+                            <i className="fa-solid fa-calendar-plus"></i> My Calendar
+                        </button>
+                    )}
+
+                    {currentUser && (
+                        <button onClick={() => setShowTimeClock(true)} className="px-4 py-2 border border-emerald-200 bg-emerald-50 hover:bg-emerald-100 text-emerald-700 font-bold text-sm rounded-xl transition shadow-sm flex items-center gap-2">
+                            <i className="fa-solid fa-clock"></i> Time Clock
+                        </button>
+                    )}
+
+                    {canManage && currentUser && (
+                        <button onClick={() => setShowTimesheets(true)} className="px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-sm rounded-xl transition shadow-sm flex items-center gap-2">
+                            <i className="fa-solid fa-file-invoice-dollar"></i> Timesheets
+                        </button>
+                    )}
+
+                    {currentUser && (
+                        <button onClick={() => setShowMarketplace(true)} className="relative px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-sm rounded-xl transition shadow-sm flex items-center gap-2">
+                            <i className="fa-solid fa-right-left"></i> Shift Swaps
+                            {liveOfferCount > 0 && (
+                                <span className="absolute -top-1.5 -right-1.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-emerald-500 text-white text-[9px] font-black flex items-center justify-center">{liveOfferCount}</span>
+                            )}
+                        </button>
+                    )}
+
+                    {canManage && (
+                        <button onClick={() => setShowAutoScheduler(true)} className="px-4 py-2 border border-indigo-200 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 font-bold text-sm rounded-xl transition shadow-sm flex items-center gap-2">
+                            <i className="fa-solid fa-wand-magic-sparkles"></i> Auto-Schedule
+                        </button>
+                    )}
 
                     {canManage && viewMode === 'week' && (
                         <button onClick={runCoverageAudit} className="px-4 py-2 border border-rose-200 bg-rose-50 hover:bg-rose-100 text-rose-700 font-bold text-sm rounded-xl transition shadow-sm flex items-center gap-2">
@@ -1031,6 +1116,40 @@ Output strictly a valid JSON array, without markdown blocks.`;
             </div>
 
             {/* COVERAGE AUDIT MODAL */}
+            {showAutoScheduler && (
+                <AutoScheduler
+                    // Month view schedules only the days of the month, not the neighbouring weeks shown
+                    dates={activeDates.filter(d => viewMode === 'week' || d.getMonth() === currentDate.getMonth()).map(localDateStr)}
+                    users={users}
+                    shifts={shifts}
+                    timeOffRequests={timeOffRequests}
+                    onAccept={saved => setShifts(prev => [...prev, ...saved])}
+                    onClose={() => setShowAutoScheduler(false)}
+                />
+            )}
+
+            {showMarketplace && currentUser && (
+                <ShiftMarketplace
+                    users={users}
+                    currentUser={currentUser}
+                    canManage={canManage}
+                    onChanged={loadData}
+                    onClose={() => setShowMarketplace(false)}
+                />
+            )}
+
+            {showTimeClock && currentUser && (
+                <TimeClock currentUser={currentUser} onClose={() => setShowTimeClock(false)} />
+            )}
+
+            {showTimesheets && currentUser && (
+                <Timesheets users={users} currentUser={currentUser} onClose={() => setShowTimesheets(false)} />
+            )}
+
+            {showCalendarFeed && currentUser && (
+                <CalendarFeedModal currentUser={currentUser} onClose={() => setShowCalendarFeed(false)} />
+            )}
+
             {showAuditModal && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in">
                     <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl w-full max-w-lg p-6 overflow-hidden flex flex-col max-h-[80vh] border border-slate-200 dark:border-slate-800">
@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { SyncStatus } from '../types';
+import { OfflineSyncService } from '../services/OfflineSyncService';
+
+type SyncState = 'offline' | 'syncing' | 'pending' | 'conflict' | 'synced';
+
+export const SyncStatusBadge: React.FC = () => {
+    const [status, setStatus] = useState<SyncStatus>(OfflineSyncService.getStatus());
+    const [showDetails, setShowDetails] = useState(false);
+
+    useEffect(() => OfflineSyncService.subscribe(setStatus), []);
+
+    const state: SyncState = !status.online ? 'offline'
+        : status.syncing ? 'syncing'
+            : status.conflicts.length > 0 ? 'conflict'
+                : status.pending > 0 ? 'pending'
+                    : 'synced';
+
+    const statusConfig = {
+        offline: { color: 'bg-red-500/10 text-red-500 ring-red-500/30', icon: 'fa-cloud-arrow-up', text: status.pending > 0 ? `Offline · ${status.pending} queued` : 'Offline' },
+        syncing: { color: 'bg-blue-500/10 text-blue-500 ring-blue-500/30', icon: 'fa-rotate fa-spin', text: 'Syncing...' },
+        pending: { color: 'bg-amber-500/10 text-amber-500 ring-amber-500/30', icon: 'fa-cloud-arrow-up', text: `${status.pending} pending` },
+        conflict: { color: 'bg-amber-500/10 text-amber-600 ring-amber-500/30', icon: 'fa-triangle-exclamation', text: `${status.conflicts.length} conflict${status.conflicts.length === 1 ? '' : 's'}` },
+        synced: { color: 'bg-emerald-500/10 text-emerald-500 ring-emerald-500/30', icon: 'fa-cloud', text: 'Synced' }
+    };
+
+    const current = statusConfig[state];
+
+    // Nothing to say while everything is online and in sync
+    if (state === 'synced' && !status.lastSyncedAt) return null;
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setShowDetails(!showDetails)}
+                onBlur={() => setTimeout(() => setShowDetails(false), 200)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-full border border-transparent ring-1 transition-all duration-300 hover:shadow-md ${current.color}`}
+                title="Offline Sync Status"
+            >
+                <i className={`fa-solid ${current.icon} text-sm`}></i>
+                <span className="hidden md:inline text-xs font-bold tracking-tight">{current.text}</span>
+            </button>
+
+            {showDetails && (
+                <div className="absolute right-0 top-full mt-3 w-80 bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-700 p-4 z-50 animate-in fade-in slide-in-from-top-2">
+                    <h3 className="text-sm font-black text-slate-800 dark:text-white mb-1"><i className="fa-solid fa-cloud text-medical-500 mr-2"></i>Offline Sync</h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                        {status.online
+                            ? 'Changes made while offline are sent to the server in the order they were made.'
+                            : 'You are offline. Stock changes and daily closes are saved on this device and will sync when the connection returns.'}
+                    </p>
+
+                    <div className="space-y-2 text-xs">
+                        <div className="flex justify-between">
+                            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Queued changes</span>
+                            <span className="font-bold text-slate-700 dark:text-slate-200">{status.pending}</span>
+                        </div>
+                        {status.lastSyncedAt && (
+                            <div className="flex justify-between">
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Last synced</span>
+                                <span className="font-bold text-slate-700 dark:text-slate-200">{new Date(status.lastSyncedAt).toLocaleTimeString()}</span>
+                            </div>
+                        )}
+                    </div>
+
+                    {status.conflicts.length > 0 && (
+                        <div className="mt-4 space-y-2">
+                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Needs review</p>
+                            {status.conflicts.map(conflict => (
+                                <div key={conflict.id} className="p-3 bg-amber-50 dark:bg-amber-900/20 rounded-xl border border-amber-200 dark:border-amber-800">
+                                    <p className="text-sm font-bold text-slate-700 dark:text-slate-200 leading-tight">{conflict.label}</p>
+                                    <p className="text-[11px] text-amber-700 dark:text-amber-400 mt-1">{conflict.error}</p>
+                                    <p className="text-[10px] text-slate-400 mt-1">Made {new Date(conflict.queuedAt).toLocaleString()}</p>
+                                    <div className="flex gap-2 mt-2">
+                                        <button
+                                            onClick={(e) => { e.preventDefault(); OfflineSyncService.resolveConflict(conflict.id, 'overwrite'); }}
+                                            className="flex-1 py-1.5 bg-medical-500 text-white rounded-lg text-xs font-bold hover:bg-medical-600 transition-colors"
+                                            title="Apply this device's change over the server's"
+                                        >
+                                            Keep Mine
+                                        </button>
+                                        <button
+                                            onClick={(e) => { e.preventDefault(); OfflineSyncService.resolveConflict(conflict.id, 'discard'); }}
+                                            className="flex-1 py-1.5 bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-lg text-xs font-bold hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors"
+                                            title="Drop this change and keep the server's data"
+                                        >
+                                            Discard
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {status.online && status.pending > 0 && !status.syncing && (
+                        <button
+                            onClick={(e) => { e.preventDefault(); OfflineSyncService.flush(); }}
+                            className="mt-4 w-full py-2 bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-lg text-xs font-bold hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors"
+                        >
+                            <i className="fa-solid fa-rotate-right mr-2"></i>Sync Now
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
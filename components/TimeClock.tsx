@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Shift, TimeClockSettings, TimePunch, User } from '../types';
+import { ScheduleService } from '../services/ScheduleService';
+import { localDateStr } from '../utils/autoScheduler';
+import { DEFAULT_TIME_CLOCK_SETTINGS, buildTimesheet, formatPunchTime, payPeriodFor, summarizePay } from '../utils/timeClock';
+
+interface TimeClockProps {
+    currentUser: User;
+    onClose: () => void;
+}
+
+const formatDay = (date: string) => new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const TimeClock: React.FC<TimeClockProps> = ({ currentUser, onClose }) => {
+    const [settings, setSettings] = useState<TimeClockSettings>(DEFAULT_TIME_CLOCK_SETTINGS);
+    const [punches, setPunches] = useState<TimePunch[]>([]);
+    const [shifts, setShifts] = useState<Shift[]>([]);
+    const [pin, setPin] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const today = localDateStr(new Date());
+    const period = payPeriodFor(today, settings);
+
+    const load = async () => {
+        const saved = (await ScheduleService.fetchTimeClockSettings()) || DEFAULT_TIME_CLOCK_SETTINGS;
+        const current = payPeriodFor(today, saved);
+        const [fetchedPunches, fetchedShifts] = await Promise.all([
+            ScheduleService.fetchTimePunches(current.start, current.end, currentUser.id),
+            ScheduleService.fetchShifts(current.start, current.end)
+        ]);
+        setSettings(saved);
+        setPunches(fetchedPunches);
+        setShifts(fetchedShifts.filter(s => s.user_id === currentUser.id));
+    };
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    const openPunch = punches.find(p => !p.punch_out);
+    const todayShift = shifts.find(s => s.date === today);
+    const days = useMemo(() => buildTimesheet(shifts, punches, period, settings), [shifts, punches, period.start, settings]);
+    const summary = summarizePay(days, period, settings)[0];
+
+    const handlePunch = async () => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await ScheduleService.punchClock(settings.require_pin ? pin : undefined);
+            setPin('');
+            await load();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Punch failed');
+        }
+        setIsBusy(false);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl w-full max-w-lg p-6 overflow-hidden flex flex-col max-h-[90vh] border border-slate-200 dark:border-slate-800" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-3 text-indigo-600 dark:text-indigo-400">
+                        <div className="bg-indigo-100 dark:bg-indigo-500/20 p-2 rounded-xl"><i className="fa-solid fa-clock text-xl"></i></div>
+                        <h2 className="text-xl font-black">Time Clock</h2>
+                    </div>
+                    <button onClick={onClose} className="w-9 h-9 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-rose-500"><i className="fa-solid fa-xmark"></i></button>
+                </div>
+
+                <div className={`rounded-2xl p-5 text-center mb-4 ${openPunch ? 'bg-emerald-50 dark:bg-emerald-900/20' : 'bg-slate-50 dark:bg-slate-800/50'}`}>
+                    <div className={`text-sm font-black uppercase tracking-widest ${openPunch ? 'text-emerald-600' : 'text-slate-400'}`}>
+                        {openPunch ? `On the clock since ${formatPunchTime(openPunch.punch_in)}` : 'Off the clock'}
+                    </div>
+                    <div className="text-xs text-slate-500 mt-1">
+                        {todayShift ? `Today's shift: ${todayShift.start_time}–${todayShift.end_time}` : 'No shift scheduled today'}
+                    </div>
+                    {settings.require_pin && (
+                        <input
+                            type="password"
+                            inputMode="numeric"
+                            value={pin}
+                            onChange={e => setPin(e.target.value)}
+                            placeholder="Clinic PIN"
+                            className="mt-4 w-40 px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-center tracking-widest outline-none focus:border-indigo-500"
+                        />
+                    )}
+                    <div>
+                        <button
+                            onClick={handlePunch}
+                            disabled={isBusy || (settings.require_pin && !pin)}
+                            className={`mt-4 px-8 py-3 rounded-xl text-white font-black shadow-md disabled:opacity-50 ${openPunch ? 'bg-rose-600 hover:bg-rose-700' : 'bg-emerald-600 hover:bg-emerald-700'}`}
+                        >
+                            <i className={`fa-solid ${openPunch ? 'fa-right-from-bracket' : 'fa-right-to-bracket'} mr-2`}></i>
+                            {openPunch ? 'Punch Out' : 'Punch In'}
+                        </button>
+                    </div>
+                    {error && <p className="mt-3 text-sm font-bold text-rose-600">{error}</p>}
+                    {settings.require_network && <p className="mt-2 text-[11px] text-slate-400">Punches are only accepted on the clinic network.</p>}
+                </div>
+
+                <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-xs font-black uppercase tracking-widest text-slate-400">Pay period {formatDay(period.start)} – {formatDay(period.end)}</h3>
+                    {summary && (
+                        <span className="text-xs font-bold text-slate-600 dark:text-slate-300">
+                            {summary.regular_hours}h regular{summary.overtime_hours > 0 ? ` · ${summary.overtime_hours}h overtime` : ''}
+                        </span>
+                    )}
+                </div>
+                <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1.5">
+                    {days.filter(d => d.date <= today).reverse().map(day => (
+                        <div key={day.date} className="p-2 rounded-xl border border-slate-100 dark:border-slate-800 text-sm">
+                            <div className="flex items-center justify-between">
+                                <span className="font-bold text-slate-700 dark:text-slate-200">{formatDay(day.date)}</span>
+                                <span className="text-xs text-slate-500">
+                                    {day.shift ? `${day.shift.start_time}–${day.shift.end_time}` : 'Unscheduled'} · {day.punches.map(p => `${formatPunchTime(p.punch_in)}–${formatPunchTime(p.punch_out)}`).join(', ') || 'no punches'} · <b>{day.hours}h</b>
+                                </span>
+                            </div>
+                            {day.flags.map(f => (
+                                <div key={f.type} className="text-xs text-amber-700 dark:text-amber-400 mt-1"><i className="fa-solid fa-triangle-exclamation mr-1"></i>{f.detail}</div>
+                            ))}
+                        </div>
+                    ))}
+                    {days.length === 0 && <p className="text-sm text-slate-500">No shifts or punches yet this pay period.</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TimeClock;
@@ -0,0 +1,387 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Shift, TimeClockSettings, TimePunch, TimesheetApproval, TimesheetDay, User } from '../types';
+import { ScheduleService } from '../services/ScheduleService';
+import { useAppData } from '../contexts/AppDataContext';
+import { localDateStr } from '../utils/autoScheduler';
+import { DEFAULT_TIME_CLOCK_SETTINGS, PayPeriod, PaySummary, addDays, buildTimesheet, formatPunchTime, isApprovalCurrent, payPeriodFor, punchDate, summarizePay } from '../utils/timeClock';
+
+type ExtendedUser = User & { full_name?: string };
+
+interface TimesheetsProps {
+    users: User[];
+    currentUser: User;
+    onClose: () => void;
+}
+
+// A punch being corrected, or a missed one being entered (no id)
+interface PunchEdit {
+    id?: string;
+    user_id: string;
+    date: string;
+    punchIn: string; // HH:mm
+    punchOut: string; // HH:mm; blank leaves the punch open
+    reason: string;
+}
+
+const inputClass = 'px-2 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-200 outline-none focus:border-indigo-500';
+
+const nameOf = (u?: User) => u ? ((u as ExtendedUser).full_name || u.username) : 'Unknown';
+
+const formatDay = (date: string) => new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const timeOf = (timestamp?: string | null) => {
+    if (!timestamp) return '';
+    const d = new Date(timestamp);
+    return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+const Timesheets: React.FC<TimesheetsProps> = ({ users, currentUser, onClose }) => {
+    const { addLog } = useAppData();
+    const [tab, setTab] = useState<'timesheets' | 'settings'>('timesheets');
+    const [settings, setSettings] = useState<TimeClockSettings>(DEFAULT_TIME_CLOCK_SETTINGS);
+    const [period, setPeriod] = useState<PayPeriod>(() => payPeriodFor(localDateStr(new Date()), DEFAULT_TIME_CLOCK_SETTINGS));
+    const [shifts, setShifts] = useState<Shift[]>([]);
+    const [punches, setPunches] = useState<TimePunch[]>([]);
+    const [approvals, setApprovals] = useState<TimesheetApproval[]>([]);
+    const [expandedUser, setExpandedUser] = useState<string | null>(null);
+    const [edit, setEdit] = useState<PunchEdit | null>(null);
+    const [newPin, setNewPin] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+
+    useEffect(() => {
+        ScheduleService.fetchTimeClockSettings().then(saved => {
+            if (!saved) return;
+            setSettings(saved);
+            setPeriod(payPeriodFor(localDateStr(new Date()), saved));
+        });
+    }, []);
+
+    const loadPeriod = async () => {
+        const [fetchedShifts, fetchedPunches, fetchedApprovals] = await Promise.all([
+            ScheduleService.fetchShifts(period.start, period.end),
+            ScheduleService.fetchTimePunches(period.start, period.end),
+            ScheduleService.fetchTimesheetApprovals(period.start)
+        ]);
+        setShifts(fetchedShifts);
+        setPunches(fetchedPunches);
+        setApprovals(fetchedApprovals);
+    };
+
+    useEffect(() => {
+        loadPeriod();
+    }, [period.start]);
+
+    const days = useMemo(() => buildTimesheet(shifts, punches, period, settings), [shifts, punches, period, settings]);
+    const summaries = useMemo(() => summarizePay(days, period, settings)
+        .sort((a, b) => nameOf(users.find(u => u.id === a.user_id)).localeCompare(nameOf(users.find(u => u.id === b.user_id)))), [days, period, settings, users]);
+
+    const userById = (id?: string | null) => users.find(u => u.id === id);
+    const approvalFor = (userId: string) => approvals.find(a => a.user_id === userId);
+    const hasOpenPunch = (userId: string) => punches.some(p => p.user_id === userId && !p.punch_out && punchDate(p.punch_in) <= period.end);
+
+    const movePeriod = (direction: -1 | 1) => {
+        const length = settings.pay_period_days || 14;
+        setPeriod({ start: addDays(period.start, direction * length), end: addDays(period.end, direction * length) });
+        setExpandedUser(null);
+        setEdit(null);
+    };
+
+    const run = async (step: () => Promise<void>, failure: string) => {
+        setIsBusy(true);
+        try {
+            await step();
+        } catch (e) {
+            console.error(failure, e);
+            alert(failure);
+        }
+        setIsBusy(false);
+    };
+
+    const handleSavePunch = () => run(async () => {
+        if (!edit || !edit.reason.trim()) return;
+        const punchIn = new Date(`${edit.date}T${edit.punchIn}:00`);
+        const punchOut: Date | null = edit.punchOut ? new Date(`${edit.date}T${edit.punchOut}:00`) : null;
+        // An out time before the in time is after midnight
+        if (punchOut && punchOut <= punchIn) punchOut.setDate(punchOut.getDate() + 1);
+
+        const fields = {
+            punch_in: punchIn.toISOString(),
+            punch_out: punchOut ? punchOut.toISOString() : null,
+            source: 'manual' as const,
+            edited_by: currentUser.id,
+            edit_reason: edit.reason.trim()
+        };
+        const before = edit.id ? punches.find(p => p.id === edit.id) : undefined;
+        const saved = edit.id
+            ? await ScheduleService.updateTimePunch(edit.id, fields)
+            : await ScheduleService.createTimePunch({ ...fields, user_id: edit.user_id });
+
+        addLog('PUNCH_EDITED', `${edit.id ? 'Corrected' : 'Added'} punch for ${nameOf(userById(edit.user_id))} on ${edit.date}: ${edit.reason.trim()}`, currentUser.username, {
+            entityType: 'time_punch',
+            entityId: saved.id,
+            before: before ? { punch_in: before.punch_in, punch_out: before.punch_out ?? null } : null,
+            after: { punch_in: saved.punch_in, punch_out: saved.punch_out ?? null }
+        });
+        setEdit(null);
+        await loadPeriod();
+    }, 'Failed to save the punch');
+
+    const handleApprove = (summary: PaySummary) => run(async () => {
+        const saved = await ScheduleService.approveTimesheet({
+            user_id: summary.user_id,
+            period_start: period.start,
+            period_end: period.end,
+            regular_hours: summary.regular_hours,
+            overtime_hours: summary.overtime_hours,
+            approved_by: currentUser.id
+        });
+        addLog('TIMESHEET_APPROVED', `Approved ${nameOf(userById(summary.user_id))}'s timesheet for ${period.start} – ${period.end}: ${summary.regular_hours}h regular, ${summary.overtime_hours}h overtime`, currentUser.username, {
+            entityType: 'timesheet',
+            entityId: saved.id,
+            after: { regular_hours: saved.regular_hours, overtime_hours: saved.overtime_hours, flags: summary.flags }
+        });
+        setApprovals(prev => [...prev.filter(a => a.user_id !== saved.user_id), saved]);
+    }, 'Failed to approve the timesheet');
+
+    const handleReopen = (approval: TimesheetApproval) => run(async () => {
+        await ScheduleService.removeTimesheetApproval(approval.id!);
+        addLog('TIMESHEET_REOPENED', `Reopened ${nameOf(userById(approval.user_id))}'s timesheet for ${period.start} – ${period.end}`, currentUser.username, {
+            entityType: 'timesheet',
+            entityId: approval.id,
+            before: { regular_hours: approval.regular_hours, overtime_hours: approval.overtime_hours }
+        });
+        setApprovals(prev => prev.filter(a => a.id !== approval.id));
+    }, 'Failed to reopen the timesheet');
+
+    const handleExport = () => {
+        const summaryRows = summaries.map(s => {
+            const approval = approvalFor(s.user_id);
+            const current = isApprovalCurrent(approval, s);
+            return {
+                Employee: nameOf(userById(s.user_id)),
+                Role: userById(s.user_id)?.role || '',
+                'Regular Hours': s.regular_hours,
+                'Overtime Hours': s.overtime_hours,
+                'Total Hours': s.total_hours,
+                Exceptions: s.flags,
+                Status: current ? 'Approved' : approval ? 'Changed since approval' : 'Not approved',
+                'Approved By': current ? nameOf(userById(approval!.approved_by)) : '',
+                'Approved At': current && approval!.approved_at ? new Date(approval!.approved_at).toLocaleString() : ''
+            };
+        });
+        const punchRows = days.map(d => ({
+            Employee: nameOf(userById(d.user_id)),
+            Date: d.date,
+            Scheduled: d.shift ? `${d.shift.start_time}–${d.shift.end_time}` : '',
+            Punches: d.punches.map(p => `${formatPunchTime(p.punch_in)}–${formatPunchTime(p.punch_out)}${p.source === 'manual' ? ' (edited)' : ''}`).join(', '),
+            Hours: d.hours,
+            Exceptions: d.flags.map(f => f.detail).join('; '),
+            'Edit Reasons': d.punches.map(p => p.edit_reason).filter(Boolean).join('; ')
+        }));
+        const wb = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(summaryRows), 'Pay Period');
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(punchRows), 'Punches');
+        XLSX.writeFile(wb, `Timesheets_${period.start}_to_${period.end}.xlsx`);
+    };
+
+    const handleSaveSettings = () => run(async () => {
+        const saved = await ScheduleService.saveTimeClockSettings({
+            ...settings,
+            allowed_networks: settings.allowed_networks.map(n => n.trim()).filter(Boolean)
+        });
+        setSettings(saved);
+    }, 'Failed to save time clock settings. Check that each network is a valid address or CIDR block.');
+
+    const handleSetPin = (pin: string | null) => run(async () => {
+        await ScheduleService.setTimeClockPin(pin);
+        setNewPin('');
+        alert(pin ? 'Clock PIN updated' : 'Clock PIN removed');
+    }, 'Failed to change the clock PIN');
+
+    const renderDay = (day: TimesheetDay) => (
+        <div key={day.date} className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 text-xs space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="font-bold text-slate-700 dark:text-slate-200 w-24">{formatDay(day.date)}</span>
+                <span className="text-slate-500 w-24">{day.shift ? `${day.shift.start_time}–${day.shift.end_time}` : 'Unscheduled'}</span>
+                {day.punches.map(p => (
+                    <button
+                        key={p.id}
+                        onClick={() => setEdit({ id: p.id, user_id: p.user_id, date: day.date, punchIn: timeOf(p.punch_in), punchOut: timeOf(p.punch_out), reason: '' })}
+                        title={p.edit_reason ? `Edited: ${p.edit_reason}` : 'Correct this punch'}
+                        className={`px-2 py-0.5 rounded-md border font-bold ${p.source === 'manual' ? 'border-indigo-200 text-indigo-700' : 'border-slate-200 text-slate-600'} hover:bg-white`}
+                    >
+                        {formatPunchTime(p.punch_in)}–{formatPunchTime(p.punch_out)}
+                    </button>
+                ))}
+                <button
+                    onClick={() => setEdit({ user_id: day.user_id, date: day.date, punchIn: day.shift?.start_time || '08:00', punchOut: day.shift?.end_time || '', reason: '' })}
+                    className="text-indigo-600 font-bold hover:underline"
+                >
+                    + Add punch
+                </button>
+                <span className="ml-auto font-black text-slate-700 dark:text-slate-200">{day.hours}h</span>
+            </div>
+            {day.flags.map(f => (
+                <div key={f.type} className="text-amber-700 dark:text-amber-400"><i className="fa-solid fa-triangle-exclamation mr-1"></i>{f.detail}</div>
+            ))}
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-xl w-full max-w-4xl p-6 overflow-hidden flex flex-col max-h-[90vh] border border-slate-200 dark:border-slate-800" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-3 text-indigo-600 dark:text-indigo-400">
+                        <div className="bg-indigo-100 dark:bg-indigo-500/20 p-2 rounded-xl"><i className="fa-solid fa-file-invoice-dollar text-xl"></i></div>
+                        <h2 className="text-xl font-black">Timesheets</h2>
+                    </div>
+                    <button onClick={onClose} className="w-9 h-9 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-rose-500"><i className="fa-solid fa-xmark"></i></button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3 mb-4">
+                    <div className="flex gap-1 bg-slate-100 dark:bg-slate-800 p-1 rounded-xl">
+                        {([['timesheets', 'Pay Period'], ['settings', 'Clock Settings']] as const).map(([id, label]) => (
+                            <button key={id} onClick={() => setTab(id)} className={`px-4 py-1.5 rounded-lg text-sm font-bold transition ${tab === id ? 'bg-white dark:bg-slate-900 text-indigo-600 shadow-sm' : 'text-slate-500'}`}>
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {tab === 'timesheets' && (
+                        <>
+                            <div className="flex bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 p-1">
+                                <button onClick={() => movePeriod(-1)} className="p-2 text-slate-500 hover:text-indigo-600 rounded-lg"><i className="fa-solid fa-chevron-left text-xs"></i></button>
+                                <div className="px-3 py-1.5 font-bold text-sm">{formatDay(period.start)} – {formatDay(period.end)}</div>
+                                <button onClick={() => movePeriod(1)} className="p-2 text-slate-500 hover:text-indigo-600 rounded-lg"><i className="fa-solid fa-chevron-right text-xs"></i></button>
+                            </div>
+                            <button onClick={handleExport} disabled={summaries.length === 0} className="ml-auto px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-sm rounded-xl shadow-sm disabled:opacity-50">
+                                <i className="fa-solid fa-file-excel mr-2 text-emerald-600"></i>Export Pay Period
+                            </button>
+                        </>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto custom-scrollbar pr-1 space-y-2">
+                    {tab === 'timesheets' && (
+                        <>
+                            {summaries.map(s => {
+                                const approval = approvalFor(s.user_id);
+                                const current = isApprovalCurrent(approval, s);
+                                const open = hasOpenPunch(s.user_id);
+                                return (
+                                    <div key={s.user_id} className="rounded-xl border border-slate-100 dark:border-slate-800 p-3 space-y-2">
+                                        <div className="flex flex-wrap items-center gap-3">
+                                            <button onClick={() => setExpandedUser(expandedUser === s.user_id ? null : s.user_id)} className="flex items-center gap-2 font-bold text-slate-800 dark:text-slate-100">
+                                                <i className={`fa-solid fa-chevron-${expandedUser === s.user_id ? 'down' : 'right'} text-xs text-slate-400`}></i>
+                                                {nameOf(userById(s.user_id))}
+                                            </button>
+                                            <span className="text-sm text-slate-600 dark:text-slate-300">{s.regular_hours}h regular</span>
+                                            <span className={`text-sm ${s.overtime_hours > 0 ? 'font-bold text-rose-600' : 'text-slate-400'}`}>{s.overtime_hours}h overtime</span>
+                                            {s.flags > 0 && <span className="text-xs font-bold px-2 py-0.5 rounded-md bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400">{s.flags} exception(s)</span>}
+                                            <div className="ml-auto flex items-center gap-2">
+                                                {current ? (
+                                                    <>
+                                                        <span className="text-xs font-bold text-emerald-600"><i className="fa-solid fa-circle-check mr-1"></i>Approved by {nameOf(userById(approval!.approved_by))}</span>
+                                                        <button onClick={() => handleReopen(approval!)} disabled={isBusy} className="text-xs font-bold text-slate-500 hover:underline">Reopen</button>
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        {approval && <span className="text-xs font-bold text-amber-600">Changed since approval</span>}
+                                                        <button
+                                                            onClick={() => handleApprove(s)}
+                                                            disabled={isBusy || open}
+                                                            title={open ? 'Close the open punch before approving' : undefined}
+                                                            className="px-3 py-1.5 bg-emerald-600 text-white font-bold text-xs rounded-lg hover:bg-emerald-700 disabled:opacity-40"
+                                                        >
+                                                            Approve
+                                                        </button>
+                                                    </>
+                                                )}
+                                            </div>
+                                        </div>
+                                        {expandedUser === s.user_id && (
+                                            <div className="space-y-1">
+                                                {days.filter(d => d.user_id === s.user_id).map(renderDay)}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                            {summaries.length === 0 && <p className="text-sm text-slate-500">No shifts or punches in this pay period.</p>}
+                        </>
+                    )}
+
+                    {tab === 'settings' && (
+                        <div className="space-y-4">
+                            <label className="flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-200">
+                                <input type="checkbox" checked={settings.require_network} onChange={e => setSettings({ ...settings, require_network: e.target.checked })} className="accent-indigo-600" />
+                                Only accept punches from the clinic network
+                            </label>
+                            {settings.require_network && (
+                                <label className="text-xs font-bold text-slate-500 flex flex-col gap-1">
+                                    Clinic public IP addresses or CIDR blocks, one per line
+                                    <textarea
+                                        rows={3}
+                                        value={settings.allowed_networks.join('\n')}
+                                        onChange={e => setSettings({ ...settings, allowed_networks: e.target.value.split('\n') })}
+                                        placeholder="203.0.113.0/24"
+                                        className={`${inputClass} font-mono`}
+                                    />
+                                </label>
+                            )}
+                            <label className="flex items-center gap-2 text-sm font-bold text-slate-700 dark:text-slate-200">
+                                <input type="checkbox" checked={settings.require_pin} onChange={e => setSettings({ ...settings, require_pin: e.target.checked })} className="accent-indigo-600" />
+                                Require the clinic PIN to punch
+                            </label>
+                            {settings.require_pin && (
+                                <div className="flex items-center gap-2">
+                                    <input type="password" inputMode="numeric" value={newPin} onChange={e => setNewPin(e.target.value)} placeholder="New PIN" className={`${inputClass} w-36`} />
+                                    <button onClick={() => handleSetPin(newPin)} disabled={isBusy || newPin.length < 4} className="px-3 py-1.5 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-xs rounded-lg disabled:opacity-50">Set PIN</button>
+                                    <button onClick={() => handleSetPin(null)} disabled={isBusy} className="px-3 py-1.5 text-rose-600 font-bold text-xs hover:underline disabled:opacity-50">Remove PIN</button>
+                                </div>
+                            )}
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                <label className="text-xs font-bold text-slate-500 flex flex-col gap-1">
+                                    Grace period (min)
+                                    <input type="number" min={0} value={settings.grace_minutes} onChange={e => setSettings({ ...settings, grace_minutes: Number(e.target.value) || 0 })} className={inputClass} />
+                                </label>
+                                <label className="text-xs font-bold text-slate-500 flex flex-col gap-1">
+                                    Pay period
+                                    <select value={settings.pay_period_days} onChange={e => setSettings({ ...settings, pay_period_days: Number(e.target.value) })} className={inputClass}>
+                                        <option value={7}>Weekly</option>
+                                        <option value={14}>Biweekly</option>
+                                    </select>
+                                </label>
+                                <label className="text-xs font-bold text-slate-500 flex flex-col gap-1">
+                                    A period starts on
+                                    <input type="date" value={settings.pay_period_anchor} onChange={e => setSettings({ ...settings, pay_period_anchor: e.target.value })} className={inputClass} />
+                                </label>
+                                <label className="text-xs font-bold text-slate-500 flex flex-col gap-1">
+                                    Overtime after (h/week)
+                                    <input type="number" min={1} value={settings.overtime_weekly_hours} onChange={e => setSettings({ ...settings, overtime_weekly_hours: Number(e.target.value) || 40 })} className={inputClass} />
+                                </label>
+                            </div>
+                            <div className="flex justify-end">
+                                <button onClick={handleSaveSettings} disabled={isBusy} className="px-4 py-2 border border-slate-200 bg-white hover:bg-slate-50 text-slate-700 font-bold text-sm rounded-xl shadow-sm disabled:opacity-50">Save Settings</button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {edit && (
+                    <div className="mt-3 p-3 rounded-xl border border-indigo-200 bg-indigo-50/50 dark:bg-indigo-900/10 dark:border-indigo-800 flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-bold text-slate-700 dark:text-slate-200">{edit.id ? 'Correct' : 'Add'} punch · {nameOf(userById(edit.user_id))} · {formatDay(edit.date)}</span>
+                        <input type="time" value={edit.punchIn} onChange={e => setEdit({ ...edit, punchIn: e.target.value })} className={inputClass} />
+                        <span className="text-slate-400">–</span>
+                        <input type="time" value={edit.punchOut} onChange={e => setEdit({ ...edit, punchOut: e.target.value })} className={inputClass} />
+                        <input value={edit.reason} onChange={e => setEdit({ ...edit, reason: e.target.value })} placeholder="Reason (required)" className={`${inputClass} flex-1 min-w-[12rem]`} />
+                        <button onClick={() => setEdit(null)} className="px-3 py-1.5 text-slate-500 font-bold text-xs hover:underline">Cancel</button>
+                        <button onClick={handleSavePunch} disabled={isBusy || !edit.punchIn || !edit.reason.trim()} className="px-3 py-1.5 bg-indigo-600 text-white font-bold text-xs rounded-lg hover:bg-indigo-700 disabled:opacity-40">Save Punch</button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default Timesheets;
@@ -0,0 +1,422 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { User, Permission, StockTransfer, TransferStatus, OrgStockRow } from '../types';
+import { TransferService, TransferLocation } from '../services/TransferService';
+import { InventoryService } from '../services/InventoryService';
+import { useTenant } from '../contexts/TenantContext';
+import { useInventory } from '../contexts/InventoryContext';
+import { useAppData } from '../contexts/AppDataContext';
+
+interface TransfersProps {
+    user: User;
+    hasPermission: (permission: Permission) => boolean;
+    t: (key: string) => string;
+}
+
+const STATUS_STYLES: Record<TransferStatus, string> = {
+    REQUESTED: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+    SHIPPING: 'bg-blue-50 text-blue-500 dark:bg-blue-900/20 dark:text-blue-300',
+    SHIPPED: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+    RECEIVING: 'bg-emerald-50 text-emerald-500 dark:bg-emerald-900/20 dark:text-emerald-300',
+    RECEIVED: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+    CANCELLED: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400'
+};
+
+const Transfers: React.FC<TransfersProps> = ({ user, hasPermission, t }) => {
+    const { currentOrg, locationId } = useTenant();
+    const { inventory, setInventory, refreshInventory } = useInventory();
+    const { addLog } = useAppData();
+
+    const [activeTab, setActiveTab] = useState<'transfers' | 'org'>('transfers');
+    const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+    const [locations, setLocations] = useState<TransferLocation[]>([]);
+    const [orgStock, setOrgStock] = useState<OrgStockRow[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+    const [orgSearch, setOrgSearch] = useState('');
+
+    // Request form
+    const [requestItemId, setRequestItemId] = useState('');
+    const [requestFrom, setRequestFrom] = useState('');
+    const [requestQty, setRequestQty] = useState(1);
+    const [requestNotes, setRequestNotes] = useState('');
+
+    const canEdit = hasPermission('inventory.edit');
+    const otherLocations = locations.filter(l => l.id !== locationId);
+    const locationName = (id: string) => locations.find(l => l.id === id)?.name || 'Unknown location';
+
+    const loadData = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const locs = currentOrg ? await TransferService.fetchLocations(currentOrg.id) : [];
+            setLocations(locs);
+            const [transferList, stockRows] = await Promise.all([
+                TransferService.fetchAll(),
+                InventoryService.fetchOrgStock(locs.map(l => l.id))
+            ]);
+            setTransfers(transferList);
+            setOrgStock(stockRows);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentOrg, locationId]);
+
+    useEffect(() => {
+        loadData();
+    }, [loadData]);
+
+    const replaceTransfer = (updated: StockTransfer) => {
+        setTransfers(prev => prev.map(tr => tr.id === updated.id ? updated : tr));
+    };
+
+    const logTransfer = async (action: 'TRANSFER_REQUESTED' | 'TRANSFER_SHIPPED' | 'TRANSFER_RECEIVED' | 'TRANSFER_CANCELLED', transfer: StockTransfer, details: string, itemId?: string) => {
+        addLog(action, details, user.username);
+        await InventoryService.logAction(user.id, action, itemId || transfer.id, {
+            transfer_id: transfer.id,
+            from_location_id: transfer.fromLocationId,
+            to_location_id: transfer.toLocationId,
+            quantity: transfer.quantity,
+            lots: transfer.lines.map(l => ({ lot_number: l.lotNumber, quantity: l.quantity }))
+        }, null, 'transfer');
+    };
+
+    const handleRequest = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const item = inventory.find(i => i.id === requestItemId);
+        if (!item || !requestFrom) return;
+
+        setBusyId('new');
+        setMessage(null);
+        try {
+            const created = await TransferService.requestTransfer(
+                { fromLocationId: requestFrom, item, quantity: requestQty, notes: requestNotes },
+                user.id,
+                currentOrg?.id || null
+            );
+            setTransfers(prev => [created, ...prev]);
+            await logTransfer('TRANSFER_REQUESTED', created, `Requested ${created.quantity} ${item.unit} of ${item.name} from ${locationName(requestFrom)}`);
+            setRequestItemId('');
+            setRequestQty(1);
+            setRequestNotes('');
+            setMessage({ text: 'Transfer requested', type: 'success' });
+        } catch (err: any) {
+            setMessage({ text: err.message, type: 'error' });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleShip = async (transfer: StockTransfer) => {
+        const sourceItem = TransferService.findMatchingItem(inventory, transfer);
+        if (!sourceItem) {
+            setMessage({ text: `${transfer.itemName} is not stocked at this location`, type: 'error' });
+            return;
+        }
+
+        setBusyId(transfer.id);
+        setMessage(null);
+        try {
+            const { transfer: shipped, item } = await TransferService.shipTransfer(transfer, sourceItem);
+            replaceTransfer(shipped);
+            setInventory(prev => prev.map(i => i.id === item.id ? item : i));
+            await logTransfer('TRANSFER_SHIPPED', shipped, `Shipped ${shipped.quantity} ${item.unit} of ${item.name} to ${locationName(shipped.toLocationId)}`, item.id);
+            setMessage({ text: 'Transfer shipped', type: 'success' });
+        } catch (err: any) {
+            setMessage({ text: err.message, type: 'error' });
+            // Part of the stock may have moved; show the transfer as it stands so it can be resumed
+            await Promise.all([loadData(), refreshInventory()]);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleReceive = async (transfer: StockTransfer) => {
+        const destinationItem = inventory.find(i => i.id === transfer.toItemId) || TransferService.findMatchingItem(inventory, transfer);
+
+        setBusyId(transfer.id);
+        setMessage(null);
+        try {
+            const { transfer: received, item, created } = await TransferService.receiveTransfer(transfer, destinationItem);
+            replaceTransfer(received);
+            setInventory(prev => created || !prev.some(i => i.id === item.id) ? [item, ...prev] : prev.map(i => i.id === item.id ? item : i));
+            await logTransfer('TRANSFER_RECEIVED', received, `Received ${received.quantity} ${item.unit} of ${item.name} from ${locationName(received.fromLocationId)}`, item.id);
+            setMessage({ text: 'Transfer received', type: 'success' });
+        } catch (err: any) {
+            setMessage({ text: err.message, type: 'error' });
+            await Promise.all([loadData(), refreshInventory()]);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleCancel = async (transfer: StockTransfer) => {
+        if (!window.confirm(`Cancel the transfer of ${transfer.itemName}?`)) return;
+
+        setBusyId(transfer.id);
+        setMessage(null);
+        try {
+            const cancelled = await TransferService.cancelTransfer(transfer);
+            replaceTransfer(cancelled);
+            await logTransfer('TRANSFER_CANCELLED', cancelled, `Cancelled transfer of ${cancelled.itemName}`);
+        } catch (err: any) {
+            setMessage({ text: err.message, type: 'error' });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const filteredOrgStock = useMemo(() => {
+        const term = orgSearch.trim().toLowerCase();
+        if (!term) return orgStock;
+        return orgStock.filter(r => r.name.toLowerCase().includes(term) || (r.sku || '').toLowerCase().includes(term));
+    }, [orgStock, orgSearch]);
+
+    const openCount = transfers.filter(tr => tr.status !== 'RECEIVED' && tr.status !== 'CANCELLED').length;
+
+    return (
+        <div className="space-y-6 pb-20 md:pb-10 animate-fade-in-up">
+            {/* Header */}
+            <header className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+                <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 rounded-2xl bg-medical-500 flex items-center justify-center shadow-lg shadow-medical-500/20">
+                        <i className="fa-solid fa-truck-ramp-box text-xl text-white"></i>
+                    </div>
+                    <div>
+                        <h2 className="text-display text-slate-900 dark:text-white">Transfers</h2>
+                        <p className="text-caption mt-0.5">Move stock between {currentOrg?.name || 'organization'} locations</p>
+                    </div>
+                </div>
+                <button
+                    onClick={loadData}
+                    disabled={isLoading}
+                    className="h-11 px-5 glass-panel text-slate-900 dark:text-white rounded-xl font-semibold text-sm shadow-md flex items-center gap-2 transition-all hover:scale-105 active:scale-95 disabled:opacity-50"
+                >
+                    <i className={`fa-solid fa-rotate ${isLoading ? 'animate-spin' : ''}`}></i>
+                    Refresh
+                </button>
+            </header>
+
+            {/* Tabs */}
+            <div className="glass-panel p-1.5 rounded-2xl flex w-full overflow-x-auto shadow-sm custom-scrollbar snap-x">
+                <button
+                    onClick={() => setActiveTab('transfers')}
+                    className={`flex-shrink-0 snap-start px-6 py-3 rounded-xl text-sm font-bold transition-all whitespace-nowrap ${activeTab === 'transfers'
+                        ? 'bg-white dark:bg-slate-800 shadow-sm text-medical-500'
+                        : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'
+                        }`}
+                >
+                    <i className="fa-solid fa-right-left mr-2"></i> Transfers
+                    {openCount > 0 && (
+                        <span className="ml-2 px-2 py-0.5 bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 rounded-full text-xs font-bold">{openCount}</span>
+                    )}
+                </button>
+                <button
+                    onClick={() => setActiveTab('org')}
+                    className={`flex-shrink-0 snap-start px-6 py-3 rounded-xl text-sm font-bold transition-all whitespace-nowrap ${activeTab === 'org'
+                        ? 'bg-white dark:bg-slate-800 shadow-sm text-medical-500'
+                        : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'
+                        }`}
+                >
+                    <i className="fa-solid fa-building mr-2"></i> All Locations
+                </button>
+            </div>
+
+            {message && (
+                <div className={`px-4 py-3 rounded-xl text-sm font-bold ${message.type === 'error' ? 'bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400' : 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/20 dark:text-emerald-400'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {/* TRANSFERS TAB */}
+            {activeTab === 'transfers' && (
+                <>
+                    {canEdit && otherLocations.length > 0 && (
+                        <form onSubmit={handleRequest} className="glass-panel p-4 rounded-2xl grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+                            <label className="block md:col-span-2">
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t('col_item')}</span>
+                                <select
+                                    value={requestItemId}
+                                    onChange={(e) => setRequestItemId(e.target.value)}
+                                    required
+                                    className="mt-1 w-full h-11 px-3 bg-slate-50/50 dark:bg-slate-900/50 rounded-xl text-sm font-medium text-slate-700 dark:text-slate-200 outline-none"
+                                >
+                                    <option value="">Select item...</option>
+                                    {inventory.map(i => <option key={i.id} value={i.id}>{i.name} ({i.stock} on hand)</option>)}
+                                </select>
+                            </label>
+                            <label className="block">
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Request From</span>
+                                <select
+                                    value={requestFrom}
+                                    onChange={(e) => setRequestFrom(e.target.value)}
+                                    required
+                                    className="mt-1 w-full h-11 px-3 bg-slate-50/50 dark:bg-slate-900/50 rounded-xl text-sm font-medium text-slate-700 dark:text-slate-200 outline-none"
+                                >
+                                    <option value="">Select location...</option>
+                                    {otherLocations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                                </select>
+                            </label>
+                            <label className="block">
+                                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Quantity</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={requestQty}
+                                    onChange={(e) => setRequestQty(Number(e.target.value))}
+                                    className="mt-1 w-full h-11 px-3 bg-slate-50/50 dark:bg-slate-900/50 rounded-xl text-sm font-bold text-slate-700 dark:text-slate-200 outline-none"
+                                />
+                            </label>
+                            <button
+                                type="submit"
+                                disabled={busyId === 'new'}
+                                className="h-11 px-5 bg-medical-600 text-white rounded-xl font-semibold text-sm shadow-lg shadow-medical-500/30 transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                            >
+                                <i className="fa-solid fa-paper-plane"></i> Request
+                            </button>
+                            <input
+                                type="text"
+                                value={requestNotes}
+                                onChange={(e) => setRequestNotes(e.target.value)}
+                                placeholder="Notes (optional)"
+                                className="md:col-span-5 w-full h-10 px-3 bg-slate-50/50 dark:bg-slate-900/50 rounded-xl text-sm text-slate-700 dark:text-slate-200 outline-none"
+                            />
+                        </form>
+                    )}
+
+                    <div className="glass-panel rounded-2xl overflow-hidden">
+                        {transfers.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center py-20 text-center">
+                                <div className="w-20 h-20 bg-slate-100 dark:bg-slate-800 rounded-full flex items-center justify-center mb-4">
+                                    <i className="fa-solid fa-right-left text-3xl text-slate-400"></i>
+                                </div>
+                                <h3 className="text-xl font-bold text-slate-900 dark:text-white">{isLoading ? 'Loading...' : 'No Transfers'}</h3>
+                                <p className="text-slate-500 mt-2">Requests to and from this location will appear here.</p>
+                            </div>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-left border-collapse">
+                                    <thead className="bg-slate-50 dark:bg-slate-800/50 border-b border-slate-100 dark:border-slate-800">
+                                        <tr>
+                                            <th className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider">{t('col_item')}</th>
+                                            <th className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider">Route</th>
+                                            <th className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-center">Qty</th>
+                                            <th className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider">{t('col_status')}</th>
+                                            <th className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-right">{t('th_controls')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-50 dark:divide-slate-800">
+                                        {transfers.map(tr => {
+                                            const isOutgoing = tr.fromLocationId === locationId;
+                                            const busy = busyId === tr.id;
+                                            return (
+                                                <tr key={tr.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
+                                                    <td className="p-4">
+                                                        <div className="font-bold text-slate-900 dark:text-white">{tr.itemName}</div>
+                                                        {tr.lines.length > 0 && (
+                                                            <div className="text-xs text-slate-400 mt-1 font-mono">
+                                                                {tr.lines.map(l => `${l.lotNumber} ×${l.quantity}`).join(', ')}
+                                                            </div>
+                                                        )}
+                                                        {tr.notes && <div className="text-xs text-slate-500 mt-1 italic">{tr.notes}</div>}
+                                                    </td>
+                                                    <td className="p-4 text-sm text-slate-600 dark:text-slate-300">
+                                                        <span className={isOutgoing ? 'font-bold' : ''}>{locationName(tr.fromLocationId)}</span>
+                                                        <i className="fa-solid fa-arrow-right mx-2 text-slate-400 text-xs"></i>
+                                                        <span className={!isOutgoing ? 'font-bold' : ''}>{locationName(tr.toLocationId)}</span>
+                                                        <div className="text-[10px] text-slate-400 mt-1">{new Date(tr.requestedAt).toLocaleDateString()}</div>
+                                                    </td>
+                                                    <td className="p-4 text-center font-bold tabular-nums">{tr.quantity} <span className="text-xs text-slate-400">{t(tr.unit)}</span></td>
+                                                    <td className="p-4">
+                                                        <span className={`px-3 py-1 rounded-lg text-xs font-bold ${STATUS_STYLES[tr.status]}`}>{tr.status}</span>
+                                                    </td>
+                                                    <td className="p-4 text-right whitespace-nowrap">
+                                                        {canEdit && isOutgoing && (tr.status === 'REQUESTED' || (tr.status === 'SHIPPING' && TransferService.isResumable(tr))) && (
+                                                            <button
+                                                                onClick={() => handleShip(tr)}
+                                                                disabled={busy}
+                                                                className="px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-500 text-white hover:bg-blue-600 transition-all disabled:opacity-50"
+                                                            >
+                                                                <i className="fa-solid fa-truck mr-1"></i> {tr.status === 'SHIPPING' ? 'Resume shipping' : 'Ship'}
+                                                            </button>
+                                                        )}
+                                                        {canEdit && !isOutgoing && (tr.status === 'SHIPPED' || (tr.status === 'RECEIVING' && TransferService.isResumable(tr))) && (
+                                                            <button
+                                                                onClick={() => handleReceive(tr)}
+                                                                disabled={busy}
+                                                                className="px-3 py-1.5 rounded-lg text-xs font-bold bg-emerald-500 text-white hover:bg-emerald-600 transition-all disabled:opacity-50"
+                                                            >
+                                                                <i className="fa-solid fa-box-open mr-1"></i> {tr.status === 'RECEIVING' ? 'Resume receiving' : t('btn_receive')}
+                                                            </button>
+                                                        )}
+                                                        {canEdit && tr.status === 'REQUESTED' && (
+                                                            <button
+                                                                onClick={() => handleCancel(tr)}
+                                                                disabled={busy}
+                                                                className="ml-2 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-red-50 hover:text-red-500 transition-all disabled:opacity-50"
+                                                            >
+                                                                Cancel
+                                                            </button>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                </>
+            )}
+
+            {/* ORG-WIDE TAB */}
+            {activeTab === 'org' && (
+                <div className="glass-panel rounded-2xl overflow-hidden">
+                    <div className="p-3 border-b border-slate-100 dark:border-slate-800">
+                        <input
+                            type="text"
+                            value={orgSearch}
+                            onChange={(e) => setOrgSearch(e.target.value)}
+                            placeholder={t('search_placeholder')}
+                            className="w-full h-10 px-4 bg-slate-50/50 dark:bg-slate-900/50 rounded-xl text-sm text-slate-700 dark:text-slate-200 outline-none"
+                        />
+                    </div>
+                    <div className="overflow-x-auto max-h-[600px] custom-scrollbar">
+                        <table className="w-full text-left border-collapse">
+                            <thead className="bg-slate-50 dark:bg-slate-800/50 border-b border-slate-100 dark:border-slate-800 sticky top-0 z-10">
+                                <tr>
+                                    <th className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider">{t('col_item')}</th>
+                                    {locations.map(l => (
+                                        <th key={l.id} className={`p-4 text-xs font-bold uppercase tracking-wider text-center ${l.id === locationId ? 'text-medical-500' : 'text-slate-400'}`}>{l.name}</th>
+                                    ))}
+                                    <th className="p-4 text-xs font-bold text-slate-400 uppercase tracking-wider text-right">Total</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-50 dark:divide-slate-800">
+                                {filteredOrgStock.map(row => (
+                                    <tr key={row.key} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
+                                        <td className="p-4">
+                                            <div className="font-bold text-slate-900 dark:text-white">{row.name}</div>
+                                            {row.sku && <div className="text-xs text-slate-400 mt-1 font-mono">{row.sku}</div>}
+                                        </td>
+                                        {locations.map(l => {
+                                            const qty = row.byLocation[l.id];
+                                            return (
+                                                <td key={l.id} className={`p-4 text-center tabular-nums ${qty === undefined ? 'text-slate-300 dark:text-slate-600' : qty === 0 ? 'text-red-500 font-bold' : 'text-slate-700 dark:text-slate-200 font-bold'}`}>
+                                                    {qty === undefined ? '—' : qty}
+                                                </td>
+                                            );
+                                        })}
+                                        <td className="p-4 text-right font-black tabular-nums">{row.total} <span className="text-xs text-slate-400 font-normal">{t(row.unit)}</span></td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default Transfers;
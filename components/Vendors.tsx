@@ -0,0 +1,322 @@
+import React, { useState, useMemo } from 'react';
+import { Vendor, Order, Permission, PaymentTerms } from '../types';
+import { VendorService } from '../services/VendorService';
+import { getVendorDisplay, resolveVendor, normalizeVendorName } from '../utils/vendorBranding';
+
+interface VendorsProps {
+    vendors: Vendor[];
+    setVendors: React.Dispatch<React.SetStateAction<Vendor[]>>;
+    orders: Order[];
+    hasPermission: (permission: Permission) => boolean;
+    t: (key: string) => string;
+}
+
+const PAYMENT_TERMS: { value: PaymentTerms; label: string }[] = [
+    { value: 'DUE_ON_RECEIPT', label: 'Due on receipt' },
+    { value: 'NET_15', label: 'Net 15' },
+    { value: 'NET_30', label: 'Net 30' },
+    { value: 'NET_45', label: 'Net 45' },
+    { value: 'NET_60', label: 'Net 60' },
+    { value: 'PREPAID', label: 'Prepaid' },
+    { value: 'CREDIT_CARD', label: 'Credit card' }
+];
+
+const EMPTY_VENDOR: Omit<Vendor, 'id'> = {
+    name: '',
+    contactName: '',
+    email: '',
+    phone: '',
+    address: '',
+    website: '',
+    accountNumber: '',
+    defaultLeadTimeDays: undefined,
+    paymentTerms: undefined,
+    logoUrl: '',
+    notes: '',
+    isActive: true
+};
+
+const inputClass = 'mt-1 w-full h-10 px-3 text-sm rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 outline-none focus:ring-2 focus:ring-medical-500/20 focus:border-medical-500';
+const labelClass = 'text-[10px] font-bold text-slate-400 uppercase tracking-widest';
+
+const Vendors: React.FC<VendorsProps> = ({ vendors, setVendors, orders, hasPermission, t }) => {
+    const [search, setSearch] = useState('');
+    const [showArchived, setShowArchived] = useState(false);
+    const [editing, setEditing] = useState<Partial<Vendor> | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const canEdit = hasPermission('orders.create');
+
+    // Spend per vendor over the last 12 months, attributed by vendor ID
+    const spendByVendor = useMemo(() => {
+        const since = new Date();
+        since.setFullYear(since.getFullYear() - 1);
+        const sinceStr = since.toISOString().split('T')[0];
+
+        const totals: Record<string, { spend: number; orders: number }> = {};
+        orders.forEach(order => {
+            if (order.status === 'CANCELLED' || order.orderDate < sinceStr) return;
+            const vendor = resolveVendor(vendors, order);
+            if (!vendor) return;
+            const entry = totals[vendor.id] || { spend: 0, orders: 0 };
+            entry.spend += order.grandTotal || order.subtotal || 0;
+            entry.orders += 1;
+            totals[vendor.id] = entry;
+        });
+        return totals;
+    }, [orders, vendors]);
+
+    const visibleVendors = useMemo(() => {
+        const term = search.trim().toLowerCase();
+        return vendors
+            .filter(v => showArchived || v.isActive)
+            .filter(v => !term ||
+                v.name.toLowerCase().includes(term) ||
+                (v.contactName || '').toLowerCase().includes(term) ||
+                (v.accountNumber || '').toLowerCase().includes(term));
+    }, [vendors, search, showArchived]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing?.name?.trim()) return;
+
+        const duplicate = vendors.find(v => v.id !== editing.id && normalizeVendorName(v.name) === normalizeVendorName(editing.name!));
+        if (duplicate) {
+            alert(`A vendor named "${duplicate.name}" already exists.`);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            if (editing.id) {
+                const updated = await VendorService.updateVendor(editing.id, editing);
+                setVendors(prev => prev.map(v => v.id === updated.id ? updated : v));
+            } else {
+                const created = await VendorService.createVendor({ ...EMPTY_VENDOR, ...editing } as Omit<Vendor, 'id'>);
+                setVendors(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+            }
+            setEditing(null);
+        } catch (error) {
+            console.error('Failed to save vendor', error);
+            alert('Failed to save vendor. Check console.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggleArchive = async (vendor: Vendor) => {
+        if (vendor.isActive && !window.confirm(`Archive ${vendor.name}? Existing orders and budgets keep their link.`)) return;
+        try {
+            const updated = vendor.isActive
+                ? await VendorService.archiveVendor(vendor.id)
+                : await VendorService.updateVendor(vendor.id, { isActive: true });
+            setVendors(prev => prev.map(v => v.id === updated.id ? updated : v));
+        } catch (error) {
+            console.error('Failed to archive vendor', error);
+        }
+    };
+
+    const setField = <K extends keyof Vendor>(key: K, value: Vendor[K]) => {
+        setEditing(prev => ({ ...prev, [key]: value }));
+    };
+
+    return (
+        <div className="space-y-6 pb-20 md:pb-10 animate-fade-in-up">
+            {/* Header */}
+            <header className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+                <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 rounded-2xl bg-medical-500 flex items-center justify-center shadow-lg shadow-medical-500/20">
+                        <i className="fa-solid fa-truck-field text-xl text-white"></i>
+                    </div>
+                    <div>
+                        <h2 className="text-display text-slate-900 dark:text-white">Vendors</h2>
+                        <p className="text-caption mt-0.5">Suppliers, accounts, lead times and payment terms</p>
+                    </div>
+                </div>
+                {canEdit && (
+                    <button
+                        onClick={() => setEditing({ ...EMPTY_VENDOR })}
+                        className="h-11 px-6 bg-medical-600 text-white rounded-xl font-semibold shadow-xl shadow-medical-500/30 flex items-center gap-2.5 transition-all hover:scale-105 active:scale-95"
+                    >
+                        <i className="fa-solid fa-plus"></i>
+                        <span className="font-bold text-sm">Add Vendor</span>
+                    </button>
+                )}
+            </header>
+
+            {/* Search */}
+            <div className="glass-panel p-2.5 rounded-2xl flex flex-col md:flex-row gap-2.5 items-center">
+                <div className="relative flex-1 w-full">
+                    <i className="fa-solid fa-magnifying-glass absolute left-4 top-1/2 -translate-y-1/2 text-sm text-slate-400"></i>
+                    <input
+                        type="text"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search vendors, contacts or account numbers..."
+                        className="w-full pl-10 pr-4 h-11 bg-slate-50/50 dark:bg-slate-900/50 text-slate-900 dark:text-white focus:outline-none font-medium text-sm rounded-xl"
+                    />
+                </div>
+                <label className="flex items-center gap-2 px-4 text-sm font-bold text-slate-500 whitespace-nowrap cursor-pointer">
+                    <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} className="rounded" />
+                    Show archived
+                </label>
+            </div>
+
+            {/* Vendor Cards */}
+            {visibleVendors.length === 0 ? (
+                <div className="glass-panel rounded-2xl flex flex-col items-center justify-center py-20 text-center">
+                    <div className="w-20 h-20 bg-slate-100 dark:bg-slate-800 rounded-full flex items-center justify-center mb-4">
+                        <i className="fa-solid fa-truck-field text-3xl text-slate-400"></i>
+                    </div>
+                    <h3 className="text-xl font-bold text-slate-900 dark:text-white">No Vendors</h3>
+                    <p className="text-slate-500 mt-2">Add your suppliers to link orders and budgets to them.</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                    {visibleVendors.map(vendor => {
+                        const brand = getVendorDisplay(vendor, vendor.name);
+                        const stats = spendByVendor[vendor.id];
+                        return (
+                            <div key={vendor.id} className={`glass-panel rounded-2xl p-5 border border-white/40 dark:border-slate-800 ${vendor.isActive ? '' : 'opacity-60'}`}>
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="flex items-center gap-3">
+                                        {brand.logo ? (
+                                            <div className={`w-12 h-12 rounded-xl ${brand.logoBg} p-1.5 flex items-center justify-center shadow-md overflow-hidden`}>
+                                                <img src={brand.logo} alt={vendor.name} className="max-w-full max-h-full object-contain" />
+                                            </div>
+                                        ) : (
+                                            <div className={`w-12 h-12 rounded-xl bg-gradient-to-br ${brand.color} flex items-center justify-center text-white font-bold shadow-md`}>
+                                                {brand.initials}
+                                            </div>
+                                        )}
+                                        <div>
+                                            <h3 className="font-bold text-slate-900 dark:text-white">{vendor.name}</h3>
+                                            {vendor.accountNumber && <div className="text-xs font-mono text-slate-400">Acct {vendor.accountNumber}</div>}
+                                            {!vendor.isActive && <span className="text-[10px] font-bold uppercase text-slate-400">Archived</span>}
+                                        </div>
+                                    </div>
+                                    {canEdit && (
+                                        <div className="flex gap-1">
+                                            <button onClick={() => setEditing(vendor)} className="w-8 h-8 rounded-lg text-slate-400 hover:text-medical-600 hover:bg-medical-50 dark:hover:bg-medical-900/20 transition-all" title="Edit">
+                                                <i className="fa-solid fa-pen text-xs"></i>
+                                            </button>
+                                            <button onClick={() => handleToggleArchive(vendor)} className="w-8 h-8 rounded-lg text-slate-400 hover:text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20 transition-all" title={vendor.isActive ? 'Archive' : 'Restore'}>
+                                                <i className={`fa-solid ${vendor.isActive ? 'fa-box-archive' : 'fa-rotate-left'} text-xs`}></i>
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div className="mt-4 space-y-1.5 text-sm text-slate-600 dark:text-slate-300">
+                                    {vendor.contactName && <div><i className="fa-solid fa-user w-5 text-slate-400"></i>{vendor.contactName}</div>}
+                                    {vendor.email && <div className="truncate"><i className="fa-solid fa-envelope w-5 text-slate-400"></i><a href={`mailto:${vendor.email}`} className="hover:underline">{vendor.email}</a></div>}
+                                    {vendor.phone && <div><i className="fa-solid fa-phone w-5 text-slate-400"></i>{vendor.phone}</div>}
+                                </div>
+
+                                <div className="mt-4 grid grid-cols-3 gap-2 text-center">
+                                    <div className="rounded-xl bg-slate-50 dark:bg-slate-800/50 p-2">
+                                        <div className="text-[10px] font-bold text-slate-400 uppercase">Lead</div>
+                                        <div className="text-sm font-bold text-slate-700 dark:text-slate-200">{vendor.defaultLeadTimeDays ? `${vendor.defaultLeadTimeDays}d` : '—'}</div>
+                                    </div>
+                                    <div className="rounded-xl bg-slate-50 dark:bg-slate-800/50 p-2">
+                                        <div className="text-[10px] font-bold text-slate-400 uppercase">Terms</div>
+                                        <div className="text-sm font-bold text-slate-700 dark:text-slate-200">{PAYMENT_TERMS.find(p => p.value === vendor.paymentTerms)?.label || '—'}</div>
+                                    </div>
+                                    <div className="rounded-xl bg-slate-50 dark:bg-slate-800/50 p-2">
+                                        <div className="text-[10px] font-bold text-slate-400 uppercase">12-mo Spend</div>
+                                        <div className="text-sm font-bold text-emerald-600 dark:text-emerald-400 tabular-nums">${Math.round(stats?.spend || 0).toLocaleString()}</div>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Edit Modal */}
+            {editing && (
+                <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/80 backdrop-blur-xl p-4 animate-fade-in">
+                    <form onSubmit={handleSave} className="w-full max-w-2xl max-h-[90vh] bg-white dark:bg-[#0c1511] rounded-2xl shadow-2xl border border-white/20 dark:border-slate-800 overflow-hidden flex flex-col">
+                        <div className="p-6 flex items-center justify-between border-b border-slate-100 dark:border-slate-800">
+                            <h2 className="text-xl font-bold text-slate-900 dark:text-white">{editing.id ? 'Edit Vendor' : 'New Vendor'}</h2>
+                            <button type="button" onClick={() => setEditing(null)} className="w-10 h-10 rounded-xl flex items-center justify-center hover:bg-red-50 hover:text-red-500 transition-all">
+                                <i className="fa-solid fa-xmark"></i>
+                            </button>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 md:grid-cols-2 gap-4 custom-scrollbar">
+                            <label className="block md:col-span-2">
+                                <span className={labelClass}>Name *</span>
+                                <input type="text" required value={editing.name || ''} onChange={(e) => setField('name', e.target.value)} className={inputClass} />
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Contact</span>
+                                <input type="text" value={editing.contactName || ''} onChange={(e) => setField('contactName', e.target.value)} className={inputClass} />
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Account #</span>
+                                <input type="text" value={editing.accountNumber || ''} onChange={(e) => setField('accountNumber', e.target.value)} className={`${inputClass} font-mono`} />
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Email</span>
+                                <input type="email" value={editing.email || ''} onChange={(e) => setField('email', e.target.value)} className={inputClass} />
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Phone</span>
+                                <input type="tel" value={editing.phone || ''} onChange={(e) => setField('phone', e.target.value)} className={inputClass} />
+                            </label>
+                            <label className="block md:col-span-2">
+                                <span className={labelClass}>Address</span>
+                                <input type="text" value={editing.address || ''} onChange={(e) => setField('address', e.target.value)} className={inputClass} />
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Default Lead Time (days)</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={editing.defaultLeadTimeDays ?? ''}
+                                    onChange={(e) => setField('defaultLeadTimeDays', e.target.value === '' ? undefined : Number(e.target.value))}
+                                    className={inputClass}
+                                />
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Payment Terms</span>
+                                <select
+                                    value={editing.paymentTerms || ''}
+                                    onChange={(e) => setField('paymentTerms', (e.target.value || undefined) as PaymentTerms | undefined)}
+                                    className={inputClass}
+                                >
+                                    <option value="">—</option>
+                                    {PAYMENT_TERMS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                                </select>
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Website</span>
+                                <input type="url" value={editing.website || ''} onChange={(e) => setField('website', e.target.value)} className={inputClass} />
+                            </label>
+                            <label className="block">
+                                <span className={labelClass}>Logo URL</span>
+                                <input type="text" value={editing.logoUrl || ''} onChange={(e) => setField('logoUrl', e.target.value)} placeholder="/logos/vendor.png" className={inputClass} />
+                            </label>
+                            <label className="block md:col-span-2">
+                                <span className={labelClass}>Notes</span>
+                                <textarea value={editing.notes || ''} onChange={(e) => setField('notes', e.target.value)} rows={3} className={`${inputClass} h-auto py-2`} />
+                            </label>
+                        </div>
+
+                        <div className="p-6 border-t border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/50 flex justify-end gap-3">
+                            <button type="button" onClick={() => setEditing(null)} className="px-5 py-2.5 rounded-xl text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all">
+                                Cancel
+                            </button>
+                            <button type="submit" disabled={isSaving} className="px-5 py-2.5 rounded-xl text-sm font-bold bg-medical-600 text-white hover:bg-medical-700 shadow-lg shadow-medical-500/30 transition-all disabled:opacity-50">
+                                {isSaving ? 'Saving...' : 'Save Vendor'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default Vendors;
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
-import { FormTemplate, BillingRule, PettyCashTransaction, ActivityLog, Budget, Protocol } from '../types';
+import { FormTemplate, BillingRule, PettyCashTransaction, ActivityLog, ActivityLogChange, Budget, Protocol, Payer } from '../types';
 import { DailyReport } from '../types/dailyReport';
 import { DailyReportService } from '../services/DailyReportService';
 import { TemplateService } from '../services/TemplateService';
@@ -14,7 +14,14 @@ import { PriceService } from '../services/PriceService';
 import { MedicalCodeService } from '../services/MedicalCodeService';
 import { PettyCashService } from '../services/PettyCashService';
 import { ScheduleService } from '../services/ScheduleService';
+import { TransferService } from '../services/TransferService';
+import { VendorService } from '../services/VendorService';
+import { InvoiceMatchService } from '../services/InvoiceMatchService';
+import { CycleCountService } from '../services/CycleCountService';
+import { ActivityLogService } from '../services/ActivityLogService';
+import { PayerService } from '../services/PayerService';
 import { billingRules as INITIAL_BILLING_RULES } from '../data/billingRules';
+import { defaultPayers } from '../data/payers';
 import { useAuth } from './AuthContext';
 import { useTenant } from './TenantContext';
 
@@ -22,7 +29,7 @@ import { useTenant } from './TenantContext';
 const STORAGE_KEYS = {
     BILLING_RULES: 'ha_billing_rules',
     PETTY_CASH: 'ha_petty_cash',
-    LOGS: 'ha_logs',
+    LOGS: 'ha_logs', // Legacy browser-only log; read-only, kept out of the server trail
 };
 
 // Helper
@@ -36,6 +43,20 @@ function loadState<T>(key: string, fallback: T): T {
     }
 }
 
+// Entries the app once kept only in this browser (ha_logs). They were shared
+// by every user and clinic on the machine, so they can't be attributed to
+// anyone's location or account and stay out of the hash-chained server trail.
+function loadLegacyLogs(): ActivityLog[] {
+    return loadState<any[]>(STORAGE_KEYS.LOGS, []).map((log, i) => ({
+        id: `legacy-${log.id || i}`,
+        action: log.action,
+        details: log.details || '',
+        timestamp: new Date(log.timestamp),
+        user: log.user || 'Unknown',
+        entityType: 'legacy_browser_log'
+    })).filter(log => !isNaN(log.timestamp.getTime()));
+}
+
 interface AppDataContextType {
     templates: FormTemplate[];
     setTemplates: React.Dispatch<React.SetStateAction<FormTemplate[]>>;
@@ -43,11 +64,14 @@ interface AppDataContextType {
     setDailyReports: React.Dispatch<React.SetStateAction<DailyReport[]>>;
     billingRules: BillingRule[];
     setBillingRules: React.Dispatch<React.SetStateAction<BillingRule[]>>;
+    payers: Payer[];
+    setPayers: React.Dispatch<React.SetStateAction<Payer[]>>;
     pettyCashHistory: PettyCashTransaction[];
     setPettyCashHistory: React.Dispatch<React.SetStateAction<PettyCashTransaction[]>>;
     logs: ActivityLog[];
     setLogs: React.Dispatch<React.SetStateAction<ActivityLog[]>>;
-    addLog: (action: ActivityLog['action'], details: string, userName?: string) => void;
+    legacyLogs: ActivityLog[];
+    addLog: (action: ActivityLog['action'], details: string, userName?: string, change?: ActivityLogChange) => void;
     budgets: Budget[];
     setBudgets: React.Dispatch<React.SetStateAction<Budget[]>>;
     protocols: Protocol[];
@@ -68,11 +92,10 @@ export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ child
     const [templates, setTemplates] = useState<FormTemplate[]>([]);
     const [dailyReports, setDailyReports] = useState<DailyReport[]>([]);
     const [billingRules, setBillingRules] = useState<BillingRule[]>(() => loadState(STORAGE_KEYS.BILLING_RULES, INITIAL_BILLING_RULES));
+    const [payers, setPayers] = useState<Payer[]>(defaultPayers);
     const [pettyCashHistory, setPettyCashHistory] = useState<PettyCashTransaction[]>(() => loadState(STORAGE_KEYS.PETTY_CASH, []));
-    const [logs, setLogs] = useState<ActivityLog[]>(() => {
-        const loadedLogs = loadState(STORAGE_KEYS.LOGS, []);
-        return loadedLogs.map((log: any) => ({ ...log, timestamp: new Date(log.timestamp) }));
-    });
+    const [logs, setLogs] = useState<ActivityLog[]>([]);
+    const [legacyLogs] = useState<ActivityLog[]>(() => loadLegacyLogs());
     const [budgets, setBudgets] = useState<Budget[]>([]);
     const [protocols, setProtocols] = useState<Protocol[]>([]);
 
@@ -117,17 +140,25 @@ export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ child
             PriceService.setLocationId(locationId);
             PettyCashService.setLocationId(locationId);
             ScheduleService.setLocationId(locationId);
+            TransferService.setLocationId(locationId);
+            VendorService.setLocationId(locationId);
+            InvoiceMatchService.setLocationId(locationId);
+            CycleCountService.setLocationId(locationId);
+            ActivityLogService.setLocationId(locationId);
+            PayerService.setLocationId(locationId);
         }
 
         try {
             // Run fetches in parallel
-            const [reportsResult, templatesResult, billingRulesResult, budgetsResult, protocolsResult, pettyCashResult] = await Promise.allSettled([
+            const [reportsResult, templatesResult, billingRulesResult, budgetsResult, protocolsResult, pettyCashResult, logsResult, payersResult] = await Promise.allSettled([
                 DailyReportService.getReports(),
                 TemplateService.getTemplates(),
                 BillingRuleService.getRules(),
                 BudgetService.getBudgets(user?.id),
                 ProtocolService.getProtocols(),
-                PettyCashService.getTransactions()
+                PettyCashService.getTransactions(),
+                ActivityLogService.fetchAll(),
+                PayerService.fetchAll()
             ]);
 
             if (!mountedRef.current) return;
@@ -154,6 +185,13 @@ export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ child
                 console.error('[AppDataContext] ❌ Billing Rules failed:', billingRulesResult.reason);
             }
 
+            // Handle Payers (defaults until the location's list is migrated)
+            if (payersResult.status === 'fulfilled') {
+                setPayers(payersResult.value.length > 0 ? payersResult.value : defaultPayers);
+            } else {
+                console.error('[AppDataContext] ❌ Payers failed:', payersResult.reason);
+            }
+
             // Handle Budgets
             if (budgetsResult.status === 'fulfilled') {
                 setBudgets(budgetsResult.value);
@@ -175,6 +213,13 @@ export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ child
                 console.error('[AppDataContext] ❌ Petty Cash failed:', pettyCashResult.reason);
             }
 
+            // Handle Activity Log
+            if (logsResult.status === 'fulfilled') {
+                setLogs(logsResult.value);
+            } else {
+                console.error('[AppDataContext] ❌ Activity log failed:', logsResult.reason);
+            }
+
             // [FIX] Feature: Automatically sync any daily reports that were saved offline
             DailyReportService.restoreLocalReports(user?.id).then((restoredCount) => {
                 if (restoredCount && restoredCount > 0) {
@@ -217,6 +262,12 @@ export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ child
             PriceService.setAccessToken(accessToken);
             PettyCashService.setAccessToken(accessToken);
             ScheduleService.setAccessToken(accessToken);
+            TransferService.setAccessToken(accessToken);
+            VendorService.setAccessToken(accessToken);
+            InvoiceMatchService.setAccessToken(accessToken);
+            CycleCountService.setAccessToken(accessToken);
+            ActivityLogService.setAccessToken(accessToken);
+            PayerService.setAccessToken(accessToken);
 
             if (!hasLoadedRef.current) {
                 fetchAllData();
@@ -231,6 +282,7 @@ export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ child
             setBudgets([]);
             setProtocols([]);
             setPettyCashHistory([]);
+            setLogs([]);
         }
     }, [accessToken, fetchAllData]);
 
@@ -255,6 +307,12 @@ export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ child
         PriceService.setLocationId(locationId);
         PettyCashService.setLocationId(locationId);
         ScheduleService.setLocationId(locationId);
+        TransferService.setLocationId(locationId);
+        VendorService.setLocationId(locationId);
+        InvoiceMatchService.setLocationId(locationId);
+        CycleCountService.setLocationId(locationId);
+        ActivityLogService.setLocationId(locationId);
+        PayerService.setLocationId(locationId);
 
         // Re-fetch if data was already loaded (location switch)
         if (hasLoadedRef.current && accessToken) {
@@ -266,25 +324,43 @@ export const AppDataProvider: React.FC<{ children: React.ReactNode }> = ({ child
     // LocalStorage persistence
     useEffect(() => localStorage.setItem(STORAGE_KEYS.BILLING_RULES, JSON.stringify(billingRules)), [billingRules]);
     useEffect(() => localStorage.setItem(STORAGE_KEYS.PETTY_CASH, JSON.stringify(pettyCashHistory)), [pettyCashHistory]);
-    useEffect(() => localStorage.setItem(STORAGE_KEYS.LOGS, JSON.stringify(logs)), [logs]);
 
-    const addLog = (action: ActivityLog['action'], details: string, userName?: string) => {
+    // Shown immediately, then swapped for the chained server row (or left
+    // as-is while the write waits in the offline queue). A write the server
+    // refuses goes to the offline queue too, so it is retried and, if still
+    // refused, listed as a sync conflict rather than dropped.
+    const addLog = (action: ActivityLog['action'], details: string, userName?: string, change?: ActivityLogChange) => {
         const newLog: ActivityLog = {
-            id: Date.now().toString(),
+            id: `local-${Date.now()}`,
             timestamp: new Date(),
             action,
             details,
-            user: userName || 'System'
+            user: userName || 'System',
+            ...change
         };
         setLogs(prev => [newLog, ...prev]);
+        ActivityLogService.append(action, details, newLog.user, change, newLog.timestamp)
+            .then(saved => {
+                if (saved && mountedRef.current) setLogs(prev => prev.map(log => log.id === newLog.id ? saved : log));
+            })
+            .catch(err => {
+                console.error('[AppDataContext] ❌ Failed to record activity, queueing it:', err);
+                return ActivityLogService.queue(action, details, newLog.user, change, newLog.timestamp);
+            })
+            .catch(err => {
+                console.error('[AppDataContext] ❌ Could not queue activity:', err);
+                alert(`This action was not recorded in the activity log: ${details}`);
+            });
     };
 
     const value = {
         templates, setTemplates,
         dailyReports, setDailyReports,
         billingRules, setBillingRules,
+        payers, setPayers,
         pettyCashHistory, setPettyCashHistory,
         logs, setLogs,
+        legacyLogs,
         addLog,
         budgets, setBudgets,
         protocols, setProtocols,
@@ -1,9 +1,11 @@
 import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
-import { InventoryItem, Order, PriceItem, MedicalCode, CodeGroup } from '../types';
+import { InventoryItem, Order, PriceItem, MedicalCode, CodeGroup, Vendor } from '../types';
 import { InventoryService } from '../services/InventoryService';
 import { OrderService } from '../services/OrderService';
 import { PriceService } from '../services/PriceService';
 import { MedicalCodeService } from '../services/MedicalCodeService';
+import { VendorService } from '../services/VendorService';
+import { OfflineSyncService } from '../services/OfflineSyncService';
 import { useAuth } from './AuthContext';
 
 interface InventoryContextType {
@@ -12,6 +14,7 @@ interface InventoryContextType {
     prices: PriceItem[];
     codes: MedicalCode[];
     codeGroups: CodeGroup[];
+    vendors: Vendor[];
     isLoadingInventory: boolean;
     isLoadingOrders: boolean;
     isLoadingPrices: boolean;
@@ -22,6 +25,7 @@ interface InventoryContextType {
     setPrices: React.Dispatch<React.SetStateAction<PriceItem[]>>;
     setCodes: React.Dispatch<React.SetStateAction<MedicalCode[]>>;
     setCodeGroups: React.Dispatch<React.SetStateAction<CodeGroup[]>>;
+    setVendors: React.Dispatch<React.SetStateAction<Vendor[]>>;
     setIsLoadingInventory: React.Dispatch<React.SetStateAction<boolean>>;
     setIsLoadingOrders: React.Dispatch<React.SetStateAction<boolean>>;
     setIsLoadingPrices: React.Dispatch<React.SetStateAction<boolean>>;
@@ -39,6 +43,7 @@ export const InventoryProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     const [prices, setPrices] = useState<PriceItem[]>([]);
     const [codes, setCodes] = useState<MedicalCode[]>([]);
     const [codeGroups, setCodeGroups] = useState<CodeGroup[]>([]);
+    const [vendors, setVendors] = useState<Vendor[]>([]);
 
     const [isLoadingInventory, setIsLoadingInventory] = useState(false);
     const [isLoadingOrders, setIsLoadingOrders] = useState(false);
@@ -66,7 +71,8 @@ export const InventoryProvider: React.FC<{ children: React.ReactNode }> = ({ chi
                 OrderService.fetchAll(),
                 PriceService.fetchAll(),
                 MedicalCodeService.fetchCodes(),
-                MedicalCodeService.fetchGroups()
+                MedicalCodeService.fetchGroups(),
+                VendorService.fetchAll()
             ]);
 
             results.forEach((result, index) => {
@@ -75,6 +81,7 @@ export const InventoryProvider: React.FC<{ children: React.ReactNode }> = ({ chi
                     if (index === 1) setPrices(result.value);
                     if (index === 2) setCodes(result.value);
                     if (index === 3) setCodeGroups(result.value);
+                    if (index === 4) setVendors(result.value);
                 }
             });
 
@@ -102,6 +109,9 @@ export const InventoryProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             OrderService.setAccessToken(accessToken);
             PriceService.setAccessToken(accessToken);
             MedicalCodeService.setAccessToken(accessToken);
+            VendorService.setAccessToken(accessToken);
+            OfflineSyncService.setAccessToken(accessToken);
+            OfflineSyncService.start();
 
             if (!hasLoadedRef.current) {
                 refreshInventory();
@@ -113,11 +123,26 @@ export const InventoryProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         }
     }, [accessToken, refreshInventory]);
 
+    // Keep the offline cache in step with local edits so a reload while
+    // offline shows the same stock the user was looking at
+    useEffect(() => {
+        if (hasLoadedRef.current) InventoryService.cacheSnapshot(inventory);
+    }, [inventory]);
+
+    // Once queued offline writes land, pull the server's view back in
+    const lastSyncedRef = useRef<string | undefined>(undefined);
+    useEffect(() => OfflineSyncService.subscribe(status => {
+        if (status.lastSyncedAt && status.lastSyncedAt !== lastSyncedRef.current) {
+            lastSyncedRef.current = status.lastSyncedAt;
+            if (hasLoadedRef.current && status.pending === 0) refreshInventory();
+        }
+    }), [refreshInventory]);
+
     const value = {
-        inventory, orders, prices, codes, codeGroups,
+        inventory, orders, prices, codes, codeGroups, vendors,
         isLoadingInventory, isLoadingOrders, isLoadingPrices, isLoadingCodes,
         refreshInventory,
-        setInventory, setOrders, setPrices, setCodes, setCodeGroups,
+        setInventory, setOrders, setPrices, setCodes, setCodeGroups, setVendors,
         setIsLoadingInventory, setIsLoadingOrders, setIsLoadingPrices, setIsLoadingCodes
     };
 
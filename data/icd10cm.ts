@@ -0,0 +1,476 @@
+import { Icd10Code } from '../types';
+
+// Curated ICD-10-CM subset for outpatient/urgent care, bundled so code
+// lookup and validation work offline. Headers (billable: false) are kept
+// so the validator can reject them and offer their billable children.
+// Codes missing here are reported as unknown, not invalid.
+export const icd10cm: Icd10Code[] = [
+  { "code": "A08", "description": "Viral and other specified intestinal infections", "billable": false },
+  { "code": "A08.4", "description": "Viral intestinal infection, unspecified", "billable": true },
+  { "code": "A09", "description": "Infectious gastroenteritis and colitis, unspecified", "billable": true },
+  { "code": "A38.9", "description": "Scarlet fever, uncomplicated", "billable": true },
+  { "code": "A49.9", "description": "Bacterial infection, unspecified", "billable": true },
+  { "code": "A69.20", "description": "Lyme disease, unspecified", "billable": true },
+  { "code": "B00.1", "description": "Herpesviral vesicular dermatitis", "billable": true },
+  { "code": "B01.9", "description": "Varicella without complication", "billable": true },
+  { "code": "B02", "description": "Zoster [herpes zoster]", "billable": false },
+  { "code": "B02.9", "description": "Zoster without complications", "billable": true },
+  { "code": "B08.4", "description": "Enteroviral vesicular stomatitis with exanthem", "billable": true },
+  { "code": "B27", "description": "Infectious mononucleosis", "billable": false },
+  { "code": "B27.9", "description": "Infectious mononucleosis, unspecified", "billable": false },
+  { "code": "B27.90", "description": "Infectious mononucleosis, unspecified without complication", "billable": true },
+  { "code": "B30.9", "description": "Viral conjunctivitis, unspecified", "billable": true },
+  { "code": "B34", "description": "Viral infection of unspecified site", "billable": false },
+  { "code": "B34.2", "description": "Coronavirus infection, unspecified", "billable": true },
+  { "code": "B34.9", "description": "Viral infection, unspecified", "billable": true },
+  { "code": "B35", "description": "Dermatophytosis", "billable": false },
+  { "code": "B35.1", "description": "Tinea unguium", "billable": true },
+  { "code": "B35.3", "description": "Tinea pedis", "billable": true },
+  { "code": "B35.4", "description": "Tinea corporis", "billable": true },
+  { "code": "B35.6", "description": "Tinea cruris", "billable": true },
+  { "code": "B37.0", "description": "Candidal stomatitis", "billable": true },
+  { "code": "B37.3", "description": "Candidiasis of vulva and vagina", "billable": false },
+  { "code": "B37.31", "description": "Acute candidiasis of vulva and vagina", "billable": true },
+  { "code": "B85.0", "description": "Pediculosis due to Pediculus humanus capitis", "billable": true },
+  { "code": "B86", "description": "Scabies", "billable": true },
+  { "code": "D64.9", "description": "Anemia, unspecified", "billable": true },
+  { "code": "E03", "description": "Other hypothyroidism", "billable": false },
+  { "code": "E03.9", "description": "Hypothyroidism, unspecified", "billable": true },
+  { "code": "E11", "description": "Type 2 diabetes mellitus", "billable": false },
+  { "code": "E11.6", "description": "Type 2 diabetes mellitus with other specified complications", "billable": false },
+  { "code": "E11.65", "description": "Type 2 diabetes mellitus with hyperglycemia", "billable": true },
+  { "code": "E11.9", "description": "Type 2 diabetes mellitus without complications", "billable": true },
+  { "code": "E55.9", "description": "Vitamin D deficiency, unspecified", "billable": true },
+  { "code": "E66", "description": "Overweight and obesity", "billable": false },
+  { "code": "E66.9", "description": "Obesity, unspecified", "billable": true },
+  { "code": "E78", "description": "Disorders of lipoprotein metabolism and other lipidemias", "billable": false },
+  { "code": "E78.0", "description": "Pure hypercholesterolemia", "billable": false },
+  { "code": "E78.00", "description": "Pure hypercholesterolemia, unspecified", "billable": true },
+  { "code": "E78.2", "description": "Mixed hyperlipidemia", "billable": true },
+  { "code": "E78.5", "description": "Hyperlipidemia, unspecified", "billable": true },
+  { "code": "E86", "description": "Volume depletion", "billable": false },
+  { "code": "E86.0", "description": "Dehydration", "billable": true },
+  { "code": "F17.210", "description": "Nicotine dependence, cigarettes, uncomplicated", "billable": true },
+  { "code": "F32", "description": "Depressive episode", "billable": false },
+  { "code": "F32.9", "description": "Major depressive disorder, single episode, unspecified", "billable": true },
+  { "code": "F32.A", "description": "Depression, unspecified", "billable": true },
+  { "code": "F41", "description": "Other anxiety disorders", "billable": false },
+  { "code": "F41.1", "description": "Generalized anxiety disorder", "billable": true },
+  { "code": "F41.9", "description": "Anxiety disorder, unspecified", "billable": true },
+  { "code": "G43.909", "description": "Migraine, unspecified, not intractable, without status migrainosus", "billable": true },
+  { "code": "G44.209", "description": "Tension-type headache, unspecified, not intractable", "billable": true },
+  { "code": "G47.00", "description": "Insomnia, unspecified", "billable": true },
+  { "code": "H00.01", "description": "Hordeolum externum", "billable": false },
+  { "code": "H00.011", "description": "Hordeolum externum right upper eyelid", "billable": true },
+  { "code": "H00.012", "description": "Hordeolum externum right lower eyelid", "billable": true },
+  { "code": "H00.014", "description": "Hordeolum externum left upper eyelid", "billable": true },
+  { "code": "H00.015", "description": "Hordeolum externum left lower eyelid", "billable": true },
+  { "code": "H00.019", "description": "Hordeolum externum unspecified eye, unspecified eyelid", "billable": true },
+  { "code": "H10", "description": "Conjunctivitis", "billable": false },
+  { "code": "H10.02", "description": "Other mucopurulent conjunctivitis", "billable": false },
+  { "code": "H10.021", "description": "Other mucopurulent conjunctivitis, right eye", "billable": true },
+  { "code": "H10.022", "description": "Other mucopurulent conjunctivitis, left eye", "billable": true },
+  { "code": "H10.023", "description": "Other mucopurulent conjunctivitis, bilateral", "billable": true },
+  { "code": "H10.029", "description": "Other mucopurulent conjunctivitis, unspecified eye", "billable": true },
+  { "code": "H10.1", "description": "Acute atopic conjunctivitis", "billable": false },
+  { "code": "H10.10", "description": "Acute atopic conjunctivitis, unspecified eye", "billable": true },
+  { "code": "H10.11", "description": "Acute atopic conjunctivitis, right eye", "billable": true },
+  { "code": "H10.12", "description": "Acute atopic conjunctivitis, left eye", "billable": true },
+  { "code": "H10.13", "description": "Acute atopic conjunctivitis, bilateral", "billable": true },
+  { "code": "H10.3", "description": "Unspecified acute conjunctivitis", "billable": false },
+  { "code": "H10.30", "description": "Unspecified acute conjunctivitis, unspecified eye", "billable": true },
+  { "code": "H10.31", "description": "Unspecified acute conjunctivitis, right eye", "billable": true },
+  { "code": "H10.32", "description": "Unspecified acute conjunctivitis, left eye", "billable": true },
+  { "code": "H10.33", "description": "Unspecified acute conjunctivitis, bilateral", "billable": true },
+  { "code": "H10.9", "description": "Unspecified conjunctivitis", "billable": true },
+  { "code": "H60", "description": "Otitis externa", "billable": false },
+  { "code": "H60.33", "description": "Swimmer's ear", "billable": false },
+  { "code": "H60.331", "description": "Swimmer's ear, right ear", "billable": true },
+  { "code": "H60.332", "description": "Swimmer's ear, left ear", "billable": true },
+  { "code": "H60.333", "description": "Swimmer's ear, bilateral", "billable": true },
+  { "code": "H60.339", "description": "Swimmer's ear, unspecified ear", "billable": true },
+  { "code": "H60.9", "description": "Unspecified otitis externa", "billable": false },
+  { "code": "H60.90", "description": "Unspecified otitis externa, unspecified ear", "billable": true },
+  { "code": "H60.91", "description": "Unspecified otitis externa, right ear", "billable": true },
+  { "code": "H60.92", "description": "Unspecified otitis externa, left ear", "billable": true },
+  { "code": "H60.93", "description": "Unspecified otitis externa, bilateral", "billable": true },
+  { "code": "H61.2", "description": "Impacted cerumen", "billable": false },
+  { "code": "H61.20", "description": "Impacted cerumen, unspecified ear", "billable": true },
+  { "code": "H61.21", "description": "Impacted cerumen, right ear", "billable": true },
+  { "code": "H61.22", "description": "Impacted cerumen, left ear", "billable": true },
+  { "code": "H61.23", "description": "Impacted cerumen, bilateral", "billable": true },
+  { "code": "H65.0", "description": "Acute serous otitis media", "billable": false },
+  { "code": "H65.00", "description": "Acute serous otitis media, unspecified ear", "billable": true },
+  { "code": "H65.01", "description": "Acute serous otitis media, right ear", "billable": true },
+  { "code": "H65.02", "description": "Acute serous otitis media, left ear", "billable": true },
+  { "code": "H65.03", "description": "Acute serous otitis media, bilateral", "billable": true },
+  { "code": "H66", "description": "Suppurative and unspecified otitis media", "billable": false },
+  { "code": "H66.0", "description": "Acute suppurative otitis media", "billable": false },
+  { "code": "H66.00", "description": "Acute suppurative otitis media without spontaneous rupture of ear drum", "billable": false },
+  { "code": "H66.001", "description": "Acute suppurative otitis media without spontaneous rupture of ear drum, right ear", "billable": true },
+  { "code": "H66.002", "description": "Acute suppurative otitis media without spontaneous rupture of ear drum, left ear", "billable": true },
+  { "code": "H66.003", "description": "Acute suppurative otitis media without spontaneous rupture of ear drum, bilateral", "billable": true },
+  { "code": "H66.009", "description": "Acute suppurative otitis media without spontaneous rupture of ear drum, unspecified ear", "billable": true },
+  { "code": "H66.9", "description": "Otitis media, unspecified", "billable": false },
+  { "code": "H66.90", "description": "Otitis media, unspecified, unspecified ear", "billable": true },
+  { "code": "H66.91", "description": "Otitis media, unspecified, right ear", "billable": true },
+  { "code": "H66.92", "description": "Otitis media, unspecified, left ear", "billable": true },
+  { "code": "H66.93", "description": "Otitis media, unspecified, bilateral", "billable": true },
+  { "code": "H92.0", "description": "Otalgia", "billable": false },
+  { "code": "H92.01", "description": "Otalgia, right ear", "billable": true },
+  { "code": "H92.02", "description": "Otalgia, left ear", "billable": true },
+  { "code": "H92.03", "description": "Otalgia, bilateral", "billable": true },
+  { "code": "H92.09", "description": "Otalgia, unspecified ear", "billable": true },
+  { "code": "I10", "description": "Essential (primary) hypertension", "billable": true },
+  { "code": "I48.91", "description": "Unspecified atrial fibrillation", "billable": true },
+  { "code": "J00", "description": "Acute nasopharyngitis [common cold]", "billable": true },
+  { "code": "J01", "description": "Acute sinusitis", "billable": false },
+  { "code": "J01.0", "description": "Acute maxillary sinusitis", "billable": false },
+  { "code": "J01.00", "description": "Acute maxillary sinusitis, unspecified", "billable": true },
+  { "code": "J01.01", "description": "Acute recurrent maxillary sinusitis", "billable": true },
+  { "code": "J01.1", "description": "Acute frontal sinusitis", "billable": false },
+  { "code": "J01.10", "description": "Acute frontal sinusitis, unspecified", "billable": true },
+  { "code": "J01.11", "description": "Acute recurrent frontal sinusitis", "billable": true },
+  { "code": "J01.9", "description": "Acute sinusitis, unspecified", "billable": false },
+  { "code": "J01.90", "description": "Acute sinusitis, unspecified", "billable": true },
+  { "code": "J01.91", "description": "Acute recurrent sinusitis, unspecified", "billable": true },
+  { "code": "J02", "description": "Acute pharyngitis", "billable": false },
+  { "code": "J02.0", "description": "Streptococcal pharyngitis", "billable": true },
+  { "code": "J02.8", "description": "Acute pharyngitis due to other specified organisms", "billable": true },
+  { "code": "J02.9", "description": "Acute pharyngitis, unspecified", "billable": true },
+  { "code": "J03", "description": "Acute tonsillitis", "billable": false },
+  { "code": "J03.0", "description": "Streptococcal tonsillitis", "billable": false },
+  { "code": "J03.00", "description": "Acute streptococcal tonsillitis, unspecified", "billable": true },
+  { "code": "J03.01", "description": "Acute recurrent streptococcal tonsillitis", "billable": true },
+  { "code": "J03.9", "description": "Acute tonsillitis, unspecified", "billable": false },
+  { "code": "J03.90", "description": "Acute tonsillitis, unspecified", "billable": true },
+  { "code": "J03.91", "description": "Acute recurrent tonsillitis, unspecified", "billable": true },
+  { "code": "J04", "description": "Acute laryngitis and tracheitis", "billable": false },
+  { "code": "J04.0", "description": "Acute laryngitis", "billable": true },
+  { "code": "J06", "description": "Acute upper respiratory infections of multiple and unspecified sites", "billable": false },
+  { "code": "J06.0", "description": "Acute laryngopharyngitis", "billable": true },
+  { "code": "J06.9", "description": "Acute upper respiratory infection, unspecified", "billable": true },
+  { "code": "J10", "description": "Influenza due to other identified influenza virus", "billable": false },
+  { "code": "J10.1", "description": "Influenza due to other identified influenza virus with other respiratory manifestations", "billable": true },
+  { "code": "J10.2", "description": "Influenza due to other identified influenza virus with gastrointestinal manifestations", "billable": true },
+  { "code": "J11", "description": "Influenza due to unidentified influenza virus", "billable": false },
+  { "code": "J11.1", "description": "Influenza due to unidentified influenza virus with other respiratory manifestations", "billable": true },
+  { "code": "J12.82", "description": "Pneumonia due to coronavirus disease 2019", "billable": true },
+  { "code": "J18", "description": "Pneumonia, unspecified organism", "billable": false },
+  { "code": "J18.1", "description": "Lobar pneumonia, unspecified organism", "billable": true },
+  { "code": "J18.9", "description": "Pneumonia, unspecified organism", "billable": true },
+  { "code": "J20", "description": "Acute bronchitis", "billable": false },
+  { "code": "J20.2", "description": "Acute bronchitis due to streptococcus", "billable": true },
+  { "code": "J20.8", "description": "Acute bronchitis due to other specified organisms", "billable": true },
+  { "code": "J20.9", "description": "Acute bronchitis, unspecified", "billable": true },
+  { "code": "J21", "description": "Acute bronchiolitis", "billable": false },
+  { "code": "J21.9", "description": "Acute bronchiolitis, unspecified", "billable": true },
+  { "code": "J30", "description": "Vasomotor and allergic rhinitis", "billable": false },
+  { "code": "J30.1", "description": "Allergic rhinitis due to pollen", "billable": true },
+  { "code": "J30.2", "description": "Other seasonal allergic rhinitis", "billable": true },
+  { "code": "J30.81", "description": "Allergic rhinitis due to animal (cat) (dog) hair and dander", "billable": true },
+  { "code": "J30.9", "description": "Allergic rhinitis, unspecified", "billable": true },
+  { "code": "J32", "description": "Chronic sinusitis", "billable": false },
+  { "code": "J32.9", "description": "Chronic sinusitis, unspecified", "billable": true },
+  { "code": "J40", "description": "Bronchitis, not specified as acute or chronic", "billable": true },
+  { "code": "J44", "description": "Other chronic obstructive pulmonary disease", "billable": false },
+  { "code": "J44.0", "description": "Chronic obstructive pulmonary disease with (acute) lower respiratory infection", "billable": true },
+  { "code": "J44.1", "description": "Chronic obstructive pulmonary disease with (acute) exacerbation", "billable": true },
+  { "code": "J44.9", "description": "Chronic obstructive pulmonary disease, unspecified", "billable": true },
+  { "code": "J45", "description": "Asthma", "billable": false },
+  { "code": "J45.2", "description": "Mild intermittent asthma", "billable": false },
+  { "code": "J45.20", "description": "Mild intermittent asthma, uncomplicated", "billable": true },
+  { "code": "J45.21", "description": "Mild intermittent asthma with (acute) exacerbation", "billable": true },
+  { "code": "J45.22", "description": "Mild intermittent asthma with status asthmaticus", "billable": true },
+  { "code": "J45.3", "description": "Mild persistent asthma", "billable": false },
+  { "code": "J45.30", "description": "Mild persistent asthma, uncomplicated", "billable": true },
+  { "code": "J45.31", "description": "Mild persistent asthma with (acute) exacerbation", "billable": true },
+  { "code": "J45.32", "description": "Mild persistent asthma with status asthmaticus", "billable": true },
+  { "code": "J45.4", "description": "Moderate persistent asthma", "billable": false },
+  { "code": "J45.40", "description": "Moderate persistent asthma, uncomplicated", "billable": true },
+  { "code": "J45.41", "description": "Moderate persistent asthma with (acute) exacerbation", "billable": true },
+  { "code": "J45.42", "description": "Moderate persistent asthma with status asthmaticus", "billable": true },
+  { "code": "J45.9", "description": "Other and unspecified asthma", "billable": false },
+  { "code": "J45.90", "description": "Unspecified asthma", "billable": false },
+  { "code": "J45.901", "description": "Unspecified asthma with (acute) exacerbation", "billable": true },
+  { "code": "J45.902", "description": "Unspecified asthma with status asthmaticus", "billable": true },
+  { "code": "J45.909", "description": "Unspecified asthma, uncomplicated", "billable": true },
+  { "code": "K04.7", "description": "Periapical abscess without sinus", "billable": true },
+  { "code": "K12.0", "description": "Recurrent oral aphthae", "billable": true },
+  { "code": "K21", "description": "Gastro-esophageal reflux disease", "billable": false },
+  { "code": "K21.0", "description": "Gastro-esophageal reflux disease with esophagitis", "billable": false },
+  { "code": "K21.00", "description": "Gastro-esophageal reflux disease with esophagitis, without bleeding", "billable": true },
+  { "code": "K21.01", "description": "Gastro-esophageal reflux disease with esophagitis, with bleeding", "billable": true },
+  { "code": "K21.9", "description": "Gastro-esophageal reflux disease without esophagitis", "billable": true },
+  { "code": "K29", "description": "Gastritis and duodenitis", "billable": false },
+  { "code": "K29.7", "description": "Gastritis, unspecified", "billable": false },
+  { "code": "K29.70", "description": "Gastritis, unspecified, without bleeding", "billable": true },
+  { "code": "K29.71", "description": "Gastritis, unspecified, with bleeding", "billable": true },
+  { "code": "K30", "description": "Functional dyspepsia", "billable": true },
+  { "code": "K35", "description": "Acute appendicitis", "billable": false },
+  { "code": "K35.8", "description": "Other and unspecified acute appendicitis", "billable": false },
+  { "code": "K35.80", "description": "Unspecified acute appendicitis", "billable": true },
+  { "code": "K52", "description": "Other and unspecified noninfective gastroenteritis and colitis", "billable": false },
+  { "code": "K52.9", "description": "Noninfective gastroenteritis and colitis, unspecified", "billable": true },
+  { "code": "K59", "description": "Other functional intestinal disorders", "billable": false },
+  { "code": "K59.0", "description": "Constipation", "billable": false },
+  { "code": "K59.00", "description": "Constipation, unspecified", "billable": true },
+  { "code": "K59.09", "description": "Other constipation", "billable": true },
+  { "code": "K64.9", "description": "Unspecified hemorrhoids", "billable": true },
+  { "code": "L01", "description": "Impetigo", "billable": false },
+  { "code": "L01.0", "description": "Impetigo", "billable": false },
+  { "code": "L01.00", "description": "Impetigo, unspecified", "billable": true },
+  { "code": "L02", "description": "Cutaneous abscess, furuncle and carbuncle", "billable": false },
+  { "code": "L02.01", "description": "Cutaneous abscess of face", "billable": true },
+  { "code": "L02.4", "description": "Cutaneous abscess, furuncle and carbuncle of limb", "billable": false },
+  { "code": "L02.41", "description": "Cutaneous abscess of limb", "billable": false },
+  { "code": "L02.411", "description": "Cutaneous abscess of right axilla", "billable": true },
+  { "code": "L02.412", "description": "Cutaneous abscess of left axilla", "billable": true },
+  { "code": "L02.413", "description": "Cutaneous abscess of right upper limb", "billable": true },
+  { "code": "L02.414", "description": "Cutaneous abscess of left upper limb", "billable": true },
+  { "code": "L02.415", "description": "Cutaneous abscess of right lower limb", "billable": true },
+  { "code": "L02.416", "description": "Cutaneous abscess of left lower limb", "billable": true },
+  { "code": "L02.419", "description": "Cutaneous abscess of limb, unspecified", "billable": true },
+  { "code": "L02.9", "description": "Cutaneous abscess, furuncle and carbuncle, unspecified", "billable": false },
+  { "code": "L02.91", "description": "Cutaneous abscess, unspecified", "billable": true },
+  { "code": "L03", "description": "Cellulitis and acute lymphangitis", "billable": false },
+  { "code": "L03.01", "description": "Cellulitis of finger", "billable": false },
+  { "code": "L03.011", "description": "Cellulitis of right finger", "billable": true },
+  { "code": "L03.012", "description": "Cellulitis of left finger", "billable": true },
+  { "code": "L03.019", "description": "Cellulitis of unspecified finger", "billable": true },
+  { "code": "L03.1", "description": "Cellulitis and acute lymphangitis of other parts of limb", "billable": false },
+  { "code": "L03.11", "description": "Cellulitis of other parts of limb", "billable": false },
+  { "code": "L03.111", "description": "Cellulitis of right axilla", "billable": true },
+  { "code": "L03.112", "description": "Cellulitis of left axilla", "billable": true },
+  { "code": "L03.113", "description": "Cellulitis of right upper limb", "billable": true },
+  { "code": "L03.114", "description": "Cellulitis of left upper limb", "billable": true },
+  { "code": "L03.115", "description": "Cellulitis of right lower limb", "billable": true },
+  { "code": "L03.116", "description": "Cellulitis of left lower limb", "billable": true },
+  { "code": "L03.119", "description": "Cellulitis of unspecified part of limb", "billable": true },
+  { "code": "L03.2", "description": "Cellulitis and acute lymphangitis of face and neck", "billable": false },
+  { "code": "L03.21", "description": "Cellulitis and acute lymphangitis of face", "billable": false },
+  { "code": "L03.211", "description": "Cellulitis of face", "billable": true },
+  { "code": "L03.9", "description": "Cellulitis and acute lymphangitis, unspecified", "billable": false },
+  { "code": "L03.90", "description": "Cellulitis, unspecified", "billable": true },
+  { "code": "L08.9", "description": "Local infection of the skin and subcutaneous tissue, unspecified", "billable": true },
+  { "code": "L20", "description": "Atopic dermatitis", "billable": false },
+  { "code": "L20.9", "description": "Atopic dermatitis, unspecified", "billable": true },
+  { "code": "L23", "description": "Allergic contact dermatitis", "billable": false },
+  { "code": "L23.7", "description": "Allergic contact dermatitis due to plants, except food", "billable": true },
+  { "code": "L23.9", "description": "Allergic contact dermatitis, unspecified cause", "billable": true },
+  { "code": "L30", "description": "Other and unspecified dermatitis", "billable": false },
+  { "code": "L30.9", "description": "Dermatitis, unspecified", "billable": true },
+  { "code": "L50", "description": "Urticaria", "billable": false },
+  { "code": "L50.0", "description": "Allergic urticaria", "billable": true },
+  { "code": "L50.9", "description": "Urticaria, unspecified", "billable": true },
+  { "code": "L60.0", "description": "Ingrowing nail", "billable": true },
+  { "code": "M10", "description": "Gout", "billable": false },
+  { "code": "M10.9", "description": "Gout, unspecified", "billable": true },
+  { "code": "M25.5", "description": "Pain in joint", "billable": false },
+  { "code": "M25.50", "description": "Pain in unspecified joint", "billable": true },
+  { "code": "M25.51", "description": "Pain in shoulder", "billable": false },
+  { "code": "M25.511", "description": "Pain in right shoulder", "billable": true },
+  { "code": "M25.512", "description": "Pain in left shoulder", "billable": true },
+  { "code": "M25.519", "description": "Pain in unspecified shoulder", "billable": true },
+  { "code": "M25.56", "description": "Pain in knee", "billable": false },
+  { "code": "M25.561", "description": "Pain in right knee", "billable": true },
+  { "code": "M25.562", "description": "Pain in left knee", "billable": true },
+  { "code": "M25.569", "description": "Pain in unspecified knee", "billable": true },
+  { "code": "M25.57", "description": "Pain in ankle and joints of foot", "billable": false },
+  { "code": "M25.571", "description": "Pain in right ankle and joints of right foot", "billable": true },
+  { "code": "M25.572", "description": "Pain in left ankle and joints of left foot", "billable": true },
+  { "code": "M25.579", "description": "Pain in unspecified ankle and joints of unspecified foot", "billable": true },
+  { "code": "M54", "description": "Dorsalgia", "billable": false },
+  { "code": "M54.2", "description": "Cervicalgia", "billable": true },
+  { "code": "M54.3", "description": "Sciatica", "billable": false },
+  { "code": "M54.30", "description": "Sciatica, unspecified side", "billable": true },
+  { "code": "M54.31", "description": "Sciatica, right side", "billable": true },
+  { "code": "M54.32", "description": "Sciatica, left side", "billable": true },
+  { "code": "M54.4", "description": "Lumbago with sciatica", "billable": false },
+  { "code": "M54.40", "description": "Lumbago with sciatica, unspecified side", "billable": true },
+  { "code": "M54.41", "description": "Lumbago with sciatica, right side", "billable": true },
+  { "code": "M54.42", "description": "Lumbago with sciatica, left side", "billable": true },
+  { "code": "M54.5", "description": "Low back pain", "billable": false },
+  { "code": "M54.50", "description": "Low back pain, unspecified", "billable": true },
+  { "code": "M54.59", "description": "Other low back pain", "billable": true },
+  { "code": "M54.6", "description": "Pain in thoracic spine", "billable": true },
+  { "code": "M54.9", "description": "Dorsalgia, unspecified", "billable": true },
+  { "code": "M62.830", "description": "Muscle spasm of back", "billable": true },
+  { "code": "M77.1", "description": "Lateral epicondylitis", "billable": false },
+  { "code": "M77.10", "description": "Lateral epicondylitis, unspecified elbow", "billable": true },
+  { "code": "M77.11", "description": "Lateral epicondylitis, right elbow", "billable": true },
+  { "code": "M77.12", "description": "Lateral epicondylitis, left elbow", "billable": true },
+  { "code": "M79.1", "description": "Myalgia", "billable": false },
+  { "code": "M79.10", "description": "Myalgia, unspecified site", "billable": true },
+  { "code": "M79.18", "description": "Myalgia, other site", "billable": true },
+  { "code": "M79.60", "description": "Pain in limb, unspecified", "billable": false },
+  { "code": "M79.601", "description": "Pain in right arm", "billable": true },
+  { "code": "M79.602", "description": "Pain in left arm", "billable": true },
+  { "code": "M79.604", "description": "Pain in right leg", "billable": true },
+  { "code": "M79.605", "description": "Pain in left leg", "billable": true },
+  { "code": "M79.609", "description": "Pain in unspecified limb", "billable": true },
+  { "code": "N10", "description": "Acute pyelonephritis", "billable": true },
+  { "code": "N20", "description": "Calculus of kidney and ureter", "billable": false },
+  { "code": "N20.0", "description": "Calculus of kidney", "billable": true },
+  { "code": "N23", "description": "Unspecified renal colic", "billable": true },
+  { "code": "N30", "description": "Cystitis", "billable": false },
+  { "code": "N30.0", "description": "Acute cystitis", "billable": false },
+  { "code": "N30.00", "description": "Acute cystitis without hematuria", "billable": true },
+  { "code": "N30.01", "description": "Acute cystitis with hematuria", "billable": true },
+  { "code": "N30.9", "description": "Cystitis, unspecified", "billable": false },
+  { "code": "N30.90", "description": "Cystitis, unspecified without hematuria", "billable": true },
+  { "code": "N30.91", "description": "Cystitis, unspecified with hematuria", "billable": true },
+  { "code": "N39", "description": "Other disorders of urinary system", "billable": false },
+  { "code": "N39.0", "description": "Urinary tract infection, site not specified", "billable": true },
+  { "code": "N41.0", "description": "Acute prostatitis", "billable": true },
+  { "code": "N76", "description": "Other inflammation of vagina and vulva", "billable": false },
+  { "code": "N76.0", "description": "Acute vaginitis", "billable": true },
+  { "code": "N94.6", "description": "Dysmenorrhea, unspecified", "billable": true },
+  { "code": "R00.0", "description": "Tachycardia, unspecified", "billable": true },
+  { "code": "R00.2", "description": "Palpitations", "billable": true },
+  { "code": "R03.0", "description": "Elevated blood-pressure reading, without diagnosis of hypertension", "billable": true },
+  { "code": "R04.0", "description": "Epistaxis", "billable": true },
+  { "code": "R05", "description": "Cough", "billable": false },
+  { "code": "R05.1", "description": "Acute cough", "billable": true },
+  { "code": "R05.2", "description": "Subacute cough", "billable": true },
+  { "code": "R05.3", "description": "Chronic cough", "billable": true },
+  { "code": "R05.8", "description": "Other specified cough", "billable": true },
+  { "code": "R05.9", "description": "Cough, unspecified", "billable": true },
+  { "code": "R06", "description": "Abnormalities of breathing", "billable": false },
+  { "code": "R06.0", "description": "Dyspnea", "billable": false },
+  { "code": "R06.00", "description": "Dyspnea, unspecified", "billable": true },
+  { "code": "R06.02", "description": "Shortness of breath", "billable": true },
+  { "code": "R06.2", "description": "Wheezing", "billable": true },
+  { "code": "R07", "description": "Pain in throat and chest", "billable": false },
+  { "code": "R07.0", "description": "Pain in throat", "billable": true },
+  { "code": "R07.8", "description": "Other chest pain", "billable": false },
+  { "code": "R07.89", "description": "Other chest pain", "billable": true },
+  { "code": "R07.9", "description": "Chest pain, unspecified", "billable": true },
+  { "code": "R09.8", "description": "Other specified symptoms and signs involving the circulatory and respiratory systems", "billable": false },
+  { "code": "R09.81", "description": "Nasal congestion", "billable": true },
+  { "code": "R09.82", "description": "Postnasal drip", "billable": true },
+  { "code": "R10", "description": "Abdominal and pelvic pain", "billable": false },
+  { "code": "R10.1", "description": "Pain localized to upper abdomen", "billable": false },
+  { "code": "R10.10", "description": "Upper abdominal pain, unspecified", "billable": true },
+  { "code": "R10.11", "description": "Right upper quadrant pain", "billable": true },
+  { "code": "R10.12", "description": "Left upper quadrant pain", "billable": true },
+  { "code": "R10.13", "description": "Epigastric pain", "billable": true },
+  { "code": "R10.3", "description": "Pain localized to other parts of lower abdomen", "billable": false },
+  { "code": "R10.30", "description": "Lower abdominal pain, unspecified", "billable": true },
+  { "code": "R10.31", "description": "Right lower quadrant pain", "billable": true },
+  { "code": "R10.32", "description": "Left lower quadrant pain", "billable": true },
+  { "code": "R10.33", "description": "Periumbilical pain", "billable": true },
+  { "code": "R10.8", "description": "Other abdominal pain", "billable": false },
+  { "code": "R10.84", "description": "Generalized abdominal pain", "billable": true },
+  { "code": "R10.9", "description": "Unspecified abdominal pain", "billable": true },
+  { "code": "R11", "description": "Nausea and vomiting", "billable": false },
+  { "code": "R11.0", "description": "Nausea", "billable": true },
+  { "code": "R11.1", "description": "Vomiting", "billable": false },
+  { "code": "R11.10", "description": "Vomiting, unspecified", "billable": true },
+  { "code": "R11.2", "description": "Nausea with vomiting, unspecified", "billable": true },
+  { "code": "R19", "description": "Other symptoms and signs involving the digestive system and abdomen", "billable": false },
+  { "code": "R19.7", "description": "Diarrhea, unspecified", "billable": true },
+  { "code": "R21", "description": "Rash and other nonspecific skin eruption", "billable": true },
+  { "code": "R30", "description": "Pain associated with micturition", "billable": false },
+  { "code": "R30.0", "description": "Dysuria", "billable": true },
+  { "code": "R30.9", "description": "Painful micturition, unspecified", "billable": true },
+  { "code": "R31.9", "description": "Hematuria, unspecified", "billable": true },
+  { "code": "R35.0", "description": "Frequency of micturition", "billable": true },
+  { "code": "R42", "description": "Dizziness and giddiness", "billable": true },
+  { "code": "R50", "description": "Fever of other and unknown origin", "billable": false },
+  { "code": "R50.9", "description": "Fever, unspecified", "billable": true },
+  { "code": "R51", "description": "Headache", "billable": false },
+  { "code": "R51.0", "description": "Headache with orthostatic component, not elsewhere classified", "billable": true },
+  { "code": "R51.9", "description": "Headache, unspecified", "billable": true },
+  { "code": "R52", "description": "Pain, unspecified", "billable": true },
+  { "code": "R53", "description": "Malaise and fatigue", "billable": false },
+  { "code": "R53.81", "description": "Other malaise", "billable": true },
+  { "code": "R53.83", "description": "Other fatigue", "billable": true },
+  { "code": "R55", "description": "Syncope and collapse", "billable": true },
+  { "code": "R59.0", "description": "Localized enlarged lymph nodes", "billable": true },
+  { "code": "R60.0", "description": "Localized edema", "billable": true },
+  { "code": "R68.83", "description": "Chills (without fever)", "billable": true },
+  { "code": "R73", "description": "Elevated blood glucose level", "billable": false },
+  { "code": "R73.0", "description": "Abnormal glucose", "billable": false },
+  { "code": "R73.03", "description": "Prediabetes", "billable": true },
+  { "code": "R73.09", "description": "Other abnormal glucose", "billable": true },
+  { "code": "S01.01XA", "description": "Laceration without foreign body of scalp, initial encounter", "billable": true },
+  { "code": "S01.81XA", "description": "Laceration without foreign body of other part of head, initial encounter", "billable": true },
+  { "code": "S05.0", "description": "Injury of conjunctiva and corneal abrasion without foreign body", "billable": false },
+  { "code": "S05.00XA", "description": "Injury of conjunctiva and corneal abrasion without foreign body, unspecified eye, initial encounter", "billable": true },
+  { "code": "S05.01XA", "description": "Injury of conjunctiva and corneal abrasion without foreign body, right eye, initial encounter", "billable": true },
+  { "code": "S05.02XA", "description": "Injury of conjunctiva and corneal abrasion without foreign body, left eye, initial encounter", "billable": true },
+  { "code": "S06.0X0A", "description": "Concussion without loss of consciousness, initial encounter", "billable": true },
+  { "code": "S06.0X9A", "description": "Concussion with loss of consciousness of unspecified duration, initial encounter", "billable": true },
+  { "code": "S09.90XA", "description": "Unspecified injury of head, initial encounter", "billable": true },
+  { "code": "S16.1XXA", "description": "Strain of muscle, fascia and tendon at neck level, initial encounter", "billable": true },
+  { "code": "S39.012A", "description": "Strain of muscle, fascia and tendon of lower back, initial encounter", "billable": true },
+  { "code": "S61.41", "description": "Laceration without foreign body of hand", "billable": false },
+  { "code": "S61.411A", "description": "Laceration without foreign body of right hand, initial encounter", "billable": true },
+  { "code": "S61.412A", "description": "Laceration without foreign body of left hand, initial encounter", "billable": true },
+  { "code": "S61.419A", "description": "Laceration without foreign body of unspecified hand, initial encounter", "billable": true },
+  { "code": "S63.50", "description": "Unspecified sprain of wrist", "billable": false },
+  { "code": "S63.501A", "description": "Unspecified sprain of right wrist, initial encounter", "billable": true },
+  { "code": "S63.502A", "description": "Unspecified sprain of left wrist, initial encounter", "billable": true },
+  { "code": "S63.509A", "description": "Unspecified sprain of unspecified wrist, initial encounter", "billable": true },
+  { "code": "S80.00XA", "description": "Contusion of unspecified knee, initial encounter", "billable": true },
+  { "code": "S80.01XA", "description": "Contusion of right knee, initial encounter", "billable": true },
+  { "code": "S80.02XA", "description": "Contusion of left knee, initial encounter", "billable": true },
+  { "code": "S81.81", "description": "Laceration without foreign body of lower leg", "billable": false },
+  { "code": "S81.811A", "description": "Laceration without foreign body, right lower leg, initial encounter", "billable": true },
+  { "code": "S81.812A", "description": "Laceration without foreign body, left lower leg, initial encounter", "billable": true },
+  { "code": "S81.819A", "description": "Laceration without foreign body, unspecified lower leg, initial encounter", "billable": true },
+  { "code": "S83.9", "description": "Sprain of unspecified site of knee", "billable": false },
+  { "code": "S83.90XA", "description": "Sprain of unspecified site of unspecified knee, initial encounter", "billable": true },
+  { "code": "S83.91XA", "description": "Sprain of unspecified site of right knee, initial encounter", "billable": true },
+  { "code": "S83.92XA", "description": "Sprain of unspecified site of left knee, initial encounter", "billable": true },
+  { "code": "S93.4", "description": "Sprain of ankle", "billable": false },
+  { "code": "S93.40", "description": "Sprain of unspecified ligament of ankle", "billable": false },
+  { "code": "S93.401A", "description": "Sprain of unspecified ligament of right ankle, initial encounter", "billable": true },
+  { "code": "S93.402A", "description": "Sprain of unspecified ligament of left ankle, initial encounter", "billable": true },
+  { "code": "S93.409A", "description": "Sprain of unspecified ligament of unspecified ankle, initial encounter", "billable": true },
+  { "code": "T14.8XXA", "description": "Other injury of unspecified body region, initial encounter", "billable": true },
+  { "code": "T78.3XXA", "description": "Angioneurotic edema, initial encounter", "billable": true },
+  { "code": "T78.40XA", "description": "Allergy, unspecified, initial encounter", "billable": true },
+  { "code": "U07.1", "description": "COVID-19", "billable": true },
+  { "code": "W19.XXXA", "description": "Unspecified fall, initial encounter", "billable": true },
+  { "code": "W57.XXXA", "description": "Bitten or stung by nonvenomous insect and other nonvenomous arthropods, initial encounter", "billable": true },
+  { "code": "Z00", "description": "Encounter for general examination without complaint, suspected or reported diagnosis", "billable": false },
+  { "code": "Z00.0", "description": "Encounter for general adult medical examination", "billable": false },
+  { "code": "Z00.00", "description": "Encounter for general adult medical examination without abnormal findings", "billable": true },
+  { "code": "Z00.01", "description": "Encounter for general adult medical examination with abnormal findings", "billable": true },
+  { "code": "Z00.12", "description": "Encounter for routine child health examination", "billable": false },
+  { "code": "Z00.121", "description": "Encounter for routine child health examination with abnormal findings", "billable": true },
+  { "code": "Z00.129", "description": "Encounter for routine child health examination without abnormal findings", "billable": true },
+  { "code": "Z02", "description": "Encounter for administrative examination", "billable": false },
+  { "code": "Z02.1", "description": "Encounter for pre-employment examination", "billable": true },
+  { "code": "Z02.5", "description": "Encounter for examination for participation in sport", "billable": true },
+  { "code": "Z02.83", "description": "Encounter for blood-alcohol and blood-drug test", "billable": true },
+  { "code": "Z02.89", "description": "Encounter for other administrative examinations", "billable": true },
+  { "code": "Z09", "description": "Encounter for follow-up examination after completed treatment for conditions other than malignant neoplasm", "billable": true },
+  { "code": "Z11.1", "description": "Encounter for screening for respiratory tuberculosis", "billable": true },
+  { "code": "Z11.3", "description": "Encounter for screening for infections with a predominantly sexual mode of transmission", "billable": true },
+  { "code": "Z11.52", "description": "Encounter for screening for COVID-19", "billable": true },
+  { "code": "Z11.59", "description": "Encounter for screening for other viral diseases", "billable": true },
+  { "code": "Z13.1", "description": "Encounter for screening for diabetes mellitus", "billable": true },
+  { "code": "Z20.8", "description": "Contact with and (suspected) exposure to other communicable diseases", "billable": false },
+  { "code": "Z20.82", "description": "Contact with and (suspected) exposure to other viral communicable diseases", "billable": false },
+  { "code": "Z20.822", "description": "Contact with and (suspected) exposure to COVID-19", "billable": true },
+  { "code": "Z20.828", "description": "Contact with and (suspected) exposure to other viral communicable diseases", "billable": true },
+  { "code": "Z23", "description": "Encounter for immunization", "billable": true },
+  { "code": "Z32.0", "description": "Encounter for pregnancy test", "billable": false },
+  { "code": "Z32.00", "description": "Encounter for pregnancy test, result unknown", "billable": true },
+  { "code": "Z32.01", "description": "Encounter for pregnancy test, result positive", "billable": true },
+  { "code": "Z32.02", "description": "Encounter for pregnancy test, result negative", "billable": true },
+  { "code": "Z48.0", "description": "Encounter for attention to dressings, sutures and drains", "billable": false },
+  { "code": "Z48.01", "description": "Encounter for change or removal of surgical wound dressing", "billable": true },
+  { "code": "Z48.02", "description": "Encounter for removal of sutures", "billable": true },
+  { "code": "Z71.3", "description": "Dietary counseling and surveillance", "billable": true },
+  { "code": "Z71.6", "description": "Tobacco abuse counseling", "billable": true },
+  { "code": "Z76.0", "description": "Encounter for issue of repeat prescription", "billable": true },
+  { "code": "Z79.899", "description": "Other long term (current) drug therapy", "billable": true },
+  { "code": "Z86.16", "description": "Personal history of COVID-19", "billable": true },
+  { "code": "Z87.891", "description": "Personal history of nicotine dependence", "billable": true },
+  { "code": "Z88.0", "description": "Allergy status to penicillin", "billable": true },
+  { "code": "Z91.81", "description": "History of falling", "billable": true }
+];
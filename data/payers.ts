@@ -0,0 +1,18 @@
+
+import { Payer } from '../types';
+
+// Used until the location's payer list loads (and offline). The first seven
+// keep the report keys the daily close was built with, so older reports
+// resolve to the same payers; the migration seeds the same list per location.
+export const defaultPayers: Payer[] = [
+  { "id": "payer_medicaid", "name": "Medicaid", "type": "MEDICAID", "reportKey": "medicaid", "aliases": ["IL Medicaid"], "showInDailyClose": true, "isActive": true, "sortOrder": 1 },
+  { "id": "payer_bcbs", "name": "BCBS", "type": "COMMERCIAL", "reportKey": "bcbs_il", "aliases": ["BCBS IL", "Blue Cross Blue Shield"], "showInDailyClose": true, "isActive": true, "sortOrder": 2 },
+  { "id": "payer_meridian", "name": "Meridian", "type": "MEDICAID", "reportKey": "meridian", "aliases": [], "showInDailyClose": true, "isActive": true, "sortOrder": 3 },
+  { "id": "payer_commercial", "name": "Commercial", "type": "COMMERCIAL", "reportKey": "commercial", "aliases": ["Other Commercial"], "showInDailyClose": true, "isActive": true, "sortOrder": 4 },
+  { "id": "payer_medicare", "name": "Medicare", "type": "MEDICARE", "reportKey": "medicare", "aliases": [], "showInDailyClose": true, "isActive": true, "sortOrder": 5 },
+  { "id": "payer_workers_comp", "name": "Workers' Comp", "type": "WORKERS_COMP", "reportKey": "workersComp", "aliases": ["Workers Compensation"], "showInDailyClose": true, "isActive": true, "sortOrder": 6 },
+  { "id": "payer_self_pay", "name": "Self-Pay", "type": "SELF_PAY", "reportKey": "selfPay", "aliases": ["Cash"], "showInDailyClose": true, "isActive": true, "sortOrder": 7 },
+  { "id": "payer_aetna", "name": "Aetna", "type": "COMMERCIAL", "reportKey": "aetna", "aliases": [], "showInDailyClose": false, "isActive": true, "sortOrder": 8 },
+  { "id": "payer_cigna", "name": "Cigna", "type": "COMMERCIAL", "reportKey": "cigna", "aliases": [], "showInDailyClose": false, "isActive": true, "sortOrder": 9 },
+  { "id": "payer_anthem_bcbs", "name": "Anthem BCBS", "type": "COMMERCIAL", "reportKey": "anthem_bcbs", "aliases": ["Anthem"], "showInDailyClose": false, "isActive": true, "sortOrder": 10 }
+];
@@ -0,0 +1,153 @@
+-- Activity audit trail: append-only, one SHA-256 hash chain per location.
+-- Each row's hash covers its own content plus the previous row's hash, so
+-- editing, deleting or reordering any entry breaks every hash after it.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS activity_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES clinic_locations(id) ON DELETE RESTRICT,
+  seq BIGINT NOT NULL, -- Position in the location's chain, assigned on insert
+  action TEXT NOT NULL,
+  details TEXT NOT NULL DEFAULT '',
+  entity_type TEXT, -- 'item', 'order', 'price', ...
+  entity_id TEXT,
+  before JSONB,
+  after JSONB,
+  user_id UUID REFERENCES auth.users(id), -- Stamped from the JWT, not the client
+  user_name TEXT NOT NULL DEFAULT 'System',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  occurred_at TIMESTAMP WITH TIME ZONE, -- Client time of the action; earlier than created_at when replayed from the offline queue
+  prev_hash TEXT NOT NULL,
+  hash TEXT NOT NULL,
+  UNIQUE (location_id, seq)
+);
+
+CREATE INDEX IF NOT EXISTS activity_log_entity_idx ON activity_log (entity_type, entity_id);
+
+-- Canonical text of an entry. JSONB renders with sorted keys, and the
+-- timestamp is fixed to UTC so the hash does not depend on session settings.
+CREATE OR REPLACE FUNCTION public.activity_log_hash(entry activity_log)
+RETURNS TEXT AS $$
+  SELECT encode(extensions.digest(concat_ws('|',
+    entry.prev_hash,
+    entry.seq::text,
+    entry.location_id::text,
+    to_char(entry.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+    COALESCE(to_char(entry.occurred_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'), ''),
+    COALESCE(entry.user_id::text, ''),
+    entry.user_name,
+    entry.action,
+    entry.details,
+    COALESCE(entry.entity_type, ''),
+    COALESCE(entry.entity_id, ''),
+    COALESCE(entry.before::text, ''),
+    COALESCE(entry.after::text, '')
+  ), 'sha256'), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Assigns seq, timestamp, author and hash. The advisory lock serializes
+-- inserts per location so two workstations cannot fork the chain.
+CREATE OR REPLACE FUNCTION public.activity_log_chain()
+RETURNS TRIGGER AS $$
+DECLARE
+  last_entry RECORD;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('activity_log:' || NEW.location_id::text));
+
+  SELECT seq, hash INTO last_entry
+  FROM activity_log
+  WHERE location_id = NEW.location_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  NEW.seq := COALESCE(last_entry.seq, 0) + 1;
+  NEW.prev_hash := COALESCE(last_entry.hash, repeat('0', 64));
+  NEW.created_at := NOW();
+  NEW.user_id := auth.uid();
+  NEW.hash := public.activity_log_hash(NEW);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+DROP TRIGGER IF EXISTS activity_log_chain ON activity_log;
+CREATE TRIGGER activity_log_chain
+  BEFORE INSERT ON activity_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.activity_log_chain();
+
+-- Entries are never edited or removed, whatever the caller's role
+CREATE OR REPLACE FUNCTION public.activity_log_immutable()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'activity_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS activity_log_immutable ON activity_log;
+CREATE TRIGGER activity_log_immutable
+  BEFORE UPDATE OR DELETE ON activity_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.activity_log_immutable();
+
+-- Walks the chain in order and returns the first entry whose hash, link or
+-- sequence number does not match. broken_seq is NULL when the chain is intact.
+CREATE OR REPLACE FUNCTION public.verify_activity_log_chain(p_location_id UUID)
+RETURNS TABLE (checked BIGINT, broken_seq BIGINT, broken_id UUID) AS $$
+DECLARE
+  entry activity_log;
+  expected_prev TEXT := repeat('0', 64);
+  expected_seq BIGINT := 1;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_location_assignments ula
+    WHERE ula.user_id = auth.uid() AND ula.location_id = p_location_id
+  ) THEN
+    RAISE EXCEPTION 'Not assigned to this location';
+  END IF;
+
+  checked := 0;
+  FOR entry IN
+    SELECT * FROM activity_log WHERE location_id = p_location_id ORDER BY seq
+  LOOP
+    checked := checked + 1;
+    IF entry.seq <> expected_seq
+       OR entry.prev_hash <> expected_prev
+       OR entry.hash <> public.activity_log_hash(entry) THEN
+      broken_seq := entry.seq;
+      broken_id := entry.id;
+      RETURN NEXT;
+      RETURN;
+    END IF;
+    expected_prev := entry.hash;
+    expected_seq := entry.seq + 1;
+  END LOOP;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+-- RLS: read and append for users assigned to the location; no update/delete policy
+ALTER TABLE activity_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Activity log read for assigned locations" ON activity_log;
+CREATE POLICY "Activity log read for assigned locations" ON activity_log
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = activity_log.location_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Activity log append for assigned locations" ON activity_log;
+CREATE POLICY "Activity log append for assigned locations" ON activity_log
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = activity_log.location_id
+        )
+    );
@@ -0,0 +1,70 @@
+-- Billing rules engine: modifiers, patient/test conditions, prior auth and versioned effective dates
+ALTER TABLE billing_rules ADD COLUMN IF NOT EXISTS modifiers TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE billing_rules ADD COLUMN IF NOT EXISTS conditions JSONB NOT NULL DEFAULT '{}'::JSONB; -- cliaWaived, minAge, maxAge, sex, frequency {maxUnits, periodDays}
+ALTER TABLE billing_rules ADD COLUMN IF NOT EXISTS prior_auth_required BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE billing_rules ADD COLUMN IF NOT EXISTS effective_from DATE; -- Inclusive; NULL = no start
+ALTER TABLE billing_rules ADD COLUMN IF NOT EXISTS effective_to DATE; -- Inclusive; NULL = open-ended
+ALTER TABLE billing_rules ADD COLUMN IF NOT EXISTS rule_key TEXT; -- Shared by every version of one rule; NULL = first version, keyed by id
+ALTER TABLE billing_rules ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE billing_rules ADD COLUMN IF NOT EXISTS notes TEXT;
+
+ALTER TABLE billing_rules DROP CONSTRAINT IF EXISTS billing_rules_effective_range_check;
+ALTER TABLE billing_rules ADD CONSTRAINT billing_rules_effective_range_check
+    CHECK (effective_from IS NULL OR effective_to IS NULL OR effective_from <= effective_to);
+
+CREATE INDEX IF NOT EXISTS billing_rules_rule_key_idx ON billing_rules (rule_key, version);
+
+-- One row per version of a rule
+CREATE UNIQUE INDEX IF NOT EXISTS billing_rules_version_idx ON billing_rules (COALESCE(rule_key, id::text), version);
+
+-- Supersedes the latest version of a rule in one transaction: it is closed
+-- the day before p_effective_from and a copy carrying p_changes (column
+-- names as in billing_rules) continues the rule key with the next version.
+-- Runs as the caller, so the table's own policies still decide who may edit.
+CREATE OR REPLACE FUNCTION public.create_billing_rule_version(p_rule_id UUID, p_effective_from DATE, p_changes JSONB)
+RETURNS SETOF billing_rules AS $$
+DECLARE
+  previous billing_rules;
+  next_version billing_rules;
+  key TEXT;
+BEGIN
+  SELECT * INTO previous FROM billing_rules WHERE id = p_rule_id FOR UPDATE;
+  IF previous.id IS NULL THEN
+    RAISE EXCEPTION 'Billing rule not found';
+  END IF;
+
+  key := COALESCE(previous.rule_key, previous.id::text);
+  IF EXISTS (
+    SELECT 1 FROM billing_rules
+    WHERE COALESCE(rule_key, id::text) = key AND version > previous.version
+  ) THEN
+    RAISE EXCEPTION 'Only the latest version of a rule can be versioned';
+  END IF;
+
+  IF p_effective_from IS NULL OR (previous.effective_from IS NOT NULL AND p_effective_from <= previous.effective_from) THEN
+    RAISE EXCEPTION 'The new version must start after the current version''s effective date';
+  END IF;
+
+  UPDATE billing_rules
+  SET rule_key = key, effective_to = p_effective_from - 1, updated_at = NOW()
+  WHERE id = previous.id
+  RETURNING * INTO previous;
+
+  -- Columns not in p_changes carry over from the previous version
+  next_version := jsonb_populate_record(previous, p_changes);
+  next_version.id := gen_random_uuid();
+  next_version.rule_key := key;
+  next_version.version := previous.version + 1;
+  next_version.effective_from := p_effective_from;
+  next_version.created_at := NOW();
+  next_version.updated_at := NOW();
+  IF next_version.effective_to IS NOT NULL AND next_version.effective_to < p_effective_from THEN
+    RAISE EXCEPTION 'The new version would end before it starts';
+  END IF;
+
+  INSERT INTO billing_rules SELECT next_version.*;
+
+  RETURN NEXT previous;
+  RETURN NEXT next_version;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,63 @@
+-- Private iCalendar feed links, one live link per person and location. The
+-- token in the URL is the only credential, so revoking sets revoked_at and a
+-- new link gets a new token.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_accessed_at TIMESTAMP WITH TIME ZONE, -- Last fetch by a calendar app
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feeds_live_idx ON calendar_feeds (user_id, location_id) WHERE revoked_at IS NULL;
+
+-- RLS: people only see and manage their own links. The calendar-feed edge
+-- function reads with the service role.
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Calendar feeds managed by their owner" ON calendar_feeds;
+CREATE POLICY "Calendar feeds managed by their owner" ON calendar_feeds
+    FOR ALL
+    TO authenticated
+    USING (
+        calendar_feeds.user_id = auth.uid() AND EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = calendar_feeds.location_id
+        )
+    )
+    WITH CHECK (
+        calendar_feeds.user_id = auth.uid() AND EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = calendar_feeds.location_id
+        )
+    );
+
+-- Leaving a location revokes its links, so a copied URL stops working and
+-- does not come back if the person is assigned there again later
+CREATE OR REPLACE FUNCTION revoke_calendar_feeds_on_unassign()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    UPDATE calendar_feeds
+    SET revoked_at = NOW()
+    WHERE user_id = OLD.user_id
+      AND location_id = OLD.location_id
+      AND revoked_at IS NULL;
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS revoke_calendar_feeds_on_unassign ON user_location_assignments;
+CREATE TRIGGER revoke_calendar_feeds_on_unassign
+AFTER DELETE ON user_location_assignments
+FOR EACH ROW
+EXECUTE FUNCTION revoke_calendar_feeds_on_unassign();
@@ -0,0 +1,67 @@
+-- Cycle-count sessions: count sheet, counted quantities and approval state
+CREATE TABLE IF NOT EXISTS cycle_count_sessions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  scope_type TEXT NOT NULL CHECK (scope_type IN ('LOCATION', 'CATEGORY')),
+  scope_value TEXT NOT NULL,
+  -- SUBMITTING / APPROVING: claimed by one user while variances are booked, so they are booked once
+  status TEXT NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'SUBMITTING', 'PENDING_APPROVAL', 'APPROVING', 'COMPLETED', 'CANCELLED')),
+  variance_threshold NUMERIC NOT NULL DEFAULT 50, -- Dollar value above which a manager must approve
+  lines JSONB NOT NULL DEFAULT '[]'::JSONB, -- One entry per item on the count sheet
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  approved_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS cycle_count_sessions_location_idx ON cycle_count_sessions (location_id, created_at DESC);
+
+-- Merges counted lines into an open sheet by itemId. The merge is computed
+-- inside the UPDATE, so concurrent saves each land on the latest lines
+-- instead of replacing them. Runs as the caller, so RLS still applies.
+CREATE OR REPLACE FUNCTION record_cycle_counts(p_session_id UUID, p_lines JSONB)
+RETURNS SETOF cycle_count_sessions
+LANGUAGE sql
+AS $$
+    UPDATE cycle_count_sessions s
+    SET lines = (
+        SELECT COALESCE(jsonb_agg(
+            current_line.line || COALESCE(
+                (SELECT incoming FROM jsonb_array_elements(p_lines) incoming
+                 WHERE incoming->>'itemId' = current_line.line->>'itemId'
+                 LIMIT 1),
+                '{}'::JSONB
+            )
+            ORDER BY current_line.position
+        ), '[]'::JSONB)
+        FROM jsonb_array_elements(s.lines) WITH ORDINALITY AS current_line(line, position)
+    )
+    WHERE s.id = p_session_id
+      AND s.status = 'OPEN'
+    RETURNING s.*;
+$$;
+
+-- RLS: visible to users assigned to the location
+ALTER TABLE cycle_count_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cycle count access for assigned locations" ON cycle_count_sessions;
+CREATE POLICY "Cycle count access for assigned locations" ON cycle_count_sessions
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = cycle_count_sessions.location_id
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = cycle_count_sessions.location_id
+        )
+    );
@@ -0,0 +1,163 @@
+-- Manager sign-off for Daily Close drawer variances. The approval is written
+-- here by sign_off_drawer only after the manager is authenticated: either it
+-- is their own session, or they enter their personal sign-off PIN at the
+-- register. The report keeps the returned record's id.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- No policies: PINs are only read and written through the functions below
+CREATE TABLE IF NOT EXISTS manager_signoff_pins (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0, -- Wrong PINs in a row
+  locked_until TIMESTAMP WITH TIME ZONE, -- Set after too many wrong PINs
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE manager_signoff_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS drawer_signoffs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  report_id TEXT NOT NULL,
+  manager_id UUID NOT NULL REFERENCES auth.users(id),
+  requested_by UUID REFERENCES auth.users(id), -- Who was closing the day
+  reason TEXT NOT NULL,
+  cash_variance NUMERIC NOT NULL,
+  check_variance NUMERIC NOT NULL,
+  signed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS drawer_signoffs_report_idx ON drawer_signoffs (location_id, report_id);
+
+-- Sets the calling manager's own sign-off PIN
+CREATE OR REPLACE FUNCTION public.set_signoff_pin(p_pin TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_owner_manager() THEN
+    RAISE EXCEPTION 'Only managers can set a sign-off PIN';
+  END IF;
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits';
+  END IF;
+
+  INSERT INTO manager_signoff_pins (user_id, pin_hash, updated_at)
+  VALUES (auth.uid(), extensions.crypt(p_pin, extensions.gen_salt('bf')), NOW())
+  ON CONFLICT (user_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash, failed_attempts = 0, locked_until = NULL, updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Records a manager's approval of a drawer variance. A manager signing in
+-- their own session needs no PIN; anyone else must supply that manager's PIN.
+-- Every fifth wrong PIN in a row locks that manager's PIN, for 15 minutes the
+-- first time and 15 more each time after. A wrong PIN returns NULL instead of
+-- raising, so the failed attempt is kept.
+CREATE OR REPLACE FUNCTION public.sign_off_drawer(
+  p_location_id UUID,
+  p_report_id TEXT,
+  p_manager_id UUID,
+  p_pin TEXT,
+  p_reason TEXT,
+  p_cash_variance NUMERIC,
+  p_check_variance NUMERIC
+)
+RETURNS drawer_signoffs AS $$
+DECLARE
+  pin_row manager_signoff_pins;
+  signoff drawer_signoffs;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_location_assignments ula
+    WHERE ula.user_id = auth.uid() AND ula.location_id = p_location_id
+  ) THEN
+    RAISE EXCEPTION 'Not assigned to this location';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_roles ur
+    JOIN user_location_assignments ula ON ula.user_id = ur.user_id AND ula.location_id = p_location_id
+    WHERE ur.user_id = p_manager_id AND ur.role_id IN ('OWNER', 'MANAGER')
+  ) THEN
+    RAISE EXCEPTION 'Sign-off must come from a manager of this location';
+  END IF;
+
+  IF trim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason for the variance is required';
+  END IF;
+
+  IF p_manager_id <> auth.uid() THEN
+    -- Locked so concurrent guesses are counted one after the other
+    SELECT * INTO pin_row FROM manager_signoff_pins WHERE user_id = p_manager_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This manager has not set a sign-off PIN';
+    END IF;
+    IF pin_row.locked_until > NOW() THEN
+      RAISE EXCEPTION 'Too many incorrect PINs. Try this manager''s PIN again in % minute(s)',
+        CEIL(EXTRACT(EPOCH FROM pin_row.locked_until - NOW()) / 60);
+    END IF;
+    IF p_pin IS NULL OR extensions.crypt(p_pin, pin_row.pin_hash) <> pin_row.pin_hash THEN
+      UPDATE manager_signoff_pins
+      SET failed_attempts = pin_row.failed_attempts + 1,
+          locked_until = CASE WHEN (pin_row.failed_attempts + 1) % 5 = 0
+                              THEN NOW() + INTERVAL '15 minutes' * ((pin_row.failed_attempts + 1) / 5)
+                              ELSE pin_row.locked_until END
+      WHERE user_id = p_manager_id;
+      RETURN NULL;
+    END IF;
+    UPDATE manager_signoff_pins SET failed_attempts = 0, locked_until = NULL WHERE user_id = p_manager_id;
+  END IF;
+
+  INSERT INTO drawer_signoffs (location_id, report_id, manager_id, requested_by, reason, cash_variance, check_variance)
+  VALUES (p_location_id, p_report_id, p_manager_id, auth.uid(), trim(p_reason), p_cash_variance, p_check_variance)
+  RETURNING * INTO signoff;
+
+  RETURN signoff;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- RLS: readable at the location; rows are only created by sign_off_drawer
+ALTER TABLE drawer_signoffs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Drawer sign-offs readable for assigned locations" ON drawer_signoffs;
+CREATE POLICY "Drawer sign-offs readable for assigned locations" ON drawer_signoffs
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = drawer_signoffs.location_id
+        )
+    );
+
+-- A saved daily report may only claim a sign-off that sign_off_drawer
+-- actually recorded for that report, location, manager and variance
+CREATE OR REPLACE FUNCTION public.verify_report_drawer_signoff()
+RETURNS TRIGGER AS $$
+DECLARE
+  claimed JSONB := NEW.data->'drawer'->'signOff';
+BEGIN
+  IF claimed IS NULL OR jsonb_typeof(claimed) = 'null' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM drawer_signoffs ds
+    WHERE ds.id::TEXT = claimed->>'id'
+      AND ds.report_id = NEW.id::TEXT
+      AND ds.location_id = NEW.location_id
+      AND ds.manager_id::TEXT = claimed->>'managerId'
+      AND ds.cash_variance = (claimed->>'cashVariance')::NUMERIC
+      AND ds.check_variance = (claimed->>'checkVariance')::NUMERIC
+  ) THEN
+    RAISE EXCEPTION 'The drawer sign-off on this report could not be verified';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+DROP TRIGGER IF EXISTS daily_reports_verify_drawer_signoff ON daily_reports;
+CREATE TRIGGER daily_reports_verify_drawer_signoff
+  BEFORE INSERT OR UPDATE OF data ON daily_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.verify_report_drawer_signoff();
@@ -0,0 +1,45 @@
+-- Three-way match reviews: vendor invoice vs PO vs packing slip
+CREATE TABLE IF NOT EXISTS invoice_matches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  invoice_number TEXT NOT NULL,
+  vendor TEXT,
+  status TEXT NOT NULL CHECK (status IN ('APPROVED', 'REJECTED')),
+  lines JSONB NOT NULL DEFAULT '[]'::JSONB, -- Per-line variance report
+  subtotal_variance NUMERIC NOT NULL DEFAULT 0,
+  tax_variance NUMERIC NOT NULL DEFAULT 0,
+  shipping_variance NUMERIC NOT NULL DEFAULT 0,
+  total_variance NUMERIC NOT NULL DEFAULT 0,
+  invoice_total NUMERIC NOT NULL DEFAULT 0,
+  has_discrepancies BOOLEAN NOT NULL DEFAULT FALSE,
+  notes TEXT,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Variances may only be approved with an explanation
+  CHECK (status <> 'APPROVED' OR NOT has_discrepancies OR COALESCE(TRIM(notes), '') <> '')
+);
+
+CREATE INDEX IF NOT EXISTS invoice_matches_order_idx ON invoice_matches (order_id, reviewed_at DESC);
+
+-- RLS: visible to users assigned to the location
+ALTER TABLE invoice_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Invoice match access for assigned locations" ON invoice_matches;
+CREATE POLICY "Invoice match access for assigned locations" ON invoice_matches
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = invoice_matches.location_id
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = invoice_matches.location_id
+        )
+    );
@@ -0,0 +1,38 @@
+-- Weighted-average cost history: one row per change to items.average_cost
+CREATE TABLE IF NOT EXISTS item_cost_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+  location_id UUID REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  previous_cost NUMERIC NOT NULL DEFAULT 0,
+  new_cost NUMERIC NOT NULL DEFAULT 0,
+  source TEXT NOT NULL CHECK (source IN ('ORDER_RECEIPT', 'MANUAL')),
+  receipt_unit_cost NUMERIC, -- Landed cost per unit of the receipt (incl. shipping/tax share)
+  quantity NUMERIC, -- Units received
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  recorded_by UUID REFERENCES auth.users(id),
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS item_cost_history_item_idx ON item_cost_history (item_id, recorded_at);
+
+-- RLS: visible to users assigned to the location
+ALTER TABLE item_cost_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cost history access for assigned locations" ON item_cost_history;
+CREATE POLICY "Cost history access for assigned locations" ON item_cost_history
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = item_cost_history.location_id
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = item_cost_history.location_id
+        )
+    );
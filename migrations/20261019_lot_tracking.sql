@@ -0,0 +1,55 @@
+-- Lot-level inventory: receipt metadata on lots and lot capture on order lines
+
+-- Add received_at / order_id to lots if they don't exist
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'lots' AND column_name = 'received_at') THEN
+        ALTER TABLE lots ADD COLUMN received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'lots' AND column_name = 'order_id') THEN
+        ALTER TABLE lots ADD COLUMN order_id UUID REFERENCES orders(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+-- Lot number and expiry captured per line at receipt
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'order_items' AND column_name = 'lot_number') THEN
+        ALTER TABLE order_items ADD COLUMN lot_number TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'order_items' AND column_name = 'expiry_date') THEN
+        ALTER TABLE order_items ADD COLUMN expiry_date DATE;
+    END IF;
+END $$;
+
+-- RLS policies for lots / stock_levels
+ALTER TABLE lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_levels ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Enable all access for authenticated users" ON lots;
+CREATE POLICY "Enable all access for authenticated users" ON lots
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Enable all access for authenticated users" ON stock_levels;
+CREATE POLICY "Enable all access for authenticated users" ON stock_levels
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Backfill: existing stock with a batch or expiry becomes its first lot
+INSERT INTO lots (item_id, lot_number, expiration_date, received_at)
+SELECT id, COALESCE(NULLIF(batch_number, ''), 'UNTRACKED'), expiry_date::DATE, NOW()
+FROM items
+WHERE stock > 0 AND (COALESCE(batch_number, '') <> '' OR expiry_date IS NOT NULL)
+ON CONFLICT (item_id, lot_number) DO NOTHING;
+
+INSERT INTO stock_levels (item_id, location_id, lot_id, quantity)
+SELECT i.id, i.location_id, l.id, i.stock
+FROM items i
+JOIN lots l ON l.item_id = i.id AND l.lot_number = COALESCE(NULLIF(i.batch_number, ''), 'UNTRACKED')
+WHERE i.stock > 0
+  AND NOT EXISTS (SELECT 1 FROM stock_levels s WHERE s.lot_id = l.id);
@@ -0,0 +1,24 @@
+-- Offline sync: every write bumps updated_at so queued offline edits can be
+-- replayed with an "updated_at = version I edited" guard (optimistic concurrency)
+ALTER TABLE items ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE stock_levels ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS items_touch_updated_at ON public.items;
+CREATE TRIGGER items_touch_updated_at
+  BEFORE UPDATE ON public.items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_updated_at();
+
+DROP TRIGGER IF EXISTS stock_levels_touch_updated_at ON public.stock_levels;
+CREATE TRIGGER stock_levels_touch_updated_at
+  BEFORE UPDATE ON public.stock_levels
+  FOR EACH ROW
+  EXECUTE FUNCTION public.touch_updated_at();
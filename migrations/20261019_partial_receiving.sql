@@ -0,0 +1,147 @@
+-- Partial receiving: per-line received quantities, PARTIALLY_RECEIVED status and one row per shipment
+
+-- 1. Received quantity per order line (in packages, like order_items.quantity)
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'order_items' AND column_name = 'quantity_received') THEN
+        ALTER TABLE order_items ADD COLUMN quantity_received NUMERIC NOT NULL DEFAULT 0 CHECK (quantity_received >= 0);
+    END IF;
+END $$;
+
+-- 2. Allow PARTIALLY_RECEIVED (status is TEXT with a CHECK in some installs, an enum in others)
+DO $$
+DECLARE
+    status_type TEXT;
+BEGIN
+    SELECT udt_name INTO status_type FROM information_schema.columns WHERE table_name = 'orders' AND column_name = 'status';
+    IF status_type IN ('text', 'varchar') THEN
+        ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+        ALTER TABLE orders ADD CONSTRAINT orders_status_check
+            CHECK (status IN ('DRAFT', 'PENDING', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CANCELLED'));
+    ELSIF status_type IS NOT NULL THEN
+        EXECUTE format('ALTER TYPE %I ADD VALUE IF NOT EXISTS %L', status_type, 'PARTIALLY_RECEIVED');
+    END IF;
+END $$;
+
+-- 3. Shipments: each delivery against an order, with its own received_at
+CREATE TABLE IF NOT EXISTS order_shipments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  received_by UUID REFERENCES auth.users(id),
+  lines JSONB NOT NULL DEFAULT '[]'::JSONB -- [{orderItemId, itemId, quantity, unitsPerPackage, lotNumber, expiryDate}]
+);
+
+CREATE INDEX IF NOT EXISTS order_shipments_order_idx ON order_shipments (order_id);
+CREATE INDEX IF NOT EXISTS order_shipments_received_idx ON order_shipments (received_at DESC);
+CREATE INDEX IF NOT EXISTS order_shipments_lines_idx ON order_shipments USING GIN (lines jsonb_path_ops);
+
+-- 4. Backfill: orders received before this change arrived in full, in a single shipment
+UPDATE order_items oi
+SET quantity_received = oi.quantity
+FROM orders o
+WHERE o.id = oi.order_id
+  AND o.status = 'RECEIVED'
+  AND oi.quantity_received = 0;
+
+INSERT INTO order_shipments (order_id, received_at, lines)
+SELECT o.id,
+       o.received_at,
+       COALESCE((
+           SELECT JSONB_AGG(JSONB_STRIP_NULLS(JSONB_BUILD_OBJECT(
+               'orderItemId', oi.id,
+               'itemId', oi.item_id,
+               'quantity', oi.quantity,
+               'unitsPerPackage', COALESCE(oi.units_per_package, 1),
+               'lotNumber', oi.lot_number,
+               'expiryDate', oi.expiry_date
+           )))
+           FROM order_items oi
+           WHERE oi.order_id = o.id
+       ), '[]'::JSONB)
+FROM orders o
+WHERE o.status = 'RECEIVED'
+  AND o.received_at IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM order_shipments s WHERE s.order_id = o.id);
+
+-- 5. Records one shipment: the shipment row, each line's received quantity
+-- (added to what the database holds, not to what the client last saw) and
+-- the order's status, all in one transaction. The order row is locked, so
+-- two people receiving the same order are applied one after the other, and
+-- a line that would go past the quantity ordered fails the whole shipment.
+-- Runs as the caller, so RLS still applies.
+CREATE OR REPLACE FUNCTION receive_order_shipment(p_order_id UUID, p_lines JSONB, p_received_by UUID)
+RETURNS order_shipments
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    current_status TEXT;
+    line JSONB;
+    updated_count INT;
+    shipment order_shipments;
+BEGIN
+    SELECT status::TEXT INTO current_status FROM orders WHERE id = p_order_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found';
+    END IF;
+    IF current_status NOT IN ('PENDING', 'PARTIALLY_RECEIVED') THEN
+        RAISE EXCEPTION 'Order is % and cannot be received', current_status;
+    END IF;
+    IF jsonb_array_length(COALESCE(p_lines, '[]'::JSONB)) = 0 THEN
+        RAISE EXCEPTION 'A shipment needs at least one line';
+    END IF;
+
+    FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        UPDATE order_items
+        SET quantity_received = quantity_received + (line->>'quantity')::NUMERIC,
+            item_id = COALESCE((line->>'itemId')::UUID, item_id),
+            lot_number = NULLIF(line->>'lotNumber', ''),
+            expiry_date = NULLIF(line->>'expiryDate', '')::DATE
+        WHERE id = (line->>'orderItemId')::UUID
+          AND order_id = p_order_id
+          AND (line->>'quantity')::NUMERIC > 0
+          AND quantity_received + (line->>'quantity')::NUMERIC <= quantity;
+        GET DIAGNOSTICS updated_count = ROW_COUNT;
+        IF updated_count = 0 THEN
+            RAISE EXCEPTION 'Line % is not outstanding on this order for the quantity received', line->>'orderItemId';
+        END IF;
+    END LOOP;
+
+    INSERT INTO order_shipments (order_id, received_at, received_by, lines)
+    VALUES (p_order_id, NOW(), p_received_by, p_lines)
+    RETURNING * INTO shipment;
+
+    -- Literal statuses, so this works whether orders.status is TEXT or an enum
+    IF EXISTS (SELECT 1 FROM order_items WHERE order_id = p_order_id AND quantity_received < quantity) THEN
+        UPDATE orders SET status = 'PARTIALLY_RECEIVED', received_at = shipment.received_at WHERE id = p_order_id;
+    ELSE
+        UPDATE orders SET status = 'RECEIVED', received_at = shipment.received_at WHERE id = p_order_id;
+    END IF;
+
+    RETURN shipment;
+END;
+$$;
+
+-- 6. RLS: follows the parent order's location
+ALTER TABLE order_shipments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Shipment access for assigned locations" ON order_shipments;
+CREATE POLICY "Shipment access for assigned locations" ON order_shipments
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM orders o
+            JOIN user_location_assignments ula ON ula.location_id = o.location_id
+            WHERE o.id = order_shipments.order_id
+              AND ula.user_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM orders o
+            JOIN user_location_assignments ula ON ula.location_id = o.location_id
+            WHERE o.id = order_shipments.order_id
+              AND ula.user_id = auth.uid()
+        )
+    );
@@ -0,0 +1,74 @@
+-- Payer master list: per-location payers that drive the daily close, analytics and billing rules
+CREATE TABLE IF NOT EXISTS payers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  payer_type TEXT NOT NULL DEFAULT 'COMMERCIAL' CHECK (payer_type IN ('MEDICAID', 'MEDICARE', 'COMMERCIAL', 'WORKERS_COMP', 'SELF_PAY', 'OTHER')),
+  report_key TEXT NOT NULL, -- Key of this payer's count in daily_reports insurances; never changed once used
+  aliases TEXT[] NOT NULL DEFAULT '{}', -- Plan names and former names billing rules may use
+  show_in_daily_close BOOLEAN NOT NULL DEFAULT TRUE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE, -- Retired payers stay so history keeps resolving
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS payers_location_name_idx ON payers (location_id, LOWER(name));
+CREATE UNIQUE INDEX IF NOT EXISTS payers_location_report_key_idx ON payers (location_id, report_key);
+
+-- Seed each location with the previously hard-coded insurers. The first
+-- seven keep the daily close's original keys so existing reports resolve.
+INSERT INTO payers (location_id, name, payer_type, report_key, aliases, show_in_daily_close, sort_order)
+SELECT cl.id, preset.name, preset.payer_type, preset.report_key, preset.aliases, preset.show_in_daily_close, preset.sort_order
+FROM clinic_locations cl
+CROSS JOIN (VALUES
+    ('Medicaid', 'MEDICAID', 'medicaid', ARRAY['IL Medicaid'], TRUE, 1),
+    ('BCBS', 'COMMERCIAL', 'bcbs_il', ARRAY['BCBS IL', 'Blue Cross Blue Shield'], TRUE, 2),
+    ('Meridian', 'MEDICAID', 'meridian', ARRAY[]::TEXT[], TRUE, 3),
+    ('Commercial', 'COMMERCIAL', 'commercial', ARRAY['Other Commercial'], TRUE, 4),
+    ('Medicare', 'MEDICARE', 'medicare', ARRAY[]::TEXT[], TRUE, 5),
+    ('Workers'' Comp', 'WORKERS_COMP', 'workersComp', ARRAY['Workers Compensation'], TRUE, 6),
+    ('Self-Pay', 'SELF_PAY', 'selfPay', ARRAY['Cash'], TRUE, 7),
+    ('Aetna', 'COMMERCIAL', 'aetna', ARRAY[]::TEXT[], FALSE, 8),
+    ('Cigna', 'COMMERCIAL', 'cigna', ARRAY[]::TEXT[], FALSE, 9),
+    ('Anthem BCBS', 'COMMERCIAL', 'anthem_bcbs', ARRAY['Anthem'], FALSE, 10)
+) AS preset(name, payer_type, report_key, aliases, show_in_daily_close, sort_order)
+ON CONFLICT DO NOTHING;
+
+-- Any other insurer named on a billing rule becomes a payer too (billing only)
+INSERT INTO payers (location_id, name, report_key, show_in_daily_close, sort_order)
+SELECT DISTINCT ON (cl.id, LOWER(TRIM(ins))) cl.id, TRIM(ins),
+       REGEXP_REPLACE(LOWER(TRIM(ins)), '[^a-z0-9]+', '_', 'g'), FALSE, 100
+FROM clinic_locations cl
+CROSS JOIN billing_rules br
+CROSS JOIN UNNEST(br.insurers) AS ins
+WHERE COALESCE(TRIM(ins), '') <> ''
+  AND NOT EXISTS (
+      SELECT 1 FROM payers p
+      WHERE p.location_id = cl.id
+        AND (LOWER(p.name) = LOWER(TRIM(ins)) OR LOWER(TRIM(ins)) = ANY (SELECT LOWER(a) FROM UNNEST(p.aliases) AS a))
+  )
+ON CONFLICT DO NOTHING;
+
+-- RLS: visible to users assigned to the location
+ALTER TABLE payers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Payer access for assigned locations" ON payers;
+CREATE POLICY "Payer access for assigned locations" ON payers
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = payers.location_id
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = payers.location_id
+        )
+    );
@@ -0,0 +1,125 @@
+-- Immutable protocol revisions. Every edit to the text staff sign gets a new
+-- version; a "material" change also moves ack_version, so earlier signatures
+-- stop counting and the target role has to sign again. Minor edits (typos,
+-- formatting) keep existing signatures.
+
+ALTER TABLE protocols ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE protocols ADD COLUMN IF NOT EXISTS ack_version INTEGER NOT NULL DEFAULT 1; -- Oldest version whose signatures still count
+ALTER TABLE protocols ADD COLUMN IF NOT EXISTS last_change_type TEXT NOT NULL DEFAULT 'initial'
+    CHECK (last_change_type IN ('initial', 'minor', 'material'));
+ALTER TABLE protocols ADD COLUMN IF NOT EXISTS last_change_note TEXT;
+
+CREATE TABLE IF NOT EXISTS protocol_revisions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  protocol_id UUID NOT NULL REFERENCES protocols(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  area TEXT NOT NULL,
+  type TEXT NOT NULL,
+  requires_acknowledgment BOOLEAN NOT NULL DEFAULT false,
+  target_role TEXT,
+  video_url TEXT,
+  checklists JSONB NOT NULL DEFAULT '[]'::jsonb,
+  quizzes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  change_type TEXT NOT NULL CHECK (change_type IN ('initial', 'minor', 'material')),
+  change_note TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (protocol_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_protocol_revisions_protocol ON protocol_revisions(protocol_id, version DESC);
+
+-- Signatures are per version, so someone can sign v1 and later v3
+ALTER TABLE protocol_acknowledgments ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE protocol_acknowledgments DROP CONSTRAINT IF EXISTS protocol_acknowledgments_pkey;
+ALTER TABLE protocol_acknowledgments ADD PRIMARY KEY (protocol_id, user_id, version);
+
+-- Bumps the version when signed content changes. Pinning is presentation
+-- only and never creates a revision.
+CREATE OR REPLACE FUNCTION protocols_next_version()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.title, NEW.content, NEW.severity, NEW.area, NEW.type, NEW.requires_acknowledgment,
+        NEW.target_role, NEW.video_url, NEW.checklists::text, NEW.quizzes::text)
+       IS DISTINCT FROM
+       (OLD.title, OLD.content, OLD.severity, OLD.area, OLD.type, OLD.requires_acknowledgment,
+        OLD.target_role, OLD.video_url, OLD.checklists::text, OLD.quizzes::text) THEN
+        NEW.version := OLD.version + 1;
+        IF NEW.last_change_type = 'material' THEN
+            NEW.ack_version := NEW.version;
+        ELSE
+            NEW.last_change_type := 'minor';
+            NEW.ack_version := OLD.ack_version;
+        END IF;
+    ELSE
+        -- Nothing signed changed: keep the version bookkeeping as it was
+        NEW.version := OLD.version;
+        NEW.ack_version := OLD.ack_version;
+        NEW.last_change_type := OLD.last_change_type;
+        NEW.last_change_note := OLD.last_change_note;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protocols_next_version ON protocols;
+CREATE TRIGGER protocols_next_version
+BEFORE UPDATE ON protocols
+FOR EACH ROW
+EXECUTE FUNCTION protocols_next_version();
+
+-- Snapshots each new version. Runs as the definer because staff cannot write
+-- revisions directly.
+CREATE OR REPLACE FUNCTION protocols_record_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.version = OLD.version THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO protocol_revisions (
+        protocol_id, version, title, content, severity, area, type, requires_acknowledgment,
+        target_role, video_url, checklists, quizzes, change_type, change_note, created_by
+    ) VALUES (
+        NEW.id, NEW.version, NEW.title, NEW.content, NEW.severity, NEW.area, NEW.type, NEW.requires_acknowledgment,
+        NEW.target_role, NEW.video_url, COALESCE(NEW.checklists, '[]'::jsonb), COALESCE(NEW.quizzes, '[]'::jsonb),
+        CASE WHEN TG_OP = 'INSERT' THEN 'initial' ELSE NEW.last_change_type END,
+        CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE NEW.last_change_note END,
+        auth.uid()
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protocols_record_revision ON protocols;
+CREATE TRIGGER protocols_record_revision
+AFTER INSERT OR UPDATE ON protocols
+FOR EACH ROW
+EXECUTE FUNCTION protocols_record_revision();
+
+-- Existing protocols become version 1
+INSERT INTO protocol_revisions (
+    protocol_id, version, title, content, severity, area, type, requires_acknowledgment,
+    target_role, video_url, checklists, quizzes, change_type, created_by, created_at
+)
+SELECT id, version, title, content, severity, area, type, COALESCE(requires_acknowledgment, false),
+       target_role, video_url, COALESCE(checklists, '[]'::jsonb), COALESCE(quizzes, '[]'::jsonb), 'initial', created_by, updated_at
+FROM protocols
+ON CONFLICT (protocol_id, version) DO NOTHING;
+
+-- RLS: anyone signed in can read history; there are no write policies, so
+-- revisions can't be edited or deleted through the API.
+ALTER TABLE protocol_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Protocol revisions are readable" ON protocol_revisions;
+CREATE POLICY "Protocol revisions are readable" ON protocol_revisions
+    FOR SELECT
+    TO authenticated
+    USING (true);
@@ -0,0 +1,63 @@
+-- Auto-scheduler: clinic hours and staffing minimums per location
+CREATE TABLE IF NOT EXISTS schedule_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL UNIQUE REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  hours JSONB NOT NULL DEFAULT '{}'::JSONB, -- Weekday (0 = Sunday) -> { open, close } or null when closed
+  min_providers INTEGER NOT NULL DEFAULT 1 CHECK (min_providers >= 0),
+  min_mas INTEGER NOT NULL DEFAULT 1 CHECK (min_mas >= 0),
+  max_shift_hours NUMERIC NOT NULL DEFAULT 10 CHECK (max_shift_hours > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Per-employee limits the auto-scheduler respects
+CREATE TABLE IF NOT EXISTS staff_availability (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_hours_per_week NUMERIC NOT NULL DEFAULT 40 CHECK (max_hours_per_week >= 0),
+  windows JSONB NOT NULL DEFAULT '[]'::JSONB, -- [{ weekday, start, end }]; empty = any open hour
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, location_id)
+);
+
+-- RLS: visible to users assigned to the location
+ALTER TABLE schedule_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE staff_availability ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Schedule rules access for assigned locations" ON schedule_rules;
+CREATE POLICY "Schedule rules access for assigned locations" ON schedule_rules
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = schedule_rules.location_id
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = schedule_rules.location_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff availability access for assigned locations" ON staff_availability;
+CREATE POLICY "Staff availability access for assigned locations" ON staff_availability
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = staff_availability.location_id
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = staff_availability.location_id
+        )
+    );
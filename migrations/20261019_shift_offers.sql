@@ -0,0 +1,339 @@
+-- Shift swaps and giveaways offered by staff, with an append-only event trail
+-- (open -> pending_approval -> completed; a rejected claim goes back to open)
+CREATE TABLE IF NOT EXISTS shift_offers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  shift_id UUID REFERENCES shifts(id) ON DELETE SET NULL, -- NULL once the shift is deleted; the offer and its trail stay
+  offered_by UUID NOT NULL REFERENCES auth.users(id),
+  type TEXT NOT NULL CHECK (type IN ('giveaway', 'swap')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'pending_approval', 'completed', 'cancelled')),
+  claimed_by UUID REFERENCES auth.users(id),
+  swap_shift_id UUID REFERENCES shifts(id) ON DELETE SET NULL, -- Claimant's shift the offerer takes in return
+  note TEXT,
+  reviewed_by UUID REFERENCES auth.users(id),
+  last_event_note TEXT, -- Sent with each status change; copied into the event trail
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS shift_offers_location_idx ON shift_offers (location_id, status, created_at DESC);
+
+-- Only one live offer per shift
+CREATE UNIQUE INDEX IF NOT EXISTS shift_offers_live_shift_idx ON shift_offers (shift_id)
+  WHERE status IN ('open', 'pending_approval');
+
+-- Whether a manager must approve a claimed swap or giveaway
+ALTER TABLE schedule_rules ADD COLUMN IF NOT EXISTS swap_requires_approval BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Written only by the trigger below, so nobody can edit or remove a step
+CREATE TABLE IF NOT EXISTS shift_offer_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  offer_id UUID NOT NULL REFERENCES shift_offers(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('offered', 'claimed', 'approved', 'rejected', 'cancelled', 'completed')),
+  actor_id UUID REFERENCES auth.users(id),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS shift_offer_events_offer_idx ON shift_offer_events (offer_id, created_at);
+
+-- Records every status change of an offer as the signed-in user. Runs as the
+-- definer because staff cannot write events directly.
+CREATE OR REPLACE FUNCTION shift_offers_record_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO shift_offer_events (offer_id, action, actor_id, note)
+        VALUES (NEW.id, 'offered', auth.uid(), NEW.last_event_note);
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'pending_approval' THEN
+        INSERT INTO shift_offer_events (offer_id, action, actor_id, note)
+        VALUES (NEW.id, 'claimed', auth.uid(), NEW.last_event_note);
+    ELSIF NEW.status = 'open' THEN
+        INSERT INTO shift_offer_events (offer_id, action, actor_id, note)
+        VALUES (NEW.id, 'rejected', auth.uid(), NEW.last_event_note);
+    ELSIF NEW.status = 'cancelled' THEN
+        INSERT INTO shift_offer_events (offer_id, action, actor_id, note)
+        VALUES (NEW.id, 'cancelled', auth.uid(), NEW.last_event_note);
+    ELSIF NEW.status = 'completed' THEN
+        IF NEW.reviewed_by IS NOT NULL THEN
+            INSERT INTO shift_offer_events (offer_id, action, actor_id, note)
+            VALUES (NEW.id, 'approved', auth.uid(), NEW.last_event_note);
+        END IF;
+        INSERT INTO shift_offer_events (offer_id, action, actor_id)
+        VALUES (NEW.id, 'completed', auth.uid());
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS shift_offers_record_event ON shift_offers;
+CREATE TRIGGER shift_offers_record_event
+AFTER INSERT OR UPDATE ON shift_offers
+FOR EACH ROW
+EXECUTE FUNCTION shift_offers_record_event();
+
+-- Only these moves are allowed through a plain UPDATE:
+--   open -> pending_approval   a coworker claims it for themselves
+--   pending_approval -> open   a manager rejects the claim
+--   open/pending -> cancelled  the offerer withdraws it
+-- 'completed' can only be set by complete_shift_offer(), which marks the
+-- transaction first. Deleting a shift cancels its live offers.
+CREATE OR REPLACE FUNCTION shift_offers_guard_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    is_manager BOOLEAN;
+BEGIN
+    IF NEW.location_id IS DISTINCT FROM OLD.location_id
+       OR NEW.offered_by IS DISTINCT FROM OLD.offered_by
+       OR NEW.type IS DISTINCT FROM OLD.type
+       OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'An offer''s shift, owner and type cannot be changed';
+    END IF;
+
+    -- ON DELETE SET NULL from shifts: the shift is already gone
+    IF NEW.shift_id IS DISTINCT FROM OLD.shift_id THEN
+        IF NEW.shift_id IS NOT NULL OR EXISTS (SELECT 1 FROM shifts WHERE id = OLD.shift_id) THEN
+            RAISE EXCEPTION 'An offer''s shift, owner and type cannot be changed';
+        END IF;
+        IF OLD.status IN ('open', 'pending_approval') THEN
+            NEW.status := 'cancelled';
+            NEW.last_event_note := 'The shift was deleted';
+            NEW.updated_at := NOW();
+        END IF;
+        RETURN NEW;
+    END IF;
+    IF NEW.swap_shift_id IS NULL AND OLD.swap_shift_id IS NOT NULL
+       AND NEW.status = OLD.status
+       AND NOT EXISTS (SELECT 1 FROM shifts WHERE id = OLD.swap_shift_id) THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'completed' OR OLD.status = 'completed' THEN
+        IF OLD.status = 'pending_approval' AND NEW.status = 'completed'
+           AND current_setting('app.completing_shift_offer', TRUE) = OLD.id::TEXT THEN
+            RETURN NEW;
+        END IF;
+        RAISE EXCEPTION 'Offers are completed only through complete_shift_offer';
+    END IF;
+
+    IF OLD.status = 'cancelled' THEN
+        RAISE EXCEPTION 'This offer has been withdrawn';
+    END IF;
+
+    is_manager := public.is_owner_manager() OR EXISTS (
+        SELECT 1 FROM profiles WHERE id = auth.uid() AND 'schedule.manage' = ANY(permissions)
+    );
+
+    IF OLD.status = 'open' AND NEW.status = 'pending_approval' THEN
+        IF NEW.claimed_by IS DISTINCT FROM auth.uid() OR NEW.claimed_by = OLD.offered_by THEN
+            RAISE EXCEPTION 'You can only claim an offer for yourself';
+        END IF;
+        IF NEW.swap_shift_id IS NOT NULL AND NOT EXISTS (
+            SELECT 1 FROM shifts WHERE id = NEW.swap_shift_id AND user_id = NEW.claimed_by
+        ) THEN
+            RAISE EXCEPTION 'You can only trade one of your own shifts';
+        END IF;
+        IF NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by THEN
+            RAISE EXCEPTION 'Only a manager can review a claim';
+        END IF;
+    ELSIF OLD.status = 'pending_approval' AND NEW.status = 'open' THEN
+        IF NOT is_manager THEN
+            RAISE EXCEPTION 'Only a manager can reject a claim';
+        END IF;
+        IF NEW.claimed_by IS NOT NULL OR NEW.swap_shift_id IS NOT NULL OR NEW.reviewed_by IS DISTINCT FROM auth.uid() THEN
+            RAISE EXCEPTION 'A rejected claim must be cleared and signed by the reviewing manager';
+        END IF;
+    ELSIF NEW.status = 'cancelled' THEN
+        IF OLD.offered_by <> auth.uid() THEN
+            RAISE EXCEPTION 'Only the person who offered the shift can withdraw it';
+        END IF;
+        IF NEW.claimed_by IS DISTINCT FROM OLD.claimed_by
+           OR NEW.swap_shift_id IS DISTINCT FROM OLD.swap_shift_id
+           OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by THEN
+            RAISE EXCEPTION 'Withdrawing an offer cannot change its claim';
+        END IF;
+    ELSIF NEW.status = OLD.status THEN
+        -- Only the offerer may reword a live offer; the claim stays as it is
+        IF OLD.offered_by <> auth.uid()
+           OR NEW.claimed_by IS DISTINCT FROM OLD.claimed_by
+           OR NEW.swap_shift_id IS DISTINCT FROM OLD.swap_shift_id
+           OR NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by THEN
+            RAISE EXCEPTION 'Only the person who offered the shift can edit it';
+        END IF;
+    ELSE
+        RAISE EXCEPTION 'An offer cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS shift_offers_guard_update ON shift_offers;
+CREATE TRIGGER shift_offers_guard_update
+BEFORE UPDATE ON shift_offers
+FOR EACH ROW
+EXECUTE FUNCTION shift_offers_guard_update();
+
+-- Hands the shift(s) of a claimed offer to their new owners and closes the
+-- offer in one transaction. A manager approves a pending claim; when the
+-- location needs no approval the claimant completes their own claim. Shifts
+-- are unique per person and date, so a same-day swap trades hours instead.
+CREATE OR REPLACE FUNCTION public.complete_shift_offer(p_offer_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS shift_offers AS $$
+DECLARE
+  offer shift_offers;
+  offered shifts;
+  traded shifts;
+  needs_approval BOOLEAN;
+  is_manager BOOLEAN;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id FOR UPDATE;
+  IF offer.id IS NULL OR offer.status <> 'pending_approval' OR offer.claimed_by IS NULL THEN
+    RAISE EXCEPTION 'This offer is no longer waiting to be completed';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_location_assignments ula
+    WHERE ula.user_id = auth.uid() AND ula.location_id = offer.location_id
+  ) THEN
+    RAISE EXCEPTION 'Not assigned to this location';
+  END IF;
+
+  SELECT COALESCE((SELECT swap_requires_approval FROM schedule_rules WHERE location_id = offer.location_id), TRUE)
+    INTO needs_approval;
+  is_manager := public.is_owner_manager() OR EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND 'schedule.manage' = ANY(permissions)
+  );
+
+  IF needs_approval AND NOT is_manager THEN
+    RAISE EXCEPTION 'A manager must approve this claim';
+  END IF;
+  IF NOT needs_approval AND NOT is_manager AND offer.claimed_by <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the claimant can complete this claim';
+  END IF;
+
+  SELECT * INTO offered FROM shifts WHERE id = offer.shift_id FOR UPDATE;
+  IF offered.id IS NULL OR offered.user_id <> offer.offered_by THEN
+    RAISE EXCEPTION 'The offered shift has been reassigned';
+  END IF;
+
+  IF offer.swap_shift_id IS NULL THEN
+    UPDATE shifts SET user_id = offer.claimed_by WHERE id = offered.id;
+  ELSE
+    SELECT * INTO traded FROM shifts WHERE id = offer.swap_shift_id FOR UPDATE;
+    IF traded.id IS NULL OR traded.user_id <> offer.claimed_by THEN
+      RAISE EXCEPTION 'The shift offered in trade has been reassigned';
+    END IF;
+
+    IF traded.date = offered.date THEN
+      UPDATE shifts SET start_time = traded.start_time, end_time = traded.end_time WHERE id = offered.id;
+      UPDATE shifts SET start_time = offered.start_time, end_time = offered.end_time WHERE id = traded.id;
+    ELSE
+      UPDATE shifts SET user_id = traded.user_id WHERE id = offered.id;
+      UPDATE shifts SET user_id = offered.user_id WHERE id = traded.id;
+    END IF;
+  END IF;
+
+  -- Lets shift_offers_guard_update() accept 'completed' for this offer only
+  PERFORM set_config('app.completing_shift_offer', offer.id::TEXT, TRUE);
+  UPDATE shift_offers
+  SET status = 'completed',
+      reviewed_by = CASE WHEN needs_approval THEN auth.uid() ELSE NULL END,
+      last_event_note = p_note,
+      updated_at = NOW()
+  WHERE id = offer.id
+  RETURNING * INTO offer;
+
+  RETURN offer;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- RLS: visible to users assigned to the location. Staff offer their own
+-- shifts; updates are further limited by shift_offers_guard_update(). There
+-- is no delete policy, so an offer and its trail are never removed.
+ALTER TABLE shift_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Shift offer access for assigned locations" ON shift_offers;
+DROP POLICY IF EXISTS "Shift offers readable for assigned locations" ON shift_offers;
+CREATE POLICY "Shift offers readable for assigned locations" ON shift_offers
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = shift_offers.location_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Shift offers created by the shift owner" ON shift_offers;
+CREATE POLICY "Shift offers created by the shift owner" ON shift_offers
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        offered_by = auth.uid()
+        AND status = 'open'
+        AND claimed_by IS NULL
+        AND swap_shift_id IS NULL
+        AND reviewed_by IS NULL
+        AND EXISTS (
+            SELECT 1 FROM shifts s
+            WHERE s.id = shift_offers.shift_id
+              AND s.user_id = auth.uid()
+        )
+        AND EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = shift_offers.location_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Shift offers updatable for assigned locations" ON shift_offers;
+CREATE POLICY "Shift offers updatable for assigned locations" ON shift_offers
+    FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = shift_offers.location_id
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = shift_offers.location_id
+        )
+    );
+
+-- RLS: readable at the location; there are no write policies, so events can
+-- only come from the trigger
+ALTER TABLE shift_offer_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Shift offer events readable for assigned locations" ON shift_offer_events;
+CREATE POLICY "Shift offer events readable for assigned locations" ON shift_offer_events
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM shift_offers o
+            JOIN user_location_assignments ula ON ula.location_id = o.location_id
+            WHERE o.id = shift_offer_events.offer_id
+              AND ula.user_id = auth.uid()
+        )
+    );
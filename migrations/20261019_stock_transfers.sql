@@ -0,0 +1,52 @@
+-- Inter-location stock transfers (REQUESTED -> SHIPPED -> RECEIVED)
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  from_location_id UUID NOT NULL REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  to_location_id UUID NOT NULL REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  from_item_id UUID REFERENCES items(id) ON DELETE SET NULL, -- Resolved when shipped
+  to_item_id UUID REFERENCES items(id) ON DELETE SET NULL,   -- Resolved when received
+  item_name TEXT NOT NULL,
+  sku TEXT,
+  unit TEXT NOT NULL DEFAULT 'unit_each',
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  -- SHIPPING / RECEIVING: claimed by one user while stock moves, so a second ship/receive finds nothing to claim.
+  -- One that stopped part-way stays in that status until it is resumed
+  status TEXT NOT NULL DEFAULT 'REQUESTED' CHECK (status IN ('REQUESTED', 'SHIPPING', 'SHIPPED', 'RECEIVING', 'RECEIVED', 'CANCELLED')),
+  -- Lots drawn at shipment: [{lotNumber, expiryDate, quantity, stockLevelId, shipped, received}].
+  -- shipped / received flag each line once its stock has moved, so an interrupted
+  -- shipment or receipt is resumed without moving those lines again
+  lines JSONB DEFAULT '[]'::JSONB,
+  notes TEXT,
+  requested_by UUID REFERENCES auth.users(id),
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  shipped_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE,
+  claimed_at TIMESTAMP WITH TIME ZONE, -- Set while SHIPPING / RECEIVING is being worked on; NULL once released
+  CHECK (from_location_id <> to_location_id)
+);
+
+CREATE INDEX IF NOT EXISTS stock_transfers_from_idx ON stock_transfers (from_location_id, status);
+CREATE INDEX IF NOT EXISTS stock_transfers_to_idx ON stock_transfers (to_location_id, status);
+
+-- RLS: visible to users assigned to either end of the transfer
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Transfer access for assigned locations" ON stock_transfers;
+CREATE POLICY "Transfer access for assigned locations" ON stock_transfers
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id IN (stock_transfers.from_location_id, stock_transfers.to_location_id)
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id IN (stock_transfers.from_location_id, stock_transfers.to_location_id)
+        )
+    );
@@ -0,0 +1,240 @@
+-- Time clock: punches stamped by the server, per-location clock rules and
+-- manager timesheet approvals per pay period.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS time_clock_settings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL UNIQUE REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  require_network BOOLEAN NOT NULL DEFAULT FALSE,
+  allowed_networks CIDR[] NOT NULL DEFAULT '{}', -- Clinic public IP ranges
+  require_pin BOOLEAN NOT NULL DEFAULT FALSE,
+  grace_minutes INTEGER NOT NULL DEFAULT 5 CHECK (grace_minutes >= 0),
+  pay_period_days INTEGER NOT NULL DEFAULT 14 CHECK (pay_period_days IN (7, 14)),
+  pay_period_anchor DATE NOT NULL DEFAULT '2026-01-05', -- A Monday
+  overtime_weekly_hours NUMERIC NOT NULL DEFAULT 40 CHECK (overtime_weekly_hours > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Kept apart from the settings so staff can read the rules but never the hash
+CREATE TABLE IF NOT EXISTS time_clock_pins (
+  location_id UUID PRIMARY KEY REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL, -- bcrypt
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS time_punches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  punch_in TIMESTAMP WITH TIME ZONE NOT NULL,
+  punch_out TIMESTAMP WITH TIME ZONE CHECK (punch_out IS NULL OR punch_out > punch_in),
+  source TEXT NOT NULL DEFAULT 'clock' CHECK (source IN ('clock', 'manual')),
+  ip_address INET,
+  edited_by UUID REFERENCES auth.users(id),
+  edit_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS time_punches_location_idx ON time_punches (location_id, punch_in);
+
+-- One open punch per person at a time
+CREATE UNIQUE INDEX IF NOT EXISTS time_punches_open_idx ON time_punches (user_id) WHERE punch_out IS NULL;
+
+CREATE TABLE IF NOT EXISTS timesheet_approvals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_id UUID NOT NULL REFERENCES clinic_locations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  regular_hours NUMERIC NOT NULL,
+  overtime_hours NUMERIC NOT NULL,
+  approved_by UUID NOT NULL REFERENCES auth.users(id),
+  approved_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, location_id, period_start)
+);
+
+-- Punches in if the caller is off the clock, out if they are on it. The time
+-- comes from the database, and the network and PIN rules are checked here so
+-- a modified client cannot skip them. The caller's address is taken from the
+-- gateway: cf-connecting-ip, which the edge overwrites, else the last
+-- x-forwarded-for hop. Earlier x-forwarded-for entries come from the client
+-- and are never trusted. Someone still on the clock at another location has
+-- to punch out there first.
+CREATE OR REPLACE FUNCTION public.clock_punch(p_location_id UUID, p_pin TEXT DEFAULT NULL)
+RETURNS time_punches AS $$
+DECLARE
+  settings time_clock_settings;
+  stored_hash TEXT;
+  caller_ip INET;
+  headers JSON;
+  open_location UUID;
+  punch time_punches;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_location_assignments ula
+    WHERE ula.user_id = auth.uid() AND ula.location_id = p_location_id
+  ) THEN
+    RAISE EXCEPTION 'Not assigned to this location';
+  END IF;
+
+  SELECT * INTO settings FROM time_clock_settings WHERE location_id = p_location_id;
+  headers := current_setting('request.headers', true)::json;
+  caller_ip := NULLIF(trim(COALESCE(
+    headers->>'cf-connecting-ip',
+    (regexp_split_to_array(headers->>'x-forwarded-for', ','))[array_length(regexp_split_to_array(headers->>'x-forwarded-for', ','), 1)]
+  )), '')::INET;
+
+  IF settings.require_network AND (
+    caller_ip IS NULL OR NOT EXISTS (SELECT 1 FROM unnest(settings.allowed_networks) net WHERE caller_ip <<= net)
+  ) THEN
+    RAISE EXCEPTION 'Punches are only accepted from the clinic network';
+  END IF;
+
+  IF settings.require_pin THEN
+    SELECT pin_hash INTO stored_hash FROM time_clock_pins WHERE location_id = p_location_id;
+    IF stored_hash IS NULL OR p_pin IS NULL OR extensions.crypt(p_pin, stored_hash) <> stored_hash THEN
+      RAISE EXCEPTION 'Incorrect clinic PIN';
+    END IF;
+  END IF;
+
+  SELECT location_id INTO open_location FROM time_punches WHERE user_id = auth.uid() AND punch_out IS NULL;
+  IF open_location IS NOT NULL AND open_location <> p_location_id THEN
+    RAISE EXCEPTION 'You are still clocked in at another location. Punch out there first.';
+  END IF;
+
+  UPDATE time_punches
+  SET punch_out = NOW(), updated_at = NOW()
+  WHERE user_id = auth.uid() AND location_id = p_location_id AND punch_out IS NULL
+  RETURNING * INTO punch;
+
+  IF punch.id IS NULL THEN
+    INSERT INTO time_punches (location_id, user_id, punch_in, source, ip_address)
+    VALUES (p_location_id, auth.uid(), NOW(), 'clock', caller_ip)
+    RETURNING * INTO punch;
+  END IF;
+
+  RETURN punch;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- Sets or clears (NULL) the location's clock PIN
+CREATE OR REPLACE FUNCTION public.set_time_clock_pin(p_location_id UUID, p_pin TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT public.is_owner_manager() OR NOT EXISTS (
+    SELECT 1 FROM user_location_assignments ula
+    WHERE ula.user_id = auth.uid() AND ula.location_id = p_location_id
+  ) THEN
+    RAISE EXCEPTION 'Only managers of this location can change the clock PIN';
+  END IF;
+
+  IF p_pin IS NULL OR p_pin = '' THEN
+    DELETE FROM time_clock_pins WHERE location_id = p_location_id;
+  ELSE
+    INSERT INTO time_clock_pins (location_id, pin_hash, updated_at)
+    VALUES (p_location_id, extensions.crypt(p_pin, extensions.gen_salt('bf')), NOW())
+    ON CONFLICT (location_id) DO UPDATE SET pin_hash = EXCLUDED.pin_hash, updated_at = NOW();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+-- RLS: everyone at the location reads; only managers write directly. Staff
+-- punches go through clock_punch, and the PIN table has no policies at all.
+ALTER TABLE time_clock_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE time_clock_pins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE time_punches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE timesheet_approvals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Time clock settings read for assigned locations" ON time_clock_settings;
+CREATE POLICY "Time clock settings read for assigned locations" ON time_clock_settings
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = time_clock_settings.location_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Time clock settings managed by managers" ON time_clock_settings;
+CREATE POLICY "Time clock settings managed by managers" ON time_clock_settings
+    FOR ALL
+    TO authenticated
+    USING (
+        public.is_owner_manager() AND EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = time_clock_settings.location_id
+        )
+    )
+    WITH CHECK (
+        public.is_owner_manager() AND EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = time_clock_settings.location_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Time punches read for assigned locations" ON time_punches;
+CREATE POLICY "Time punches read for assigned locations" ON time_punches
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = time_punches.location_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Time punches corrected by managers" ON time_punches;
+CREATE POLICY "Time punches corrected by managers" ON time_punches
+    FOR ALL
+    TO authenticated
+    USING (
+        public.is_owner_manager() AND EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = time_punches.location_id
+        )
+    )
+    WITH CHECK (
+        public.is_owner_manager() AND EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = time_punches.location_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Timesheet approvals read for assigned locations" ON timesheet_approvals;
+CREATE POLICY "Timesheet approvals read for assigned locations" ON timesheet_approvals
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = timesheet_approvals.location_id
+        )
+    );
+
+DROP POLICY IF EXISTS "Timesheet approvals managed by managers" ON timesheet_approvals;
+CREATE POLICY "Timesheet approvals managed by managers" ON timesheet_approvals
+    FOR ALL
+    TO authenticated
+    USING (
+        public.is_owner_manager() AND EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = timesheet_approvals.location_id
+        )
+    )
+    WITH CHECK (
+        public.is_owner_manager() AND EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = timesheet_approvals.location_id
+        )
+    );
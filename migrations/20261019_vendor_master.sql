@@ -0,0 +1,143 @@
+-- Vendor master data: per-location vendors referenced by ID from orders and budgets
+
+-- 1. Extend vendors
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'vendors' AND column_name = 'location_id') THEN
+        ALTER TABLE vendors ADD COLUMN location_id UUID REFERENCES clinic_locations(id) ON DELETE CASCADE;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'vendors' AND column_name = 'website') THEN
+        ALTER TABLE vendors ADD COLUMN website TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'vendors' AND column_name = 'account_number') THEN
+        ALTER TABLE vendors ADD COLUMN account_number TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'vendors' AND column_name = 'default_lead_time_days') THEN
+        ALTER TABLE vendors ADD COLUMN default_lead_time_days INTEGER CHECK (default_lead_time_days >= 0);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'vendors' AND column_name = 'payment_terms') THEN
+        ALTER TABLE vendors ADD COLUMN payment_terms TEXT CHECK (payment_terms IN ('DUE_ON_RECEIPT', 'NET_15', 'NET_30', 'NET_45', 'NET_60', 'PREPAID', 'CREDIT_CARD'));
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'vendors' AND column_name = 'logo_url') THEN
+        ALTER TABLE vendors ADD COLUMN logo_url TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'vendors' AND column_name = 'notes') THEN
+        ALTER TABLE vendors ADD COLUMN notes TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'vendors' AND column_name = 'is_active') THEN
+        ALTER TABLE vendors ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT TRUE;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'orders' AND column_name = 'vendor_id') THEN
+        ALTER TABLE orders ADD COLUMN vendor_id UUID REFERENCES vendors(id) ON DELETE SET NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'budgets' AND column_name = 'vendor_ids') THEN
+        ALTER TABLE budgets ADD COLUMN vendor_ids UUID[] DEFAULT '{}';
+    END IF;
+END $$;
+
+-- 2. Names are unique per location, not globally
+ALTER TABLE vendors DROP CONSTRAINT IF EXISTS vendors_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS vendors_location_name_idx ON vendors (location_id, LOWER(name));
+CREATE INDEX IF NOT EXISTS orders_vendor_id_idx ON orders (vendor_id);
+
+-- 3. Seed each location with the previously hard-coded vendors and every vendor it has ordered from
+INSERT INTO vendors (location_id, name, logo_url)
+SELECT cl.id, preset.name, preset.logo_url
+FROM clinic_locations cl
+CROSS JOIN (VALUES
+    ('Amazon', '/logos/amazon_premium.png'),
+    ('Labcorp', '/logos/labcorp_premium_v2.png'),
+    ('Henry Schein', '/logos/henry_schein_premium_v2.png'),
+    ('Medline', '/logos/medline_premium_v2.png'),
+    ('McKesson', '/logos/mckesson_premium_v2.png')
+) AS preset(name, logo_url)
+ON CONFLICT DO NOTHING;
+
+-- Spellings that share a prefix ("Amazon" / "Amazon.com" / "Amazon.com, Inc.")
+-- are one vendor, matched the way budgets used to match orders: an order
+-- spelling is only seeded when no preset or shorter spelling already covers it
+INSERT INTO vendors (location_id, name)
+SELECT DISTINCT ON (s.location_id, s.key) s.location_id, s.name
+FROM (
+    SELECT o.location_id, TRIM(o.vendor) AS name, REGEXP_REPLACE(LOWER(o.vendor), '[^a-z0-9]', '', 'g') AS key
+    FROM orders o
+    WHERE o.location_id IS NOT NULL
+) s
+WHERE s.key <> ''
+  AND NOT EXISTS (
+      SELECT 1 FROM vendors v
+      CROSS JOIN LATERAL (SELECT REGEXP_REPLACE(LOWER(v.name), '[^a-z0-9]', '', 'g') AS key) vk
+      WHERE v.location_id = s.location_id
+        AND vk.key <> ''
+        AND (STARTS_WITH(s.key, vk.key) OR STARTS_WITH(vk.key, s.key))
+  )
+  AND NOT EXISTS (
+      SELECT 1 FROM orders o2
+      CROSS JOIN LATERAL (SELECT REGEXP_REPLACE(LOWER(o2.vendor), '[^a-z0-9]', '', 'g') AS key) ok
+      WHERE o2.location_id = s.location_id
+        AND ok.key <> ''
+        AND ok.key <> s.key
+        AND STARTS_WITH(s.key, ok.key)
+  )
+ORDER BY s.location_id, s.key, s.name
+ON CONFLICT DO NOTHING;
+
+-- 4. Backfill references by normalized name (lower-cased alphanumerics): an
+-- exact match wins, otherwise the longest vendor name sharing a prefix
+UPDATE orders o
+SET vendor_id = (
+    SELECT v.id
+    FROM vendors v
+    CROSS JOIN LATERAL (SELECT REGEXP_REPLACE(LOWER(v.name), '[^a-z0-9]', '', 'g') AS key) vk
+    WHERE v.location_id = o.location_id
+      AND vk.key <> ''
+      AND (STARTS_WITH(ok.key, vk.key) OR STARTS_WITH(vk.key, ok.key))
+    ORDER BY vk.key = ok.key DESC, LENGTH(vk.key) DESC
+    LIMIT 1
+)
+FROM (SELECT id, REGEXP_REPLACE(LOWER(COALESCE(vendor, '')), '[^a-z0-9]', '', 'g') AS key FROM orders) ok
+WHERE ok.id = o.id
+  AND o.vendor_id IS NULL
+  AND ok.key <> '';
+
+UPDATE budgets b
+SET vendor_ids = ARRAY(
+    SELECT DISTINCT best.id
+    FROM UNNEST(COALESCE(NULLIF(b.categories, '{}'), ARRAY[b.category])) AS c
+    CROSS JOIN LATERAL (SELECT REGEXP_REPLACE(LOWER(COALESCE(c, '')), '[^a-z0-9]', '', 'g') AS key) ck
+    CROSS JOIN LATERAL (
+        SELECT v.id
+        FROM vendors v
+        CROSS JOIN LATERAL (SELECT REGEXP_REPLACE(LOWER(v.name), '[^a-z0-9]', '', 'g') AS key) vk
+        WHERE v.location_id = b.location_id
+          AND vk.key <> ''
+          AND ck.key <> ''
+          AND (STARTS_WITH(ck.key, vk.key) OR STARTS_WITH(vk.key, ck.key))
+        ORDER BY vk.key = ck.key DESC, LENGTH(vk.key) DESC
+        LIMIT 1
+    ) best
+)
+WHERE COALESCE(CARDINALITY(b.vendor_ids), 0) = 0;
+
+-- 5. RLS: vendors are visible to users assigned to their location
+ALTER TABLE vendors ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Vendor access for assigned locations" ON vendors;
+CREATE POLICY "Vendor access for assigned locations" ON vendors
+    FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = vendors.location_id
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM user_location_assignments ula
+            WHERE ula.user_id = auth.uid()
+              AND ula.location_id = vendors.location_id
+        )
+    );
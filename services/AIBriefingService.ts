@@ -87,8 +87,8 @@ function buildDataSnapshot(
     : 0;
   const totalRevenue7d = recentReports.reduce((sum, r) => sum + (r.totals?.revenue || 0), 0);
 
-  // ── Pending orders
-  const pendingOrders = orders.filter(o => o.status === 'PENDING');
+  // ── Pending orders (including back-ordered remainders)
+  const pendingOrders = orders.filter(o => o.status === 'PENDING' || o.status === 'PARTIALLY_RECEIVED');
 
   // ── Petty cash (last 7 days)
   const recentPettyCash = pettyCash.filter(t => {
@@ -0,0 +1,134 @@
+import { ActivityLog, ActivityLogChange, AuditChainVerification, DBActivityLog } from '../types';
+import { OfflineSyncService } from './OfflineSyncService';
+
+/**
+ * Append-only activity trail, one hash chain per location. The database
+ * assigns seq, created_at, user_id and the SHA-256 hash on insert (see
+ * migrations/20261019_activity_log.sql); the client never computes hashes.
+ */
+export class ActivityLogService {
+    private static accessToken: string | null = null;
+    private static locationId: string | null = null;
+    private static apiUrl = import.meta.env.VITE_SUPABASE_URL + '/rest/v1';
+    private static apiKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    static setAccessToken(token: string) {
+        this.accessToken = token;
+    }
+
+    static setLocationId(id: string) {
+        this.locationId = id;
+    }
+
+    private static getHeaders() {
+        if (!this.accessToken) {
+            console.warn('[ActivityLogService] ⚠️ No access token! Operations may fail.');
+        }
+        const headers: HeadersInit = {
+            'apikey': this.apiKey,
+            'Authorization': `Bearer ${this.accessToken || this.apiKey}`,
+            'Content-Type': 'application/json',
+            'Prefer': 'return=representation'
+        };
+        return headers;
+    }
+
+    private static mapLog(row: DBActivityLog): ActivityLog {
+        return {
+            id: row.id,
+            action: row.action as ActivityLog['action'],
+            details: row.details,
+            timestamp: new Date(row.created_at),
+            user: row.user_name,
+            occurredAt: row.occurred_at ? new Date(row.occurred_at) : undefined,
+            userId: row.user_id || undefined,
+            entityType: row.entity_type || undefined,
+            entityId: row.entity_id || undefined,
+            before: row.before,
+            after: row.after,
+            seq: Number(row.seq),
+            hash: row.hash,
+            prevHash: row.prev_hash
+        };
+    }
+
+    /**
+     * Most recent entries for the current location, newest first.
+     */
+    static async fetchAll(limit = 1000): Promise<ActivityLog[]> {
+        if (!this.locationId) return [];
+        const response = await fetch(
+            `${this.apiUrl}/activity_log?select=*&location_id=eq.${this.locationId}&order=seq.desc&limit=${limit}`,
+            { method: 'GET', headers: this.getHeaders() }
+        );
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`Activity log fetch failed (${response.status}): ${text}`);
+        }
+        const rows: DBActivityLog[] = await response.json();
+        return rows.map(row => this.mapLog(row));
+    }
+
+    private static insertion(action: ActivityLog['action'], details: string, userName: string, change: ActivityLogChange | undefined, occurredAt: Date) {
+        return {
+            label: `Activity log: ${action}`,
+            method: 'POST' as const,
+            table: 'activity_log',
+            path: 'activity_log',
+            body: {
+                location_id: this.locationId,
+                action,
+                details,
+                user_name: userName,
+                occurred_at: occurredAt.toISOString(),
+                entity_type: change?.entityType ?? null,
+                entity_id: change?.entityId ?? null,
+                before: change?.before ?? null,
+                after: change?.after ?? null
+            }
+        };
+    }
+
+    /**
+     * Appends an entry. Queued while offline, in which case null is returned
+     * and the entry is chained when it reaches the server. `occurredAt` is
+     * kept as the client time, so a late replay still says when it happened.
+     */
+    static async append(action: ActivityLog['action'], details: string, userName: string, change?: ActivityLogChange, occurredAt: Date = new Date()): Promise<ActivityLog | null> {
+        const { rows } = await OfflineSyncService.mutate(this.insertion(action, details, userName, change, occurredAt));
+        return rows[0] ? this.mapLog(rows[0]) : null;
+    }
+
+    /**
+     * Puts an entry the server refused into the offline queue. It is retried
+     * in order, and a second refusal is parked as a sync conflict, where it
+     * shows in the sync status panel instead of being lost.
+     */
+    static async queue(action: ActivityLog['action'], details: string, userName: string, change: ActivityLogChange | undefined, occurredAt: Date): Promise<void> {
+        await OfflineSyncService.enqueue(this.insertion(action, details, userName, change, occurredAt));
+        OfflineSyncService.flush();
+    }
+
+    /**
+     * Re-hashes the location's whole chain on the server and reports the
+     * first entry that was altered, removed or reordered.
+     */
+    static async verifyChain(): Promise<AuditChainVerification> {
+        const response = await fetch(`${this.apiUrl}/rpc/verify_activity_log_chain`, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: JSON.stringify({ p_location_id: this.locationId })
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`Audit verification failed (${response.status}): ${text}`);
+        }
+        const [result] = await response.json();
+        return {
+            checked: Number(result?.checked || 0),
+            valid: !result?.broken_seq,
+            brokenSeq: result?.broken_seq ?? undefined,
+            brokenId: result?.broken_id ?? undefined
+        };
+    }
+}
@@ -18,6 +18,42 @@ function getHeaders(): Record<string, string> {
     };
 }
 
+function mapRule(r: any): BillingRule {
+    return {
+        id: r.id,
+        testName: r.test_name,
+        cpt: r.cpt,
+        insurers: Array.isArray(r.insurers) ? r.insurers : [],
+        billToClient: r.bill_to_client,
+        modifiers: Array.isArray(r.modifiers) && r.modifiers.length > 0 ? r.modifiers : undefined,
+        conditions: r.conditions && Object.keys(r.conditions).length > 0 ? r.conditions : undefined,
+        priorAuthRequired: r.prior_auth_required || undefined,
+        effectiveFrom: r.effective_from || undefined,
+        effectiveTo: r.effective_to || undefined,
+        ruleKey: r.rule_key || undefined,
+        version: r.version ?? undefined,
+        notes: r.notes || undefined
+    };
+}
+
+function toPayload(rule: BillingRule) {
+    return {
+        test_name: rule.testName,
+        cpt: rule.cpt,
+        insurers: rule.insurers || [],
+        bill_to_client: rule.billToClient ?? true,
+        modifiers: rule.modifiers || [],
+        conditions: rule.conditions || {},
+        prior_auth_required: rule.priorAuthRequired ?? false,
+        effective_from: rule.effectiveFrom || null,
+        effective_to: rule.effectiveTo || null,
+        rule_key: rule.ruleKey || null,
+        version: rule.version ?? 1,
+        notes: rule.notes || null,
+        updated_at: new Date().toISOString()
+    };
+}
+
 export const BillingRuleService = {
     setAccessToken(token: string) {
         _cachedToken = token;
@@ -51,13 +87,7 @@ export const BillingRuleService = {
             }
 
             const data = await response.json();
-            return (data || []).map((r: any) => ({
-                id: r.id,
-                testName: r.test_name,
-                cpt: r.cpt,
-                insurers: Array.isArray(r.insurers) ? r.insurers : [],
-                billToClient: r.bill_to_client
-            }));
+            return (data || []).map(mapRule);
         } catch (error) {
             console.error('[BillingRuleService] Fetch failed:', error);
             return [];
@@ -71,13 +101,7 @@ export const BillingRuleService = {
         // Let the DB generate UUID if needed, otherwise use it if valid UUID
         const isUUID = /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/.test(rule.id);
 
-        const payload: any = {
-            test_name: rule.testName,
-            cpt: rule.cpt,
-            insurers: rule.insurers || [],
-            bill_to_client: rule.billToClient ?? true,
-            updated_at: new Date().toISOString()
-        };
+        const payload: any = toPayload(rule);
 
         if (isUUID) {
             payload.id = rule.id;
@@ -102,13 +126,7 @@ export const BillingRuleService = {
             const data = await response.json();
             if (!data || data.length === 0) throw new Error('No data returned');
 
-            return {
-                id: data[0].id,
-                testName: data[0].test_name,
-                cpt: data[0].cpt,
-                insurers: data[0].insurers,
-                billToClient: data[0].bill_to_client
-            };
+            return mapRule(data[0]);
         } catch (err) {
             console.error('[BillingRuleService] Create failed:', err);
             throw err;
@@ -116,13 +134,7 @@ export const BillingRuleService = {
     },
 
     async updateRule(rule: BillingRule): Promise<BillingRule | null> {
-        const payload = {
-            test_name: rule.testName,
-            cpt: rule.cpt,
-            insurers: rule.insurers || [],
-            bill_to_client: rule.billToClient ?? true,
-            updated_at: new Date().toISOString()
-        };
+        const payload = toPayload(rule);
 
         try {
             const response = await fetch(`${SUPABASE_URL}/rest/v1/billing_rules?id=eq.${rule.id}`, {
@@ -136,20 +148,40 @@ export const BillingRuleService = {
 
             if (!data || data.length === 0) return null;
 
-            return {
-                ...rule,
-                id: data[0].id,
-                testName: data[0].test_name,
-                cpt: data[0].cpt,
-                insurers: data[0].insurers,
-                billToClient: data[0].bill_to_client
-            };
+            return { ...rule, ...mapRule(data[0]) };
         } catch (err) {
             console.error('[BillingRuleService] Update failed:', err);
             throw err;
         }
     },
 
+    /**
+     * Closes the latest version of a rule the day before `effectiveFrom` and
+     * saves `changes` as the next version, both in one server transaction.
+     * The server refuses if a newer version already exists.
+     */
+    async createRuleVersion(previous: BillingRule, changes: BillingRule, effectiveFrom: string): Promise<{ closed: BillingRule; next: BillingRule }> {
+        const response = await fetch(`${SUPABASE_URL}/rest/v1/rpc/create_billing_rule_version`, {
+            method: 'POST',
+            headers: getHeaders(),
+            body: JSON.stringify({
+                p_rule_id: previous.id,
+                p_effective_from: effectiveFrom,
+                p_changes: toPayload(changes)
+            })
+        });
+
+        if (!response.ok) {
+            const text = await response.text();
+            let message = text;
+            try { message = JSON.parse(text).message || text; } catch { /* plain text error */ }
+            throw new Error(message);
+        }
+
+        const [closed, next] = await response.json();
+        return { closed: mapRule(closed), next: mapRule(next) };
+    },
+
     async deleteRule(id: string): Promise<boolean> {
         try {
             const response = await fetch(`${SUPABASE_URL}/rest/v1/billing_rules?id=eq.${id}`, {
@@ -29,6 +29,7 @@ const mapRow = (item: any): Budget => ({
     endDate: item.end_date,
     isRecurring: item.is_recurring || false,
     notes: item.notes || '',
+    vendorIds: item.vendor_ids || [],
     createdAt: item.created_at,
     updatedAt: item.updated_at
 });
@@ -72,7 +73,8 @@ export const BudgetService = {
             start_date: budget.startDate,
             end_date: budget.endDate,
             is_recurring: budget.isRecurring || false,
-            notes: budget.notes || ''
+            notes: budget.notes || '',
+            vendor_ids: budget.vendorIds || []
         };
         if (_locationId) payload.location_id = _locationId;
 
@@ -105,6 +107,7 @@ export const BudgetService = {
         if (updates.endDate !== undefined) dbUpdates.end_date = updates.endDate;
         if (updates.isRecurring !== undefined) dbUpdates.is_recurring = updates.isRecurring;
         if (updates.notes !== undefined) dbUpdates.notes = updates.notes;
+        if (updates.vendorIds !== undefined) dbUpdates.vendor_ids = updates.vendorIds;
 
         const response = await fetch(
             `${SUPABASE_URL}/rest/v1/budgets?id=eq.${id}`,
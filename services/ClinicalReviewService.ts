@@ -1,11 +1,14 @@
 /**
  * Clinical Note Generator
  * Single LLM call: raw dictation → structured CC, HPI, Diagnoses, Plan
- * Optimized for US insurance acceptance and E/M coding.
+ * plus the MDM facts (ClinicalData). The E/M level itself is scored by
+ * utils/mdmEngine, not by the LLM.
  */
 
 import { chat, checkConnection } from './LocalAIService';
 import { DictationProtocolService } from './DictationProtocolService';
+import { normalizeIcd10, parseDiagnosisList, searchIcd10, validateIcd10 } from '../utils/icd10';
+import { scoreMDM, TIME_ACTIVITY_LABELS, type ClinicalData, type MDMResult, type TimeActivity } from '../utils/mdmEngine';
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -14,15 +17,36 @@ export interface StructuredNote {
   hpi: string;
   diagnoses: string;
   plan: string;
+  /** Deterministic CPT from scoreMDM; the LLM's guess when scoring was not possible */
   suggestedCPT: string;
   mdmLevel: string;
   procedures_performed: string[];
   upcodingSuggestions: string[];
   conductAlerts: string[];
+  /** MDM facts extracted from the dictation, as fed to scoreMDM */
+  clinicalData?: ClinicalData;
+  mdm?: MDMResult;
+  /** What the LLM itself coded, kept so disagreements can be reviewed */
+  llmSuggestedCPT?: string;
+  llmMdmRationale?: string;
+  /** One entry per assessed diagnosis, checked against the local ICD-10-CM table */
+  diagnosisCodes?: NoteDiagnosis[];
+}
+
+export interface NoteDiagnosis {
+  description: string;
+  /** LLM suggestions first, then matches from the local table */
+  candidates: string[];
+  /** Selected code; empty when no candidate passed validation */
+  code: string;
+  /** Set by the provider; only confirmed codes reach the superbill */
+  confirmed: boolean;
 }
 
 // ─── Prompt ─────────────────────────────────────────────────────────────────
 
+const TIME_ACTIVITIES = Object.keys(TIME_ACTIVITY_LABELS) as TimeActivity[];
+
 const getStructuredNotePrompt = (knownProtocols: string[] = []) => `You are a US outpatient/urgent care clinical documentation expert and certified medical coder. Take the raw provider dictation and produce properly structured medical documentation.
 
 OUTPUT — Return ONLY valid JSON:
@@ -34,6 +58,39 @@ OUTPUT — Return ONLY valid JSON:
   "plan": "Numbered plan organized BY DIAGNOSIS. Write a highly condensed bulleted list. MUST INCLUDE (if dictated): exact medication names/dosages, specific names of tests ordered, clear patient education, and follow-up timeline. Omit any action not performed.",
   "suggestedCPT": "99213, 99214, or 99215",
   "mdmLevel": "Briefly explain why this E/M level was chosen. Explicitly state which 2 of the 3 MDM elements (Problems, Data, Risk) meet or exceed the selected level.",
+  "clinicalData": {
+    "problems": {
+      "items": ["Each problem addressed at this visit"],
+      "stableChronicCount": 0,
+      "exacerbatedChronicCount": 0,
+      "acuteUncomplicated": 0,
+      "acuteWithSystemicSymptoms": 0,
+      "newUncertainPrognosis": 0,
+      "selfLimited": 0,
+      "lifeThreatening": false
+    },
+    "data": {
+      "labsOrdered": ["Each unique lab test ordered or reviewed"],
+      "imagingOrdered": ["Each unique imaging study ordered or reviewed"],
+      "outsideRecordsReviewed": false,
+      "independentInterpretation": false,
+      "discussionWithExternal": false
+    },
+    "risk": {
+      "treatments": ["Each treatment or medication given or prescribed"],
+      "prescriptionDrugManagement": false,
+      "ivFluidsOrMedications": false,
+      "decisionForHospitalization": false,
+      "decisionForSurgery": false,
+      "intensiveMonitoring": false,
+      "highRiskTreatment": false
+    },
+    "diagnoses": ["Each diagnosis, description only"],
+    "planItems": ["Each plan action"],
+    "isNewPatient": false,
+    "time": { "totalMinutes": 0, "activities": [] }
+  },
+  "diagnosisCodes": [{ "description": "Each diagnosis exactly as worded in the diagnoses list, without the code", "candidates": ["1-3 ICD-10-CM codes, most specific BILLABLE code first"] }],
   "procedures_performed": ["Identify any clinical tests or procedures performed. CRITICAL DATABASE MAPPING: If a test/procedure matches or is similar to one of the following known protocols, you MUST return the EXACT protocol name character-by-character: [${knownProtocols.join(', ')}]. If not in the list, use a concise description. Leave empty if none."],
   "upcodingSuggestions": ["If level is 99213, provide 3-5 concise suggestions to bring it to 99214. If 99214/99215, provide concise tips to defend this level."],
   "conductAlerts": ["CRITICAL MEDICAL/LEGAL RISK ALERTS. If 'Red Flag' symptoms are dictated (e.g., thunderclap headache, chest pain radiating to back), trigger a warning to document a thorough exam or justify ER transfer to prevent malpractice. Leave empty if no high-risk symptoms."]
@@ -62,16 +119,158 @@ CRITICAL MATHEMATICAL MATRIX FOR FINAL LEVEL:
   * Data (High): Extensive data.
   * Risk (High): Drug therapy requiring intensive monitoring for toxicity, decision regarding elective major surgery with identified risk factors.
 
+CLINICAL DATA EXTRACTION ("clinicalData"):
+The final E/M level is computed from "clinicalData" by a rules engine, so these facts MUST be exact. Count ONLY what is EXPLICITLY DICTATED; use 0, false or [] when not stated.
+- Each problem is counted in exactly ONE problem category. Localized symptoms are never "acuteWithSystemicSymptoms".
+- "prescriptionDrugManagement" is true ONLY for a prescription drug started, stopped, adjusted or continued. OTC drugs go in "treatments" only.
+- "independentInterpretation" is true ONLY when the provider personally read a test (e.g., own read of an ECG or X-ray).
+- "isNewPatient" is true ONLY if the dictation states this is a new patient.
+- "time.totalMinutes" is the provider's TOTAL time on the date of service ONLY if a number of minutes is dictated (e.g., "I spent 45 minutes"); otherwise 0. Exclude clinical staff time and separately billed procedures.
+- "time.activities" lists ONLY the dictated activities that time was spent on, using these values: ${TIME_ACTIVITIES.join(', ')}.
+
+TIME-BASED LEVEL: If total provider time is dictated, the level may instead be chosen by time (established 99212/99213/99214/99215 = 10/20/30/40+ min; new 99202/99203/99204/99205 = 15/30/45/60+ min). Choose whichever of MDM or time gives the higher code, and say which in "mdmLevel".
+
 OTHER CRITICAL RULES:
 1. CRITICAL DIAGNOSIS RULE: NEVER diagnose COVID-19 (U07.1) or Influenza without an explicitly dictated POSITIVE test result. Use 'Suspected [Disease]' with Z-codes (e.g., Z20.822) or code the active symptoms instead.
 2. EXTREME CONCISENESS & ZERO FLUFF: Omit any unmentioned details. NEVER use phrases like "not provided", "none prescribed", or "N/A".
 3. PROFESSIONAL TONE: Use strict medical terminology. No conversational or layperson terms except in CC.
 4. PERTINENT NEGATIVES: Ensure the HPI naturally includes relevant negative findings.
 5. ABBREVIATIONS: Recognize standard medical abbreviations (e.g., BID, PRN, c/o, SOB, WNL). Translate conversational abbreviations into formal medical terminology (e.g., 'dyspnea' instead of 'SOB'), but retain universally accepted safe abbreviations (like PRN or BID) in the Plan section.
-6. Diagnoses section: INCLUDE suggested ICD-10 codes with each diagnosis.
+6. Diagnoses section: INCLUDE suggested ICD-10 codes with each diagnosis. Use full billable codes (never 3-character category headers like J02 or R05), include laterality (right/left/bilateral) when dictated, and the 7th character for injuries (A = initial encounter).
 7. Plan: use diagnosis DESCRIPTION only, NO ICD codes in the plan.
 7. Return ONLY valid JSON, no markdown`;
 
+// ─── MDM Scoring ────────────────────────────────────────────────────────────
+
+const toCount = (value: unknown): number => {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+};
+
+const toFlag = (value: unknown): boolean => value === true || value === 'true';
+
+const toList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+
+/**
+ * Coerces the LLM's clinicalData into a complete ClinicalData. Anything
+ * missing or malformed counts as "not documented", never as present.
+ */
+export function normalizeClinicalData(raw: any): ClinicalData {
+  const problems = raw?.problems || {};
+  const data = raw?.data || {};
+  const risk = raw?.risk || {};
+  return {
+    problems: {
+      items: toList(problems.items),
+      stableChronicCount: toCount(problems.stableChronicCount),
+      exacerbatedChronicCount: toCount(problems.exacerbatedChronicCount),
+      acuteUncomplicated: toCount(problems.acuteUncomplicated),
+      acuteWithSystemicSymptoms: toCount(problems.acuteWithSystemicSymptoms),
+      newUncertainPrognosis: toCount(problems.newUncertainPrognosis),
+      selfLimited: toCount(problems.selfLimited),
+      lifeThreatening: toFlag(problems.lifeThreatening),
+    },
+    data: {
+      labsOrdered: toList(data.labsOrdered),
+      imagingOrdered: toList(data.imagingOrdered),
+      outsideRecordsReviewed: toFlag(data.outsideRecordsReviewed),
+      independentInterpretation: toFlag(data.independentInterpretation),
+      discussionWithExternal: toFlag(data.discussionWithExternal),
+    },
+    risk: {
+      treatments: toList(risk.treatments),
+      prescriptionDrugManagement: toFlag(risk.prescriptionDrugManagement),
+      ivFluidsOrMedications: toFlag(risk.ivFluidsOrMedications),
+      decisionForHospitalization: toFlag(risk.decisionForHospitalization),
+      decisionForSurgery: toFlag(risk.decisionForSurgery),
+      intensiveMonitoring: toFlag(risk.intensiveMonitoring),
+      highRiskTreatment: toFlag(risk.highRiskTreatment),
+    },
+    diagnoses: toList(raw?.diagnoses),
+    planItems: toList(raw?.planItems),
+    isNewPatient: toFlag(raw?.isNewPatient),
+    time: toCount(raw?.time?.totalMinutes) > 0
+      ? {
+          totalMinutes: toCount(raw.time.totalMinutes),
+          activities: toList(raw.time.activities).filter((a): a is TimeActivity => (TIME_ACTIVITIES as string[]).includes(a)),
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Replaces the LLM's CPT and MDM rationale with the deterministic score
+ * (MDM or time, whichever supports the higher code).
+ * The LLM's own answer is kept alongside for comparison.
+ */
+function scoreNote(note: StructuredNote): StructuredNote {
+  if (!note.clinicalData) return note;
+  const clinicalData = normalizeClinicalData(note.clinicalData);
+  const mdm = scoreMDM(clinicalData);
+  return {
+    ...note,
+    upcodingSuggestions: toList(note.upcodingSuggestions),
+    conductAlerts: toList(note.conductAlerts),
+    procedures_performed: toList(note.procedures_performed),
+    clinicalData,
+    mdm,
+    suggestedCPT: mdm.cptCode,
+    mdmLevel: mdm.rationale,
+    llmSuggestedCPT: note.suggestedCPT,
+    llmMdmRationale: note.mdmLevel,
+  };
+}
+
+// ─── Diagnosis Codes ────────────────────────────────────────────────────────
+
+/**
+ * Builds the per-diagnosis code list from the code already in the diagnoses
+ * text and the LLM's candidates, topped up from the local table. The first
+ * candidate that validates is preselected, unconfirmed. Failing that, a
+ * well-formed code missing from the local table is kept for the provider to
+ * verify, and a code the note carried is never dropped.
+ */
+function codeDiagnoses(note: StructuredNote): NoteDiagnosis[] {
+  const written = parseDiagnosisList(note.diagnoses || '');
+  const suggested: { description?: unknown; candidates?: unknown }[] = Array.isArray(note.diagnosisCodes) && note.diagnosisCodes.length > 0
+    ? note.diagnosisCodes
+    : written.map(d => ({ description: d.description, candidates: [] }));
+
+  return suggested
+    .filter(d => typeof d.description === 'string' && d.description.trim())
+    .map((d, i, all) => {
+      const description = (d.description as string).trim();
+      // Same wording, else the same line when the text lists as many diagnoses
+      const line = written.find(w => w.description.toLowerCase() === description.toLowerCase())
+        || (written.length === all.length ? written[i] : undefined);
+      const carried = line?.code || undefined;
+      const llm = toList(d.candidates).map(normalizeIcd10);
+      const local = searchIcd10(description, 3).filter(c => c.billable).map(c => c.code);
+      const candidates = [...new Set([...(carried ? [carried] : []), ...llm, ...local])];
+      const status = (c: string) => validateIcd10(c).status;
+      const code = candidates.find(c => status(c) === 'valid')
+        || candidates.find(c => status(c) === 'unknown')
+        || carried
+        || '';
+      return { description, candidates, code, confirmed: false };
+    });
+}
+
+/**
+ * Rewrites the diagnoses text from the selected codes, so what the provider
+ * copies into the EHR matches what the superbill bills. Codes the provider
+ * has not confirmed yet say so.
+ */
+export function applyDiagnosisCodes(note: StructuredNote, diagnosisCodes: NoteDiagnosis[]): StructuredNote {
+  const label = (d: NoteDiagnosis) => d.code ? ` (${d.code}${d.confirmed ? '' : ' — unconfirmed'})` : '';
+  return {
+    ...note,
+    diagnosisCodes,
+    diagnoses: diagnosisCodes.map((d, i) => `${i + 1}. ${d.description}${label(d)}`).join('\n'),
+  };
+}
+
 // ─── Main Function ──────────────────────────────────────────────────────────
 
 export async function generateStructuredNote(
@@ -129,8 +328,9 @@ export async function generateStructuredNote(
                 hpi: extractString('hpi') || partialNote.hpi,
                 diagnoses: extractString('diagnoses') || partialNote.diagnoses,
                 plan: extractString('plan') || partialNote.plan,
-                suggestedCPT: extractString('suggestedCPT') || partialNote.suggestedCPT,
-                mdmLevel: extractString('mdmLevel') || partialNote.mdmLevel,
+                // Only the LLM's guess so far; the scored CPT arrives with the final note
+                llmSuggestedCPT: extractString('suggestedCPT') || partialNote.llmSuggestedCPT,
+                llmMdmRationale: extractString('mdmLevel') || partialNote.llmMdmRationale,
                 procedures_performed: extractArray('procedures_performed') || partialNote.procedures_performed,
             };
             onUpdate({ ...partialNote });
@@ -148,8 +348,9 @@ export async function generateStructuredNote(
   if (jsonStart > 0) clean = clean.slice(jsonStart);
 
   try {
-    const result = JSON.parse(clean) as StructuredNote;
-    console.log(`[NoteGen] ✅ CPT ${result.suggestedCPT}`);
+    const parsed = scoreNote(JSON.parse(clean) as StructuredNote);
+    const result = applyDiagnosisCodes(parsed, codeDiagnoses(parsed));
+    console.log(`[NoteGen] ✅ CPT ${result.suggestedCPT}${result.llmSuggestedCPT && result.llmSuggestedCPT !== result.suggestedCPT ? ` (LLM said ${result.llmSuggestedCPT})` : ''}`);
     if (onUpdate) onUpdate(result);
     return result;
   } catch (e) {
@@ -160,8 +361,8 @@ export async function generateStructuredNote(
       hpi: partialNote.hpi || response,
       diagnoses: partialNote.diagnoses || '',
       plan: partialNote.plan || '',
-      suggestedCPT: partialNote.suggestedCPT || '99213',
-      mdmLevel: partialNote.mdmLevel || 'Review manually',
+      suggestedCPT: partialNote.llmSuggestedCPT || '99213',
+      mdmLevel: partialNote.llmMdmRationale ? `Unscored (LLM): ${partialNote.llmMdmRationale}` : 'Review manually',
       procedures_performed: partialNote.procedures_performed || [],
       upcodingSuggestions: [], conductAlerts: [],
     };
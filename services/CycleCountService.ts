@@ -0,0 +1,268 @@
+import { InventoryItem, CycleCountLine, CycleCountScope, CycleCountSession, CycleCountStatus, DBCycleCountSession } from '../types';
+import { InventoryService } from './InventoryService';
+import { getLineVariance, isCounted, needsApproval } from '../utils/cycleCount';
+
+/**
+ * Cycle-count sessions: OPEN → (PENDING_APPROVAL) → COMPLETED.
+ * Variances within the session's dollar threshold are booked when counts are
+ * submitted; larger ones wait for a manager's approval before stock changes.
+ * Submitting and approving first claim the session (SUBMITTING / APPROVING)
+ * and only then touch stock, so a variance is never booked twice.
+ */
+export class CycleCountService {
+    private static accessToken: string | null = null;
+    private static locationId: string | null = null;
+    private static apiUrl = import.meta.env.VITE_SUPABASE_URL + '/rest/v1';
+    private static apiKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    static setAccessToken(token: string) {
+        this.accessToken = token;
+    }
+
+    static setLocationId(id: string) {
+        this.locationId = id;
+    }
+
+    private static getHeaders() {
+        if (!this.accessToken) {
+            console.warn('[CycleCountService] ⚠️ No access token! Operations may fail.');
+        }
+        const headers: HeadersInit = {
+            'apikey': this.apiKey,
+            'Authorization': `Bearer ${this.accessToken || this.apiKey}`,
+            'Content-Type': 'application/json',
+            'Prefer': 'return=representation'
+        };
+        return headers;
+    }
+
+    private static mapSession(row: DBCycleCountSession): CycleCountSession {
+        return {
+            id: row.id,
+            name: row.name,
+            scopeType: row.scope_type,
+            scopeValue: row.scope_value,
+            status: row.status,
+            varianceThreshold: Number(row.variance_threshold || 0),
+            lines: row.lines || [],
+            notes: row.notes || undefined,
+            createdBy: row.created_by || undefined,
+            createdAt: row.created_at,
+            submittedAt: row.submitted_at || undefined,
+            completedAt: row.completed_at || undefined,
+            approvedBy: row.approved_by || undefined
+        };
+    }
+
+    private static async patch(id: string, updates: Partial<DBCycleCountSession>, expectedStatus: CycleCountStatus): Promise<CycleCountSession> {
+        // Status guard in the filter: only the request that finds the session
+        // in `expectedStatus` updates it, and everyone else gets zero rows back
+        const response = await fetch(`${this.apiUrl}/cycle_count_sessions?id=eq.${id}&status=eq.${expectedStatus}`, {
+            method: 'PATCH',
+            headers: this.getHeaders(),
+            body: JSON.stringify(updates)
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`Cycle count update failed (${response.status}): ${text}`);
+        }
+        const rows = await response.json();
+        if (!rows || rows.length === 0) {
+            throw new Error(`Cycle count is no longer ${expectedStatus}`);
+        }
+        return this.mapSession(rows[0]);
+    }
+
+    /**
+     * Books the variance of each line that is cleared for adjustment. The
+     * variance is applied on top of current stock, so usage between the count
+     * and the booking is not lost. Stops at the first failure and returns the
+     * error with the lines booked so far, so those are never booked again.
+     */
+    private static async applyLines(
+        lines: CycleCountLine[],
+        inventory: InventoryItem[],
+        isCleared: (line: CycleCountLine) => boolean
+    ): Promise<{ lines: CycleCountLine[]; items: InventoryItem[]; error?: unknown }> {
+        const items: InventoryItem[] = [];
+        const result = [...lines];
+        for (let index = 0; index < result.length; index++) {
+            const line = result[index];
+            const { units } = getLineVariance(line);
+            if (line.applied || units === 0 || !isCleared(line)) continue;
+
+            const item = inventory.find(i => i.id === line.itemId);
+            if (!item) {
+                console.warn(`[CycleCountService] Item ${line.itemId} no longer exists, skipping adjustment`);
+                continue;
+            }
+            try {
+                items.push(await InventoryService.adjustStock(item, Math.max(0, item.stock + units)));
+            } catch (error) {
+                return { lines: result, items, error };
+            }
+            result[index] = { ...line, applied: true };
+        }
+        return { lines: result, items };
+    }
+
+    /**
+     * Hands a claimed session back after a failed adjustment, keeping the
+     * `applied` flags of lines that did reach stock.
+     */
+    private static async release(id: string, lines: CycleCountLine[], from: CycleCountStatus, claimed: CycleCountStatus): Promise<void> {
+        await this.patch(id, { lines, status: from }, claimed).catch(error =>
+            console.error('[CycleCountService] Could not release cycle count claim:', error));
+    }
+
+    static async fetchAll(): Promise<CycleCountSession[]> {
+        try {
+            if (!this.accessToken || !this.locationId) return [];
+
+            const response = await fetch(
+                `${this.apiUrl}/cycle_count_sessions?select=*&location_id=eq.${this.locationId}&order=created_at.desc`,
+                { headers: this.getHeaders() }
+            );
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+            const data: DBCycleCountSession[] = await response.json();
+            return (data || []).map(row => this.mapSession(row));
+        } catch (error) {
+            console.error('[CycleCountService] Fetch failed:', error);
+            return [];
+        }
+    }
+
+    static async createSession(
+        session: { name: string; scopeType: CycleCountScope; scopeValue: string; varianceThreshold: number; lines: CycleCountLine[]; notes?: string },
+        userId: string
+    ): Promise<CycleCountSession> {
+        if (!this.locationId) throw new Error('No active location');
+        if (session.lines.length === 0) throw new Error('No items match this count sheet');
+
+        const response = await fetch(`${this.apiUrl}/cycle_count_sessions`, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: JSON.stringify({
+                location_id: this.locationId,
+                name: session.name,
+                scope_type: session.scopeType,
+                scope_value: session.scopeValue,
+                status: 'OPEN',
+                variance_threshold: session.varianceThreshold,
+                lines: session.lines,
+                notes: session.notes || null,
+                created_by: userId,
+                created_at: new Date().toISOString()
+            })
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`Failed to create cycle count (${response.status}): ${text}`);
+        }
+        const [row] = await response.json();
+        return this.mapSession(row);
+    }
+
+    /**
+     * Saves counts in progress. Only the lines this counter changed are sent
+     * and the database merges them into the sheet line by line, so several
+     * people can count the same sheet without overwriting each other. Returns
+     * the sheet with everyone's counts.
+     */
+    static async saveCounts(session: CycleCountSession, lines: CycleCountLine[]): Promise<CycleCountSession> {
+        const changed = lines
+            .filter(line => {
+                const saved = session.lines.find(l => l.itemId === line.itemId);
+                return isCounted(line) && (!saved || saved.countedQty !== line.countedQty);
+            })
+            .map(({ itemId, expectedQty, countedQty, countedBy, countedAt }) => ({ itemId, expectedQty, countedQty, countedBy, countedAt }));
+
+        const response = await fetch(`${this.apiUrl}/rpc/record_cycle_counts`, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: JSON.stringify({ p_session_id: session.id, p_lines: changed })
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`Failed to save counts (${response.status}): ${text}`);
+        }
+        const rows: DBCycleCountSession[] = await response.json();
+        if (!rows || rows.length === 0) throw new Error('Cycle count is no longer OPEN');
+        return this.mapSession(rows[0]);
+    }
+
+    /**
+     * Closes counting. Variances within the threshold are booked now; the
+     * session completes unless some variance needs a manager's approval.
+     * Every counted item is stamped as checked.
+     */
+    static async submitCounts(
+        session: CycleCountSession,
+        lines: CycleCountLine[],
+        inventory: InventoryItem[],
+        username: string
+    ): Promise<{ session: CycleCountSession; items: InventoryItem[] }> {
+        const merged = await this.saveCounts(session, lines);
+        const uncounted = merged.lines.filter(l => !isCounted(l)).length;
+        if (uncounted > 0) throw new Error(`${uncounted} item(s) have not been counted yet`);
+
+        // The claimed row is the final sheet: no further counts can be saved
+        const claimed = await this.patch(session.id, { status: 'SUBMITTING' }, 'OPEN');
+        const applied = await this.applyLines(claimed.lines, inventory, l => !needsApproval(l, session.varianceThreshold));
+        if (applied.error) {
+            await this.release(session.id, applied.lines, 'OPEN', 'SUBMITTING');
+            throw applied.error;
+        }
+        const pending = applied.lines.some(l => !l.applied && getLineVariance(l).units !== 0);
+        const now = new Date().toISOString();
+
+        await Promise.all(claimed.lines.map(l =>
+            InventoryService.updateItem(l.itemId, { lastChecked: now, lastCheckedBy: username })
+        ));
+
+        const updated = await this.patch(session.id, {
+            lines: applied.lines,
+            status: pending ? 'PENDING_APPROVAL' : 'COMPLETED',
+            submitted_at: now,
+            completed_at: pending ? null : now
+        }, 'SUBMITTING');
+        return { session: updated, items: applied.items };
+    }
+
+    /**
+     * Manager decision on the held variances. Rejected lines keep the system
+     * quantity.
+     */
+    static async approveAdjustments(
+        session: CycleCountSession,
+        decisions: Record<string, boolean>,
+        inventory: InventoryItem[],
+        userId: string
+    ): Promise<{ session: CycleCountSession; items: InventoryItem[] }> {
+        if (session.status !== 'PENDING_APPROVAL') throw new Error(`Cannot approve a ${session.status} cycle count`);
+
+        const claimed = await this.patch(session.id, { status: 'APPROVING' }, 'PENDING_APPROVAL');
+        const decided = claimed.lines.map(l =>
+            !l.applied && needsApproval(l, claimed.varianceThreshold) ? { ...l, approved: decisions[l.itemId] === true } : l
+        );
+        const applied = await this.applyLines(decided, inventory, l => l.approved === true);
+        if (applied.error) {
+            await this.release(session.id, applied.lines, 'PENDING_APPROVAL', 'APPROVING');
+            throw applied.error;
+        }
+
+        const updated = await this.patch(session.id, {
+            lines: applied.lines,
+            status: 'COMPLETED',
+            approved_by: userId,
+            completed_at: new Date().toISOString()
+        }, 'APPROVING');
+        return { session: updated, items: applied.items };
+    }
+
+    static async cancelSession(session: CycleCountSession): Promise<CycleCountSession> {
+        if (session.status !== 'OPEN') throw new Error(`Cannot cancel a ${session.status} cycle count`);
+        return this.patch(session.id, { status: 'CANCELLED' }, 'OPEN');
+    }
+}
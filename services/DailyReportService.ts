@@ -1,5 +1,6 @@
 
-import { DailyReport } from '../types/dailyReport';
+import { DailyReport, DrawerSignOff } from '../types/dailyReport';
+import { OfflineSyncService } from './OfflineSyncService';
 
 // ──────────────────────────────────────────────────────────────────────
 // TOKEN CACHE — set once by AppDataContext, reused by ALL functions.
@@ -45,29 +46,29 @@ export const DailyReportService = {
 
     async createReport(report: DailyReport, userId: string): Promise<DailyReport | null> {
         console.log('[DailyReportService] Creating report...', { id: report.id, userId });
-        try {
-            const dbPayload: Record<string, any> = {
-                id: report.id,
-                user_id: userId,
-                timestamp: report.timestamp,
-                author: report.author,
-                data: report,
-                revenue: report.totals.revenue,
-                patient_count: report.totals.patients,
-                cash: report.financials.methods.cash,
-                card: report.financials.methods.credit,
-                is_balanced: report.isBalanced,
-                notes: report.notes,
-                patients: report.totals.patients,
-            };
-
-            // CRITICAL: location_id is required by RLS policies
-            if (_locationId) {
-                dbPayload.location_id = _locationId;
-            } else {
-                console.error('[DailyReportService] ❌ No location_id set! Report will fail RLS.');
-            }
+        const dbPayload: Record<string, any> = {
+            id: report.id,
+            user_id: userId,
+            timestamp: report.timestamp,
+            author: report.author,
+            data: report,
+            revenue: report.totals.revenue,
+            patient_count: report.totals.patients,
+            cash: report.financials.methods.cash,
+            card: report.financials.methods.credit,
+            is_balanced: report.isBalanced,
+            notes: report.notes,
+            patients: report.totals.patients,
+        };
+
+        // CRITICAL: location_id is required by RLS policies
+        if (_locationId) {
+            dbPayload.location_id = _locationId;
+        } else {
+            console.error('[DailyReportService] ❌ No location_id set! Report will fail RLS.');
+        }
 
+        try {
             const url = `${SUPABASE_URL}/rest/v1/daily_reports`;
             const controller = new AbortController();
             const timeoutId = setTimeout(() => controller.abort(), 45000);
@@ -104,15 +105,85 @@ export const DailyReportService = {
             }
 
             // IMPORTANT: If network fails, STILL save it locally so no data is lost!
-            // The next time the app loads (or user goes online), restoreLocalReports will sync it.
+            // The upsert is queued and replayed by OfflineSyncService when the network returns.
             console.warn('[DailyReportService] Network failed. Saving OFFLINE copy to prevent data loss.', report.id);
             this.saveLocalReport(report);
+            if (!(error instanceof Error && error.message.startsWith('PostgREST error'))) {
+                await OfflineSyncService.enqueue({
+                    label: `Daily close ${new Date(report.timestamp).toLocaleDateString()}`,
+                    method: 'POST',
+                    table: 'daily_reports',
+                    path: 'daily_reports',
+                    body: dbPayload,
+                    prefer: 'resolution=merge-duplicates,return=representation'
+                }).catch(e => console.error('[DailyReportService] Failed to queue report', e));
+            }
 
             // Return it so the UI can proceed and let the user finish!
             return report;
         }
     },
 
+    /**
+     * Records a manager's approval of a drawer variance on the server. A
+     * manager approving in their own session needs no PIN; otherwise the
+     * chosen manager's sign-off PIN is checked there, and repeated wrong
+     * PINs lock it for a while. Throws the server's message (e.g. a locked PIN).
+     */
+    async signOffDrawer(request: {
+        reportId: string;
+        managerId: string;
+        managerName: string;
+        pin?: string;
+        reason: string;
+        cashVariance: number;
+        checkVariance: number;
+    }): Promise<DrawerSignOff> {
+        if (!_locationId) throw new Error('No active location');
+        const response = await fetch(`${SUPABASE_URL}/rest/v1/rpc/sign_off_drawer`, {
+            method: 'POST',
+            headers: getHeaders(),
+            body: JSON.stringify({
+                p_location_id: _locationId,
+                p_report_id: request.reportId,
+                p_manager_id: request.managerId,
+                p_pin: request.pin || null,
+                p_reason: request.reason,
+                p_cash_variance: request.cashVariance,
+                p_check_variance: request.checkVariance
+            })
+        });
+        if (!response.ok) {
+            const errorBody = await response.json().catch(() => null);
+            throw new Error(errorBody?.message || `Sign-off failed (${response.status})`);
+        }
+        // A wrong PIN comes back empty so the server can count the attempt
+        const row = await response.json();
+        if (!row?.id) throw new Error('Incorrect manager PIN');
+        return {
+            id: row.id,
+            managerId: row.manager_id,
+            managerName: request.managerName,
+            reason: row.reason,
+            cashVariance: Number(row.cash_variance),
+            checkVariance: Number(row.check_variance),
+            signedAt: row.signed_at
+        };
+    },
+
+    /** Sets the signed-in manager's own sign-off PIN */
+    async setSignOffPin(pin: string): Promise<void> {
+        const response = await fetch(`${SUPABASE_URL}/rest/v1/rpc/set_signoff_pin`, {
+            method: 'POST',
+            headers: getHeaders(),
+            body: JSON.stringify({ p_pin: pin })
+        });
+        if (!response.ok) {
+            const errorBody = await response.json().catch(() => null);
+            throw new Error(errorBody?.message || `Failed to set PIN (${response.status})`);
+        }
+    },
+
     async getReports(): Promise<DailyReport[]> {
         console.log('[DailyReportService] Fetching reports...');
         try {
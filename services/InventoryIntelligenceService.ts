@@ -1,6 +1,6 @@
 
 import { supabase } from '../src/lib/supabase';
-import { InventoryItem, DBIntelligenceOverride, ItemMetrics } from '../types';
+import { InventoryItem, DBIntelligenceOverride, ItemMetrics, OrderShipmentLine } from '../types';
 import { jsonChat } from './LocalAIService';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -11,6 +11,11 @@ export const ENGINE_BUFFER_DAYS = 5;
 export const ENGINE_CRITICALITY_FACTOR = 1.2; // Capital cap multiplier
 export const ENGINE_ROLLING_WINDOW = 3;        // Max cycles used for prediction
 
+// Cycles on each side used as the anomaly baseline
+const ANOMALY_NEIGHBOURHOOD = 2;
+// Fewer neighbours than this and the baseline is every other cycle instead
+const MIN_ANOMALY_BASELINE = 3;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Internal Types
 // ─────────────────────────────────────────────────────────────────────────────
@@ -46,74 +51,141 @@ export interface AIOrderDraftResponse {
 // ─────────────────────────────────────────────────────────────────────────────
 export class InventoryIntelligenceService {
 
-    // ── Core Public Method (Updated for Fast Actionability based on Rules) ──
+    // ── Core Public Method ────────────────────────────────────────────────────
+    // Builds purchase cycles from received shipment history, drops anomalous
+    // cycles, and predicts burn rate from the newest ENGINE_ROLLING_WINDOW
+    // valid cycles. Items without enough history fall back to min/max rules.
     static async calculateItemMetrics(
         item: InventoryItem,
         options?: { targetCoverageCycles?: number }
     ): Promise<ItemMetrics> {
         try {
-            const minStock = item.minStock || 5;
-            const maxStock = item.maxStock || minStock * 3;
             const leadTime = item.leadTime || 7;
+            const targetCoverage = options?.targetCoverageCycles ?? 1;
 
-            let status: ItemMetrics['status'] = 'HEALTHY';
-            let recommendedQuantity = 0;
-            let anomaliesDetected = 0;
-            let isVolatile = false;
+            const rawCycles = await this.getItemHistory(item.id);
+            if (rawCycles.length === 0) {
+                return this.getRuleBasedMetrics(item);
+            }
+
+            const { validCycles } = this.analyzeCycles(rawCycles);
+            const anomalies = rawCycles.filter(c => c.isAnomaly);
+            const debug_anomalies = anomalies.map(c => ({
+                reason: c.anomalyReason || 'UNKNOWN',
+                date: c.endDate.toISOString(),
+            }));
+
+            if (validCycles.length === 0) {
+                return {
+                    ...this.getRuleBasedMetrics(item),
+                    confidence: 'LOW',
+                    anomaliesDetected: anomalies.length,
+                    debug_rawCycleCount: rawCycles.length,
+                    debug_totalCycleCount: rawCycles.length,
+                    debug_validCycleCount: 0,
+                    debug_cycleCount: 0,
+                    debug_anomalies,
+                };
+            }
 
-            // 1. Check Expiration
+            // ── Fix #5: Prediction (and stability) use the rolling window only ──
+            // Cycles arrive newest-first, so the window is the head of the list.
+            const window = validCycles.slice(0, ENGINE_ROLLING_WINDOW);
+            const windowQty = window.reduce((sum, c) => sum + c.quantityConsumed, 0);
+            const windowDays = window.reduce((sum, c) => sum + c.durationDays, 0);
+            const dailyUsageRate = windowDays > 0 ? windowQty / windowDays : 0;
+            const predictedCycleDuration = this.getMedian(window.map(c => c.durationDays));
+            const stabilityIndex = this.computeCV(window.map(c => c.usageRate));
+
+            if (dailyUsageRate <= 0) {
+                return {
+                    ...this.getDormantMetrics(item, anomalies.length),
+                    debug_rawCycleCount: rawCycles.length,
+                    debug_validCycleCount: validCycles.length,
+                    debug_anomalies,
+                };
+            }
+
+            // Stock that expires before it is used does not count as coverage
             const now = new Date();
-            let daysUntilExpiry = Infinity;
+            let daysRemaining = item.stock / dailyUsageRate;
+            let isVolatile = stabilityIndex > 50;
             if (item.expiryDate) {
-                const expiryDate = new Date(item.expiryDate);
-                daysUntilExpiry = (expiryDate.getTime() - now.getTime()) / 86400000;
-                
-                if (daysUntilExpiry < 0) {
-                    anomaliesDetected += 1; // It has expired
-                } else if (daysUntilExpiry <= 30) {
-                    isVolatile = true; // Flag as volatile if expiring within 30 days
+                const daysUntilExpiry = (new Date(item.expiryDate).getTime() - now.getTime()) / 86400000;
+                if (!isNaN(daysUntilExpiry)) {
+                    if (daysUntilExpiry <= 30) isVolatile = true;
+                    daysRemaining = Math.min(daysRemaining, Math.max(0, daysUntilExpiry));
                 }
             }
 
-            // 2. Evaluate Status based on thresholds
-            // CRITICAL: Stock is below or equal to minStock
-            // ORDER_SOON: Stock is below minStock * 1.5
-            // OVERSTOCK: Stock is way above maxStock
-            if (item.stock <= minStock) {
+            // ── Status thresholds (expressed in days of cover) ───────────────
+            // CRITICAL   : stock runs out before a new order could arrive
+            // ORDER_SOON : stock runs out within lead time + buffer
+            // OVERSTOCK  : more than two full cycles on hand (strict >)
+            let status: ItemMetrics['status'] = 'HEALTHY';
+            if (daysRemaining <= leadTime) {
                 status = 'CRITICAL';
-                recommendedQuantity = Math.max(0, maxStock - item.stock);
-            } else if (item.stock <= minStock * 1.5) {
+            } else if (daysRemaining <= leadTime + ENGINE_BUFFER_DAYS) {
                 status = 'ORDER_SOON';
-                recommendedQuantity = Math.max(0, maxStock - item.stock);
-            } else if (item.stock >= maxStock) {
+            } else if (daysRemaining > 2 * predictedCycleDuration) {
                 status = 'OVERSTOCK';
             }
 
-            // If it's about to expire, it overrides and becomes CRITICAL
-            if (daysUntilExpiry <= 30 && status !== 'CRITICAL') {
-                status = 'CRITICAL';
-                // We assume we need to replace all stock that is about to expire
-                recommendedQuantity = maxStock;
+            // ── Reorder point ────────────────────────────────────────────────
+            const safetyStock = dailyUsageRate * ENGINE_BUFFER_DAYS;
+            const reorderPoint = dailyUsageRate * leadTime + safetyStock;
+            const daysUntilReorder = Math.max(0, (item.stock - reorderPoint) / dailyUsageRate);
+            const recommendedReorderDate = new Date(now.getTime() + daysUntilReorder * 86400000);
+
+            // ── Fix #4: Capital protection — cap at CRITICALITY_FACTOR × one cycle ──
+            const rawRecommendationFloat = dailyUsageRate * predictedCycleDuration * targetCoverage;
+            const capitalCapFloat = ENGINE_CRITICALITY_FACTOR * dailyUsageRate * predictedCycleDuration;
+            const capApplied = rawRecommendationFloat > capitalCapFloat;
+            const recommendedQuantity = Math.ceil(capApplied ? capitalCapFloat : rawRecommendationFloat);
+
+            // Capital tied up beyond two cycles of cover
+            const excessUnits = Math.max(0, item.stock - dailyUsageRate * predictedCycleDuration * 2);
+            const savingsOpportunity_usageBased = excessUnits * (item.averageCost || 0);
+
+            // ── Fix #9: HIGH confidence requires a full, clean, stable window ──
+            let confidence: ItemMetrics['confidence'] = 'LOW';
+            if (anomalies.length === 0 && window.length === ENGINE_ROLLING_WINDOW && stabilityIndex <= 25) {
+                confidence = 'HIGH';
+            } else if (window.length >= 2) {
+                confidence = 'MEDIUM';
             }
 
             return {
                 itemId: item.id,
                 itemName: item.name,
                 currentStock: item.stock,
-                dailyUsageRate: 0,
-                predictedCycleDuration: 30, // Placeholder
-                daysRemaining: status === 'CRITICAL' ? 0 : (daysUntilExpiry !== Infinity ? daysUntilExpiry : 999), 
-                recommendedReorderDate: status === 'CRITICAL' ? new Date() : null,
+                dailyUsageRate,
+                predictedCycleDuration,
+                daysRemaining,
+                recommendedReorderDate,
                 recommendedQuantity,
                 status,
-                confidence: 'HIGH', // We have high confidence in explicit rules
-                stabilityIndex: 0,
-                anomaliesDetected,
+                confidence,
+                stabilityIndex,
+                anomaliesDetected: anomalies.length,
                 isVolatile,
                 leadTime,
-                savingsOpportunity_usageBased: 0,
-                debug_rawCycleCount: 0,
-                debug_validCycleCount: 0,
+                savingsOpportunity_usageBased,
+                debug_rawCycleCount: rawCycles.length,
+                debug_totalCycleCount: rawCycles.length,
+                debug_validCycleCount: validCycles.length,
+                debug_cycleCount: validCycles.length,
+                debug_cyclesUsed: window.map(c => c.endDate.toISOString()),
+                debug_anomalies,
+                debug_rawRecommendationFloat: rawRecommendationFloat,
+                debug_capitalCapFloat: capitalCapFloat,
+                debug_rawRecommendation: Math.ceil(rawRecommendationFloat),
+                debug_capitalCap: Math.ceil(capitalCapFloat),
+                debug_capApplied: capApplied,
+                debug_bufferDays: ENGINE_BUFFER_DAYS,
+                debug_safetyStock: safetyStock,
+                debug_reorderPoint: reorderPoint,
+                debug_daysUntilReorder: daysUntilReorder,
             };
 
         } catch (error) {
@@ -202,6 +274,68 @@ ${JSON.stringify(chunk)}
         }
     }
 
+    // ── Rule-Based Fallback (fewer than 2 received orders) ───────────────────
+    private static getRuleBasedMetrics(item: InventoryItem): ItemMetrics {
+        const minStock = item.minStock || 5;
+        const maxStock = item.maxStock || minStock * 3;
+
+        let status: ItemMetrics['status'] = 'HEALTHY';
+        let recommendedQuantity = 0;
+        let anomaliesDetected = 0;
+        let isVolatile = false;
+
+        // 1. Check Expiration
+        const now = new Date();
+        let daysUntilExpiry = Infinity;
+        if (item.expiryDate) {
+            const expiryDate = new Date(item.expiryDate);
+            daysUntilExpiry = (expiryDate.getTime() - now.getTime()) / 86400000;
+
+            if (daysUntilExpiry < 0) {
+                anomaliesDetected += 1; // It has expired
+            } else if (daysUntilExpiry <= 30) {
+                isVolatile = true; // Flag as volatile if expiring within 30 days
+            }
+        }
+
+        // 2. Evaluate Status based on thresholds
+        if (item.stock <= minStock) {
+            status = 'CRITICAL';
+            recommendedQuantity = Math.max(0, maxStock - item.stock);
+        } else if (item.stock <= minStock * 1.5) {
+            status = 'ORDER_SOON';
+            recommendedQuantity = Math.max(0, maxStock - item.stock);
+        } else if (item.stock >= maxStock) {
+            status = 'OVERSTOCK';
+        }
+
+        // If it's about to expire, it overrides and becomes CRITICAL
+        if (daysUntilExpiry <= 30 && status !== 'CRITICAL') {
+            status = 'CRITICAL';
+            recommendedQuantity = maxStock;
+        }
+
+        return {
+            itemId: item.id,
+            itemName: item.name,
+            currentStock: item.stock,
+            dailyUsageRate: 0,
+            predictedCycleDuration: 0,
+            daysRemaining: status === 'CRITICAL' ? 0 : (daysUntilExpiry !== Infinity ? daysUntilExpiry : 999),
+            recommendedReorderDate: status === 'CRITICAL' ? new Date() : null,
+            recommendedQuantity,
+            status,
+            confidence: 'LOW', // No usage history — thresholds only
+            stabilityIndex: 0,
+            anomaliesDetected,
+            isVolatile,
+            leadTime: item.leadTime || 7,
+            savingsOpportunity_usageBased: 0,
+            debug_rawCycleCount: 0,
+            debug_validCycleCount: 0,
+        };
+    }
+
     // ── Dormant Fallback ──────────────────────────────────────────────────────
     private static getDormantMetrics(item: InventoryItem, anomalies: number): ItemMetrics {
         return {
@@ -218,17 +352,24 @@ ${JSON.stringify(chunk)}
 
     // ── History Builder ───────────────────────────────────────────────────────
     private static async getItemHistory(itemId: string): Promise<PurchaseCycle[]> {
-        // Fetch up to 15 RECEIVED orders for this item, newest first
-        const { data: orders } = await supabase
-            .from('orders')
-            .select(`id, received_at, order_items!inner(item_id, quantity)`)
-            .eq('status', 'RECEIVED')
-            .eq('order_items.item_id', itemId)
-            .not('received_at', 'is', null)
+        // Fetch up to 15 shipments containing this item, newest first. Each
+        // shipment is a restock — a back-order arriving later starts its own cycle.
+        const { data: shipments } = await supabase
+            .from('order_shipments')
+            .select('id, received_at, lines')
+            .contains('lines', [{ itemId }])
             .order('received_at', { ascending: false })
             .limit(15);
 
-        if (!orders || orders.length < 2) return [];
+        if (!shipments || shipments.length < 2) return [];
+
+        // Shipments are received in packages; cycles are measured in stock units
+        const restocks = shipments.map(s => ({
+            received_at: s.received_at as string,
+            quantity: ((s.lines || []) as OrderShipmentLine[])
+                .filter(l => l.itemId === itemId)
+                .reduce((sum, l) => sum + Number(l.quantity || 0) * Number(l.unitsPerPackage || 1), 0),
+        }));
 
         // Fetch overrides
         const { data: overrides } = await supabase
@@ -237,10 +378,10 @@ ${JSON.stringify(chunk)}
             .eq('item_id', itemId);
 
         // Fetch audit logs: CONSUMED, RESTOCKED, UPDATED
-        const oldestTs = orders[orders.length - 1].received_at;
+        const oldestTs = restocks[restocks.length - 1].received_at;
         const { data: allLogs } = await supabase
             .from('audit_log')
-            .select('action, details, timestamp')
+            .select('action, details, metadata, timestamp')
             .eq('resource_id', itemId)
             .gte('timestamp', oldestTs)
             .in('action', ['UPDATED', 'RESTOCKED', 'CONSUMED'])
@@ -250,9 +391,9 @@ ${JSON.stringify(chunk)}
 
         const cycles: PurchaseCycle[] = [];
 
-        for (let i = 0; i < orders.length - 1; i++) {
-            const endOrder = orders[i];     // Newer → ends the cycle
-            const startOrder = orders[i + 1]; // Older → starts the cycle
+        for (let i = 0; i < restocks.length - 1; i++) {
+            const endOrder = restocks[i];     // Newer → ends the cycle
+            const startOrder = restocks[i + 1]; // Older → starts the cycle
 
             const endDate = new Date(endOrder.received_at);
             const startDate = new Date(startOrder.received_at);
@@ -261,7 +402,7 @@ ${JSON.stringify(chunk)}
 
             if (durationDays < 1) continue;
 
-            const orderQty = (startOrder.order_items[0] as any).quantity;
+            const orderQty = startOrder.quantity;
 
             // ── Fix #3: Strict log matching — ±1 hour window + action-typed ────
             const ONE_HOUR_MS = 3_600_000;
@@ -283,16 +424,14 @@ ${JSON.stringify(chunk)}
             let startStock = 0;
             let endStock = 0;
 
-            try {
-                if (startRestockLogs[0]) {
-                    const d = JSON.parse(startRestockLogs[0].details);
-                    startStock = typeof d.new_stock === 'number' ? d.new_stock : 0;
-                }
-                if (endUpdatedLogs[0]) {
-                    const d = JSON.parse(endUpdatedLogs[0].details);
-                    endStock = typeof d.previous_stock === 'number' ? d.previous_stock : 0;
-                }
-            } catch { /* malformed log — fallback below */ }
+            if (startRestockLogs[0]) {
+                const d = this.parseLogPayload(startRestockLogs[0]);
+                startStock = typeof d.new_stock === 'number' ? d.new_stock : 0;
+            }
+            if (endUpdatedLogs[0]) {
+                const d = this.parseLogPayload(endUpdatedLogs[0]);
+                endStock = typeof d.previous_stock === 'number' ? d.previous_stock : 0;
+            }
 
             // ── Fix #7: Consumption hierarchy ───────────────────────────────
             // Priority 1: Sum CONSUMED log deltas within the cycle window
@@ -311,11 +450,9 @@ ${JSON.stringify(chunk)}
                 // Sum explicit consumption delta values
                 let consumed = 0;
                 for (const cl of consumedLogs) {
-                    try {
-                        const d = JSON.parse(cl.details);
-                        const delta = d.quantity ?? d.delta ?? d.consumed ?? 0;
-                        consumed += typeof delta === 'number' ? delta : 0;
-                    } catch { /* skip unparseable */ }
+                    const d = this.parseLogPayload(cl);
+                    const delta = d.quantity ?? d.delta ?? d.consumed ?? 0;
+                    consumed += typeof delta === 'number' ? delta : 0;
                 }
                 if (consumed > 0) {
                     consumption = consumed;
@@ -350,29 +487,49 @@ ${JSON.stringify(chunk)}
         return cycles;
     }
 
+    // Legacy rows carry a JSON string in `details`; rows written through
+    // InventoryService.logAction carry an object in `metadata`.
+    private static parseLogPayload(log: { details?: string | null; metadata?: any }): Record<string, any> {
+        if (log.details) {
+            try {
+                const d = JSON.parse(log.details);
+                if (d && typeof d === 'object') return d;
+            } catch { /* malformed log — try metadata */ }
+        }
+        return log.metadata && typeof log.metadata === 'object' ? log.metadata : {};
+    }
+
     // ── Anomaly Analysis ──────────────────────────────────────────────────────
     private static analyzeCycles(cycles: PurchaseCycle[]) {
         if (cycles.length === 0) {
             return { validCycles: [], rawCycles: cycles };
         }
 
-        // Baseline medians from non-override cycles
-        const baselines = cycles.filter(c => !c.isOverride);
-        const base = baselines.length > 0 ? baselines : cycles;
-        const medianQty = this.getMedian(base.map(c => c.quantityConsumed));
-        const medianDuration = this.getMedian(base.map(c => c.durationDays));
-
-        const validCycles = cycles.filter(c => {
+        // Baseline medians come from each cycle's nearby neighbours (non-override),
+        // never the cycle itself, so a spike can't drag its own baseline up.
+        // A one-off spike stands out against its neighbours, while a sustained
+        // shift in demand moves the neighbours too and is not flagged. Cycles
+        // near the ends, with too few neighbours, fall back to all other cycles.
+        const validCycles = cycles.filter((c, i) => {
             if (c.isOverride) {
                 c.isAnomaly = true; c.anomalyReason = 'OVERRIDE'; return false;
             }
 
+            const others = cycles.filter(n => n !== c && !n.isOverride);
+            const neighbourhood = cycles
+                .slice(Math.max(0, i - ANOMALY_NEIGHBOURHOOD), i + ANOMALY_NEIGHBOURHOOD + 1)
+                .filter(n => n !== c && !n.isOverride);
+            const baseline = neighbourhood.length >= MIN_ANOMALY_BASELINE ? neighbourhood : others;
+            const medianQty = this.getMedian(baseline.map(n => n.quantityConsumed));
+            const medianDuration = this.getMedian(baseline.map(n => n.durationDays));
+
             // ── Fix #8: Guard against zero/near-zero median triggering false PANIC_BUY
             if (medianQty > 0 && c.quantityConsumed > 2.0 * medianQty) {
                 c.isAnomaly = true; c.anomalyReason = 'PANIC_BUY'; return false;
             }
 
-            if (c.durationDays > 2.0 * medianDuration) {
+            // A lone cycle has no baseline (median 0) and is never a hoarding outlier
+            if (medianDuration > 0 && c.durationDays > 2.0 * medianDuration) {
                 c.isAnomaly = true; c.anomalyReason = 'HOARDING'; return false;
             }
 
@@ -1,4 +1,6 @@
-import { InventoryItem, ActivityLog } from '../types';
+import { InventoryItem, InventoryLot, ActivityLog, OrgStockRow, ItemCostHistoryEntry, DBItemCostHistory } from '../types';
+import { LotDraw, planFefoDraw, summarizeLots } from '../utils/lotUtils';
+import { OfflineSyncService } from './OfflineSyncService';
 
 let _cachedToken: string | null = null;
 let _locationId: string | null = null;
@@ -17,6 +19,94 @@ function getHeaders(): Record<string, string> {
     };
 }
 
+/**
+ * Items are per-location rows; the same product at two clinics shares a SKU
+ * (or, without one, a name).
+ */
+export function itemMatchKey(sku: string | null | undefined, name: string): string {
+    return sku?.trim() ? `sku:${sku.trim().toLowerCase()}` : `name:${name.trim().toLowerCase()}`;
+}
+
+function mapLot(row: any): InventoryLot {
+    return {
+        id: row.lots.id,
+        stockLevelId: row.id,
+        itemId: row.item_id,
+        lotNumber: row.lots.lot_number,
+        expiryDate: row.lots.expiration_date || '',
+        quantity: Number(row.quantity || 0),
+        receivedAt: row.lots.received_at || undefined,
+        orderId: row.lots.order_id || undefined
+    };
+}
+
+// Queued while offline so consumption and counts keep working during outages
+async function patchStockLevel(stockLevelId: string, quantity: number): Promise<void> {
+    await OfflineSyncService.mutate({
+        label: 'Stock level update',
+        method: 'PATCH',
+        table: 'stock_levels',
+        rowId: stockLevelId,
+        path: `stock_levels?id=eq.${stockLevelId}`,
+        body: { quantity: Math.max(0, quantity), updated_at: new Date().toISOString() }
+    });
+}
+
+const inventoryCacheKey = () => `inventory:${_locationId || 'default'}`;
+
+/**
+ * Upserts the lot row (unique per item + lot number) and adds `quantity`
+ * to its stock level at the current location.
+ */
+async function insertLot(itemId: string, lotNumber: string, expiryDate: string, quantity: number, orderId?: string): Promise<InventoryLot> {
+    const lotResponse = await fetch(`${SUPABASE_URL}/rest/v1/lots?on_conflict=item_id,lot_number`, {
+        method: 'POST',
+        headers: {
+            ...getHeaders(),
+            'Prefer': 'resolution=merge-duplicates,return=representation'
+        },
+        body: JSON.stringify({
+            item_id: itemId,
+            lot_number: lotNumber,
+            expiration_date: expiryDate || null,
+            received_at: new Date().toISOString(),
+            order_id: orderId || null
+        })
+    });
+    if (!lotResponse.ok) {
+        const text = await lotResponse.text();
+        throw new Error(`Lot create failed (${lotResponse.status}): ${text}`);
+    }
+    const [lot] = await lotResponse.json();
+
+    // A depleted lot keeps its stock_levels row at 0 — reuse it
+    const locFilter = _locationId ? `&location_id=eq.${_locationId}` : '&location_id=is.null';
+    const existingResponse = await fetch(`${SUPABASE_URL}/rest/v1/stock_levels?lot_id=eq.${lot.id}${locFilter}&limit=1`, {
+        method: 'GET',
+        headers: getHeaders()
+    });
+    const existing = existingResponse.ok ? await existingResponse.json() : [];
+
+    let stockRow: any;
+    if (existing.length > 0) {
+        stockRow = { ...existing[0], quantity: Number(existing[0].quantity || 0) + quantity };
+        await patchStockLevel(stockRow.id, stockRow.quantity);
+    } else {
+        const levelResponse = await fetch(`${SUPABASE_URL}/rest/v1/stock_levels`, {
+            method: 'POST',
+            headers: getHeaders(),
+            body: JSON.stringify({ item_id: itemId, lot_id: lot.id, location_id: _locationId, quantity })
+        });
+        if (!levelResponse.ok) {
+            const text = await levelResponse.text();
+            throw new Error(`Stock level create failed (${levelResponse.status}): ${text}`);
+        }
+        [stockRow] = await levelResponse.json();
+    }
+
+    return mapLot({ ...stockRow, item_id: itemId, lots: lot });
+}
+
 export const InventoryService = {
     setAccessToken(token: string) {
         _cachedToken = token;
@@ -28,11 +118,19 @@ export const InventoryService = {
 
     /**
      * Fetches all inventory items from the items table.
+     * Falls back to the offline cache when the network is down or local
+     * writes are still waiting to sync.
      */
     async fetchAll(): Promise<InventoryItem[]> {
         try {
             if (!_cachedToken) return []; // Allow initial load to fail silently if not auth'd yet, or better, return empty
 
+            await OfflineSyncService.flush();
+            if (OfflineSyncService.getStatus().pending > 0) {
+                const cached = await OfflineSyncService.cacheGet<InventoryItem[]>(inventoryCacheKey());
+                if (cached) return cached;
+            }
+
             const locFilter = _locationId ? `&location_id=eq.${_locationId}` : '';
             const response = await fetch(`${SUPABASE_URL}/rest/v1/items?select=*&order=name.asc${locFilter}`, {
                 method: 'GET',
@@ -42,8 +140,10 @@ export const InventoryService = {
             if (!response.ok) throw new Error(`Fetch error: ${response.status} ${response.statusText}`);
 
             const data = await response.json();
+            const lotsByItem = await InventoryService.fetchLots();
+            OfflineSyncService.recordVersions('items', data);
 
-            return data.map((item: any) => ({
+            const items: InventoryItem[] = data.map((item: any) => ({
                 id: item.id,
                 name: item.name,
                 category: item.category || 'General',
@@ -57,14 +157,166 @@ export const InventoryService = {
                 location: item.location || 'Unassigned',
                 lastChecked: item.last_checked,
                 lastCheckedBy: item.last_checked_by,
-                sku: item.sku || ''
+                sku: item.sku || '',
+                lots: lotsByItem.get(item.id)
             }));
+            await InventoryService.cacheSnapshot(items);
+            return items;
         } catch (e) {
             console.error('[InventoryService] Fetch failed:', e);
+            const cached = await OfflineSyncService.cacheGet<InventoryItem[]>(inventoryCacheKey());
+            if (cached) console.warn(`[InventoryService] ♻️ Returning ${cached.length} cached items (offline)`);
+            return cached || [];
+        }
+    },
+
+    /**
+     * Stores the current (possibly not yet synced) inventory for offline use.
+     */
+    async cacheSnapshot(items: InventoryItem[]): Promise<void> {
+        await OfflineSyncService.cachePut(inventoryCacheKey(), items);
+    },
+
+    /**
+     * Fetches non-empty lots at the current location, grouped by item id.
+     */
+    async fetchLots(): Promise<Map<string, InventoryLot[]>> {
+        const byItem = new Map<string, InventoryLot[]>();
+        try {
+            const locFilter = _locationId ? `&location_id=eq.${_locationId}` : '';
+            const response = await fetch(
+                `${SUPABASE_URL}/rest/v1/stock_levels?select=id,item_id,quantity,updated_at,lots(id,lot_number,expiration_date,received_at,order_id)&lot_id=not.is.null&quantity=gt.0${locFilter}`,
+                { method: 'GET', headers: getHeaders() }
+            );
+            if (!response.ok) throw new Error(`Fetch error: ${response.status} ${response.statusText}`);
+
+            const rows = await response.json();
+            OfflineSyncService.recordVersions('stock_levels', rows);
+            for (const row of rows) {
+                if (!row.lots) continue;
+                const list = byItem.get(row.item_id) || [];
+                list.push(mapLot(row));
+                byItem.set(row.item_id, list);
+            }
+        } catch (e) {
+            console.warn('[InventoryService] Lot fetch failed:', e);
+        }
+        return byItem;
+    },
+
+    /**
+     * Stock of every catalog item across the given locations (org-wide view).
+     * Items are matched across locations by SKU, falling back to name.
+     */
+    async fetchOrgStock(locationIds: string[]): Promise<OrgStockRow[]> {
+        if (locationIds.length === 0) return [];
+        try {
+            const response = await fetch(
+                `${SUPABASE_URL}/rest/v1/items?select=id,name,sku,unit,stock,location_id&location_id=in.(${locationIds.join(',')})&order=name.asc`,
+                { method: 'GET', headers: getHeaders() }
+            );
+            if (!response.ok) throw new Error(`Fetch error: ${response.status} ${response.statusText}`);
+
+            const rows = await response.json();
+            const byKey = new Map<string, OrgStockRow>();
+            for (const row of rows) {
+                const key = itemMatchKey(row.sku, row.name);
+                const entry = byKey.get(key) || { key, name: row.name, sku: row.sku || undefined, unit: row.unit, byLocation: {}, total: 0 };
+                const qty = Number(row.stock || 0);
+                entry.byLocation[row.location_id] = (entry.byLocation[row.location_id] || 0) + qty;
+                entry.total += qty;
+                byKey.set(key, entry);
+            }
+            return Array.from(byKey.values());
+        } catch (e) {
+            console.error('[InventoryService] Org stock fetch failed:', e);
             return [];
         }
     },
 
+    /**
+     * Writes the item-level mirror (stock, FEFO-head expiry and batch) for a lot set.
+     */
+    async syncLotSummary(item: InventoryItem, lots: InventoryLot[]): Promise<InventoryItem> {
+        const summary = summarizeLots(lots);
+        await InventoryService.updateItem(item.id, summary);
+        return { ...item, ...summary, lots: lots.filter(l => l.quantity > 0) };
+    },
+
+    /**
+     * Adds received quantity to a lot, creating the lot if needed.
+     * Stock that predates lot tracking becomes its own lot first so FEFO covers it.
+     */
+    async receiveLot(item: InventoryItem, lot: { lotNumber: string; expiryDate?: string; quantity: number; orderId?: string }): Promise<InventoryItem> {
+        let lots = [...(item.lots || [])];
+        if (lots.length === 0 && item.stock > 0) {
+            lots.push(await insertLot(item.id, item.batchNumber || 'UNTRACKED', item.expiryDate, item.stock));
+        }
+
+        const lotNumber = lot.lotNumber.trim() || `RCV-${new Date().toISOString().slice(0, 10)}`;
+        const existing = lots.find(l => l.lotNumber.toLowerCase() === lotNumber.toLowerCase());
+        if (existing) {
+            await patchStockLevel(existing.stockLevelId, existing.quantity + lot.quantity);
+            lots = lots.map(l => l === existing ? { ...l, quantity: l.quantity + lot.quantity } : l);
+        } else {
+            lots.push(await insertLot(item.id, lotNumber, lot.expiryDate || '', lot.quantity, lot.orderId));
+        }
+
+        return InventoryService.syncLotSummary(item, lots);
+    },
+
+    /**
+     * Consumes `quantity` units First-Expired-First-Out.
+     * Items that are not lot-tracked simply decrement their flat stock.
+     */
+    async consumeFEFO(item: InventoryItem, quantity: number): Promise<{ item: InventoryItem; draws: LotDraw[] }> {
+        if (!item.lots || item.lots.length === 0) {
+            const newStock = Math.max(0, item.stock - quantity);
+            await InventoryService.updateItem(item.id, { stock: newStock });
+            return { item: { ...item, stock: newStock }, draws: [] };
+        }
+
+        const { draws } = planFefoDraw(item.lots, quantity);
+        for (const draw of draws) {
+            await patchStockLevel(draw.stockLevelId, draw.remaining);
+        }
+        const lots = item.lots.map(l => {
+            const draw = draws.find(d => d.stockLevelId === l.stockLevelId);
+            return draw ? { ...l, quantity: draw.remaining } : l;
+        });
+
+        return { item: await InventoryService.syncLotSummary(item, lots), draws };
+    },
+
+    /**
+     * Takes `quantity` out of one lot, e.g. a draw planned ahead of time.
+     */
+    async drawLot(item: InventoryItem, stockLevelId: string, quantity: number): Promise<InventoryItem> {
+        const lot = item.lots?.find(l => l.stockLevelId === stockLevelId);
+        if (!item.lots || !lot) throw new Error(`Lot is no longer stocked for ${item.name}`);
+        const remaining = Math.max(0, lot.quantity - quantity);
+        await patchStockLevel(stockLevelId, remaining);
+        return InventoryService.syncLotSummary(item, item.lots.map(l => l === lot ? { ...l, quantity: remaining } : l));
+    },
+
+    /**
+     * Sets an item's stock to an absolute count. Decreases are consumed FEFO;
+     * increases on lot-tracked items land on the most recently received lot.
+     */
+    async adjustStock(item: InventoryItem, newStock: number): Promise<InventoryItem> {
+        const delta = newStock - item.stock;
+        if (delta < 0) return (await InventoryService.consumeFEFO(item, -delta)).item;
+
+        if (!item.lots || item.lots.length === 0 || delta === 0) {
+            await InventoryService.updateItem(item.id, { stock: newStock });
+            return { ...item, stock: newStock };
+        }
+
+        const target = [...item.lots].sort((a, b) => (b.receivedAt || '').localeCompare(a.receivedAt || ''))[0];
+        await patchStockLevel(target.stockLevelId, target.quantity + delta);
+        return InventoryService.syncLotSummary(item, item.lots.map(l => l === target ? { ...l, quantity: l.quantity + delta } : l));
+    },
+
     /**
      * Creates a single inventory item.
      */
@@ -186,18 +438,16 @@ export const InventoryService = {
 
         try {
             console.log(`[InventoryService] Updating item ${id}...`);
-            const response = await fetch(`${SUPABASE_URL}/rest/v1/items?id=eq.${id}`, {
+            const { queued } = await OfflineSyncService.mutate({
+                label: `Item update (${Object.keys(dbUpdates).join(', ')})`,
                 method: 'PATCH',
-                headers: getHeaders(),
-                body: JSON.stringify(dbUpdates)
+                table: 'items',
+                rowId: id,
+                path: `items?id=eq.${id}`,
+                body: dbUpdates
             });
 
-            console.log(`[InventoryService] Update response: ${response.status} ${response.statusText}`);
-
-            if (!response.ok) {
-                const text = await response.text();
-                throw new Error(`Update failed (${response.status}): ${text}`);
-            }
+            console.log(`[InventoryService] Update ${queued ? 'queued for sync' : 'applied'}`);
             return true;
         } catch (e) {
             console.error('[InventoryService] Update failed:', e);
@@ -280,6 +530,67 @@ export const InventoryService = {
         }
     },
 
+    /**
+     * Records a change to an item's average cost. Failures are logged but do
+     * not block the receipt or edit that caused the change.
+     */
+    async recordCostChange(entry: Omit<ItemCostHistoryEntry, 'id' | 'recordedAt'>): Promise<void> {
+        try {
+            const row: Omit<DBItemCostHistory, 'id'> = {
+                item_id: entry.itemId,
+                location_id: _locationId,
+                previous_cost: entry.previousCost,
+                new_cost: entry.newCost,
+                source: entry.source,
+                receipt_unit_cost: entry.receiptUnitCost ?? null,
+                quantity: entry.quantity ?? null,
+                order_id: entry.orderId || null,
+                recorded_at: new Date().toISOString(),
+                recorded_by: entry.recordedBy || null
+            };
+            const response = await fetch(`${SUPABASE_URL}/rest/v1/item_cost_history`, {
+                method: 'POST',
+                headers: getHeaders(),
+                body: JSON.stringify(row)
+            });
+            if (!response.ok) {
+                const text = await response.text();
+                console.warn(`[InventoryService] Failed to record cost history (${response.status}): ${text}`);
+            }
+        } catch (e) {
+            console.error('[InventoryService] Cost history record failed', e);
+        }
+    },
+
+    /**
+     * Average cost changes for an item, oldest first (for charting).
+     */
+    async fetchCostHistory(itemId: string): Promise<ItemCostHistoryEntry[]> {
+        try {
+            const response = await fetch(
+                `${SUPABASE_URL}/rest/v1/item_cost_history?item_id=eq.${itemId}&order=recorded_at.asc`,
+                { method: 'GET', headers: getHeaders() }
+            );
+            if (!response.ok) throw new Error(`Cost history fetch failed: ${response.status}`);
+            const data: DBItemCostHistory[] = await response.json();
+            return data.map(row => ({
+                id: row.id,
+                itemId: row.item_id,
+                previousCost: Number(row.previous_cost || 0),
+                newCost: Number(row.new_cost || 0),
+                source: row.source,
+                receiptUnitCost: row.receipt_unit_cost ?? undefined,
+                quantity: row.quantity ?? undefined,
+                orderId: row.order_id || undefined,
+                recordedAt: row.recorded_at,
+                recordedBy: row.recorded_by || undefined
+            }));
+        } catch (e) {
+            console.error('[InventoryService] Cost history fetch failed', e);
+            return [];
+        }
+    },
+
     /**
      * Log an action to audit_log
      */
@@ -296,17 +607,16 @@ export const InventoryService = {
                 location_id: _locationId
             };
 
-            const response = await fetch(`${SUPABASE_URL}/rest/v1/audit_log`, {
+            await OfflineSyncService.mutate({
+                label: `Audit log: ${action}`,
                 method: 'POST',
-                headers: getHeaders(),
-                body: JSON.stringify(logEntry)
+                table: 'audit_log',
+                path: 'audit_log',
+                body: logEntry,
+                prefer: 'return=minimal'
             });
-            if (!response.ok) {
-                const text = await response.text();
-                console.warn(`[InventoryService] Failed to log audit (${response.status}): ${text}`);
-            }
         } catch (e) {
-            console.error('[InventoryService] Log failed', e);
+            console.warn('[InventoryService] Failed to log audit', e);
         }
     }
 };
@@ -0,0 +1,105 @@
+import { InvoiceMatch, InvoiceMatchStatus, DBInvoiceMatch } from '../types';
+import { InvoiceMatchReport } from '../utils/invoiceMatching';
+
+export class InvoiceMatchService {
+    private static accessToken: string | null = null;
+    private static locationId: string | null = null;
+    private static apiUrl = import.meta.env.VITE_SUPABASE_URL + '/rest/v1';
+    private static apiKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    static setAccessToken(token: string) {
+        this.accessToken = token;
+    }
+
+    static setLocationId(id: string) {
+        this.locationId = id;
+    }
+
+    private static getHeaders() {
+        if (!this.accessToken) {
+            console.warn('[InvoiceMatchService] ⚠️ No access token! Operations may fail.');
+        }
+        const headers: HeadersInit = {
+            'apikey': this.apiKey,
+            'Authorization': `Bearer ${this.accessToken || this.apiKey}`,
+            'Content-Type': 'application/json',
+            'Prefer': 'return=representation'
+        };
+        return headers;
+    }
+
+    private static mapMatch(row: DBInvoiceMatch): InvoiceMatch {
+        return {
+            id: row.id,
+            orderId: row.order_id,
+            invoiceNumber: row.invoice_number,
+            vendor: row.vendor,
+            status: row.status,
+            lines: row.lines || [],
+            subtotalVariance: Number(row.subtotal_variance || 0),
+            taxVariance: Number(row.tax_variance || 0),
+            shippingVariance: Number(row.shipping_variance || 0),
+            totalVariance: Number(row.total_variance || 0),
+            invoiceTotal: Number(row.invoice_total || 0),
+            hasDiscrepancies: row.has_discrepancies,
+            notes: row.notes || undefined,
+            reviewedBy: row.reviewed_by || undefined,
+            reviewedAt: row.reviewed_at
+        };
+    }
+
+    static async fetchForOrder(orderId: string): Promise<InvoiceMatch[]> {
+        try {
+            if (!this.accessToken) return [];
+            const response = await fetch(`${this.apiUrl}/invoice_matches?order_id=eq.${orderId}&order=reviewed_at.desc`, {
+                headers: this.getHeaders()
+            });
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+            const data: DBInvoiceMatch[] = await response.json();
+            return (data || []).map(row => this.mapMatch(row));
+        } catch (error) {
+            console.error('[InvoiceMatchService] Fetch failed:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Stores the reviewed variance report. Approved reports are the sign-off
+     * that lets the order be received against the invoice.
+     */
+    static async saveReview(report: InvoiceMatchReport, status: InvoiceMatchStatus, userId: string, notes?: string): Promise<InvoiceMatch> {
+        try {
+            const row: Omit<DBInvoiceMatch, 'id'> = {
+                order_id: report.orderId,
+                location_id: this.locationId,
+                invoice_number: report.invoiceNumber,
+                vendor: report.vendor,
+                status,
+                lines: report.lines,
+                subtotal_variance: report.subtotalVariance,
+                tax_variance: report.taxVariance,
+                shipping_variance: report.shippingVariance,
+                total_variance: report.totalVariance,
+                invoice_total: report.invoiceTotal,
+                has_discrepancies: report.hasDiscrepancies,
+                notes: notes || null,
+                reviewed_by: userId,
+                reviewed_at: new Date().toISOString()
+            };
+            const response = await fetch(`${this.apiUrl}/invoice_matches`, {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify(row)
+            });
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to save invoice match (${response.status}): ${text}`);
+            }
+            const [saved] = await response.json();
+            return this.mapMatch(saved);
+        } catch (error) {
+            console.error('[InvoiceMatchService] Save failed:', error);
+            throw error;
+        }
+    }
+}
@@ -467,6 +467,7 @@ export const identifyItemFromImage = scanItemLabel;
  */
 export interface ParsedOrderData {
   poNumber: string;
+  invoiceNumber?: string; // Only on invoices
   vendor: string;
   orderDate: string;
   items: Array<{
@@ -507,7 +508,8 @@ ${ocrText}
 Parse this invoice text and return a JSON object with this exact structure:
 {
   "vendor": "supplier company name",
-  "poNumber": "order/confirmation number",
+  "poNumber": "buyer's purchase order number, else the order/confirmation number",
+  "invoiceNumber": "vendor's invoice number, empty string if the document is not an invoice",
   "orderDate": "YYYY-MM-DD",
   "items": [
     {
@@ -585,6 +587,54 @@ export const jsonChat = async <T>(
   return parseJsonResponse<T>(response);
 };
 
+// ─── Utility: Embeddings ────────────────────────────────────────────────────
+
+export const EMBEDDING_MODEL = MODELS.embed;
+
+/**
+ * Embeds texts with the local embed model. Nomic expects a task prefix:
+ * `document` for indexed content, `query` for what the user typed.
+ */
+export const embedTexts = async (
+  texts: string[],
+  kind: 'document' | 'query'
+): Promise<number[][]> => {
+  if (texts.length === 0) return [];
+  const prefix = kind === 'document' ? 'search_document: ' : 'search_query: ';
+  const endpoints = [LM_STUDIO_URL, LM_STUDIO_URL === LM_STUDIO_DIRECT_URL ? LM_STUDIO_GATEWAY_URL : LM_STUDIO_DIRECT_URL];
+  let lastError: Error | null = null;
+
+  for (const endpoint of endpoints) {
+    try {
+      const response = await fetch(`${endpoint}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${NVX_AI_TOKEN}`
+        },
+        signal: AbortSignal.timeout(60000),
+        body: JSON.stringify({ model: MODELS.embed, input: texts.map(t => prefix + t) }),
+      });
+      if (!response.ok) {
+        throw new Error(`LM Studio embeddings error ${response.status}: ${await response.text()}`);
+      }
+      const data = await response.json();
+      LM_STUDIO_URL = endpoint;
+      // Responses carry an index; don't rely on array order
+      return [...(data.data || [])]
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((d: any) => d.embedding as number[]);
+    } catch (error: any) {
+      lastError = error;
+      if (error.name === 'TimeoutError' || error.name === 'AbortError' || error.message?.includes('Failed to fetch')) {
+        continue; // Try next endpoint
+      }
+      throw error;
+    }
+  }
+  throw lastError || new Error('Cannot connect to LM Studio for embeddings.');
+};
+
 /**
  * Check if LM Studio is reachable. Tries both direct and gateway endpoints.
  * Reports loaded models and vision model availability.
@@ -0,0 +1,335 @@
+import { QueuedMutation, SyncStatus } from '../types';
+
+// ──────────────────────────────────────────────────────────────────────
+// OFFLINE SYNC — IndexedDB cache plus a durable, ordered write queue.
+// Writes go straight to Supabase while online. When the network is down
+// (or earlier writes are still queued) they are stored and replayed in
+// order once connectivity returns. A replayed PATCH only applies if the
+// row's updated_at still matches the version the change was made against;
+// otherwise it is parked as a conflict for someone to resolve.
+// ──────────────────────────────────────────────────────────────────────
+
+let _cachedToken: string | null = null;
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+const DB_NAME = 'healthaxis-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'cache';
+const QUEUE_STORE = 'queue';
+const CONFLICT_STORE = 'conflicts';
+const RETRY_INTERVAL_MS = 30000;
+const VERSIONS_KEY = 'versions';
+// Row already changed by someone else (409 from a constraint, 412 from a precondition)
+const CONFLICT_STATUSES = [409, 412];
+// Worth retrying as is: the server was unavailable, timed out or throttled us
+const isTransientStatus = (status: number) => status >= 500 || status === 408 || status === 429;
+
+type NewMutation = Omit<QueuedMutation, 'id' | 'queuedAt' | 'expectedUpdatedAt' | 'error'>;
+
+// Last updated_at seen per row, keyed `${table}:${id}`
+const _versions = new Map<string, string>();
+const _listeners = new Set<(status: SyncStatus) => void>();
+let _status: SyncStatus = { online: typeof navigator === 'undefined' ? true : navigator.onLine, syncing: false, pending: 0, conflicts: [] };
+let _dbPromise: Promise<IDBDatabase> | null = null;
+let _versionsLoaded: Promise<void> | null = null;
+let _started = false;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!_dbPromise) {
+        _dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE);
+                if (!db.objectStoreNames.contains(QUEUE_STORE)) db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+                if (!db.objectStoreNames.contains(CONFLICT_STORE)) db.createObjectStore(CONFLICT_STORE, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        _dbPromise.catch(() => { _dbPromise = null; });
+    }
+    return _dbPromise;
+}
+
+async function withStore<T>(store: string, mode: IDBTransactionMode, run: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = run(db.transaction(store, mode).objectStore(store));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// The version map is kept in IndexedDB too, so an edit made offline after a
+// reload (inventory served from the cache) is still checked on replay
+function loadVersions(): Promise<void> {
+    if (!_versionsLoaded) {
+        _versionsLoaded = withStore<Record<string, string> | undefined>(CACHE_STORE, 'readonly', s => s.get(VERSIONS_KEY))
+            .then(saved => {
+                // Versions seen since this page loaded are newer than the saved ones
+                Object.entries(saved || {}).forEach(([key, version]) => {
+                    if (!_versions.has(key)) _versions.set(key, version);
+                });
+            })
+            .catch(e => console.warn('[OfflineSync] Version map read failed', e));
+    }
+    return _versionsLoaded;
+}
+
+async function persistVersions(): Promise<void> {
+    await loadVersions();
+    try {
+        await withStore(CACHE_STORE, 'readwrite', s => s.put(Object.fromEntries(_versions), VERSIONS_KEY));
+    } catch (e) {
+        console.warn('[OfflineSync] Version map write failed', e);
+    }
+}
+
+function getHeaders(prefer?: string): Record<string, string> {
+    if (!_cachedToken) {
+        throw new Error('No access token available. Please sign in again.');
+    }
+    return {
+        'apikey': SUPABASE_KEY,
+        'Authorization': `Bearer ${_cachedToken}`,
+        'Content-Type': 'application/json',
+        'Prefer': prefer || 'return=representation'
+    };
+}
+
+// fetch() rejects with a TypeError when the request never reached the server
+function isNetworkError(error: unknown): boolean {
+    return error instanceof TypeError || (error as Error)?.name === 'AbortError';
+}
+
+async function send(mutation: NewMutation, expectedUpdatedAt?: string): Promise<Response> {
+    const guard = expectedUpdatedAt ? `&updated_at=eq.${encodeURIComponent(expectedUpdatedAt)}` : '';
+    return fetch(`${SUPABASE_URL}/rest/v1/${mutation.path}${guard}`, {
+        method: mutation.method,
+        headers: getHeaders(mutation.prefer),
+        body: mutation.body === undefined ? undefined : JSON.stringify(mutation.body)
+    });
+}
+
+async function readRows(response: Response): Promise<any[]> {
+    const text = await response.text();
+    if (!text) return [];
+    try {
+        const parsed = JSON.parse(text);
+        return Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+        return [];
+    }
+}
+
+function notify(patch: Partial<SyncStatus>) {
+    _status = { ..._status, ...patch };
+    _listeners.forEach(listener => listener(_status));
+}
+
+async function refreshCounts() {
+    try {
+        const [pending, conflicts] = await Promise.all([
+            withStore<number>(QUEUE_STORE, 'readonly', s => s.count()),
+            withStore<QueuedMutation[]>(CONFLICT_STORE, 'readonly', s => s.getAll())
+        ]);
+        notify({ pending, conflicts });
+    } catch (e) {
+        console.error('[OfflineSync] Failed to read queue', e);
+    }
+}
+
+export const OfflineSyncService = {
+    setAccessToken(token: string) {
+        _cachedToken = token;
+        // A fresh token may unblock writes that failed with 401
+        OfflineSyncService.flush();
+    },
+
+    /**
+     * Starts listening for connectivity changes. Safe to call repeatedly.
+     */
+    start() {
+        if (_started || typeof window === 'undefined') return;
+        _started = true;
+        window.addEventListener('online', () => {
+            notify({ online: true });
+            OfflineSyncService.flush();
+        });
+        window.addEventListener('offline', () => notify({ online: false }));
+        window.setInterval(() => {
+            if (_status.pending > 0) OfflineSyncService.flush();
+        }, RETRY_INTERVAL_MS);
+        refreshCounts().then(() => OfflineSyncService.flush());
+    },
+
+    getStatus(): SyncStatus {
+        return _status;
+    },
+
+    subscribe(listener: (status: SyncStatus) => void): () => void {
+        _listeners.add(listener);
+        listener(_status);
+        return () => { _listeners.delete(listener); };
+    },
+
+    /**
+     * Remembers the updated_at of rows just read, so offline edits can be
+     * checked against them on replay.
+     */
+    recordVersions(table: string, rows: { id?: string; updated_at?: string }[]) {
+        let changed = false;
+        rows.forEach(row => {
+            if (row?.id && row.updated_at) {
+                _versions.set(`${table}:${row.id}`, row.updated_at);
+                changed = true;
+            }
+        });
+        if (changed) persistVersions();
+    },
+
+    async cacheGet<T>(key: string): Promise<T | null> {
+        try {
+            return (await withStore<T | undefined>(CACHE_STORE, 'readonly', s => s.get(key))) ?? null;
+        } catch (e) {
+            console.warn('[OfflineSync] Cache read failed', e);
+            return null;
+        }
+    },
+
+    async cachePut(key: string, value: unknown): Promise<void> {
+        try {
+            await withStore(CACHE_STORE, 'readwrite', s => s.put(value, key));
+        } catch (e) {
+            console.warn('[OfflineSync] Cache write failed', e);
+        }
+    },
+
+    async enqueue(mutation: NewMutation): Promise<void> {
+        await loadVersions();
+        const entry: Omit<QueuedMutation, 'id'> = {
+            ...mutation,
+            expectedUpdatedAt: mutation.method === 'PATCH' && mutation.rowId ? _versions.get(`${mutation.table}:${mutation.rowId}`) : undefined,
+            queuedAt: new Date().toISOString()
+        };
+        await withStore(QUEUE_STORE, 'readwrite', s => s.add(entry));
+        console.warn(`[OfflineSync] 📥 Queued offline: ${mutation.label}`);
+        notify({ pending: _status.pending + 1 });
+    },
+
+    /**
+     * Sends a write now, or queues it when offline or behind earlier queued
+     * writes. Throws only when the server rejects the write.
+     */
+    async mutate(mutation: NewMutation): Promise<{ queued: boolean; rows: any[] }> {
+        if (!navigator.onLine || _status.pending > 0) {
+            await OfflineSyncService.enqueue(mutation);
+            OfflineSyncService.flush();
+            return { queued: true, rows: [] };
+        }
+
+        let response: Response;
+        try {
+            response = await send(mutation);
+        } catch (e) {
+            if (!isNetworkError(e)) throw e;
+            notify({ online: false });
+            await OfflineSyncService.enqueue(mutation);
+            return { queued: true, rows: [] };
+        }
+
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`${mutation.label} failed (${response.status}): ${text}`);
+        }
+        const rows = await readRows(response);
+        OfflineSyncService.recordVersions(mutation.table, rows);
+        return { queued: false, rows };
+    },
+
+    /**
+     * Replays queued writes in order. Stops at the first network failure or
+     * transient server error (5xx, 408, 429), keeping the rest of the queue,
+     * so later writes never overtake earlier ones. Only a version mismatch
+     * (409, 412, or a guarded PATCH that matched no row) is a conflict; any
+     * other rejection is parked with the server's reason.
+     */
+    async flush(): Promise<void> {
+        if (_status.syncing || !_cachedToken || !navigator.onLine) return;
+        let queue: QueuedMutation[];
+        try {
+            queue = await withStore<QueuedMutation[]>(QUEUE_STORE, 'readonly', s => s.getAll());
+        } catch (e) {
+            console.error('[OfflineSync] Failed to read queue', e);
+            return;
+        }
+        if (queue.length === 0) return;
+
+        notify({ syncing: true, online: true });
+        // Versions produced by this replay; our own earlier write is not a conflict
+        const replayed = new Map<string, string>();
+        let synced = 0;
+
+        for (const mutation of queue) {
+            const key = mutation.rowId ? `${mutation.table}:${mutation.rowId}` : '';
+            const expected = mutation.method === 'PATCH' ? (replayed.get(key) ?? mutation.expectedUpdatedAt) : undefined;
+
+            let response: Response;
+            try {
+                response = await send(mutation, expected);
+            } catch (e) {
+                if (isNetworkError(e)) notify({ online: false });
+                else console.error('[OfflineSync] Replay failed', e);
+                break;
+            }
+            if (response.status === 401) break; // Wait for a refreshed token
+            if (isTransientStatus(response.status)) {
+                console.warn(`[OfflineSync] Server unavailable (${response.status}), retrying later: ${mutation.label}`);
+                break;
+            }
+
+            let error: string | undefined;
+            if (CONFLICT_STATUSES.includes(response.status)) {
+                error = `Changed by someone else while this device was offline (${response.status}): ${await response.text()}`;
+            } else if (!response.ok) {
+                error = `Rejected by server (${response.status}): ${await response.text()}`;
+            } else {
+                const rows = await readRows(response);
+                if (expected && mutation.method === 'PATCH' && rows.length === 0) {
+                    error = 'Changed by someone else while this device was offline';
+                } else {
+                    OfflineSyncService.recordVersions(mutation.table, rows);
+                    if (key && rows[0]?.updated_at) replayed.set(key, rows[0].updated_at);
+                    synced++;
+                }
+            }
+
+            if (error) {
+                console.warn(`[OfflineSync] ⚠️ ${mutation.label}: ${error}`);
+                await withStore(CONFLICT_STORE, 'readwrite', s => s.put({ ...mutation, error }));
+            }
+            await withStore(QUEUE_STORE, 'readwrite', s => s.delete(mutation.id));
+        }
+
+        notify({ syncing: false, ...(synced > 0 ? { lastSyncedAt: new Date().toISOString() } : {}) });
+        await refreshCounts();
+        if (synced > 0) console.log(`[OfflineSync] ✅ Replayed ${synced} queued write(s)`);
+    },
+
+    /**
+     * Conflict resolution: `overwrite` re-queues the write without the
+     * version check; `discard` drops it and keeps the server's data.
+     */
+    async resolveConflict(id: number, action: 'overwrite' | 'discard'): Promise<void> {
+        const conflict = _status.conflicts.find(c => c.id === id);
+        await withStore(CONFLICT_STORE, 'readwrite', s => s.delete(id));
+        if (conflict && action === 'overwrite') {
+            const { id: _id, queuedAt: _queuedAt, expectedUpdatedAt: _expected, error: _error, ...mutation } = conflict;
+            await withStore(QUEUE_STORE, 'readwrite', s => s.add({ ...mutation, queuedAt: new Date().toISOString() }));
+        }
+        await refreshCounts();
+        OfflineSyncService.flush();
+    }
+};
@@ -1,4 +1,4 @@
-import { Order, OrderItem, DBOrder, OrderStatus } from '../types';
+import { Order, DBOrder, DBOrderShipment, OrderShipment, OrderShipmentLine, OrderStatus } from '../types';
 
 export class OrderService {
     private static accessToken: string | null = null;
@@ -27,13 +27,59 @@ export class OrderService {
         return headers;
     }
 
+    private static mapShipment(row: DBOrderShipment): OrderShipment {
+        return {
+            id: row.id,
+            orderId: row.order_id,
+            receivedAt: row.received_at,
+            receivedBy: row.received_by || undefined,
+            lines: row.lines || []
+        };
+    }
+
+    private static mapOrder(order: any): Order {
+        return {
+            id: order.id,
+            poNumber: order.po_number,
+            vendor: order.vendor,
+            vendorId: order.vendor_id || undefined,
+            orderDate: order.order_date,
+            expectedDate: order.expected_arrival_date || '',
+            receivedAt: order.received_at || undefined,
+            status: order.status as OrderStatus,
+            items: (order.order_items || []).map((i: any) => ({
+                id: i.id,
+                inventoryItemId: i.item_id || undefined,
+                name: i.item_name,
+                quantity: i.quantity,
+                unitCost: i.unit_cost,
+                unitType: i.unit_type,
+                unitsPerPackage: i.units_per_package,
+                total: i.line_total,
+                quantityReceived: Number(i.quantity_received || 0),
+                lotNumber: i.lot_number || undefined,
+                expiryDate: i.expiry_date || undefined
+            })),
+            shipments: (order.order_shipments || [])
+                .map((row: DBOrderShipment) => this.mapShipment(row))
+                .sort((a: OrderShipment, b: OrderShipment) => a.receivedAt.localeCompare(b.receivedAt)),
+            subtotal: order.subtotal,
+            shippingCost: order.shipping_cost,
+            totalTax: order.tax_total,
+            grandTotal: order.grand_total,
+            notes: order.notes || undefined,
+            attachmentUrl: order.attachment_url || undefined,
+            createdBy: order.created_by
+        };
+    }
+
     static async fetchAll(): Promise<Order[]> {
         try {
             if (!this.accessToken) return [];
 
             // Fetch orders with their items using PostgREST resource embedding
             const locFilter = this.locationId ? `&location_id=eq.${this.locationId}` : '';
-            const response = await fetch(`${this.apiUrl}/orders?select=*,order_items(*)&order=created_at.desc${locFilter}`, {
+            const response = await fetch(`${this.apiUrl}/orders?select=*,order_items(*),order_shipments(*)&order=created_at.desc${locFilter}`, {
                 headers: this.getHeaders()
             });
 
@@ -43,31 +89,7 @@ export class OrderService {
 
             if (!data) return [];
 
-            return data.map((order: any) => ({
-                id: order.id,
-                poNumber: order.po_number,
-                vendor: order.vendor,
-                orderDate: order.order_date,
-                expectedDate: order.expected_arrival_date || '',
-                status: order.status as OrderStatus,
-                items: (order.order_items || []).map((i: any) => ({
-                    id: i.id,
-                    inventoryItemId: i.item_id || undefined,
-                    name: i.item_name,
-                    quantity: i.quantity,
-                    unitCost: i.unit_cost,
-                    unitType: i.unit_type,
-                    unitsPerPackage: i.units_per_package,
-                    total: i.line_total
-                })),
-                subtotal: order.subtotal,
-                shippingCost: order.shipping_cost,
-                totalTax: order.tax_total,
-                grandTotal: order.grand_total,
-                notes: order.notes || undefined,
-                attachmentUrl: order.attachment_url || undefined,
-                createdBy: order.created_by
-            }));
+            return data.map((order: any) => this.mapOrder(order));
         } catch (error) {
             console.error('[OrderService] Fetch failed:', error);
             return [];
@@ -81,6 +103,7 @@ export class OrderService {
             const dbOrder: Omit<DBOrder, 'id' | 'created_at' | 'received_at'> = {
                 po_number: order.poNumber,
                 vendor: order.vendor,
+                vendor_id: order.vendorId || null,
                 order_date: order.orderDate,
                 expected_arrival_date: order.expectedDate || null,
                 status: order.status,
@@ -179,27 +202,39 @@ export class OrderService {
     }
 
     /**
-     * Marks an order as RECEIVED and records the exact received_at timestamp.
-     * This is CRITICAL for the Intelligence Engine to build purchase cycles.
+     * Records one shipment against an order. The database adds each line's
+     * quantity to what it has already received, stores the shipment and moves
+     * the order to PARTIALLY_RECEIVED or RECEIVED in one transaction, and
+     * rejects lines that are no longer outstanding — so a second receipt of
+     * the same delivery fails here instead of booking the stock again.
+     * received_at is stamped per shipment — the Intelligence Engine builds
+     * purchase cycles from these, so a back-order arriving weeks later counts
+     * as its own restock rather than being folded into the first delivery.
+     * Returns the order as stored after the shipment.
      */
-    static async receiveOrder(orderId: string): Promise<void> {
+    static async receiveShipment(order: Order, lines: OrderShipmentLine[], userId?: string): Promise<Order> {
         try {
-            console.log(`[OrderService] Receiving order ${orderId}...`);
-            const response = await fetch(`${this.apiUrl}/orders?id=eq.${orderId}`, {
-                method: 'PATCH',
+            console.log(`[OrderService] Receiving shipment for ${order.id}...`);
+            const response = await fetch(`${this.apiUrl}/rpc/receive_order_shipment`, {
+                method: 'POST',
                 headers: this.getHeaders(),
-                body: JSON.stringify({
-                    status: 'RECEIVED',
-                    received_at: new Date().toISOString()
-                })
+                body: JSON.stringify({ p_order_id: order.id, p_lines: lines, p_received_by: userId || null })
             });
-
             if (!response.ok) {
                 const text = await response.text();
-                throw new Error(`Failed to receive order (${response.status}): ${text}`);
+                let message = text;
+                try { message = JSON.parse(text).message || text; } catch { /* plain text error */ }
+                throw new Error(message);
             }
+
+            const orderResponse = await fetch(`${this.apiUrl}/orders?id=eq.${order.id}&select=*,order_items(*),order_shipments(*)`, {
+                headers: this.getHeaders()
+            });
+            if (!orderResponse.ok) throw new Error(`Shipment recorded, but the order could not be reloaded (${orderResponse.status})`);
+            const [row] = await orderResponse.json();
+            return this.mapOrder(row);
         } catch (error) {
-            console.error('[OrderService] Receive order failed:', error);
+            console.error('[OrderService] Receive shipment failed:', error);
             throw error;
         }
     }
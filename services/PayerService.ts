@@ -0,0 +1,122 @@
+import { Payer, DBPayer } from '../types';
+
+export class PayerService {
+    private static accessToken: string | null = null;
+    private static locationId: string | null = null;
+    private static apiUrl = import.meta.env.VITE_SUPABASE_URL + '/rest/v1';
+    private static apiKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    static setAccessToken(token: string) {
+        this.accessToken = token;
+    }
+
+    static setLocationId(id: string) {
+        this.locationId = id;
+    }
+
+    private static getHeaders() {
+        if (!this.accessToken) {
+            console.warn('[PayerService] ⚠️ No access token! Operations may fail.');
+        }
+        const headers: HeadersInit = {
+            'apikey': this.apiKey,
+            'Authorization': `Bearer ${this.accessToken || this.apiKey}`,
+            'Content-Type': 'application/json',
+            'Prefer': 'return=representation'
+        };
+        return headers;
+    }
+
+    private static mapPayer(row: DBPayer): Payer {
+        return {
+            id: row.id,
+            name: row.name,
+            type: row.payer_type,
+            reportKey: row.report_key,
+            aliases: row.aliases || [],
+            showInDailyClose: row.show_in_daily_close !== false,
+            isActive: row.is_active !== false,
+            sortOrder: row.sort_order ?? 0,
+            notes: row.notes || undefined
+        };
+    }
+
+    private static toDb(payer: Partial<Payer>): Partial<DBPayer> {
+        const db: Partial<DBPayer> = {};
+        if (payer.name !== undefined) db.name = payer.name.trim();
+        if (payer.type !== undefined) db.payer_type = payer.type;
+        if (payer.reportKey !== undefined) db.report_key = payer.reportKey;
+        if (payer.aliases !== undefined) db.aliases = payer.aliases.map(a => a.trim()).filter(Boolean);
+        if (payer.showInDailyClose !== undefined) db.show_in_daily_close = payer.showInDailyClose;
+        if (payer.isActive !== undefined) db.is_active = payer.isActive;
+        if (payer.sortOrder !== undefined) db.sort_order = payer.sortOrder;
+        if (payer.notes !== undefined) db.notes = payer.notes || null;
+        return db;
+    }
+
+    static async fetchAll(): Promise<Payer[]> {
+        try {
+            if (!this.accessToken) return [];
+
+            const locFilter = this.locationId ? `&location_id=eq.${this.locationId}` : '';
+            const response = await fetch(`${this.apiUrl}/payers?select=*&order=sort_order.asc,name.asc${locFilter}`, {
+                headers: this.getHeaders()
+            });
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+            const data: DBPayer[] = await response.json();
+            return (data || []).map(row => this.mapPayer(row));
+        } catch (error) {
+            console.error('[PayerService] Fetch failed:', error);
+            return [];
+        }
+    }
+
+    static async createPayer(payer: Omit<Payer, 'id'>): Promise<Payer> {
+        try {
+            const response = await fetch(`${this.apiUrl}/payers`, {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({ ...this.toDb(payer), location_id: this.locationId })
+            });
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to create payer (${response.status}): ${text}`);
+            }
+            const [row] = await response.json();
+            return this.mapPayer(row);
+        } catch (error) {
+            console.error('[PayerService] Create failed:', error);
+            throw error;
+        }
+    }
+
+    /** The report key is never sent: reports already saved under it must keep resolving */
+    static async updatePayer(id: string, updates: Partial<Payer>): Promise<Payer> {
+        const { reportKey, ...changes } = updates;
+        try {
+            const response = await fetch(`${this.apiUrl}/payers?id=eq.${id}`, {
+                method: 'PATCH',
+                headers: this.getHeaders(),
+                body: JSON.stringify({ ...this.toDb(changes), updated_at: new Date().toISOString() })
+            });
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to update payer (${response.status}): ${text}`);
+            }
+            const [row] = await response.json();
+            return this.mapPayer(row);
+        } catch (error) {
+            console.error('[PayerService] Update failed:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Payers are retired rather than deleted so daily reports and billing
+     * rules that name them stay readable.
+     */
+    static async retirePayer(id: string): Promise<Payer> {
+        return this.updatePayer(id, { isActive: false });
+    }
+}
@@ -1,4 +1,4 @@
-import { Protocol, ProtocolAcknowledgment, ProtocolSeverity, ProtocolArea, ProtocolType } from '../types';
+import { Protocol, ProtocolAcknowledgment, ProtocolSeverity, ProtocolArea, ProtocolType, ProtocolRevision, ProtocolChange } from '../types';
 
 let _cachedToken: string | null = null;
 let _locationId: string | null = null;
@@ -58,7 +58,9 @@ export const ProtocolService = {
                 quizzes: item.quizzes || [],
                 createdBy: item.created_by,
                 createdAt: item.created_at,
-                updatedAt: item.updated_at
+                updatedAt: item.updated_at,
+                version: item.version || 1,
+                ackVersion: item.ack_version || 1
             }));
         } catch (error) {
             console.error('Error fetching protocols:', error);
@@ -66,7 +68,7 @@ export const ProtocolService = {
         }
     },
 
-    createProtocol: async (protocol: Omit<Protocol, 'id' | 'createdAt' | 'updatedAt' | 'createdBy'>): Promise<Protocol | null> => {
+    createProtocol: async (protocol: Omit<Protocol, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'version' | 'ackVersion'>): Promise<Protocol | null> => {
         try {
             const payload = {
                 title: protocol.title,
@@ -116,7 +118,9 @@ export const ProtocolService = {
                 quizzes: item.quizzes || [],
                 createdBy: item.created_by,
                 createdAt: item.created_at,
-                updatedAt: item.updated_at
+                updatedAt: item.updated_at,
+                version: item.version || 1,
+                ackVersion: item.ack_version || 1
             };
         } catch (error) {
             console.error('Error creating protocol:', error);
@@ -124,7 +128,13 @@ export const ProtocolService = {
         }
     },
 
-    updateProtocol: async (id: string, updates: Partial<Protocol>): Promise<Protocol | null> => {
+    /**
+     * Saves an edit. The database bumps the version and records a revision
+     * whenever signed content changes; a 'material' change also makes everyone
+     * in the target role sign again. The change type is always sent, because
+     * the column otherwise keeps the previous edit's value.
+     */
+    updateProtocol: async (id: string, updates: Partial<Protocol>, change: ProtocolChange = { type: 'minor' }): Promise<Protocol | null> => {
         try {
             const dbUpdates: any = {};
             if (updates.title !== undefined) dbUpdates.title = updates.title;
@@ -138,6 +148,8 @@ export const ProtocolService = {
             if (updates.videoUrl !== undefined) dbUpdates.video_url = updates.videoUrl;
             if (updates.checklists !== undefined) dbUpdates.checklists = updates.checklists;
             if (updates.quizzes !== undefined) dbUpdates.quizzes = updates.quizzes;
+            dbUpdates.last_change_type = change.type;
+            dbUpdates.last_change_note = change.note?.trim() || null;
             dbUpdates.updated_at = new Date().toISOString();
 
             const controller = new AbortController();
@@ -172,7 +184,9 @@ export const ProtocolService = {
                 quizzes: item.quizzes || [],
                 createdBy: item.created_by,
                 createdAt: item.created_at,
-                updatedAt: item.updated_at
+                updatedAt: item.updated_at,
+                version: item.version || 1,
+                ackVersion: item.ack_version || 1
             };
         } catch (error) {
             console.error('Error updating protocol:', error);
@@ -199,6 +213,47 @@ export const ProtocolService = {
         }
     },
 
+    /** Every version of a protocol, newest first */
+    getRevisions: async (protocolId: string): Promise<ProtocolRevision[]> => {
+        try {
+            const controller = new AbortController();
+            const timeoutId = setTimeout(() => controller.abort(), 45000);
+
+            const response = await fetch(`${SUPABASE_URL}/rest/v1/protocol_revisions?protocol_id=eq.${protocolId}&select=*&order=version.desc`, {
+                method: 'GET',
+                headers: getHeaders(),
+                signal: controller.signal
+            });
+            clearTimeout(timeoutId);
+
+            if (!response.ok) throw new Error(`Fetch Revisions Failed ${response.status}`);
+            const data = await response.json();
+
+            return (data || []).map((item: any) => ({
+                id: item.id,
+                protocolId: item.protocol_id,
+                version: item.version,
+                title: item.title,
+                content: item.content,
+                severity: item.severity as ProtocolSeverity,
+                area: item.area as ProtocolArea,
+                type: item.type as ProtocolType,
+                requiresAcknowledgment: item.requires_acknowledgment,
+                targetRole: item.target_role,
+                videoUrl: item.video_url,
+                checklists: item.checklists || [],
+                quizzes: item.quizzes || [],
+                changeType: item.change_type,
+                changeNote: item.change_note,
+                createdBy: item.created_by,
+                createdAt: item.created_at
+            }));
+        } catch (error) {
+            console.error('Error fetching protocol revisions:', error);
+            return [];
+        }
+    },
+
     getAcknowledgments: async (protocolId?: string): Promise<ProtocolAcknowledgment[]> => {
         try {
             let url = `${SUPABASE_URL}/rest/v1/protocol_acknowledgments?select=*`;
@@ -222,7 +277,8 @@ export const ProtocolService = {
             return (data || []).map((item: any) => ({
                 protocolId: item.protocol_id,
                 userId: item.user_id,
-                acknowledgedAt: item.acknowledged_at
+                acknowledgedAt: item.acknowledged_at,
+                version: item.version || 1
             }));
         } catch (error) {
             console.error('Error fetching acknowledgments:', error);
@@ -230,11 +286,12 @@ export const ProtocolService = {
         }
     },
 
-    acknowledgeProtocol: async (protocolId: string, userId: string): Promise<boolean> => {
+    acknowledgeProtocol: async (protocolId: string, userId: string, version: number): Promise<boolean> => {
         try {
             const payload = {
                 protocol_id: protocolId,
-                user_id: userId
+                user_id: userId,
+                version
             };
 
             const controller = new AbortController();
@@ -2,155 +2,81 @@
  * Query Engine — Natural Language Data Queries
  * Answers questions about clinic data using local LLM.
  *
- * Flow: User question → LLM classifies intent → data lookup → LLM formats answer
+ * Flow: User question → LLM writes a typed query plan → plan is executed
+ * deterministically in TypeScript → LLM phrases the computed numbers
  */
 
 import { jsonChat, chat } from './LocalAIService';
-import { InventoryItem, Order, PettyCashTransaction, Protocol } from '../types';
+import { FormTemplate, InventoryItem, Order, PettyCashTransaction, Protocol, QueryExecution, QueryPlan } from '../types';
 import { DailyReport } from '../types/dailyReport';
+import { describeQueryPlan, describeQuerySchema, executeQueryPlan, formatQueryExecution, validateQueryPlan } from '../utils/queryPlan';
+import { getCurrentLocalISODate } from '../utils/dateUtils';
+import { SemanticSearchService } from './SemanticSearchService';
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 export interface QueryResult {
   answer: string;
   dataUsed: string;
   confidence: 'HIGH' | 'MEDIUM' | 'LOW';
+  plan?: QueryPlan;
+  planSummary?: string; // Human-readable rendering of the plan that ran
+  execution?: QueryExecution;
 }
 
-interface QueryIntent {
-  category: 'inventory' | 'orders' | 'revenue' | 'expenses' | 'protocols' | 'general';
-  action: 'search' | 'count' | 'sum' | 'compare' | 'list' | 'status';
-  filters: {
-    itemName?: string;
-    category?: string;
-    dateRange?: string;
-    vendor?: string;
-  };
-}
+const MAX_PLAN_ATTEMPTS = 2;
+const SEMANTIC_MATCHES = 5;
 
-// ─── Data Context Builder ───────────────────────────────────────────────────
-function buildDataContext(
-  intent: QueryIntent,
-  inventory: InventoryItem[],
-  orders: Order[],
-  dailyReports: DailyReport[],
-  pettyCash: PettyCashTransaction[],
-  protocols: Protocol[]
-): string {
-  const parts: string[] = [];
-
-  if (intent.category === 'inventory' || intent.category === 'general') {
-    // Inventory summary
-    const lowStock = inventory.filter(i => i.stock <= i.minStock);
-    const categories = [...new Set(inventory.map(i => i.category))];
-
-    if (intent.action === 'search' && intent.filters.itemName) {
-      const search = intent.filters.itemName.toLowerCase();
-      const matches = inventory.filter(i =>
-        i.name.toLowerCase().includes(search) ||
-        i.category.toLowerCase().includes(search)
-      );
-      parts.push(`SEARCH RESULTS for "${intent.filters.itemName}":`);
-      if (matches.length === 0) {
-        parts.push('No items found matching that search.');
-      } else {
-        matches.slice(0, 15).forEach(i => {
-          parts.push(`- ${i.name} | Category: ${i.category} | Stock: ${i.stock} ${i.unit} | Min: ${i.minStock} | Location: ${i.location} | Cost: $${i.averageCost?.toFixed(2) || 'N/A'}${i.expiryDate ? ` | Exp: ${i.expiryDate}` : ''}`);
-        });
-        if (matches.length > 15) parts.push(`... and ${matches.length - 15} more items`);
-      }
-    } else if (intent.filters.category) {
-      const catItems = inventory.filter(i =>
-        i.category.toLowerCase().includes(intent.filters.category!.toLowerCase())
-      );
-      parts.push(`ITEMS IN CATEGORY "${intent.filters.category}" (${catItems.length}):`);
-      catItems.slice(0, 15).forEach(i => {
-        parts.push(`- ${i.name} | Stock: ${i.stock} ${i.unit} | Cost: $${i.averageCost?.toFixed(2) || 'N/A'}`);
-      });
-    } else {
-      parts.push(`INVENTORY OVERVIEW: ${inventory.length} total items across ${categories.length} categories`);
-      parts.push(`Low stock: ${lowStock.length} items`);
-      parts.push(`Categories: ${categories.join(', ')}`);
-
-      // Total valuation
-      const totalValue = inventory.reduce((sum, i) => sum + (i.stock * (i.averageCost || 0)), 0);
-      parts.push(`Total inventory value: $${totalValue.toFixed(2)}`);
-
-      if (lowStock.length > 0) {
-        parts.push(`\nLOW STOCK ITEMS:`);
-        lowStock.slice(0, 10).forEach(i => {
-          parts.push(`- ${i.name}: ${i.stock}/${i.minStock} ${i.unit}`);
-        });
-      }
-    }
-  }
+// ─── Planning ───────────────────────────────────────────────────────────────
 
-  if (intent.category === 'orders' || intent.category === 'general') {
-    parts.push(`\nORDERS: ${orders.length} total`);
-    const pending = orders.filter(o => o.status === 'PENDING');
-    const received = orders.filter(o => o.status === 'RECEIVED');
-    parts.push(`Pending: ${pending.length} | Received: ${received.length}`);
-
-    if (intent.filters.vendor) {
-      const vendorOrders = orders.filter(o =>
-        o.vendor.toLowerCase().includes(intent.filters.vendor!.toLowerCase())
-      );
-      parts.push(`Orders from "${intent.filters.vendor}": ${vendorOrders.length}`);
-      vendorOrders.slice(0, 5).forEach(o => {
-        parts.push(`- PO#${o.poNumber} | ${o.orderDate} | $${o.grandTotal.toFixed(2)} | ${o.status}`);
-      });
-    }
+function planningPrompt(today: string): string {
+  return `Translate a clinic data question into a JSON query plan. Do NOT answer the question and do NOT compute anything.
 
-    const totalSpent = orders.filter(o => o.status === 'RECEIVED')
-      .reduce((sum, o) => sum + o.grandTotal, 0);
-    parts.push(`Total spent (received): $${totalSpent.toFixed(2)}`);
-  }
+Today is ${today}.
 
-  if (intent.category === 'revenue' || intent.category === 'general') {
-    if (dailyReports.length > 0) {
-      const sorted = [...dailyReports].sort((a, b) =>
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      );
-      const recent = sorted.slice(0, 7);
-      const totalRevenue = recent.reduce((sum, r) => sum + (r.totals?.revenue || 0), 0);
-      const totalPatients = recent.reduce((sum, r) => sum + (r.totals?.patients || 0), 0);
-
-      parts.push(`\nREVENUE (last ${recent.length} reports):`);
-      parts.push(`Total: $${totalRevenue.toFixed(2)} | Patients: ${totalPatients}`);
-      parts.push(`Average per day: $${(totalRevenue / recent.length).toFixed(2)}`);
-
-      recent.forEach(r => {
-        parts.push(`- ${r.timestamp.split('T')[0]}: $${(r.totals?.revenue || 0).toFixed(2)} | ${r.totals?.patients || 0} patients`);
-      });
-    }
-  }
+Plan shape:
+{
+  "entity": one of the entities below,
+  "aggregation": "count" | "sum" | "avg" | "min" | "max" | "list",
+  "metric": numeric field for sum/avg/min/max, or sort field for list,
+  "filters": [{ "field": string, "op": "eq" | "neq" | "contains" | "gt" | "gte" | "lt" | "lte" | "in", "value": string | number | boolean | array }],
+  "dateRange": { "preset": string } or { "start": "YYYY-MM-DD", "end": "YYYY-MM-DD" },
+  "compareTo": same shape as dateRange, for "X vs Y" questions,
+  "groupBy": field name,
+  "sort": "asc" | "desc",
+  "limit": number
+}
 
-  if (intent.category === 'expenses' || intent.category === 'general') {
-    if (pettyCash.length > 0) {
-      const recent = [...pettyCash]
-        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-        .slice(0, 10);
-      const totalOut = recent.filter(t => t.action === 'WITHDRAWAL')
-        .reduce((sum, t) => sum + Math.abs(t.amount), 0);
-
-      parts.push(`\nPETTY CASH (last ${recent.length} transactions):`);
-      parts.push(`Total withdrawals: $${totalOut.toFixed(2)}`);
-      if (recent.length > 0) {
-        parts.push(`Current balance: $${recent[0].runningBalance.toFixed(2)}`);
-      }
-    }
-  }
+Entities and fields:
+${describeQuerySchema()}
+
+Rules:
+- Use "contains" for names typed by the user (vendors, items, categories).
+- "Spend" is sum of orders.grandTotal excluding status DRAFT and CANCELLED (op "in" or two "neq" filters).
+- For "A vs B" periods put the later period in dateRange and the earlier one in compareTo.
+- "Low stock" is inventory with isLowStock = true; "expiring soon" is inventory with dateRange next_30_days.
+- Questions about rules, SOPs or procedures ("what do I do if...") use entity "protocols" with aggregation "list" and no text filters.
+- Questions about patient forms or consents use entity "forms" with aggregation "list".
+- Omit keys you do not need.`;
+}
 
-  if (intent.category === 'protocols' || intent.category === 'general') {
-    if (protocols.length > 0) {
-      parts.push(`\nCLINIC PROTOCOLS & RULES (${protocols.length} total):`);
-      protocols.forEach(p => {
-        parts.push(`- Protocol Area: ${p.area} | Severity: ${p.severity}`);
-        parts.push(`  Content/Rules: ${p.content}`);
-      });
-    }
+/**
+ * Asks the model for a plan, feeding validation errors back once so it can
+ * correct unknown fields or malformed ranges.
+ */
+async function planQuery(question: string, today: string): Promise<QueryPlan> {
+  let message = question;
+  let lastErrors: string[] = [];
+
+  for (let attempt = 0; attempt < MAX_PLAN_ATTEMPTS; attempt++) {
+    const plan = await jsonChat<QueryPlan>(planningPrompt(today), message, { model: 'fast', maxTokens: 400 });
+    const normalized: QueryPlan = { ...plan, filters: Array.isArray(plan?.filters) ? plan.filters : [] };
+    lastErrors = validateQueryPlan(normalized);
+    if (lastErrors.length === 0) return normalized;
+
+    console.warn('[QueryEngine] Plan rejected:', lastErrors);
+    message = `${question}\n\nYour previous plan was invalid:\n${JSON.stringify(plan)}\nProblems: ${lastErrors.join('; ')}\nReturn a corrected plan.`;
   }
-
-  return parts.join('\n');
+  throw new Error(`Could not build a query for that question (${lastErrors.join('; ')})`);
 }
 
 // ─── Main Query Function ────────────────────────────────────────────────────
@@ -161,37 +87,57 @@ export async function queryClinicData(
   orders: Order[],
   dailyReports: DailyReport[],
   pettyCash: PettyCashTransaction[],
-  protocols: Protocol[]
+  protocols: Protocol[],
+  templates: FormTemplate[] = []
 ): Promise<QueryResult> {
   console.log(`[QueryEngine] Processing: "${question}"`);
+  const now = new Date();
+
+  // Step 1: Translate the question into a typed plan (no arithmetic by the model)
+  let plan = await planQuery(question, getCurrentLocalISODate());
+  console.log('[QueryEngine] Plan:', plan);
+
+  // Text documents are found by meaning, not by the model's keyword guesses:
+  // "needlestick" should reach the bloodborne-pathogen exposure protocol
+  let matchedProtocols = protocols;
+  let matchedTemplates = templates;
+  if (plan.entity === 'protocols' || plan.entity === 'forms') {
+    const kind = plan.entity === 'protocols' ? 'protocol' : 'form';
+    const hits = await SemanticSearchService.search(question, [kind], SEMANTIC_MATCHES);
+    if (hits.length > 0) {
+      const rank = new Map(hits.map((h, i) => [h.id, i]));
+      const byRank = <T extends { id: string }>(docs: T[]) =>
+        docs.filter(d => rank.has(d.id)).sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+      if (kind === 'protocol') matchedProtocols = byRank(protocols);
+      else matchedTemplates = byRank(templates);
+      plan = { ...plan, filters: plan.filters.filter(f => f.field !== 'title' && f.field !== 'content'), metric: undefined };
+    }
+  }
 
-  // Step 1: Classify intent
-  const intent = await jsonChat<QueryIntent>(
-    `Classify this clinic data question. Return JSON with:
-- category: "inventory" | "orders" | "revenue" | "expenses" | "protocols" | "general"
-- action: "search" | "count" | "sum" | "compare" | "list" | "status"
-- filters: { itemName?, category?, dateRange?, vendor? }
-
-The clinic manages: medical inventory, purchase orders, daily revenue reports, petty cash, and clinic protocols/rules/SOPs.`,
-    question,
-    { model: 'fast', maxTokens: 256 }
-  );
-
-  console.log('[QueryEngine] Intent:', intent);
-
-  // Step 2: Gather relevant data
-  const dataContext = buildDataContext(intent, inventory, orders, dailyReports, pettyCash, protocols);
-
-  // Step 3: Generate human-readable answer
-  const answer = await chat(
-    `You are Norvexis, an AI clinic data assistant. Answer the user's question based ONLY on the data provided. Be concise, use specific numbers, and format with bullet points when listing multiple items. If the data doesn't contain enough info, say so honestly.`,
-    `Question: "${question}"\n\nAvailable Data:\n${dataContext}`,
-    { model: 'fast', temperature: 0.2, maxTokens: 512 }
-  );
+  // Step 2: Compute exact results in TypeScript
+  const execution = executeQueryPlan(plan, { inventory, orders, dailyReports, pettyCash, protocols: matchedProtocols, templates: matchedTemplates }, now);
+  const planSummary = describeQueryPlan(execution);
+  const facts = formatQueryExecution(execution);
+
+  // Step 3: Phrase the computed result; fall back to the raw figures
+  let answer: string;
+  try {
+    answer = (await chat(
+      `You are Norvexis, an AI clinic data assistant. The numbers below were computed exactly by the clinic system. Restate them to answer the question. Never recalculate, round differently or invent figures. Be concise and use bullet points for lists. If nothing matched, say so.`,
+      `Question: "${question}"\n\nQuery run: ${planSummary}\n\nComputed result:\n${facts}`,
+      { model: 'fast', temperature: 0.2, maxTokens: 512 }
+    )).trim();
+  } catch (e) {
+    console.warn('[QueryEngine] Answer phrasing failed, returning computed result', e);
+    answer = facts;
+  }
 
   return {
-    answer: answer.trim(),
-    dataUsed: intent.category,
-    confidence: dataContext.includes('No items found') ? 'LOW' : 'HIGH',
+    answer,
+    dataUsed: plan.entity,
+    confidence: execution.matched === 0 ? 'LOW' : 'HIGH',
+    plan,
+    planSummary,
+    execution,
   };
 }
@@ -1,4 +1,4 @@
-import { Shift, TimeOffRequest } from '../types';
+import { CalendarFeed, ScheduleRules, Shift, ShiftOffer, ShiftOfferEvent, ShiftOfferStatus, StaffAvailability, TimeClockSettings, TimeOffRequest, TimePunch, TimesheetApproval } from '../types';
 
 export class ScheduleService {
     private static accessToken: string | null = null;
@@ -258,6 +258,484 @@ export class ScheduleService {
         }
     }
 
+    /**
+     * AUTO-SCHEDULER RULES & STAFF AVAILABILITY
+     */
+
+    static async fetchScheduleRules(): Promise<ScheduleRules | null> {
+        try {
+            if (!this.accessToken || !this.locationId) return null;
+
+            const response = await fetch(`${this.apiUrl}/schedule_rules?location_id=eq.${this.locationId}&limit=1`, {
+                headers: this.getHeaders()
+            });
+
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+            const data = await response.json();
+            return data?.[0] || null;
+        } catch (error) {
+            console.error('[ScheduleService] Fetch rules failed:', error);
+            return null;
+        }
+    }
+
+    /** One rule set per location, replaced on save */
+    static async saveScheduleRules(rules: ScheduleRules): Promise<ScheduleRules> {
+        try {
+            const { id, ...fields } = rules;
+            const response = await fetch(`${this.apiUrl}/schedule_rules?on_conflict=location_id`, {
+                method: 'POST',
+                headers: { ...this.getHeaders(), 'Prefer': 'resolution=merge-duplicates,return=representation' },
+                body: JSON.stringify({
+                    ...fields,
+                    location_id: rules.location_id || this.locationId,
+                    updated_at: new Date().toISOString()
+                })
+            });
+
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to save schedule rules (${response.status}): ${text}`);
+            }
+
+            const saved = await response.json();
+            return saved[0] as ScheduleRules;
+        } catch (error) {
+            console.error('[ScheduleService] Save rules failed:', error);
+            throw error;
+        }
+    }
+
+    static async fetchStaffAvailability(): Promise<StaffAvailability[]> {
+        try {
+            if (!this.accessToken) return [];
+
+            const locFilter = this.locationId ? `?location_id=eq.${this.locationId}` : '';
+            const response = await fetch(`${this.apiUrl}/staff_availability${locFilter}`, {
+                headers: this.getHeaders()
+            });
+
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+            const data = await response.json();
+            return data || [];
+        } catch (error) {
+            console.error('[ScheduleService] Fetch availability failed:', error);
+            return [];
+        }
+    }
+
+    /** One availability record per user and location, replaced on save */
+    static async saveStaffAvailability(availability: StaffAvailability): Promise<StaffAvailability> {
+        try {
+            const { id, ...fields } = availability;
+            const response = await fetch(`${this.apiUrl}/staff_availability?on_conflict=user_id,location_id`, {
+                method: 'POST',
+                headers: { ...this.getHeaders(), 'Prefer': 'resolution=merge-duplicates,return=representation' },
+                body: JSON.stringify({
+                    ...fields,
+                    location_id: availability.location_id || this.locationId,
+                    updated_at: new Date().toISOString()
+                })
+            });
+
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to save availability (${response.status}): ${text}`);
+            }
+
+            const saved = await response.json();
+            return saved[0] as StaffAvailability;
+        } catch (error) {
+            console.error('[ScheduleService] Save availability failed:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * SHIFT SWAPS & GIVEAWAYS
+     */
+
+    /** Offers still in play, plus the last 30 days of finished ones for the trail */
+    static async fetchShiftOffers(): Promise<ShiftOffer[]> {
+        try {
+            if (!this.accessToken) return [];
+
+            const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+            const locFilter = this.locationId ? `&location_id=eq.${this.locationId}` : '';
+            const query = `?select=*,events:shift_offer_events(action,actor_id,note,created_at)&or=(status.in.(open,pending_approval),updated_at.gte.${since})${locFilter}&order=created_at.desc`;
+
+            const response = await fetch(`${this.apiUrl}/shift_offers${query}`, {
+                headers: this.getHeaders()
+            });
+
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+            const data = await response.json();
+            return (data || []).map((row: any) => this.mapShiftOffer(row));
+        } catch (error) {
+            console.error('[ScheduleService] Fetch offers failed:', error);
+            return [];
+        }
+    }
+
+    /** The trail is written server-side, one shift_offer_events row per status change */
+    private static mapShiftOffer(row: any): ShiftOffer {
+        const { events, ...offer } = row;
+        const history: ShiftOfferEvent[] = (events || [])
+            .map((e: any) => ({ at: e.created_at, by: e.actor_id, action: e.action, ...(e.note ? { note: e.note } : {}) }))
+            .sort((a: ShiftOfferEvent, b: ShiftOfferEvent) => a.at.localeCompare(b.at));
+        return { ...offer, history };
+    }
+
+    static async createShiftOffer(offer: Omit<ShiftOffer, 'id' | 'created_at' | 'updated_at' | 'history'>): Promise<ShiftOffer> {
+        try {
+            const response = await fetch(`${this.apiUrl}/shift_offers`, {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    ...offer,
+                    location_id: offer.location_id || this.locationId
+                })
+            });
+
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to create shift offer (${response.status}): ${text}`);
+            }
+
+            const saved = await response.json();
+            return this.mapShiftOffer(saved[0]);
+        } catch (error) {
+            console.error('[ScheduleService] Create offer failed:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Moves an offer on only if it is still in one of `expectedStatuses`, so
+     * two people can't both claim it. Throws when someone else got there first.
+     */
+    static async updateShiftOffer(offerId: string, updates: Partial<Omit<ShiftOffer, 'history'>>, expectedStatuses: ShiftOfferStatus[]): Promise<ShiftOffer> {
+        try {
+            const response = await fetch(`${this.apiUrl}/shift_offers?id=eq.${offerId}&status=in.(${expectedStatuses.join(',')})`, {
+                method: 'PATCH',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    ...updates,
+                    updated_at: new Date().toISOString()
+                })
+            });
+
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to update shift offer (${response.status}): ${text}`);
+            }
+
+            const saved = await response.json();
+            if (!saved || saved.length === 0) {
+                throw new Error('This offer was already taken or changed by someone else');
+            }
+            return this.mapShiftOffer(saved[0]);
+        } catch (error) {
+            console.error('[ScheduleService] Update offer failed:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Hands a claimed offer's shift(s) to their new owners and closes it in
+     * one server transaction. The server checks who may complete it and that
+     * neither shift has moved since the claim.
+     */
+    static async completeShiftOffer(offerId: string, note?: string): Promise<ShiftOffer> {
+        const response = await fetch(`${this.apiUrl}/rpc/complete_shift_offer`, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: JSON.stringify({ p_offer_id: offerId, p_note: note || null })
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            let message = text;
+            try { message = JSON.parse(text).message || text; } catch { /* plain text error */ }
+            throw new Error(message);
+        }
+        return this.mapShiftOffer(await response.json());
+    }
+
+    /**
+     * TIME CLOCK
+     */
+    static async fetchTimeClockSettings(): Promise<TimeClockSettings | null> {
+        try {
+            if (!this.accessToken || !this.locationId) return null;
+
+            const response = await fetch(`${this.apiUrl}/time_clock_settings?location_id=eq.${this.locationId}&limit=1`, {
+                headers: this.getHeaders()
+            });
+
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+            const data = await response.json();
+            return data?.[0] || null;
+        } catch (error) {
+            console.error('[ScheduleService] Fetch time clock settings failed:', error);
+            return null;
+        }
+    }
+
+    /** One settings row per location, replaced on save */
+    static async saveTimeClockSettings(settings: TimeClockSettings): Promise<TimeClockSettings> {
+        try {
+            const { id, ...fields } = settings;
+            const response = await fetch(`${this.apiUrl}/time_clock_settings?on_conflict=location_id`, {
+                method: 'POST',
+                headers: { ...this.getHeaders(), 'Prefer': 'resolution=merge-duplicates,return=representation' },
+                body: JSON.stringify({
+                    ...fields,
+                    location_id: settings.location_id || this.locationId,
+                    updated_at: new Date().toISOString()
+                })
+            });
+
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to save time clock settings (${response.status}): ${text}`);
+            }
+
+            const saved = await response.json();
+            return saved[0] as TimeClockSettings;
+        } catch (error) {
+            console.error('[ScheduleService] Save time clock settings failed:', error);
+            throw error;
+        }
+    }
+
+    /** Hashed on the server; pass null to remove the PIN */
+    static async setTimeClockPin(pin: string | null): Promise<void> {
+        const response = await fetch(`${this.apiUrl}/rpc/set_time_clock_pin`, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: JSON.stringify({ p_location_id: this.locationId, p_pin: pin })
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`Failed to set clock PIN (${response.status}): ${text}`);
+        }
+    }
+
+    /**
+     * Punches the signed-in user in, or out if they are on the clock. The
+     * server stamps the time and enforces the network and PIN rules; its
+     * refusal reason is thrown as the error message.
+     */
+    static async punchClock(pin?: string): Promise<TimePunch> {
+        const response = await fetch(`${this.apiUrl}/rpc/clock_punch`, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: JSON.stringify({ p_location_id: this.locationId, p_pin: pin || null })
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            let message = text;
+            try { message = JSON.parse(text).message || text; } catch { /* plain text error */ }
+            throw new Error(message);
+        }
+        return await response.json() as TimePunch;
+    }
+
+    /** Punches that started in the date range (inclusive, local days), plus anyone still on the clock */
+    static async fetchTimePunches(startDate: string, endDate: string, userId?: string): Promise<TimePunch[]> {
+        try {
+            if (!this.accessToken) return [];
+
+            const from = new Date(`${startDate}T00:00:00`).toISOString();
+            const to = new Date(`${endDate}T23:59:59.999`).toISOString();
+            const locFilter = this.locationId ? `&location_id=eq.${this.locationId}` : '';
+            const userFilter = userId ? `&user_id=eq.${userId}` : '';
+            const query = `?or=(and(punch_in.gte.${from},punch_in.lte.${to}),punch_out.is.null)${locFilter}${userFilter}&order=punch_in.asc`;
+
+            const response = await fetch(`${this.apiUrl}/time_punches${query}`, {
+                headers: this.getHeaders()
+            });
+
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+            const data = await response.json();
+            return data || [];
+        } catch (error) {
+            console.error('[ScheduleService] Fetch punches failed:', error);
+            return [];
+        }
+    }
+
+    /** Manager entry for a missed punch */
+    static async createTimePunch(punch: Omit<TimePunch, 'id' | 'created_at' | 'updated_at'>): Promise<TimePunch> {
+        try {
+            const response = await fetch(`${this.apiUrl}/time_punches`, {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    ...punch,
+                    location_id: punch.location_id || this.locationId
+                })
+            });
+
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to add punch (${response.status}): ${text}`);
+            }
+
+            const saved = await response.json();
+            return saved[0] as TimePunch;
+        } catch (error) {
+            console.error('[ScheduleService] Create punch failed:', error);
+            throw error;
+        }
+    }
+
+    static async updateTimePunch(punchId: string, updates: Partial<TimePunch>): Promise<TimePunch> {
+        try {
+            const response = await fetch(`${this.apiUrl}/time_punches?id=eq.${punchId}`, {
+                method: 'PATCH',
+                headers: this.getHeaders(),
+                body: JSON.stringify({
+                    ...updates,
+                    updated_at: new Date().toISOString()
+                })
+            });
+
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to update punch (${response.status}): ${text}`);
+            }
+
+            const saved = await response.json();
+            return saved[0] as TimePunch;
+        } catch (error) {
+            console.error('[ScheduleService] Update punch failed:', error);
+            throw error;
+        }
+    }
+
+    static async fetchTimesheetApprovals(periodStart: string): Promise<TimesheetApproval[]> {
+        try {
+            if (!this.accessToken) return [];
+
+            const locFilter = this.locationId ? `&location_id=eq.${this.locationId}` : '';
+            const response = await fetch(`${this.apiUrl}/timesheet_approvals?period_start=eq.${periodStart}${locFilter}`, {
+                headers: this.getHeaders()
+            });
+
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+            const data = await response.json();
+            return data || [];
+        } catch (error) {
+            console.error('[ScheduleService] Fetch timesheet approvals failed:', error);
+            return [];
+        }
+    }
+
+    /** One approval per person and pay period, replaced on re-approval */
+    static async approveTimesheet(approval: TimesheetApproval): Promise<TimesheetApproval> {
+        try {
+            const { id, ...fields } = approval;
+            const response = await fetch(`${this.apiUrl}/timesheet_approvals?on_conflict=user_id,location_id,period_start`, {
+                method: 'POST',
+                headers: { ...this.getHeaders(), 'Prefer': 'resolution=merge-duplicates,return=representation' },
+                body: JSON.stringify({
+                    ...fields,
+                    location_id: approval.location_id || this.locationId,
+                    approved_at: new Date().toISOString()
+                })
+            });
+
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to approve timesheet (${response.status}): ${text}`);
+            }
+
+            const saved = await response.json();
+            return saved[0] as TimesheetApproval;
+        } catch (error) {
+            console.error('[ScheduleService] Approve timesheet failed:', error);
+            throw error;
+        }
+    }
+
+    static async removeTimesheetApproval(approvalId: string): Promise<void> {
+        const response = await fetch(`${this.apiUrl}/timesheet_approvals?id=eq.${approvalId}`, {
+            method: 'DELETE',
+            headers: this.getHeaders()
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`Failed to reopen timesheet (${response.status}): ${text}`);
+        }
+    }
+
+    /**
+     * CALENDAR FEEDS
+     */
+    static calendarFeedUrl(token: string): string {
+        return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+    }
+
+    static async fetchCalendarFeed(userId: string): Promise<CalendarFeed | null> {
+        try {
+            if (!this.accessToken || !this.locationId) return null;
+
+            const response = await fetch(`${this.apiUrl}/calendar_feeds?user_id=eq.${userId}&location_id=eq.${this.locationId}&revoked_at=is.null&limit=1`, {
+                headers: this.getHeaders()
+            });
+
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+            const data = await response.json();
+            return data?.[0] || null;
+        } catch (error) {
+            console.error('[ScheduleService] Fetch calendar feed failed:', error);
+            return null;
+        }
+    }
+
+    /** The token is generated by the database */
+    static async createCalendarFeed(userId: string): Promise<CalendarFeed> {
+        try {
+            const response = await fetch(`${this.apiUrl}/calendar_feeds`, {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({ user_id: userId, location_id: this.locationId })
+            });
+
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to create calendar feed (${response.status}): ${text}`);
+            }
+
+            const saved = await response.json();
+            return saved[0] as CalendarFeed;
+        } catch (error) {
+            console.error('[ScheduleService] Create calendar feed failed:', error);
+            throw error;
+        }
+    }
+
+    /** The link stops working at once; a new one needs a new token */
+    static async revokeCalendarFeed(feedId: string): Promise<void> {
+        const response = await fetch(`${this.apiUrl}/calendar_feeds?id=eq.${feedId}`, {
+            method: 'PATCH',
+            headers: this.getHeaders(),
+            body: JSON.stringify({ revoked_at: new Date().toISOString() })
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`Failed to revoke calendar feed (${response.status}): ${text}`);
+        }
+    }
+
     /**
      * NOTIFICATIONS
      */
@@ -0,0 +1,151 @@
+import { FormTemplate, InventoryItem, Protocol, SemanticDocKind, SemanticHit } from '../types';
+import { EMBEDDING_MODEL, embedTexts } from './LocalAIService';
+import { OfflineSyncService } from './OfflineSyncService';
+
+// ──────────────────────────────────────────────────────────────────────
+// SEMANTIC SEARCH — embedding index over protocols, form templates and
+// inventory items, kept in IndexedDB. Refreshes are incremental: a
+// document is only re-embedded when its text changes. Entries for
+// documents that no longer exist are harmless (callers map hits back to
+// the records they hold), so the index is never pruned wholesale.
+// ──────────────────────────────────────────────────────────────────────
+
+interface IndexEntry {
+    kind: SemanticDocKind;
+    id: string;
+    hash: string; // Hash of the document's full text when embedded
+    chunk: string;
+    vector: number[];
+}
+
+interface SemanticDoc {
+    kind: SemanticDocKind;
+    id: string;
+    text: string;
+}
+
+const INDEX_KEY = `semantic-index:${EMBEDDING_MODEL}`;
+const CHUNK_CHARS = 800;
+const EMBED_BATCH = 16;
+// nomic-embed-text similarities sit around 0.3 for unrelated text
+const MIN_SCORE = 0.5;
+
+let _entries: IndexEntry[] | null = null;
+let _syncChain: Promise<void> = Promise.resolve();
+
+// FNV-1a; only used to notice changed text
+function hashText(text: string): string {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16);
+}
+
+function stripHtml(html: string): string {
+    return html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Splits on paragraph/sentence boundaries into chunks of about CHUNK_CHARS
+function chunkText(text: string): string[] {
+    const pieces = text.split(/\n{2,}|(?<=[.!?])\s+/).map(p => p.trim()).filter(Boolean);
+    const chunks: string[] = [];
+    let current = '';
+    pieces.forEach(piece => {
+        if (current && current.length + piece.length > CHUNK_CHARS) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current} ${piece}` : piece;
+    });
+    if (current) chunks.push(current);
+    return chunks.length > 0 ? chunks : [text.slice(0, CHUNK_CHARS)];
+}
+
+function cosine(a: number[], b: number[]): number {
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        na += a[i] * a[i];
+        nb += b[i] * b[i];
+    }
+    return na === 0 || nb === 0 ? 0 : dot / Math.sqrt(na * nb);
+}
+
+async function loadEntries(): Promise<IndexEntry[]> {
+    if (!_entries) _entries = (await OfflineSyncService.cacheGet<IndexEntry[]>(INDEX_KEY)) || [];
+    return _entries;
+}
+
+function toDocs(protocols: Protocol[], templates: FormTemplate[], inventory: InventoryItem[]): SemanticDoc[] {
+    return [
+        ...protocols.map(p => ({ kind: 'protocol' as const, id: p.id, text: `${p.title}\n\n${p.area} ${p.type}\n\n${p.content}` })),
+        ...templates.map(t => ({ kind: 'form' as const, id: t.id, text: `${t.title}\n\n${stripHtml(t.content || '')}` })),
+        ...inventory.map(i => ({ kind: 'item' as const, id: i.id, text: `${i.name} — ${i.category}${i.sku ? ` (${i.sku})` : ''}` }))
+    ];
+}
+
+export const SemanticSearchService = {
+    /**
+     * Embeds new and changed documents. Calls are serialized, so it is safe
+     * to invoke on every data change.
+     */
+    refreshIndex(protocols: Protocol[], templates: FormTemplate[], inventory: InventoryItem[]): Promise<void> {
+        _syncChain = _syncChain.then(async () => {
+            const entries = await loadEntries();
+            const known = new Map<string, string>();
+            entries.forEach(e => known.set(`${e.kind}:${e.id}`, e.hash));
+
+            const changed = toDocs(protocols, templates, inventory)
+                .filter(doc => doc.text.trim())
+                .filter(doc => known.get(`${doc.kind}:${doc.id}`) !== hashText(doc.text));
+            if (changed.length === 0) return;
+
+            const pending = changed.flatMap(doc => chunkText(doc.text).map(chunk => ({ doc, chunk })));
+            const fresh: IndexEntry[] = [];
+            for (let i = 0; i < pending.length; i += EMBED_BATCH) {
+                const batch = pending.slice(i, i + EMBED_BATCH);
+                const vectors = await embedTexts(batch.map(p => p.chunk), 'document');
+                batch.forEach((p, j) => fresh.push({ kind: p.doc.kind, id: p.doc.id, hash: hashText(p.doc.text), chunk: p.chunk, vector: vectors[j] }));
+            }
+
+            const replaced = new Set(changed.map(doc => `${doc.kind}:${doc.id}`));
+            _entries = [...entries.filter(e => !replaced.has(`${e.kind}:${e.id}`)), ...fresh];
+            await OfflineSyncService.cachePut(INDEX_KEY, _entries);
+            console.log(`[SemanticSearch] Indexed ${changed.length} document(s), ${fresh.length} chunk(s)`);
+        }).catch(e => {
+            console.warn('[SemanticSearch] Index refresh failed (is the embed model loaded?)', e);
+        });
+        return _syncChain;
+    },
+
+    /**
+     * Best-matching documents for a free-text query, best first. Returns an
+     * empty list when the index is empty or the embed model is unreachable,
+     * so callers can fall back to substring search.
+     */
+    async search(query: string, kinds: SemanticDocKind[], limit = 10): Promise<SemanticHit[]> {
+        const entries = (await loadEntries()).filter(e => kinds.includes(e.kind));
+        if (!query.trim() || entries.length === 0) return [];
+
+        let queryVector: number[];
+        try {
+            [queryVector] = await embedTexts([query], 'query');
+        } catch (e) {
+            console.warn('[SemanticSearch] Query embedding failed', e);
+            return [];
+        }
+
+        const best = new Map<string, SemanticHit>();
+        entries.forEach(entry => {
+            const score = cosine(queryVector, entry.vector);
+            if (score < MIN_SCORE) return;
+            const key = `${entry.kind}:${entry.id}`;
+            if ((best.get(key)?.score ?? -1) < score) {
+                best.set(key, { kind: entry.kind, id: entry.id, score, snippet: entry.chunk });
+            }
+        });
+        return [...best.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+};
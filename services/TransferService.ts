@@ -0,0 +1,331 @@
+import { InventoryItem, StockTransfer, TransferLine, TransferStatus, DBStockTransfer } from '../types';
+import { InventoryService, itemMatchKey } from './InventoryService';
+import { planFefoDraw } from '../utils/lotUtils';
+
+// A claim older than this is taken to be abandoned (closed tab, lost connection)
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface TransferLocation {
+    id: string;
+    name: string;
+}
+
+/**
+ * Inter-location stock transfers: REQUESTED → SHIPPED → RECEIVED.
+ * Shipping is done from the source location and draws its lots FEFO;
+ * receiving is done at the destination and books each shipped lot into
+ * the destination's stock levels. Both first claim the transfer with an
+ * in-progress status (SHIPPING / RECEIVING) and only then move stock, one
+ * line at a time, flagging each line on the transfer as soon as it has
+ * moved. A shipment or receipt that stops part-way stays in its
+ * in-progress status and is resumed later, skipping the flagged lines.
+ */
+export class TransferService {
+    private static accessToken: string | null = null;
+    private static locationId: string | null = null;
+    private static apiUrl = import.meta.env.VITE_SUPABASE_URL + '/rest/v1';
+    private static apiKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    static setAccessToken(token: string) {
+        this.accessToken = token;
+    }
+
+    static setLocationId(id: string) {
+        this.locationId = id;
+    }
+
+    private static getHeaders() {
+        if (!this.accessToken) {
+            console.warn('[TransferService] ⚠️ No access token! Operations may fail.');
+        }
+        const headers: HeadersInit = {
+            'apikey': this.apiKey,
+            'Authorization': `Bearer ${this.accessToken || this.apiKey}`,
+            'Content-Type': 'application/json',
+            'Prefer': 'return=representation'
+        };
+        return headers;
+    }
+
+    private static mapTransfer(row: DBStockTransfer): StockTransfer {
+        return {
+            id: row.id,
+            fromLocationId: row.from_location_id,
+            toLocationId: row.to_location_id,
+            fromItemId: row.from_item_id || undefined,
+            toItemId: row.to_item_id || undefined,
+            itemName: row.item_name,
+            sku: row.sku || undefined,
+            unit: row.unit,
+            quantity: Number(row.quantity || 0),
+            status: row.status,
+            lines: row.lines || [],
+            notes: row.notes || undefined,
+            requestedBy: row.requested_by || undefined,
+            requestedAt: row.requested_at,
+            shippedAt: row.shipped_at || undefined,
+            receivedAt: row.received_at || undefined,
+            claimedAt: row.claimed_at || undefined
+        };
+    }
+
+    private static async patch(id: string, updates: Partial<DBStockTransfer>, expectedStatus: TransferStatus, guard = `status=eq.${expectedStatus}`): Promise<StockTransfer> {
+        // Status guard in the filter: only the request that finds the row in
+        // `expectedStatus` updates it, and everyone else gets zero rows back
+        const response = await fetch(`${this.apiUrl}/stock_transfers?id=eq.${id}&${guard}`, {
+            method: 'PATCH',
+            headers: this.getHeaders(),
+            body: JSON.stringify(updates)
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`Transfer update failed (${response.status}): ${text}`);
+        }
+        const rows = await response.json();
+        if (!rows || rows.length === 0) {
+            throw new Error(`Transfer is no longer ${expectedStatus}`);
+        }
+        return this.mapTransfer(rows[0]);
+    }
+
+    /**
+     * Whether an in-progress transfer can be picked up again: it stopped
+     * part-way, or whoever claimed it has not finished within the timeout.
+     */
+    static isResumable(transfer: Pick<StockTransfer, 'status' | 'claimedAt'>): boolean {
+        if (transfer.status !== 'SHIPPING' && transfer.status !== 'RECEIVING') return false;
+        return !transfer.claimedAt || Date.now() - new Date(transfer.claimedAt).getTime() > CLAIM_TIMEOUT_MS;
+    }
+
+    /**
+     * Moves the transfer from `from` to `claimed`, or takes over a `claimed`
+     * transfer that is resumable. Decided by the database in one update, so
+     * only one caller wins even when the client's copy is out of date.
+     */
+    private static async claim(id: string, from: TransferStatus, claimed: TransferStatus): Promise<StockTransfer> {
+        const cutoff = new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString();
+        const guard = `or=(status.eq.${from},and(status.eq.${claimed},or(claimed_at.is.null,claimed_at.lt."${cutoff}")))`;
+        return this.patch(id, { status: claimed, claimed_at: new Date().toISOString() }, from, guard);
+    }
+
+    /**
+     * Lets go of a claim after a failure. With no stock moved the transfer
+     * goes back to `from`; otherwise it stays `claimed` so it can only be
+     * resumed, never cancelled or started over.
+     */
+    private static async release(id: string, moved: boolean, from: TransferStatus, claimed: TransferStatus, reset: Partial<DBStockTransfer> = {}): Promise<void> {
+        const updates: Partial<DBStockTransfer> = moved ? { claimed_at: null } : { ...reset, status: from, claimed_at: null };
+        await this.patch(id, updates, claimed).catch(error =>
+            console.error('[TransferService] Could not release transfer claim:', error));
+    }
+
+    /**
+     * The item with its lots as stored now. Used when resuming, since lines
+     * moved by the interrupted attempt are not in the caller's copy.
+     */
+    private static async withCurrentLots(item: InventoryItem): Promise<InventoryItem> {
+        const lots = (await InventoryService.fetchLots()).get(item.id) || [];
+        return { ...item, lots };
+    }
+
+    /**
+     * Finds the local catalog row for a transferred product (same SKU, else same name).
+     */
+    static findMatchingItem(items: InventoryItem[], transfer: Pick<StockTransfer, 'sku' | 'itemName'>): InventoryItem | undefined {
+        const key = itemMatchKey(transfer.sku, transfer.itemName);
+        return items.find(i => itemMatchKey(i.sku, i.name) === key);
+    }
+
+    static async fetchLocations(organizationId: string): Promise<TransferLocation[]> {
+        try {
+            const response = await fetch(
+                `${this.apiUrl}/clinic_locations?select=id,name&organization_id=eq.${organizationId}&is_active=eq.true&order=name.asc`,
+                { headers: this.getHeaders() }
+            );
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+            return await response.json();
+        } catch (error) {
+            console.error('[TransferService] Location fetch failed:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Transfers going out of or coming into the current location, newest first.
+     */
+    static async fetchAll(): Promise<StockTransfer[]> {
+        try {
+            if (!this.accessToken || !this.locationId) return [];
+
+            const response = await fetch(
+                `${this.apiUrl}/stock_transfers?select=*&or=(from_location_id.eq.${this.locationId},to_location_id.eq.${this.locationId})&order=requested_at.desc`,
+                { headers: this.getHeaders() }
+            );
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+            const data: DBStockTransfer[] = await response.json();
+            return (data || []).map(row => this.mapTransfer(row));
+        } catch (error) {
+            console.error('[TransferService] Fetch failed:', error);
+            return [];
+        }
+    }
+
+    /**
+     * The current location asks `fromLocationId` to send `quantity` of `item`.
+     */
+    static async requestTransfer(
+        request: { fromLocationId: string; item: InventoryItem; quantity: number; notes?: string },
+        userId: string,
+        organizationId: string | null
+    ): Promise<StockTransfer> {
+        if (!this.locationId) throw new Error('No active location');
+        if (request.fromLocationId === this.locationId) throw new Error('Source and destination must differ');
+        if (!(request.quantity > 0)) throw new Error('Quantity must be greater than zero');
+
+        const response = await fetch(`${this.apiUrl}/stock_transfers`, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: JSON.stringify({
+                organization_id: organizationId,
+                from_location_id: request.fromLocationId,
+                to_location_id: this.locationId,
+                to_item_id: request.item.id,
+                item_name: request.item.name,
+                sku: request.item.sku || null,
+                unit: request.item.unit,
+                quantity: request.quantity,
+                status: 'REQUESTED',
+                notes: request.notes || null,
+                requested_by: userId,
+                requested_at: new Date().toISOString()
+            })
+        });
+        if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`Transfer request failed (${response.status}): ${text}`);
+        }
+        const [row] = await response.json();
+        return this.mapTransfer(row);
+    }
+
+    /**
+     * Ships a requested transfer from the current (source) location, or
+     * resumes one that stopped part-way. Stock leaves First-Expired-First-Out;
+     * the lots to draw are fixed on the transfer before any stock moves and
+     * travel with it.
+     */
+    static async shipTransfer(transfer: StockTransfer, sourceItem: InventoryItem): Promise<{ transfer: StockTransfer; item: InventoryItem }> {
+        if (transfer.status !== 'REQUESTED' && !this.isResumable(transfer)) throw new Error(`Cannot ship a ${transfer.status} transfer`);
+        if (transfer.fromLocationId !== this.locationId) throw new Error('Transfers can only be shipped from the source location');
+
+        const claimed = await this.claim(transfer.id, 'REQUESTED', 'SHIPPING');
+        let lines = claimed.lines;
+        let item = sourceItem;
+        try {
+            if (lines.length > 0) {
+                item = await this.withCurrentLots(sourceItem);
+            } else {
+                if (item.stock < claimed.quantity) {
+                    throw new Error(`Only ${item.stock} ${item.unit} of ${item.name} on hand`);
+                }
+                lines = item.lots && item.lots.length > 0
+                    ? planFefoDraw(item.lots, claimed.quantity).draws.map(d => ({
+                        lotNumber: d.lotNumber,
+                        expiryDate: item.lots?.find(l => l.stockLevelId === d.stockLevelId)?.expiryDate || '',
+                        quantity: d.quantity,
+                        stockLevelId: d.stockLevelId
+                    }))
+                    : [{ lotNumber: item.batchNumber || 'UNTRACKED', expiryDate: item.expiryDate || '', quantity: claimed.quantity }];
+                await this.patch(transfer.id, { lines, from_item_id: item.id }, 'SHIPPING');
+            }
+
+            for (let index = 0; index < lines.length; index++) {
+                const line = lines[index];
+                if (line.shipped) continue;
+                item = line.stockLevelId
+                    ? await InventoryService.drawLot(item, line.stockLevelId, line.quantity)
+                    : (await InventoryService.consumeFEFO(item, line.quantity)).item;
+                lines = lines.map((l, i) => i === index ? { ...l, shipped: true } : l);
+                await this.patch(transfer.id, { lines }, 'SHIPPING');
+            }
+
+            const updated = await this.patch(transfer.id, {
+                status: 'SHIPPED',
+                claimed_at: null,
+                shipped_at: new Date().toISOString()
+            }, 'SHIPPING');
+            return { transfer: updated, item };
+        } catch (error) {
+            await this.release(transfer.id, lines.some(l => l.shipped), 'REQUESTED', 'SHIPPING', { lines: [] });
+            throw error;
+        }
+    }
+
+    /**
+     * Receives a shipped transfer at the current (destination) location, or
+     * resumes one that stopped part-way. Creates the catalog item here if
+     * this location has never stocked it.
+     */
+    static async receiveTransfer(transfer: StockTransfer, destinationItem: InventoryItem | undefined): Promise<{ transfer: StockTransfer; item: InventoryItem; created: boolean }> {
+        if (transfer.status !== 'SHIPPED' && !this.isResumable(transfer)) throw new Error(`Cannot receive a ${transfer.status} transfer`);
+        if (transfer.toLocationId !== this.locationId) throw new Error('Transfers can only be received at the destination location');
+
+        const claimed = await this.claim(transfer.id, 'SHIPPED', 'RECEIVING');
+        let lines = claimed.lines;
+        let created = false;
+        try {
+            // An interrupted receipt may have created the item without it reaching the caller
+            let item = destinationItem;
+            if (!item && claimed.toItemId) {
+                const stored = await InventoryService.findByName(claimed.itemName);
+                if (stored?.id === claimed.toItemId) item = stored;
+            }
+            if (!item) {
+                const newItem = await InventoryService.createItem({
+                    name: claimed.itemName,
+                    sku: claimed.sku,
+                    unit: claimed.unit,
+                    stock: 0
+                });
+                if (!newItem) throw new Error('Failed to create destination item');
+                item = newItem;
+                created = true;
+                await this.patch(transfer.id, { to_item_id: item.id }, 'RECEIVING');
+            } else if (lines.some(l => l.received)) {
+                item = await this.withCurrentLots(item);
+            }
+
+            for (let index = 0; index < lines.length; index++) {
+                const line = lines[index];
+                if (line.received) continue;
+                item = await InventoryService.receiveLot(item, {
+                    lotNumber: line.lotNumber,
+                    expiryDate: line.expiryDate,
+                    quantity: line.quantity
+                });
+                lines = lines.map((l, i) => i === index ? { ...l, received: true } : l);
+                await this.patch(transfer.id, { lines }, 'RECEIVING');
+            }
+
+            const updated = await this.patch(transfer.id, {
+                status: 'RECEIVED',
+                to_item_id: item.id,
+                claimed_at: null,
+                received_at: new Date().toISOString()
+            }, 'RECEIVING');
+            return { transfer: updated, item, created };
+        } catch (error) {
+            await this.release(transfer.id, lines.some(l => l.received), 'SHIPPED', 'RECEIVING');
+            throw error;
+        }
+    }
+
+    /**
+     * Cancels a transfer that has not shipped yet.
+     */
+    static async cancelTransfer(transfer: StockTransfer): Promise<StockTransfer> {
+        if (transfer.status !== 'REQUESTED') throw new Error(`Cannot cancel a ${transfer.status} transfer`);
+        return this.patch(transfer.id, { status: 'CANCELLED' }, 'REQUESTED');
+    }
+}
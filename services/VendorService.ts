@@ -0,0 +1,128 @@
+import { Vendor, DBVendor } from '../types';
+
+export class VendorService {
+    private static accessToken: string | null = null;
+    private static locationId: string | null = null;
+    private static apiUrl = import.meta.env.VITE_SUPABASE_URL + '/rest/v1';
+    private static apiKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    static setAccessToken(token: string) {
+        this.accessToken = token;
+    }
+
+    static setLocationId(id: string) {
+        this.locationId = id;
+    }
+
+    private static getHeaders() {
+        if (!this.accessToken) {
+            console.warn('[VendorService] ⚠️ No access token! Operations may fail.');
+        }
+        const headers: HeadersInit = {
+            'apikey': this.apiKey,
+            'Authorization': `Bearer ${this.accessToken || this.apiKey}`,
+            'Content-Type': 'application/json',
+            'Prefer': 'return=representation'
+        };
+        return headers;
+    }
+
+    private static mapVendor(row: DBVendor): Vendor {
+        return {
+            id: row.id,
+            name: row.name,
+            contactName: row.contact_name || undefined,
+            email: row.email || undefined,
+            phone: row.phone || undefined,
+            address: row.address || undefined,
+            website: row.website || undefined,
+            accountNumber: row.account_number || undefined,
+            defaultLeadTimeDays: row.default_lead_time_days ?? undefined,
+            paymentTerms: row.payment_terms || undefined,
+            logoUrl: row.logo_url || undefined,
+            notes: row.notes || undefined,
+            isActive: row.is_active !== false
+        };
+    }
+
+    private static toDb(vendor: Partial<Vendor>): Partial<DBVendor> {
+        const db: Partial<DBVendor> = {};
+        if (vendor.name !== undefined) db.name = vendor.name.trim();
+        if (vendor.contactName !== undefined) db.contact_name = vendor.contactName || null;
+        if (vendor.email !== undefined) db.email = vendor.email || null;
+        if (vendor.phone !== undefined) db.phone = vendor.phone || null;
+        if (vendor.address !== undefined) db.address = vendor.address || null;
+        if (vendor.website !== undefined) db.website = vendor.website || null;
+        if (vendor.accountNumber !== undefined) db.account_number = vendor.accountNumber || null;
+        if (vendor.defaultLeadTimeDays !== undefined) db.default_lead_time_days = vendor.defaultLeadTimeDays ?? null;
+        if (vendor.paymentTerms !== undefined) db.payment_terms = vendor.paymentTerms || null;
+        if (vendor.logoUrl !== undefined) db.logo_url = vendor.logoUrl || null;
+        if (vendor.notes !== undefined) db.notes = vendor.notes || null;
+        if (vendor.isActive !== undefined) db.is_active = vendor.isActive;
+        return db;
+    }
+
+    static async fetchAll(): Promise<Vendor[]> {
+        try {
+            if (!this.accessToken) return [];
+
+            const locFilter = this.locationId ? `&location_id=eq.${this.locationId}` : '';
+            const response = await fetch(`${this.apiUrl}/vendors?select=*&order=name.asc${locFilter}`, {
+                headers: this.getHeaders()
+            });
+            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+            const data: DBVendor[] = await response.json();
+            return (data || []).map(row => this.mapVendor(row));
+        } catch (error) {
+            console.error('[VendorService] Fetch failed:', error);
+            return [];
+        }
+    }
+
+    static async createVendor(vendor: Omit<Vendor, 'id'>): Promise<Vendor> {
+        try {
+            const response = await fetch(`${this.apiUrl}/vendors`, {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({ ...this.toDb(vendor), location_id: this.locationId })
+            });
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to create vendor (${response.status}): ${text}`);
+            }
+            const [row] = await response.json();
+            return this.mapVendor(row);
+        } catch (error) {
+            console.error('[VendorService] Create failed:', error);
+            throw error;
+        }
+    }
+
+    static async updateVendor(id: string, updates: Partial<Vendor>): Promise<Vendor> {
+        try {
+            const response = await fetch(`${this.apiUrl}/vendors?id=eq.${id}`, {
+                method: 'PATCH',
+                headers: this.getHeaders(),
+                body: JSON.stringify({ ...this.toDb(updates), updated_at: new Date().toISOString() })
+            });
+            if (!response.ok) {
+                const text = await response.text();
+                throw new Error(`Failed to update vendor (${response.status}): ${text}`);
+            }
+            const [row] = await response.json();
+            return this.mapVendor(row);
+        } catch (error) {
+            console.error('[VendorService] Update failed:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Vendors are archived rather than deleted so historical orders and
+     * budgets keep resolving their vendor.
+     */
+    static async archiveVendor(id: string): Promise<Vendor> {
+        return this.updateVendor(id, { isActive: false });
+    }
+}
@@ -0,0 +1,149 @@
+import React from 'react';
+import type { NoteDiagnosis } from '@/services/ClinicalReviewService';
+import { findIcd10, searchIcd10, validateIcd10 } from '@/utils/icd10';
+
+interface DiagnosisCodePickerProps {
+  diagnoses: NoteDiagnosis[];
+  onChange: (diagnoses: NoteDiagnosis[]) => void;
+}
+
+const codeLabel = (code: string) => {
+  const entry = findIcd10(code);
+  return entry ? `${code} — ${entry.description}` : `${code} (not in local table)`;
+};
+
+const DiagnosisRow: React.FC<{ diagnosis: NoteDiagnosis; onChange: (d: NoteDiagnosis) => void }> = ({ diagnosis, onChange }) => {
+  const [searching, setSearching] = React.useState(false);
+  const [query, setQuery] = React.useState('');
+  const validation = diagnosis.code ? validateIcd10(diagnosis.code) : null;
+  const results = React.useMemo(() => searching ? searchIcd10(query || diagnosis.description, 8) : [], [searching, query, diagnosis.description]);
+
+  // Picking a different code always needs a fresh confirmation
+  const select = (code: string) => {
+    onChange({
+      ...diagnosis,
+      code,
+      confirmed: false,
+      candidates: diagnosis.candidates.includes(code) ? diagnosis.candidates : [...diagnosis.candidates, code],
+    });
+    setSearching(false);
+    setQuery('');
+  };
+
+  return (
+    <div className={`p-3 space-y-2 ${diagnosis.confirmed ? 'bg-emerald-50/50 dark:bg-emerald-900/10' : ''}`}>
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm font-bold text-gray-800 dark:text-gray-100">{diagnosis.description}</p>
+        {diagnosis.confirmed && (
+          <span className="shrink-0 text-[10px] font-bold uppercase tracking-wide text-emerald-600"><i className="fa-solid fa-circle-check mr-1"></i>Confirmed</span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          value={diagnosis.code}
+          onChange={(e) => select(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1.5 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-xs font-mono text-gray-700 dark:text-gray-200"
+        >
+          {!diagnosis.code && <option value="">No valid code — search below</option>}
+          {diagnosis.candidates.map(code => <option key={code} value={code}>{codeLabel(code)}</option>)}
+        </select>
+        <button
+          onClick={() => setSearching(!searching)}
+          className={`w-8 h-8 shrink-0 rounded-lg flex items-center justify-center text-xs transition-colors ${searching ? 'bg-teal-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-500 hover:text-teal-600'}`}
+          title="Search the ICD-10-CM table"
+        >
+          <i className="fa-solid fa-magnifying-glass"></i>
+        </button>
+        <button
+          onClick={() => onChange({ ...diagnosis, confirmed: !diagnosis.confirmed })}
+          disabled={!diagnosis.code || validation?.status === 'invalid'}
+          className={`px-3 h-8 shrink-0 rounded-lg text-xs font-bold transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${diagnosis.confirmed ? 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300' : 'bg-emerald-600 text-white hover:bg-emerald-500'}`}
+        >
+          {diagnosis.confirmed ? 'Undo' : 'Confirm'}
+        </button>
+      </div>
+
+      {searching && (
+        <div className="rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 overflow-hidden">
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={`Code or words, e.g. "${diagnosis.description.split(/[ ,]/)[0]}"`}
+            className="w-full px-3 py-2 text-xs bg-transparent border-b border-gray-100 dark:border-gray-700 outline-none text-gray-700 dark:text-gray-200"
+          />
+          <div className="max-h-48 overflow-y-auto">
+            {results.length === 0 && <p className="px-3 py-2 text-xs text-gray-400">No matches in the local table</p>}
+            {results.map(entry => (
+              <button
+                key={entry.code}
+                onClick={() => entry.billable && select(entry.code)}
+                disabled={!entry.billable}
+                className="w-full text-left px-3 py-1.5 text-xs flex gap-2 hover:bg-teal-50 dark:hover:bg-teal-900/20 disabled:hover:bg-transparent disabled:text-gray-400"
+                title={entry.billable ? undefined : 'Category header — not billable'}
+              >
+                <span className="font-mono font-bold w-16 shrink-0">{entry.code}</span>
+                <span className="text-gray-600 dark:text-gray-300">{entry.description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {validation && (validation.errors.length > 0 || validation.warnings.length > 0) && (
+        <div className="space-y-1">
+          {validation.errors.map((msg, i) => (
+            <p key={`e${i}`} className="text-[11px] text-red-600 dark:text-red-400"><i className="fa-solid fa-circle-xmark mr-1"></i>{msg}</p>
+          ))}
+          {validation.warnings.map((msg, i) => (
+            <p key={`w${i}`} className="text-[11px] text-amber-600 dark:text-amber-400"><i className="fa-solid fa-triangle-exclamation mr-1"></i>{msg}</p>
+          ))}
+          {validation.suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 pt-1">
+              {validation.suggestions.map(s => (
+                <button
+                  key={s.code}
+                  onClick={() => select(s.code)}
+                  className="px-2 py-0.5 rounded-md bg-gray-100 dark:bg-gray-700 text-[11px] text-gray-600 dark:text-gray-300 hover:bg-teal-50 hover:text-teal-700"
+                  title={s.description}
+                >
+                  <span className="font-mono font-bold">{s.code}</span> {s.description.length > 40 ? `${s.description.slice(0, 40)}…` : s.description}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DiagnosisCodePicker: React.FC<DiagnosisCodePickerProps> = ({ diagnoses, onChange }) => {
+  if (diagnoses.length === 0) return null;
+  const confirmed = diagnoses.filter(d => d.confirmed).length;
+
+  return (
+    <div className="rounded-xl border border-amber-200 dark:border-amber-800 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 bg-amber-50/50 dark:bg-amber-900/20 border-b border-inherit">
+        <h4 className="text-[11px] font-black uppercase tracking-widest text-gray-600 dark:text-gray-300 flex items-center gap-2">
+          <i className="fa-solid fa-barcode"></i>ICD-10-CM Codes
+        </h4>
+        <span className={`text-[10px] font-bold ${confirmed === diagnoses.length ? 'text-emerald-600' : 'text-amber-600'}`}>
+          {confirmed}/{diagnoses.length} confirmed
+        </span>
+      </div>
+      <div className="divide-y divide-gray-100 dark:divide-gray-700/60 bg-white/50 dark:bg-gray-800/30">
+        {diagnoses.map((diagnosis, i) => (
+          <DiagnosisRow
+            key={i}
+            diagnosis={diagnosis}
+            onChange={(next) => onChange(diagnoses.map((d, j) => j === i ? next : d))}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DiagnosisCodePicker;
@@ -3,6 +3,7 @@ import { DictationProtocolService } from '@/services/DictationProtocolService';
 import { DictationProtocol, InventoryItem } from '@/types';
 import { useInventory } from '@/contexts/InventoryContext';
 import { useAppData } from '@/contexts/AppDataContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { InventoryService } from '@/services/InventoryService';
 
 interface InventoryDeductionWidgetProps {
@@ -14,6 +15,7 @@ interface InventoryDeductionWidgetProps {
 const InventoryDeductionWidget: React.FC<InventoryDeductionWidgetProps> = ({ procedures, hasDeducted, onDeducted }) => {
     const { inventory, setInventory } = useInventory();
     const { addLog } = useAppData();
+    const { user } = useAuth();
     const [protocols, setProtocols] = useState<DictationProtocol[]>([]);
     const [matchedProtocols, setMatchedProtocols] = useState<DictationProtocol[]>([]);
     const [isDeducting, setIsDeducting] = useState(false);
@@ -78,14 +80,23 @@ const InventoryDeductionWidget: React.FC<InventoryDeductionWidgetProps> = ({ pro
             // Deduct each item sequentially
             for (const deduction of allDeductions) {
                 const invItem = inventory.find(i => i.id === deduction.inventoryItemId);
-                if (invItem && invItem.stock >= deduction.totalQuantity) {
-                    const newStock = invItem.stock - deduction.totalQuantity;
-                    await InventoryService.updateItem(invItem.id, { stock: newStock });
-                    setInventory(prev => prev.map(i => i.id === invItem.id ? { ...i, stock: newStock } : i));
-                } else if (invItem) {
-                     // Deduct whatever is left
-                     await InventoryService.updateItem(invItem.id, { stock: 0 });
-                     setInventory(prev => prev.map(i => i.id === invItem.id ? { ...i, stock: 0 } : i));
+                if (!invItem) continue;
+
+                // Draws from the first-expiring lot first; deducts whatever is left
+                // if the protocol asks for more than we have
+                const { item: updated, draws } = await InventoryService.consumeFEFO(invItem, deduction.totalQuantity);
+                const newStock = updated.stock;
+                setInventory(prev => prev.map(i => i.id === invItem.id ? updated : i));
+
+                // Server-side CONSUMED log feeds the Intelligence Engine burn rate
+                if (user?.id) {
+                    await InventoryService.logAction(user.id, 'CONSUMED', invItem.id, {
+                        quantity: invItem.stock - newStock,
+                        previous_stock: invItem.stock,
+                        new_stock: newStock,
+                        lots: draws.map(d => ({ lot_number: d.lotNumber, quantity: d.quantity })),
+                        source: 'dictation_protocol'
+                    });
                 }
             }
 
@@ -1,10 +1,13 @@
 
 import React, { forwardRef } from 'react';
 import { useMedicalDictation } from '../../hooks/useMedicalDictation';
-import { generateStructuredNote, type StructuredNote } from '@/services/ClinicalReviewService';
+import { applyDiagnosisCodes, generateStructuredNote, type StructuredNote } from '@/services/ClinicalReviewService';
+import type { MDMLevel, MDMResult } from '@/utils/mdmEngine';
 import { playStartCue, playStopCue } from '@/services/audioService';
 import AudioVisualizer from './AudioVisualizer';
 import InventoryDeductionWidget from './InventoryDeductionWidget';
+import SuperbillSheet from './SuperbillSheet';
+import DiagnosisCodePicker from './DiagnosisCodePicker';
 
 interface SmartDictationInputProps {
   value: string;
@@ -44,6 +47,20 @@ function NoteCard({ title, icon, content, color }: { title: string; icon: string
   );
 }
 
+// ─── MDM Breakdown ──────────────────────────────────────────────────────────
+const MDM_ELEMENTS: { key: keyof MDMResult['breakdown']; label: string }[] = [
+  { key: 'problems', label: 'Problems' },
+  { key: 'data', label: 'Data' },
+  { key: 'risk', label: 'Risk' },
+];
+
+const MDM_LEVEL_COLORS: Record<MDMLevel, string> = {
+  straightforward: 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  low: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  moderate: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  high: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+};
+
 // ─── Main Component ─────────────────────────────────────────────────────────
 const SmartDictationInput = forwardRef<HTMLTextAreaElement, SmartDictationInputProps>(({
   value, onChange, label,
@@ -97,6 +114,9 @@ const SmartDictationInput = forwardRef<HTMLTextAreaElement, SmartDictationInputP
   const handleUndo = () => { if (lastValue !== null) { onChange(lastValue); setLastValue(null); setShowUndo(false); } };
   const formatTime = (s: number) => `${Math.floor(s/60)}:${s%60 < 10 ? '0' : ''}${s%60}`;
 
+  const cptDisagrees = !!structuredNote?.mdm && !!structuredNote.llmSuggestedCPT
+    && !structuredNote.llmSuggestedCPT.includes(structuredNote.suggestedCPT);
+
   const getCPTColor = (cpt: string) => {
     if (cpt?.includes('99215') || cpt?.includes('99205')) return 'bg-red-500';
     if (cpt?.includes('99214') || cpt?.includes('99204')) return 'bg-amber-500';
@@ -184,8 +204,10 @@ const SmartDictationInput = forwardRef<HTMLTextAreaElement, SmartDictationInputP
                 </div>
               </div>
               <div className="flex items-center gap-2">
-                {structuredNote && (
-                  <div className={`${getCPTColor(structuredNote.suggestedCPT)} text-white px-2.5 py-1 rounded-lg shadow-md`}>
+                {structuredNote?.suggestedCPT && (
+                  <div className={`${getCPTColor(structuredNote.suggestedCPT)} text-white px-2.5 py-1 rounded-lg shadow-md flex items-center gap-1.5`}
+                    title={cptDisagrees ? `LLM suggested ${structuredNote.llmSuggestedCPT}` : undefined}>
+                    {cptDisagrees && <i className="fa-solid fa-triangle-exclamation text-[10px]"></i>}
                     <span className="text-xs font-black">{structuredNote.suggestedCPT}</span>
                   </div>
                 )}
@@ -225,6 +247,12 @@ const SmartDictationInput = forwardRef<HTMLTextAreaElement, SmartDictationInputP
                   <NoteCard title="Chief Complaint" icon="fa-comment-medical" content={structuredNote.chiefComplaint} color="blue" />
                   <NoteCard title="History of Present Illness" icon="fa-notes-medical" content={structuredNote.hpi} color="teal" />
                   <NoteCard title="Assessment / Diagnoses" icon="fa-stethoscope" content={structuredNote.diagnoses} color="amber" />
+                  {structuredNote.diagnosisCodes && (
+                    <DiagnosisCodePicker
+                      diagnoses={structuredNote.diagnosisCodes}
+                      onChange={(codes) => setStructuredNote(applyDiagnosisCodes(structuredNote, codes))}
+                    />
+                  )}
                   <NoteCard title="Plan" icon="fa-clipboard-list" content={structuredNote.plan} color="purple" />
 
                   {/* Conduct Alerts */}
@@ -268,12 +296,91 @@ const SmartDictationInput = forwardRef<HTMLTextAreaElement, SmartDictationInputP
                     </div>
                   )}
 
-                  {/* MDM Level */}
-                  <div className="p-3 rounded-xl bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 flex items-center gap-3">
-                    <span className={`${getCPTColor(structuredNote.suggestedCPT)} text-white text-xs font-black px-2.5 py-1 rounded-lg`}>
-                      {structuredNote.suggestedCPT}
-                    </span>
-                    <span className="text-xs text-gray-600 dark:text-gray-300">{structuredNote.mdmLevel}</span>
+                  {/* MDM Level — scored by utils/mdmEngine from the extracted clinical data */}
+                  <div className="rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 overflow-hidden">
+                    <div className="p-3 flex items-center gap-3">
+                      <span className={`${getCPTColor(structuredNote.suggestedCPT)} text-white text-xs font-black px-2.5 py-1 rounded-lg`}>
+                        {structuredNote.suggestedCPT}
+                      </span>
+                      {structuredNote.mdm?.addOns.map(addOn => (
+                        <span key={addOn.code} className="bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 text-xs font-black px-2 py-1 rounded-lg" title={addOn.description}>
+                          +{addOn.code}{addOn.units > 1 ? ` ×${addOn.units}` : ''}
+                        </span>
+                      ))}
+                      <span className="text-xs text-gray-600 dark:text-gray-300">
+                        {structuredNote.mdm ? structuredNote.mdm.cptDescription : structuredNote.mdmLevel}
+                      </span>
+                      {structuredNote.mdm ? (
+                        <span className="ml-auto text-[10px] font-bold uppercase tracking-wide text-teal-600 dark:text-teal-400">
+                          <i className={`fa-solid ${structuredNote.mdm.method === 'time' ? 'fa-clock' : 'fa-scale-balanced'} mr-1`}></i>
+                          {structuredNote.mdm.method === 'time' ? 'By time' : 'By MDM'}
+                        </span>
+                      ) : (
+                        <span className="ml-auto text-[10px] font-bold uppercase tracking-wide text-gray-400">Not rule-scored</span>
+                      )}
+                    </div>
+
+                    {structuredNote.mdm && (
+                      <p className="px-3 pb-3 text-[11px] text-gray-500 dark:text-gray-400">{structuredNote.mdm.rationale}</p>
+                    )}
+
+                    {cptDisagrees && (
+                      <div className="mx-3 mb-3 p-2.5 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 flex items-start gap-2">
+                        <i className="fa-solid fa-triangle-exclamation text-amber-500 mt-0.5 text-xs shrink-0"></i>
+                        <div className="text-[11px] text-amber-800 dark:text-amber-300">
+                          <p>
+                            <strong>Coding disagreement:</strong> the AI suggested <span className="font-mono font-bold">{structuredNote.llmSuggestedCPT}</span>,
+                            but the documented elements score <span className="font-mono font-bold">{structuredNote.suggestedCPT}</span>. The scored level is used — review the breakdown below.
+                          </p>
+                          {structuredNote.llmMdmRationale && <p className="mt-1 italic text-amber-700/80 dark:text-amber-400/80">AI rationale: {structuredNote.llmMdmRationale}</p>}
+                        </div>
+                      </div>
+                    )}
+
+                    {structuredNote.mdm && (
+                      <div className="border-t border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700/60">
+                        {MDM_ELEMENTS.map(({ key, label }) => {
+                          const element = structuredNote.mdm!.breakdown[key];
+                          return (
+                            <div key={key} className="px-3 py-2 flex items-start gap-3">
+                              <span className="w-16 shrink-0 text-[10px] font-black uppercase tracking-widest text-gray-500 dark:text-gray-400 mt-0.5">{label}</span>
+                              <span className={`shrink-0 text-[10px] font-bold uppercase px-2 py-0.5 rounded ${MDM_LEVEL_COLORS[element.level]}`}>{element.level}</span>
+                              <span className="text-xs text-gray-600 dark:text-gray-300">{element.reasoning}</span>
+                            </div>
+                          );
+                        })}
+                        {structuredNote.mdm.time && (
+                          <div className="px-3 py-2 flex items-start gap-3">
+                            <span className="w-16 shrink-0 text-[10px] font-black uppercase tracking-widest text-gray-500 dark:text-gray-400 mt-0.5">Time</span>
+                            <span className={`shrink-0 text-[10px] font-bold uppercase px-2 py-0.5 rounded ${MDM_LEVEL_COLORS[structuredNote.mdm.time.level ?? 'straightforward']}`}>
+                              {structuredNote.mdm.time.cptCode ?? 'n/a'}
+                            </span>
+                            <span className="text-xs text-gray-600 dark:text-gray-300">{structuredNote.mdm.time.reasoning}</span>
+                          </div>
+                        )}
+                        {structuredNote.mdm.addOns.map(addOn => (
+                          <div key={addOn.code} className="px-3 py-2 flex items-start gap-3">
+                            <span className="w-16 shrink-0 text-[10px] font-black uppercase tracking-widest text-gray-500 dark:text-gray-400 mt-0.5">Add-on</span>
+                            <span className="shrink-0 text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300">{addOn.code} ×{addOn.units}</span>
+                            <span className="text-xs text-gray-600 dark:text-gray-300">{addOn.description}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {structuredNote.mdm && structuredNote.mdm.gaps.length > 0 && (
+                      <div className="border-t border-gray-200 dark:border-gray-700 p-3 space-y-1.5">
+                        <p className="text-[10px] font-black uppercase tracking-widest text-gray-500 dark:text-gray-400">
+                          Documentation gaps → {structuredNote.mdm.gaps[0].targetCPT}
+                        </p>
+                        {structuredNote.mdm.gaps.map(gap => (
+                          <div key={gap.element} className="flex items-start gap-2 text-xs text-gray-600 dark:text-gray-300">
+                            <i className="fa-solid fa-circle-arrow-up text-teal-500 mt-0.5 text-[10px] shrink-0"></i>
+                            <span><strong className="capitalize">{gap.element}</strong> ({gap.currentLevel} → {gap.targetLevel}): {gap.suggestion}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   {/* Inventory Deduction Widget */}
@@ -284,6 +391,9 @@ const SmartDictationInput = forwardRef<HTMLTextAreaElement, SmartDictationInputP
                           onDeducted={() => setHasDeducted(true)}
                       />
                   )}
+
+                  {/* Superbill — only once the note is complete and rule-scored */}
+                  {structuredNote.mdm && <SuperbillSheet note={structuredNote} />}
                 </>
               ) : (
                 <div className="flex flex-col items-center justify-center py-12 text-gray-400 max-w-sm mx-auto text-center">
@@ -0,0 +1,206 @@
+import React from 'react';
+import * as XLSX from 'xlsx';
+import type { StructuredNote } from '@/services/ClinicalReviewService';
+import type { Superbill, SuperbillPayer } from '@/types';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAppData } from '@/contexts/AppDataContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { buildSuperbill, superbillToRows } from '@/utils/superbill';
+import { sortPayers } from '@/utils/payers';
+
+interface SuperbillSheetProps {
+  note: StructuredNote;
+}
+
+const PAYER_LABELS: Record<SuperbillPayer, string> = {
+  insurance: 'Insurance',
+  client: 'Bill to Client',
+  patient: 'Patient',
+};
+
+const formatMoney = (n: number | undefined) => n === undefined ? '—' : `$${n.toFixed(2)}`;
+
+const SuperbillSheet: React.FC<SuperbillSheetProps> = ({ note }) => {
+  const { codes, codeGroups, prices } = useInventory();
+  const { billingRules, payers, addLog } = useAppData();
+  const { user } = useAuth();
+  const [insurer, setInsurer] = React.useState('');
+  const [bill, setBill] = React.useState<Superbill | null>(null);
+  const sheetRef = React.useRef<HTMLDivElement>(null);
+
+  const insurers = React.useMemo(() => sortPayers(payers).filter(p => p.isActive && p.type !== 'SELF_PAY'), [payers]);
+
+  const handleSign = () => {
+    const signedBy = user?.username || 'Provider';
+    const insurerAliases = insurers.find(p => p.name === insurer)?.aliases;
+    const created = buildSuperbill(note, { codes, codeGroups, billingRules, prices }, { insurer: insurer || null, insurerAliases, signedBy });
+    setBill(created);
+    const codesSummary = created.lines.map(l => [l.code, ...l.modifiers].join('-')).join(', ');
+    addLog('SUPERBILL_CREATED', `Superbill (${created.insurer || 'Self-Pay'}): ${codesSummary || 'no charges'}`, signedBy, {
+      entityType: 'superbill',
+      entityId: created.id,
+      after: { insurer: created.insurer, lines: created.lines.length, codes: codesSummary, selfPayTotal: created.selfPayTotal },
+    });
+  };
+
+  const fileStem = bill ? `Superbill_${bill.createdAt.split('T')[0]}_${bill.id.slice(0, 8)}` : 'Superbill';
+
+  const handleExport = () => {
+    if (!bill) return;
+    const ws = XLSX.utils.json_to_sheet(superbillToRows(bill));
+    const dx = XLSX.utils.json_to_sheet(bill.diagnoses.map(d => ({ 'Pointer': d.pointer, 'ICD-10': d.code, 'Description': d.description })));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Charges');
+    XLSX.utils.book_append_sheet(wb, dx, 'Diagnoses');
+    XLSX.writeFile(wb, `${fileStem}.xlsx`);
+  };
+
+  const handlePrint = () => {
+    if (!sheetRef.current || !(window as any).html2pdf) {
+      alert('PDF generator is loading... please try again in a moment.');
+      return;
+    }
+    (window as any).html2pdf().set({
+      margin: 10,
+      filename: `${fileStem}.pdf`,
+      image: { type: 'jpeg', quality: 0.98 },
+      html2canvas: { scale: 2, useCORS: true, scrollY: 0 },
+      jsPDF: { unit: 'mm', format: 'letter', orientation: 'portrait' },
+    }).from(sheetRef.current).save();
+  };
+
+  if (!bill) {
+    return (
+      <div className="rounded-xl border border-teal-200 dark:border-teal-800 bg-teal-50/50 dark:bg-teal-900/20 p-3 space-y-3">
+        <h4 className="text-[11px] font-black uppercase tracking-widest text-teal-700 dark:text-teal-300 flex items-center gap-2">
+          <i className="fa-solid fa-file-invoice-dollar"></i> Charge Capture
+        </h4>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <select
+            value={insurer}
+            onChange={(e) => setInsurer(e.target.value)}
+            className="flex-1 px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 text-sm text-gray-700 dark:text-gray-200"
+          >
+            <option value="">Self-Pay</option>
+            {insurers.map(p => <option key={p.id} value={p.name}>{p.name}</option>)}
+          </select>
+          <button
+            onClick={handleSign}
+            className="px-4 py-2 rounded-lg bg-teal-600 hover:bg-teal-500 text-white text-xs font-bold shadow-md transition-colors"
+            title="Sign the reviewed note and build its superbill"
+          >
+            <i className="fa-solid fa-signature mr-1.5"></i>Sign & Create Superbill
+          </button>
+        </div>
+        <p className="text-[11px] text-gray-500 dark:text-gray-400">
+          Signing confirms you reviewed the note above; only confirmed ICD-10-CM codes are billed. Codes are resolved from the medical code list, {insurer || 'self-pay'} billing rules and the price list.
+        </p>
+      </div>
+    );
+  }
+
+  const reviewCount = bill.lines.filter(l => l.needsReview).length + bill.unresolved.length + bill.diagnoses.filter(d => !d.code).length;
+
+  return (
+    <div className="rounded-xl border border-teal-200 dark:border-teal-800 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 bg-teal-50/50 dark:bg-teal-900/20 border-b border-inherit">
+        <h4 className="text-[11px] font-black uppercase tracking-widest text-teal-700 dark:text-teal-300 flex items-center gap-2">
+          <i className="fa-solid fa-file-invoice-dollar"></i> Superbill
+          {reviewCount > 0 && <span className="text-amber-600 normal-case tracking-normal font-bold">· {reviewCount} to review</span>}
+        </h4>
+        <div className="flex items-center gap-2">
+          <button onClick={handleExport} className="text-xs font-bold px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-500 hover:text-teal-600 hover:bg-teal-50">
+            <i className="fa-solid fa-file-excel mr-1"></i>Export
+          </button>
+          <button onClick={handlePrint} className="text-xs font-bold px-3 py-1 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-500 hover:text-teal-600 hover:bg-teal-50">
+            <i className="fa-solid fa-print mr-1"></i>PDF
+          </button>
+        </div>
+      </div>
+
+      {/* Printable charge sheet — plain black-on-white so the PDF matches the screen */}
+      <div ref={sheetRef} className="bg-white text-black p-5 text-xs">
+        <div className="flex justify-between items-start border-b-2 border-gray-800 pb-2 mb-3">
+          <div>
+            <h2 className="text-base font-black uppercase tracking-wide">Superbill</h2>
+            <p className="text-gray-600">Visit of {new Date(bill.createdAt).toLocaleDateString()}</p>
+          </div>
+          <div className="text-right">
+            <p><span className="font-bold">Payer:</span> {bill.insurer || 'Self-Pay'}</p>
+            <p><span className="font-bold">Signed:</span> {bill.signedBy}, {new Date(bill.signedAt).toLocaleString()}</p>
+          </div>
+        </div>
+
+        <h3 className="font-black uppercase tracking-wide mb-1">Diagnoses</h3>
+        {bill.diagnoses.length > 0 ? (
+          <table className="w-full mb-3">
+            <tbody>
+              {bill.diagnoses.map(d => (
+                <tr key={d.pointer} className="border-b border-gray-200">
+                  <td className="py-1 w-8 font-bold">{d.pointer}</td>
+                  <td className="py-1 w-20 font-mono">{d.code || <span className="text-amber-600" title="Code not confirmed">—</span>}</td>
+                  <td className="py-1">{d.description}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="mb-3 text-amber-700">No diagnoses found in the note.</p>
+        )}
+
+        <h3 className="font-black uppercase tracking-wide mb-1">Charges</h3>
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-gray-800 text-left text-[10px] uppercase">
+              <th className="py-1">Code</th>
+              <th className="py-1">Mod</th>
+              <th className="py-1">Description</th>
+              <th className="py-1 text-center">Units</th>
+              <th className="py-1">Dx</th>
+              <th className="py-1">Bill To</th>
+              <th className="py-1 text-right">Self-Pay</th>
+            </tr>
+          </thead>
+          <tbody>
+            {bill.lines.map(line => (
+              <React.Fragment key={line.id}>
+                <tr className={line.needsReview ? 'bg-amber-50' : 'border-b border-gray-200'}>
+                  <td className="py-1 font-mono font-bold">{line.code}</td>
+                  <td className="py-1 font-mono">{line.modifiers.join(' ')}</td>
+                  <td className="py-1">
+                    {line.description}
+                    {line.labCode && <span className="text-gray-500"> · Lab {line.labCode}</span>}
+                  </td>
+                  <td className="py-1 text-center">{line.units}</td>
+                  <td className="py-1 font-mono">{line.diagnosisPointers.join('')}</td>
+                  <td className="py-1">{line.billTo === 'insurance' && bill.insurer ? bill.insurer : PAYER_LABELS[line.billTo]}</td>
+                  <td className="py-1 text-right">{formatMoney(line.selfPayPrice === undefined ? undefined : line.selfPayPrice * line.units)}</td>
+                </tr>
+                {line.needsReview && (
+                  <tr className="bg-amber-50 border-b border-gray-200">
+                    <td colSpan={7} className="pb-1 text-[10px] text-amber-700"><i className="fa-solid fa-triangle-exclamation mr-1"></i>{line.needsReview}</td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t-2 border-gray-800 font-bold">
+              <td colSpan={6} className="py-1 text-right uppercase text-[10px]">Self-pay total</td>
+              <td className="py-1 text-right">{formatMoney(bill.selfPayTotal)}</td>
+            </tr>
+          </tfoot>
+        </table>
+
+        {bill.unresolved.length > 0 && (
+          <p className="mt-3 text-amber-700">
+            <span className="font-bold">Not coded:</span> {bill.unresolved.join(', ')} — add these to the medical code list or code them by hand.
+          </p>
+        )}
+        {bill.codingRationale && <p className="mt-3 text-[10px] text-gray-500">E/M basis: {bill.codingRationale}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SuperbillSheet;
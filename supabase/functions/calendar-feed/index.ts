@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+import { buildCalendar, shiftEvent, timeOffEvent } from "../../../utils/icalendar.ts"
+
+// Serves a person's shifts and approved time off as an iCalendar feed.
+// Calendar apps fetch it without signing in, so this function is deployed
+// with --no-verify-jwt and the token in the URL is the credential:
+//   GET /functions/v1/calendar-feed?token=<calendar_feeds.token>
+
+const HISTORY_DAYS = 60; // Past events kept in the feed
+const TOKEN_PATTERN = /^[a-f0-9]{48}$/;
+
+const notFound = () => new Response('Calendar not found', { status: 404, headers: { 'Content-Type': 'text/plain' } })
+
+serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405 })
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token') || ''
+    if (!TOKEN_PATTERN.test(token)) return notFound()
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    )
+
+    const { data: feed } = await supabaseAdmin
+      .from('calendar_feeds')
+      .select('id, user_id, location_id')
+      .eq('token', token)
+      .is('revoked_at', null)
+      .maybeSingle()
+
+    // Revoked and unknown links look the same
+    if (!feed) return notFound()
+
+    // Nor does a link for a location the person is no longer assigned to
+    const { data: assignment } = await supabaseAdmin
+      .from('user_location_assignments')
+      .select('user_id')
+      .eq('user_id', feed.user_id)
+      .eq('location_id', feed.location_id)
+      .limit(1)
+      .maybeSingle()
+    if (!assignment) return notFound()
+
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+    const [{ data: location }, { data: shifts, error: shiftError }, { data: timeOff, error: timeOffError }] = await Promise.all([
+      supabaseAdmin.from('clinic_locations').select('name, address, timezone').eq('id', feed.location_id).maybeSingle(),
+      supabaseAdmin.from('shifts').select('*').eq('user_id', feed.user_id).eq('location_id', feed.location_id).gte('date', since).order('date'),
+      supabaseAdmin.from('time_off_requests').select('*').eq('user_id', feed.user_id).eq('location_id', feed.location_id).eq('status', 'approved').gte('end_date', since)
+    ])
+    if (shiftError) throw shiftError
+    if (timeOffError) throw timeOffError
+
+    const locationName = location?.name || 'Clinic'
+    const timeZone = location?.timezone || 'America/New_York'
+
+    const ics = buildCalendar(`${locationName} Shifts`, timeZone, [
+      ...(shifts || []).map((s) => shiftEvent(s, timeZone, {
+        summary: `Shift · ${locationName}`,
+        description: s.notes || undefined,
+        location: location?.address || undefined
+      })),
+      ...(timeOff || []).map((t) => timeOffEvent(t, {
+        summary: 'Time off',
+        description: t.reason || undefined
+      }))
+    ])
+
+    await supabaseAdmin.from('calendar_feeds').update({ last_accessed_at: new Date().toISOString() }).eq('id', feed.id)
+
+    return new Response(req.method === 'HEAD' ? null : ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="shifts.ics"',
+        'Cache-Control': 'private, max-age=900'
+      }
+    })
+  } catch (error: any) {
+    console.error('Calendar feed error:', error);
+    return new Response('Calendar unavailable', { status: 500, headers: { 'Content-Type': 'text/plain' } })
+  }
+})
@@ -72,6 +72,158 @@ export interface TimeOffRequest {
   updated_at?: string;
 }
 
+// Who the auto-scheduler staffs: providers are DOCTOR/OWNER users, MAs are MA users
+export type StaffingRole = 'provider' | 'ma';
+
+export interface ClinicDayHours {
+  open: string; // HH:mm
+  close: string; // HH:mm
+}
+
+export interface ScheduleRules {
+  id?: string;
+  hours: Record<number, ClinicDayHours | null>; // Keyed by weekday, 0 = Sunday; null = closed
+  min_providers: number; // Needed every open hour
+  min_mas: number; // Needed every open hour
+  max_shift_hours: number; // Longer open days are split into shifts no longer than this
+  swap_requires_approval?: boolean; // Shift swaps and giveaways wait for a manager; defaults to true
+  location_id?: string;
+  updated_at?: string;
+}
+
+export interface AvailabilityWindow {
+  weekday: number; // 0 = Sunday
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+export interface StaffAvailability {
+  id?: string;
+  user_id: string; // References User
+  max_hours_per_week: number;
+  windows: AvailabilityWindow[]; // Empty = available whenever the clinic is open
+  location_id?: string;
+  updated_at?: string;
+}
+
+export interface DraftShift extends Omit<Shift, 'id'> {
+  key: string; // Stable within a draft, for accepting or editing single shifts
+  staffing_role: StaffingRole;
+  reason: string; // Why the solver picked this person
+}
+
+export interface UnfilledSlot {
+  date: string; // YYYY-MM-DD
+  start_time: string;
+  end_time: string;
+  staffing_role: StaffingRole;
+  needed: number;
+  filled: number;
+  reasons: string[]; // Why each candidate could not take it
+}
+
+export interface ScheduleDraft {
+  shifts: DraftShift[];
+  unfilled: UnfilledSlot[];
+}
+
+export type ShiftOfferType = 'giveaway' | 'swap';
+export type ShiftOfferStatus = 'open' | 'pending_approval' | 'completed' | 'cancelled';
+
+export interface ShiftOfferEvent {
+  at: string; // ISO
+  by: string; // User ID
+  action: 'offered' | 'claimed' | 'approved' | 'rejected' | 'cancelled' | 'completed';
+  note?: string;
+}
+
+// A shift its owner has put up for a coworker to take, or to trade for one of theirs
+export interface ShiftOffer {
+  id: string;
+  shift_id: string | null; // References Shift; null once the shift has been deleted
+  offered_by: string; // User ID; owner of the shift when offered
+  type: ShiftOfferType;
+  status: ShiftOfferStatus;
+  claimed_by?: string | null;
+  swap_shift_id?: string | null; // Claimant's shift the offerer takes in return (swaps only)
+  note?: string;
+  reviewed_by?: string | null; // Manager who approved or rejected the claim
+  last_event_note?: string | null; // Sent with a status change; the server copies it into the trail
+  history: ShiftOfferEvent[]; // Read-only trail, written server-side on every status change
+  location_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Where and how staff may punch, per location. The PIN itself is only stored hashed, server-side.
+export interface TimeClockSettings {
+  id?: string;
+  require_network: boolean;
+  allowed_networks: string[]; // CIDR blocks, e.g. 203.0.113.0/24
+  require_pin: boolean;
+  grace_minutes: number; // Punches this close to the shift's start/end are on time
+  pay_period_days: number; // 7 (weekly) or 14 (biweekly)
+  pay_period_anchor: string; // YYYY-MM-DD, the first day of any pay period
+  overtime_weekly_hours: number; // Hours over this per 7-day workweek are overtime
+  location_id?: string;
+  updated_at?: string;
+}
+
+export interface TimePunch {
+  id: string;
+  user_id: string; // References User
+  punch_in: string; // ISO, stamped by the server
+  punch_out?: string | null; // ISO; null while on the clock
+  source: 'clock' | 'manual'; // manual = entered or corrected by a manager
+  ip_address?: string | null;
+  edited_by?: string | null;
+  edit_reason?: string | null;
+  location_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PunchFlagType = 'late' | 'early_departure' | 'missed_punch_in' | 'missed_punch_out' | 'unscheduled';
+
+export interface PunchFlag {
+  type: PunchFlagType;
+  minutes?: number; // How late or early
+  detail: string;
+}
+
+// One person's scheduled shift and punches for one day
+export interface TimesheetDay {
+  user_id: string;
+  date: string; // YYYY-MM-DD
+  shift: Shift | null;
+  punches: TimePunch[];
+  hours: number; // Worked, from completed punches
+  flags: PunchFlag[];
+}
+
+export interface TimesheetApproval {
+  id?: string;
+  user_id: string;
+  period_start: string; // YYYY-MM-DD
+  period_end: string; // YYYY-MM-DD
+  regular_hours: number; // As approved; a later punch edit that changes them voids the approval
+  overtime_hours: number;
+  approved_by: string; // User ID
+  approved_at?: string;
+  location_id?: string;
+}
+
+// Private link a calendar app subscribes to; the token in the URL is the only credential
+export interface CalendarFeed {
+  id: string;
+  user_id: string;
+  token: string;
+  location_id?: string;
+  created_at?: string;
+  last_accessed_at?: string | null;
+  revoked_at?: string | null;
+}
+
 export interface User {
   id: string;
   username: string;
@@ -98,6 +250,31 @@ export interface InventoryItem {
   lastCheckedBy?: string;
   sku?: string;
   leadTime?: number; // Days to replenish
+  lots?: InventoryLot[]; // Per-lot quantities; stock/expiryDate mirror the FEFO head when present
+}
+
+export interface InventoryLot {
+  id: string; // References DBLot.id
+  stockLevelId: string; // References DBStockLevel.id (holds the quantity)
+  itemId: string;
+  lotNumber: string;
+  expiryDate: string; // YYYY-MM-DD, '' when the lot does not expire
+  quantity: number;
+  receivedAt?: string;
+  orderId?: string; // Order that delivered this lot
+}
+
+export interface ItemCostHistoryEntry {
+  id: string;
+  itemId: string;
+  previousCost: number; // Per stock unit
+  newCost: number; // Per stock unit
+  source: 'ORDER_RECEIPT' | 'MANUAL';
+  receiptUnitCost?: number; // Landed cost per unit of the receipt (incl. allocated shipping/tax)
+  quantity?: number; // Units received
+  orderId?: string;
+  recordedAt: string;
+  recordedBy?: string;
 }
 
 export interface ItemMetrics {
@@ -161,12 +338,134 @@ export interface CodeGroup {
   codeIds: string[]; // References MedicalCode.id
 }
 
+export type PayerType = 'MEDICAID' | 'MEDICARE' | 'COMMERCIAL' | 'WORKERS_COMP' | 'SELF_PAY' | 'OTHER';
+
+export interface Payer {
+  id: string;
+  name: string;
+  type: PayerType;
+  reportKey: string; // Key of this payer's count in DailyReport.insurances; fixed once reports use it
+  aliases: string[]; // Plan names and former names that billing rules may still use
+  showInDailyClose: boolean; // False for payers counted under a broader bucket such as Commercial
+  isActive: boolean;
+  sortOrder: number;
+  notes?: string;
+}
+
+export type PatientSex = 'F' | 'M';
+
+export interface BillingRuleConditions {
+  cliaWaived?: boolean; // true: only in-house under the CLIA waiver; false: only reference-lab runs
+  minAge?: number; // Inclusive, in years
+  maxAge?: number;
+  sex?: PatientSex;
+  frequency?: { maxUnits: number; periodDays: number }; // e.g. 1 per 365 days
+}
+
 export interface BillingRule {
   id: string;
   insurers: string[];
   testName: string;
-  cpt: string;
+  cpt: string; // May carry modifiers as a suffix, e.g. "80053-QW"
   billToClient: boolean;
+  modifiers?: string[]; // Added to any suffix on cpt
+  conditions?: BillingRuleConditions;
+  priorAuthRequired?: boolean;
+  effectiveFrom?: string; // YYYY-MM-DD, inclusive; open-ended when unset
+  effectiveTo?: string;
+  ruleKey?: string; // Shared by every version of one rule; defaults to the first version's id
+  version?: number;
+  notes?: string;
+}
+
+/** What is being billed, for whom and when */
+export interface BillingContext {
+  payer: string;
+  payerAliases?: string[]; // Other names of the payer; rules naming any of them apply
+  code?: string;
+  testName?: string;
+  dateOfService: string; // YYYY-MM-DD
+  inHouse?: boolean; // Run in-house under the CLIA waiver rather than sent to a reference lab
+  patient?: { age?: number; sex?: PatientSex };
+  priorServiceDates?: string[]; // Earlier dates this patient was billed the code; unknown when unset
+}
+
+export interface BillingRuleCheck {
+  label: string;
+  passed: boolean | null; // null: the context lacks the data to check it
+  detail: string;
+}
+
+export interface BillingRuleTrace {
+  rule: BillingRule;
+  matched: boolean;
+  checks: BillingRuleCheck[];
+}
+
+export interface BillingDecision {
+  rule: BillingRule | null;
+  code: string;
+  modifiers: string[];
+  billTo: 'client' | 'lab';
+  priorAuthRequired: boolean;
+  reason: string;
+  warnings: string[];
+  trace: BillingRuleTrace[];
+}
+
+// ─── ICD-10-CM ──────────────────────────────────────────────────────────────
+
+export interface Icd10Code {
+  code: string; // With the dot, e.g. "J02.9"
+  description: string;
+  billable: boolean; // False for category/subcategory headers
+}
+
+export interface Icd10Validation {
+  code: string;
+  status: 'valid' | 'invalid' | 'unknown'; // unknown = well-formed but not in the local table
+  entry?: Icd10Code;
+  errors: string[]; // Reasons the code cannot be billed
+  warnings: string[]; // Laterality/specificity gaps worth a second look
+  suggestions: Icd10Code[]; // More specific billable codes
+}
+
+// ─── Superbill (charge capture) ─────────────────────────────────────────────
+
+export type SuperbillPayer = 'insurance' | 'client' | 'patient';
+
+export interface SuperbillDiagnosis {
+  pointer: string; // A–L, as on the CMS-1500
+  code: string; // ICD-10-CM; empty when the note gave none
+  description: string;
+}
+
+export interface SuperbillLine {
+  id: string;
+  kind: 'em' | 'add_on' | 'procedure' | 'admin';
+  description: string;
+  code: string; // CPT/HCPCS without modifiers
+  modifiers: string[]; // e.g. ['QW'] for CLIA-waived tests
+  units: number;
+  labCode?: string; // Reference-lab order code from MedicalCode
+  diagnosisPointers: string[];
+  billTo: SuperbillPayer;
+  selfPayPrice?: number; // From PriceItem; undefined when not on the price list
+  source: string; // What the line was resolved from
+  needsReview?: string; // Why a person should check this line before submitting
+}
+
+export interface Superbill {
+  id: string;
+  createdAt: string;
+  insurer: string | null; // null = self-pay
+  signedBy: string;
+  signedAt: string;
+  diagnoses: SuperbillDiagnosis[];
+  lines: SuperbillLine[];
+  unresolved: string[]; // Procedures no code could be found for
+  selfPayTotal: number;
+  codingRationale?: string;
 }
 
 export interface Budget {
@@ -179,12 +478,31 @@ export interface Budget {
   endDate: string;
   isRecurring?: boolean;
   notes?: string;
+  vendorIds?: string[]; // References Vendor.id; spend is attributed by ID
   createdAt?: string;
   updatedAt?: string;
 }
 
+export type PaymentTerms = 'DUE_ON_RECEIPT' | 'NET_15' | 'NET_30' | 'NET_45' | 'NET_60' | 'PREPAID' | 'CREDIT_CARD';
+
+export interface Vendor {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  website?: string;
+  accountNumber?: string; // Our customer account with the vendor
+  defaultLeadTimeDays?: number;
+  paymentTerms?: PaymentTerms;
+  logoUrl?: string;
+  notes?: string;
+  isActive: boolean;
+}
+
 
-export type OrderStatus = 'DRAFT' | 'PENDING' | 'RECEIVED' | 'CANCELLED';
+export type OrderStatus = 'DRAFT' | 'PENDING' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
 
 export interface OrderItem {
   id: string;
@@ -196,17 +514,40 @@ export interface OrderItem {
   unitCost: number;
   unitType: string;
   total: number;
+  quantityReceived?: number; // Packages received so far, across all shipments
+  lotNumber?: string; // Captured at receipt
+  expiryDate?: string; // Captured at receipt
+}
+
+export interface OrderShipmentLine {
+  orderItemId: string;
+  itemId?: string; // Inventory item the units were received into
+  quantity: number; // Packages received in this shipment
+  unitsPerPackage: number;
+  lotNumber?: string;
+  expiryDate?: string;
+}
+
+// One delivery against a purchase order; an order may arrive in several
+export interface OrderShipment {
+  id: string;
+  orderId: string;
+  receivedAt: string;
+  receivedBy?: string;
+  lines: OrderShipmentLine[];
 }
 
 export interface Order {
   id: string;
   poNumber: string;
-  vendor: string;
+  vendor: string; // Display name (denormalized)
+  vendorId?: string; // References Vendor.id
   orderDate: string;
   expectedDate: string;
-  receivedAt?: string; // New: Actual receipt date for intelligence
+  receivedAt?: string; // Latest shipment received
   status: OrderStatus;
   items: OrderItem[];
+  shipments?: OrderShipment[];
   subtotal: number;
   shippingCost: number;
   totalTax: number; // Absolute value, not percentage
@@ -216,12 +557,256 @@ export interface Order {
   createdBy?: string; // User ID of creator
 }
 
+export type InvoiceMatchStatus = 'APPROVED' | 'REJECTED';
+
+export type InvoiceVarianceKind =
+  | 'QUANTITY'    // Billed quantity differs from what was shipped / outstanding
+  | 'UNIT_COST'   // Billed unit cost differs from the PO
+  | 'NOT_ON_PO'   // Invoice line with no matching PO line
+  | 'NOT_BILLED'; // Outstanding PO line missing from the invoice
+
+export interface InvoiceMatchLine {
+  orderItemId?: string;
+  name: string;
+  sku?: string;
+  orderedQty: number;
+  shippedQty?: number; // From the packing slip scan, when one was provided
+  expectedQty: number; // What the invoice should bill: packing slip, else outstanding
+  invoicedQty: number;
+  poUnitCost: number;
+  invoiceUnitCost: number;
+  variances: InvoiceVarianceKind[];
+  amount: number; // Billed extended cost minus expected extended cost
+}
+
+// Three-way match of a vendor invoice against its PO and packing slip
+export interface InvoiceMatch {
+  id: string;
+  orderId: string;
+  invoiceNumber: string;
+  vendor: string;
+  status: InvoiceMatchStatus;
+  lines: InvoiceMatchLine[];
+  subtotalVariance: number;
+  taxVariance: number;
+  shippingVariance: number;
+  totalVariance: number;
+  invoiceTotal: number;
+  hasDiscrepancies: boolean;
+  notes?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
+// SHIPPING / RECEIVING: claimed by one user while stock is being moved
+export type TransferStatus = 'REQUESTED' | 'SHIPPING' | 'SHIPPED' | 'RECEIVING' | 'RECEIVED' | 'CANCELLED';
+
+export interface TransferLine {
+  lotNumber: string;
+  expiryDate: string; // '' when the lot does not expire
+  quantity: number;
+  stockLevelId?: string; // Source lot the units are drawn from
+  shipped?: boolean; // Taken out of the source location's stock
+  received?: boolean; // Booked into the destination's stock
+}
+
+export interface StockTransfer {
+  id: string;
+  fromLocationId: string;
+  toLocationId: string;
+  fromItemId?: string; // Resolved by the shipping location
+  toItemId?: string; // Resolved by the receiving location
+  itemName: string;
+  sku?: string;
+  unit: string;
+  quantity: number;
+  status: TransferStatus;
+  lines: TransferLine[]; // Lots drawn at shipment
+  notes?: string;
+  requestedBy?: string; // User ID
+  requestedAt: string;
+  shippedAt?: string;
+  receivedAt?: string;
+  claimedAt?: string; // When SHIPPING / RECEIVING was claimed; unset once released
+}
+
+// One catalog item across every location of the organization
+export interface OrgStockRow {
+  key: string; // SKU, or lower-cased name when no SKU
+  name: string;
+  sku?: string;
+  unit: string;
+  byLocation: Record<string, number>; // location_id -> stock
+  total: number;
+}
+
+// SUBMITTING / APPROVING: claimed by one user while variances are booked to stock
+export type CycleCountStatus = 'OPEN' | 'SUBMITTING' | 'PENDING_APPROVAL' | 'APPROVING' | 'COMPLETED' | 'CANCELLED';
+export type CycleCountScope = 'LOCATION' | 'CATEGORY';
+
+export interface CycleCountLine {
+  itemId: string;
+  name: string;
+  sku?: string;
+  unit: string;
+  location: string;
+  unitCost: number; // averageCost when the sheet was generated
+  expectedQty: number; // System stock when the line was counted
+  countedQty?: number;
+  countedBy?: string; // Username
+  countedAt?: string;
+  approved?: boolean; // Manager decision on a variance above the threshold
+  applied?: boolean; // Adjustment booked to stock
+}
+
+export interface CycleCountSession {
+  id: string;
+  name: string;
+  scopeType: CycleCountScope;
+  scopeValue: string; // Storage location or category counted
+  status: CycleCountStatus;
+  varianceThreshold: number; // Dollar value above which a manager must approve
+  lines: CycleCountLine[];
+  notes?: string;
+  createdBy?: string; // User ID
+  createdAt: string;
+  submittedAt?: string;
+  completedAt?: string;
+  approvedBy?: string; // User ID
+}
+
+export type QueuedMutationMethod = 'POST' | 'PATCH' | 'DELETE';
+
+// A write made while offline, replayed in order when connectivity returns
+export interface QueuedMutation {
+  id: number; // IndexedDB key; replay order
+  label: string; // Shown in the sync status panel
+  method: QueuedMutationMethod;
+  path: string; // REST path after /rest/v1/, including filters
+  body?: unknown;
+  prefer?: string;
+  table: string;
+  rowId?: string;
+  expectedUpdatedAt?: string; // Row version the change was made against (PATCH only)
+  queuedAt: string;
+  error?: string; // Why the server refused it on replay
+}
+
+export interface SyncStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: QueuedMutation[];
+  lastSyncedAt?: string; // Last time queued writes were replayed
+}
+
+// ─── Semantic Search ────────────────────────────────────────────────────────
+
+export type SemanticDocKind = 'protocol' | 'form' | 'item';
+
+export interface SemanticHit {
+  kind: SemanticDocKind;
+  id: string;
+  score: number; // Cosine similarity of the best-matching chunk
+  snippet: string; // That chunk's text
+}
+
+// ─── Analytics Query Plans ──────────────────────────────────────────────────
+// The LLM translates a question into a QueryPlan; utils/queryPlan executes it.
+
+export type QueryEntity = 'inventory' | 'orders' | 'order_lines' | 'daily_reports' | 'petty_cash' | 'protocols' | 'forms';
+
+export type QueryAggregation = 'count' | 'sum' | 'avg' | 'min' | 'max' | 'list';
+
+export type QueryFilterOp = 'eq' | 'neq' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte' | 'in';
+
+export type QueryDatePreset =
+  | 'today' | 'yesterday'
+  | 'this_week' | 'last_week'
+  | 'this_month' | 'last_month'
+  | 'this_quarter' | 'last_quarter'
+  | 'this_year' | 'last_year'
+  | 'last_7_days' | 'last_30_days' | 'last_90_days'
+  | 'next_30_days' | 'next_90_days';
+
+export interface QueryFilter {
+  field: string;
+  op: QueryFilterOp;
+  value: string | number | boolean | (string | number)[];
+}
+
+// Either a preset or explicit YYYY-MM-DD bounds (inclusive)
+export interface QueryDateRange {
+  preset?: QueryDatePreset;
+  start?: string;
+  end?: string;
+}
+
+export interface QueryPlan {
+  entity: QueryEntity;
+  aggregation: QueryAggregation;
+  metric?: string; // Numeric field for sum/avg/min/max; sort field for list
+  filters: QueryFilter[];
+  dateRange?: QueryDateRange; // Applied to the entity's date field
+  compareTo?: QueryDateRange; // Same query over a second period
+  groupBy?: string;
+  sort?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface QueryGroupResult {
+  key: string;
+  value: number;
+  count: number;
+}
+
+export interface QueryExecution {
+  plan: QueryPlan;
+  period?: { start: string; end: string };
+  matched: number; // Rows after filters and date range
+  value?: number; // Scalar aggregations
+  groups?: QueryGroupResult[];
+  rows?: Record<string, string | number | boolean | null>[]; // 'list' aggregation
+  comparison?: {
+    period: { start: string; end: string };
+    matched: number;
+    value: number;
+    delta: number;
+    pctChange: number | null; // null when the comparison period is zero
+  };
+}
+
 export interface ActivityLog {
   id: string;
-  action: 'ADDED' | 'UPDATED' | 'REMOVED' | 'CONSUMED' | 'RESTOCKED' | 'AUDITED' | 'ORDER_CREATED' | 'ORDER_RECEIVED' | 'DELETED_ORDER' | 'PRICE_LIST_UPDATE' | 'PRICE_ADDED' | 'PRICE_UPDATED' | 'PRICE_DELETED' | 'PRICE_IMPORT' | 'CODE_ADDED' | 'CODE_UPDATED' | 'CODE_DELETED' | 'GROUP_ADDED' | 'GROUP_UPDATED' | 'GROUP_DELETED' | 'FORM_GENERATED' | 'DAILY_CLOSE' | 'PETTY_CASH' | 'IMPORT_INVENTORY' | 'TEMPLATE_CREATED' | 'TEMPLATE_UPDATED' | 'TEMPLATE_DELETED' | 'BILLING_RULE_SAVED' | 'BILLING_RULE_DELETED';
+  action: 'ADDED' | 'UPDATED' | 'REMOVED' | 'CONSUMED' | 'RESTOCKED' | 'AUDITED' | 'ORDER_CREATED' | 'ORDER_RECEIVED' | 'DELETED_ORDER' | 'PRICE_LIST_UPDATE' | 'PRICE_ADDED' | 'PRICE_UPDATED' | 'PRICE_DELETED' | 'PRICE_IMPORT' | 'CODE_ADDED' | 'CODE_UPDATED' | 'CODE_DELETED' | 'GROUP_ADDED' | 'GROUP_UPDATED' | 'GROUP_DELETED' | 'FORM_GENERATED' | 'DAILY_CLOSE' | 'PETTY_CASH' | 'IMPORT_INVENTORY' | 'TEMPLATE_CREATED' | 'TEMPLATE_UPDATED' | 'TEMPLATE_DELETED' | 'BILLING_RULE_SAVED' | 'BILLING_RULE_DELETED' | 'TRANSFER_REQUESTED' | 'TRANSFER_SHIPPED' | 'TRANSFER_RECEIVED' | 'TRANSFER_CANCELLED' | 'INVOICE_APPROVED' | 'INVOICE_REJECTED' | 'SUPERBILL_CREATED' | 'PAYER_SAVED' | 'SHIFT_OFFERED' | 'SHIFT_CLAIMED' | 'SHIFT_OFFER_APPROVED' | 'SHIFT_OFFER_REJECTED' | 'SHIFT_OFFER_CANCELLED' | 'PUNCH_EDITED' | 'TIMESHEET_APPROVED' | 'TIMESHEET_REOPENED';
   details: string;
   timestamp: Date;
   user: string;
+  occurredAt?: Date; // Client time of the action; differs from timestamp when the entry waited in the offline queue
+  // Server audit trail fields (absent on entries not yet synced)
+  userId?: string;
+  entityType?: string; // e.g. 'item', 'order', 'price'
+  entityId?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  seq?: number; // Position in the location's hash chain
+  hash?: string;
+  prevHash?: string;
+}
+
+// Structured payload recorded alongside an activity log entry
+export interface ActivityLogChange {
+  entityType: string;
+  entityId?: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export interface AuditChainVerification {
+  checked: number; // Entries re-hashed
+  valid: boolean;
+  brokenSeq?: number; // First entry whose hash or link does not match
+  brokenId?: string;
 }
 
 export interface FormTemplate {
@@ -270,7 +855,10 @@ export enum AppRoute {
   PROTOCOLS = 'PROTOCOLS', // New
   SCHEDULE = 'SCHEDULE', // New Smart Scheduler
   PLATFORM = 'PLATFORM', // Norvexis Core Command Center
-  DICTATION_PROTOCOLS = 'DICTATION_PROTOCOLS' // New Dictation Protocols UI
+  DICTATION_PROTOCOLS = 'DICTATION_PROTOCOLS', // New Dictation Protocols UI
+  VENDORS = 'VENDORS', // Vendor master data
+  TRANSFERS = 'TRANSFERS', // Inter-location stock transfers
+  CYCLE_COUNTS = 'CYCLE_COUNTS' // Cycle-count sessions
 }
 
 export interface ChartDataPoint {
@@ -317,12 +905,44 @@ export interface Protocol {
   createdBy: string;
   createdAt: string;
   updatedAt: string;
+  version: number;
+  ackVersion: number; // Signatures on this version or later still count
+}
+
+// 'minor' keeps existing signatures; 'material' requires the target role to sign again
+export type ProtocolChangeType = 'initial' | 'minor' | 'material';
+
+export interface ProtocolChange {
+  type: Exclude<ProtocolChangeType, 'initial'>;
+  note?: string;
+}
+
+/** Immutable snapshot of a protocol as it read at one version */
+export interface ProtocolRevision {
+  id: string;
+  protocolId: string;
+  version: number;
+  title: string;
+  content: string;
+  severity: ProtocolSeverity;
+  area: ProtocolArea;
+  type: ProtocolType;
+  requiresAcknowledgment: boolean;
+  targetRole: ProtocolTargetRole;
+  videoUrl?: string;
+  checklists: ProtocolChecklist[];
+  quizzes: ProtocolQuiz[];
+  changeType: ProtocolChangeType;
+  changeNote?: string;
+  createdBy?: string;
+  createdAt: string;
 }
 
 export interface ProtocolAcknowledgment {
   protocolId: string;
   userId: string;
   acknowledgedAt: string;
+  version: number; // Protocol version that was signed
 }
 
 // --- DATABASE MODELS (Supabase Mirrors) ---
@@ -361,6 +981,8 @@ export interface DBLot {
   item_id: string;
   lot_number: string;
   expiration_date: string | null;
+  received_at?: string | null;
+  order_id?: string | null;
 }
 
 export interface DBLocation {
@@ -370,6 +992,62 @@ export interface DBLocation {
   is_active: boolean;
 }
 
+export interface DBStockTransfer {
+  id: string;
+  organization_id: string | null;
+  from_location_id: string;
+  to_location_id: string;
+  from_item_id: string | null;
+  to_item_id: string | null;
+  item_name: string;
+  sku: string | null;
+  unit: string;
+  quantity: number;
+  status: TransferStatus;
+  lines: TransferLine[] | null;
+  notes: string | null;
+  requested_by: string | null;
+  requested_at: string;
+  shipped_at: string | null;
+  received_at: string | null;
+  claimed_at: string | null;
+}
+
+export interface DBCycleCountSession {
+  id: string;
+  location_id: string | null;
+  name: string;
+  scope_type: CycleCountScope;
+  scope_value: string;
+  status: CycleCountStatus;
+  variance_threshold: number;
+  lines: CycleCountLine[] | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  submitted_at: string | null;
+  completed_at: string | null;
+  approved_by: string | null;
+}
+
+export interface DBActivityLog {
+  id: string;
+  location_id: string | null;
+  seq: number;
+  action: string;
+  details: string;
+  entity_type: string | null;
+  entity_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  user_id: string | null;
+  user_name: string;
+  created_at: string;
+  occurred_at: string | null;
+  prev_hash: string;
+  hash: string;
+}
+
 export interface DBVendor {
   id: string;
   name: string;
@@ -377,12 +1055,34 @@ export interface DBVendor {
   email: string | null;
   phone: string | null;
   address: string | null;
+  website: string | null;
+  account_number: string | null;
+  default_lead_time_days: number | null;
+  payment_terms: PaymentTerms | null;
+  logo_url: string | null;
+  notes: string | null;
+  is_active: boolean;
+  location_id: string | null; // Multi-tenant
+}
+
+export interface DBPayer {
+  id: string;
+  name: string;
+  payer_type: PayerType;
+  report_key: string;
+  aliases: string[] | null;
+  show_in_daily_close: boolean;
+  is_active: boolean;
+  sort_order: number;
+  notes: string | null;
+  location_id: string | null; // Multi-tenant
 }
 
 export interface DBOrder {
   id: string;
   po_number: string;
-  vendor: string; // Storing vendor name directly for now, or UUID if normalized
+  vendor: string; // Vendor name, kept for display and legacy rows
+  vendor_id: string | null; // References vendors.id
   order_date: string;
   expected_arrival_date: string | null;
   received_at: string | null; // New
@@ -408,6 +1108,50 @@ export interface DBOrderItem {
   unit_cost: number;
   unit_type: string;
   line_total: number;
+  quantity_received?: number;
+  lot_number?: string | null;
+  expiry_date?: string | null;
+}
+
+export interface DBInvoiceMatch {
+  id: string;
+  order_id: string;
+  location_id: string | null;
+  invoice_number: string;
+  vendor: string;
+  status: InvoiceMatchStatus;
+  lines: InvoiceMatchLine[];
+  subtotal_variance: number;
+  tax_variance: number;
+  shipping_variance: number;
+  total_variance: number;
+  invoice_total: number;
+  has_discrepancies: boolean;
+  notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string;
+}
+
+export interface DBItemCostHistory {
+  id: string;
+  item_id: string;
+  location_id: string | null;
+  previous_cost: number;
+  new_cost: number;
+  source: ItemCostHistoryEntry['source'];
+  receipt_unit_cost: number | null;
+  quantity: number | null;
+  order_id: string | null;
+  recorded_at: string;
+  recorded_by: string | null;
+}
+
+export interface DBOrderShipment {
+  id: string;
+  order_id: string;
+  received_at: string;
+  received_by: string | null;
+  lines: OrderShipmentLine[];
 }
 
 export interface DBPrice {
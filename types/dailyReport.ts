@@ -1,13 +1,10 @@
 
-export interface Insurances {
-  medicaid: number;
-  bcbs_il: number;
-  meridian: number;
-  commercial: number;
-  medicare: number;
-  workersComp: number;
-  selfPay: number;
-}
+/**
+ * Patient counts keyed by Payer.reportKey. Older reports use the original
+ * fixed keys (medicaid, bcbs_il, meridian, commercial, medicare,
+ * workersComp, selfPay), which the default payers keep as their keys.
+ */
+export type Insurances = Record<string, number>;
 
 export interface Financials {
   methods: {
@@ -29,6 +26,33 @@ export interface Stats {
   xrays: number;
 }
 
+export interface DrawerSignOff {
+  id: string; // drawer_signoffs record written by the server after authenticating the manager
+  managerId: string;
+  managerName: string;
+  reason: string;
+  // Over/short that was approved; a different count needs a new sign-off
+  cashVariance: number;
+  checkVariance: number;
+  signedAt: string; // ISO
+}
+
+// A petty cash withdrawal paid out of the drawer on the report's day
+export interface DrawerPettyCash {
+  id: string;
+  amount: number;
+  reason: string;
+}
+
+export interface DrawerCount {
+  openingFloat: number;
+  denominations: Record<string, number>; // Piece count keyed by face value, e.g. "20" or "0.25"
+  checks: number[]; // Amount of each check received
+  threshold: number; // Dollar variance above which a manager must sign off
+  pettyCash?: DrawerPettyCash[]; // Filled in when the report is built
+  signOff?: DrawerSignOff;
+}
+
 export interface DailyReportState {
   step: number;
   financials: Financials;
@@ -38,6 +62,7 @@ export interface DailyReportState {
     providerVisits: Record<string, number>;
   };
   stats: Stats;
+  drawer: DrawerCount;
   notes: string;
   errors: string[];
   customDate?: string;
@@ -54,6 +79,7 @@ export interface DailyReport {
     providerVisits: Record<string, number>;
   };
   stats: Stats;
+  drawer?: DrawerCount; // Absent on reports closed before the drawer count existed
   notes: string;
   totals: {
     revenue: number;
@@ -65,11 +91,13 @@ export interface DailyReport {
 export type DailyReportAction =
   | { type: 'SET_FIN_METHOD'; payload: { key: keyof Financials['methods']; value: number } }
   | { type: 'SET_FIN_TYPE'; payload: { key: keyof Financials['types']; value: number } }
-  | { type: 'SET_INSURANCE'; payload: { key: keyof Insurances; value: number } }
+  | { type: 'SET_INSURANCE'; payload: { key: string; value: number } }
   | { type: 'SET_OP_NURSE'; payload: number }
   | { type: 'SET_OP_PROVIDER'; payload: { id: string; value: number } }
   | { type: 'REMOVE_OP_PROVIDER'; payload: string }
   | { type: 'SET_STAT'; payload: { key: keyof Stats; value: number } }
+  | { type: 'SET_DRAWER'; payload: Partial<DrawerCount> }
+  | { type: 'SET_DENOMINATION'; payload: { value: string; count: number } }
   | { type: 'SET_NOTES'; payload: string }
   | { type: 'NEXT_STEP' }
   | { type: 'PREV_STEP' }
@@ -0,0 +1,16 @@
+/**
+ * Before/after payload for the audit trail holding only the fields that
+ * `updates` actually changes on `previous`.
+ */
+export const diffFields = <T extends object>(previous: T | undefined, updates: Partial<T>): { before: Record<string, unknown>; after: Record<string, unknown> } => {
+    const before: Record<string, unknown> = {};
+    const after: Record<string, unknown> = {};
+    (Object.keys(updates) as (keyof T)[]).forEach(key => {
+        const oldValue = previous?.[key];
+        const newValue = updates[key];
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+        before[key as string] = oldValue ?? null;
+        after[key as string] = newValue ?? null;
+    });
+    return { before, after };
+};
@@ -0,0 +1,203 @@
+import { DraftShift, ScheduleDraft, ScheduleRules, Shift, StaffAvailability, StaffingRole, TimeOffRequest, UnfilledSlot, User } from '../types';
+
+export const DEFAULT_MAX_HOURS_PER_WEEK = 40;
+
+export const DEFAULT_SCHEDULE_RULES: ScheduleRules = {
+    hours: {
+        0: null,
+        1: { open: '08:00', close: '17:00' },
+        2: { open: '08:00', close: '17:00' },
+        3: { open: '08:00', close: '17:00' },
+        4: { open: '08:00', close: '17:00' },
+        5: { open: '08:00', close: '17:00' },
+        6: { open: '09:00', close: '13:00' }
+    },
+    min_providers: 1,
+    min_mas: 1,
+    max_shift_hours: 10
+};
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const STAFFING_LABELS: Record<StaffingRole, string> = { provider: 'provider', ma: 'MA' };
+
+const round1 = (n: number): number => Math.round(n * 10) / 10;
+
+export const toMinutes = (time: string): number => {
+    const [h, m] = (time || '0:0').split(':').map(Number);
+    return (h || 0) * 60 + (m || 0);
+};
+
+export const fromMinutes = (minutes: number): string =>
+    `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const shiftHours = (shift: Pick<Shift, 'start_time' | 'end_time'>): number =>
+    Math.max(0, toMinutes(shift.end_time) - toMinutes(shift.start_time)) / 60;
+
+export const localDateStr = (d: Date): string =>
+    `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+export const weekdayOf = (date: string): number => new Date(`${date}T12:00:00`).getDay();
+
+const isWeekend = (date: string): boolean => [0, 6].includes(weekdayOf(date));
+
+/** Monday of the date's week, so hours are capped per Monday–Sunday week */
+export const weekKeyOf = (date: string): string => {
+    const d = new Date(`${date}T12:00:00`);
+    d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+    return localDateStr(d);
+};
+
+export const staffingRoleOf = (user: User): StaffingRole | null =>
+    user.role === 'DOCTOR' || user.role === 'OWNER' ? 'provider' : user.role === 'MA' ? 'ma' : null;
+
+const displayName = (user: User): string => (user as User & { full_name?: string }).full_name || user.username;
+
+/**
+ * Splits a day's open hours into equal shifts no longer than the maximum,
+ * on half-hour boundaries, e.g. 08:00–20:00 with a 10h maximum gives
+ * 08:00–14:00 and 14:00–20:00.
+ */
+export const splitOpenHours = (open: string, close: string, maxShiftHours: number): { start: string; end: string }[] => {
+    const from = toMinutes(open);
+    const to = toMinutes(close);
+    if (to <= from) return [];
+    const parts = Math.max(1, Math.ceil((to - from) / (Math.max(1, maxShiftHours) * 60)));
+    const step = Math.ceil((to - from) / parts / 30) * 30;
+    const segments: { start: string; end: string }[] = [];
+    for (let start = from; start < to; start += step) {
+        segments.push({ start: fromMinutes(start), end: fromMinutes(Math.min(start + step, to)) });
+    }
+    return segments;
+};
+
+/** Why the time falls outside the person's published availability, or null when it fits */
+export const outsideAvailability = (profile: StaffAvailability | undefined, date: string, start: string, end: string): string | null => {
+    if (!profile || profile.windows.length === 0) return null;
+    const weekday = weekdayOf(date);
+    const windows = profile.windows.filter(w => w.weekday === weekday);
+    if (windows.length === 0) return `not available ${WEEKDAY_NAMES[weekday]}s`;
+    if (!windows.some(w => toMinutes(w.start) <= toMinutes(start) && toMinutes(w.end) >= toMinutes(end))) {
+        return `only available ${windows.map(w => `${w.start}–${w.end}`).join(', ')}`;
+    }
+    return null;
+};
+
+export interface AutoScheduleInput {
+    dates: string[]; // YYYY-MM-DD, in order
+    rules: ScheduleRules;
+    users: User[];
+    availability: StaffAvailability[];
+    existingShifts: Shift[]; // Already on the calendar; they count toward coverage and hours
+    timeOff: TimeOffRequest[];
+    priorShifts?: Shift[]; // Recent history, only used to rotate weekends fairly
+}
+
+/**
+ * Builds a draft schedule that meets the minimum providers and MAs for every
+ * open hour. Each slot goes to the eligible person with the fewest weekend
+ * days worked (on weekends), then the fewest hours that week, then overall.
+ * A person is eligible when they have no approved time off, no other shift
+ * that day, availability covering the slot and room under their weekly maximum.
+ * The same input always gives the same draft. Slots nobody can take are
+ * returned with each candidate's reason.
+ */
+export const buildScheduleDraft = (input: AutoScheduleInput): ScheduleDraft => {
+    const { rules, users, availability, timeOff } = input;
+    const usersById = new Map(users.map(u => [u.id, u]));
+    const staff = users
+        .filter(u => staffingRoleOf(u) !== null)
+        .sort((a, b) => displayName(a).localeCompare(displayName(b)) || a.id.localeCompare(b.id));
+    const profileOf = (userId: string) => availability.find(a => a.user_id === userId);
+
+    const drafts: DraftShift[] = [];
+    const unfilled: UnfilledSlot[] = [];
+    const scheduled = (): Shift[] => [...input.existingShifts, ...drafts.map(d => ({ ...d, id: d.key }))];
+
+    const weekHours = (userId: string, date: string): number => {
+        const week = weekKeyOf(date);
+        return scheduled().filter(s => s.user_id === userId && weekKeyOf(s.date) === week).reduce((sum, s) => sum + shiftHours(s), 0);
+    };
+    const totalHours = (userId: string): number =>
+        scheduled().filter(s => s.user_id === userId).reduce((sum, s) => sum + shiftHours(s), 0);
+    const weekendDays = (userId: string): number =>
+        new Set([...(input.priorShifts || []), ...scheduled()].filter(s => s.user_id === userId && isWeekend(s.date)).map(s => s.date)).size;
+
+    /** Why the user cannot take the slot, or null when they can */
+    const ineligibility = (user: User, date: string, start: string, end: string): string | null => {
+        if (timeOff.some(t => t.user_id === user.id && t.status === 'approved' && t.start_date <= date && t.end_date >= date)) {
+            return 'approved time off';
+        }
+        // Shifts are unique per person and date, so a split day goes to different people
+        const sameDay = scheduled().find(s => s.user_id === user.id && s.date === date);
+        if (sameDay) return `already working ${sameDay.start_time}–${sameDay.end_time} that day`;
+
+        const profile = profileOf(user.id);
+        const outside = outsideAvailability(profile, date, start, end);
+        if (outside) return outside;
+
+        const max = profile?.max_hours_per_week ?? DEFAULT_MAX_HOURS_PER_WEEK;
+        const after = weekHours(user.id, date) + shiftHours({ start_time: start, end_time: end });
+        if (after > max) return `would reach ${round1(after)}h, over the ${max}h weekly maximum`;
+        return null;
+    };
+
+    for (const date of input.dates) {
+        const hours = rules.hours[weekdayOf(date)];
+        if (!hours) continue;
+
+        for (const segment of splitOpenHours(hours.open, hours.close, rules.max_shift_hours)) {
+            for (const role of ['provider', 'ma'] as StaffingRole[]) {
+                const needed = role === 'provider' ? rules.min_providers : rules.min_mas;
+                const covering = () => scheduled().filter(s => {
+                    const user = usersById.get(s.user_id);
+                    return s.date === date && !!user && staffingRoleOf(user) === role
+                        && toMinutes(s.start_time) <= toMinutes(segment.start) && toMinutes(s.end_time) >= toMinutes(segment.end);
+                }).length;
+
+                while (covering() < needed) {
+                    const candidates = staff.filter(u => staffingRoleOf(u) === role);
+                    const rejected: string[] = [];
+                    const eligible = candidates.filter(u => {
+                        const why = ineligibility(u, date, segment.start, segment.end);
+                        if (why) rejected.push(`${displayName(u)}: ${why}`);
+                        return !why;
+                    });
+
+                    if (eligible.length === 0) {
+                        unfilled.push({
+                            date,
+                            start_time: segment.start,
+                            end_time: segment.end,
+                            staffing_role: role,
+                            needed,
+                            filled: covering(),
+                            reasons: candidates.length > 0 ? rejected : [`No ${STAFFING_LABELS[role]} users at this location`]
+                        });
+                        break;
+                    }
+
+                    const weekend = isWeekend(date);
+                    const ranked = eligible
+                        .map(u => ({ user: u, weekend: weekend ? weekendDays(u.id) : 0, week: weekHours(u.id, date), total: totalHours(u.id) }))
+                        .sort((a, b) => a.weekend - b.weekend || a.week - b.week || a.total - b.total);
+                    const pick = ranked[0];
+
+                    drafts.push({
+                        key: `${date}_${segment.start}_${role}_${pick.user.id}`,
+                        user_id: pick.user.id,
+                        date,
+                        start_time: segment.start,
+                        end_time: segment.end,
+                        role_type: role === 'provider' ? 'provider' : 'staff',
+                        notes: 'Auto-scheduled',
+                        staffing_role: role,
+                        reason: `${eligible.length} eligible; ${weekend ? `${pick.weekend} weekend day(s) so far, ` : ''}${round1(pick.week)}h this week`
+                    });
+                }
+            }
+        }
+    }
+
+    return { shifts: drafts, unfilled };
+};
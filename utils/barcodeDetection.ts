@@ -0,0 +1,97 @@
+import { isValidGtin } from './gs1';
+
+// Minimal typing for the Shape Detection API (not yet in lib.dom)
+interface DetectedBarcode {
+    rawValue: string;
+    format: string;
+}
+
+interface BarcodeDetectorInstance {
+    detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+    new (options?: { formats: string[] }): BarcodeDetectorInstance;
+    getSupportedFormats(): Promise<string[]>;
+}
+
+// GS1 DataMatrix and GS1-128 carry lot/expiry; UPC/EAN carry the GTIN only
+const FORMATS = ['data_matrix', 'code_128', 'ean_13', 'ean_8', 'upc_a', 'upc_e', 'qr_code'];
+
+// AIM symbology identifiers, so parseGS1 reads the value the way a hardware
+// scanner would report it. The GS1 variants of the 2D/128 formats are only
+// claimed for data that is a GS1 element string (see toScannedValue).
+const LINEAR_IDS: Record<string, string> = { ean_13: ']E0', upc_a: ']E0', upc_e: ']E0', ean_8: ']E4' };
+const GS1_IDS: Record<string, string> = { data_matrix: ']d2', code_128: ']C1', qr_code: ']Q3' };
+
+const GS = '\u001d';
+
+/**
+ * The detected value with its symbology identifier in front. The detector
+ * drops the leading FNC1 of GS1 symbols, so a GS1 DataMatrix/128/QR is
+ * recognised by a leading GS or by starting with AI 01 and a valid GTIN-14.
+ */
+const toScannedValue = ({ rawValue, format }: DetectedBarcode): string => {
+    if (LINEAR_IDS[format]) return LINEAR_IDS[format] + rawValue;
+    const isGS1 = rawValue.startsWith(GS) || (rawValue.startsWith('01') && isValidGtin(rawValue.slice(2, 16)));
+    return GS1_IDS[format] && isGS1 ? GS1_IDS[format] + rawValue.replace(/^\u001d/, '') : rawValue;
+};
+
+let _detector: BarcodeDetectorInstance | null | undefined;
+
+const getDetector = async (): Promise<BarcodeDetectorInstance | null> => {
+    if (_detector !== undefined) return _detector;
+    const Detector = (globalThis as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) {
+        _detector = null;
+        return null;
+    }
+    try {
+        const supported = await Detector.getSupportedFormats();
+        const formats = FORMATS.filter(f => supported.includes(f));
+        _detector = formats.length > 0 ? new Detector({ formats }) : null;
+    } catch (e) {
+        console.warn('[Barcode] Detector unavailable:', e);
+        _detector = null;
+    }
+    return _detector;
+};
+
+/**
+ * True when the browser can decode barcodes natively (Chrome/Edge on
+ * Android, macOS and ChromeOS).
+ */
+export const isBarcodeDetectionSupported = async (): Promise<boolean> => (await getDetector()) !== null;
+
+/**
+ * Decodes the first barcode in a video frame, canvas or image, prefixed with
+ * its symbology identifier (]E0, ]d2...). Returns null when nothing is found
+ * or detection is unsupported.
+ */
+export const detectBarcode = async (source: ImageBitmapSource): Promise<string | null> => {
+    const detector = await getDetector();
+    if (!detector) return null;
+    try {
+        const results = await detector.detect(source);
+        const found = results.find(r => r.rawValue);
+        return found ? toScannedValue(found) : null;
+    } catch (e) {
+        console.warn('[Barcode] Detection failed:', e);
+        return null;
+    }
+};
+
+/**
+ * Decodes a barcode from a data URL (captured photo or uploaded image).
+ */
+export const detectBarcodeInImage = async (dataUrl: string): Promise<string | null> => {
+    if (!(await getDetector())) return null;
+    const image = new Image();
+    image.src = dataUrl;
+    try {
+        await image.decode();
+    } catch {
+        return null;
+    }
+    return detectBarcode(image);
+};
@@ -0,0 +1,199 @@
+import { BillingContext, BillingDecision, BillingRule, BillingRuleCheck, BillingRuleTrace } from '../types';
+
+const normalize = (value: string | undefined): string => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** The base code of a rule's CPT, e.g. "80053" from "80053-QW" */
+export const ruleBaseCode = (rule: BillingRule): string => rule.cpt.split('-')[0].trim().toUpperCase();
+
+/** Suffix modifiers on the CPT plus the rule's own list, de-duplicated */
+export const ruleModifiers = (rule: BillingRule): string[] => [
+    ...new Set([...rule.cpt.split('-').slice(1), ...(rule.modifiers || [])]
+        .map(m => m.trim().toUpperCase())
+        .filter(Boolean))
+];
+
+/** The code as billed, e.g. "80053-QW" */
+export const formatRuleCode = (rule: BillingRule): string => [ruleBaseCode(rule), ...ruleModifiers(rule)].join('-');
+
+export const ruleKeyOf = (rule: BillingRule): string => rule.ruleKey || rule.id;
+
+/**
+ * Whether the rule only applies to CLIA-waived in-house runs. A QW
+ * modifier implies it when the rule does not say either way.
+ */
+const requiresWaiver = (rule: BillingRule): boolean | undefined =>
+    rule.conditions?.cliaWaived ?? (ruleModifiers(rule).includes('QW') ? true : undefined);
+
+export const todayISO = (): string => new Date().toISOString().split('T')[0];
+
+const addDays = (date: string, days: number): string => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+};
+
+export const isRuleEffective = (rule: BillingRule, date: string): boolean =>
+    (!rule.effectiveFrom || rule.effectiveFrom <= date) && (!rule.effectiveTo || rule.effectiveTo >= date);
+
+/** Rules in force on the date — one version per rule */
+export const currentRules = (rules: BillingRule[], date = todayISO()): BillingRule[] =>
+    rules.filter(r => isRuleEffective(r, date));
+
+/** Every version of a rule, newest first */
+export const ruleVersions = (rules: BillingRule[], rule: BillingRule): BillingRule[] =>
+    rules
+        .filter(r => ruleKeyOf(r) === ruleKeyOf(rule))
+        .sort((a, b) => (b.version ?? 1) - (a.version ?? 1));
+
+/** Short human-readable conditions, for rule cards and the decision summary */
+export const describeRuleConditions = (rule: BillingRule): string[] => {
+    const c = rule.conditions || {};
+    const parts: string[] = [];
+    const waiver = requiresWaiver(rule);
+    if (waiver === true) parts.push('CLIA-waived in-house only');
+    if (waiver === false) parts.push('Reference lab only');
+    if (c.minAge !== undefined && c.maxAge !== undefined) parts.push(`Age ${c.minAge}–${c.maxAge}`);
+    else if (c.minAge !== undefined) parts.push(`Age ${c.minAge}+`);
+    else if (c.maxAge !== undefined) parts.push(`Age ≤ ${c.maxAge}`);
+    if (c.sex) parts.push(c.sex === 'F' ? 'Female only' : 'Male only');
+    if (c.frequency) parts.push(`${c.frequency.maxUnits} per ${c.frequency.periodDays} days`);
+    if (rule.priorAuthRequired) parts.push('Prior auth');
+    return parts;
+};
+
+const formatRange = (rule: BillingRule): string =>
+    `${rule.effectiveFrom || 'always'} → ${rule.effectiveTo || 'open'}`;
+
+const checkRule = (rule: BillingRule, ctx: BillingContext): BillingRuleCheck[] => {
+    const checks: BillingRuleCheck[] = [];
+    const c = rule.conditions || {};
+
+    checks.push({
+        label: 'Effective',
+        passed: isRuleEffective(rule, ctx.dateOfService),
+        detail: `v${rule.version ?? 1}, ${formatRange(rule)}; service ${ctx.dateOfService}`
+    });
+
+    const waiver = requiresWaiver(rule);
+    if (waiver !== undefined) {
+        checks.push({
+            label: 'CLIA waiver',
+            passed: ctx.inHouse === undefined ? null : ctx.inHouse === waiver,
+            detail: waiver
+                ? `Rule requires an in-house CLIA-waived run${ctx.inHouse === false ? '; test went to a reference lab' : ''}`
+                : `Rule requires a reference-lab run${ctx.inHouse ? '; test was run in-house' : ''}`
+        });
+    }
+
+    if (c.minAge !== undefined || c.maxAge !== undefined) {
+        const age = ctx.patient?.age;
+        checks.push({
+            label: 'Age',
+            passed: age === undefined ? null : (c.minAge === undefined || age >= c.minAge) && (c.maxAge === undefined || age <= c.maxAge),
+            detail: `Rule covers ages ${c.minAge ?? 0}–${c.maxAge ?? '∞'}; patient ${age === undefined ? 'age unknown' : `is ${age}`}`
+        });
+    }
+
+    if (c.sex) {
+        const sex = ctx.patient?.sex;
+        checks.push({
+            label: 'Sex',
+            passed: sex === undefined ? null : sex === c.sex,
+            detail: `Rule covers ${c.sex === 'F' ? 'female' : 'male'} patients; patient ${sex === undefined ? 'sex unknown' : `is ${sex === 'F' ? 'female' : 'male'}`}`
+        });
+    }
+
+    if (c.frequency) {
+        const { maxUnits, periodDays } = c.frequency;
+        const since = addDays(ctx.dateOfService, -periodDays);
+        const used = ctx.priorServiceDates?.filter(d => d > since && d <= ctx.dateOfService).length;
+        checks.push({
+            label: 'Frequency',
+            passed: used === undefined ? null : used < maxUnits,
+            detail: used === undefined
+                ? `Limit ${maxUnits} per ${periodDays} days; prior services unknown`
+                : `Limit ${maxUnits} per ${periodDays} days; ${used} billed since ${since}`
+        });
+    }
+
+    return checks;
+};
+
+/** How a rule matches the test being billed: 2 by code, 1 by name, 0 not at all */
+const testMatch = (rule: BillingRule, ctx: BillingContext): number => {
+    if (ctx.code && ruleBaseCode(rule) === ctx.code.split('-')[0].trim().toUpperCase()) return 2;
+    const wanted = normalize(ctx.testName);
+    const name = normalize(rule.testName);
+    if (wanted && name && (wanted === name || name.includes(wanted) || wanted.includes(name))) return 1;
+    return 0;
+};
+
+/**
+ * Answers "for this payer, test and patient: which code, which modifiers,
+ * who is billed and is prior auth needed". Every rule for the payer and test
+ * is checked and kept in the trace. Of the rules whose checks pass, or could
+ * not be run for lack of data, the most specific one fires, so a QW variant
+ * wins over the plain rule for an in-house run. Unchecked conditions become
+ * warnings on the decision.
+ */
+export const evaluateBillingRule = (rules: BillingRule[], ctx: BillingContext): BillingDecision => {
+    const payerNames = new Set([ctx.payer, ...(ctx.payerAliases || [])].map(normalize));
+    const forPayer = rules
+        .map(rule => ({ rule, match: testMatch(rule, ctx) }))
+        .filter(c => c.match > 0 && c.rule.insurers.some(i => payerNames.has(normalize(i))));
+    // A name match only counts when no rule carries the code itself
+    const candidates = forPayer.some(c => c.match === 2) ? forPayer.filter(c => c.match === 2) : forPayer;
+
+    const trace: (BillingRuleTrace & { match: number })[] = candidates.map(({ rule, match }) => {
+        const checks = checkRule(rule, ctx);
+        return { rule, match, checks, matched: checks.every(ch => ch.passed !== false) };
+    });
+
+    const specificity = (t: BillingRuleTrace) => t.checks.filter(ch => ch.passed === true).length;
+    const unverified = (t: BillingRuleTrace) => t.checks.filter(ch => ch.passed === null).length;
+    const fired = trace
+        .filter(t => t.matched)
+        .sort((a, b) =>
+            b.match - a.match
+            || specificity(b) - specificity(a)
+            || unverified(a) - unverified(b)
+            || (b.rule.effectiveFrom || '').localeCompare(a.rule.effectiveFrom || '')
+            || (b.rule.version ?? 1) - (a.rule.version ?? 1))[0];
+
+    const fallbackCode = (ctx.code || '').split('-')[0].trim().toUpperCase();
+    const cleanTrace = trace.map(({ match, ...t }) => t);
+
+    if (!fired) {
+        const failed = trace.flatMap(t => t.checks.filter(ch => ch.passed === false).map(ch => `${t.rule.testName}: ${ch.detail}`));
+        return {
+            rule: null,
+            code: fallbackCode,
+            modifiers: [],
+            billTo: 'lab',
+            priorAuthRequired: false,
+            reason: candidates.length === 0
+                ? `No ${ctx.payer} rule for ${ctx.code || ctx.testName || 'this test'}`
+                : `No ${ctx.payer} rule applies — ${failed.join('; ')}`,
+            warnings: [],
+            trace: cleanTrace
+        };
+    }
+
+    const { rule } = fired;
+    const passed = fired.checks.filter(ch => ch.passed === true && ch.label !== 'Effective').map(ch => ch.label);
+    const warnings = fired.checks.filter(ch => ch.passed === null).map(ch => `Not verified — ${ch.detail}`);
+    if (rule.priorAuthRequired) warnings.unshift(`Prior authorization required by ${ctx.payer}`);
+
+    return {
+        rule,
+        code: ruleBaseCode(rule),
+        modifiers: ruleModifiers(rule),
+        billTo: rule.billToClient ? 'client' : 'lab',
+        priorAuthRequired: !!rule.priorAuthRequired,
+        reason: `${ctx.payer} rule "${rule.testName}" v${rule.version ?? 1} (${formatRange(rule)})`
+            + (fired.match === 1 ? ' matched by test name' : ' matched by code')
+            + (passed.length > 0 ? `; ${passed.join(', ')} conditions met` : ''),
+        warnings,
+        trace: cleanTrace
+    };
+};
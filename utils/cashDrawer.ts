@@ -0,0 +1,65 @@
+import { PettyCashTransaction } from '../types';
+import { DrawerCount, DrawerPettyCash } from '../types/dailyReport';
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+export const DEFAULT_DRAWER_VARIANCE_THRESHOLD = 5;
+
+export const BILL_DENOMINATIONS = ['100', '50', '20', '10', '5', '2', '1'];
+export const COIN_DENOMINATIONS = ['1.00', '0.50', '0.25', '0.10', '0.05', '0.01'];
+
+/** Local calendar date (YYYY-MM-DD) of an ISO timestamp */
+export const localDateOf = (timestamp: string): string => {
+    const d = new Date(timestamp);
+    return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+};
+
+export const emptyDrawer = (openingFloat = 0): DrawerCount => ({
+    openingFloat,
+    denominations: {},
+    checks: [],
+    threshold: DEFAULT_DRAWER_VARIANCE_THRESHOLD
+});
+
+export const formatDenomination = (value: string): string =>
+    Number(value) >= 1 ? `$${Number(value)}` : `${Math.round(Number(value) * 100)}¢`;
+
+export const countedCash = (drawer: DrawerCount): number =>
+    round2(Object.entries(drawer.denominations).reduce((sum, [value, count]) => sum + Number(value) * (count || 0), 0));
+
+/**
+ * Petty cash withdrawals made on the given local date (YYYY-MM-DD). They are
+ * paid out of the drawer, so they lower the cash expected in it.
+ */
+export const pettyCashForDay = (history: PettyCashTransaction[], date: string): DrawerPettyCash[] =>
+    history
+        .filter(t => t.action === 'WITHDRAWAL' && localDateOf(t.timestamp) === date)
+        .map(t => ({ id: t.id, amount: t.amount, reason: t.reason }));
+
+/**
+ * Over/short for the physical drawer. Expected cash is the opening float plus
+ * the cash the day's payments report, less petty cash paid out; counted cash
+ * comes from the denominations. Checks are compared against the reported
+ * check total on their own.
+ */
+export const summarizeDrawer = (drawer: DrawerCount, reported: { cash: number; check: number }) => {
+    const pettyCashOut = round2((drawer.pettyCash || []).reduce((sum, p) => sum + p.amount, 0));
+    const counted = countedCash(drawer);
+    const expected = round2(drawer.openingFloat + reported.cash - pettyCashOut);
+    const checksTotal = round2(drawer.checks.reduce((sum, c) => sum + c, 0));
+    const cashVariance = round2(counted - expected);
+    const checkVariance = round2(checksTotal - reported.check);
+    const needsSignOff = Math.abs(cashVariance) > drawer.threshold || Math.abs(checkVariance) > drawer.threshold;
+    return {
+        counted,
+        expected,
+        pettyCashOut,
+        deposit: round2(counted - drawer.openingFloat),
+        checksTotal,
+        cashVariance,
+        checkVariance,
+        needsSignOff,
+        // A sign-off only covers the variance it was given for
+        isSignedOff: !!drawer.signOff && drawer.signOff.cashVariance === cashVariance && drawer.signOff.checkVariance === checkVariance
+    };
+};
@@ -0,0 +1,41 @@
+import { Order } from '../types';
+
+const round4 = (n: number): number => Math.round(n * 10000) / 10000;
+
+/**
+ * Landed cost per stock unit for each order line: the line's unit cost
+ * divided by units per package, plus its share of shipping and tax. Shared
+ * charges are allocated in proportion to each line's extended cost.
+ */
+export const getLandedUnitCosts = (order: Order): Record<string, number> => {
+    const lineValue = (quantity: number, unitCost: number) => quantity * (unitCost || 0);
+    const merchandise = order.items.reduce((sum, i) => sum + lineValue(i.quantity, i.unitCost), 0);
+    const extras = (order.shippingCost || 0) + (order.totalTax || 0);
+
+    const costs: Record<string, number> = {};
+    order.items.forEach(item => {
+        const unitsPerPackage = item.unitsPerPackage || 1;
+        const share = merchandise > 0
+            ? lineValue(item.quantity, item.unitCost) / merchandise
+            : 1 / order.items.length;
+        const extrasPerPackage = item.quantity > 0 ? (extras * share) / item.quantity : 0;
+        costs[item.id] = round4(((item.unitCost || 0) + extrasPerPackage) / unitsPerPackage);
+    });
+    return costs;
+};
+
+/**
+ * Moving weighted average after receiving `receivedUnits` at `receivedUnitCost`.
+ * Stock with no known cost (or none on hand) takes the receipt cost outright.
+ */
+export const getWeightedAverageCost = (
+    onHand: number,
+    currentAverage: number,
+    receivedUnits: number,
+    receivedUnitCost: number
+): number => {
+    const existing = Math.max(0, onHand);
+    if (receivedUnits <= 0) return currentAverage;
+    if (existing === 0 || !currentAverage) return round4(receivedUnitCost);
+    return round4((existing * currentAverage + receivedUnits * receivedUnitCost) / (existing + receivedUnits));
+};
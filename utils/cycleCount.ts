@@ -0,0 +1,67 @@
+import { InventoryItem, CycleCountLine, CycleCountScope, CycleCountSession } from '../types';
+import { normalizeGtin, parseGS1, stripSymbologyId } from './gs1';
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+export const DEFAULT_VARIANCE_THRESHOLD = 50;
+
+/**
+ * Count sheet for every active item in a storage location or category,
+ * sorted the way staff walk the shelves.
+ */
+export const buildCountSheet = (inventory: InventoryItem[], scopeType: CycleCountScope, scopeValue: string): CycleCountLine[] =>
+    inventory
+        .filter(item => (scopeType === 'LOCATION' ? item.location : item.category) === scopeValue)
+        .sort((a, b) => (a.location || '').localeCompare(b.location || '') || a.name.localeCompare(b.name))
+        .map(item => ({
+            itemId: item.id,
+            name: item.name,
+            sku: item.sku || undefined,
+            unit: item.unit,
+            location: item.location,
+            unitCost: item.averageCost || 0,
+            expectedQty: item.stock
+        }));
+
+export const isCounted = (line: CycleCountLine): boolean => line.countedQty !== undefined && line.countedQty !== null;
+
+/**
+ * Counted minus expected, in units and in dollars at the sheet's unit cost.
+ * Uncounted lines have no variance.
+ */
+export const getLineVariance = (line: CycleCountLine): { units: number; value: number } => {
+    if (!isCounted(line)) return { units: 0, value: 0 };
+    const units = (line.countedQty as number) - line.expectedQty;
+    return { units, value: round2(units * line.unitCost) };
+};
+
+export const needsApproval = (line: CycleCountLine, threshold: number): boolean => {
+    const { units, value } = getLineVariance(line);
+    return units !== 0 && Math.abs(value) > threshold;
+};
+
+export const summarizeCycleCount = (session: CycleCountSession) => {
+    const counted = session.lines.filter(isCounted);
+    const withVariance = counted.filter(l => getLineVariance(l).units !== 0);
+    return {
+        total: session.lines.length,
+        counted: counted.length,
+        withVariance: withVariance.length,
+        needingApproval: withVariance.filter(l => needsApproval(l, session.varianceThreshold)).length,
+        netValue: round2(withVariance.reduce((sum, l) => sum + getLineVariance(l).value, 0)),
+        absoluteValue: round2(withVariance.reduce((sum, l) => sum + Math.abs(getLineVariance(l).value), 0))
+    };
+};
+
+/**
+ * Finds the sheet line for a scanned code: GS1 GTIN first, then SKU, then an
+ * exact name.
+ */
+export const findLineByCode = (lines: CycleCountLine[], code: string): CycleCountLine | undefined => {
+    const needle = stripSymbologyId(code).toLowerCase();
+    if (!needle) return undefined;
+    const gtin = parseGS1(code)?.gtin;
+    return (gtin ? lines.find(l => !!l.sku && normalizeGtin(l.sku) === gtin) : undefined)
+        || lines.find(l => (l.sku || '').toLowerCase() === needle)
+        || lines.find(l => l.name.toLowerCase() === needle);
+};
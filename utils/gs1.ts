@@ -0,0 +1,171 @@
+import { InventoryItem } from '../types';
+
+export interface GS1Data {
+    gtin?: string; // AI 01, normalized to 14 digits
+    lotNumber?: string; // AI 10
+    expiryDate?: string; // AI 17, YYYY-MM-DD
+    serialNumber?: string; // AI 21
+    raw: string;
+}
+
+// ASCII 29 — FNC1 as transmitted by scanners and BarcodeDetector
+const GS = '\u001d';
+
+// AIM symbology identifiers that mark the data as a GS1 element string:
+// GS1-128, GS1 DataMatrix, GS1 QR, GS1 DataBar, GS1 DotCode
+const GS1_SYMBOLOGIES = [']C1', ']d2', ']Q3', ']e0', ']J1'];
+// EAN-8; UPC-E comes through as ]E0 like EAN-13 and UPC-A
+const EAN_8 = ']E4';
+
+// AI length by its first two digits; every other AI has two digits
+const AI_LENGTH: Record<string, number> = {
+    '23': 3, '24': 3, '25': 3, '40': 3, '41': 3, '42': 3, '71': 3,
+    '31': 4, '32': 4, '33': 4, '34': 4, '35': 4, '36': 4, '39': 4,
+    '43': 4, '70': 4, '72': 4, '80': 4, '81': 4, '82': 4
+};
+
+// GS1 predefined-length table: data length of the AIs that are never
+// followed by FNC1, by the AI's first two digits. Anything else is read up to the next GS.
+const FIXED_LENGTH: Record<string, number> = {
+    '00': 18, '01': 14, '02': 14, '03': 14, '04': 16,
+    '11': 6, '12': 6, '13': 6, '14': 6, '15': 6, '16': 6, '17': 6, '18': 6, '19': 6,
+    '20': 2,
+    '31': 6, '32': 6, '33': 6, '34': 6, '35': 6, '36': 6,
+    '41': 13
+};
+
+export const isValidGtin = (digits: string): boolean => {
+    if (!/^\d{8}$|^\d{12,14}$/.test(digits)) return false;
+    const body = digits.slice(0, -1);
+    const sum = body.split('').reverse().reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 3 : 1), 0);
+    return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+};
+
+/**
+ * UPC-E (number system 0 or 1, six digits, check digit) written out as the
+ * 12-digit UPC-A it stands for, or undefined when it is not a valid UPC-E.
+ */
+export const expandUpcE = (code: string): string | undefined => {
+    if (!/^[01]\d{7}$/.test(code)) return undefined;
+    const [ns, x1, x2, x3, x4, x5, x6, check] = code.split('');
+    let body: string;
+    if (x6 <= '2') body = `${x1}${x2}${x6}0000${x3}${x4}${x5}`;
+    else if (x6 === '3') body = `${x1}${x2}${x3}00000${x4}${x5}`;
+    else if (x6 === '4') body = `${x1}${x2}${x3}${x4}00000${x5}`;
+    else body = `${x1}${x2}${x3}${x4}${x5}0000${x6}`;
+    const upcA = `${ns}${body}${check}`;
+    return isValidGtin(upcA) ? upcA : undefined;
+};
+
+/**
+ * The scanned data without the AIM symbology identifier (]d2, ]C1, ]E0...)
+ * a scanner or the in-browser decoder may put in front.
+ */
+export const stripSymbologyId = (value: string): string =>
+    (value || '').trim().replace(/^\][A-Za-z][0-9A-Za-z]/, '');
+
+/**
+ * GTIN-8/12/13/14 padded to 14 digits so UPC, EAN and GS1 codes compare equal.
+ */
+export const normalizeGtin = (code: string): string | undefined => {
+    const digits = (code || '').trim();
+    return isValidGtin(digits) ? digits.padStart(14, '0') : undefined;
+};
+
+/**
+ * GS1 YYMMDD → YYYY-MM-DD. Day 00 means the last day of the month.
+ */
+const parseGS1Date = (yymmdd: string): string | undefined => {
+    if (!/^\d{6}$/.test(yymmdd)) return undefined;
+    const year = 2000 + Number(yymmdd.slice(0, 2));
+    const month = Number(yymmdd.slice(2, 4));
+    let day = Number(yymmdd.slice(4, 6));
+    if (month < 1 || month > 12) return undefined;
+    if (day === 0) day = new Date(year, month, 0).getDate();
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// "(01)09506000134352(17)261231(10)ABC123" — the human-readable form
+const parseBracketed = (text: string): Record<string, string> => {
+    const fields: Record<string, string> = {};
+    const re = /\((\d{2,4})\)([^(]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(text)) !== null) fields[match[1]] = match[2].trim();
+    return fields;
+};
+
+// Element string as encoded in the symbol, variable fields terminated by GS
+const parseElementString = (text: string): Record<string, string> => {
+    const fields: Record<string, string> = {};
+    let i = 0;
+    while (i < text.length) {
+        if (text[i] === GS) { i++; continue; }
+        const prefix = text.slice(i, i + 2);
+        if (!/^\d{2}$/.test(prefix)) break;
+        const aiLength = AI_LENGTH[prefix] || 2;
+        const ai = text.slice(i, i + aiLength);
+        if (ai.length !== aiLength || !/^\d+$/.test(ai)) break;
+        i += ai.length;
+        const length = FIXED_LENGTH[prefix];
+        if (length) {
+            fields[ai] = text.slice(i, i + length);
+            i += length;
+        } else {
+            const end = text.indexOf(GS, i);
+            fields[ai] = text.slice(i, end === -1 ? undefined : end);
+            i = end === -1 ? text.length : end + 1;
+        }
+    }
+    return fields;
+};
+
+/**
+ * Reads a scanned barcode value. GS1 DataMatrix / GS1-128 element strings
+ * yield GTIN (01), lot (10), expiry (17) and serial (21); a plain UPC/EAN
+ * yields just the GTIN. Data is only read as an element string when it says
+ * it is one (a GS1 symbology identifier or a leading FNC1) or is written in
+ * the bracketed human-readable form, so an ordinary Code 128 that happens to
+ * start with digits is not split into AIs. Returns null for anything else.
+ */
+export const parseGS1 = (value: string): GS1Data | null => {
+    const trimmed = (value || '').trim();
+    const symbology = /^\][A-Za-z][0-9A-Za-z]/.test(trimmed) ? trimmed.slice(0, 3) : '';
+    const raw = stripSymbologyId(trimmed);
+    if (!raw) return null;
+
+    // Eight digits are UPC-E unless the scanner says EAN-8
+    const upcA = symbology !== EAN_8 ? expandUpcE(raw) : undefined;
+    const plain = normalizeGtin(upcA || raw);
+    if (plain) return { gtin: plain, raw };
+
+    const isElementString = GS1_SYMBOLOGIES.includes(symbology) || raw.startsWith(GS);
+    if (!isElementString && !raw.startsWith('(')) return null;
+
+    const fields = raw.startsWith('(') ? parseBracketed(raw) : parseElementString(raw);
+    if (!fields['01'] && !fields['10'] && !fields['17']) return null;
+
+    const gtin = fields['01'] ? normalizeGtin(fields['01']) : undefined;
+    if (fields['01'] && !gtin) return null;
+
+    return {
+        gtin,
+        lotNumber: fields['10'] || undefined,
+        expiryDate: fields['17'] ? parseGS1Date(fields['17']) : undefined,
+        serialNumber: fields['21'] || undefined,
+        raw
+    };
+};
+
+/**
+ * Finds the inventory item for a scanned code: GTIN against numeric SKUs,
+ * otherwise the raw code against the SKU as typed.
+ */
+export const findItemByBarcode = (inventory: InventoryItem[], value: string): InventoryItem | undefined => {
+    const gtin = parseGS1(value)?.gtin;
+    if (gtin) {
+        const byGtin = inventory.find(item => item.sku && normalizeGtin(item.sku) === gtin);
+        if (byGtin) return byGtin;
+    }
+    const code = stripSymbologyId(value).toLowerCase();
+    return code ? inventory.find(item => (item.sku || '').trim().toLowerCase() === code) : undefined;
+};
@@ -0,0 +1,150 @@
+/**
+ * iCalendar (RFC 5545) output for schedules. Every event's UID comes from its
+ * row id, so re-importing or refreshing a feed updates events in place rather
+ * than duplicating them. Times are written in UTC, converted from the
+ * location's time zone, so no VTIMEZONE definitions are needed.
+ *
+ * This module has no imports: the calendar-feed edge function loads it too.
+ */
+
+export interface CalendarShift {
+    id: string;
+    date: string; // YYYY-MM-DD
+    start_time: string; // HH:mm
+    end_time: string; // HH:mm
+    notes?: string;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface CalendarTimeOff {
+    id: string;
+    start_date: string; // YYYY-MM-DD
+    end_date: string; // YYYY-MM-DD, inclusive
+    reason?: string;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface CalendarEventText {
+    summary: string;
+    description?: string;
+    location?: string;
+}
+
+const UID_DOMAIN = 'schedule.norvexis';
+
+const pad = (n: number, width = 2): string => String(n).padStart(width, '0');
+
+/** Escapes TEXT values (RFC 5545 §3.3.11) */
+export const escapeText = (value: string): string =>
+    value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Folds a content line to 75 octets, continuing with CRLF and a space (§3.1) */
+export const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let size = 0;
+    for (const char of line) {
+        const bytes = encoder.encode(char).length;
+        const limit = parts.length === 0 ? 75 : 74; // Continuations start with a space
+        if (size + bytes > limit) {
+            parts.push(current);
+            current = '';
+            size = 0;
+        }
+        current += char;
+        size += bytes;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+export const formatUtc = (d: Date): string =>
+    `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+
+const compactDate = (date: string): string => date.replace(/-/g, '');
+
+const nextDate = (date: string): string => {
+    const d = new Date(`${date}T12:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1);
+    return d.toISOString().slice(0, 10);
+};
+
+/** Offset of the time zone from UTC at the instant, in milliseconds */
+const zoneOffset = (instant: number, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(new Date(instant));
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - instant;
+};
+
+/** The UTC instant of a wall-clock date and time in the time zone */
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+    const [y, m, d] = date.split('-').map(Number);
+    const [h, min] = time.split(':').map(Number);
+    const wall = Date.UTC(y, m - 1, d, h || 0, min || 0);
+    // Re-check the offset at the first guess so times next to a DST change land right
+    const guess = wall - zoneOffset(wall, timeZone);
+    return new Date(wall - zoneOffset(guess, timeZone));
+};
+
+const stampOf = (row: { created_at?: string; updated_at?: string }): Date =>
+    new Date(row.updated_at || row.created_at || Date.now());
+
+/**
+ * Properties every event shares. SEQUENCE counts minutes since the epoch at
+ * the last edit, so it only ever grows as the row changes.
+ */
+const eventHeader = (uid: string, row: { created_at?: string; updated_at?: string }, text: CalendarEventText): string[] => {
+    const stamp = stampOf(row);
+    return [
+        'BEGIN:VEVENT',
+        `UID:${uid}`,
+        `DTSTAMP:${formatUtc(stamp)}`,
+        `LAST-MODIFIED:${formatUtc(stamp)}`,
+        `SEQUENCE:${Math.floor(stamp.getTime() / 60000)}`,
+        `SUMMARY:${escapeText(text.summary)}`,
+        ...(text.description ? [`DESCRIPTION:${escapeText(text.description)}`] : []),
+        ...(text.location ? [`LOCATION:${escapeText(text.location)}`] : [])
+    ];
+};
+
+export const shiftEvent = (shift: CalendarShift, timeZone: string, text: CalendarEventText): string[] => {
+    // A shift ending at or before its start runs past midnight
+    const endDate = shift.end_time <= shift.start_time ? nextDate(shift.date) : shift.date;
+    return [
+        ...eventHeader(`shift-${shift.id}@${UID_DOMAIN}`, shift, text),
+        `DTSTART:${formatUtc(zonedTimeToUtc(shift.date, shift.start_time, timeZone))}`,
+        `DTEND:${formatUtc(zonedTimeToUtc(endDate, shift.end_time, timeZone))}`,
+        'TRANSP:OPAQUE',
+        'END:VEVENT'
+    ];
+};
+
+/** All-day event; DTEND is the day after the last day off (§3.6.1) */
+export const timeOffEvent = (request: CalendarTimeOff, text: CalendarEventText): string[] => [
+    ...eventHeader(`timeoff-${request.id}@${UID_DOMAIN}`, request, text),
+    `DTSTART;VALUE=DATE:${compactDate(request.start_date)}`,
+    `DTEND;VALUE=DATE:${compactDate(nextDate(request.end_date))}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+];
+
+/** A complete VCALENDAR with CRLF line endings, ready to serve or download */
+export const buildCalendar = (name: string, timeZone: string, events: string[][]): string => [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Norvexis//Core Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    // Hints for subscribed calendars; most apps refresh on their own schedule regardless
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flat(),
+    'END:VCALENDAR'
+].map(foldLine).join('\r\n') + '\r\n';
@@ -0,0 +1,181 @@
+import { Icd10Code, Icd10Validation } from '../types';
+import { icd10cm } from '../data/icd10cm';
+
+// Letter, digit, alphanumeric, then up to 4 more after the dot
+const ICD10_FORMAT = /^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/;
+// In free text, only parenthesized or dotted codes count, so "Vitamin B12" is not read as a code.
+// A parenthesized code may carry the "— unconfirmed" marker the note writes.
+const ICD10_IN_TEXT = /\(\s*([A-Z][0-9][0-9A-Z](?:\.[0-9A-Z]{1,4})?)\s*(?:—\s*unconfirmed\s*)?\)|\b([A-Z][0-9][0-9A-Z]\.[0-9A-Z]{1,4})\b/;
+
+const BY_CODE = new Map(icd10cm.map(c => [c.code, c]));
+
+// Plain-language and shorthand terms clinicians dictate, mapped to the
+// words the tabular list uses
+const SYNONYMS: Record<string, string[]> = {
+    throat: ['throat', 'pharyngitis'],
+    strep: ['strep'],
+    uti: ['urinary tract infection'],
+    uri: ['upper respiratory'],
+    flu: ['influenza'],
+    cold: ['nasopharyngitis'],
+    ear: ['ear', 'otitis', 'otalgia'],
+    pink: ['conjunctivitis'],
+    eye: ['eye', 'conjunctivitis'],
+    stye: ['hordeolum'],
+    htn: ['hypertension'],
+    dm: ['diabetes'],
+    sob: ['shortness of breath'],
+    gerd: ['reflux'],
+    back: ['back', 'dorsalgia', 'lumbago'],
+    covid: ['covid'],
+};
+
+const LATERALITY_WORDS = /\b(right|left|bilateral|unspecified)\b/g;
+
+/** Uppercases and inserts the dot, so "j029" and "J02.9" compare equal */
+export const normalizeIcd10 = (raw: string): string => {
+    const compact = (raw || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return compact.length > 3 ? `${compact.slice(0, 3)}.${compact.slice(3)}` : compact;
+};
+
+/**
+ * Splits a numbered diagnosis list ("1. Acute pharyngitis (J02.9)") into
+ * descriptions and whatever code each line carries.
+ */
+export const parseDiagnosisList = (text: string): { description: string; code: string }[] =>
+    (text || '').split('\n')
+        .map(line => line.replace(/^\s*(?:\d+[.)]|[-•*])\s*/, '').trim())
+        .filter(Boolean)
+        .map(line => {
+            const match = line.match(ICD10_IN_TEXT);
+            return {
+                description: (match ? line.replace(match[0], ' ') : line).replace(/\s+/g, ' ').replace(/\s+([,.;])/g, '$1').trim(),
+                code: match ? normalizeIcd10(match[1] || match[2]) : ''
+            };
+        });
+
+export const findIcd10 = (code: string): Icd10Code | undefined => BY_CODE.get(normalizeIcd10(code));
+
+const billableUnder = (prefix: string): Icd10Code[] =>
+    icd10cm.filter(c => c.billable && c.code !== prefix && c.code.startsWith(prefix));
+
+/** Billable codes that share the code's nearest header (or 3-character category) */
+const siblingsOf = (code: string): Icd10Code[] => {
+    let parent = code.slice(0, 3);
+    for (let len = code.length - 1; len > 3; len--) {
+        const candidate = code.slice(0, len).replace(/\.$/, '');
+        if (BY_CODE.get(candidate)?.billable === false) {
+            parent = candidate;
+            break;
+        }
+    }
+    return billableUnder(parent).filter(c => c.code !== code);
+};
+
+/** Description with side words removed, to find the lateral variants of a code */
+const lateralityKey = (description: string): string =>
+    description.toLowerCase().replace(LATERALITY_WORDS, '').replace(/[^a-z]+/g, ' ').trim();
+
+/**
+ * Checks a code against the local table. Headers and truncated codes are
+ * rejected with their billable children as suggestions; billable codes
+ * that leave side or type unspecified get warnings with the more specific
+ * alternatives.
+ */
+export const validateIcd10 = (raw: string): Icd10Validation => {
+    const code = normalizeIcd10(raw);
+    const result: Icd10Validation = { code, status: 'valid', errors: [], warnings: [], suggestions: [] };
+
+    if (!code) {
+        return { ...result, status: 'invalid', errors: ['No code entered'] };
+    }
+    if (!ICD10_FORMAT.test(code)) {
+        return { ...result, status: 'invalid', errors: [`"${raw}" is not a valid ICD-10-CM code format`] };
+    }
+
+    const entry = BY_CODE.get(code);
+    if (!entry) {
+        const children = billableUnder(code);
+        if (children.length > 0) {
+            const injury = /^[ST]/.test(code) && children.some(c => c.code.replace('.', '').length === 7);
+            return {
+                ...result,
+                status: 'invalid',
+                errors: [injury
+                    ? `${code} is incomplete — injury codes need a 7th character (A initial, D subsequent, S sequela)`
+                    : `${code} is incomplete — more characters are required to bill`],
+                suggestions: children.slice(0, 8)
+            };
+        }
+        return {
+            ...result,
+            status: 'unknown',
+            warnings: [`${code} is not in the local code table — verify it against the current ICD-10-CM release`]
+        };
+    }
+
+    result.entry = entry;
+    if (!entry.billable) {
+        return {
+            ...result,
+            status: 'invalid',
+            errors: [`${code} (${entry.description}) is a category header and cannot be billed`],
+            suggestions: billableUnder(code).slice(0, 8)
+        };
+    }
+
+    if (/\bunspecified\b/i.test(entry.description)) {
+        const siblings = siblingsOf(code);
+        const key = lateralityKey(entry.description);
+        const lateral = siblings.filter(s => /\b(right|left|bilateral)\b/i.test(s.description) && lateralityKey(s.description) === key);
+        if (lateral.length > 0) {
+            result.warnings.push('Laterality not specified — document the side if known');
+            result.suggestions = lateral;
+        } else {
+            const specific = siblings.filter(s => !/\bunspecified\b/i.test(s.description));
+            if (specific.length > 0) {
+                result.warnings.push('Unspecified code — a more specific code may be supported by the note');
+                result.suggestions = specific.slice(0, 5);
+            }
+        }
+    }
+    return result;
+};
+
+/**
+ * Local search by code prefix ("J02", "j029") or description words. Every
+ * word must match; if nothing does, codes matching at least half the words
+ * are returned instead. Billable codes rank first.
+ */
+export const searchIcd10 = (query: string, limit = 15): Icd10Code[] => {
+    const q = (query || '').trim();
+    if (!q) return [];
+
+    if (/^[A-Z][0-9]/i.test(q)) {
+        const prefix = q.toUpperCase().replace(/[^A-Z0-9]/g, '');
+        return icd10cm
+            .filter(c => c.code.replace('.', '').startsWith(prefix))
+            .sort((a, b) => Number(b.billable) - Number(a.billable) || a.code.localeCompare(b.code))
+            .slice(0, limit);
+    }
+
+    const words = q.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length >= 2);
+    if (words.length === 0) return [];
+
+    const scored = icd10cm.map(entry => {
+        const description = entry.description.toLowerCase();
+        const matched = words.filter(w => (SYNONYMS[w] || [w]).some(term => description.includes(term))).length;
+        return { entry, matched };
+    });
+    const full = scored.filter(s => s.matched === words.length);
+    const pool = full.length > 0 ? full : scored.filter(s => s.matched > 0 && s.matched >= Math.ceil(words.length / 2));
+
+    return pool
+        .sort((a, b) =>
+            b.matched - a.matched
+            || Number(b.entry.billable) - Number(a.entry.billable)
+            || Number(/unspecified/i.test(a.entry.description)) - Number(/unspecified/i.test(b.entry.description))
+            || a.entry.code.localeCompare(b.entry.code))
+        .slice(0, limit)
+        .map(s => s.entry);
+};
@@ -0,0 +1,192 @@
+import { Order, OrderItem, InventoryItem, Vendor, InvoiceMatch, InvoiceMatchLine, InvoiceVarianceKind } from '../types';
+import { ParsedOrderData } from '../services/LocalAIService';
+import { normalizeVendorName, resolveVendor } from './vendorBranding';
+import { getOutstandingQuantity } from './receivingUtils';
+
+type ScannedLine = ParsedOrderData['items'][number];
+
+export type InvoiceMatchReport = Omit<InvoiceMatch, 'id' | 'status' | 'notes' | 'reviewedBy' | 'reviewedAt'>;
+
+// Differences smaller than this are rounding on the vendor's side
+const COST_TOLERANCE = 0.01;
+
+const normalize = (value: string | undefined): string => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+export const isOpenOrder = (order: Order): boolean =>
+    order.status === 'PENDING' || order.status === 'PARTIALLY_RECEIVED';
+
+/**
+ * Finds the open PO a scanned invoice belongs to. The PO number decides and
+ * the invoice's vendor must agree with it; a PO number that fits more than
+ * one order, or only another vendor's, is left for the reviewer to pick.
+ * Without a PO number the vendor must have exactly one open order.
+ */
+export const findOrderForInvoice = (invoice: ParsedOrderData, orders: Order[], vendors: Vendor[]): Order | undefined => {
+    const open = orders.filter(isOpenOrder);
+    const invoiceVendor = resolveVendor(vendors, { vendor: invoice.vendor });
+    const sameVendor = (order: Order) => {
+        const orderVendor = resolveVendor(vendors, order);
+        return invoiceVendor && orderVendor
+            ? invoiceVendor.id === orderVendor.id
+            : normalizeVendorName(order.vendor) === normalizeVendorName(invoice.vendor);
+    };
+
+    const po = normalize(invoice.poNumber);
+    if (po) {
+        const byPo = open.filter(o => {
+            const orderPo = normalize(o.poNumber);
+            return orderPo === po || (orderPo.length >= 4 && po.length >= 4 && (orderPo.includes(po) || po.includes(orderPo)));
+        });
+        if (byPo.length > 0) {
+            const candidates = invoice.vendor ? byPo.filter(sameVendor) : byPo;
+            return candidates.length === 1 ? candidates[0] : undefined;
+        }
+    }
+
+    const byVendor = open.filter(sameVendor);
+    return byVendor.length === 1 ? byVendor[0] : undefined;
+};
+
+/**
+ * Pairs each PO line with at most one scanned line — SKU first, then exact
+ * name, then one name containing the other.
+ */
+const pairLines = (
+    items: OrderItem[],
+    scanned: ScannedLine[],
+    skuOf: (item: OrderItem) => string
+): { pairs: Map<string, ScannedLine>; unmatched: ScannedLine[] } => {
+    const remaining = [...scanned];
+    const pairs = new Map<string, ScannedLine>();
+
+    const take = (predicate: (item: OrderItem, line: ScannedLine) => boolean) => {
+        items.forEach(item => {
+            if (pairs.has(item.id)) return;
+            const idx = remaining.findIndex(line => predicate(item, line));
+            if (idx >= 0) pairs.set(item.id, remaining.splice(idx, 1)[0]);
+        });
+    };
+
+    take((item, line) => !!skuOf(item) && skuOf(item) === normalize(line.sku));
+    take((item, line) => normalize(item.name) === normalize(line.name));
+    take((item, line) => {
+        const a = normalize(item.name);
+        const b = normalize(line.name);
+        return a.length >= 4 && b.length >= 4 && (a.includes(b) || b.includes(a));
+    });
+
+    return { pairs, unmatched: remaining };
+};
+
+/**
+ * Three-way match: PO (ordered qty and cost), packing slip (shipped qty) and
+ * invoice (billed qty, cost, tax and shipping). The invoice is expected to
+ * bill what the packing slip shows, or everything still outstanding when no
+ * slip was scanned.
+ */
+export const buildInvoiceMatchReport = (
+    order: Order,
+    invoice: ParsedOrderData,
+    packingSlip: ParsedOrderData | null,
+    inventory: InventoryItem[]
+): InvoiceMatchReport => {
+    const skuOf = (item: OrderItem) =>
+        normalize(inventory.find(inv => inv.id === item.inventoryItemId)?.sku);
+
+    const billed = pairLines(order.items, invoice.items || [], skuOf);
+    const shipped = packingSlip ? pairLines(order.items, packingSlip.items || [], skuOf).pairs : null;
+
+    const lines: InvoiceMatchLine[] = order.items.map(item => {
+        const invoiceLine = billed.pairs.get(item.id);
+        const slipLine = shipped?.get(item.id);
+        const shippedQty = shipped ? Number(slipLine?.quantity || 0) : undefined;
+        const expectedQty = shippedQty ?? getOutstandingQuantity(item);
+        const invoicedQty = Number(invoiceLine?.quantity || 0);
+        const invoiceUnitCost = invoiceLine ? Number(invoiceLine.unitCost || 0) : item.unitCost;
+
+        const variances: InvoiceVarianceKind[] = [];
+        if (!invoiceLine) {
+            if (expectedQty > 0) variances.push('NOT_BILLED');
+        } else {
+            if (invoicedQty !== expectedQty) variances.push('QUANTITY');
+            if (Math.abs(invoiceUnitCost - item.unitCost) > COST_TOLERANCE) variances.push('UNIT_COST');
+        }
+
+        return {
+            orderItemId: item.id,
+            name: item.name,
+            sku: invoiceLine?.sku || undefined,
+            orderedQty: item.quantity,
+            shippedQty,
+            expectedQty,
+            invoicedQty,
+            poUnitCost: item.unitCost,
+            invoiceUnitCost,
+            variances,
+            amount: round2(invoicedQty * invoiceUnitCost - expectedQty * item.unitCost)
+        };
+    });
+
+    billed.unmatched.forEach(line => {
+        const qty = Number(line.quantity || 0);
+        const cost = Number(line.unitCost || 0);
+        lines.push({
+            name: line.name,
+            sku: line.sku || undefined,
+            orderedQty: 0,
+            expectedQty: 0,
+            invoicedQty: qty,
+            poUnitCost: 0,
+            invoiceUnitCost: cost,
+            variances: ['NOT_ON_PO'],
+            amount: round2(qty * cost)
+        });
+    });
+
+    // Tax and shipping are compared pro rata when only part of the order is billed
+    const orderedValue = order.items.reduce((sum, i) => sum + i.quantity * i.unitCost, 0);
+    const expectedValue = lines.reduce((sum, l) => sum + l.expectedQty * l.poUnitCost, 0);
+    const share = orderedValue > 0 ? Math.min(1, expectedValue / orderedValue) : 1;
+
+    const invoiceSubtotal = Number(invoice.subtotal) || lines.reduce((sum, l) => sum + l.invoicedQty * l.invoiceUnitCost, 0);
+    const invoiceTax = Number(invoice.totalTax || 0);
+    const invoiceShipping = Number(invoice.shippingCost || 0);
+    const invoiceTotal = Number(invoice.grandTotal) || invoiceSubtotal + invoiceTax + invoiceShipping;
+
+    const subtotalVariance = round2(invoiceSubtotal - expectedValue);
+    const taxVariance = round2(invoiceTax - order.totalTax * share);
+    const shippingVariance = round2(invoiceShipping - order.shippingCost * share);
+    const totalVariance = round2(invoiceTotal - (expectedValue + (order.totalTax + order.shippingCost) * share));
+
+    const hasDiscrepancies =
+        lines.some(l => l.variances.length > 0) ||
+        [subtotalVariance, taxVariance, shippingVariance].some(v => Math.abs(v) > COST_TOLERANCE);
+
+    return {
+        orderId: order.id,
+        invoiceNumber: (invoice.invoiceNumber || '').trim(),
+        vendor: invoice.vendor || order.vendor,
+        lines,
+        subtotalVariance,
+        taxVariance,
+        shippingVariance,
+        totalVariance,
+        invoiceTotal: round2(invoiceTotal),
+        hasDiscrepancies
+    };
+};
+
+/**
+ * Quantities to pre-fill when receiving after an approved match: what the
+ * packing slip shows, else what was billed.
+ */
+export const getReceivingQuantities = (report: InvoiceMatchReport): Record<string, number> => {
+    const quantities: Record<string, number> = {};
+    report.lines.forEach(line => {
+        if (!line.orderItemId) return;
+        quantities[line.orderItemId] = line.shippedQty ?? line.invoicedQty;
+    });
+    return quantities;
+};
@@ -0,0 +1,108 @@
+import { InventoryItem, InventoryLot } from '../types';
+
+export interface LotDraw {
+    lotId: string;
+    stockLevelId: string;
+    lotNumber: string;
+    quantity: number;
+    remaining: number;
+}
+
+export interface ExpiringLotRow {
+    item: InventoryItem;
+    lotNumber: string;
+    expiryDate: string;
+    quantity: number;
+    daysLeft: number;
+}
+
+const expiryTime = (lot: InventoryLot): number =>
+    lot.expiryDate ? new Date(lot.expiryDate).getTime() : Infinity;
+
+/**
+ * First-Expired-First-Out ordering. Lots without an expiry go last;
+ * ties fall back to the oldest receipt.
+ */
+export const sortLotsFEFO = (lots: InventoryLot[]): InventoryLot[] => {
+    return [...lots].sort((a, b) => {
+        const diff = expiryTime(a) - expiryTime(b);
+        if (diff !== 0 && !isNaN(diff)) return diff;
+        return (a.receivedAt || '').localeCompare(b.receivedAt || '');
+    });
+};
+
+/**
+ * Plans which lots a consumption of `quantity` units draws from.
+ * `shortfall` is whatever could not be covered by the available lots.
+ */
+export const planFefoDraw = (lots: InventoryLot[], quantity: number): { draws: LotDraw[]; shortfall: number } => {
+    const draws: LotDraw[] = [];
+    let outstanding = quantity;
+
+    for (const lot of sortLotsFEFO(lots)) {
+        if (outstanding <= 0) break;
+        if (lot.quantity <= 0) continue;
+        const take = Math.min(lot.quantity, outstanding);
+        draws.push({
+            lotId: lot.id,
+            stockLevelId: lot.stockLevelId,
+            lotNumber: lot.lotNumber,
+            quantity: take,
+            remaining: lot.quantity - take
+        });
+        outstanding -= take;
+    }
+
+    return { draws, shortfall: Math.max(0, outstanding) };
+};
+
+/**
+ * Item-level mirror of a lot set: total stock plus the expiry and batch
+ * of the lot that will be consumed next.
+ */
+export const summarizeLots = (lots: InventoryLot[]): { stock: number; expiryDate: string; batchNumber: string } => {
+    const active = sortLotsFEFO(lots.filter(l => l.quantity > 0));
+    return {
+        stock: active.reduce((sum, l) => sum + l.quantity, 0),
+        expiryDate: active[0]?.expiryDate || '',
+        batchNumber: active[0]?.lotNumber || ''
+    };
+};
+
+/**
+ * Local patch for an item edit that also moved stock. The lot layer's result
+ * supplies stock, lots and the lot-derived expiry/batch; every other edited
+ * field wins over the pre-edit snapshot the lot layer started from.
+ */
+export const mergeStockAdjustment = (updates: Partial<InventoryItem>, adjusted?: InventoryItem): Partial<InventoryItem> =>
+    adjusted ? { ...adjusted, ...updates, stock: adjusted.stock } : updates;
+
+/**
+ * Expiring (or expired) stock within `withinDays`, one row per lot.
+ * Items that are not lot-tracked yet contribute a single row from their
+ * item-level expiry and batch.
+ */
+export const getExpiringLots = (items: InventoryItem[], withinDays: number = 30): ExpiringLotRow[] => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const rows: ExpiringLotRow[] = [];
+
+    const push = (item: InventoryItem, lotNumber: string, expiryDate: string, quantity: number) => {
+        if (!expiryDate) return;
+        const exp = new Date(expiryDate);
+        if (isNaN(exp.getTime())) return;
+        exp.setHours(0, 0, 0, 0);
+        const daysLeft = Math.ceil((exp.getTime() - today.getTime()) / 86400000);
+        if (daysLeft <= withinDays) rows.push({ item, lotNumber, expiryDate, quantity, daysLeft });
+    };
+
+    for (const item of items) {
+        if (item.lots && item.lots.length > 0) {
+            item.lots.filter(l => l.quantity > 0).forEach(l => push(item, l.lotNumber, l.expiryDate, l.quantity));
+        } else {
+            push(item, item.batchNumber, item.expiryDate, item.stock);
+        }
+    }
+
+    return rows.sort((a, b) => a.daysLeft - b.daysLeft);
+};
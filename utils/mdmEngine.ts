@@ -5,6 +5,8 @@
  *
  * Based on AMA CPT 2026 Office Visit E/M Guidelines:
  *   Level = highest 2 of 3 elements (Problems, Data, Risk)
+ *   — or total time on the date of service, whichever supports the
+ *   higher code. Prolonged service (99417) is added on time-based visits.
  */
 
 // ─── Types ──────────────────────────────────────────────────────────────────
@@ -42,24 +44,76 @@ export interface ClinicalData {
   diagnoses: string[];
   planItems: string[];
   isNewPatient: boolean;
+  /** Total practitioner time on the date of service, when documented */
+  time?: {
+    totalMinutes: number;
+    activities: TimeActivity[];
+  };
+}
+
+/** Practitioner activities that count toward total time (CPT) */
+export type TimeActivity =
+  | 'preparing'          // Reviewing tests/records before the visit
+  | 'history'            // Obtaining/reviewing separately obtained history
+  | 'examination'
+  | 'counseling'         // Counseling/educating patient, family, caregiver
+  | 'ordering'           // Ordering medications, tests, procedures
+  | 'referral'           // Referring/communicating with other professionals
+  | 'documenting'        // Documenting in the record
+  | 'interpretation'     // Independently interpreting results (not separately reported)
+  | 'care_coordination';
+
+export const TIME_ACTIVITY_LABELS: Record<TimeActivity, string> = {
+  preparing: 'Preparing to see the patient',
+  history: 'Obtaining/reviewing history',
+  examination: 'Examination',
+  counseling: 'Counseling/education',
+  ordering: 'Ordering tests/medications',
+  referral: 'Referral/communication with other professionals',
+  documenting: 'Documentation',
+  interpretation: 'Independent interpretation of results',
+  care_coordination: 'Care coordination',
+};
+
+export interface MDMAddOn {
+  code: string;
+  units: number;
+  description: string;
+}
+
+export interface TimeScore {
+  minutes: number;
+  /** Null when the time is below the lowest time-based threshold */
+  level: MDMLevel | null;
+  cptCode: string | null;
+  reasoning: string;
 }
 
 export interface MDMResult {
   level: MDMLevel;
   cptCode: string;
   cptDescription: string;
+  /** Which method supported the reported code */
+  method: 'mdm' | 'time';
+  /** Why that method won, for the provider to review */
+  rationale: string;
+  /** MDM-only level and code, before comparing with time */
+  mdmLevel: MDMLevel;
+  mdmCptCode: string;
   breakdown: {
     problems: { level: MDMLevel; reasoning: string };
     data: { level: MDMLevel; reasoning: string };
     risk: { level: MDMLevel; reasoning: string };
   };
+  time?: TimeScore;
+  addOns: MDMAddOn[];
   gaps: MDMGap[];
 }
 
 export interface MDMGap {
   targetLevel: MDMLevel;
   targetCPT: string;
-  element: 'problems' | 'data' | 'risk';
+  element: 'problems' | 'data' | 'risk' | 'time';
   currentLevel: MDMLevel;
   suggestion: string;
 }
@@ -92,6 +146,19 @@ const CPT_CODES: Record<string, Record<MDMLevel, { code: string; desc: string }>
   },
 };
 
+// ─── Time Thresholds ────────────────────────────────────────────────────────
+// Minimum total minutes for each level (must be met or exceeded).
+// 99211 is not selectable by time, so established visits start at 99212.
+
+const TIME_THRESHOLDS: Record<string, Record<MDMLevel, number>> = {
+  established: { straightforward: 10, low: 20, moderate: 30, high: 40 },
+  new: { straightforward: 15, low: 30, moderate: 45, high: 60 },
+};
+
+/** Each full 15 minutes beyond the high-level threshold adds a unit of 99417 */
+const PROLONGED_CODE = '99417';
+const PROLONGED_UNIT_MINUTES = 15;
+
 // ─── Scoring Functions ──────────────────────────────────────────────────────
 
 function scoreProblems(data: ClinicalData['problems']): { level: MDMLevel; reasoning: string } {
@@ -174,6 +241,32 @@ function scoreRisk(data: ClinicalData['risk']): { level: MDMLevel; reasoning: st
   return { level: 'straightforward', reasoning: 'Minimal treatment or management' };
 }
 
+function scoreTime(time: NonNullable<ClinicalData['time']>, patientType: 'new' | 'established'): TimeScore {
+  const minutes = time.totalMinutes;
+  const thresholds = TIME_THRESHOLDS[patientType];
+  const level = [...LEVEL_FROM_NUM].reverse().find(l => minutes >= thresholds[l]) ?? null;
+  const activities = time.activities.length > 0
+    ? time.activities.map(a => TIME_ACTIVITY_LABELS[a].toLowerCase()).join(', ')
+    : 'no activities documented';
+
+  if (!level) {
+    return {
+      minutes, level: null, cptCode: null,
+      reasoning: `${minutes} min total is below the ${thresholds.straightforward} min minimum for a time-based visit`,
+    };
+  }
+  return {
+    minutes, level,
+    cptCode: CPT_CODES[patientType][level].code,
+    reasoning: `${minutes} min total (≥${thresholds[level]} min for ${CPT_CODES[patientType][level].code}): ${activities}`,
+  };
+}
+
+function prolongedUnits(minutes: number, patientType: 'new' | 'established'): number {
+  const base = TIME_THRESHOLDS[patientType].high;
+  return Math.max(0, Math.floor((minutes - base) / PROLONGED_UNIT_MINUTES));
+}
+
 // ─── Gap Analysis ───────────────────────────────────────────────────────────
 
 function findGaps(
@@ -251,19 +344,62 @@ export function scoreMDM(data: ClinicalData): MDMResult {
     LEVEL_ORDER[risk.level],
   ].sort((a, b) => b - a); // descending
 
-  const effectiveLevel = LEVEL_FROM_NUM[levels[1]]; // second highest
+  const mdmLevel = LEVEL_FROM_NUM[levels[1]]; // second highest
 
   const patientType = data.isNewPatient ? 'new' : 'established';
+  const mdmCpt = CPT_CODES[patientType][mdmLevel];
+
+  // Time wins when it supports a higher code, or the same high-level code
+  // plus prolonged-service units (99417 is only reportable on time-based
+  // visits). Other ties stay with MDM.
+  const time = data.time && data.time.totalMinutes > 0 ? scoreTime(data.time, patientType) : undefined;
+  const units = time?.level === 'high' ? prolongedUnits(time.minutes, patientType) : 0;
+  const useTime = !!time?.level && (
+    LEVEL_ORDER[time.level] > LEVEL_ORDER[mdmLevel] || (mdmLevel === 'high' && units > 0)
+  );
+  const effectiveLevel = useTime ? time!.level! : mdmLevel;
   const cpt = CPT_CODES[patientType][effectiveLevel];
 
+  const addOns: MDMAddOn[] = [];
+  if (useTime && units > 0) {
+    addOns.push({
+      code: PROLONGED_CODE, units,
+      description: `Prolonged service, ${units} × ${PROLONGED_UNIT_MINUTES} min beyond ${TIME_THRESHOLDS[patientType].high} min`,
+    });
+  }
+
+  const mdmSummary = `MDM ${mdmLevel} (${mdmCpt.code}): Problems ${problems.level}, Data ${dataScore.level}, Risk ${risk.level}`;
+  const rationale = useTime
+    ? `Coded by time — ${time!.reasoning}. Time supports ${cpt.code}${addOns.length > 0 ? ` + ${PROLONGED_CODE} ×${units}` : ''} vs ${mdmSummary}.`
+    : time?.level
+      ? `Coded by MDM — ${mdmSummary}. Documented time (${time.minutes} min) supports ${time.cptCode}, which is not higher.`
+      : `Coded by MDM — ${mdmSummary}.`;
+
   const breakdown = { problems, data: dataScore, risk };
   const gaps = findGaps(breakdown, effectiveLevel, data);
+  if (time && effectiveLevel !== 'high') {
+    const targetLevel = LEVEL_FROM_NUM[LEVEL_ORDER[effectiveLevel] + 1];
+    const needed = TIME_THRESHOLDS[patientType][targetLevel];
+    gaps.push({
+      targetLevel,
+      targetCPT: CPT_CODES[patientType][targetLevel].code,
+      element: 'time',
+      currentLevel: time.level ?? 'straightforward',
+      suggestion: `Total time of ${needed} min or more on the date of service would support this level (${time.minutes} min documented)`,
+    });
+  }
 
   return {
     level: effectiveLevel,
     cptCode: cpt.code,
     cptDescription: cpt.desc,
+    method: useTime ? 'time' : 'mdm',
+    rationale,
+    mdmLevel,
+    mdmCptCode: mdmCpt.code,
     breakdown,
+    time,
+    addOns,
     gaps,
   };
 }
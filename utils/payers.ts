@@ -0,0 +1,70 @@
+import { Payer, PayerType } from '../types';
+
+export const PAYER_TYPE_LABELS: Record<PayerType, string> = {
+    MEDICAID: 'Medicaid',
+    MEDICARE: 'Medicare',
+    COMMERCIAL: 'Commercial',
+    WORKERS_COMP: "Workers' Comp",
+    SELF_PAY: 'Self-Pay',
+    OTHER: 'Other',
+};
+
+// Labels for the report keys the daily close used before the payer list
+// existed, so those reports still read correctly if a payer is removed
+const LEGACY_REPORT_LABELS: Record<string, string> = {
+    medicaid: 'Medicaid',
+    bcbs_il: 'BCBS IL',
+    meridian: 'Meridian',
+    commercial: 'Commercial',
+    medicare: 'Medicare',
+    workersComp: "Workers' Comp",
+    selfPay: 'Self-Pay',
+};
+
+export const normalizePayerName = (name: string): string => (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const sortPayers = (payers: Payer[]): Payer[] =>
+    [...payers].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+
+/** Exact match on the payer's name or one of its aliases, ignoring case and punctuation */
+export const findPayer = (payers: Payer[], name: string): Payer | undefined => {
+    const wanted = normalizePayerName(name);
+    if (!wanted) return undefined;
+    return payers.find(p => normalizePayerName(p.name) === wanted)
+        || payers.find(p => p.aliases.some(a => normalizePayerName(a) === wanted));
+};
+
+/** Every name a payer goes by, for matching free-text insurer lists on billing rules */
+export const payerNames = (payer: Payer): string[] => [payer.name, ...payer.aliases];
+
+/** Whether an insurer list (e.g. BillingRule.insurers) names the payer under any of its names */
+export const listIncludesPayer = (insurers: string[], payer: Payer): boolean => {
+    const names = new Set(payerNames(payer).map(normalizePayerName));
+    return insurers.some(i => names.has(normalizePayerName(i)));
+};
+
+/** Display label for a daily report key, including keys of retired or removed payers */
+export const payerReportLabel = (payers: Payer[], key: string): string =>
+    payers.find(p => p.reportKey === key)?.name
+    || LEGACY_REPORT_LABELS[key]
+    || key.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+
+/** A report key for a new payer: its name in snake case, suffixed if already taken */
+export const makeReportKey = (name: string, payers: Payer[]): string => {
+    const base = (name || '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'payer';
+    const taken = new Set([...payers.map(p => p.reportKey), ...Object.keys(LEGACY_REPORT_LABELS)]);
+    let key = base;
+    for (let n = 2; taken.has(key); n++) key = `${base}_${n}`;
+    return key;
+};
+
+/**
+ * Payers to count in the daily close: the active ones shown there, plus any
+ * other key the report being edited already has a count for, so a retired
+ * payer's numbers stay visible and editable.
+ */
+export const dailyCloseKeys = (payers: Payer[], existing: Record<string, number> = {}): string[] => {
+    const keys = sortPayers(payers).filter(p => p.isActive && p.showInDailyClose).map(p => p.reportKey);
+    const extra = Object.keys(existing).filter(k => !keys.includes(k) && (existing[k] || 0) !== 0);
+    return [...keys, ...extra];
+};
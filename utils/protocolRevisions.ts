@@ -0,0 +1,79 @@
+import { Protocol, ProtocolAcknowledgment, ProtocolRevision, ProtocolTargetRole, User } from '../types';
+
+/**
+ * Staff who must sign a protocol. Sign-off is tracked for the operational
+ * roles only; owners and managers are never counted.
+ */
+export const protocolAudience = (users: User[], targetRole?: ProtocolTargetRole): User[] => {
+    if (targetRole === 'MEDICAL_ONLY') return users.filter(u => u.role === 'MA' || u.role === 'DOCTOR');
+    if (targetRole === 'FRONT_DESK_ONLY') return users.filter(u => u.role === 'FRONT_DESK');
+    return users.filter(u => u.role === 'MA' || u.role === 'FRONT_DESK' || u.role === 'DOCTOR');
+};
+
+/** Whether a signature still counts after later minor or material changes */
+export const isSignatureCurrent = (ack: Pick<ProtocolAcknowledgment, 'version'>, protocol: Pick<Protocol, 'ackVersion'>): boolean =>
+    ack.version >= protocol.ackVersion;
+
+/** A person's most recent signature on the protocol, if any */
+export const latestSignature = (acks: ProtocolAcknowledgment[], protocolId: string, userId: string): ProtocolAcknowledgment | undefined =>
+    acks
+        .filter(a => a.protocolId === protocolId && a.userId === userId)
+        .sort((a, b) => b.version - a.version)[0];
+
+export interface TextDiffLine {
+    kind: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+/** Line diff by longest common subsequence, in reading order */
+export const diffLines = (before: string, after: string): TextDiffLine[] => {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    // lcs[i][j] = common lines between a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: TextDiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ kind: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            lines.push({ kind: 'removed', text: a[i++] });
+        } else {
+            lines.push({ kind: 'added', text: b[j++] });
+        }
+    }
+    while (i < a.length) lines.push({ kind: 'removed', text: a[i++] });
+    while (j < b.length) lines.push({ kind: 'added', text: b[j++] });
+    return lines;
+};
+
+/** Readable before → after for the settings around the text, e.g. severity or audience */
+export const revisionFieldChanges = (previous: ProtocolRevision, next: ProtocolRevision): { label: string; before: string; after: string }[] => {
+    const list = (items: { text?: string; question?: string }[]) => items.map(item => item.text ?? item.question).join('; ') || '—';
+    const fields: [string, string, string][] = [
+        ['Title', previous.title, next.title],
+        ['Severity', previous.severity, next.severity],
+        ['Area', previous.area.replace('_', ' '), next.area.replace('_', ' ')],
+        ['Type', previous.type, next.type],
+        ['Audience', (previous.targetRole || 'ALL_STAFF').replace('_', ' '), (next.targetRole || 'ALL_STAFF').replace('_', ' ')],
+        ['Requires signature', previous.requiresAcknowledgment ? 'Yes' : 'No', next.requiresAcknowledgment ? 'Yes' : 'No'],
+        ['Video', previous.videoUrl || '—', next.videoUrl || '—'],
+        ['Checklist', list(previous.checklists), list(next.checklists)],
+        ['Quiz', JSON.stringify(previous.quizzes), JSON.stringify(next.quizzes)]
+    ];
+    return fields
+        .filter(([, before, after]) => before !== after)
+        .map(([label, before, after]) => label === 'Quiz'
+            ? { label, before: `${previous.quizzes.length} question(s)`, after: `${next.quizzes.length} question(s)${previous.quizzes.length === next.quizzes.length ? ' (edited)' : ''}` }
+            : { label, before, after });
+};
@@ -0,0 +1,447 @@
+import {
+    FormTemplate, InventoryItem, Order, OrderItem, PettyCashTransaction, Protocol,
+    QueryDatePreset, QueryDateRange, QueryEntity, QueryExecution, QueryFilter, QueryGroupResult, QueryPlan
+} from '../types';
+import { DailyReport } from '../types/dailyReport';
+
+type FieldType = 'number' | 'string' | 'date' | 'boolean';
+type FieldValue = string | number | boolean | null;
+
+interface FieldDef<T> {
+    type: FieldType;
+    description: string;
+    get: (row: T) => FieldValue;
+}
+
+interface EntityDef<T> {
+    description: string;
+    dateField?: string; // Field the plan's dateRange applies to
+    rows: (data: QueryDataset) => T[];
+    fields: Record<string, FieldDef<T>>;
+}
+
+export interface QueryDataset {
+    inventory: InventoryItem[];
+    orders: Order[];
+    dailyReports: DailyReport[];
+    pettyCash: PettyCashTransaction[];
+    protocols: Protocol[];
+    templates: FormTemplate[];
+}
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+const toDateKey = (d: Date): string => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+/**
+ * Local calendar date of a stored value. Plain YYYY-MM-DD strings are kept
+ * as-is (new Date() would read them as UTC midnight and shift the day).
+ */
+const dateOf = (value: string | undefined | null): string | null => {
+    if (!value) return null;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? null : toDateKey(d);
+};
+
+type OrderLine = { order: Order; item: OrderItem };
+
+const ENTITIES: Record<QueryEntity, EntityDef<any>> = {
+    inventory: {
+        description: 'Current stock, one row per item',
+        dateField: 'expiryDate',
+        rows: data => data.inventory,
+        fields: {
+            name: { type: 'string', description: 'Item name', get: (i: InventoryItem) => i.name },
+            category: { type: 'string', description: 'Item category', get: (i: InventoryItem) => i.category },
+            location: { type: 'string', description: 'Storage location', get: (i: InventoryItem) => i.location },
+            unit: { type: 'string', description: 'Unit of measure', get: (i: InventoryItem) => i.unit },
+            sku: { type: 'string', description: 'SKU / GTIN', get: (i: InventoryItem) => i.sku || null },
+            stock: { type: 'number', description: 'Units on hand', get: (i: InventoryItem) => i.stock },
+            minStock: { type: 'number', description: 'Reorder point', get: (i: InventoryItem) => i.minStock },
+            maxStock: { type: 'number', description: 'Par level', get: (i: InventoryItem) => i.maxStock },
+            averageCost: { type: 'number', description: 'Weighted-average cost per unit ($)', get: (i: InventoryItem) => i.averageCost || 0 },
+            value: { type: 'number', description: 'Stock value: stock × averageCost ($)', get: (i: InventoryItem) => round2(i.stock * (i.averageCost || 0)) },
+            expiryDate: { type: 'date', description: 'Earliest expiry date', get: (i: InventoryItem) => dateOf(i.expiryDate) },
+            lastChecked: { type: 'date', description: 'Last audited', get: (i: InventoryItem) => dateOf(i.lastChecked) },
+            isLowStock: { type: 'boolean', description: 'stock <= minStock', get: (i: InventoryItem) => i.stock <= i.minStock }
+        }
+    },
+    orders: {
+        description: 'Purchase orders, one row per PO',
+        dateField: 'orderDate',
+        rows: data => data.orders,
+        fields: {
+            poNumber: { type: 'string', description: 'PO number', get: (o: Order) => o.poNumber },
+            vendor: { type: 'string', description: 'Vendor name', get: (o: Order) => o.vendor },
+            status: { type: 'string', description: 'DRAFT | PENDING | PARTIALLY_RECEIVED | RECEIVED | CANCELLED', get: (o: Order) => o.status },
+            orderDate: { type: 'date', description: 'Date ordered', get: (o: Order) => dateOf(o.orderDate) },
+            expectedDate: { type: 'date', description: 'Expected delivery', get: (o: Order) => dateOf(o.expectedDate) },
+            receivedAt: { type: 'date', description: 'Last shipment received', get: (o: Order) => dateOf(o.receivedAt) },
+            subtotal: { type: 'number', description: 'Line total before shipping/tax ($)', get: (o: Order) => o.subtotal },
+            shippingCost: { type: 'number', description: 'Shipping ($)', get: (o: Order) => o.shippingCost },
+            totalTax: { type: 'number', description: 'Tax ($)', get: (o: Order) => o.totalTax },
+            grandTotal: { type: 'number', description: 'Total spend on the PO ($)', get: (o: Order) => o.grandTotal },
+            lineCount: { type: 'number', description: 'Number of lines', get: (o: Order) => o.items.length }
+        }
+    },
+    order_lines: {
+        description: 'Purchase order lines, one row per item ordered',
+        dateField: 'orderDate',
+        rows: data => data.orders.flatMap(order => order.items.map(item => ({ order, item }))),
+        fields: {
+            poNumber: { type: 'string', description: 'PO number', get: (l: OrderLine) => l.order.poNumber },
+            vendor: { type: 'string', description: 'Vendor name', get: (l: OrderLine) => l.order.vendor },
+            status: { type: 'string', description: 'Order status', get: (l: OrderLine) => l.order.status },
+            orderDate: { type: 'date', description: 'Date ordered', get: (l: OrderLine) => dateOf(l.order.orderDate) },
+            itemName: { type: 'string', description: 'Item ordered', get: (l: OrderLine) => l.item.name },
+            category: { type: 'string', description: 'Item category', get: (l: OrderLine) => l.item.category || null },
+            quantity: { type: 'number', description: 'Packages ordered', get: (l: OrderLine) => l.item.quantity },
+            quantityReceived: { type: 'number', description: 'Packages received', get: (l: OrderLine) => l.item.quantityReceived || 0 },
+            unitCost: { type: 'number', description: 'Cost per package ($)', get: (l: OrderLine) => l.item.unitCost },
+            lineTotal: { type: 'number', description: 'Line total ($)', get: (l: OrderLine) => l.item.total }
+        }
+    },
+    daily_reports: {
+        description: 'Daily close reports, one row per day',
+        dateField: 'date',
+        rows: data => data.dailyReports,
+        fields: {
+            date: { type: 'date', description: 'Business day', get: (r: DailyReport) => dateOf(r.timestamp) },
+            author: { type: 'string', description: 'Who closed the day', get: (r: DailyReport) => r.author },
+            revenue: { type: 'number', description: 'Total collected ($)', get: (r: DailyReport) => r.totals?.revenue || 0 },
+            patients: { type: 'number', description: 'Patients seen', get: (r: DailyReport) => r.totals?.patients || 0 },
+            cash: { type: 'number', description: 'Cash collected ($)', get: (r: DailyReport) => r.financials?.methods.cash || 0 },
+            credit: { type: 'number', description: 'Card collected ($)', get: (r: DailyReport) => r.financials?.methods.credit || 0 },
+            check: { type: 'number', description: 'Checks collected ($)', get: (r: DailyReport) => r.financials?.methods.check || 0 },
+            copay: { type: 'number', description: 'Copays ($)', get: (r: DailyReport) => r.financials?.types.copay || 0 },
+            selfPay: { type: 'number', description: 'Self-pay ($)', get: (r: DailyReport) => r.financials?.types.selfPay || 0 },
+            newPatients: { type: 'number', description: 'New patients', get: (r: DailyReport) => r.stats?.newPts || 0 },
+            establishedPatients: { type: 'number', description: 'Established patients', get: (r: DailyReport) => r.stats?.estPts || 0 },
+            xrays: { type: 'number', description: 'X-rays taken', get: (r: DailyReport) => r.stats?.xrays || 0 },
+            isBalanced: { type: 'boolean', description: 'Drawer balanced', get: (r: DailyReport) => r.isBalanced }
+        }
+    },
+    petty_cash: {
+        description: 'Petty cash transactions',
+        dateField: 'date',
+        rows: data => data.pettyCash,
+        fields: {
+            date: { type: 'date', description: 'Transaction date', get: (t: PettyCashTransaction) => dateOf(t.timestamp) },
+            action: { type: 'string', description: 'DEPOSIT | WITHDRAWAL', get: (t: PettyCashTransaction) => t.action },
+            amount: { type: 'number', description: 'Amount, always positive ($)', get: (t: PettyCashTransaction) => Math.abs(t.amount) },
+            reason: { type: 'string', description: 'Reason given', get: (t: PettyCashTransaction) => t.reason },
+            userName: { type: 'string', description: 'Who made it', get: (t: PettyCashTransaction) => t.userName },
+            runningBalance: { type: 'number', description: 'Balance after the transaction ($)', get: (t: PettyCashTransaction) => t.runningBalance }
+        }
+    },
+    protocols: {
+        description: 'Clinic protocols, rules and SOPs (text only)',
+        rows: data => data.protocols,
+        fields: {
+            title: { type: 'string', description: 'Protocol title', get: (p: Protocol) => p.title },
+            area: { type: 'string', description: 'Clinic area', get: (p: Protocol) => p.area },
+            severity: { type: 'string', description: 'Severity', get: (p: Protocol) => p.severity },
+            content: { type: 'string', description: 'Rule text', get: (p: Protocol) => p.content }
+        }
+    },
+    forms: {
+        description: 'Patient form templates (consents, questionnaires; text only)',
+        rows: data => data.templates,
+        fields: {
+            title: { type: 'string', description: 'Form title', get: (f: FormTemplate) => f.title },
+            language: { type: 'string', description: 'English | Spanish', get: (f: FormTemplate) => f.language },
+            status: { type: 'string', description: 'Active | Draft | Archived', get: (f: FormTemplate) => f.status },
+            content: { type: 'string', description: 'Form body', get: (f: FormTemplate) => f.content.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 1500) }
+        }
+    }
+};
+
+const DATE_PRESETS: QueryDatePreset[] = [
+    'today', 'yesterday', 'this_week', 'last_week', 'this_month', 'last_month',
+    'this_quarter', 'last_quarter', 'this_year', 'last_year',
+    'last_7_days', 'last_30_days', 'last_90_days', 'next_30_days', 'next_90_days'
+];
+
+/**
+ * Schema description for the planning prompt, generated from the same
+ * catalog the executor uses so the two cannot drift apart.
+ */
+export const describeQuerySchema = (): string =>
+    (Object.keys(ENTITIES) as QueryEntity[]).map(entity => {
+        const def = ENTITIES[entity];
+        const fields = Object.entries(def.fields).map(([name, f]) => `    ${name} (${f.type}): ${f.description}`).join('\n');
+        return `${entity} — ${def.description}${def.dateField ? ` [dateRange applies to ${def.dateField}]` : ''}\n${fields}`;
+    }).join('\n') + `\n\nDate presets: ${DATE_PRESETS.join(', ')}`;
+
+/**
+ * Resolves a preset or explicit range to inclusive YYYY-MM-DD bounds.
+ * Weeks start on Monday; quarters are calendar quarters.
+ */
+export const resolveDateRange = (range: QueryDateRange, now: Date = new Date()): { start: string; end: string } => {
+    if (!range.preset) {
+        if (!range.start && !range.end) throw new Error('Date range needs a preset or start/end');
+        return { start: range.start || '0000-01-01', end: range.end || '9999-12-31' };
+    }
+
+    const y = now.getFullYear();
+    const m = now.getMonth();
+    const d = now.getDate();
+    const day = (offset: number) => new Date(y, m, d + offset);
+    const mondayOffset = -((now.getDay() + 6) % 7);
+    const quarterStart = Math.floor(m / 3) * 3;
+    const span = (start: Date, end: Date) => ({ start: toDateKey(start), end: toDateKey(end) });
+
+    switch (range.preset) {
+        case 'today': return span(day(0), day(0));
+        case 'yesterday': return span(day(-1), day(-1));
+        case 'this_week': return span(day(mondayOffset), day(mondayOffset + 6));
+        case 'last_week': return span(day(mondayOffset - 7), day(mondayOffset - 1));
+        case 'this_month': return span(new Date(y, m, 1), new Date(y, m + 1, 0));
+        case 'last_month': return span(new Date(y, m - 1, 1), new Date(y, m, 0));
+        case 'this_quarter': return span(new Date(y, quarterStart, 1), new Date(y, quarterStart + 3, 0));
+        case 'last_quarter': return span(new Date(y, quarterStart - 3, 1), new Date(y, quarterStart, 0));
+        case 'this_year': return span(new Date(y, 0, 1), new Date(y, 11, 31));
+        case 'last_year': return span(new Date(y - 1, 0, 1), new Date(y - 1, 11, 31));
+        case 'last_7_days': return span(day(-6), day(0));
+        case 'last_30_days': return span(day(-29), day(0));
+        case 'last_90_days': return span(day(-89), day(0));
+        case 'next_30_days': return span(day(0), day(30));
+        case 'next_90_days': return span(day(0), day(90));
+        default: throw new Error(`Unknown date preset "${range.preset}"`);
+    }
+};
+
+/**
+ * Checks a plan against the catalog. Returns a list of problems, empty when
+ * the plan can be executed.
+ */
+export const validateQueryPlan = (plan: QueryPlan): string[] => {
+    const errors: string[] = [];
+    const def = plan && Object.prototype.hasOwnProperty.call(ENTITIES, plan.entity) ? ENTITIES[plan.entity] : undefined;
+    if (!def) return [`Unknown entity "${plan?.entity}". Use one of: ${Object.keys(ENTITIES).join(', ')}`];
+
+    // Plans come from the LLM, so anything may be missing or the wrong type
+    const fieldError = (field: unknown, role: string, numeric = false, required = false) => {
+        if (field === undefined || field === null || field === '') {
+            if (required) errors.push(`${role} needs a field`);
+            return;
+        }
+        const f = typeof field === 'string' && Object.prototype.hasOwnProperty.call(def.fields, field) ? def.fields[field] : undefined;
+        if (!f) errors.push(`Unknown ${role} field ${JSON.stringify(field)} on ${plan.entity}`);
+        else if (numeric && f.type !== 'number') errors.push(`${role} field "${field}" is not numeric`);
+    };
+
+    if (!['count', 'sum', 'avg', 'min', 'max', 'list'].includes(plan.aggregation)) {
+        errors.push(`Unknown aggregation "${plan.aggregation}"`);
+    }
+    if (['sum', 'avg', 'min', 'max'].includes(plan.aggregation)) {
+        if (!plan.metric) errors.push(`${plan.aggregation} needs a metric`);
+        fieldError(plan.metric, 'metric', true);
+    } else {
+        fieldError(plan.metric, 'metric');
+    }
+    fieldError(plan.groupBy, 'groupBy');
+    if (plan.filters !== undefined && !Array.isArray(plan.filters)) {
+        errors.push('filters must be a list');
+    } else {
+        (plan.filters || []).forEach((f, i) => {
+            if (!f || typeof f !== 'object') {
+                errors.push(`Filter ${i + 1} is empty`);
+                return;
+            }
+            fieldError(f.field, 'filter', false, true);
+            if (!['eq', 'neq', 'contains', 'gt', 'gte', 'lt', 'lte', 'in'].includes(f.op)) errors.push(`Unknown filter op "${f.op}"`);
+        });
+    }
+
+    [plan.dateRange, plan.compareTo].forEach(range => {
+        if (!range) return;
+        if (!def.dateField) errors.push(`${plan.entity} has no date field`);
+        try {
+            resolveDateRange(range);
+        } catch (e: any) {
+            errors.push(e.message);
+        }
+    });
+    if (plan.compareTo && !plan.dateRange) {
+        errors.push('compareTo needs a dateRange to compare against');
+    }
+    if (plan.compareTo && (plan.aggregation === 'list' || plan.groupBy)) {
+        errors.push('compareTo only works with a single count/sum/avg/min/max');
+    }
+    return errors;
+};
+
+const matchesFilter = (value: FieldValue, filter: QueryFilter, type: FieldType): boolean => {
+    if (filter.op === 'in') {
+        const options = Array.isArray(filter.value) ? filter.value : [filter.value];
+        return options.some(option => matchesFilter(value, { ...filter, op: 'eq', value: option }, type));
+    }
+    if (value === null || value === undefined) return filter.op === 'neq';
+
+    if (type === 'number') {
+        const target = Number(filter.value);
+        const n = value as number;
+        switch (filter.op) {
+            case 'eq': return n === target;
+            case 'neq': return n !== target;
+            case 'gt': return n > target;
+            case 'gte': return n >= target;
+            case 'lt': return n < target;
+            case 'lte': return n <= target;
+            default: return String(n).includes(String(filter.value));
+        }
+    }
+    if (type === 'boolean') {
+        const target = filter.value === true || String(filter.value).toLowerCase() === 'true';
+        return filter.op === 'neq' ? value !== target : value === target;
+    }
+
+    // Strings and YYYY-MM-DD dates compare case-insensitively as text
+    const a = String(value).toLowerCase();
+    const b = String(filter.value).toLowerCase();
+    switch (filter.op) {
+        case 'eq': return a === b;
+        case 'neq': return a !== b;
+        case 'contains': return a.includes(b);
+        case 'gt': return a > b;
+        case 'gte': return a >= b;
+        case 'lt': return a < b;
+        case 'lte': return a <= b;
+        default: return false;
+    }
+};
+
+const aggregate = (rows: any[], plan: QueryPlan, def: EntityDef<any>): number => {
+    if (plan.aggregation === 'count' || plan.aggregation === 'list') return rows.length;
+    const values = rows.map(row => def.fields[plan.metric!].get(row)).filter((v): v is number => typeof v === 'number');
+    if (values.length === 0) return 0;
+    switch (plan.aggregation) {
+        case 'sum': return round2(values.reduce((sum, v) => sum + v, 0));
+        case 'avg': return round2(values.reduce((sum, v) => sum + v, 0) / values.length);
+        case 'min': return Math.min(...values);
+        case 'max': return Math.max(...values);
+        default: return rows.length;
+    }
+};
+
+const selectRows = (plan: QueryPlan, data: QueryDataset, range: { start: string; end: string } | undefined): any[] => {
+    const def = ENTITIES[plan.entity];
+    return def.rows(data).filter(row => {
+        if (range && def.dateField) {
+            const date = def.fields[def.dateField].get(row) as string | null;
+            if (!date || date < range.start || date > range.end) return false;
+        }
+        return (plan.filters || []).every(f => matchesFilter(def.fields[f.field].get(row), f, def.fields[f.field].type));
+    });
+};
+
+/**
+ * Runs a validated plan over in-memory clinic data. All arithmetic happens
+ * here; the model only ever sees the results.
+ */
+export const executeQueryPlan = (plan: QueryPlan, data: QueryDataset, now: Date = new Date()): QueryExecution => {
+    const errors = validateQueryPlan(plan);
+    if (errors.length > 0) throw new Error(`Invalid query plan: ${errors.join('; ')}`);
+
+    const def = ENTITIES[plan.entity];
+    const period = plan.dateRange ? resolveDateRange(plan.dateRange, now) : undefined;
+    const rows = selectRows(plan, data, period);
+    const execution: QueryExecution = { plan, period, matched: rows.length };
+
+    if (plan.aggregation === 'list') {
+        const sortField = plan.metric ? def.fields[plan.metric] : undefined;
+        const sorted = sortField
+            ? [...rows].sort((a, b) => {
+                const av = sortField.get(a) ?? '';
+                const bv = sortField.get(b) ?? '';
+                const cmp = av < bv ? -1 : av > bv ? 1 : 0;
+                return plan.sort === 'asc' ? cmp : -cmp;
+            })
+            : rows;
+        const limit = Math.min(plan.limit || DEFAULT_LIST_LIMIT, MAX_LIST_LIMIT);
+        execution.rows = sorted.slice(0, limit).map(row =>
+            Object.fromEntries(Object.entries(def.fields).map(([name, f]) => [name, f.get(row)]))
+        );
+        return execution;
+    }
+
+    if (plan.groupBy) {
+        const buckets = new Map<string, any[]>();
+        rows.forEach(row => {
+            const key = String(def.fields[plan.groupBy!].get(row) ?? '(none)');
+            buckets.set(key, [...(buckets.get(key) || []), row]);
+        });
+        const groups: QueryGroupResult[] = [...buckets.entries()].map(([key, groupRows]) => ({
+            key,
+            value: aggregate(groupRows, plan, def),
+            count: groupRows.length
+        }));
+        groups.sort((a, b) => plan.sort === 'asc' ? a.value - b.value : b.value - a.value);
+        execution.groups = plan.limit ? groups.slice(0, plan.limit) : groups;
+        return execution;
+    }
+
+    execution.value = aggregate(rows, plan, def);
+
+    if (plan.compareTo) {
+        const comparePeriod = resolveDateRange(plan.compareTo, now);
+        const compareRows = selectRows(plan, data, comparePeriod);
+        const value = aggregate(compareRows, plan, def);
+        execution.comparison = {
+            period: comparePeriod,
+            matched: compareRows.length,
+            value,
+            delta: round2(execution.value - value),
+            pctChange: value === 0 ? null : round2(((execution.value - value) / Math.abs(value)) * 100)
+        };
+    }
+    return execution;
+};
+
+const describeRange = (range: QueryDateRange, resolved?: { start: string; end: string }): string =>
+    `${range.preset ? range.preset.replace(/_/g, ' ') : 'custom'}${resolved ? ` (${resolved.start} → ${resolved.end})` : ''}`;
+
+/**
+ * One-line, human-readable rendering of the plan that was run.
+ */
+export const describeQueryPlan = (execution: QueryExecution): string => {
+    const { plan } = execution;
+    const what = plan.aggregation === 'count' || plan.aggregation === 'list'
+        ? `${plan.aggregation.toUpperCase()} ${plan.entity}`
+        : `${plan.aggregation.toUpperCase()}(${plan.metric}) of ${plan.entity}`;
+    const opLabel: Record<string, string> = { eq: '=', neq: '≠', contains: '~', gt: '>', gte: '≥', lt: '<', lte: '≤', in: 'in' };
+    const where = (plan.filters || []).map(f => `${f.field} ${opLabel[f.op] || f.op} ${Array.isArray(f.value) ? f.value.join('|') : f.value}`);
+    return [
+        what,
+        where.length ? `where ${where.join(', ')}` : '',
+        plan.dateRange ? `during ${describeRange(plan.dateRange, execution.period)}` : '',
+        plan.compareTo ? `vs ${describeRange(plan.compareTo, execution.comparison?.period)}` : '',
+        plan.groupBy ? `grouped by ${plan.groupBy}` : '',
+        plan.aggregation === 'list' && plan.metric ? `sorted by ${plan.metric} ${plan.sort || 'desc'}` : ''
+    ].filter(Boolean).join(' ');
+};
+
+/**
+ * Plain-text rendering of the computed result, used as the answer when the
+ * model is unavailable and as the facts the model must restate.
+ */
+export const formatQueryExecution = (execution: QueryExecution): string => {
+    const lines: string[] = [`Matched ${execution.matched} ${execution.plan.entity.replace('_', ' ')} row(s).`];
+    if (execution.value !== undefined) lines.push(`Result: ${execution.value}`);
+    if (execution.comparison) {
+        const c = execution.comparison;
+        lines.push(`Comparison period: ${c.value} (${c.matched} rows)`);
+        lines.push(`Change: ${c.delta >= 0 ? '+' : ''}${c.delta}${c.pctChange === null ? '' : ` (${c.pctChange >= 0 ? '+' : ''}${c.pctChange}%)`}`);
+    }
+    execution.groups?.forEach(g => lines.push(`- ${g.key}: ${g.value} (${g.count} rows)`));
+    execution.rows?.forEach(row => lines.push(`- ${Object.entries(row).filter(([, v]) => v !== null && v !== '').map(([k, v]) => `${k}: ${v}`).join(' | ')}`));
+    if (execution.rows && execution.rows.length < execution.matched) lines.push(`... and ${execution.matched - execution.rows.length} more`);
+    return lines.join('\n');
+};
@@ -0,0 +1,16 @@
+import { Order, OrderItem } from '../types';
+
+/**
+ * Packages still owed by the vendor on a line.
+ */
+export const getOutstandingQuantity = (item: OrderItem): number =>
+    Math.max(0, item.quantity - (item.quantityReceived || 0));
+
+/**
+ * Lines that have been partially shipped or not shipped at all on an order
+ * that has started arriving.
+ */
+export const getBackorderedItems = (order: Order): OrderItem[] =>
+    order.status === 'PARTIALLY_RECEIVED'
+        ? order.items.filter(i => getOutstandingQuantity(i) > 0)
+        : [];
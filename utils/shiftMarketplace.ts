@@ -0,0 +1,82 @@
+import { Shift, ShiftOffer, StaffAvailability, TimeOffRequest, User } from '../types';
+import { DEFAULT_MAX_HOURS_PER_WEEK, outsideAvailability, shiftHours, weekKeyOf } from './autoScheduler';
+
+export interface MarketplaceContext {
+    users: User[];
+    shifts: Shift[]; // Every shift that could conflict, from the start of the current week
+    timeOff: TimeOffRequest[];
+    availability: StaffAvailability[];
+    today: string; // YYYY-MM-DD; earlier shifts cannot be offered or traded
+}
+
+const round1 = (n: number): number => Math.round(n * 10) / 10;
+
+const nameOf = (user?: User): string => user ? ((user as User & { full_name?: string }).full_name || user.username) : 'Unknown';
+
+/**
+ * Why the user cannot work the shift, or null when they can. The released
+ * shift is the one they hand over in a swap; it no longer counts against them.
+ * Staff may only take shifts of their own role, one shift per day, inside
+ * their published availability and without going over their weekly maximum.
+ */
+export const shiftIneligibility = (user: User, shift: Shift, released: Shift | null, ctx: MarketplaceContext): string | null => {
+    if (shift.user_id === user.id) return 'already their shift';
+    const owner = ctx.users.find(u => u.id === shift.user_id);
+    if (!owner || owner.role !== user.role) return `only ${owner?.role || 'same-role'} staff can take this shift`;
+
+    if (ctx.timeOff.some(t => t.user_id === user.id && t.status === 'approved' && t.start_date <= shift.date && t.end_date >= shift.date)) {
+        return 'approved time off';
+    }
+
+    const theirs = ctx.shifts.filter(s => s.user_id === user.id && s.id !== released?.id && s.id !== shift.id);
+    const sameDay = theirs.find(s => s.date === shift.date);
+    if (sameDay) return `already working ${sameDay.start_time}–${sameDay.end_time} that day`;
+
+    const profile = ctx.availability.find(a => a.user_id === user.id);
+    const outside = outsideAvailability(profile, shift.date, shift.start_time, shift.end_time);
+    if (outside) return outside;
+
+    const max = profile?.max_hours_per_week ?? DEFAULT_MAX_HOURS_PER_WEEK;
+    const week = weekKeyOf(shift.date);
+    const after = theirs.filter(s => weekKeyOf(s.date) === week).reduce((sum, s) => sum + shiftHours(s), 0) + shiftHours(shift);
+    if (after > max) return `would reach ${round1(after)}h, over the ${max}h weekly maximum`;
+    return null;
+};
+
+/**
+ * Why the claimant cannot take the offer, or null when they can. A swap also
+ * needs the offerer to be able to work the claimant's shift in return.
+ */
+export const claimIneligibility = (offer: ShiftOffer, claimant: User, swapShift: Shift | null, ctx: MarketplaceContext): string | null => {
+    if (offer.offered_by === claimant.id) return 'your own offer';
+    const shift = ctx.shifts.find(s => s.id === offer.shift_id);
+    if (!shift) return 'the shift no longer exists';
+    if (shift.user_id !== offer.offered_by) return 'the shift has been reassigned';
+    if (shift.date < ctx.today) return 'the shift has already passed';
+
+    const why = shiftIneligibility(claimant, shift, swapShift, ctx);
+    if (why) return why;
+
+    if (offer.type === 'swap') {
+        if (!swapShift) return 'pick one of your shifts to trade';
+        if (swapShift.user_id !== claimant.id) return 'you can only trade your own shift';
+        if (swapShift.date < ctx.today) return 'that shift has already passed';
+        const offerer = ctx.users.find(u => u.id === offer.offered_by);
+        if (!offerer) return 'the offerer is no longer on staff';
+        const back = shiftIneligibility(offerer, swapShift, shift, ctx);
+        if (back) return `${nameOf(offerer)} cannot take your shift: ${back}`;
+    }
+    return null;
+};
+
+/** The claimant's upcoming shifts they could give in return for a swap offer */
+export const swapOptions = (offer: ShiftOffer, claimant: User, ctx: MarketplaceContext): Shift[] =>
+    ctx.shifts
+        .filter(s => s.user_id === claimant.id && s.date >= ctx.today)
+        .filter(s => claimIneligibility(offer, claimant, s, ctx) === null);
+
+/** Coworkers who could claim the offer now, e.g. to tell them about it */
+export const eligibleClaimants = (offer: ShiftOffer, ctx: MarketplaceContext): User[] =>
+    ctx.users.filter(u => offer.type === 'swap'
+        ? swapOptions(offer, u, ctx).length > 0
+        : claimIneligibility(offer, u, null, ctx) === null);
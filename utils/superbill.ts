@@ -0,0 +1,253 @@
+import { BillingContext, BillingRule, CodeGroup, MedicalCode, PriceItem, Superbill, SuperbillDiagnosis, SuperbillLine, SuperbillPayer } from '../types';
+import type { StructuredNote } from '../services/ClinicalReviewService';
+import { generateUUID } from './uuid';
+import { parseDiagnosisList } from './icd10';
+import { evaluateBillingRule, todayISO } from './billingRuleEngine';
+
+export interface SuperbillReference {
+    codes: MedicalCode[];
+    codeGroups: CodeGroup[];
+    billingRules: BillingRule[];
+    prices: PriceItem[];
+}
+
+export interface SuperbillOptions {
+    insurer: string | null; // null = self-pay
+    insurerAliases?: string[]; // Other names the payer goes by on billing rules
+    signedBy: string;
+    signedAt?: string;
+    dateOfService?: string; // YYYY-MM-DD, defaults to today
+    patient?: BillingContext['patient'];
+}
+
+type SuperbillNote = Pick<StructuredNote, 'diagnoses' | 'diagnosisCodes' | 'procedures_performed' | 'suggestedCPT' | 'mdm' | 'mdmLevel'>;
+
+// CMS-1500 allows 12 diagnoses per claim and 4 pointers per line
+const DIAGNOSIS_POINTERS = 'ABCDEFGHIJKL'.split('');
+const POINTERS_PER_LINE = 4;
+
+const ADMIN_PREFIX = 'Administration: ';
+
+const normalize = (value: string | undefined): string => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+/**
+ * Splits a MedicalCode field such as "J2920 OR J2930" or "0011A (1ST DOSE)"
+ * into its codes and any trailing qualifier.
+ */
+const parseCodeField = (raw: string): { codes: string[]; qualifier?: string } => {
+    const qualifier = raw.match(/\(([^)]+)\)/)?.[1];
+    const codes = raw.replace(/\([^)]*\)/g, '')
+        .split(/\s+OR\s+|\/|,/i)
+        .map(c => c.trim().toUpperCase())
+        .filter(Boolean);
+    return { codes, qualifier };
+};
+
+// Words that say how something was done rather than what it was
+const GENERIC_WORDS = new Set(['test', 'testing', 'injection', 'inject', 'oral', 'rapid', 'screen', 'panel', 'administered', 'given', 'performed']);
+
+const significantWords = (value: string): Set<string> =>
+    new Set(value.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length >= 3 && !GENERIC_WORDS.has(w) && !/^\d/.test(w)));
+
+/**
+ * How well a procedure name matches a catalog name: 2 exact, 1 one name
+ * contains the other, below 1 the share of significant words in common.
+ */
+const nameMatchScore = (a: string, b: string): number => {
+    const na = normalize(a);
+    const nb = normalize(b);
+    if (!na || !nb) return 0;
+    if (na === nb) return 2;
+    if (na.length >= 3 && nb.length >= 3 && (na.includes(nb) || nb.includes(na))) return 1;
+    const wa = significantWords(a);
+    const wb = significantWords(b);
+    const shared = [...wa].filter(w => wb.has(w)).length;
+    return shared === 0 ? 0 : 0.9 * shared / new Set([...wa, ...wb]).size;
+};
+
+const bestByName = <T>(name: string, candidates: T[], getName: (c: T) => string): T | undefined => {
+    let best: T | undefined;
+    let bestScore = 0;
+    candidates.forEach(c => {
+        const score = nameMatchScore(name, getName(c));
+        // Ties go to the longer catalog name, i.e. the more specific entry
+        if (score > bestScore || (score === bestScore && score > 0 && best && getName(c).length > getName(best).length)) {
+            best = c;
+            bestScore = score;
+        }
+    });
+    return best;
+};
+
+const findPrice = (prices: PriceItem[], code: string, name?: string): PriceItem | undefined => {
+    const byCode = prices.find(p => p.code && parseCodeField(p.code).codes.includes(code));
+    if (byCode || !name) return byCode;
+    return bestByName(name, prices, p => p.serviceName);
+};
+
+/**
+ * Builds the charge sheet for one visit from its structured note: the
+ * scored E/M level and add-ons, then each performed procedure resolved to
+ * CPT/HCPCS, admin and lab codes via MedicalCode and CodeGroup. The
+ * insurer's BillingRules, evaluated for the date of service, decide
+ * modifiers and who is billed; PriceItems supply the
+ * self-pay price. Anything that could not be resolved with confidence is
+ * flagged for review rather than guessed.
+ */
+export const buildSuperbill = (note: SuperbillNote, ref: SuperbillReference, options: SuperbillOptions): Superbill => {
+    const { insurer } = options;
+    const dateOfService = options.dateOfService || todayISO();
+    // Confirmed ICD-10-CM codes win; unconfirmed ones are left blank for review
+    const listed = note.diagnosisCodes
+        ? note.diagnosisCodes.map(d => ({ description: d.description, code: d.confirmed ? d.code : '' }))
+        : parseDiagnosisList(note.diagnoses);
+    const diagnoses: SuperbillDiagnosis[] = listed
+        .slice(0, DIAGNOSIS_POINTERS.length)
+        .map((d, i) => ({ pointer: DIAGNOSIS_POINTERS[i], ...d }));
+    const pointers = diagnoses.slice(0, POINTERS_PER_LINE).map(d => d.pointer);
+    const defaultPayer: SuperbillPayer = insurer ? 'insurance' : 'patient';
+    const lines: SuperbillLine[] = [];
+    const unresolved: string[] = [];
+
+    const addLine = (line: Omit<SuperbillLine, 'id' | 'diagnosisPointers' | 'billTo' | 'modifiers' | 'selfPayPrice'> & { inHouse?: boolean; priceName?: string }) => {
+        const { inHouse = true, priceName, ...rest } = line;
+        const decision = insurer
+            ? evaluateBillingRule(ref.billingRules, { payer: insurer, payerAliases: options.insurerAliases, code: line.code, dateOfService, inHouse, patient: options.patient })
+            : undefined;
+        const rule = decision?.rule;
+        const price = findPrice(ref.prices, line.code, priceName);
+        lines.push({
+            ...rest,
+            id: generateUUID(),
+            modifiers: decision?.modifiers || [],
+            diagnosisPointers: pointers,
+            billTo: decision?.billTo === 'client' ? 'client' : defaultPayer,
+            selfPayPrice: price?.price,
+            source: rule ? `${rest.source} · ${insurer} rule "${rule.testName}" v${rule.version ?? 1}` : rest.source,
+            // A payer rule that exists but does not apply is worth a look too
+            needsReview: rest.needsReview
+                || (decision && !rule && decision.trace.length > 0 ? decision.reason : decision?.warnings.join('; '))
+                || undefined
+        });
+    };
+
+    // E/M visit and prolonged-service add-ons
+    const emCode = note.suggestedCPT?.match(/\b99\d{3}\b/)?.[0];
+    if (emCode) {
+        addLine({
+            kind: 'em',
+            description: note.mdm?.cptDescription || 'Office visit',
+            code: emCode,
+            units: 1,
+            source: note.mdm ? `E/M scored by ${note.mdm.method === 'time' ? 'time' : 'MDM'}` : 'E/M suggested by AI',
+            needsReview: note.mdm ? undefined : 'E/M level was not rule-scored'
+        });
+    }
+    (note.mdm?.addOns || []).forEach(addOn => addLine({
+        kind: 'add_on',
+        description: addOn.description,
+        code: addOn.code,
+        units: addOn.units,
+        source: 'Prolonged service (time-based visit)'
+    }));
+
+    // Procedures: a CodeGroup expands to its member codes, otherwise the best MedicalCode
+    (note.procedures_performed || []).forEach(procedure => {
+        const group = bestByName(procedure, ref.codeGroups, g => g.name);
+        const directCode = bestByName(procedure, ref.codes, c => c.name);
+        const useGroup = group && (!directCode || nameMatchScore(procedure, group.name) > nameMatchScore(procedure, directCode.name));
+        const medicalCodes = useGroup
+            ? group!.codeIds.map(id => ref.codes.find(c => c.id === id)).filter((c): c is MedicalCode => !!c)
+            : directCode ? [directCode] : [];
+
+        if (medicalCodes.length === 0) {
+            unresolved.push(procedure);
+            return;
+        }
+
+        const matchedName = useGroup ? group!.name : directCode!.name;
+        const fuzzy = nameMatchScore(procedure, matchedName) < 1
+            ? `"${procedure}" matched to "${matchedName}" by similar wording`
+            : undefined;
+
+        medicalCodes.forEach(mc => {
+            const source = useGroup ? `Code group "${group!.name}"` : `Medical code "${mc.name}"`;
+            const inHouse = !mc.labCode;
+            const cpt = parseCodeField(mc.cptCode);
+            if (cpt.codes.length > 0) {
+                addLine({
+                    kind: 'procedure',
+                    description: mc.name,
+                    code: cpt.codes[0],
+                    units: 1,
+                    labCode: mc.labCode || undefined,
+                    source,
+                    inHouse,
+                    priceName: mc.name,
+                    needsReview: cpt.codes.length > 1 ? `Choose one of ${cpt.codes.join(' / ')}` : fuzzy
+                });
+            }
+            const admin = parseCodeField(mc.adminCode);
+            if (admin.codes.length > 0) {
+                addLine({
+                    kind: 'admin',
+                    description: `${ADMIN_PREFIX}${mc.name}${admin.qualifier ? ` (${admin.qualifier.toLowerCase()})` : ''}`,
+                    code: admin.codes[0],
+                    units: 1,
+                    source,
+                    needsReview: admin.codes.length > 1 ? `Choose one of ${admin.codes.join(' / ')}` : fuzzy
+                });
+            }
+        });
+    });
+
+    // The same admin code (e.g. 96372) is billed once per injection, so keep
+    // duplicates as units on one line
+    const merged: SuperbillLine[] = [];
+    lines.forEach(line => {
+        const existing = line.kind === 'admin'
+            ? merged.find(m => m.kind === 'admin' && m.code === line.code && m.billTo === line.billTo)
+            : undefined;
+        if (existing) {
+            existing.units += line.units;
+            existing.description += `, ${line.description.slice(ADMIN_PREFIX.length)}`;
+            existing.needsReview = existing.needsReview || line.needsReview;
+        } else {
+            merged.push(line);
+        }
+    });
+
+    if (diagnoses.length === 0 && merged.length > 0) {
+        merged.forEach(line => { line.needsReview = line.needsReview || 'No diagnosis to point to'; });
+    }
+
+    return {
+        id: generateUUID(),
+        createdAt: new Date().toISOString(),
+        insurer,
+        signedBy: options.signedBy,
+        signedAt: options.signedAt || new Date().toISOString(),
+        diagnoses,
+        lines: merged,
+        unresolved,
+        selfPayTotal: round2(merged.reduce((sum, l) => sum + (l.selfPayPrice ?? 0) * l.units, 0)),
+        codingRationale: note.mdm?.rationale || note.mdmLevel
+    };
+};
+
+/** Flat rows for spreadsheet export, one per charge line */
+export const superbillToRows = (bill: Superbill): Record<string, string | number>[] =>
+    bill.lines.map(line => ({
+        'Code': line.code,
+        'Modifiers': line.modifiers.join(' '),
+        'Description': line.description,
+        'Units': line.units,
+        'Dx Pointers': line.diagnosisPointers.join(''),
+        'Diagnoses': line.diagnosisPointers.map(p => bill.diagnoses.find(d => d.pointer === p)?.code || p).join(', '),
+        'Lab Code': line.labCode || '',
+        'Bill To': line.billTo === 'client' ? 'Client' : line.billTo === 'patient' ? 'Patient' : bill.insurer || 'Insurance',
+        'Self-Pay Price': line.selfPayPrice ?? '',
+        'Review': line.needsReview || ''
+    }));
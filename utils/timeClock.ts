@@ -0,0 +1,158 @@
+import { PunchFlag, Shift, TimeClockSettings, TimePunch, TimesheetApproval, TimesheetDay } from '../types';
+import { localDateStr, toMinutes } from './autoScheduler';
+
+export const DEFAULT_TIME_CLOCK_SETTINGS: TimeClockSettings = {
+    require_network: false,
+    allowed_networks: [],
+    require_pin: false,
+    grace_minutes: 5,
+    pay_period_days: 14,
+    pay_period_anchor: '2026-01-05',
+    overtime_weekly_hours: 40
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number): number => Math.round(n * 100) / 100;
+
+const daysBetween = (from: string, to: string): number =>
+    Math.round((new Date(`${to}T12:00:00`).getTime() - new Date(`${from}T12:00:00`).getTime()) / DAY_MS);
+
+export const addDays = (date: string, days: number): string => {
+    const d = new Date(`${date}T12:00:00`);
+    d.setDate(d.getDate() + days);
+    return localDateStr(d);
+};
+
+/** Local calendar date (YYYY-MM-DD) a punch timestamp falls on */
+export const punchDate = (timestamp: string): string => localDateStr(new Date(timestamp));
+
+const minutesOfDay = (timestamp: string): number => {
+    const d = new Date(timestamp);
+    return d.getHours() * 60 + d.getMinutes();
+};
+
+export const formatPunchTime = (timestamp?: string | null): string =>
+    timestamp ? new Date(timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }) : '—';
+
+export interface PayPeriod {
+    start: string; // YYYY-MM-DD
+    end: string; // YYYY-MM-DD, inclusive
+}
+
+/** The pay period containing the date; periods repeat every pay_period_days from the anchor */
+export const payPeriodFor = (date: string, settings: TimeClockSettings): PayPeriod => {
+    const length = settings.pay_period_days || 14;
+    const offset = Math.floor(daysBetween(settings.pay_period_anchor, date) / length) * length;
+    const start = addDays(settings.pay_period_anchor, offset);
+    return { start, end: addDays(start, length - 1) };
+};
+
+/** Hours on a completed punch; an open punch counts for nothing until it is closed */
+export const punchHours = (punch: TimePunch): number =>
+    punch.punch_out ? Math.max(0, new Date(punch.punch_out).getTime() - new Date(punch.punch_in).getTime()) / 3600000 : 0;
+
+/**
+ * Lines punches up with scheduled shifts, one row per person per day, and
+ * flags late arrivals and early departures beyond the grace period, shifts
+ * with no punches, punches never closed and work with no shift. A person has
+ * at most one shift a day, so every punch that starts that day belongs to it.
+ * Flags for shifts still in progress wait until they are due.
+ */
+export const buildTimesheet = (shifts: Shift[], punches: TimePunch[], period: PayPeriod, settings: TimeClockSettings, now = new Date()): TimesheetDay[] => {
+    const grace = settings.grace_minutes;
+    const today = localDateStr(now);
+    const nowMinutes = now.getHours() * 60 + now.getMinutes();
+    const inPeriod = (date: string) => date >= period.start && date <= period.end;
+    // Minutes into a day already reached: all of a past day, none of a future one
+    const reached = (date: string, minutes: number) => date < today || (date === today && nowMinutes >= minutes);
+
+    const days = new Map<string, TimesheetDay>();
+    const dayFor = (userId: string, date: string): TimesheetDay => {
+        const key = `${userId}|${date}`;
+        if (!days.has(key)) days.set(key, { user_id: userId, date, shift: null, punches: [], hours: 0, flags: [] });
+        return days.get(key)!;
+    };
+
+    shifts.filter(s => inPeriod(s.date)).forEach(s => { dayFor(s.user_id, s.date).shift = s; });
+    punches.filter(p => inPeriod(punchDate(p.punch_in))).forEach(p => { dayFor(p.user_id, punchDate(p.punch_in)).punches.push(p); });
+
+    for (const day of days.values()) {
+        const { shift, date } = day;
+        const sorted = [...day.punches].sort((a, b) => a.punch_in.localeCompare(b.punch_in));
+        day.punches = sorted;
+        day.hours = round2(sorted.reduce((sum, p) => sum + punchHours(p), 0));
+        const flags: PunchFlag[] = [];
+        const open = sorted.find(p => !p.punch_out);
+
+        if (!shift) {
+            if (sorted.length > 0) flags.push({ type: 'unscheduled', detail: 'Worked without a scheduled shift' });
+            if (open && date < today) flags.push({ type: 'missed_punch_out', detail: `Never punched out after ${formatPunchTime(open.punch_in)}` });
+        } else if (sorted.length === 0) {
+            if (reached(date, toMinutes(shift.start_time) + grace)) {
+                flags.push({ type: 'missed_punch_in', detail: `No punches for the ${shift.start_time}–${shift.end_time} shift` });
+            }
+        } else {
+            const lateBy = minutesOfDay(sorted[0].punch_in) - toMinutes(shift.start_time);
+            if (lateBy > grace) flags.push({ type: 'late', minutes: lateBy, detail: `Arrived ${lateBy} min late (${formatPunchTime(sorted[0].punch_in)})` });
+
+            if (open) {
+                if (reached(date, toMinutes(shift.end_time) + grace)) {
+                    flags.push({ type: 'missed_punch_out', detail: `Never punched out after ${formatPunchTime(open.punch_in)}` });
+                }
+            } else {
+                const last = sorted[sorted.length - 1];
+                // A punch out after midnight is never early
+                const earlyBy = punchDate(last.punch_out!) === date ? toMinutes(shift.end_time) - minutesOfDay(last.punch_out!) : 0;
+                if (earlyBy > grace && reached(date, toMinutes(shift.end_time))) {
+                    flags.push({ type: 'early_departure', minutes: earlyBy, detail: `Left ${earlyBy} min early (${formatPunchTime(last.punch_out)})` });
+                }
+            }
+        }
+        day.flags = flags;
+    }
+
+    return [...days.values()].sort((a, b) => a.date.localeCompare(b.date) || a.user_id.localeCompare(b.user_id));
+};
+
+export interface PaySummary {
+    user_id: string;
+    regular_hours: number;
+    overtime_hours: number;
+    total_hours: number;
+    flags: number;
+}
+
+/**
+ * Regular and overtime hours per person for the period. Overtime is counted
+ * per 7-day workweek starting on the period's first day, so a biweekly
+ * period is two separate weeks.
+ */
+export const summarizePay = (days: TimesheetDay[], period: PayPeriod, settings: TimeClockSettings): PaySummary[] => {
+    const weekly = new Map<string, number[]>();
+    const flags = new Map<string, number>();
+    for (const day of days) {
+        const weeks = weekly.get(day.user_id) || [];
+        const week = Math.floor(daysBetween(period.start, day.date) / 7);
+        weeks[week] = (weeks[week] || 0) + day.hours;
+        weekly.set(day.user_id, weeks);
+        flags.set(day.user_id, (flags.get(day.user_id) || 0) + day.flags.length);
+    }
+
+    return [...weekly.entries()].map(([userId, weeks]) => {
+        const hours = weeks.filter(h => h !== undefined);
+        const overtime = hours.reduce((sum, h) => sum + Math.max(0, h - settings.overtime_weekly_hours), 0);
+        const total = hours.reduce((sum, h) => sum + h, 0);
+        return {
+            user_id: userId,
+            regular_hours: round2(total - overtime),
+            overtime_hours: round2(overtime),
+            total_hours: round2(total),
+            flags: flags.get(userId) || 0
+        };
+    });
+};
+
+/** An approval only covers the hours it was given for */
+export const isApprovalCurrent = (approval: TimesheetApproval | undefined, summary: PaySummary): boolean =>
+    !!approval && Number(approval.regular_hours) === summary.regular_hours && Number(approval.overtime_hours) === summary.overtime_hours;
@@ -0,0 +1,117 @@
+import { Vendor } from '../types';
+
+export interface VendorBranding {
+    initials: string;
+    logoBg: string;
+    color: string;
+    bgColor: string;
+    glowColor: string;
+    borderActive: string;
+    textColor: string;
+}
+
+// Brand styling for well-known suppliers. Vendor records themselves (and
+// their logos) live in the vendors table — this is presentation only.
+const BRANDS: Record<string, VendorBranding> = {
+    amazon: {
+        initials: 'A',
+        logoBg: 'bg-[#232f3e]',
+        color: 'from-orange-500 to-amber-500',
+        bgColor: 'bg-gradient-to-br from-slate-900 to-slate-800 dark:from-slate-900/50 dark:to-slate-800/50',
+        glowColor: 'shadow-orange-500/40',
+        borderActive: 'border-orange-400',
+        textColor: 'text-orange-600 dark:text-orange-400'
+    },
+    labcorp: {
+        initials: 'L',
+        logoBg: 'bg-[#002855]',
+        color: 'from-[#00AADF] to-blue-600',
+        bgColor: 'bg-gradient-to-br from-cyan-50 to-blue-50 dark:from-cyan-900/30 dark:to-blue-900/30',
+        glowColor: 'shadow-[#00AADF]/40',
+        borderActive: 'border-[#00AADF]',
+        textColor: 'text-[#00AADF] dark:text-cyan-400'
+    },
+    henryschein: {
+        initials: 'HS',
+        logoBg: 'bg-[#003da5]',
+        color: 'from-red-600 to-blue-700',
+        bgColor: 'bg-gradient-to-br from-red-50 to-blue-50 dark:from-red-900/30 dark:to-blue-900/30',
+        glowColor: 'shadow-red-500/40',
+        borderActive: 'border-red-500',
+        textColor: 'text-red-600 dark:text-red-400'
+    },
+    medline: {
+        initials: 'M',
+        logoBg: 'bg-[#004b87]',
+        color: 'from-[#004b87] to-indigo-700',
+        bgColor: 'bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-900/30 dark:to-indigo-900/30',
+        glowColor: 'shadow-[#004b87]/40',
+        borderActive: 'border-[#004b87]',
+        textColor: 'text-[#004b87] dark:text-blue-300'
+    },
+    mckesson: {
+        initials: 'MC',
+        logoBg: 'bg-[#002d72]',
+        color: 'from-[#002d72] to-slate-800',
+        bgColor: 'bg-gradient-to-br from-blue-50 to-slate-100 dark:from-blue-900/30 dark:to-slate-900/30',
+        glowColor: 'shadow-[#002d72]/40',
+        borderActive: 'border-[#002d72]',
+        textColor: 'text-[#002d72] dark:text-blue-300'
+    }
+};
+
+const DEFAULT_BRANDING: Omit<VendorBranding, 'initials'> = {
+    logoBg: 'bg-slate-700',
+    color: 'from-slate-400 to-slate-600',
+    bgColor: 'bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-900',
+    glowColor: 'shadow-slate-500/40',
+    borderActive: 'border-slate-400',
+    textColor: 'text-slate-600 dark:text-slate-300'
+};
+
+/**
+ * Lower-cased alphanumerics only — "Henry Schein, Inc." → "henryscheininc".
+ */
+export const normalizeVendorName = (name: string): string => (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const initialsOf = (name: string): string => {
+    const words = name.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return '?';
+    return words.slice(0, 2).map(w => w.charAt(0).toUpperCase()).join('');
+};
+
+export const getVendorBranding = (name: string): VendorBranding => {
+    const key = normalizeVendorName(name);
+    const brand = Object.keys(BRANDS).find(b => key === b || key.startsWith(b));
+    return brand ? BRANDS[brand] : { ...DEFAULT_BRANDING, initials: initialsOf(name) };
+};
+
+/**
+ * Resolves the vendor of an order. Orders carry a vendor ID; rows created before
+ * vendor master data fall back to their name. An exact (normalized) match wins,
+ * otherwise names sharing a prefix match ("Amazon" ~ "Amazon.com Inc") and the
+ * longest such vendor name is taken — the same rule the migration backfill uses.
+ */
+export const resolveVendor = (vendors: Vendor[], ref: { vendorId?: string; vendor?: string }): Vendor | undefined => {
+    if (ref.vendorId) {
+        const byId = vendors.find(v => v.id === ref.vendorId);
+        if (byId) return byId;
+    }
+    if (!ref.vendor) return undefined;
+    const key = normalizeVendorName(ref.vendor);
+    if (!key) return undefined;
+    const exact = vendors.find(v => normalizeVendorName(v.name) === key);
+    if (exact) return exact;
+    return vendors
+        .map(v => ({ vendor: v, name: normalizeVendorName(v.name) }))
+        .filter(({ name }) => name && (key.startsWith(name) || name.startsWith(key)))
+        .sort((a, b) => b.name.length - a.name.length)[0]?.vendor;
+};
+
+/**
+ * Branding plus the vendor's logo, for headers, chips and filter buttons.
+ */
+export const getVendorDisplay = (vendor: Vendor | undefined, fallbackName: string): VendorBranding & { logo?: string } => ({
+    ...getVendorBranding(vendor?.name || fallbackName),
+    logo: vendor?.logoUrl
+});